@@ -0,0 +1,82 @@
+import { createClient } from '@supabase/supabase-js';
+import type { LinkPreview } from './unfurl.js';
+
+/**
+ * Where unfurled previews are kept between requests. `preview` is null for a
+ * link that couldn't be previewed, so failures aren't refetched on every view.
+ */
+export interface PreviewCacheEntry {
+  preview: LinkPreview | null;
+  fetchedAt: Date;
+}
+
+export interface PreviewCache {
+  get(url: string): Promise<PreviewCacheEntry | null>;
+  set(url: string, preview: LinkPreview | null): Promise<void>;
+}
+
+interface LinkPreviewRow {
+  url: string;
+  resolved_url: string | null;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  status: 'ok' | 'failed';
+  fetched_at: string;
+}
+
+/**
+ * The `link_previews` table, written with the service role key since clients
+ * can only read it.
+ */
+export const createSupabasePreviewCache = (supabaseUrl: string, serviceRoleKey: string): PreviewCache => {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return {
+    async get(url) {
+      const { data, error } = await supabase
+        .from('link_previews')
+        .select('url, resolved_url, title, description, image_url, site_name, status, fetched_at')
+        .eq('url', url)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const row = data as LinkPreviewRow;
+      return {
+        fetchedAt: new Date(row.fetched_at),
+        preview: row.status === 'ok'
+          ? {
+              url: row.url,
+              resolvedUrl: row.resolved_url || row.url,
+              title: row.title,
+              description: row.description,
+              imageUrl: row.image_url,
+              siteName: row.site_name,
+            }
+          : null,
+      };
+    },
+
+    async set(url, preview) {
+      const { error } = await supabase
+        .from('link_previews')
+        .upsert({
+          url,
+          resolved_url: preview?.resolvedUrl ?? null,
+          title: preview?.title ?? null,
+          description: preview?.description ?? null,
+          image_url: preview?.imageUrl ?? null,
+          site_name: preview?.siteName ?? null,
+          status: preview ? 'ok' : 'failed',
+          fetched_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    },
+  };
+};
@@ -0,0 +1,382 @@
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { isIP } from 'node:net';
+import { Readable } from 'node:stream';
+
+/**
+ * Fetches a page and reads its OpenGraph / Twitter card metadata.
+ *
+ * Everything a caller could want to change in a test is an option: point it at
+ * a fixture server on localhost with `allowPrivateHosts`, shrink the limits, or
+ * resolve host names yourself. Nothing here touches the cache or the request.
+ */
+
+export interface LinkPreview {
+  url: string; // the link as posted
+  resolvedUrl: string; // where redirects ended up
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+export interface UnfurlOptions {
+  timeoutMs?: number; // for the whole fetch, redirects included
+  maxBytes?: number; // of HTML read before giving up on finding more tags
+  maxRedirects?: number;
+  allowPrivateHosts?: boolean; // loopback and private networks, for fixture servers only
+  userAgent?: string;
+  resolveHost?: (hostname: string) => Promise<string[]>; // DNS by default
+}
+
+// A link that passed the checks, with the address its host resolved to at the time
+export interface UnfurlTarget {
+  url: URL;
+  address: string;
+}
+
+export const UNFURL_DEFAULTS = {
+  timeoutMs: 4000,
+  maxBytes: 512 * 1024,
+  maxRedirects: 3,
+  userAgent: 'TravelAppLinkPreview/1.0 (+link previews for posts)',
+} as const;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// `status` is what the endpoint answers with when unfurling fails this way
+export class UnfurlError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UnfurlError';
+  }
+}
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+};
+
+// The IPv4 address at the end of an IPv6 one, dotted or, as URL parsing rewrites it, in hex (::ffff:c0a8:1)
+const embeddedIPv4 = (tail: string): string | null => {
+  if (isIP(tail) === 4) return tail;
+
+  const hex = tail.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+};
+
+const isPrivateAddress = (address: string): boolean => {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped and NAT64 addresses reach the IPv4 address in their last 32 bits
+  const prefix = ['::ffff:', '64:ff9b::'].find(candidate => lower.startsWith(candidate));
+  if (prefix) {
+    const embedded = embeddedIPv4(lower.slice(prefix.length));
+    return embedded === null || isPrivateIPv4(embedded);
+  }
+
+  return (
+    lower === '::' ||
+    lower.startsWith('64:ff9b:1:') || // local-use NAT64
+
+    lower === '::1' ||
+    lower.startsWith('fc') ||
+    lower.startsWith('fd') ||
+    /^fe[89ab]/.test(lower)
+  );
+};
+
+const resolveWithDns = async (hostname: string): Promise<string[]> =>
+  (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+// Settles like `promise`, or rejects as soon as `signal` aborts; a lookup can't be cancelled, only abandoned
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * The link as a URL we're willing to fetch: http(s) on the default ports, no
+ * credentials, and a host that doesn't resolve into a private network. The
+ * fetch has to connect to the returned address rather than look the host up
+ * again, or a host could answer the check with a public address and the fetch
+ * with a private one.
+ */
+export const checkUnfurlTarget = async (
+  rawUrl: string,
+  allowPrivateHosts = false,
+  resolveHost: (hostname: string) => Promise<string[]> = resolveWithDns,
+  signal?: AbortSignal
+): Promise<UnfurlTarget> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UnfurlError('Not a valid URL', 400);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('Only http and https links can be previewed', 400);
+  }
+  if (url.username || url.password) {
+    throw new UnfurlError('Links with credentials are not previewed', 400);
+  }
+  if (url.port && !allowPrivateHosts) {
+    throw new UnfurlError('Links on non-standard ports are not previewed', 400);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await untilAborted(resolveHost(host), signal);
+  } catch {
+    if (signal?.aborted) throw new UnfurlError('The link took too long to answer', 504);
+    throw new UnfurlError('Could not resolve the link host', 502);
+  }
+
+  if (addresses.length === 0) {
+    throw new UnfurlError('Could not resolve the link host', 502);
+  }
+  if (!allowPrivateHosts && addresses.some(isPrivateAddress)) {
+    throw new UnfurlError('Links to private networks are not previewed', 400);
+  }
+
+  return { url, address: addresses[0] };
+};
+
+// Statuses a Response can't be given a body for
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * GET `target` over a connection to its checked address. TLS still verifies
+ * the certificate against the host name, and the Host header is unchanged.
+ */
+const fetchTarget = ({ url, address }: UnfurlTarget, headers: Record<string, string>, signal: AbortSignal): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const family = isIP(address);
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [{ address, family }]);
+      } else {
+        callback(null, address, family);
+      }
+    };
+
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      { method: 'GET', headers, signal, lookup: pinnedLookup },
+      response => {
+        const status = response.statusCode ?? 502;
+        const responseHeaders = new Headers();
+        for (const [name, value] of Object.entries(response.headers)) {
+          if (Array.isArray(value)) value.forEach(item => responseHeaders.append(name, item));
+          else if (value !== undefined) responseHeaders.set(name, value);
+        }
+
+        if (NULL_BODY_STATUSES.has(status)) {
+          response.resume();
+          resolve(new Response(null, { status, headers: responseHeaders }));
+          return;
+        }
+
+        const body = Readable.toWeb(response) as unknown as ReadableStream<Uint8Array>;
+        resolve(new Response(body, { status, headers: responseHeaders }));
+      }
+    );
+
+    request.on('error', reject);
+    request.end();
+  });
+
+// Reads at most `maxBytes`, stopping early once the <head> is over
+const readHead = async (response: Response, maxBytes: number): Promise<string> => {
+  const charset = response.headers.get('content-type')?.match(/charset=["']?([\w-]+)/i)?.[1];
+  const decoder = (() => {
+    try {
+      return new TextDecoder(charset || 'utf-8');
+    } catch {
+      return new TextDecoder('utf-8'); // unknown charset label
+    }
+  })();
+
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  let html = '';
+  let bytes = 0;
+
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const chunk = value.subarray(0, maxBytes - bytes);
+      bytes += chunk.byteLength;
+      html += decoder.decode(chunk, { stream: true });
+
+      if (/<\/head\s*>/i.test(html)) break;
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return html + decoder.decode();
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+const clean = (value: string | undefined, maxLength: number): string | null => {
+  const text = value ? decodeEntities(value).replace(/\s+/g, ' ').trim() : '';
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+/**
+ * Preview fields from a page's HTML. OpenGraph wins over Twitter card tags,
+ * which win over the plain <title> and description.
+ */
+export const parseLinkMetadata = (
+  html: string,
+  pageUrl: string
+): Omit<LinkPreview, 'url' | 'resolvedUrl'> => {
+  const meta = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(ATTRIBUTE)) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+
+    const key = (attributes.property || attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+
+  const pick = (...keys: string[]) => keys.map(key => meta.get(key)).find(value => value?.trim());
+  const title = pick('og:title', 'twitter:title') ?? html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const image = pick('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src');
+
+  let imageUrl: string | null = null;
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image.trim()), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') imageUrl = resolved.href;
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    title: clean(title, MAX_TITLE_LENGTH),
+    description: clean(pick('og:description', 'twitter:description', 'description'), MAX_DESCRIPTION_LENGTH),
+    imageUrl,
+    siteName: clean(pick('og:site_name', 'application-name'), MAX_TITLE_LENGTH),
+  };
+};
+
+/**
+ * Fetch `rawUrl` and read its preview. Redirects are followed by hand so every
+ * hop goes through the same host checks, and each hop connects to the address
+ * its check resolved. The timeout covers the lookups too. Pages that aren't
+ * HTML come back with empty fields rather than an error.
+ */
+export const unfurlUrl = async (rawUrl: string, options: UnfurlOptions = {}): Promise<LinkPreview> => {
+  const {
+    timeoutMs = UNFURL_DEFAULTS.timeoutMs,
+    maxBytes = UNFURL_DEFAULTS.maxBytes,
+    maxRedirects = UNFURL_DEFAULTS.maxRedirects,
+    allowPrivateHosts = false,
+    userAgent = UNFURL_DEFAULTS.userAgent,
+    resolveHost = resolveWithDns,
+  } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let target = await checkUnfurlTarget(rawUrl, allowPrivateHosts, resolveHost, controller.signal);
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      response = await fetchTarget(target, {
+        'User-Agent': userAgent,
+        Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+      }, controller.signal);
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      response.body?.cancel().catch(() => undefined);
+      if (redirects >= maxRedirects) {
+        throw new UnfurlError('Too many redirects', 502);
+      }
+      target = await checkUnfurlTarget(new URL(location, target.url).href, allowPrivateHosts, resolveHost, controller.signal);
+    }
+
+    if (!response.ok) {
+      response.body?.cancel().catch(() => undefined);
+      throw new UnfurlError(`The link answered with ${response.status}`, 502);
+    }
+
+    const preview: LinkPreview = {
+      url: rawUrl,
+      resolvedUrl: target.url.href,
+      title: null,
+      description: null,
+      imageUrl: null,
+      siteName: null,
+    };
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      response.body?.cancel().catch(() => undefined);
+      return preview;
+    }
+
+    const html = await readHead(response, maxBytes);
+    return { ...preview, ...parseLinkMetadata(html, target.url.href) };
+  } catch (error) {
+    if (error instanceof UnfurlError) throw error;
+    if (controller.signal.aborted) throw new UnfurlError('The link took too long to answer', 504);
+    throw new UnfurlError('Could not fetch the link', 502);
+  } finally {
+    clearTimeout(timer);
+  }
+};
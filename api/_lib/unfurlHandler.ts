@@ -0,0 +1,81 @@
+import type { PreviewCache } from './previewCache.js';
+import { UnfurlError, UnfurlOptions, unfurlUrl } from './unfurl.js';
+
+export interface UnfurlHandlerDeps {
+  cache: PreviewCache | null; // null serves every request fresh
+  unfurlOptions?: UnfurlOptions;
+  now?: () => number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Previews are kept for a day; links that failed are retried after an hour
+export const PREVIEW_TTL_MS = 24 * HOUR;
+export const FAILED_PREVIEW_TTL_MS = HOUR;
+
+const MAX_URL_LENGTH = 2048;
+
+const json = (body: unknown, status: number, cacheSeconds = 0): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': cacheSeconds > 0
+        ? `public, max-age=${Math.min(cacheSeconds, 3600)}, s-maxage=${cacheSeconds}`
+        : 'no-store',
+    },
+  });
+
+/**
+ * `GET ?url=<link>` → `{ preview }`, or `{ error }` with a 4xx/5xx status.
+ * Cache errors are logged and skipped, so previews keep working without the table.
+ */
+export const handleUnfurlRequest = async (request: Request, deps: UnfurlHandlerDeps): Promise<Response> => {
+  const { cache, unfurlOptions, now = Date.now } = deps;
+
+  if (request.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const rawUrl = new URL(request.url).searchParams.get('url');
+  if (!rawUrl || rawUrl.length > MAX_URL_LENGTH) {
+    return json({ error: 'Pass the link to preview as ?url=' }, 400);
+  }
+
+  let url: string;
+  try {
+    url = new URL(rawUrl).href;
+  } catch {
+    return json({ error: 'Not a valid URL' }, 400);
+  }
+
+  try {
+    const cached = await cache?.get(url);
+    if (cached) {
+      const ttl = cached.preview ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS;
+      const age = now() - cached.fetchedAt.getTime();
+      if (age < ttl) {
+        const maxAge = Math.floor((ttl - age) / 1000);
+        return cached.preview
+          ? json({ preview: cached.preview }, 200, maxAge)
+          : json({ error: 'No preview for this link' }, 404, maxAge);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading link preview cache:', error);
+  }
+
+  try {
+    const preview = await unfurlUrl(url, unfurlOptions);
+    await cache?.set(url, preview).catch(error => console.error('Error caching link preview:', error));
+    return json({ preview }, 200, PREVIEW_TTL_MS / 1000);
+  } catch (error) {
+    if (!(error instanceof UnfurlError)) throw error;
+
+    // Bad input isn't worth remembering; unreachable pages are, for a while
+    if (error.status >= 500) {
+      await cache?.set(url, null).catch(cacheError => console.error('Error caching link preview:', cacheError));
+    }
+    return json({ error: error.message }, error.status, error.status >= 500 ? FAILED_PREVIEW_TTL_MS / 1000 : 0);
+  }
+};
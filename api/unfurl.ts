@@ -0,0 +1,25 @@
+import { createSupabasePreviewCache } from './_lib/previewCache.js';
+import { handleUnfurlRequest } from './_lib/unfurlHandler.js';
+
+/**
+ * Link previews for posts: `GET /api/unfurl?url=<link>`.
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY to
+ * cache results in `link_previews`; without them every request is fetched
+ * fresh. UNFURL_ALLOW_PRIVATE_HOSTS=true lets `vercel dev` preview pages from a
+ * local fixture server and must never be set in production.
+ */
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const cache = supabaseUrl && serviceRoleKey ? createSupabasePreviewCache(supabaseUrl, serviceRoleKey) : null;
+
+export function GET(request: Request): Promise<Response> {
+  return handleUnfurlRequest(request, {
+    cache,
+    unfurlOptions: {
+      allowPrivateHosts: process.env.UNFURL_ALLOW_PRIVATE_HOSTS === 'true',
+    },
+  });
+}
@@ -10,6 +10,7 @@ import { LazyLoadWrapper } from './components/ui/LazyLoadWrapper';
 import { useAuth } from './hooks/useAuth';
 import { usePreloader } from './hooks/usePreloader';
 import { AdminPanel } from './components/AdminPanel';
+import { startOutboxSync } from './lib/outbox';
 
 // Lazy load heavy components
 import {
@@ -19,9 +20,13 @@ import {
   LazyUserProfilePage,
   LazyOptimizedSearchPage,
   LazyHashtagPage,
+  LazyPlacePage,
   LazyNotificationsPage,
   LazyMessagesPage,
   LazyFollowListPage,
+  LazyDraftsPage,
+  LazyTripsPage,
+  LazyTripPage,
 } from './components/LazyComponents';
 
 function App() {
@@ -36,6 +41,9 @@ function App() {
   // Initialize preloader when user is authenticated
   usePreloader();
 
+  // Replay likes, follows and posts queued while offline, now and on reconnect
+  useEffect(() => (user ? startOutboxSync() : undefined), [user?.id]);
+
   // Show loading spinner while checking auth state
   if (loading) {
     return (
@@ -58,7 +66,7 @@ function App() {
           {/* Mobile: Full width, Desktop: Centered with max-width */}
           <div className="flex flex-1 w-full md:max-w-[1200px]">
             {/* Desktop Sidebar */}
-            <div className="hidden md:block">
+            <div className="hidden md:block print:hidden">
               <Sidebar />
             </div>
             
@@ -74,6 +82,30 @@ function App() {
                     </LazyLoadWrapper>
                   } 
                 />
+                <Route 
+                  path="/drafts" 
+                  element={
+                    <LazyLoadWrapper>
+                      <LazyDraftsPage />
+                    </LazyLoadWrapper>
+                  } 
+                />
+                <Route 
+                  path="/trips" 
+                  element={
+                    <LazyLoadWrapper>
+                      <LazyTripsPage />
+                    </LazyLoadWrapper>
+                  } 
+                />
+                <Route 
+                  path="/trips/:tripId" 
+                  element={
+                    <LazyLoadWrapper>
+                      <LazyTripPage />
+                    </LazyLoadWrapper>
+                  } 
+                />
                 <Route 
                   path="/tweet/:tweetId" 
                   element={
@@ -98,6 +130,14 @@ function App() {
                     </LazyLoadWrapper>
                   } 
                 />
+                <Route 
+                  path="/place/:placeId" 
+                  element={
+                    <LazyLoadWrapper>
+                      <LazyPlacePage />
+                    </LazyLoadWrapper>
+                  } 
+                />
                 <Route 
                   path="/notifications" 
                   element={
@@ -6,6 +6,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { useLanguageStore } from '../store/useLanguageStore';
 import { supabase } from '../lib/supabase';
+import { useRealtime } from '../hooks/useRealtime';
 
 interface UserProfile {
   id: string;
@@ -39,36 +40,17 @@ export const AdminPanel: React.FC = () => {
     fetchUsers();
   }, []);
 
-  // Set up real-time subscription for profile changes
-  useEffect(() => {
-    const channel = supabase
-      .channel('admin_profile_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'profiles',
-        },
-        (payload) => {
-          console.log('🔄 Real-time profile update:', payload);
-          
-          if (payload.eventType === 'UPDATE') {
-            const updatedProfile = payload.new as UserProfile;
-            setUsers(prev => prev.map(user => 
-              user.id === updatedProfile.id 
-                ? { ...user, ...updatedProfile }
-                : user
-            ));
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  // Real-time profile changes; shares the profiles channel with useProfileSync
+  useRealtime([{ event: 'UPDATE', table: 'profiles' }], (payload) => {
+    console.log('🔄 Real-time profile update:', payload);
+
+    const updatedProfile = payload.new as UserProfile;
+    setUsers(prev => prev.map(user => 
+      user.id === updatedProfile.id 
+        ? { ...user, ...updatedProfile }
+        : user
+    ));
+  });
 
   useEffect(() => {
     if (searchQuery.trim() === '') {
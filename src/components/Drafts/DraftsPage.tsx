@@ -0,0 +1,215 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { ArrowLeft, CalendarClock, FileText, Image, Pencil, Trash2, XCircle } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '../ui/button';
+import { useAuth } from '../../hooks/useAuth';
+import { useDrafts } from '../../hooks/useDrafts';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { PostDraft } from '../../types';
+
+type DraftsTab = 'drafts' | 'scheduled';
+
+// Saved drafts and scheduled posts; either opens back in the compose page
+export const DraftsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: DraftsTab = searchParams.get('tab') === 'scheduled' ? 'scheduled' : 'drafts';
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const { drafts, scheduled, loading, error, remove, unschedule } = useDrafts(user?.id);
+  const locale = language === 'ar' ? arSA : enUS;
+  const items = tab === 'scheduled' ? scheduled : drafts;
+
+  const setTab = (next: DraftsTab) => {
+    setSearchParams(next === 'scheduled' ? { tab: next } : {}, { replace: true });
+  };
+
+  const openDraft = (draft: PostDraft) => {
+    navigate(`/compose?draft=${draft.id}`);
+  };
+
+  const handleDelete = (e: React.MouseEvent, draft: PostDraft) => {
+    e.stopPropagation();
+    remove(draft.id);
+  };
+
+  const handleUnschedule = (e: React.MouseEvent, draft: PostDraft) => {
+    e.stopPropagation();
+    unschedule(draft.id);
+  };
+
+  const renderStatus = (draft: PostDraft) => {
+    if (draft.status === 'failed') {
+      return (
+        <p className="text-xs text-red-600 mt-1" title={draft.lastError}>
+          {language === 'en' ? "Couldn't publish. Edit it to schedule again" : 'تعذر النشر. عدّلها لجدولتها مرة أخرى'}
+        </p>
+      );
+    }
+
+    if (draft.status === 'scheduled' && draft.scheduledAt) {
+      return (
+        <p className="text-xs text-blue-600 mt-1 flex items-center gap-1">
+          <CalendarClock className="w-3 h-3" />
+          {language === 'en' ? 'Will post on ' : 'سيتم النشر في '}
+          {format(draft.scheduledAt, 'PPp', { locale })}
+        </p>
+      );
+    }
+
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        {language === 'en' ? 'Saved ' : 'حُفظت '}
+        {formatDistanceToNow(draft.updatedAt, { addSuffix: true, locale })}
+      </p>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-md border-b border-gray-200 px-4 py-3 z-10 flex-shrink-0">
+        <div className={`flex items-center ${isRTL ? 'space-x-reverse space-x-4' : 'space-x-4'}`}>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/compose')}
+            className="p-2"
+            aria-label={language === 'en' ? 'Go back' : 'العودة'}
+          >
+            <ArrowLeft className={`h-5 w-5 ${isRTL ? 'rotate-180' : ''}`} />
+          </Button>
+          <h1 className="text-xl font-bold">{language === 'en' ? 'Drafts' : 'المسودات'}</h1>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 flex-shrink-0">
+        <div className="flex">
+          {(['drafts', 'scheduled'] as DraftsTab[]).map(value => (
+            <Button
+              key={value}
+              variant="ghost"
+              onClick={() => setTab(value)}
+              className={`flex-1 py-4 px-4 font-bold text-base rounded-none border-b-2 transition-colors ${
+                tab === value
+                  ? 'border-blue-500 text-black'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              {value === 'drafts'
+                ? (language === 'en' ? 'Drafts' : 'المسودات')
+                : (language === 'en' ? 'Scheduled' : 'المجدولة')}
+              {value === 'scheduled' && scheduled.length > 0 && ` (${scheduled.length})`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* List */}
+      <div className="flex-1 pb-20 md:pb-0">
+        {loading && items.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              {tab === 'scheduled'
+                ? <CalendarClock className="w-8 h-8 text-gray-400" />
+                : <FileText className="w-8 h-8 text-gray-400" />}
+            </div>
+            <p className="text-lg mb-2">
+              {tab === 'scheduled'
+                ? (language === 'en' ? 'No scheduled posts' : 'لا توجد منشورات مجدولة')
+                : (language === 'en' ? 'No drafts yet' : 'لا توجد مسودات بعد')}
+            </p>
+            <p className="text-sm text-gray-400">
+              {tab === 'scheduled'
+                ? (language === 'en' ? 'Pick a date and time in the composer to post later.' : 'اختر تاريخاً ووقتاً في صفحة الإنشاء للنشر لاحقاً.')
+                : (language === 'en' ? 'Posts you start writing are saved here automatically.' : 'تُحفظ المنشورات التي تبدأ بكتابتها هنا تلقائياً.')}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {items.map(draft => {
+              const mediaCount = draft.images.length + draft.videos.length;
+
+              return (
+                <div
+                  key={draft.id}
+                  onClick={() => openDraft(draft)}
+                  className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm text-gray-900 line-clamp-3 whitespace-pre-wrap break-words ${isRTL ? 'text-right' : 'text-left'}`}>
+                        {draft.content.trim() || (
+                          <span className="text-gray-400 italic">
+                            {language === 'en' ? 'No text' : 'بدون نص'}
+                          </span>
+                        )}
+                      </p>
+                      {mediaCount > 0 && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                          <Image className="w-3 h-3" />
+                          {language === 'en'
+                            ? `${mediaCount} media file${mediaCount === 1 ? '' : 's'}`
+                            : `${mediaCount} ملفات وسائط`}
+                        </p>
+                      )}
+                      {renderStatus(draft)}
+                    </div>
+
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openDraft(draft);
+                        }}
+                        className="p-1 hover:bg-blue-100"
+                        title={language === 'en' ? 'Edit' : 'تعديل'}
+                      >
+                        <Pencil className="h-4 w-4 text-blue-500" />
+                      </Button>
+                      {draft.status !== 'draft' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => handleUnschedule(e, draft)}
+                          className="p-1 hover:bg-gray-100"
+                          title={language === 'en' ? 'Cancel schedule' : 'إلغاء الجدولة'}
+                        >
+                          <XCircle className="h-4 w-4 text-gray-500" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => handleDelete(e, draft)}
+                        className="p-1 hover:bg-red-100"
+                        title={language === 'en' ? 'Delete' : 'حذف'}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
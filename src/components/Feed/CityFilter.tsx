@@ -0,0 +1,59 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getCitiesInCountry, getLocalizedPlaceName } from '../../lib/gazetteer';
+
+interface CityFilterProps {
+  countryCode: string;
+  cityFilter: string | null;
+  onCityChange: (cityId: string | null) => void;
+  isMobile?: boolean;
+}
+
+// The gazetteer's cities in the selected country, narrowing the feed to posts tagged there
+export const CityFilter: React.FC<CityFilterProps> = ({
+  countryCode,
+  cityFilter,
+  onCityChange,
+  isMobile = false,
+}) => {
+  const { language } = useLanguageStore();
+  const cities = getCitiesInCountry(countryCode);
+
+  if (cities.length === 0) return null;
+
+  const chipClass = (active: boolean) =>
+    `rounded-full px-3 py-1 text-xs font-medium whitespace-nowrap transition-colors flex-shrink-0 ${
+      active
+        ? 'bg-blue-500 text-white hover:bg-blue-600'
+        : 'text-gray-600 hover:bg-gray-100 border border-gray-200'
+    }`;
+
+  return (
+    <div className={`py-2 border-b border-gray-100 ${isMobile ? 'px-4' : 'px-4 md:px-6'}`}>
+      <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide">
+        <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <Button
+          variant={cityFilter === null ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onCityChange(null)}
+          className={chipClass(cityFilter === null)}
+        >
+          {language === 'en' ? 'All cities' : 'جميع المدن'}
+        </Button>
+        {cities.map(city => (
+          <Button
+            key={city.id}
+            variant={cityFilter === city.id ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onCityChange(city.id)}
+            className={chipClass(cityFilter === city.id)}
+          >
+            {getLocalizedPlaceName(city, language)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -7,15 +7,33 @@ import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { useLazyTweets } from '../../hooks/useLazyTweets';
 import { useAuth } from '../../hooks/useAuth';
 import { useTweets } from '../../hooks/useTweets';
-import { supabase } from '../../lib/supabase';
-import { Tweet } from '../../types';
+import { useUnansweredQuestions } from '../../hooks/useUnansweredQuestions';
+import { useFilteredFeed } from '../../hooks/useFilteredFeed';
+import { Tweet, TweetWithProfile } from '../../types';
 import { feedCache, cacheKeys } from '../../lib/cache';
+import { useStore } from '../../store/useStore';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { selectTweets, hydrateTweets, PINNED_TWEET_SELECT } from '../../lib/tweetRepository';
+import { isFlightDealExpired } from '../../lib/flightDeals';
+import { isListingFilterActive, ListingFilter, matchesListingFilter } from '../../lib/listings';
 
 interface InfiniteScrollTweetsProps {
   isMobile?: boolean;
   feedType: 'for-you' | 'following';
   categoryFilter: string | null;
   countryFilter: string;
+  /** Gazetteer city id; only posts tagged with a place in that city are shown */
+  cityFilter?: string | null;
+  /** Only posts with a flight deal that hasn't expired are shown */
+  activeDealsOnly?: boolean;
+  /** Only question posts without an accepted answer are shown, fetched as their own feed */
+  unansweredOnly?: boolean;
+  /** Price and availability a listing has to fit; posts without a listing are hidden while it's set */
+  listingFilter?: ListingFilter | null;
+  /** Encoded feed cursor to resume the active feed from, e.g. one saved before a reload */
+  initialCursor?: string | null;
+  /** Called with the encoded cursor of the last loaded tweet whenever the active feed advances */
+  onCursorChange?: (cursor: string | null, feedType: 'for-you' | 'following') => void;
 }
 
 export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.memo(({
@@ -23,20 +41,29 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
   feedType,
   categoryFilter,
   countryFilter,
+  cityFilter = null,
+  activeDealsOnly = false,
+  unansweredOnly = false,
+  listingFilter = null,
+  initialCursor,
+  onCursorChange,
 }) => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { language } = useLanguageStore();
   const { likeTweet, unlikeTweet, retweetTweet, unretweetTweet, bookmarkTweet, unbookmarkTweet } = useTweets();
   const [filteredTweets, setFilteredTweets] = useState<Tweet[]>([]);
   const [pinnedTweets, setPinnedTweets] = useState<Tweet[]>([]);
   const [loadingPinned, setLoadingPinned] = useState(false);
   const [pinnedTweetsKey, setPinnedTweetsKey] = useState(0); // Force refresh key
+  const upsertTweets = useStore(state => state.upsertTweets);
   
   // Use different hooks based on feed type with optimized page sizes
   const forYouFeed = useLazyTweets({
     pageSize: 20, // Subsequent loads
     initialPageSize: 50, // Initial load
     initialLoad: feedType === 'for-you',
+    initialCursor: feedType === 'for-you' ? initialCursor : null,
   });
   
   const followingFeed = useLazyTweets({
@@ -44,11 +71,40 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
     initialPageSize: 50, // Initial load
     initialLoad: feedType === 'following',
     followingOnly: true,
+    initialCursor: feedType === 'following' ? initialCursor : null,
+  });
+
+  // Open questions are paged from their own query, so older ones don't wait for the feed to reach them
+  const questionsFeed = useUnansweredQuestions({
+    countryCode: countryFilter && countryFilter !== 'ALL' ? countryFilter : null,
+    followingOnly: feedType === 'following',
+    enabled: unansweredOnly,
+  });
+
+  // A city, live deals or a listing filter are paged on the server too, category and country included
+  const hasListingFilter = !!listingFilter && isListingFilterActive(listingFilter);
+  const serverFiltered = !unansweredOnly && (!!cityFilter || activeDealsOnly || hasListingFilter);
+  const filteredFeed = useFilteredFeed({
+    countryCode: countryFilter && countryFilter !== 'ALL' ? countryFilter : null,
+    category: categoryFilter,
+    followingOnly: feedType === 'following',
+    cityId: cityFilter,
+    activeDealsOnly,
+    listingFilter,
+    enabled: serverFiltered,
   });
 
   // Get the appropriate feed data based on active tab
   const currentFeed = feedType === 'for-you' ? forYouFeed : followingFeed;
-  const { tweets, loading, hasMore, error, loadMore } = currentFeed;
+  const { cursor, newTweetsCount, showNewTweets } = currentFeed;
+  const { tweets, loading, hasMore, error, loadMore } = unansweredOnly
+    ? questionsFeed
+    : serverFiltered ? filteredFeed : currentFeed;
+
+  // Report the feed position so callers can persist it and resume later
+  useEffect(() => {
+    onCursorChange?.(cursor, feedType);
+  }, [cursor, feedType, onCursorChange]);
 
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
@@ -61,7 +117,7 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
       setLoadingPinned(true);
       
       // Check cache first
-      const cacheKey = 'pinned_tweets:home';
+      const cacheKey = cacheKeys.pinnedHome();
       const cachedPinned = feedCache.get<Tweet[]>(cacheKey);
       
       if (cachedPinned) {
@@ -73,37 +129,7 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
       
       console.log('🔄 Loading pinned tweets...');
       
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          pinned_to_home,
-          pinned_to_profile,
-          pinned_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
+      const { data, error } = await selectTweets(PINNED_TWEET_SELECT)
         .eq('pinned_to_home', true)
         .order('pinned_at', { ascending: false })
         .limit(5); // Limit to 5 pinned tweets max
@@ -112,60 +138,9 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
 
       console.log('✅ Pinned tweets loaded:', data.length);
 
-      // Get current user interactions for pinned tweets
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-      
-      if (user && data.length > 0) {
-        const tweetIds = data.map(tweet => tweet.id);
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase.from('likes').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds),
-          supabase.from('retweets').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds),
-          supabase.from('bookmarks').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
-      // Format pinned tweets
-      const formattedPinnedTweets: Tweet[] = data.map(tweetData => {
-        const profile = Array.isArray(tweetData.profiles) ? tweetData.profiles[0] : tweetData.profiles;
-        
-        return {
-          id: tweetData.id,
-          content: tweetData.content,
-          author: {
-            id: profile.id,
-            username: profile.username,
-            displayName: profile.display_name || profile.username,
-            avatar: profile.avatar_url || '',
-            bio: profile.bio || '',
-            verified: profile.verified || false,
-            followers: profile.followers_count || 0,
-            following: profile.following_count || 0,
-            country: profile.country || 'US',
-            joinedDate: new Date(profile.created_at),
-          },
-          createdAt: new Date(tweetData.created_at),
-          likes: tweetData.likes_count || 0,
-          retweets: tweetData.retweets_count || 0,
-          replies: tweetData.replies_count || 0,
-          views: tweetData.views_count || 0,
-          images: tweetData.image_urls || [],
-          isLiked: userLikes.includes(tweetData.id),
-          isRetweeted: userRetweets.includes(tweetData.id),
-          isBookmarked: userBookmarks.includes(tweetData.id),
-          hashtags: tweetData.hashtags || [],
-          mentions: tweetData.mentions || [],
-          tags: tweetData.tags || [],
-          pinnedToHome: tweetData.pinned_to_home || false,
-          pinnedToProfile: tweetData.pinned_to_profile || false,
-          pinnedAt: tweetData.pinned_at ? new Date(tweetData.pinned_at) : undefined,
-        };
-      });
+      // Format pinned tweets with the current user's interactions
+      const formattedPinnedTweets = await hydrateTweets(data as unknown as TweetWithProfile[], user?.id);
+      upsertTweets(formattedPinnedTweets);
 
       // Cache the pinned tweets
       feedCache.set(cacheKey, formattedPinnedTweets, 5 * 60 * 1000); // Cache for 5 minutes
@@ -176,7 +151,7 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
     } finally {
       setLoadingPinned(false);
     }
-  }, [feedType, user, pinnedTweetsKey]);
+  }, [feedType, user, pinnedTweetsKey, upsertTweets]);
 
   // Load pinned tweets when component mounts or feed type changes
   useEffect(() => {
@@ -186,6 +161,7 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
   // Function to refresh pinned tweets (can be called from child components)
   const refreshPinnedTweets = useCallback(() => {
     console.log('🔄 Refreshing pinned tweets...');
+    feedCache.delete(cacheKeys.pinnedHome());
     setPinnedTweetsKey(prev => prev + 1);
   }, []);
 
@@ -207,8 +183,28 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
       );
     }
 
+    // Filter by city
+    if (cityFilter) {
+      filtered = filtered.filter(tweet => tweet.place?.cityId === cityFilter);
+    }
+
+    // Filter to live flight deals
+    if (activeDealsOnly) {
+      filtered = filtered.filter(tweet => tweet.flightDeal && !isFlightDealExpired(tweet.flightDeal));
+    }
+
+    // Drop questions answered since their page was loaded
+    if (unansweredOnly) {
+      filtered = filtered.filter(tweet => tweet.isQuestion && !tweet.acceptedAnswerId);
+    }
+
+    // Filter listings by price and availability
+    if (listingFilter && isListingFilterActive(listingFilter)) {
+      filtered = filtered.filter(tweet => matchesListingFilter(tweet.listing, listingFilter));
+    }
+
     return filtered;
-  }, [tweets, categoryFilter, countryFilter]);
+  }, [tweets, categoryFilter, countryFilter, cityFilter, activeDealsOnly, unansweredOnly, listingFilter]);
 
   // Update state when filtered data changes
   useEffect(() => {
@@ -319,10 +315,24 @@ export const InfiniteScrollTweets: React.FC<InfiniteScrollTweetsProps> = React.m
   }
 
   const TweetComponent = isMobile ? MobileTweetCard : TweetCard;
-  const showFilters = categoryFilter || (countryFilter && countryFilter !== 'ALL');
+  const showFilters = categoryFilter || (countryFilter && countryFilter !== 'ALL') || cityFilter || activeDealsOnly || unansweredOnly || (listingFilter && isListingFilterActive(listingFilter));
 
   return (
     <div className="w-full">
+      {/* New posts banner, fed by the realtime feed subscription */}
+      {newTweetsCount > 0 && !unansweredOnly && !serverFiltered && (
+        <div className="sticky top-0 z-10 flex justify-center py-2 pointer-events-none">
+          <button
+            onClick={showNewTweets}
+            className="pointer-events-auto px-4 py-1.5 bg-blue-500 text-white text-sm font-medium rounded-full shadow-md hover:bg-blue-600 transition-colors"
+          >
+            {language === 'en'
+              ? `Show ${newTweetsCount} new ${newTweetsCount === 1 ? 'post' : 'posts'}`
+              : `عرض ${newTweetsCount} من التغريدات الجديدة`}
+          </button>
+        </div>
+      )}
+
       {/* Pinned Tweets Section - Only show on "For You" tab without filters */}
       {feedType === 'for-you' && !showFilters && (
         <>
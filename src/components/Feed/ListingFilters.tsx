@@ -0,0 +1,90 @@
+import React from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { ListingKind } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { emptyListingFilter, isListingFilterActive, ListingFilter } from '../../lib/listings';
+import { PRICE_CURRENCIES } from '../../lib/prices';
+
+interface ListingFiltersProps {
+  kind: ListingKind;
+  filter: ListingFilter;
+  onChange: (filter: ListingFilter) => void;
+  className?: string;
+}
+
+// Price range and availability for a Real estate or Car Rental feed
+export const ListingFilters: React.FC<ListingFiltersProps> = ({ kind, filter, onChange, className = '' }) => {
+  const { language } = useLanguageStore();
+  const inputClass = 'border border-gray-300 rounded-lg px-2 py-1 text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs text-gray-600 ${className}`}>
+      <SlidersHorizontal className="h-4 w-4 text-gray-400" />
+      <span className="font-medium">{language === 'en' ? 'Price' : 'السعر'}</span>
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        value={filter.minPrice}
+        onChange={(e) => onChange({ ...filter, minPrice: e.target.value })}
+        placeholder={language === 'en' ? 'Min' : 'من'}
+        aria-label={language === 'en' ? 'Minimum price' : 'أقل سعر'}
+        className={`${inputClass} w-20`}
+        dir="ltr"
+      />
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        value={filter.maxPrice}
+        onChange={(e) => onChange({ ...filter, maxPrice: e.target.value })}
+        placeholder={language === 'en' ? 'Max' : 'إلى'}
+        aria-label={language === 'en' ? 'Maximum price' : 'أعلى سعر'}
+        className={`${inputClass} w-20`}
+        dir="ltr"
+      />
+      <select
+        value={filter.currency}
+        onChange={(e) => onChange({ ...filter, currency: e.target.value })}
+        className={inputClass}
+        aria-label={language === 'en' ? 'Currency' : 'العملة'}
+      >
+        {PRICE_CURRENCIES.map(currency => (
+          <option key={currency} value={currency}>{currency}</option>
+        ))}
+      </select>
+
+      <span className="font-medium">
+        {kind === 'car'
+          ? (language === 'en' ? 'Pick-up to drop-off' : 'من الاستلام إلى التسليم')
+          : (language === 'en' ? 'Available' : 'متاح')}
+      </span>
+      <input
+        type="date"
+        value={filter.availableFrom}
+        onChange={(e) => onChange({ ...filter, availableFrom: e.target.value })}
+        className={inputClass}
+        aria-label={language === 'en' ? 'Available from' : 'متاح من'}
+      />
+      <input
+        type="date"
+        value={filter.availableTo}
+        min={filter.availableFrom || undefined}
+        onChange={(e) => onChange({ ...filter, availableTo: e.target.value })}
+        className={inputClass}
+        aria-label={language === 'en' ? 'Available until' : 'متاح حتى'}
+      />
+
+      {isListingFilterActive(filter) && (
+        <button
+          type="button"
+          onClick={() => onChange({ ...emptyListingFilter(), currency: filter.currency })}
+          className="flex items-center text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <X className="h-3.5 w-3.5" />
+          {language === 'en' ? 'Reset' : 'إعادة تعيين'}
+        </button>
+      )}
+    </div>
+  );
+};
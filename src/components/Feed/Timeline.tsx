@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { useLanguageStore } from '../../store/useLanguageStore';
 import { useWindowSize } from '../../hooks/useWindowSize';
 import { InfiniteScrollTweets } from './InfiniteScrollTweets';
+import { CityFilter } from './CityFilter';
+import { ListingFilters } from './ListingFilters';
 import { MobileTabs } from '../Layout/MobileTabs';
 import { FilterNavigation } from '../Layout/FilterNavigation';
 import { TrendingSidebar } from '../Layout/TrendingSidebar';
@@ -19,7 +21,9 @@ import { useTweets } from '../../hooks/useTweets';
 import { supabase } from '../../lib/supabase';
 import { FILTER_COUNTRIES, getLocalizedCountryName } from '../../types';
 import { X, ChevronDown, Check, ChevronLeft, ChevronRight } from 'lucide-react';
-import { feedCache, cacheKeys } from '../../lib/cache';
+import { feedCache, profileCache, cacheKeys } from '../../lib/cache';
+import { getLocalizedPlaceName, getPlace } from '../../lib/gazetteer';
+import { emptyListingFilter, getListingKind, ListingFilter } from '../../lib/listings';
 
 export const Timeline: React.FC = React.memo(() => {
   const navigate = useNavigate();
@@ -31,7 +35,11 @@ export const Timeline: React.FC = React.memo(() => {
   
   const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [countryFilter, setCountryFilter] = useState<string>('ALL');
+  // A gazetteer city in the selected country; cleared whenever the country changes
+  const [cityFilter, setCityFilter] = useState<string | null>(null);
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
+  // Price and availability, for the Real estate and Car Rental feeds
+  const [listingFilter, setListingFilter] = useState<ListingFilter>(emptyListingFilter);
   const [showSidebar, setShowSidebar] = useState(true);
   const [showFilterNavigation, setShowFilterNavigation] = useState(true);
   const [availableCountries, setAvailableCountries] = useState<Array<{code: string, name: string}>>([
@@ -239,18 +247,15 @@ export const Timeline: React.FC = React.memo(() => {
 
     try {
       // Check if we have preloaded profile data first
-      const preloadedData = sessionStorage.getItem('preloaded_user_profile');
+      const preloadedData = profileCache.get<any>(cacheKeys.profileRow(user.id));
       if (preloadedData) {
-        const parsed = JSON.parse(preloadedData);
-        if (Date.now() < parsed.expiry) {
-          console.log('⚡ Using preloaded profile data');
-          setUserProfile({
-            displayName: parsed.data.display_name,
-            username: parsed.data.username,
-            avatar: parsed.data.avatar_url || '',
-          });
-          return;
-        }
+        console.log('⚡ Using preloaded profile data');
+        setUserProfile({
+          displayName: preloadedData.display_name,
+          username: preloadedData.username,
+          avatar: preloadedData.avatar_url || '',
+        });
+        return;
       }
 
       const { data, error } = await supabase
@@ -301,6 +306,7 @@ export const Timeline: React.FC = React.memo(() => {
 
   const handleFilterChange = useCallback((filterId: string) => {
     setSelectedFilter(filterId);
+    setListingFilter(emptyListingFilter());
     
     // Map filter IDs to category filters
     switch (filterId) {
@@ -316,6 +322,14 @@ export const Timeline: React.FC = React.memo(() => {
       case 'flights':
         setCategoryFilter('Flights');
         break;
+      case 'active-deals':
+        // Narrowed to posts with a live deal by the feed itself
+        setCategoryFilter(null);
+        break;
+      case 'unanswered':
+        // Narrowed to open questions by the feed itself, per country with the country filter
+        setCategoryFilter(null);
+        break;
       case 'restaurants':
         setCategoryFilter('Restorants and coffees');
         break;
@@ -341,12 +355,15 @@ export const Timeline: React.FC = React.memo(() => {
 
   const handleCountryChange = useCallback((countryCode: string) => {
     setCountryFilter(countryCode);
+    setCityFilter(null);
   }, []);
 
   const clearFilters = useCallback(() => {
     setCategoryFilter(null);
     setCountryFilter('ALL');
+    setCityFilter(null);
     setSelectedFilter('all');
+    setListingFilter(emptyListingFilter());
   }, []);
 
   // Memoized scroll functions
@@ -418,6 +435,11 @@ export const Timeline: React.FC = React.memo(() => {
     [availableCountries, countryFilter]
   );
 
+  const selectedCity = getPlace(cityFilter);
+  const activeDealsOnly = selectedFilter === 'active-deals';
+  const unansweredOnly = selectedFilter === 'unanswered';
+  const listingKind = getListingKind(categoryFilter);
+
   // Temporary debug panel (only in development)
   const DebugPanel = () => {
     if (process.env.NODE_ENV !== 'development') return null;
@@ -425,7 +447,7 @@ export const Timeline: React.FC = React.memo(() => {
     const createTestTweet = async (countryCode: string) => {
       try {
         const testContent = `Test tweet for ${countryCode} 🌍 This is a sample travel post!`;
-        await createTweet(testContent, [], ['General Discussions'], [countryCode]);
+        await createTweet({ content: testContent, categories: ['General Discussions'], countries: [countryCode] });
         alert(`Created test tweet for ${countryCode}`);
         // Refresh the debug info
         await fetchDebugInfo();
@@ -610,6 +632,16 @@ export const Timeline: React.FC = React.memo(() => {
               </Button>
             </div>
           </div>
+
+          {/* Cities in the selected country */}
+          {countryFilter !== 'ALL' && (
+            <CityFilter
+              countryCode={countryFilter}
+              cityFilter={cityFilter}
+              onCityChange={setCityFilter}
+              isMobile={true}
+            />
+          )}
           
           {/* 3. For you / Following tabs at the bottom */}
           <MobileTabs activeTab={activeTab} onTabChange={handleTabChange} />
@@ -618,7 +650,7 @@ export const Timeline: React.FC = React.memo(() => {
         {/* Main Content Area */}
         <div className="flex-1 bg-gray-50 w-full">
           {/* Filter indicators */}
-          {(categoryFilter || countryFilter !== 'ALL') && (
+          {(categoryFilter || activeDealsOnly || unansweredOnly || countryFilter !== 'ALL') && (
             <div className="bg-blue-50 border-b border-blue-200 px-4 py-3 w-full">
               <div className="flex items-center justify-between">
                 <div className="text-sm text-blue-700">
@@ -627,6 +659,16 @@ export const Timeline: React.FC = React.memo(() => {
                       <span className="font-medium">{categoryFilter}</span>
                     </span>
                   )}
+                  {activeDealsOnly && (
+                    <span className="inline-block mr-3">
+                      <span className="font-medium">{language === 'en' ? 'Active deals' : 'العروض السارية'}</span>
+                    </span>
+                  )}
+                  {unansweredOnly && (
+                    <span className="inline-block mr-3">
+                      <span className="font-medium">{language === 'en' ? 'Unanswered questions' : 'أسئلة بلا إجابة'}</span>
+                    </span>
+                  )}
                   {countryFilter !== 'ALL' && (
                     <span className="inline-block">
                       <span className="font-medium">
@@ -634,6 +676,11 @@ export const Timeline: React.FC = React.memo(() => {
                       </span>
                     </span>
                   )}
+                  {selectedCity && (
+                    <span className="inline-block ml-3">
+                      <span className="font-medium">{getLocalizedPlaceName(selectedCity, language)}</span>
+                    </span>
+                  )}
                 </div>
                 <button 
                   onClick={clearFilters}
@@ -646,6 +693,15 @@ export const Timeline: React.FC = React.memo(() => {
             </div>
           )}
 
+          {listingKind && (
+            <ListingFilters
+              kind={listingKind}
+              filter={listingFilter}
+              onChange={setListingFilter}
+              className="bg-white border-b border-gray-200 px-4 py-2"
+            />
+          )}
+
           {/* Tweets Container with proper mobile spacing */}
           <div className="pb-20 w-full">
             <InfiniteScrollTweets 
@@ -653,6 +709,10 @@ export const Timeline: React.FC = React.memo(() => {
               feedType={activeTab}
               categoryFilter={categoryFilter}
               countryFilter={countryFilter}
+              cityFilter={cityFilter}
+              activeDealsOnly={activeDealsOnly}
+              unansweredOnly={unansweredOnly}
+              listingFilter={listingKind ? listingFilter : null}
             />
           </div>
         </div>
@@ -766,6 +826,15 @@ export const Timeline: React.FC = React.memo(() => {
                 </Button>
               </div>
             </div>
+
+            {/* Cities in the selected country */}
+            {countryFilter !== 'ALL' && (
+              <CityFilter
+                countryCode={countryFilter}
+                cityFilter={cityFilter}
+                onCityChange={setCityFilter}
+              />
+            )}
             
             {/* 3. For you / Following tabs at the bottom */}
             <div className="flex px-4 md:px-6">
@@ -818,7 +887,7 @@ export const Timeline: React.FC = React.memo(() => {
               </div>
 
               {/* Filter indicators */}
-              {(categoryFilter || countryFilter !== 'ALL') && (
+              {(categoryFilter || activeDealsOnly || unansweredOnly || countryFilter !== 'ALL') && (
                 <div className="bg-blue-50 border-b border-blue-200 px-4 md:px-6 py-2">
                   <div className="flex items-center justify-between">
                     <div className="text-sm text-blue-700 flex items-center space-x-4">
@@ -827,6 +896,16 @@ export const Timeline: React.FC = React.memo(() => {
                           <span>Category: <span className="font-semibold">{categoryFilter}</span></span>
                         </span>
                       )}
+                      {activeDealsOnly && (
+                        <span className="flex items-center">
+                          <span className="font-semibold">{language === 'en' ? 'Active deals' : 'العروض السارية'}</span>
+                        </span>
+                      )}
+                      {unansweredOnly && (
+                        <span className="flex items-center">
+                          <span className="font-semibold">{language === 'en' ? 'Unanswered questions' : 'أسئلة بلا إجابة'}</span>
+                        </span>
+                      )}
                       {countryFilter !== 'ALL' && (
                         <span className="flex items-center">
                           <span>Country: <span className="font-semibold">
@@ -834,6 +913,13 @@ export const Timeline: React.FC = React.memo(() => {
                           </span></span>
                         </span>
                       )}
+                      {selectedCity && (
+                        <span className="flex items-center">
+                          <span>City: <span className="font-semibold">
+                            {getLocalizedPlaceName(selectedCity, language)}
+                          </span></span>
+                        </span>
+                      )}
                     </div>
                     <button 
                       onClick={clearFilters}
@@ -846,12 +932,25 @@ export const Timeline: React.FC = React.memo(() => {
                 </div>
               )}
 
+              {listingKind && (
+                <ListingFilters
+                  kind={listingKind}
+                  filter={listingFilter}
+                  onChange={setListingFilter}
+                  className="border-b border-gray-200 px-4 md:px-6 py-2"
+                />
+              )}
+
               {/* Infinite Scroll Tweets */}
               <InfiniteScrollTweets 
                 isMobile={false} 
                 feedType={activeTab}
                 categoryFilter={categoryFilter}
                 countryFilter={countryFilter}
+                cityFilter={cityFilter}
+                activeDealsOnly={activeDealsOnly}
+                unansweredOnly={unansweredOnly}
+                listingFilter={listingKind ? listingFilter : null}
               />
             </div>
           </div>
@@ -33,6 +33,8 @@ export const FilterNavigation: React.FC<FilterNavigationProps> = ({
     { id: 'car-rental', label: language === 'en' ? 'Car Rental' : 'تأجير السيارات' },
     { id: 'schedules', label: language === 'en' ? 'Tourist Schedules' : 'برامج سياحية' },
     { id: 'flights', label: language === 'en' ? 'Flights' : 'الطيران' },
+    { id: 'active-deals', label: language === 'en' ? 'Active deals' : 'العروض السارية' },
+    { id: 'unanswered', label: language === 'en' ? 'Unanswered questions' : 'أسئلة بلا إجابة' },
     { id: 'restaurants', label: language === 'en' ? 'Restaurants and Coffees' : 'المطاعم والمقاهي' },
     { id: 'images', label: language === 'en' ? 'Images and Creators' : 'الصور والمبدعون' },
     { id: 'real-estate', label: language === 'en' ? 'Real Estate' : 'العقارات' },
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Search, Bell, MessageCircle, User, Settings, LogOut, Home, Languages } from 'lucide-react';
+import { Search, Bell, MessageCircle, User, Settings, LogOut, Home, Languages, Luggage } from 'lucide-react';
 import { Button } from '../ui/button';
 import { 
   DropdownMenu,
@@ -37,7 +37,7 @@ export const MobileNavigation: React.FC = () => {
 
   return (
     <>
-      <div className={`md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 py-4 z-50 shadow-lg ${isRTL ? 'font-arabic' : ''}`}>
+      <div className={`md:hidden print:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 py-4 z-50 shadow-lg ${isRTL ? 'font-arabic' : ''}`}>
         <div className="flex items-center justify-around px-4">
           {/* Messages */}
           <Button
@@ -123,6 +123,16 @@ export const MobileNavigation: React.FC = () => {
                 <Search className={`h-4 w-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
                 {language === 'en' ? 'Search' : 'البحث'}
               </DropdownMenuItem>
+              <DropdownMenuItem 
+                onClick={() => {
+                  handleNavClick('/trips');
+                  setSettingsOpen(false);
+                }} 
+                className="cursor-pointer"
+              >
+                <Luggage className={`h-4 w-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                {language === 'en' ? 'Trips' : 'الرحلات'}
+              </DropdownMenuItem>
               <DropdownMenuItem 
                 onClick={() => {
                   setLanguageSelectorOpen(true);
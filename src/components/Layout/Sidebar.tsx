@@ -5,6 +5,7 @@ import {
   Search, 
   Bell, 
   MessageCircle,
+  Luggage,
   User, 
   LogOut,
   Languages,
@@ -31,6 +32,7 @@ const getSidebarItems = (language: string, isAdmin: boolean = false) => {
     { icon: Search, label: language === 'en' ? 'Explore' : 'استكشف', path: '/search' },
     { icon: Bell, label: language === 'en' ? 'Notifications' : 'الإشعارات', path: '/notifications' },
     { icon: MessageCircle, label: language === 'en' ? 'Messages' : 'الرسائل', path: '/messages' },
+    { icon: Luggage, label: language === 'en' ? 'Trips' : 'الرحلات', path: '/trips' },
     { icon: User, label: language === 'en' ? 'Profile' : 'الملف الشخصي', path: '/profile' },
     { icon: Languages, label: language === 'en' ? 'Language' : 'اللغة', path: '/language' },
   ];
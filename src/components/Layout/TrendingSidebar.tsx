@@ -4,6 +4,7 @@ import { TrendingUp, Hash, MoreHorizontal } from 'lucide-react';
 import { Button } from '../ui/button';
 import { useHashtags } from '../../hooks/useHashtags';
 import { useLanguageStore } from '../../store/useLanguageStore';
+import { feedCache, cacheKeys } from '../../lib/cache';
 
 export const TrendingSidebar: React.FC = () => {
   const navigate = useNavigate();
@@ -11,25 +12,15 @@ export const TrendingSidebar: React.FC = () => {
   const { isRTL } = useLanguageStore();
   const [visibleHashtags, setVisibleHashtags] = useState<typeof trendingHashtags>([]);
   const [sidebarWidth, setSidebarWidth] = useState('w-80');
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [isInitialized, setIsInitialized] = useState(() => feedCache.peek(cacheKeys.hashtags()) !== null);
 
-  // Implement progressive loading for trending hashtags with caching
+  // Reveal trending hashtags progressively on first load; cached rankings show in full straight away
   useEffect(() => {
     if (trendingHashtags.length === 0) return;
-    
-    // Check if we already have cached hashtags
-    const cachedHashtags = sessionStorage.getItem('trending_hashtags');
-    if (cachedHashtags && !isInitialized) {
-      try {
-        const parsed = JSON.parse(cachedHashtags);
-        if (Date.now() - parsed.timestamp < 10 * 60 * 1000) { // 10 minute cache
-          setVisibleHashtags(parsed.hashtags);
-          setIsInitialized(true);
-          return;
-        }
-      } catch (error) {
-        console.warn('Failed to parse cached hashtags:', error);
-      }
+
+    if (isInitialized) {
+      setVisibleHashtags(trendingHashtags.slice(0, 10));
+      return;
     }
     
     // Initially show just a few hashtags
@@ -37,19 +28,8 @@ export const TrendingSidebar: React.FC = () => {
     
     // Then gradually show more
     const timer = setTimeout(() => {
-      const fullList = trendingHashtags.slice(0, 10);
-      setVisibleHashtags(fullList);
+      setVisibleHashtags(trendingHashtags.slice(0, 10));
       setIsInitialized(true);
-      
-      // Cache the hashtags
-      try {
-        sessionStorage.setItem('trending_hashtags', JSON.stringify({
-          hashtags: fullList,
-          timestamp: Date.now()
-        }));
-      } catch (error) {
-        console.warn('Failed to cache hashtags:', error);
-      }
     }, 500);
     
     return () => clearTimeout(timer);
@@ -25,6 +25,10 @@ export const LazyHashtagPage = lazy(() =>
   import('./Search/HashtagPage').then(module => ({ default: module.HashtagPage }))
 );
 
+export const LazyPlacePage = lazy(() => 
+  import('./Place/PlacePage').then(module => ({ default: module.PlacePage }))
+);
+
 export const LazyNotificationsPage = lazy(() => 
   import('./Notifications/NotificationsPage').then(module => ({ default: module.NotificationsPage }))
 );
@@ -39,4 +43,16 @@ export const LazyEditProfileModal = lazy(() =>
 
 export const LazyFollowListPage = lazy(() => 
   import('./Profile/FollowListPage').then(module => ({ default: module.FollowListPage }))
-);
\ No newline at end of file
+);
+
+export const LazyDraftsPage = lazy(() => 
+  import('./Drafts/DraftsPage').then(module => ({ default: module.DraftsPage }))
+);
+
+export const LazyTripsPage = lazy(() => 
+  import('./Trips/TripsPage').then(module => ({ default: module.TripsPage }))
+);
+
+export const LazyTripPage = lazy(() => 
+  import('./Trips/TripPage').then(module => ({ default: module.TripPage }))
+);
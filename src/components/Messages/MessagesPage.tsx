@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Send, Search, MoreHorizontal, User, MessageCircle } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
@@ -14,6 +14,7 @@ import { useLanguageStore } from '../../store/useLanguageStore';
 
 export const MessagesPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const { language, isRTL } = useLanguageStore();
   const { 
@@ -34,6 +35,8 @@ export const MessagesPage: React.FC = () => {
   const [searchResults, setSearchResults] = useState<UserType[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
   const [showSearchResults, setShowSearchResults] = useState(false);
+  // User whose conversation to open once it shows up in the list
+  const [pendingParticipantId, setPendingParticipantId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -50,6 +53,28 @@ export const MessagesPage: React.FC = () => {
     }
   }, [selectedConversation, fetchMessages, markAsRead]);
 
+  // `/messages?to=<user id>` opens a conversation with that user, e.g. from a listing's Message button
+  useEffect(() => {
+    const to = searchParams.get('to');
+    if (!to || !user) return;
+
+    setSearchParams({}, { replace: true });
+    if (to === user.id) return;
+
+    createConversation(to)
+      .then(() => setPendingParticipantId(to))
+      .catch(error => console.error('Error creating conversation:', error));
+  }, [searchParams, user]);
+
+  useEffect(() => {
+    if (!pendingParticipantId) return;
+    const conversation = conversations.find(conv => conv.otherParticipant.id === pendingParticipantId);
+    if (conversation) {
+      setSelectedConversation(conversation);
+      setPendingParticipantId(null);
+    }
+  }, [conversations, pendingParticipantId]);
+
   // Search for users when search query changes
   useEffect(() => {
     if (searchTimeoutRef.current) {
@@ -6,6 +6,9 @@ import {
   Repeat2, 
   MessageCircle, 
   UserPlus,
+  PenLine,
+  BarChart2,
+  AtSign,
   MoreHorizontal,
   Check,
   CheckCheck,
@@ -39,7 +42,7 @@ export const NotificationsPage: React.FC = () => {
     markAllAsRead, 
     deleteNotification 
   } = useNotifications();
-  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const [filter, setFilter] = useState<'all' | 'mentions' | 'unread'>('all');
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -51,6 +54,12 @@ export const NotificationsPage: React.FC = () => {
         return <MessageCircle className="w-6 h-6 text-blue-500" />;
       case 'follow':
         return <UserPlus className="w-6 h-6 text-purple-500" />;
+      case 'quote':
+        return <PenLine className="w-6 h-6 text-green-500" />;
+      case 'poll':
+        return <BarChart2 className="w-6 h-6 text-blue-500" />;
+      case 'mention':
+        return <AtSign className="w-6 h-6 text-blue-500" />;
       default:
         return <Heart className="w-6 h-6 text-gray-500" />;
     }
@@ -66,6 +75,12 @@ export const NotificationsPage: React.FC = () => {
         return isRTL ? 'رد على تغريدتك' : 'replied to your tweet';
       case 'follow':
         return isRTL ? 'بدأ بمتابعتك' : 'started following you';
+      case 'quote':
+        return isRTL ? 'اقتبس تغريدتك' : 'quoted your tweet';
+      case 'poll':
+        return isRTL ? 'انتهى استطلاعك، اطّلع على النتائج' : 'Your poll has ended. See the results';
+      case 'mention':
+        return isRTL ? 'أشار إليك في تغريدة' : 'mentioned you in a tweet';
       default:
         return isRTL ? 'تفاعل مع محتواك' : 'interacted with your content';
     }
@@ -80,6 +95,13 @@ export const NotificationsPage: React.FC = () => {
     // Navigate based on notification type
     if (notification.type === 'follow') {
       navigate(`/profile/${notification.actor.username}`);
+    } else if (
+      (notification.type === 'quote' || notification.type === 'poll' || notification.type === 'mention') &&
+      notification.tweet
+    ) {
+      // Quote notifications carry the quote itself, which embeds the recipient's tweet;
+      // poll notifications carry the post with the poll, mention ones the post mentioning them
+      navigate(`/tweet/${notification.tweet.id}`);
     } else if (notification.tweet) {
       // For tweet-related notifications, we could navigate to the tweet detail
       // For now, navigate to the author's profile
@@ -96,9 +118,11 @@ export const NotificationsPage: React.FC = () => {
     }
   };
 
-  const filteredNotifications = filter === 'unread' 
+  const filteredNotifications = filter === 'unread'
     ? notifications.filter(n => !n.read)
-    : notifications;
+    : filter === 'mentions'
+      ? notifications.filter(n => n.type === 'mention')
+      : notifications;
 
   if (loading) {
     return <NotificationsPageSkeleton />;
@@ -189,6 +213,17 @@ export const NotificationsPage: React.FC = () => {
           >
             {isRTL ? 'الكل' : 'All'}
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setFilter('mentions')}
+            className={`flex-1 py-4 px-4 font-bold text-base rounded-none border-b-2 transition-colors ${
+              filter === 'mentions'
+                ? 'border-blue-500 text-black'
+                : 'border-transparent text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {isRTL ? 'الإشارات' : 'Mentions'}
+          </Button>
           <Button
             variant="ghost"
             onClick={() => setFilter('unread')}
@@ -208,17 +243,23 @@ export const NotificationsPage: React.FC = () => {
         {filteredNotifications.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
             <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Heart className="w-8 h-8 text-gray-400" />
+              {filter === 'mentions'
+                ? <AtSign className="w-8 h-8 text-gray-400" />
+                : <Heart className="w-8 h-8 text-gray-400" />}
             </div>
             <p className="text-lg mb-2">
               {filter === 'unread' ? 
                 (isRTL ? 'لا توجد إشعارات غير مقروءة' : 'No unread notifications') : 
+                filter === 'mentions' ?
+                (isRTL ? 'لا توجد إشارات بعد' : 'No mentions yet') :
                 (isRTL ? 'لا توجد إشعارات بعد' : 'No notifications yet')
               }
             </p>
             <p className="text-sm text-gray-400">
               {filter === 'unread' 
                 ? (isRTL ? 'كل شيء محدث! تحقق مرة أخرى لاحقاً للنشاط الجديد.' : 'All caught up! Check back later for new activity.')
+                : filter === 'mentions'
+                ? (isRTL ? 'عندما يشير إليك شخص ما في تغريدة، ستراها هنا.' : 'When someone @mentions you in a tweet, you\'ll see it here.')
                 : (isRTL ? 'عندما يعجب شخص ما أو يعيد تغريد أو يرد على تغريداتك، ستراه هنا.' : 'When someone likes, retweets, or replies to your tweets, you\'ll see it here.')
               }
             </p>
@@ -252,8 +293,13 @@ export const NotificationsPage: React.FC = () => {
                     <div className="flex items-start justify-between">
                       <div className="flex-1 min-w-0">
                         <p className="text-sm text-gray-900">
-                          <span className="font-bold">{notification.actor.displayName}</span>
-                          {' '}
+                          {/* Poll results are about the viewer's own post, so there's no actor to name */}
+                          {notification.type !== 'poll' && (
+                            <>
+                              <span className="font-bold">{notification.actor.displayName}</span>
+                              {' '}
+                            </>
+                          )}
                           <span className="text-gray-600">{getNotificationText(notification)}</span>
                         </p>
                         
@@ -0,0 +1,224 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, ExternalLink, MapPin, Star } from 'lucide-react';
+import { Button } from '../ui/button';
+import { TweetCard } from '../Tweet/TweetCard';
+import { MobileTweetCard } from '../Tweet/MobileTweetCard';
+import { TweetSkeletonList } from '../Tweet/TweetSkeleton';
+import { PLACE_TYPE_ICONS } from '../Tweet/PlaceChip';
+import { LoadMoreTrigger } from '../ui/LoadMoreTrigger';
+import { ReviewSummary } from './ReviewSummary';
+import { usePlaceTweets } from '../../hooks/usePlaceTweets';
+import { usePlaceReviewStats } from '../../hooks/usePlaceReviewStats';
+import { useAuth } from '../../hooks/useAuth';
+import { useTweets } from '../../hooks/useTweets';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import {
+  getLocalizedPlaceName,
+  getPlace,
+  getPlaceLabel,
+  getPlacesInCity,
+  PLACE_TYPE_LABELS,
+} from '../../lib/gazetteer';
+import { formatRating } from '../../lib/reviews';
+
+export const PlacePage: React.FC = () => {
+  const { placeId } = useParams<{ placeId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const place = getPlace(placeId);
+  const { tweets, loading, hasMore, error, loadMore, refresh } = usePlaceTweets(place, user?.id);
+  const placesInCity = place?.type === 'city' ? getPlacesInCity(place.id) : [];
+  // The place's own reviews, plus each of a city's places for its chips
+  const { stats: reviewStats } = usePlaceReviewStats(place ? [place.id, ...placesInCity.map(entry => entry.id)] : []);
+  const { likeTweet, unlikeTweet, retweetTweet, unretweetTweet, bookmarkTweet, unbookmarkTweet } = useTweets();
+
+  const handleLike = async (tweetId: string, isCurrentlyLiked: boolean) => {
+    try {
+      if (isCurrentlyLiked) {
+        await unlikeTweet(tweetId);
+      } else {
+        await likeTweet(tweetId);
+      }
+    } catch (error) {
+      console.error('Error toggling like:', error);
+    }
+  };
+
+  const handleRetweet = async (tweetId: string, isCurrentlyRetweeted: boolean) => {
+    try {
+      if (isCurrentlyRetweeted) {
+        await unretweetTweet(tweetId);
+      } else {
+        await retweetTweet(tweetId);
+      }
+    } catch (error) {
+      console.error('Error toggling retweet:', error);
+    }
+  };
+
+  const handleBookmark = async (tweetId: string, isCurrentlyBookmarked: boolean) => {
+    try {
+      if (isCurrentlyBookmarked) {
+        await unbookmarkTweet(tweetId);
+      } else {
+        await bookmarkTweet(tweetId);
+      }
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+    }
+  };
+
+  if (!place) {
+    return (
+      <div className="h-full bg-white flex items-center justify-center">
+        <p className="text-gray-500">{isRTL ? 'المكان غير موجود' : 'Place not found'}</p>
+      </div>
+    );
+  }
+
+  const Icon = PLACE_TYPE_ICONS[place.type];
+  const placeStats = reviewStats[place.id];
+  const mapUrl = `https://www.openstreetmap.org/?mlat=${place.lat}&mlon=${place.lon}#map=14/${place.lat}/${place.lon}`;
+
+  return (
+    <div className="h-full bg-white flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="sticky top-0 bg-white/95 backdrop-blur-md border-b border-gray-200 z-10 flex-shrink-0">
+        <div className={`flex items-center p-4 ${isRTL ? 'space-x-reverse space-x-4' : 'space-x-4'}`}>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(-1)}
+            className="p-2"
+          >
+            <ArrowLeft className={`h-5 w-5 ${isRTL ? 'rotate-180' : ''}`} />
+          </Button>
+          <div className="min-w-0">
+            <div className={`flex items-center ${isRTL ? 'space-x-reverse space-x-2' : 'space-x-2'}`}>
+              <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                <Icon className="h-4 w-4 text-blue-500" />
+              </div>
+              <h1 className="text-xl font-bold truncate">{getLocalizedPlaceName(place, language)}</h1>
+            </div>
+            <p className="text-sm text-gray-500 mt-1 truncate">
+              {PLACE_TYPE_LABELS[place.type][language]} · {getPlaceLabel(place, language)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-4 pb-3 text-sm text-gray-500">
+          <span className="flex items-center gap-1" dir="ltr">
+            <MapPin className="h-4 w-4" />
+            {place.lat.toFixed(4)}, {place.lon.toFixed(4)}
+          </span>
+          <a
+            href={mapUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-500 hover:underline"
+          >
+            {language === 'en' ? 'Open map' : 'فتح الخريطة'}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+
+        {placeStats && <ReviewSummary stats={placeStats} />}
+
+        {/* A city's own places, each with its own page */}
+        {placesInCity.length > 0 && (
+          <div className="flex gap-2 px-4 pb-3 overflow-x-auto scrollbar-hide">
+            {placesInCity.map(entry => {
+              const EntryIcon = PLACE_TYPE_ICONS[entry.type];
+              const entryStats = reviewStats[entry.id];
+              return (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => navigate(`/place/${entry.id}`)}
+                  className="flex-shrink-0 flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+                >
+                  <EntryIcon className="h-3 w-3" />
+                  {getLocalizedPlaceName(entry, language)}
+                  {entryStats && (
+                    <span className="flex items-center gap-0.5 text-xs text-gray-500">
+                      <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+                      {formatRating(entryStats.average)}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Content - Scrollable */}
+      <div className="flex-1 overflow-y-auto pb-20 md:pb-0">
+        {loading && tweets.length === 0 ? (
+          <TweetSkeletonList count={6} isMobile={window.innerWidth < 768} />
+        ) : error && tweets.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 px-4">
+            <div className="text-red-500 text-center">
+              <p className="text-lg font-semibold mb-2">{isRTL ? 'خطأ في تحميل المنشورات' : 'Error loading posts'}</p>
+              <p className="text-sm text-gray-600">{error}</p>
+              <Button variant="outline" onClick={refresh} className="mt-4">
+                {isRTL ? 'حاول مرة أخرى' : 'Try again'}
+              </Button>
+            </div>
+          </div>
+        ) : tweets.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <MapPin className="w-8 h-8 text-gray-400" />
+            </div>
+            <p className="text-lg mb-2">
+              {isRTL
+                ? `لا توجد منشورات من ${getLocalizedPlaceName(place, language)} بعد`
+                : `No posts from ${getLocalizedPlaceName(place, language)} yet`}
+            </p>
+            <Button
+              onClick={() => navigate('/compose')}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-2 rounded-full font-medium"
+            >
+              {isRTL ? 'إنشاء منشور' : 'Create post'}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-100">
+              {tweets.map((tweet) => (
+                <div key={tweet.id}>
+                  {/* Desktop Tweet Card */}
+                  <div className="hidden md:block">
+                    <TweetCard
+                      tweet={tweet}
+                      onLike={() => handleLike(tweet.id, tweet.isLiked)}
+                      onRetweet={() => handleRetweet(tweet.id, tweet.isRetweeted)}
+                      onBookmark={() => handleBookmark(tweet.id, tweet.isBookmarked)}
+                      currentUserId={user?.id}
+                    />
+                  </div>
+                  {/* Mobile Tweet Card */}
+                  <div className="md:hidden">
+                    <MobileTweetCard
+                      tweet={tweet}
+                      onLike={() => handleLike(tweet.id, tweet.isLiked)}
+                      onRetweet={() => handleRetweet(tweet.id, tweet.isRetweeted)}
+                      onBookmark={() => handleBookmark(tweet.id, tweet.isBookmarked)}
+                      currentUserId={user?.id}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Older posts load as the end of the list comes into view */}
+            <LoadMoreTrigger hasMore={hasMore} loading={loading} onLoadMore={loadMore} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PlaceReviewStats } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { formatRating, REVIEW_ASPECT_LABELS, REVIEW_ASPECTS, REVIEW_MAX_RATING } from '../../lib/reviews';
+import { StarRating } from '../Tweet/StarRating';
+
+interface ReviewSummaryProps {
+  stats: PlaceReviewStats;
+}
+
+// A place's average rating, how the reviews spread across 1 to 5 stars, and the sub-rating averages
+export const ReviewSummary: React.FC<ReviewSummaryProps> = ({ stats }) => {
+  const { language } = useLanguageStore();
+  const mostCommon = Math.max(...stats.distribution);
+  const aspects = REVIEW_ASPECTS.filter(aspect => stats.aspects[aspect] !== undefined);
+
+  return (
+    <div className="flex flex-wrap gap-6 px-4 pb-3">
+      <div className="flex flex-col items-center justify-center">
+        <span className="text-3xl font-bold text-gray-900">{formatRating(stats.average)}</span>
+        <StarRating value={stats.average} size="sm" />
+        <span className="text-xs text-gray-500 mt-1">
+          {language === 'en'
+            ? `${stats.count.toLocaleString()} review${stats.count === 1 ? '' : 's'}`
+            : `${stats.count.toLocaleString()} تقييم`}
+        </span>
+      </div>
+
+      {/* Histogram, 5 stars at the top */}
+      <div className="flex-1 min-w-[160px] space-y-1">
+        {Array.from({ length: REVIEW_MAX_RATING }, (_, index) => REVIEW_MAX_RATING - index).map(star => {
+          const count = stats.distribution[star - 1];
+          const width = mostCommon > 0 ? (count / mostCommon) * 100 : 0;
+          return (
+            <div key={star} className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="w-3 text-center">{star}</span>
+              <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                <div className="h-full bg-amber-400 rounded-full" style={{ width: `${width}%` }} />
+              </div>
+              <span className="w-6 text-gray-500">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {aspects.length > 0 && (
+        <div className="space-y-1 min-w-[140px]">
+          {aspects.map(aspect => (
+            <div key={aspect} className="flex items-center justify-between gap-3 text-xs text-gray-600">
+              <span>{REVIEW_ASPECT_LABELS[aspect][language]}</span>
+              <span className="font-semibold text-gray-900">{formatRating(stats.aspects[aspect]!)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
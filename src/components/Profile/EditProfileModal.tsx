@@ -1,11 +1,14 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { X, Camera, Upload, Trash2 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { useAuth } from '../../hooks/useAuth';
+import { useMediaSettings } from '../../hooks/useMediaSettings';
 import { storageService } from '../../lib/storage';
 import { supabase } from '../../lib/supabase';
+import { invalidateCache } from '../../lib/cache';
+import { useStore } from '../../store/useStore';
 
 interface EditProfileModalProps {
   isOpen: boolean;
@@ -26,6 +29,7 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
   onProfileUpdate
 }) => {
   const { user } = useAuth();
+  const { showSensitiveMedia, updateShowSensitiveMedia } = useMediaSettings(user?.id);
   const [displayName, setDisplayName] = useState(currentProfile.displayName);
   const [bio, setBio] = useState(currentProfile.bio || '');
   const [avatar, setAvatar] = useState(currentProfile.avatar);
@@ -34,6 +38,12 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
   const [uploadingCover, setUploadingCover] = useState(false);
   const [error, setError] = useState('');
+  const [alwaysShowSensitive, setAlwaysShowSensitive] = useState(showSensitiveMedia);
+
+  // The setting loads separately from the profile, so pick it up once it arrives
+  useEffect(() => {
+    if (isOpen) setAlwaysShowSensitive(showSensitiveMedia);
+  }, [isOpen, showSensitiveMedia]);
 
   const avatarInputRef = useRef<HTMLInputElement>(null);
   const coverInputRef = useRef<HTMLInputElement>(null);
@@ -161,6 +171,10 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
 
       if (error) throw error;
 
+      if (alwaysShowSensitive !== showSensitiveMedia) {
+        await updateShowSensitiveMedia(alwaysShowSensitive);
+      }
+
       // Update auth metadata
       await supabase.auth.updateUser({
         data: {
@@ -169,6 +183,10 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
         }
       });
 
+      // The new name and avatar show on every cached tweet and profile, so those refetch
+      invalidateCache.profileEdited(user.id);
+      useStore.getState().patchUser(user.id, { displayName: displayName.trim(), avatar: avatar || '' });
+
       onProfileUpdate();
       onClose();
     } catch (err: any) {
@@ -201,6 +219,7 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
     setBio(currentProfile.bio || '');
     setAvatar(currentProfile.avatar);
     setCoverImage(currentProfile.coverImage || '');
+    setAlwaysShowSensitive(showSensitiveMedia);
     setError('');
     onClose();
   };
@@ -399,6 +418,27 @@ export const EditProfileModal: React.FC<EditProfileModalProps> = ({
             </div>
           </div>
 
+          {/* Media */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Media
+            </span>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={alwaysShowSensitive}
+                onChange={(e) => setAlwaysShowSensitive(e.target.checked)}
+                className="mt-1 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm text-gray-900">Always show sensitive media</span>
+                <span className="block text-xs text-gray-500">
+                  Show media that authors marked as sensitive without the blur and warning
+                </span>
+              </span>
+            </label>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
             <Button
@@ -8,17 +8,19 @@ import { MobileTweetCard } from '../Tweet/MobileTweetCard';
 import { ProfileSkeleton } from './ProfileSkeleton';
 import { TweetSkeletonList } from '../Tweet/TweetSkeleton';
 import { TrendingSidebar } from '../Layout/TrendingSidebar';
+import { LoadMoreTrigger } from '../ui/LoadMoreTrigger';
 import { useAuth } from '../../hooks/useAuth';
 import { useFollow } from '../../hooks/useFollow';
 import { useMessages } from '../../hooks/useMessages';
 import { useProfileSync } from '../../hooks/useProfileSync';
+import { useProfileTweets } from '../../hooks/useProfileTweets';
 import { useLanguageStore } from '../../store/useLanguageStore';
 import { supabase } from '../../lib/supabase';
 import { storageService } from '../../lib/storage';
-import { Tweet, User } from '../../types';
+import { User } from '../../types';
 import { formatDistanceToNow } from 'date-fns';
 import { arSA, enUS } from 'date-fns/locale';
-import { profileCache, tweetCache, cacheKeys, invalidateCache } from '../../lib/cache';
+import { profileCache, cacheKeys, invalidateCache } from '../../lib/cache';
 
 export const ProfilePage: React.FC = () => {
   const { username } = useParams<{ username: string }>();
@@ -29,14 +31,20 @@ export const ProfilePage: React.FC = () => {
   const { language, isRTL } = useLanguageStore();
   
   const [profile, setProfile] = useState<User | null>(null);
-  const [tweets, setTweets] = useState<Tweet[]>([]);
-  const [replies, setReplies] = useState<Tweet[]>([]);
-  const [likes, setLikes] = useState<Tweet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'tweets' | 'replies' | 'media' | 'likes'>('tweets');
   const [showSidebar, setShowSidebar] = useState(true);
   const [messageLoading, setMessageLoading] = useState(false);
+  const {
+    tweets,
+    replies,
+    likes,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: refreshTweets,
+  } = useProfileTweets(profile?.id, currentUser?.id);
 
   // Handle profile updates via real-time sync
   useProfileSync((profileUpdate) => {
@@ -99,9 +107,6 @@ export const ProfilePage: React.FC = () => {
 
         setProfile(formattedProfile);
         setLoading(false);
-
-        // Load tweets in background
-        loadUserTweets(formattedProfile.id, formattedProfile);
         return;
       }
 
@@ -113,9 +118,6 @@ export const ProfilePage: React.FC = () => {
         console.log('⚡ Using cached profile data for:', username);
         setProfile(cachedProfile);
         setLoading(false);
-        
-        // Load tweets in background
-        loadUserTweets(cachedProfile.id, cachedProfile);
         return;
       }
 
@@ -174,9 +176,6 @@ export const ProfilePage: React.FC = () => {
       setProfile(formattedProfile);
       setLoading(false);
 
-      // Load tweets
-      await loadUserTweets(profileData.id, formattedProfile);
-
     } catch (err: any) {
       setError(err.message);
       console.error('Error fetching profile:', err);
@@ -184,216 +183,6 @@ export const ProfilePage: React.FC = () => {
     }
   }, [username, currentUser, currentUserProfile]);
 
-  // Optimized function to load user tweets with caching
-  const loadUserTweets = useCallback(async (userId: string, profileData: User) => {
-    try {
-      console.log('🔄 Loading tweets for user:', userId);
-
-      // Check cache for tweets
-      const tweetsCacheKey = cacheKeys.userTweets(userId, 'tweets');
-      const repliesCacheKey = cacheKeys.userTweets(userId, 'replies');
-      const likesCacheKey = cacheKeys.userTweets(userId, 'likes');
-
-      const cachedTweets = tweetCache.get<Tweet[]>(tweetsCacheKey);
-      const cachedReplies = tweetCache.get<Tweet[]>(repliesCacheKey);
-      const cachedLikes = tweetCache.get<Tweet[]>(likesCacheKey);
-
-      if (cachedTweets && cachedReplies && cachedLikes) {
-        console.log('⚡ Using cached tweet data');
-        setTweets(cachedTweets);
-        setReplies(cachedReplies);
-        setLikes(cachedLikes);
-        return;
-      }
-
-      // Load tweets quickly with simplified queries - truly parallel
-      const [tweetsResult, repliesResult, likesResult] = await Promise.all([
-        // User's tweets (excluding replies) - minimal data
-        supabase
-          .from('tweets')
-          .select(`
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            pinned_to_profile,
-            pinned_to_home,
-            pinned_at
-          `)
-          .eq('author_id', userId)
-          .is('reply_to', null)
-          .order('pinned_to_profile', { ascending: false })
-          .order('created_at', { ascending: false })
-          .limit(20),
-
-        // User's replies - minimal data
-        supabase
-          .from('tweets')
-          .select(`
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at
-          `)
-          .eq('author_id', userId)
-          .not('reply_to', 'is', null)
-          .order('created_at', { ascending: false })
-          .limit(20),
-
-        // User's liked tweets - simplified
-        supabase
-          .from('likes')
-          .select(`
-            tweet_id,
-            created_at,
-            tweets (
-              id,
-              content,
-              image_urls,
-              hashtags,
-              mentions,
-              tags,
-              likes_count,
-              retweets_count,
-              replies_count,
-              views_count,
-              created_at,
-              author_id
-            )
-          `)
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false })
-          .limit(20)
-      ]);
-
-      console.log('✅ Tweets loaded:', {
-        tweets: tweetsResult.data?.length || 0,
-        replies: repliesResult.data?.length || 0,
-        likes: likesResult.data?.length || 0
-      });
-
-      // Quick format function - no interactions initially
-      const formatQuickTweetData = (tweetData: any, authorProfile: any): Tweet => ({
-        id: tweetData.id,
-        content: tweetData.content,
-        author: {
-          id: authorProfile.id,
-          username: authorProfile.username,
-          displayName: authorProfile.displayName,
-          avatar: authorProfile.avatar,
-          bio: authorProfile.bio,
-          verified: authorProfile.verified,
-          followers: authorProfile.followers,
-          following: authorProfile.following,
-          country: authorProfile.country,
-          joinedDate: authorProfile.joinedDate,
-        },
-        createdAt: new Date(tweetData.created_at),
-        likes: tweetData.likes_count || 0,
-        retweets: tweetData.retweets_count || 0,
-        replies: tweetData.replies_count || 0,
-        views: tweetData.views_count || 0,
-        images: tweetData.image_urls || [],
-        isLiked: false, // Will be updated async
-        isRetweeted: false, // Will be updated async
-        isBookmarked: false, // Will be updated async
-        hashtags: tweetData.hashtags || [],
-        mentions: tweetData.mentions || [],
-        tags: tweetData.tags || [],
-        replyTo: tweetData.reply_to,
-        pinnedToProfile: tweetData.pinned_to_profile || false,
-        pinnedToHome: tweetData.pinned_to_home || false,
-        pinnedAt: tweetData.pinned_at ? new Date(tweetData.pinned_at) : undefined,
-      });
-
-      // Format tweets quickly
-      const formattedTweets: Tweet[] = (tweetsResult.data || []).map(tweetData => 
-        formatQuickTweetData(tweetData, profileData)
-      );
-      
-      // Sort so pinned tweets come first, then by creation date desc
-      formattedTweets.sort((a, b) => {
-        if (a.pinnedToProfile !== b.pinnedToProfile) {
-          return a.pinnedToProfile ? -1 : 1; // true first
-        }
-        return b.createdAt.getTime() - a.createdAt.getTime();
-      });
-      
-      const formattedReplies: Tweet[] = (repliesResult.data || []).map(tweetData => 
-        formatQuickTweetData(tweetData, profileData)
-      );
-      
-      const formattedLikes: Tweet[] = (likesResult.data || [])
-        .filter((like: any) => like.tweets)
-        .map((like: any) => formatQuickTweetData(like.tweets, profileData));
-
-      setTweets(formattedTweets);
-      setReplies(formattedReplies);
-      setLikes(formattedLikes);
-
-      // Update interactions asynchronously (non-blocking)
-      if (currentUser && (formattedTweets.length > 0 || formattedReplies.length > 0 || formattedLikes.length > 0)) {
-        setTimeout(async () => {
-          try {
-            const allTweetIds = [
-              ...formattedTweets.map(t => t.id),
-              ...formattedReplies.map(t => t.id),
-              ...formattedLikes.map(t => t.id)
-            ];
-
-            if (allTweetIds.length > 0) {
-              const [likesRes, retweetsRes, bookmarksRes] = await Promise.all([
-                supabase.from('likes').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds),
-                supabase.from('retweets').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds),
-                supabase.from('bookmarks').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds)
-              ]);
-              
-              const userLikes = new Set(likesRes.data?.map(like => like.tweet_id) || []);
-              const userRetweets = new Set(retweetsRes.data?.map(retweet => retweet.tweet_id) || []);
-              const userBookmarks = new Set(bookmarksRes.data?.map(bookmark => bookmark.tweet_id) || []);
-
-              // Update tweet states
-              const updateInteractions = (tweets: Tweet[]) => tweets.map(tweet => ({
-                ...tweet,
-                isLiked: userLikes.has(tweet.id),
-                isRetweeted: userRetweets.has(tweet.id),
-                isBookmarked: userBookmarks.has(tweet.id),
-              }));
-
-              setTweets(prev => updateInteractions(prev));
-              setReplies(prev => updateInteractions(prev));
-              setLikes(prev => updateInteractions(prev));
-            }
-          } catch (error) {
-            console.warn('Failed to update interactions:', error);
-          }
-        }, 200);
-      }
-
-      // Cache the results
-      tweetCache.set(tweetsCacheKey, formattedTweets);
-      tweetCache.set(repliesCacheKey, formattedReplies);
-      tweetCache.set(likesCacheKey, formattedLikes);
-
-    } catch (error) {
-      console.error('Error loading user tweets:', error);
-    }
-  }, [currentUser]);
-
   // Simplified profile loading
   useEffect(() => {
     if (!username) return;
@@ -463,8 +252,9 @@ export const ProfilePage: React.FC = () => {
       invalidateCache.userProfile(username);
       invalidateCache.userTweets(profile?.id || '');
       fetchProfile();
+      refreshTweets();
     }
-  }, [username, profile?.id, fetchProfile]);
+  }, [username, profile?.id, fetchProfile, refreshTweets]);
 
   const getCurrentTabTweets = useMemo(() => {
     switch (activeTab) {
@@ -1030,6 +820,11 @@ export const ProfilePage: React.FC = () => {
                   </div>
                 ))
               )}
+              <LoadMoreTrigger
+                hasMore={hasMore(activeTab)}
+                loading={loadingMore}
+                onLoadMore={() => loadMore(activeTab)}
+              />
             </div>
           </div>
         </div>
@@ -1230,6 +1025,11 @@ export const ProfilePage: React.FC = () => {
                 </div>
               ))
             )}
+            <LoadMoreTrigger
+              hasMore={hasMore(activeTab)}
+              loading={loadingMore}
+              onLoadMore={() => loadMore(activeTab)}
+            />
           </div>
         </div>
       </div>
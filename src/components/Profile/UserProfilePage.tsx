@@ -9,24 +9,33 @@ import { EditProfileModal } from './EditProfileModal';
 import { ProfileSkeleton } from './ProfileSkeleton';
 import { TweetSkeletonList } from '../Tweet/TweetSkeleton';
 import { TrendingSidebar } from '../Layout/TrendingSidebar';
+import { LoadMoreTrigger } from '../ui/LoadMoreTrigger';
 import { useAuth } from '../../hooks/useAuth';
+import { useProfileTweets } from '../../hooks/useProfileTweets';
 import { supabase } from '../../lib/supabase';
 import { storageService } from '../../lib/storage';
-import { Tweet, User } from '../../types';
+import { invalidateCache } from '../../lib/cache';
+import { User } from '../../types';
 
 export const UserProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const { user: currentUser } = useAuth();
   
   const [profile, setProfile] = useState<User | null>(null);
-  const [tweets, setTweets] = useState<Tweet[]>([]);
-  const [replies, setReplies] = useState<Tweet[]>([]);
-  const [likes, setLikes] = useState<Tweet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'tweets' | 'replies' | 'media' | 'likes'>('tweets');
   const [showEditModal, setShowEditModal] = useState(false);
   const [showSidebar, setShowSidebar] = useState(true);
+  const {
+    tweets,
+    replies,
+    likes,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: refreshTweets,
+  } = useProfileTweets(currentUser?.id, currentUser?.id);
 
   // Handle window resize to show/hide sidebar
   useEffect(() => {
@@ -77,101 +86,6 @@ export const UserProfilePage: React.FC = () => {
 
       if (profileError) throw profileError;
 
-      // Fetch user's tweets (excluding replies)
-      const { data: tweetsData, error: tweetsError } = await supabase
-        .from('tweets')
-        .select(`
-          *,
-          profiles (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            created_at
-          )
-        `)
-        .eq('author_id', currentUser.id)
-        .is('reply_to', null)
-        .order('created_at', { ascending: false });
-
-      if (tweetsError) throw tweetsError;
-
-      // Fetch user's replies
-      const { data: repliesData, error: repliesError } = await supabase
-        .from('tweets')
-        .select(`
-          *,
-          profiles (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            created_at
-          )
-        `)
-        .eq('author_id', currentUser.id)
-        .not('reply_to', 'is', null)
-        .order('created_at', { ascending: false });
-
-      if (repliesError) throw repliesError;
-
-      // Fetch user's liked tweets
-      const { data: likesData, error: likesError } = await supabase
-        .from('likes')
-        .select(`
-          tweet_id,
-          created_at,
-          tweets (
-            *,
-            profiles (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              bio,
-              verified,
-              followers_count,
-              following_count,
-              created_at
-            )
-          )
-        `)
-        .eq('user_id', currentUser.id)
-        .order('created_at', { ascending: false });
-
-      if (likesError) throw likesError;
-
-      // Get current user's interactions
-      const allTweetIds = [
-        ...(tweetsData || []).map((t: any) => t.id),
-        ...(repliesData || []).map((t: any) => t.id),
-        ...(likesData || []).filter((l: any) => l.tweets).map((l: any) => l.tweets.id)
-      ];
-
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-
-      if (allTweetIds.length > 0) {
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase.from('likes').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds),
-          supabase.from('retweets').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds),
-          supabase.from('bookmarks').select('tweet_id').eq('user_id', currentUser.id).in('tweet_id', allTweetIds)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
       // Format profile data
       const formattedProfile: User = {
         id: profileData.id,
@@ -187,56 +101,7 @@ export const UserProfilePage: React.FC = () => {
         country: profileData.country,
       };
 
-      // Format tweets data
-      const formatTweetData = (tweetData: any): Tweet => ({
-        id: tweetData.id,
-        content: tweetData.content,
-        author: {
-          id: tweetData.profiles.id,
-          username: tweetData.profiles.username,
-          displayName: tweetData.profiles.display_name,
-          avatar: tweetData.profiles.avatar_url || '',
-          bio: tweetData.profiles.bio,
-          verified: tweetData.profiles.verified,
-          followers: tweetData.profiles.followers_count,
-          following: tweetData.profiles.following_count,
-          joinedDate: new Date(tweetData.profiles.created_at),
-        },
-        createdAt: new Date(tweetData.created_at),
-        likes: tweetData.likes_count,
-        retweets: tweetData.retweets_count,
-        replies: tweetData.replies_count,
-        views: tweetData.views_count,
-        images: tweetData.image_urls,
-        isLiked: userLikes.includes(tweetData.id),
-        isRetweeted: userRetweets.includes(tweetData.id),
-        isBookmarked: userBookmarks.includes(tweetData.id),
-        hashtags: tweetData.hashtags,
-        mentions: tweetData.mentions,
-        tags: tweetData.tags || [],
-        replyTo: tweetData.reply_to,
-        pinnedToProfile: tweetData.pinned_to_profile,
-        pinnedToHome: tweetData.pinned_to_home,
-        pinnedAt: tweetData.pinned_at,
-      });
-
-      const formattedTweets: Tweet[] = (tweetsData || []).map(formatTweetData);
-
-      // Ensure pinned tweets appear first
-      formattedTweets.sort((a, b) => {
-        if (a.pinnedToProfile !== b.pinnedToProfile) {
-          return a.pinnedToProfile ? -1 : 1;
-        }
-        return b.createdAt.getTime() - a.createdAt.getTime();
-      });
-
-      const formattedReplies: Tweet[] = (repliesData || []).map(formatTweetData);
-      const formattedLikes: Tweet[] = (likesData || []).filter((like: any) => like.tweets).map((like: any) => formatTweetData(like.tweets));
-
       setProfile(formattedProfile);
-      setTweets(formattedTweets);
-      setReplies(formattedReplies);
-      setLikes(formattedLikes);
     } catch (err: any) {
       setError(err.message);
       console.error('Error fetching user profile:', err);
@@ -259,7 +124,9 @@ export const UserProfilePage: React.FC = () => {
   };
 
   const handleProfileUpdate = () => {
+    if (currentUser) invalidateCache.userTweets(currentUser.id);
     fetchUserProfile();
+    refreshTweets();
   };
 
   const handleFollowersClick = () => {
@@ -498,6 +365,11 @@ export const UserProfilePage: React.FC = () => {
                   </div>
                 ))
               )}
+              <LoadMoreTrigger
+                hasMore={hasMore(activeTab)}
+                loading={loadingMore}
+                onLoadMore={() => loadMore(activeTab)}
+              />
             </div>
           </div>
         </div>
@@ -693,6 +565,11 @@ export const UserProfilePage: React.FC = () => {
                 </div>
               ))
             )}
+            <LoadMoreTrigger
+              hasMore={hasMore(activeTab)}
+              loading={loadingMore}
+              onLoadMore={() => loadMore(activeTab)}
+            />
           </div>
         </div>
       </div>
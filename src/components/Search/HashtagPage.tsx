@@ -5,6 +5,7 @@ import { Button } from '../ui/button';
 import { TweetCard } from '../Tweet/TweetCard';
 import { MobileTweetCard } from '../Tweet/MobileTweetCard';
 import { TweetSkeletonList } from '../Tweet/TweetSkeleton';
+import { LoadMoreTrigger } from '../ui/LoadMoreTrigger';
 import { useHashtags } from '../../hooks/useHashtags';
 import { useAuth } from '../../hooks/useAuth';
 import { useTweets } from '../../hooks/useTweets';
@@ -15,7 +16,16 @@ export const HashtagPage: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { language, isRTL } = useLanguageStore();
-  const { hashtagTweets, loading, error, searchHashtagTweets, trendingHashtags } = useHashtags();
+  const {
+    hashtagTweets,
+    loading,
+    loadingMore,
+    hasMoreHashtagTweets,
+    error,
+    searchHashtagTweets,
+    loadMoreHashtagTweets,
+    trendingHashtags,
+  } = useHashtags();
   const { likeTweet, unlikeTweet, retweetTweet, unretweetTweet, bookmarkTweet, unbookmarkTweet } = useTweets();
   const [sortBy, setSortBy] = useState<'recent' | 'top'>('recent');
 
@@ -33,10 +43,6 @@ export const HashtagPage: React.FC = () => {
       } else {
         await likeTweet(tweetId);
       }
-      // Refresh hashtag tweets to update like counts
-      if (hashtag) {
-        searchHashtagTweets(hashtag, sortBy);
-      }
     } catch (error) {
       console.error('Error toggling like:', error);
     }
@@ -49,10 +55,6 @@ export const HashtagPage: React.FC = () => {
       } else {
         await retweetTweet(tweetId);
       }
-      // Refresh hashtag tweets to update retweet counts
-      if (hashtag) {
-        searchHashtagTweets(hashtag, sortBy);
-      }
     } catch (error) {
       console.error('Error toggling retweet:', error);
     }
@@ -65,10 +67,6 @@ export const HashtagPage: React.FC = () => {
       } else {
         await bookmarkTweet(tweetId);
       }
-      // Refresh hashtag tweets to update bookmark status
-      if (hashtag) {
-        searchHashtagTweets(hashtag, sortBy);
-      }
     } catch (error) {
       console.error('Error toggling bookmark:', error);
     }
@@ -277,8 +275,15 @@ export const HashtagPage: React.FC = () => {
               ))}
             </div>
 
-            {/* Load more indicator */}
-            {hashtagTweets.length >= 50 && (
+            {/* Older posts load as the end of the list comes into view */}
+            <LoadMoreTrigger
+              hasMore={hasMoreHashtagTweets}
+              loading={loadingMore}
+              onLoadMore={loadMoreHashtagTweets}
+            />
+
+            {/* Top posts are a single page */}
+            {sortBy === 'top' && hashtagTweets.length >= 50 && (
               <div className="text-center py-8">
                 <p className="text-gray-500 text-sm">
                   Showing latest {hashtagTweets.length} posts
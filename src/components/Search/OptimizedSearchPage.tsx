@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Search, X, TrendingUp, Hash, User, Filter, ChevronDown, ChevronUp, Tag, Globe, ArrowLeft } from 'lucide-react';
+import { Search, X, TrendingUp, Hash, User, Filter, ChevronDown, ChevronUp, Tag, Globe, ArrowLeft, Star } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
 import { 
@@ -11,27 +11,36 @@ import {
 import { TweetCard } from '../Tweet/TweetCard';
 import { MobileTweetCard } from '../Tweet/MobileTweetCard';
 import { TweetSkeletonList } from '../Tweet/TweetSkeleton';
-import { useNavigate } from 'react-router-dom';
+import { PLACE_TYPE_ICONS } from '../Tweet/PlaceChip';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useHashtags } from '../../hooks/useHashtags';
 import { useTweets } from '../../hooks/useTweets';
+import { usePlaceReviewStats } from '../../hooks/usePlaceReviewStats';
 import { supabase } from '../../lib/supabase';
 import { storageService } from '../../lib/storage';
-import { User as UserType } from '../../types';
+import { Place, User as UserType } from '../../types';
 import { TWEET_CATEGORIES, FILTER_COUNTRIES, getLocalizedCountryName } from '../../types';
-import { getPreloadedData } from '../../hooks/usePreloader';
+import { profileCache, cacheKeys } from '../../lib/cache';
+import { getPlaceLabel, PLACE_TYPE_LABELS, searchPlaces } from '../../lib/gazetteer';
+import { formatRating } from '../../lib/reviews';
+import { parseRouteQuery } from '../../lib/airports';
+import { fetchRouteDealsPage } from '../../lib/tweetRepository';
 import { useLanguageStore } from '../../store/useLanguageStore';
+import { useStore } from '../../store/useStore';
 
 interface SearchResult {
-  type: 'user' | 'hashtag' | 'tweet';
-  data: UserType | string | any;
+  type: 'user' | 'hashtag' | 'place' | 'tweet';
+  data: UserType | string | Place | any;
 }
 
 export const OptimizedSearchPage: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
+  // `/search?q=RUH-IST` opens on a query, e.g. from a flight deal's route
+  const [searchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('q') ?? '');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'top' | 'people' | 'hashtags' | 'tweets'>('top');
+  const [activeTab, setActiveTab] = useState<'top' | 'people' | 'hashtags' | 'places' | 'tweets'>('top');
   const [showFilters, setShowFilters] = useState(false);
   
   // Filter states
@@ -43,11 +52,21 @@ export const OptimizedSearchPage: React.FC = () => {
   const { trendingHashtags, hashtagTweets, loading: hashtagsLoading, searchTweetsByKeyword } = useHashtags();
   const { likeTweet, unlikeTweet } = useTweets();
   const navigate = useNavigate();
+  // Average ratings for the places found
+  const { stats: placeReviewStats } = usePlaceReviewStats(
+    searchResults.filter(result => result.type === 'place').map(result => (result.data as Place).id)
+  );
+
+  // Following a route link while already on this page swaps the query in place
+  useEffect(() => {
+    const query = searchParams.get('q');
+    if (query) setSearchQuery(query);
+  }, [searchParams]);
 
   // Load preloaded data on component mount
   useEffect(() => {
     // Try to get preloaded user suggestions
-    const preloadedSuggestions = getPreloadedData('preloaded_user_suggestions');
+    const preloadedSuggestions = user ? profileCache.get<any[]>(cacheKeys.suggestions(user.id)) : null;
     if (preloadedSuggestions && !searchQuery) {
       const userResults: SearchResult[] = preloadedSuggestions.slice(0, 5).map((user: any) => ({
         type: 'user',
@@ -66,14 +85,14 @@ export const OptimizedSearchPage: React.FC = () => {
       }));
       setSearchResults(userResults);
     }
-  }, [searchQuery]);
+  }, [searchQuery, user]);
 
   useEffect(() => {
     if (searchQuery.trim()) {
       performSearch();
     } else {
       // Show preloaded suggestions when no search query
-      const preloadedSuggestions = getPreloadedData('preloaded_user_suggestions');
+      const preloadedSuggestions = user ? profileCache.get<any[]>(cacheKeys.suggestions(user.id)) : null;
       if (preloadedSuggestions) {
         const userResults: SearchResult[] = preloadedSuggestions.slice(0, 5).map((user: any) => ({
           type: 'user',
@@ -155,8 +174,30 @@ export const OptimizedSearchPage: React.FC = () => {
         results.push(...hashtagResults);
       }
 
+      // Places come from the bundled gazetteer, narrowed to the selected countries
+      if (activeTab === 'places' || activeTab === 'top') {
+        const placeResults: SearchResult[] = searchPlaces(searchQuery, 20)
+          .filter(place => selectedCountries.length === 0 || selectedCountries.includes(place.countryCode))
+          .slice(0, activeTab === 'places' ? 20 : 3)
+          .map(place => ({
+            type: 'place',
+            data: place
+          }));
+
+        results.push(...placeResults);
+      }
+
       // Search for tweets by keyword if looking for tweets or top results
-      if (activeTab === 'tweets' || activeTab === 'top') {
+      // A route like RUH-IST finds the flight deals between those airports instead
+      const route = parseRouteQuery(searchQuery);
+      if (route && (activeTab === 'tweets' || activeTab === 'top')) {
+        const { rows } = await fetchRouteDealsPage(route.origin.iata, route.destination.iata, null, 20, user?.id);
+
+        results.push(...rows.map<SearchResult>(tweet => ({
+          type: 'tweet',
+          data: tweet
+        })));
+      } else if (activeTab === 'tweets' || activeTab === 'top') {
         await searchTweetsByKeyword(searchQuery, 'recent');
         
         const tweetResults: SearchResult[] = hashtagTweets.slice(0, activeTab === 'tweets' ? 20 : 5).map(tweet => ({
@@ -184,14 +225,19 @@ export const OptimizedSearchPage: React.FC = () => {
     navigate(`/hashtag/${cleanHashtag}`);
   };
 
+  const handlePlaceClick = (place: Place) => {
+    navigate(`/place/${place.id}`);
+  };
+
   const handleLike = async (tweetId: string, isCurrentlyLiked: boolean) => {
     try {
-      if (isCurrentlyLiked) {
+      // Search results are snapshots; the entity store has the latest flag
+      const isLiked = useStore.getState().tweetsById[tweetId]?.isLiked ?? isCurrentlyLiked;
+      if (isLiked) {
         await unlikeTweet(tweetId);
       } else {
         await likeTweet(tweetId);
       }
-      performSearch();
     } catch (error) {
       console.error('Error toggling like:', error);
     }
@@ -238,6 +284,7 @@ export const OptimizedSearchPage: React.FC = () => {
   const filteredResults = searchResults.filter(result => {
     if (activeTab === 'people') return result.type === 'user';
     if (activeTab === 'hashtags') return result.type === 'hashtag';
+    if (activeTab === 'places') return result.type === 'place';
     if (activeTab === 'tweets') return result.type === 'tweet';
     return true; // 'top' shows all results
   });
@@ -251,11 +298,12 @@ export const OptimizedSearchPage: React.FC = () => {
 
   const selectableCountries = FILTER_COUNTRIES.filter(country => country.code !== 'ALL');
 
-  const getTabLabel = (tab: 'top' | 'people' | 'hashtags' | 'tweets') => {
+  const getTabLabel = (tab: 'top' | 'people' | 'hashtags' | 'places' | 'tweets') => {
     switch (tab) {
       case 'top': return language === 'en' ? 'Top' : 'الأفضل';
       case 'people': return language === 'en' ? 'People' : 'الأشخاص';
       case 'hashtags': return language === 'en' ? 'Hashtags' : 'الهاشتاجات';
+      case 'places': return language === 'en' ? 'Places' : 'الأماكن';
       case 'tweets': return language === 'en' ? 'Tweets' : 'التغريدات';
       default: return tab;
     }
@@ -278,7 +326,7 @@ export const OptimizedSearchPage: React.FC = () => {
             <Search className={`absolute top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 ${isRTL ? 'right-4' : 'left-4'}`} />
             <input
               type="text"
-              placeholder={language === 'en' ? 'Search for people, hashtags, or tweets...' : 'البحث عن أشخاص أو هاشتاجات أو تغريدات...'}
+              placeholder={language === 'en' ? 'Search for people, hashtags, places, tweets or routes like RUH-IST...' : 'البحث عن أشخاص أو هاشتاجات أو أماكن أو تغريدات أو مسارات مثل RUH-IST...'}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className={`w-full bg-gray-100 rounded-full py-3 text-gray-900 placeholder-gray-500 border-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all ${
@@ -302,7 +350,7 @@ export const OptimizedSearchPage: React.FC = () => {
       {/* Search Tabs */}
       <div className="bg-white border-b border-gray-100 px-4 flex-shrink-0">
         <div className="flex">
-          {(['top', 'people', 'hashtags', 'tweets'] as const).map((tab) => (
+          {(['top', 'people', 'hashtags', 'places', 'tweets'] as const).map((tab) => (
             <Button
               key={tab}
               variant="ghost"
@@ -551,6 +599,39 @@ export const OptimizedSearchPage: React.FC = () => {
                             </div>
                           </div>
                         </div>
+                      ) : result.type === 'place' ? (
+                        <div
+                          onClick={() => handlePlaceClick(result.data as Place)}
+                          className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                        >
+                          <div className="flex items-center space-x-3">
+                            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                              {React.createElement(PLACE_TYPE_ICONS[(result.data as Place).type], { className: 'w-6 h-6 text-blue-500' })}
+                            </div>
+                            <div className="min-w-0">
+                              <p className="font-bold text-gray-900 truncate">
+                                {getPlaceLabel(result.data as Place, language)}
+                              </p>
+                              <p className="text-gray-500 text-sm flex items-center gap-1">
+                                {PLACE_TYPE_LABELS[(result.data as Place).type][language]}
+                                {placeReviewStats[(result.data as Place).id] && (
+                                  <>
+                                    <span>·</span>
+                                    <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                                    <span className="font-medium text-gray-700">
+                                      {formatRating(placeReviewStats[(result.data as Place).id].average)}
+                                    </span>
+                                    <span>
+                                      {language === 'en'
+                                        ? `(${placeReviewStats[(result.data as Place).id].count} review${placeReviewStats[(result.data as Place).id].count === 1 ? '' : 's'})`
+                                        : `(${placeReviewStats[(result.data as Place).id].count} تقييم)`}
+                                    </span>
+                                  </>
+                                )}
+                              </p>
+                            </div>
+                          </div>
+                        </div>
                       ) : (
                         /* Tweet Result */
                         <div>
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, Luggage, Plus } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { FILTER_COUNTRIES, Tweet } from '../../types';
+import { useTrips } from '../../hooks/useTrips';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import {
+  canEditTrip,
+  fetchTripIdsWithTweet,
+  removeTweetFromTrip,
+  saveTweetToTrip,
+  TRIP_TITLE_MAX_LENGTH,
+} from '../../lib/tripRepository';
+
+interface SaveToTripDialogProps {
+  tweet: Tweet;
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Saves a post into any of the trips the viewer can edit, or into a new one
+export const SaveToTripDialog: React.FC<SaveToTripDialogProps> = ({ tweet, userId, isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const { language, isRTL } = useLanguageStore();
+  const { trips, loading, create } = useTrips(userId);
+  const [savedTripIds, setSavedTripIds] = useState<string[]>([]);
+  const [pendingTripId, setPendingTripId] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editableTrips = trips.filter(trip => canEditTrip(trip.access ?? null));
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setError(null);
+
+    fetchTripIdsWithTweet(tweet.id)
+      .then(ids => {
+        if (!cancelled) setSavedTripIds(ids);
+      })
+      .catch(err => {
+        console.error('Error fetching saved trips:', err);
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tweet.id]);
+
+  const toggleTrip = async (tripId: string) => {
+    if (pendingTripId) return;
+    const saved = savedTripIds.includes(tripId);
+
+    try {
+      setPendingTripId(tripId);
+      setError(null);
+      if (saved) {
+        await removeTweetFromTrip(tripId, tweet.id);
+        setSavedTripIds(prev => prev.filter(id => id !== tripId));
+      } else {
+        await saveTweetToTrip(tripId, tweet.id, userId);
+        setSavedTripIds(prev => [...prev, tripId]);
+      }
+    } catch (err: any) {
+      console.error('Error saving to trip:', err);
+      setError(err.message);
+    } finally {
+      setPendingTripId(null);
+    }
+  };
+
+  // A new trip starts with the post's countries as its destinations
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim() || creating) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+      const trip = await create({
+        title: newTitle,
+        countries: (tweet.tags || []).filter(tag => tag !== 'ALL' && FILTER_COUNTRIES.some(country => country.code === tag)),
+      });
+      await saveTweetToTrip(trip.id, tweet.id, userId);
+      setSavedTripIds(prev => [...prev, trip.id]);
+      setNewTitle('');
+    } catch (err: any) {
+      console.error('Error creating trip:', err);
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">
+            {language === 'en' ? 'Save to trip' : 'حفظ في رحلة'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading && editableTrips.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          </div>
+        ) : editableTrips.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">
+            {language === 'en' ? 'No trips yet. Start one below.' : 'لا توجد رحلات بعد. ابدأ واحدة أدناه.'}
+          </p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 -mx-2">
+            {editableTrips.map(trip => {
+              const saved = savedTripIds.includes(trip.id);
+              return (
+                <li key={trip.id}>
+                  <button
+                    type="button"
+                    onClick={() => toggleTrip(trip.id)}
+                    disabled={pendingTripId !== null}
+                    className={`w-full flex items-center gap-3 px-2 py-3 hover:bg-gray-50 rounded-lg disabled:opacity-50 ${
+                      isRTL ? 'text-right' : 'text-left'
+                    }`}
+                    aria-pressed={saved}
+                  >
+                    <Luggage className="h-5 w-5 text-blue-500 flex-shrink-0" />
+                    <span className="flex-1 min-w-0 font-medium text-gray-900 truncate">{trip.title}</span>
+                    {saved && <Check className="h-5 w-5 text-green-600 flex-shrink-0" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2 pt-2 border-t border-gray-100">
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            maxLength={TRIP_TITLE_MAX_LENGTH}
+            placeholder={language === 'en' ? 'New trip name' : 'اسم رحلة جديدة'}
+            className={`flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isRTL ? 'text-right' : 'text-left'
+            }`}
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          <Button
+            type="submit"
+            disabled={!newTitle.trim() || creating}
+            className="rounded-full bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {creating ? (language === 'en' ? 'Creating...' : 'جاري الإنشاء...') : (language === 'en' ? 'Create' : 'إنشاء')}
+          </Button>
+        </form>
+
+        <button
+          type="button"
+          onClick={() => {
+            onClose();
+            navigate('/trips');
+          }}
+          className="text-sm text-blue-500 hover:underline self-start"
+        >
+          {language === 'en' ? 'Go to my trips' : 'الذهاب إلى رحلاتي'}
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { UserPlus, X } from 'lucide-react';
+import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
+import { Button } from '../ui/button';
+import { Trip, TripCollaborator, TripRole } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { storageService } from '../../lib/storage';
+
+interface TripCollaboratorsProps {
+  trip: Trip;
+  collaborators: TripCollaborator[];
+  isOwner: boolean;
+  onInvite: (username: string, role: TripRole) => Promise<void>;
+  onChangeRole: (userId: string, role: TripRole) => void;
+  onRemove: (userId: string) => void;
+}
+
+// The trip's owner and collaborators; only the owner can invite, change roles or remove people
+export const TripCollaborators: React.FC<TripCollaboratorsProps> = ({
+  trip,
+  collaborators,
+  isOwner,
+  onInvite,
+  onChangeRole,
+  onRemove,
+}) => {
+  const navigate = useNavigate();
+  const { language, isRTL } = useLanguageStore();
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<TripRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const roleLabel = (value: TripRole) => (value === 'editor'
+    ? (language === 'en' ? 'Can edit' : 'يمكنه التعديل')
+    : (language === 'en' ? 'Can view' : 'للعرض فقط'));
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || inviting) return;
+
+    try {
+      setInviting(true);
+      setError(null);
+      await onInvite(username, role);
+      setUsername('');
+    } catch (err: any) {
+      console.error('Error inviting collaborator:', err);
+      setError(err.message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const renderPerson = (
+    person: { id: string; username: string; displayName: string; avatar: string },
+    trailing: React.ReactNode,
+  ) => (
+    <div className="flex items-center gap-3 py-2">
+      <button
+        type="button"
+        onClick={() => navigate(`/profile/${person.username}`)}
+        className={`flex items-center gap-3 flex-1 min-w-0 ${isRTL ? 'text-right' : 'text-left'}`}
+      >
+        <Avatar className="w-9 h-9 flex-shrink-0">
+          <AvatarImage
+            src={person.avatar ? storageService.getOptimizedImageUrl(person.avatar, { width: 72, quality: 80 }) : undefined}
+          />
+          <AvatarFallback>{person.displayName[0]?.toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          <p className="font-medium text-sm text-gray-900 truncate">{person.displayName}</p>
+          <p className="text-xs text-gray-500 truncate">@{person.username}</p>
+        </div>
+      </button>
+      {trailing}
+    </div>
+  );
+
+  return (
+    <section className="px-4 py-4 border-b border-gray-100 print:hidden">
+      <h2 className="text-sm font-bold text-gray-500 mb-2">
+        {language === 'en' ? 'People' : 'المشاركون'}
+      </h2>
+
+      {trip.owner && renderPerson(
+        trip.owner,
+        <span className="text-xs text-gray-500 flex-shrink-0">{language === 'en' ? 'Owner' : 'المالك'}</span>,
+      )}
+
+      {collaborators.map(collaborator => (
+        <React.Fragment key={collaborator.user.id}>
+          {renderPerson(
+            collaborator.user,
+            isOwner ? (
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <select
+                  value={collaborator.role}
+                  onChange={(e) => onChangeRole(collaborator.user.id, e.target.value as TripRole)}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="viewer">{roleLabel('viewer')}</option>
+                  <option value="editor">{roleLabel('editor')}</option>
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(collaborator.user.id)}
+                  className="p-1 hover:bg-red-100"
+                  title={language === 'en' ? 'Remove' : 'إزالة'}
+                >
+                  <X className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ) : (
+              <span className="text-xs text-gray-500 flex-shrink-0">{roleLabel(collaborator.role)}</span>
+            ),
+          )}
+        </React.Fragment>
+      ))}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="flex items-center gap-2 mt-3">
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder={language === 'en' ? 'Invite by username' : 'ادعُ باسم المستخدم'}
+            className={`flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isRTL ? 'text-right' : 'text-left'
+            }`}
+            dir="ltr"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as TripRole)}
+            className="border border-gray-300 rounded-lg px-2 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="viewer">{roleLabel('viewer')}</option>
+            <option value="editor">{roleLabel('editor')}</option>
+          </select>
+          <Button
+            type="submit"
+            disabled={!username.trim() || inviting}
+            className="rounded-full bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            {language === 'en' ? 'Invite' : 'دعوة'}
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Globe, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { FILTER_COUNTRIES, getLocalizedCountryName, Trip } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { TRIP_TITLE_MAX_LENGTH, TripFields } from '../../lib/tripRepository';
+
+interface TripFormDialogProps {
+  isOpen: boolean;
+  trip?: Trip | null; // editing this trip; a new one otherwise
+  onClose: () => void;
+  onSubmit: (fields: TripFields) => Promise<void>;
+}
+
+const selectableCountries = FILTER_COUNTRIES.filter(country => country.code !== 'ALL');
+
+// Name, dates and destination countries of a new or existing trip
+export const TripFormDialog: React.FC<TripFormDialogProps> = ({ isOpen, trip, onClose, onSubmit }) => {
+  const { language, isRTL } = useLanguageStore();
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [countries, setCountries] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Each opening starts from the trip as saved
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(trip?.title ?? '');
+    setStartDate(trip?.startDate ?? '');
+    setEndDate(trip?.endDate ?? '');
+    setCountries(trip?.countries ?? []);
+    setError(null);
+  }, [isOpen, trip]);
+
+  const datesReversed = !!startDate && !!endDate && endDate < startDate;
+  const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const addCountry = (code: string) => {
+    if (code && !countries.includes(code)) setCountries([...countries, code]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || datesReversed || saving) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit({ title, startDate: startDate || undefined, endDate: endDate || undefined, countries });
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving trip:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">
+            {trip
+              ? (language === 'en' ? 'Edit trip' : 'تعديل الرحلة')
+              : (language === 'en' ? 'New trip' : 'رحلة جديدة')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            {language === 'en' ? 'Name' : 'الاسم'}
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={TRIP_TITLE_MAX_LENGTH}
+              placeholder={language === 'en' ? 'e.g. Summer in Istanbul' : 'مثلاً: صيف في إسطنبول'}
+              className={`mt-1 ${inputClass} ${isRTL ? 'text-right' : 'text-left'}`}
+              dir={isRTL ? 'rtl' : 'ltr'}
+              autoFocus
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm font-medium text-gray-700">
+              {language === 'en' ? 'From' : 'من'}
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              {language === 'en' ? 'To' : 'إلى'}
+              <input
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          </div>
+          {datesReversed && (
+            <p className="text-xs text-red-600">
+              {language === 'en' ? 'The trip ends before it starts' : 'تنتهي الرحلة قبل أن تبدأ'}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              {language === 'en' ? 'Destinations' : 'الوجهات'}
+              <select
+                value=""
+                onChange={(e) => addCountry(e.target.value)}
+                className={`mt-1 ${inputClass} bg-white`}
+              >
+                <option value="">{language === 'en' ? 'Add a country...' : 'أضف بلداً...'}</option>
+                {selectableCountries.map(country => (
+                  <option key={country.code} value={country.code} disabled={countries.includes(country.code)}>
+                    {getLocalizedCountryName(country, language)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {countries.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {countries.map(code => {
+                  const country = FILTER_COUNTRIES.find(c => c.code === code);
+                  return (
+                    <span
+                      key={code}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-sm font-medium bg-green-50 text-green-700 border border-green-200"
+                    >
+                      <Globe className="w-3 h-3" />
+                      {country ? getLocalizedCountryName(country, language) : code}
+                      <button
+                        type="button"
+                        onClick={() => setCountries(countries.filter(existing => existing !== code))}
+                        className="hover:bg-green-100 rounded-full"
+                        aria-label={language === 'en' ? 'Remove country' : 'إزالة البلد'}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="rounded-full">
+              {language === 'en' ? 'Cancel' : 'إلغاء'}
+            </Button>
+            <Button
+              type="submit"
+              disabled={!title.trim() || datesReversed || saving}
+              className="rounded-full bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {saving
+                ? (language === 'en' ? 'Saving...' : 'جاري الحفظ...')
+                : trip
+                  ? (language === 'en' ? 'Save' : 'حفظ')
+                  : (language === 'en' ? 'Create trip' : 'إنشاء الرحلة')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
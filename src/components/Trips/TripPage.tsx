@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  CalendarRange,
+  Edit3,
+  Globe,
+  Luggage,
+  LogOut,
+  Printer,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '../ui/button';
+import { QuotedTweetCard } from '../Tweet/QuotedTweetCard';
+import { ItineraryTimeline } from '../Tweet/ItineraryTimeline';
+import { TripFormDialog } from './TripFormDialog';
+import { TripCollaborators } from './TripCollaborators';
+import { useAuth } from '../../hooks/useAuth';
+import { useTrip } from '../../hooks/useTrip';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { FILTER_COUNTRIES, getLocalizedCountryName, TripItem } from '../../types';
+import { deleteTrip, formatTripDates, TRIP_NOTE_MAX_LENGTH } from '../../lib/tripRepository';
+
+interface TripItemNoteProps {
+  item: TripItem;
+  onSave: (itemId: string, note: string) => void;
+}
+
+// The viewer's private note on a saved post, saved when the field loses focus.
+// Every member keeps their own, viewers included
+const TripItemNote: React.FC<TripItemNoteProps> = ({ item, onSave }) => {
+  const { language, isRTL } = useLanguageStore();
+  const [draft, setDraft] = useState(item.note);
+
+  useEffect(() => {
+    setDraft(item.note);
+  }, [item.note]);
+
+  return (
+    <>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft.trim() !== item.note) onSave(item.id, draft);
+        }}
+        maxLength={TRIP_NOTE_MAX_LENGTH}
+        rows={2}
+        placeholder={language === 'en' ? 'Add a note...' : 'أضف ملاحظة...'}
+        className={`w-full border border-gray-200 rounded-lg px-3 py-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 print:hidden ${
+          isRTL ? 'text-right' : 'text-left'
+        }`}
+        dir={isRTL ? 'rtl' : 'ltr'}
+      />
+      {item.note && (
+        <p className="hidden print:block text-sm text-gray-700 whitespace-pre-wrap">{item.note}</p>
+      )}
+    </>
+  );
+};
+
+// One trip: its dates and destinations, copied itinerary, saved posts with notes, and who it's shared with.
+// Printing the page leaves out the controls, so the browser's print dialog doubles as a PDF export.
+export const TripPage: React.FC = () => {
+  const { tripId } = useParams<{ tripId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const {
+    trip,
+    items,
+    collaborators,
+    access,
+    canEdit,
+    loading,
+    error,
+    save,
+    moveItem,
+    updateNote,
+    removeItem,
+    invite,
+    changeRole,
+    removeCollaborator,
+  } = useTrip(tripId, user?.id);
+  const [editOpen, setEditOpen] = useState(false);
+  const isOwner = access === 'owner';
+
+  const handleDelete = async () => {
+    if (!trip || !window.confirm(language === 'en' ? `Delete "${trip.title}"?` : `حذف "${trip.title}"؟`)) return;
+
+    try {
+      await deleteTrip(trip.id);
+      navigate('/trips', { replace: true });
+    } catch (err: any) {
+      console.error('Error deleting trip:', err);
+      window.alert(err.message);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user || !window.confirm(language === 'en' ? 'Leave this trip?' : 'مغادرة هذه الرحلة؟')) return;
+    await removeCollaborator(user.id);
+    navigate('/trips', { replace: true });
+  };
+
+  const header = (title: string) => (
+    <div className="bg-white/80 backdrop-blur-md border-b border-gray-200 px-4 py-3 z-10 flex-shrink-0 print:hidden">
+      <div className="flex items-center justify-between gap-2">
+        <div className={`flex items-center min-w-0 ${isRTL ? 'space-x-reverse space-x-4' : 'space-x-4'}`}>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/trips')}
+            className="p-2"
+            aria-label={language === 'en' ? 'Go back' : 'العودة'}
+          >
+            <ArrowLeft className={`h-5 w-5 ${isRTL ? 'rotate-180' : ''}`} />
+          </Button>
+          <h1 className="text-xl font-bold truncate">{title}</h1>
+        </div>
+
+        {trip && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.print()}
+              className="p-2"
+              title={language === 'en' ? 'Print or save as PDF' : 'طباعة أو حفظ كملف PDF'}
+            >
+              <Printer className="h-5 w-5" />
+            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditOpen(true)}
+                className="p-2"
+                title={language === 'en' ? 'Edit trip' : 'تعديل الرحلة'}
+              >
+                <Edit3 className="h-5 w-5" />
+              </Button>
+            )}
+            {isOwner ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDelete}
+                className="p-2 hover:bg-red-100"
+                title={language === 'en' ? 'Delete trip' : 'حذف الرحلة'}
+              >
+                <Trash2 className="h-5 w-5 text-red-500" />
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLeave}
+                className="p-2 hover:bg-red-100"
+                title={language === 'en' ? 'Leave trip' : 'مغادرة الرحلة'}
+              >
+                <LogOut className={`h-5 w-5 text-red-500 ${isRTL ? 'rotate-180' : ''}`} />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading && !trip) {
+    return (
+      <div className="min-h-screen bg-white flex flex-col">
+        {header(language === 'en' ? 'Trip' : 'الرحلة')}
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="min-h-screen bg-white flex flex-col">
+        {header(language === 'en' ? 'Trip' : 'الرحلة')}
+        <div className="text-center py-12 text-gray-500">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Luggage className="w-8 h-8 text-gray-400" />
+          </div>
+          <p className="text-lg mb-2">{language === 'en' ? 'Trip not found' : 'الرحلة غير موجودة'}</p>
+          <p className="text-sm text-gray-400">
+            {error || (language === 'en'
+              ? "It was deleted, or it isn't shared with you."
+              : 'ربما حُذفت، أو لم تتم مشاركتها معك.')}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const dates = formatTripDates(trip, language);
+  const countryNames = trip.countries
+    .map(code => FILTER_COUNTRIES.find(country => country.code === code))
+    .filter((country): country is typeof FILTER_COUNTRIES[number] => !!country)
+    .map(country => getLocalizedCountryName(country, language));
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      {header(trip.title)}
+
+      <div className="flex-1 pb-20 md:pb-0 print:pb-0" dir={isRTL ? 'rtl' : 'ltr'}>
+        {/* Summary */}
+        <section className="px-4 py-4 border-b border-gray-100">
+          <h1 className="hidden print:block text-2xl font-bold mb-2">{trip.title}</h1>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+            {dates && (
+              <span className="flex items-center gap-1">
+                <CalendarRange className="w-4 h-4" />
+                {dates}
+              </span>
+            )}
+            {countryNames.length > 0 && (
+              <span className="flex items-center gap-1">
+                <Globe className="w-4 h-4" />
+                {countryNames.join(language === 'en' ? ', ' : '، ')}
+              </span>
+            )}
+            {trip.owner && !isOwner && (
+              <span className="text-gray-500">
+                {language === 'en' ? `Planned by @${trip.owner.username}` : `خطّط لها @${trip.owner.username}`}
+              </span>
+            )}
+          </div>
+        </section>
+
+        {error && (
+          <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg print:hidden">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {trip.itinerary && trip.itinerary.days.length > 0 && (
+          <section className="px-4 py-4 border-b border-gray-100 print:break-inside-avoid">
+            <h2 className="text-sm font-bold text-gray-500 mb-3">
+              {language === 'en' ? 'Itinerary' : 'خط السير'}
+            </h2>
+            <ItineraryTimeline itinerary={trip.itinerary} />
+          </section>
+        )}
+
+        {/* Saved posts */}
+        <section className="px-4 py-4 border-b border-gray-100">
+          <h2 className="text-sm font-bold text-gray-500 mb-3">
+            {language === 'en' ? `Saved posts (${items.length})` : `المنشورات المحفوظة (${items.length})`}
+          </h2>
+
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">
+              {canEdit
+                ? (language === 'en'
+                  ? 'Save posts here with "Save to trip" in their menu.'
+                  : 'احفظ المنشورات هنا عبر "حفظ في رحلة" من قائمتها.')
+                : (language === 'en' ? 'No posts saved yet.' : 'لا توجد منشورات محفوظة بعد.')}
+            </p>
+          ) : (
+            <ol className="space-y-4">
+              {items.map((item, index) => (
+                <li key={item.id} className="flex gap-3 print:break-inside-avoid">
+                  <span className="w-6 h-6 rounded-full bg-blue-50 text-blue-600 text-xs font-bold flex items-center justify-center flex-shrink-0 mt-1">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    {item.tweet ? (
+                      <QuotedTweetCard tweet={item.tweet} currentUserId={user?.id} />
+                    ) : (
+                      <div className="border border-gray-200 rounded-xl p-3 text-sm text-gray-500 bg-gray-50">
+                        {language === 'en' ? 'This post is no longer available' : 'هذا المنشور لم يعد متاحاً'}
+                      </div>
+                    )}
+                    <TripItemNote item={item} onSave={updateNote} />
+                  </div>
+                  {canEdit && (
+                    <div className="flex flex-col items-center gap-1 flex-shrink-0 print:hidden">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveItem(item.id, -1)}
+                        disabled={index === 0}
+                        className="p-1"
+                        aria-label={language === 'en' ? 'Move up' : 'نقل لأعلى'}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveItem(item.id, 1)}
+                        disabled={index === items.length - 1}
+                        className="p-1"
+                        aria-label={language === 'en' ? 'Move down' : 'نقل لأسفل'}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeItem(item.id)}
+                        className="p-1 hover:bg-red-100"
+                        aria-label={language === 'en' ? 'Remove from trip' : 'إزالة من الرحلة'}
+                      >
+                        <X className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <TripCollaborators
+          trip={trip}
+          collaborators={collaborators}
+          isOwner={isOwner}
+          onInvite={invite}
+          onChangeRole={changeRole}
+          onRemove={removeCollaborator}
+        />
+      </div>
+
+      <TripFormDialog isOpen={editOpen} trip={trip} onClose={() => setEditOpen(false)} onSubmit={save} />
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { ArrowLeft, Bookmark, CalendarRange, Globe, Luggage, Plus, Trash2, Users } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '../ui/button';
+import { LoadMoreTrigger } from '../ui/LoadMoreTrigger';
+import { QuotedTweetCard } from '../Tweet/QuotedTweetCard';
+import { TripFormDialog } from './TripFormDialog';
+import { SaveToTripDialog } from './SaveToTripDialog';
+import { useAuth } from '../../hooks/useAuth';
+import { useTrips } from '../../hooks/useTrips';
+import { useBookmarks } from '../../hooks/useBookmarks';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { FILTER_COUNTRIES, getLocalizedCountryName, Trip, Tweet } from '../../types';
+import { formatTripDates, TripFields } from '../../lib/tripRepository';
+
+type TripsTab = 'trips' | 'bookmarks';
+
+// The viewer's trips and the ones shared with them, plus their bookmarks to sort into trips
+export const TripsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: TripsTab = searchParams.get('tab') === 'bookmarks' ? 'bookmarks' : 'trips';
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const { ownTrips, sharedTrips, loading, error, create, remove } = useTrips(user?.id);
+  const {
+    bookmarks,
+    loading: bookmarksLoading,
+    hasMore: hasMoreBookmarks,
+    error: bookmarksError,
+    loadMore: loadMoreBookmarks,
+  } = useBookmarks(user?.id, tab === 'bookmarks');
+  const [formOpen, setFormOpen] = useState(false);
+  const [savingTweet, setSavingTweet] = useState<Tweet | null>(null);
+  const locale = language === 'ar' ? arSA : enUS;
+
+  const setTab = (next: TripsTab) => {
+    setSearchParams(next === 'bookmarks' ? { tab: next } : {}, { replace: true });
+  };
+
+  const handleCreate = async (fields: TripFields) => {
+    const trip = await create(fields);
+    navigate(`/trips/${trip.id}`);
+  };
+
+  const handleDelete = (e: React.MouseEvent, trip: Trip) => {
+    e.stopPropagation();
+    if (window.confirm(language === 'en' ? `Delete "${trip.title}"?` : `حذف "${trip.title}"؟`)) {
+      remove(trip.id);
+    }
+  };
+
+  const renderTrip = (trip: Trip) => {
+    const dates = formatTripDates(trip, language);
+    const countryNames = trip.countries
+      .map(code => FILTER_COUNTRIES.find(country => country.code === code))
+      .filter((country): country is typeof FILTER_COUNTRIES[number] => !!country)
+      .map(country => getLocalizedCountryName(country, language));
+    const shared = trip.access !== 'owner';
+
+    return (
+      <div
+        key={trip.id}
+        onClick={() => navigate(`/trips/${trip.id}`)}
+        className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1 min-w-0">
+            <p className={`font-bold text-gray-900 truncate ${isRTL ? 'text-right' : 'text-left'}`}>{trip.title}</p>
+            <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+              {dates && (
+                <span className="flex items-center gap-1">
+                  <CalendarRange className="w-3 h-3" />
+                  {dates}
+                </span>
+              )}
+              {countryNames.length > 0 && (
+                <span className="flex items-center gap-1 min-w-0">
+                  <Globe className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{countryNames.join(language === 'en' ? ', ' : '، ')}</span>
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {shared && trip.owner && (
+                <span className="inline-flex items-center gap-1 mr-2">
+                  <Users className="w-3 h-3" />
+                  {language === 'en' ? `Shared by @${trip.owner.username}` : `مشاركة من @${trip.owner.username}`}
+                  {' · '}
+                  {trip.access === 'editor'
+                    ? (language === 'en' ? 'Can edit' : 'يمكنك التعديل')
+                    : (language === 'en' ? 'Can view' : 'للعرض فقط')}
+                  {' · '}
+                </span>
+              )}
+              {language === 'en' ? 'Updated ' : 'حُدّثت '}
+              {formatDistanceToNow(trip.updatedAt, { addSuffix: true, locale })}
+            </p>
+          </div>
+
+          {!shared && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => handleDelete(e, trip)}
+              className="p-1 hover:bg-red-100 flex-shrink-0"
+              title={language === 'en' ? 'Delete' : 'حذف'}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTrips = () => {
+    if (loading && ownTrips.length === 0 && sharedTrips.length === 0) {
+      return (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      );
+    }
+
+    if (ownTrips.length === 0 && sharedTrips.length === 0) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Luggage className="w-8 h-8 text-gray-400" />
+          </div>
+          <p className="text-lg mb-2">{language === 'en' ? 'No trips yet' : 'لا توجد رحلات بعد'}</p>
+          <p className="text-sm text-gray-400 px-6">
+            {language === 'en'
+              ? 'Start a trip, then save posts into it from their menu or from your bookmarks.'
+              : 'ابدأ رحلة، ثم احفظ المنشورات فيها من قائمتها أو من محفوظاتك.'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="divide-y divide-gray-100">{ownTrips.map(renderTrip)}</div>
+        {sharedTrips.length > 0 && (
+          <>
+            <h2 className="px-4 pt-6 pb-2 text-sm font-bold text-gray-500 border-b border-gray-100">
+              {language === 'en' ? 'Shared with you' : 'مشاركة معك'}
+            </h2>
+            <div className="divide-y divide-gray-100">{sharedTrips.map(renderTrip)}</div>
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderBookmarks = () => {
+    if (bookmarks.length === 0) {
+      return bookmarksLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Bookmark className="w-8 h-8 text-gray-400" />
+          </div>
+          <p className="text-lg mb-2">{language === 'en' ? 'No bookmarks yet' : 'لا توجد محفوظات بعد'}</p>
+          <p className="text-sm text-gray-400">
+            {language === 'en' ? 'Posts you bookmark show up here.' : 'تظهر هنا المنشورات التي تحفظها.'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="divide-y divide-gray-100">
+        {bookmarks.map(tweet => (
+          <div key={tweet.id} className="p-4">
+            <QuotedTweetCard tweet={tweet} currentUserId={user?.id} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSavingTweet(tweet)}
+              className="h-8 rounded-full text-xs"
+            >
+              <Luggage className="h-3.5 w-3.5 mr-1" />
+              {language === 'en' ? 'Save to trip' : 'حفظ في رحلة'}
+            </Button>
+          </div>
+        ))}
+        <LoadMoreTrigger hasMore={hasMoreBookmarks} loading={bookmarksLoading} onLoadMore={loadMoreBookmarks} />
+      </div>
+    );
+  };
+
+  const listError = tab === 'bookmarks' ? bookmarksError : error;
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-md border-b border-gray-200 px-4 py-3 z-10 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div className={`flex items-center ${isRTL ? 'space-x-reverse space-x-4' : 'space-x-4'}`}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate(-1)}
+              className="p-2"
+              aria-label={language === 'en' ? 'Go back' : 'العودة'}
+            >
+              <ArrowLeft className={`h-5 w-5 ${isRTL ? 'rotate-180' : ''}`} />
+            </Button>
+            <h1 className="text-xl font-bold">{language === 'en' ? 'Trips' : 'الرحلات'}</h1>
+          </div>
+          <Button
+            onClick={() => setFormOpen(true)}
+            className="rounded-full bg-blue-500 hover:bg-blue-600 text-white h-9 px-4"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {language === 'en' ? 'New trip' : 'رحلة جديدة'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 flex-shrink-0">
+        <div className="flex">
+          {(['trips', 'bookmarks'] as TripsTab[]).map(value => (
+            <Button
+              key={value}
+              variant="ghost"
+              onClick={() => setTab(value)}
+              className={`flex-1 py-4 px-4 font-bold text-base rounded-none border-b-2 transition-colors ${
+                tab === value
+                  ? 'border-blue-500 text-black'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              {value === 'trips'
+                ? (language === 'en' ? 'Trips' : 'الرحلات')
+                : (language === 'en' ? 'Bookmarks' : 'المحفوظات')}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {listError && (
+        <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{listError}</p>
+        </div>
+      )}
+
+      <div className="flex-1 pb-20 md:pb-0">
+        {tab === 'bookmarks' ? renderBookmarks() : renderTrips()}
+      </div>
+
+      <TripFormDialog isOpen={formOpen} onClose={() => setFormOpen(false)} onSubmit={handleCreate} />
+      {savingTweet && user && (
+        <SaveToTripDialog
+          tweet={savingTweet}
+          userId={user.id}
+          isOpen={!!savingTweet}
+          onClose={() => setSavingTweet(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { LazyAvatar } from '../ui/LazyAvatar';
+import { VerifiedBadge } from '../ui/VerifiedBadge';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  AutocompleteSuggestion,
+  getAutocompleteToken,
+  MentionSuggestion,
+  useAutocomplete,
+} from '../../hooks/useAutocomplete';
+import { useLanguageStore } from '../../store/useLanguageStore';
+
+interface AutocompleteTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  onMentionPick?: (user: MentionSuggestion) => void; // to keep the picked user's id
+}
+
+const POPOVER_WIDTH = 256;
+
+// Styles that decide where text wraps, copied onto the measuring mirror
+const MIRRORED_STYLES = [
+  'boxSizing', 'width', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'letterSpacing', 'lineHeight',
+  'textTransform', 'wordSpacing', 'textIndent', 'textAlign', 'direction', 'tabSize',
+] as const;
+
+// Where `position` sits inside the textarea, measured with an off-screen copy of its text
+const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number) => {
+  const mirror = document.createElement('div');
+  const computed = window.getComputedStyle(textarea);
+
+  MIRRORED_STYLES.forEach(property => {
+    mirror.style[property] = computed[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+
+  // The marker holds the word at `position`, so it wraps onto the same line as the real one
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement('span');
+  marker.textContent = textarea.value.slice(position).match(/^\S*/)?.[0] || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft, // where a left-to-right word starts
+    right: marker.offsetLeft + marker.offsetWidth - textarea.scrollLeft, // where a right-to-left one starts
+    lineHeight: parseFloat(computed.lineHeight) || parseFloat(computed.fontSize) * 1.4,
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+};
+
+/**
+ * Textarea with an inline `@mention` / `#hashtag` suggestion popover under the
+ * caret. Arrow keys move through suggestions, Enter or Tab picks one, Escape closes.
+ */
+export const AutocompleteTextarea: React.FC<AutocompleteTextareaProps> = ({
+  value,
+  onChange,
+  onMentionPick,
+  onKeyDown,
+  dir,
+  ...textareaProps
+}) => {
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const [position, setPosition] = useState<React.CSSProperties>({});
+
+  const token = caret === null ? null : getAutocompleteToken(value, caret);
+  const activeToken = token && token.start !== dismissedAt ? token : null;
+  const { suggestions } = useAutocomplete(activeToken, user?.id);
+  const open = !!activeToken && suggestions.length > 0;
+  const rtl = (dir ?? (isRTL ? 'rtl' : 'ltr')) === 'rtl';
+
+  // Anchor the popover at the start of the token, on the side the text flows from
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!open || !textarea || !activeToken) return;
+
+    const { top, left, right, lineHeight } = getCaretCoordinates(textarea, activeToken.start);
+    const width = textarea.offsetWidth;
+    const maxOffset = Math.max(width - POPOVER_WIDTH, 0);
+
+    setPosition(rtl
+      ? { top: top + lineHeight, right: Math.min(Math.max(width - right, 0), maxOffset) }
+      : { top: top + lineHeight, left: Math.min(Math.max(left, 0), maxOffset) });
+  }, [open, activeToken?.start, value, rtl]);
+
+  const syncCaret = () => {
+    const textarea = textareaRef.current;
+    if (textarea) setCaret(textarea.selectionStart);
+  };
+
+  const pick = (suggestion: AutocompleteSuggestion) => {
+    const textarea = textareaRef.current;
+    if (!activeToken || caret === null) return;
+
+    const replacement = suggestion.type === 'mention'
+      ? `@${suggestion.user.username} `
+      : `#${suggestion.hashtag} `;
+    const next = value.slice(0, activeToken.start) + replacement + value.slice(caret).replace(/^ /, '');
+    const nextCaret = activeToken.start + replacement.length;
+
+    onChange(next);
+    if (suggestion.type === 'mention') onMentionPick?.(suggestion.user);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedAt(activeToken.start);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...textareaProps}
+        ref={textareaRef}
+        value={value}
+        dir={dir}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onSelect={syncCaret}
+        onBlur={(e) => {
+          setCaret(null);
+          textareaProps.onBlur?.(e);
+        }}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute z-50 bg-white border border-gray-200 rounded-xl shadow-lg py-1 max-h-72 overflow-y-auto"
+          style={{ ...position, width: POPOVER_WIDTH }}
+          dir={rtl ? 'rtl' : 'ltr'}
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.type === 'mention' ? suggestion.user.id : suggestion.hashtag}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep the textarea focused so the caret stays where the token is
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              {suggestion.type === 'mention' ? (
+                <>
+                  <LazyAvatar
+                    src={suggestion.user.avatar}
+                    fallback={suggestion.user.displayName[0]}
+                    className="w-8 h-8 flex-shrink-0"
+                    size={64}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-1 min-w-0">
+                      <span className="font-bold text-sm text-gray-900 truncate">{suggestion.user.displayName}</span>
+                      {suggestion.user.verified && <VerifiedBadge size="sm" />}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate" dir="ltr">
+                      @{suggestion.user.username}
+                      {suggestion.user.followed && (
+                        <span className="text-gray-400">
+                          {' · '}
+                          {language === 'en' ? 'Following' : 'تتابعه'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                    <Hash className="w-4 h-4 text-gray-500" />
+                  </div>
+                  <span className="text-sm font-medium text-gray-900 truncate">#{suggestion.hashtag}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
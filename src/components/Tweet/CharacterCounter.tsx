@@ -0,0 +1,49 @@
+import React from 'react';
+import { POST_MAX_LENGTH, POST_WARNING_LENGTH } from '../../lib/textMetrics';
+
+interface CharacterCounterProps {
+  length: number; // from getPostLength, not content.length
+  className?: string; // sizes the ring, e.g. `w-8 h-8`
+}
+
+const RING_PATH = `M18 2.0845
+  a 15.9155 15.9155 0 0 1 0 31.831
+  a 15.9155 15.9155 0 0 1 0 -31.831`;
+
+// Ring that fills up towards the post length limit, with the characters left in the middle
+export const CharacterCounter: React.FC<CharacterCounterProps> = ({ length, className = 'w-8 h-8' }) => {
+  const remaining = POST_MAX_LENGTH - length;
+  const isOverLimit = remaining < 0;
+  const isNearLimit = length > POST_WARNING_LENGTH;
+
+  return (
+    <div
+      className={`relative flex-shrink-0 ${className}`}
+      role="meter"
+      aria-valuemin={0}
+      aria-valuemax={POST_MAX_LENGTH}
+      aria-valuenow={Math.min(length, POST_MAX_LENGTH)}
+      aria-label={`${length}/${POST_MAX_LENGTH}`}
+    >
+      <svg className="w-full h-full transform -rotate-90" viewBox="0 0 36 36">
+        <path d={RING_PATH} fill="none" stroke="#e5e7eb" strokeWidth="2" />
+        <path
+          d={RING_PATH}
+          fill="none"
+          stroke={isOverLimit ? '#ef4444' : isNearLimit ? '#eab308' : '#3b82f6'}
+          strokeWidth="2"
+          strokeDasharray={`${Math.min((length / POST_MAX_LENGTH) * 100, 100)}, 100`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center">
+        <span className={`text-[10px] font-bold ${
+          isOverLimit ? 'text-red-500' :
+          isNearLimit ? 'text-yellow-600' :
+          'text-gray-500'
+        }`}>
+          {remaining}
+        </span>
+      </div>
+    </div>
+  );
+};
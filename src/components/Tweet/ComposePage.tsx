@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { X, Image, Smile, Calendar, MapPin, ArrowLeft, Tag, Globe, Upload, Trash2, Camera, ChevronDown, Check, Video, Play } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { X, Image, Smile, Calendar, MapPin, ArrowLeft, Tag, Globe, Upload, Trash2, Camera, ChevronDown, Check, Video, Play, Clock, Plus, BarChart2, FileText, Route, Star, Plane, KeyRound, HelpCircle } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
 import { 
@@ -9,20 +11,63 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
-import { TWEET_CATEGORIES, TweetCategory, FILTER_COUNTRIES, getLocalizedCountryName } from '../../types';
+import { TWEET_CATEGORIES, TweetCategory, FILTER_COUNTRIES, getLocalizedCountryName, Tweet, PostDraft, Place, Itinerary, Review } from '../../types';
 import { useTweets } from '../../hooks/useTweets';
 import { useAuth } from '../../hooks/useAuth';
+import { usePendingPosts, pendingPostContent } from '../../hooks/useOutbox';
 import { storageService } from '../../lib/storage';
 import { supabase } from '../../lib/supabase';
+import {
+  fetchTweetById,
+  getMediaAltText,
+  MediaItem,
+  resolveMentionIds,
+  MAX_THREAD_SEGMENTS,
+  PollDraft,
+  POLL_MIN_OPTIONS,
+  DEFAULT_POLL_DURATION_MINUTES,
+} from '../../lib/tweetRepository';
+import {
+  DraftFields,
+  DRAFT_AUTOSAVE_DELAY_MS,
+  deleteDraft,
+  fetchDraft,
+  hasDraftContent,
+  saveDraft,
+} from '../../lib/draftRepository';
+import { getPostLength, getPostLengthState, POST_MAX_LENGTH } from '../../lib/textMetrics';
+import { getLocalizedPlaceName, getPlace, toTweetPlace } from '../../lib/gazetteer';
+import { emptyItinerary, encodeItinerary } from '../../lib/itinerary';
+import { emptyFlightDealDraft, FlightDealDraft, toFlightDeal, toFlightDealDraft } from '../../lib/flightDeals';
+import { emptyListingDraft, LISTING_CATEGORIES, ListingDraft, toListing, toListingDraft } from '../../lib/listings';
 import { useLanguageStore } from '../../store/useLanguageStore';
 import VideoPlayer from '../ui/VideoPlayer';
+import { QuotedTweetCard } from './QuotedTweetCard';
+import { ThreadSegmentEditor, ThreadDraftSegment } from './ThreadSegmentEditor';
+import { PollComposer } from './PollComposer';
+import { AutocompleteTextarea } from './AutocompleteTextarea';
+import { CharacterCounter } from './CharacterCounter';
+import { MediaAltTextEditor } from './MediaAltTextEditor';
+import { PlacePicker } from './PlacePicker';
+import { ItineraryEditor } from './ItineraryEditor';
+import { ReviewComposer } from './ReviewComposer';
+import { FlightDealComposer } from './FlightDealComposer';
+import { ListingComposer } from './ListingComposer';
+import { MentionSuggestion } from '../../hooks/useAutocomplete';
+
+// Value for a `datetime-local` input, in the browser's time zone
+const toDateTimeLocal = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
 
 export const ComposePage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const quoteId = searchParams.get('quote');
+  const draftParam = searchParams.get('draft');
   const { user } = useAuth();
   const { language, isRTL } = useLanguageStore();
   const [content, setContent] = useState('');
-  const [media, setMedia] = useState<{ url: string; type: 'image' | 'video' }[]>([]);
+  const [media, setMedia] = useState<MediaItem[]>([]);
+  const [sensitiveMedia, setSensitiveMedia] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<TweetCategory[]>([]);
   const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
@@ -39,7 +84,39 @@ export const ComposePage: React.FC = () => {
   const [isTablet, setIsTablet] = useState(false);
   const [categoriesDropdownOpen, setCategoriesDropdownOpen] = useState(false);
   const [countriesDropdownOpen, setCountriesDropdownOpen] = useState(false);
-  const { createTweet } = useTweets();
+  const [quotedTweet, setQuotedTweet] = useState<Tweet | null>(null);
+  // Posts after the first one; any entry turns the compose page into a thread
+  const [threadSegments, setThreadSegments] = useState<ThreadDraftSegment[]>([]);
+  const [uploadingSegments, setUploadingSegments] = useState<string[]>([]);
+  // Polls take the place of media and only go on single posts
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  // Users picked from @ suggestions, by username, shared by every post of a thread
+  const [pickedMentions, setPickedMentions] = useState<Record<string, string>>({});
+  // Drafts autosave while writing; a scheduled one only changes when it's saved again
+  const [draftStatus, setDraftStatus] = useState<PostDraft['status'] | null>(null);
+  const [draftLoading, setDraftLoading] = useState(!!draftParam);
+  const [draftSaveState, setDraftSaveState] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState(''); // `datetime-local` value
+  // Place tag from the gazetteer; on a thread it goes on the first post
+  const [place, setPlace] = useState<Place | null>(null);
+  const [placeOpen, setPlaceOpen] = useState(false);
+  // Day-by-day plan for a Tourist Schedules post; single posts only, like polls
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  // Ratings for the tagged place; a rating of 0 means none picked yet
+  const [review, setReview] = useState<Review | null>(null);
+  // Fare for a Flights post, kept as form values until it's complete
+  const [flightDeal, setFlightDeal] = useState<FlightDealDraft | null>(null);
+  // Property or car on offer in a Real estate or Car Rental post
+  const [listing, setListing] = useState<ListingDraft | null>(null);
+  // Asked as a question, so a reply can later be accepted as its answer
+  const [isQuestion, setIsQuestion] = useState(false);
+  const draftIdRef = useRef<string | null>(null);
+  const lastSavedDraftRef = useRef('');
+  // Draft writes run one after another, so the first save's insert can't race the next update
+  const draftWritesRef = useRef<Promise<unknown>>(Promise.resolve());
+  const { createTweet, createThread } = useTweets();
+  const { posts: pendingPosts, retry: retryPost, discard: discardPost } = usePendingPosts(user?.id);
 
   // Helper function to get localized category name
   const getLocalizedCategoryName = (category: TweetCategory): string => {
@@ -114,14 +191,316 @@ export const ComposePage: React.FC = () => {
     fetchUserProfile();
   }, [user]);
 
+  const setSearchParam = (key: string, value: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const getDraftFields = (): DraftFields => ({
+    content,
+    imageUrls: media.filter(item => item.type === 'image').map(item => item.url),
+    videoUrls: media.filter(item => item.type === 'video').map(item => item.url),
+    mediaAltText: getMediaAltText(media),
+    sensitiveMedia: sensitiveMedia && media.length > 0,
+    place: place ? toTweetPlace(place) : null,
+    itinerary,
+    review,
+    flightDeal: flightDeal ? toFlightDeal(flightDeal) : null,
+    listing: listing ? toListing(listing) : null,
+    isQuestion,
+    categories: selectedCategories,
+    countries: selectedCountries,
+    mentionedUserIds: resolveMentionIds(content, pickedMentions),
+    quotedTweetId: quoteId,
+  });
+
+  const handleMentionPick = (picked: MentionSuggestion) => {
+    setPickedMentions(prev => ({ ...prev, [picked.username]: picked.id }));
+  };
+
+  const queueDraftWrite = <T,>(write: () => Promise<T>): Promise<T> => {
+    const result = draftWritesRef.current.then(write);
+    draftWritesRef.current = result.catch(() => undefined);
+    return result;
+  };
+
+  // Opening `/compose?draft=<id>` picks up a saved draft or scheduled post
+  useEffect(() => {
+    if (!draftParam || draftParam === draftIdRef.current) {
+      setDraftLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setDraftLoading(true);
+
+    fetchDraft(draftParam)
+      .then(draft => {
+        if (cancelled) return;
+        if (!draft) {
+          setError(language === 'en' ? 'This draft was already published or deleted' : 'تم نشر هذه المسودة أو حذفها بالفعل');
+          setSearchParam('draft', null);
+          return;
+        }
+
+        const fields: DraftFields = {
+          content: draft.content,
+          imageUrls: draft.images,
+          videoUrls: draft.videos,
+          mediaAltText: draft.mediaAltText,
+          sensitiveMedia: draft.sensitiveMedia,
+          place: draft.place ?? null,
+          itinerary: draft.itinerary ?? null,
+          review: draft.review ?? null,
+          flightDeal: draft.flightDeal ?? null,
+          listing: draft.listing ?? null,
+          isQuestion: draft.isQuestion,
+          categories: TWEET_CATEGORIES.filter(category => draft.categories.includes(category)),
+          countries: draft.countries,
+          mentionedUserIds: draft.mentionedUserIds,
+          quotedTweetId: draft.quotedTweetId ?? null,
+        };
+
+        draftIdRef.current = draft.id;
+        lastSavedDraftRef.current = JSON.stringify(fields);
+        setDraftStatus(draft.status);
+        setContent(fields.content);
+        setMedia([
+          ...fields.imageUrls.map(url => ({ url, type: 'image' as const, alt: fields.mediaAltText[url] })),
+          ...fields.videoUrls.map(url => ({ url, type: 'video' as const, alt: fields.mediaAltText[url] })),
+        ]);
+        setSensitiveMedia(fields.sensitiveMedia);
+        setPlace(getPlace(fields.place?.id) ?? null);
+        setPlaceOpen(!!fields.place);
+        setItinerary(fields.itinerary);
+        setReview(fields.review);
+        setFlightDeal(fields.flightDeal ? toFlightDealDraft(fields.flightDeal) : null);
+        setListing(fields.listing ? toListingDraft(fields.listing) : null);
+        setIsQuestion(fields.isQuestion);
+        setSelectedCategories(fields.categories as TweetCategory[]);
+        setSelectedCountries(fields.countries);
+        setScheduleOpen(draft.status !== 'draft');
+        setScheduledFor(draft.status === 'scheduled' && draft.scheduledAt ? toDateTimeLocal(draft.scheduledAt) : '');
+        setSearchParam('quote', draft.quotedTweetId ?? null);
+
+        // Picked mentions are stored as ids; look their usernames back up
+        if (draft.mentionedUserIds.length > 0) {
+          supabase
+            .from('profiles')
+            .select('id, username')
+            .in('id', draft.mentionedUserIds)
+            .then(({ data }) => {
+              if (cancelled || !data) return;
+              setPickedMentions(Object.fromEntries(data.map(profile => [profile.username, profile.id])));
+            });
+        }
+      })
+      .catch(err => {
+        console.error('Error loading draft:', err);
+        if (!cancelled) setError(language === 'en' ? "Couldn't load this draft" : 'تعذر تحميل المسودة');
+      })
+      .finally(() => {
+        if (!cancelled) setDraftLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftParam]);
+
+  // Autosave a moment after the last change
+  useEffect(() => {
+    if (!user || draftLoading || loading || draftStatus === 'scheduled') return;
+
+    const fields = getDraftFields();
+    const serialized = JSON.stringify(fields);
+    if (serialized === lastSavedDraftRef.current) return;
+    if (!draftIdRef.current && !hasDraftContent(fields)) return;
+
+    const timer = setTimeout(() => {
+      setDraftSaveState('saving');
+      queueDraftWrite(async () => {
+        const saved = await saveDraft(draftIdRef.current, user.id, fields);
+        // Deleted from the drafts list meanwhile: the next change starts a new one
+        draftIdRef.current = saved?.id ?? null;
+        lastSavedDraftRef.current = saved ? serialized : '';
+        setDraftStatus(saved?.status ?? null);
+        if (saved && saved.id !== draftParam) setSearchParam('draft', saved.id);
+      })
+        .then(() => setDraftSaveState('saved'))
+        .catch(err => {
+          console.error('Error saving draft:', err);
+          setDraftSaveState('idle');
+        });
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [user?.id, draftLoading, loading, draftStatus, content, media, sensitiveMedia, place, itinerary, review, flightDeal, listing, isQuestion, selectedCategories, selectedCountries, quoteId, pickedMentions]);
+
+  // Quoting: `/compose?quote=<tweetId>` embeds that tweet and starts from its tags
+  useEffect(() => {
+    if (!quoteId) {
+      setQuotedTweet(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchTweetById(quoteId, user?.id)
+      .then(tweet => {
+        if (cancelled) return;
+        setQuotedTweet(tweet);
+
+        const tags = tweet.tags || [];
+        setSelectedCategories(prev => prev.length > 0
+          ? prev
+          : TWEET_CATEGORIES.filter(category => tags.includes(category)));
+        setSelectedCountries(prev => prev.length > 0
+          ? prev
+          : tags.filter(tag => tag !== 'ALL' && FILTER_COUNTRIES.some(country => country.code === tag)));
+      })
+      .catch(err => {
+        console.error('Error fetching quoted tweet:', err);
+        if (cancelled) return;
+        setError(language === 'en' ? "Couldn't load the post you're quoting" : 'تعذر تحميل المنشور المقتبس');
+        setSearchParam('quote', null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteId]);
+
+  const handleRemoveQuote = () => {
+    setSearchParam('quote', null);
+  };
+
+  const handleAddThreadSegment = () => {
+    if (threadSegments.length + 1 >= MAX_THREAD_SEGMENTS) return;
+    setThreadSegments(prev => [...prev, { id: `${Date.now()}-${prev.length}`, content: '', media: [] }]);
+  };
+
+  const handleThreadSegmentChange = (segment: ThreadDraftSegment) => {
+    setThreadSegments(prev => prev.map(existing => (existing.id === segment.id ? segment : existing)));
+  };
+
+  const handleRemoveThreadSegment = (segment: ThreadDraftSegment) => {
+    setThreadSegments(prev => prev.filter(existing => existing.id !== segment.id));
+    segment.media.forEach(item => {
+      storageService.deleteMediaFile(item.url).catch(err => console.error('Error deleting media:', err));
+    });
+  };
+
+  const handleAddPoll = () => {
+    if (media.length > 0 || threadSegments.length > 0 || itinerary) return;
+    setPoll({ options: Array(POLL_MIN_OPTIONS).fill(''), durationMinutes: DEFAULT_POLL_DURATION_MINUTES });
+  };
+
+  // An itinerary makes the post a Tourist Schedules one
+  const handleAddItinerary = () => {
+    if (poll || threadSegments.length > 0) return;
+    setItinerary(emptyItinerary());
+    setSelectedCategories(prev => (prev.includes('Tourist Schedules') ? prev : [...prev, 'Tourist Schedules']));
+  };
+
+  // Reviews are of the tagged place, so a review without one asks for it
+  const handleAddReview = () => {
+    if (threadSegments.length > 0) return;
+    setReview({ rating: 0 });
+    if (!place) setPlaceOpen(true);
+  };
+
+  // A deal makes the post a Flights one
+  const handleAddFlightDeal = () => {
+    if (threadSegments.length > 0) return;
+    setFlightDeal(emptyFlightDealDraft());
+    setSelectedCategories(prev => (prev.includes('Flights') ? prev : [...prev, 'Flights']));
+  };
+
+  // A listing is a car when the post is already a Car Rental one, otherwise a property; its kind picks the category
+  const handleAddListing = () => {
+    if (threadSegments.length > 0) return;
+    const kind = selectedCategories.includes('Car Rental') && !selectedCategories.includes('Real estate') ? 'car' : 'property';
+    handleListingChange({ ...emptyListingDraft(kind), location: place ? getLocalizedPlaceName(place, language) : '' });
+  };
+
+  const handleListingChange = (next: ListingDraft) => {
+    const category = LISTING_CATEGORIES[next.kind];
+    setListing(next);
+    setSelectedCategories(prev => (prev.includes(category) ? prev : [...prev, category]));
+  };
+
+  const handleSegmentUploadingChange = (segmentId: string, uploading: boolean) => {
+    setUploadingSegments(prev =>
+      uploading ? [...prev, segmentId] : prev.filter(id => id !== segmentId)
+    );
+  };
+
   const handleSubmit = async () => {
     if (!content.trim()) {
       setError('Post content cannot be empty');
       return;
     }
 
-    if (content.length > 200) {
-      setError('Post cannot exceed 200 characters');
+    if (isOverLimit) {
+      setError(`Post cannot exceed ${POST_MAX_LENGTH} characters`);
+      return;
+    }
+
+    if (poll && poll.options.some(option => !option.trim())) {
+      setError(language === 'en' ? 'Fill in every poll choice or remove the empty ones' : 'املأ جميع خيارات الاستطلاع أو احذف الفارغة منها');
+      return;
+    }
+
+    if (itinerary && !encodeItinerary(itinerary)) {
+      setError(language === 'en' ? 'Add at least one stop to the itinerary or remove it' : 'أضف محطة واحدة على الأقل إلى البرنامج أو احذفه');
+      return;
+    }
+
+    if (review && !review.rating) {
+      setError(language === 'en' ? 'Give the review an overall rating or remove it' : 'أضف تقييماً عاماً أو احذف التقييم');
+      return;
+    }
+
+    if (review && !place) {
+      setError(language === 'en' ? 'Tag the place you are reviewing' : 'حدد المكان الذي تقيّمه');
+      return;
+    }
+
+    if (flightDeal && !toFlightDeal(flightDeal)) {
+      setError(language === 'en'
+        ? 'Give the deal two different airports, a price and an expiry, or remove it'
+        : 'أضف للعرض مطارين مختلفين وسعراً وتاريخ انتهاء أو احذفه');
+      return;
+    }
+
+    if (listing && !toListing(listing)) {
+      setError(language === 'en'
+        ? 'Give the listing a price and a location, or remove it'
+        : 'أضف للإعلان سعراً وموقعاً أو احذفه');
+      return;
+    }
+
+    const emptySegment = threadSegments.findIndex(segment => !segment.content.trim());
+    if (emptySegment !== -1) {
+      setError(language === 'en'
+        ? `Post ${emptySegment + 2} of the thread is empty`
+        : `المنشور ${emptySegment + 2} في السلسلة فارغ`);
+      return;
+    }
+
+    const longSegment = threadSegments.findIndex(segment => getPostLength(segment.content) > POST_MAX_LENGTH);
+    if (longSegment !== -1) {
+      setError(language === 'en'
+        ? `Post ${longSegment + 2} of the thread exceeds ${POST_MAX_LENGTH} characters`
+        : `المنشور ${longSegment + 2} في السلسلة يتجاوز ${POST_MAX_LENGTH} حرف`);
       return;
     }
 
@@ -135,19 +514,91 @@ export const ComposePage: React.FC = () => {
       return;
     }
 
+    if (scheduledDate) {
+      await handleSchedule(scheduledDate);
+      return;
+    }
+
     setLoading(true);
     setError('');
     
     try {
-      // Create tweet with both categories and countries - convert media to URL array
-      const mediaUrls = media.map(item => item.url);
-      await createTweet(content, mediaUrls, selectedCategories, selectedCountries);
+      // Create tweet with both categories and countries, quoting a tweet if one is attached
+      const imageUrls = media.filter(item => item.type === 'image').map(item => item.url);
+      const videoUrls = media.filter(item => item.type === 'video').map(item => item.url);
+      const createdTweet = threadSegments.length > 0
+        ? await createThread(
+            [
+              {
+                content,
+                imageUrls,
+                videoUrls,
+                mentionedUserIds: resolveMentionIds(content, pickedMentions),
+                mediaAltText: getMediaAltText(media),
+                sensitiveMedia: sensitiveMedia && media.length > 0,
+                place: place ? toTweetPlace(place) : undefined,
+              },
+              ...threadSegments.map(segment => ({
+                content: segment.content,
+                imageUrls: segment.media.filter(item => item.type === 'image').map(item => item.url),
+                videoUrls: segment.media.filter(item => item.type === 'video').map(item => item.url),
+                mentionedUserIds: resolveMentionIds(segment.content, pickedMentions),
+                mediaAltText: getMediaAltText(segment.media),
+                sensitiveMedia: !!segment.sensitiveMedia && segment.media.length > 0,
+              })),
+            ],
+            selectedCategories,
+            selectedCountries,
+            quotedTweet?.id
+          )
+        : await createTweet({
+            content,
+            imageUrls,
+            videoUrls,
+            categories: selectedCategories,
+            countries: selectedCountries,
+            quotedTweetId: quotedTweet?.id,
+            poll,
+            mentionedUserIds: resolveMentionIds(content, pickedMentions),
+            mediaAltText: getMediaAltText(media),
+            sensitiveMedia: sensitiveMedia && media.length > 0,
+            place: place && toTweetPlace(place),
+            itinerary,
+            review,
+            flightDeal: flightDeal && toFlightDeal(flightDeal),
+            listing: listing && toListing(listing),
+            isQuestion,
+          });
       
+      // Posted (or queued), so the draft it came from is done with
+      const postedDraftId = draftIdRef.current;
+      draftIdRef.current = null;
+      lastSavedDraftRef.current = '';
+      setDraftStatus(null);
+      setDraftSaveState('idle');
+      if (postedDraftId) {
+        queueDraftWrite(() => deleteDraft(postedDraftId)).catch(err => console.error('Error deleting draft:', err));
+      }
+
       // Reset form
       setContent('');
       setMedia([]);
+      setSensitiveMedia(false);
+      setPlace(null);
+      setPlaceOpen(false);
+      setItinerary(null);
+      setReview(null);
+      setFlightDeal(null);
+      setListing(null);
+      setIsQuestion(false);
+      setThreadSegments([]);
+      setPoll(null);
+      setPickedMentions({});
       setSelectedCategories([]);
       setSelectedCountries([]);
+      setScheduleOpen(false);
+      setScheduledFor('');
+      setSearchParams({}, { replace: true });
       
       // Store selected countries to make them appear in country filter immediately
       try {
@@ -165,6 +616,9 @@ export const ComposePage: React.FC = () => {
         console.debug('Could not store recent tweet countries', e);
       }
       
+      // Offline: the post waits in the outbox, so stay here where its status is shown
+      if (!createdTweet) return;
+
       // Navigate back to timeline
       navigate('/');
     } catch (err: any) {
@@ -174,6 +628,56 @@ export const ComposePage: React.FC = () => {
     }
   };
 
+  const handleSchedule = async (date: Date) => {
+    if (!user) return;
+
+    if (date.getTime() <= Date.now()) {
+      setError(language === 'en' ? 'Pick a time in the future' : 'اختر وقتاً في المستقبل');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const fields = getDraftFields();
+      const saved = await queueDraftWrite(() => saveDraft(draftIdRef.current, user.id, fields, date));
+      if (!saved) {
+        setError(language === 'en' ? 'This post has already been published' : 'تم نشر هذا المنشور بالفعل');
+        return;
+      }
+
+      draftIdRef.current = saved.id;
+      lastSavedDraftRef.current = JSON.stringify(fields);
+      setDraftStatus(saved.status);
+      navigate('/drafts?tab=scheduled');
+    } catch (err: any) {
+      setError(err.message || 'Failed to schedule post');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Tagging a place also tags its country, so the post shows up under that country's filter
+  const handlePlaceChange = (picked: Place | null) => {
+    setPlace(picked);
+    // Only a city-wide tag needs the venue named
+    if (picked?.type !== 'city') setReview(prev => (prev?.venueName ? { ...prev, venueName: undefined } : prev));
+    if (picked && FILTER_COUNTRIES.some(country => country.code === picked.countryCode)) {
+      setSelectedCountries(prev => (prev.includes(picked.countryCode) ? prev : [...prev, picked.countryCode]));
+    }
+  };
+
+  const handleToggleSchedule = () => {
+    if (scheduleOpen) {
+      setScheduleOpen(false);
+      setScheduledFor('');
+      return;
+    }
+    if (isThread || poll) return;
+    setScheduleOpen(true);
+  };
+
   const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0 || !user) return;
@@ -293,7 +797,7 @@ export const ComposePage: React.FC = () => {
 
   // Handle media upload button click
   const handleMediaButtonClick = () => {
-    if (media.length >= 4 || uploadingMedia) return;
+    if (media.length >= 4 || uploadingMedia || poll) return;
     
     if (isMobile && mobileFileInputRef.current) {
       mobileFileInputRef.current.click();
@@ -302,17 +806,28 @@ export const ComposePage: React.FC = () => {
     }
   };
 
-  const characterCount = content.length;
-  const maxCharacters = 200;
-  const isOverLimit = characterCount > maxCharacters;
-  const isNearLimit = characterCount > 180;
-  const remainingChars = maxCharacters - characterCount;
+  const maxCharacters = POST_MAX_LENGTH;
+  const {
+    length: characterCount,
+    remaining: remainingChars,
+    isNearLimit,
+    isOverLimit,
+  } = getPostLengthState(content);
 
   // Filter out "All Countries" option for selection
   const selectableCountries = FILTER_COUNTRIES.filter(country => country.code !== 'ALL');
 
   const hasUploadProgress = Object.keys(uploadProgress).length > 0;
 
+  const isThread = threadSegments.length > 0;
+  const threadTotal = threadSegments.length + 1;
+  const hasInvalidSegment = threadSegments.some(segment => !segment.content.trim() || getPostLength(segment.content) > maxCharacters);
+  const hasInvalidPoll = !!poll && poll.options.some(option => !option.trim());
+  const hasInvalidReview = !!review && (!review.rating || !place);
+  const hasInvalidFlightDeal = !!flightDeal && !toFlightDeal(flightDeal);
+  const hasInvalidListing = !!listing && !toListing(listing);
+  const scheduledDate = scheduleOpen && scheduledFor ? new Date(scheduledFor) : null;
+
   // Category icons for better UX
   const categoryIcons: { [key: string]: string } = {
     'General Discussions': '💬',
@@ -364,34 +879,56 @@ export const ComposePage: React.FC = () => {
             <ArrowLeft className={`h-5 w-5 ${isRTL ? 'rotate-180' : ''}`} />
           </Button>
           <h1 className={`font-semibold ${isMobile ? 'text-lg' : 'text-lg'} ${isRTL ? 'text-right' : 'text-left'}`}>
-            {language === 'en' 
-              ? (isMobile ? 'New Post' : 'Compose Post')
-              : (isMobile ? 'تغريدة جديدة' : 'إنشاء تغريدة')
+            {quoteId
+              ? (language === 'en' ? 'Quote Post' : 'اقتباس تغريدة')
+              : isThread
+              ? (language === 'en' ? 'Compose Thread' : 'إنشاء سلسلة')
+              : language === 'en' 
+                ? (isMobile ? 'New Post' : 'Compose Post')
+                : (isMobile ? 'تغريدة جديدة' : 'إنشاء تغريدة')
             }
           </h1>
+          {draftSaveState !== 'idle' && (
+            <span className="text-xs text-gray-500">
+              {draftSaveState === 'saving'
+                ? (language === 'en' ? 'Saving…' : 'جاري الحفظ…')
+                : (language === 'en' ? 'Draft saved' : 'تم حفظ المسودة')}
+            </span>
+          )}
         </div>
         
-        {/* Character Count and Post Button */}
+        {/* Drafts and Post Button */}
         <div className={`flex items-center ${isRTL ? 'space-x-reverse space-x-3' : 'space-x-3'}`}>
-          {!isMobile && (
-            <div className={`text-sm font-bold ${
-              isOverLimit ? 'text-red-500' : 
-              isNearLimit ? 'text-yellow-600' :
-              'text-gray-500'
-            }`}>
-              {characterCount}/{maxCharacters}
-            </div>
-          )}
-          
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/drafts')}
+            className="text-blue-500 hover:bg-blue-50 font-medium"
+            aria-label={language === 'en' ? 'Drafts' : 'المسودات'}
+          >
+            <FileText className="h-4 w-4" />
+            {!isMobile && (
+              <span className={isRTL ? 'mr-1' : 'ml-1'}>{language === 'en' ? 'Drafts' : 'المسودات'}</span>
+            )}
+          </Button>
+
           <Button
             onClick={handleSubmit}
-            disabled={!content.trim() || isOverLimit || loading || uploadingMedia || selectedCategories.length === 0 || selectedCountries.length === 0}
+            disabled={!content.trim() || isOverLimit || hasInvalidSegment || hasInvalidPoll || hasInvalidReview || hasInvalidFlightDeal || hasInvalidListing || loading || draftLoading || uploadingMedia || uploadingSegments.length > 0 || selectedCategories.length === 0 || selectedCountries.length === 0}
             className={`bg-blue-500 hover:bg-blue-600 text-white font-bold rounded-full disabled:opacity-50 ${
               isMobile ? 'px-4 py-2 text-sm' : 'px-6 py-2'
             }`}
           >
-            {loading 
+            {loading && scheduledDate
+              ? (language === 'en' ? 'Scheduling...' : 'جاري الجدولة...')
+              : loading
               ? (language === 'en' ? 'Posting...' : 'جاري النشر...')
+              : scheduledDate
+              ? (draftStatus === 'scheduled'
+                  ? (language === 'en' ? 'Update' : 'تحديث')
+                  : (language === 'en' ? 'Schedule' : 'جدولة'))
+              : isThread
+              ? (language === 'en' ? 'Post all' : 'نشر الكل')
               : (language === 'en' ? 'Post' : 'تغريد')
             }
           </Button>
@@ -408,12 +945,57 @@ export const ComposePage: React.FC = () => {
             </div>
           )}
 
+          {/* Posts queued while offline, until the outbox publishes them */}
+          {pendingPosts.length > 0 && (
+            <div className="mb-4 border border-gray-200 rounded-lg divide-y divide-gray-100">
+              <div className="px-3 py-2 flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <Clock className="h-4 w-4" />
+                {language === 'en' ? 'Pending posts' : 'تغريدات معلقة'}
+              </div>
+              {pendingPosts.map(post => (
+                <div key={post.id} className="px-3 py-2">
+                  <p className={`text-sm text-gray-900 line-clamp-2 ${isRTL ? 'text-right' : 'text-left'}`}>
+                    {pendingPostContent(post)}
+                  </p>
+                  {post.action.type === 'createThread' && (
+                    <p className="text-xs text-gray-500">
+                      {language === 'en'
+                        ? `Thread · ${post.action.segments.length} posts`
+                        : `سلسلة · ${post.action.segments.length} منشورات`}
+                    </p>
+                  )}
+                  <div className="mt-1 flex items-center gap-2 text-xs">
+                    {post.status === 'failed' ? (
+                      <>
+                        <span className="text-red-600" title={post.error}>
+                          {language === 'en' ? "Couldn't post" : 'تعذر النشر'}
+                        </span>
+                        <button className="font-medium text-blue-500 hover:underline" onClick={() => retryPost(post.id)}>
+                          {language === 'en' ? 'Retry' : 'إعادة المحاولة'}
+                        </button>
+                        <button className="font-medium text-gray-500 hover:underline" onClick={() => discardPost(post.id)}>
+                          {language === 'en' ? 'Discard' : 'حذف'}
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">
+                        {post.status === 'sending'
+                          ? (language === 'en' ? 'Posting...' : 'جاري النشر...')
+                          : (language === 'en' ? 'Waiting for connection…' : 'في انتظار الاتصال…')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Character limit warning */}
           {isNearLimit && (
             <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
               <p className="text-yellow-700 text-sm font-medium">
                 {isOverLimit ? (
-                  <>⚠️ You've exceeded the 200 character limit by {Math.abs(remainingChars)} characters</>
+                  <>⚠️ You've exceeded the {maxCharacters} character limit by {Math.abs(remainingChars)} characters</>
                 ) : (
                   <>⏰ You have {remainingChars} characters remaining</>
                 )}
@@ -473,9 +1055,10 @@ export const ComposePage: React.FC = () => {
                 </div>
               )}
 
-              <textarea
+              <AutocompleteTextarea
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
+                onChange={setContent}
+                onMentionPick={handleMentionPick}
                 placeholder={language === 'en' ? "What's happening?" : "ما الذي يحدث؟"}
                 className={`w-full placeholder-gray-500 border-none outline-none resize-none bg-transparent focus:ring-0 focus:border-none focus:outline-none ${
                   isOverLimit ? 'text-red-600' : ''
@@ -484,81 +1067,14 @@ export const ComposePage: React.FC = () => {
                 autoFocus
               />
 
-              {/* Mobile Character Count Display */}
-              {isMobile && (
-                <div className="mt-2 flex items-center justify-between">
-                  <div className="text-xs text-gray-500">
-                    {content.length === 0 ? (
-                      'Start typing your post...'
-                    ) : (
-                      `${content.split(' ').length} words`
-                    )}
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    {/* Character Progress Bar */}
-                    <div className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden">
-                      <div 
-                        className={`h-full transition-all duration-300 ${
-                          isOverLimit ? 'bg-red-500' : 
-                          isNearLimit ? 'bg-yellow-500' :
-                          'bg-blue-500'
-                        }`}
-                        style={{ 
-                          width: `${Math.min((characterCount / maxCharacters) * 100, 100)}%` 
-                        }}
-                      />
-                    </div>
-                    
-                    {/* Numeric Count */}
-                    <div className={`text-xs font-bold min-w-[50px] text-right ${
-                      isOverLimit ? 'text-red-500' : 
-                      isNearLimit ? 'text-yellow-600' :
-                      'text-gray-500'
-                    }`}>
-                      {characterCount}/{maxCharacters}
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Desktop Character Count Display */}
-              {!isMobile && (
-                <div className="mt-4 flex items-center justify-between">
-                  <div className="text-sm text-gray-500">
-                    {content.length === 0 ? (
-                      'Start typing your post...'
-                    ) : (
-                      `${content.split(' ').length} words`
-                    )}
-                  </div>
-                  
-                  <div className="flex items-center space-x-3">
-                    {/* Character Progress Bar */}
-                    <div className="w-20 h-2 bg-gray-200 rounded-full overflow-hidden">
-                      <div 
-                        className={`h-full transition-all duration-300 ${
-                          isOverLimit ? 'bg-red-500' : 
-                          isNearLimit ? 'bg-yellow-500' :
-                          'bg-blue-500'
-                        }`}
-                        style={{ 
-                          width: `${Math.min((characterCount / maxCharacters) * 100, 100)}%` 
-                        }}
-                      />
-                    </div>
-                    
-                    {/* Numeric Count */}
-                    <div className={`text-sm font-bold min-w-[60px] text-right ${
-                      isOverLimit ? 'text-red-500' : 
-                      isNearLimit ? 'text-yellow-600' :
-                      'text-gray-500'
-                    }`}>
-                      {characterCount}/{maxCharacters}
-                    </div>
-                  </div>
-                </div>
-              )}
+              {/* Word Count; the length limit is shown by the counter in the bottom bar */}
+              <div className={`text-gray-500 ${isMobile ? 'mt-2 text-xs' : 'mt-4 text-sm'}`}>
+                {content.length === 0 ? (
+                  'Start typing your post...'
+                ) : (
+                  `${content.split(' ').length} words`
+                )}
+              </div>
 
               {/* Media Preview */}
               {media.length > 0 && (
@@ -579,7 +1095,7 @@ export const ComposePage: React.FC = () => {
                         {mediaItem.type === 'image' ? (
                           <img 
                             src={storageService.getOptimizedImageUrl(mediaItem.url, { width: 400, quality: 80 })}
-                            alt={`Upload ${index + 1}`}
+                            alt={mediaItem.alt || `Upload ${index + 1}`}
                             className={`w-full object-cover rounded-lg border border-gray-200 ${
                               isMobile ? 'h-24' : 'h-32'
                             }`}
@@ -623,6 +1139,168 @@ export const ComposePage: React.FC = () => {
                       <span className="text-blue-500">You can add {4 - media.length} more file{4 - media.length !== 1 ? 's' : ''}</span>
                     )}
                   </div>
+
+                  {/* Alt text and content warning */}
+                  <MediaAltTextEditor
+                    media={media}
+                    sensitive={sensitiveMedia}
+                    compact={isMobile}
+                    onMediaChange={setMedia}
+                    onSensitiveChange={setSensitiveMedia}
+                  />
+                </div>
+              )}
+
+              {/* Quoted Tweet Preview */}
+              {quotedTweet && (
+                <div className="relative mt-3">
+                  <QuotedTweetCard tweet={quotedTweet} compact={isMobile} linkable={false} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleRemoveQuote}
+                    className={`absolute top-1 ${isRTL ? 'left-1' : 'right-1'} h-7 w-7 p-0 rounded-full bg-white/80 hover:bg-gray-100`}
+                    aria-label={language === 'en' ? 'Remove quote' : 'إزالة الاقتباس'}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              {/* Poll */}
+              {poll && (
+                <PollComposer poll={poll} compact={isMobile} onChange={setPoll} onRemove={() => setPoll(null)} />
+              )}
+
+              {/* Itinerary */}
+              {itinerary && (
+                <ItineraryEditor
+                  itinerary={itinerary}
+                  compact={isMobile}
+                  onChange={setItinerary}
+                  onRemove={() => setItinerary(null)}
+                />
+              )}
+
+              {/* Review */}
+              {review && (
+                <ReviewComposer
+                  review={review}
+                  place={place}
+                  compact={isMobile}
+                  onChange={setReview}
+                  onRemove={() => setReview(null)}
+                  onPickPlace={() => setPlaceOpen(true)}
+                />
+              )}
+
+              {/* Flight deal */}
+              {flightDeal && (
+                <FlightDealComposer
+                  deal={flightDeal}
+                  compact={isMobile}
+                  onChange={setFlightDeal}
+                  onRemove={() => setFlightDeal(null)}
+                />
+              )}
+
+              {/* Listing */}
+              {listing && (
+                <ListingComposer
+                  listing={listing}
+                  compact={isMobile}
+                  onChange={handleListingChange}
+                  onRemove={() => setListing(null)}
+                />
+              )}
+
+              {/* Question */}
+              {isQuestion && (
+                <div className="mt-3 flex items-center justify-between border border-blue-200 bg-blue-50 rounded-xl px-3 py-2 text-sm text-blue-700">
+                  <span className="flex items-center gap-2">
+                    <HelpCircle className="h-4 w-4" />
+                    {language === 'en'
+                      ? 'Posting as a question. You can accept a reply as the answer.'
+                      : 'سيُنشر كسؤال. يمكنك اعتماد أحد الردود كإجابة.'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setIsQuestion(false)}
+                    className="text-blue-600 hover:text-blue-800"
+                    aria-label={language === 'en' ? 'Not a question' : 'ليس سؤالاً'}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              {/* Place */}
+              {(placeOpen || place) && (
+                <PlacePicker
+                  place={place}
+                  compact={isMobile}
+                  onChange={handlePlaceChange}
+                  onClose={() => setPlaceOpen(false)}
+                />
+              )}
+
+              {/* Schedule: the database publishes the post at this time */}
+              {scheduleOpen && (
+                <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-700 text-sm flex items-center gap-1">
+                      <Calendar className="h-4 w-4" />
+                      {language === 'en' ? 'Schedule' : 'جدولة'}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleToggleSchedule}
+                      className="h-7 px-2 text-red-500 hover:bg-red-50"
+                    >
+                      {language === 'en' ? 'Clear' : 'مسح'}
+                    </Button>
+                  </div>
+                  <input
+                    type="datetime-local"
+                    value={scheduledFor}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setScheduledFor(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {scheduledDate
+                      ? (language === 'en' ? 'Will post on ' : 'سيتم النشر في ') +
+                        format(scheduledDate, 'PPp', { locale: language === 'ar' ? arSA : enUS })
+                      : (language === 'en' ? 'Pick a date and time to post later' : 'اختر تاريخاً ووقتاً للنشر لاحقاً')}
+                  </p>
+                  {draftStatus === 'failed' && (
+                    <p className="text-xs text-red-600">
+                      {language === 'en' ? "This post couldn't be published. Pick a new time to try again" : 'تعذر نشر هذا المنشور. اختر وقتاً جديداً للمحاولة مرة أخرى'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Thread: the posts after the first, each with its own media */}
+              {isThread && (
+                <div className={`mt-4 ${isRTL ? 'border-r-2 pr-3' : 'border-l-2 pl-3'} border-gray-200 space-y-4`}>
+                  <div className={`text-gray-500 font-medium ${isMobile ? 'text-xs' : 'text-sm'}`}>
+                    1/{threadTotal}
+                  </div>
+                  {threadSegments.map((segment, index) => (
+                    <ThreadSegmentEditor
+                      key={segment.id}
+                      segment={segment}
+                      position={index + 2}
+                      total={threadTotal}
+                      compact={isMobile}
+                      onChange={handleThreadSegmentChange}
+                      onRemove={() => handleRemoveThreadSegment(segment)}
+                      onUploadingChange={(uploading) => handleSegmentUploadingChange(segment.id, uploading)}
+                      onMentionPick={handleMentionPick}
+                    />
+                  ))}
                 </div>
               )}
 
@@ -837,7 +1515,7 @@ export const ComposePage: React.FC = () => {
             <Button
               variant="ghost"
               onClick={handleMediaButtonClick}
-              disabled={media.length >= 4 || uploadingMedia}
+              disabled={media.length >= 4 || uploadingMedia || !!poll}
               className={`flex items-center space-x-2 text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                 isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
               }`}
@@ -857,18 +1535,149 @@ export const ComposePage: React.FC = () => {
               )}
             </Button>
 
+            {/* Attach a poll instead of media */}
+            <Button
+              variant="ghost"
+              onClick={handleAddPoll}
+              disabled={!!poll || !!itinerary || media.length > 0 || isThread || scheduleOpen || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add poll' : 'إضافة استطلاع'}
+            >
+              <BarChart2 className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Turn the post into a thread, or add another post to it */}
+            <Button
+              variant="ghost"
+              onClick={handleAddThreadSegment}
+              disabled={threadTotal >= MAX_THREAD_SEGMENTS || !!poll || !!itinerary || !!review || !!flightDeal || !!listing || isQuestion || scheduleOpen || loading}
+              className={`flex items-center space-x-1 text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add to thread' : 'إضافة إلى السلسلة'}
+            >
+              <Plus className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+              {!isMobile && (
+                <span className="text-sm font-medium">
+                  {language === 'en' ? 'Add to thread' : 'إضافة إلى السلسلة'}
+                </span>
+              )}
+            </Button>
+
+            {/* Lay out a day-by-day itinerary */}
+            <Button
+              variant="ghost"
+              onClick={handleAddItinerary}
+              disabled={!!itinerary || !!poll || isThread || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                itinerary ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add itinerary' : 'إضافة برنامج رحلة'}
+            >
+              <Route className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Rate the tagged place */}
+            <Button
+              variant="ghost"
+              onClick={handleAddReview}
+              disabled={!!review || isThread || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                review ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add review' : 'إضافة تقييم'}
+            >
+              <Star className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Share a fare */}
+            <Button
+              variant="ghost"
+              onClick={handleAddFlightDeal}
+              disabled={!!flightDeal || isThread || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                flightDeal ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add flight deal' : 'إضافة عرض طيران'}
+            >
+              <Plane className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* List a property or car */}
+            <Button
+              variant="ghost"
+              onClick={handleAddListing}
+              disabled={!!listing || isThread || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                listing ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add listing' : 'إضافة إعلان'}
+            >
+              <KeyRound className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Ask it as a question */}
+            <Button
+              variant="ghost"
+              onClick={() => setIsQuestion(prev => !prev)}
+              disabled={isThread || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                isQuestion ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Ask as a question' : 'طرح كسؤال'}
+              aria-pressed={isQuestion}
+            >
+              <HelpCircle className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Tag a place */}
+            <Button
+              variant="ghost"
+              onClick={() => setPlaceOpen(true)}
+              disabled={placeOpen || !!place || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                placeOpen || place ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Add location' : 'إضافة موقع'}
+            >
+              <MapPin className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
+            {/* Post later instead of now; single posts only */}
+            <Button
+              variant="ghost"
+              onClick={handleToggleSchedule}
+              disabled={(!scheduleOpen && (isThread || !!poll)) || loading}
+              className={`flex items-center text-blue-500 hover:text-blue-600 transition-colors disabled:opacity-50 ${
+                scheduleOpen ? 'bg-blue-100' : ''
+              } ${
+                isMobile ? 'p-3 rounded-full hover:bg-blue-50 bg-blue-50 shadow-md' : 'p-2 hover:bg-blue-50 rounded-lg'
+              }`}
+              aria-label={language === 'en' ? 'Schedule post' : 'جدولة المنشور'}
+            >
+              <Calendar className={isMobile ? 'h-4 w-4' : 'h-5 w-5'} />
+            </Button>
+
             {/* Additional action buttons for desktop */}
             {!isMobile && (
               <>
                 <Button variant="ghost" size="sm" className="p-1">
                   <Smile className="h-6 w-6 text-blue-500" />
                 </Button>
-                <Button variant="ghost" size="sm" className="p-1">
-                  <Calendar className="h-6 w-6 text-blue-500" />
-                </Button>
-                <Button variant="ghost" size="sm" className="p-1">
-                  <MapPin className="h-6 w-6 text-blue-500" />
-                </Button>
               </>
             )}
           </div>
@@ -877,40 +1686,7 @@ export const ComposePage: React.FC = () => {
           {isMobile && (
             <div className="flex items-center space-x-3">
               {/* Progress Circle */}
-              <div className="relative w-8 h-8">
-                <svg className="w-8 h-8 transform -rotate-90" viewBox="0 0 36 36">
-                  <path
-                    d="M18 2.0845
-                      a 15.9155 15.9155 0 0 1 0 31.831
-                      a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke="#e5e7eb"
-                    strokeWidth="2"
-                  />
-                  <path
-                    d="M18 2.0845
-                      a 15.9155 15.9155 0 0 1 0 31.831
-                      a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke={
-                      isOverLimit ? "#ef4444" : 
-                      isNearLimit ? "#eab308" :
-                      "#3b82f6"
-                    }
-                    strokeWidth="2"
-                    strokeDasharray={`${Math.min((characterCount / maxCharacters) * 100, 100)}, 100`}
-                  />
-                </svg>
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <span className={`text-xs font-bold ${
-                    isOverLimit ? 'text-red-500' : 
-                    isNearLimit ? 'text-yellow-600' :
-                    'text-gray-500'
-                  }`}>
-                    {isOverLimit ? `-${Math.abs(remainingChars)}` : remainingChars}
-                  </span>
-                </div>
-              </div>
+              <CharacterCounter length={characterCount} />
             </div>
           )}
 
@@ -918,40 +1694,7 @@ export const ComposePage: React.FC = () => {
           {!isMobile && (
             <div className="flex items-center space-x-4">
               {/* Progress Circle */}
-              <div className="relative w-10 h-10">
-                <svg className="w-10 h-10 transform -rotate-90" viewBox="0 0 36 36">
-                  <path
-                    d="M18 2.0845
-                      a 15.9155 15.9155 0 0 1 0 31.831
-                      a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke="#e5e7eb"
-                    strokeWidth="2"
-                  />
-                  <path
-                    d="M18 2.0845
-                      a 15.9155 15.9155 0 0 1 0 31.831
-                      a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke={
-                      isOverLimit ? "#ef4444" : 
-                      isNearLimit ? "#eab308" :
-                      "#3b82f6"
-                    }
-                    strokeWidth="2"
-                    strokeDasharray={`${Math.min((characterCount / maxCharacters) * 100, 100)}, 100`}
-                  />
-                </svg>
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <span className={`text-xs font-bold ${
-                    isOverLimit ? 'text-red-500' : 
-                    isNearLimit ? 'text-yellow-600' :
-                    'text-gray-500'
-                  }`}>
-                    {isOverLimit ? `-${Math.abs(remainingChars)}` : remainingChars}
-                  </span>
-                </div>
-              </div>
+              <CharacterCounter length={characterCount} className="w-10 h-10" />
 
               {/* Character Count Text */}
               <div className="text-right">
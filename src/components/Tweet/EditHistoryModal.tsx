@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { LazyImage } from '../ui/LazyImage';
+import { TweetBadges } from '../ui/TweetBadges';
+import { Tweet, TweetRevision } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { fetchTweetRevisions, getTweetMedia } from '../../lib/tweetRepository';
+
+interface EditHistoryModalProps {
+  tweet: Tweet;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// One version of the tweet as it read at the time
+type Version = Pick<TweetRevision, 'content' | 'images' | 'videos' | 'mediaAltText' | 'tags' | 'createdAt'> & { key: string };
+
+// Lists the current version of an edited tweet followed by every earlier revision
+export const EditHistoryModal: React.FC<EditHistoryModalProps> = ({ tweet, isOpen, onClose }) => {
+  const { language } = useLanguageStore();
+  const [revisions, setRevisions] = useState<TweetRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refetch when the tweet is edited again while the modal is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchTweetRevisions(tweet.id)
+      .then(rows => {
+        if (!cancelled) setRevisions(rows);
+      })
+      .catch(err => {
+        console.error('Error fetching edit history:', err);
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tweet.id, tweet.editCount]);
+
+  const versions: Version[] = [
+    {
+      key: 'current',
+      content: tweet.content,
+      images: tweet.images || [],
+      videos: tweet.videos || [],
+      mediaAltText: tweet.mediaAltText || {},
+      tags: tweet.tags || [],
+      createdAt: tweet.editedAt ?? tweet.createdAt,
+    },
+    ...revisions.map(revision => ({ ...revision, key: revision.id })),
+  ];
+
+  const formatDate = (date: Date) =>
+    format(date, 'PPp', { locale: language === 'ar' ? arSA : enUS });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">
+            {language === 'en' ? 'Edit history' : 'سجل التعديلات'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-100">
+          {versions.map((version, index) => {
+            const media = getTweetMedia(version);
+            const isCurrent = index === 0;
+            const isOriginal = index === versions.length - 1 && !loading;
+
+            return (
+              <div key={version.key} className="py-3">
+                <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                  <span className="font-medium">
+                    {isCurrent
+                      ? (language === 'en' ? 'Current version' : 'النسخة الحالية')
+                      : isOriginal
+                        ? (language === 'en' ? 'Original post' : 'المنشور الأصلي')
+                        : (language === 'en' ? 'Earlier version' : 'نسخة سابقة')}
+                  </span>
+                  <span>{formatDate(version.createdAt)}</span>
+                </div>
+                <p className="text-gray-900 text-[15px] whitespace-pre-wrap break-words" dir="auto">
+                  {version.content}
+                </p>
+                {media.length > 0 && (
+                  <div className="grid grid-cols-4 gap-1 mt-2">
+                    {media.map((item, mediaIndex) => (
+                      <div key={`${item.url}-${mediaIndex}`} className="aspect-square rounded-lg overflow-hidden bg-gray-100">
+                        {item.type === 'image' ? (
+                          <LazyImage src={item.url} alt={item.alt || `Media ${mediaIndex + 1}`} className="w-full h-full" width={160} quality={70} />
+                        ) : (
+                          <video src={item.url} className="w-full h-full object-cover" muted preload="metadata" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <TweetBadges tweetId={tweet.id} tags={version.tags} isAdmin={false} />
+              </div>
+            );
+          })}
+        </div>
+
+        {loading && (
+          <p className="text-center text-sm text-gray-500">
+            {language === 'en' ? 'Loading...' : 'جاري التحميل...'}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Tag, Globe, Check, X, Image, Play } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { LazyImage } from '../ui/LazyImage';
+import { TWEET_CATEGORIES, FILTER_COUNTRIES, TweetCategory, Tweet, getLocalizedCountryName } from '../../types';
+import { useTweets } from '../../hooks/useTweets';
+import { useAuth } from '../../hooks/useAuth';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { storageService } from '../../lib/storage';
+import { getMediaAltText, getTweetMedia, MediaItem, resolveMentionIds, TWEET_EDIT_WINDOW_MS } from '../../lib/tweetRepository';
+import { getPostLengthState, POST_MAX_LENGTH } from '../../lib/textMetrics';
+import { MediaAltTextEditor } from './MediaAltTextEditor';
+import { AutocompleteTextarea } from './AutocompleteTextarea';
+import { MentionSuggestion } from '../../hooks/useAutocomplete';
+
+interface EditTweetModalProps {
+  tweet: Tweet;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_MEDIA = 4;
+
+export const EditTweetModal: React.FC<EditTweetModalProps> = ({ tweet, isOpen, onClose }) => {
+  const { user } = useAuth();
+  const { editTweet } = useTweets();
+  const { language, isRTL } = useLanguageStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [content, setContent] = useState(tweet.content);
+  const [media, setMedia] = useState<MediaItem[]>(() => getTweetMedia(tweet));
+  const [tags, setTags] = useState<string[]>(tweet.tags || []);
+  // Users picked from @ suggestions while editing, by username; earlier picks stay on the server
+  const [pickedMentions, setPickedMentions] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start from the latest version every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setContent(tweet.content);
+    setMedia(getTweetMedia(tweet));
+    setTags(tweet.tags || []);
+    setPickedMentions({});
+    setError('');
+  }, [isOpen]);
+
+  // Helper function to get localized category name
+  const getLocalizedCategoryName = (category: TweetCategory) => {
+    const categoryNames = {
+      'General Discussions': { en: 'General Discussions', ar: 'مناقشات عامة' },
+      'Visas': { en: 'Visas', ar: 'تأشيرات' },
+      'Hotels': { en: 'Hotels', ar: 'فنادق' },
+      'Car Rental': { en: 'Car Rental', ar: 'تأجير السيارات' },
+      'Tourist Schedules': { en: 'Tourist Schedules', ar: 'جداول سياحية' },
+      'Flights': { en: 'Flights', ar: 'رحلات طيران' },
+      'Restorants and coffees': { en: 'Restaurants and Cafes', ar: 'مطاعم ومقاهي' },
+      'Images and creators': { en: 'Images and Creators', ar: 'صور ومبدعين' },
+      'Real estate': { en: 'Real Estate', ar: 'عقارات' }
+    };
+
+    return categoryNames[category]?.[language] || category;
+  };
+
+  const minutesLeft = Math.max(
+    0,
+    Math.ceil((tweet.createdAt.getTime() + TWEET_EDIT_WINDOW_MS - Date.now()) / 60000)
+  );
+  const hasCategory = tags.some(tag => TWEET_CATEGORIES.includes(tag as TweetCategory));
+  const hasCountry = tags.some(tag => tag !== 'ALL' && FILTER_COUNTRIES.some(country => country.code === tag));
+  const { length: characterCount, isOverLimit } = getPostLengthState(content);
+
+  const handleMentionPick = (picked: MentionSuggestion) => {
+    setPickedMentions(prev => ({ ...prev, [picked.username]: picked.id }));
+  };
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const handleRemoveMedia = (index: number) => {
+    // Files stay in storage: earlier revisions still point at them
+    setMedia(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_MEDIA - media.length);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    setUploading(true);
+    setError('');
+
+    try {
+      for (const file of files) {
+        const validation = storageService.validateMediaFile(file);
+        if (!validation.isValid) {
+          setError(validation.error || 'Invalid file');
+          continue;
+        }
+
+        const url = validation.mediaType === 'video'
+          ? await storageService.uploadVideo(file, user.id)
+          : await storageService.uploadImage(file, user.id);
+        setMedia(prev => [...prev, { url, type: validation.mediaType === 'video' ? 'video' : 'image' }]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload media');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!content.trim()) {
+      setError(language === 'en' ? 'Post content cannot be empty' : 'لا يمكن أن يكون المنشور فارغاً');
+      return;
+    }
+
+    if (isOverLimit) {
+      setError(language === 'en' ? `Post cannot exceed ${POST_MAX_LENGTH} characters` : `لا يمكن أن يتجاوز المنشور ${POST_MAX_LENGTH} حرفاً`);
+      return;
+    }
+
+    if (!hasCategory || !hasCountry) {
+      setError(language === 'en' ? 'Please select at least one category and one country' : 'يرجى اختيار فئة وبلد واحد على الأقل');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await editTweet(tweet.id, {
+        content,
+        imageUrls: media.filter(item => item.type === 'image').map(item => item.url),
+        videoUrls: media.filter(item => item.type === 'video').map(item => item.url),
+        mediaAltText: getMediaAltText(media),
+        tags,
+        mentionedUserIds: resolveMentionIds(content, pickedMentions),
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to edit post');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">
+            {language === 'en' ? 'Edit Post' : 'تعديل المنشور'}
+          </DialogTitle>
+          <p className="text-sm text-gray-500">
+            {language === 'en'
+              ? `You can edit this post for ${minutesLeft} more minute${minutesLeft === 1 ? '' : 's'}. Earlier versions stay visible in its edit history.`
+              : `يمكنك تعديل هذا المنشور لمدة ${minutesLeft} دقيقة أخرى. ستبقى النسخ السابقة ظاهرة في سجل التعديلات.`}
+          </p>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Content */}
+        <div>
+          <AutocompleteTextarea
+            value={content}
+            onChange={setContent}
+            onMentionPick={handleMentionPick}
+            className={`w-full min-h-[120px] p-3 border border-gray-200 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isOverLimit ? 'text-red-600' : ''
+            } ${isRTL ? 'text-right' : 'text-left'}`}
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          <div className={`text-xs mt-1 ${isOverLimit ? 'text-red-500' : 'text-gray-500'} ${isRTL ? 'text-left' : 'text-right'}`}>
+            {characterCount}/{POST_MAX_LENGTH}
+          </div>
+        </div>
+
+        {/* Media */}
+        <div>
+          <div className="grid grid-cols-4 gap-2">
+            {media.map((item, index) => (
+              <div key={item.url} className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+                {item.type === 'image' ? (
+                  <LazyImage src={item.url} alt={item.alt || `Media ${index + 1}`} className="w-full h-full" width={160} quality={70} />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-black/80">
+                    <Play className="w-6 h-6 text-white" />
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveMedia(index)}
+                  className="absolute top-1 right-1 w-6 h-6 bg-black/70 hover:bg-black rounded-full flex items-center justify-center"
+                  aria-label={language === 'en' ? 'Remove media' : 'إزالة الوسائط'}
+                >
+                  <X className="w-3 h-3 text-white" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <MediaAltTextEditor media={media} onMediaChange={setMedia} />
+          {media.length < MAX_MEDIA && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,video/mp4"
+                multiple
+                className="hidden"
+                onChange={handleMediaUpload}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 text-blue-500 hover:bg-blue-50"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+              >
+                <Image className="w-4 h-4 mr-1" />
+                {uploading
+                  ? (language === 'en' ? 'Uploading...' : 'جاري الرفع...')
+                  : (language === 'en' ? 'Add media' : 'إضافة وسائط')}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {/* Categories */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            {language === 'en' ? 'Categories' : 'الفئات'}
+          </h4>
+          <div className="grid grid-cols-2 gap-2">
+            {TWEET_CATEGORIES.map(category => (
+              <div
+                key={category}
+                className={`p-2 rounded-lg border cursor-pointer transition-colors ${
+                  tags.includes(category)
+                    ? 'bg-blue-100 border-blue-300 text-blue-700'
+                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+                onClick={() => toggleTag(category)}
+              >
+                <div className="flex items-center gap-2">
+                  <Tag className="w-3 h-3" />
+                  <span className="text-xs">{getLocalizedCategoryName(category)}</span>
+                  {tags.includes(category) && <Check className="w-3 h-3 ml-auto text-blue-600" />}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Countries */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            {language === 'en' ? 'Countries' : 'البلدان'}
+          </h4>
+          <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+            {FILTER_COUNTRIES.filter(country => country.code !== 'ALL').map(country => (
+              <div
+                key={country.code}
+                className={`p-2 rounded-lg border cursor-pointer transition-colors ${
+                  tags.includes(country.code)
+                    ? 'bg-green-100 border-green-300 text-green-700'
+                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+                onClick={() => toggleTag(country.code)}
+              >
+                <div className="flex items-center gap-2">
+                  <Globe className="w-3 h-3" />
+                  <span className="text-xs">{getLocalizedCountryName(country, language)}</span>
+                  {tags.includes(country.code) && <Check className="w-3 h-3 ml-auto text-green-600" />}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            {language === 'en' ? 'Cancel' : 'إلغاء'}
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || uploading || !content.trim() || isOverLimit}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving
+              ? (language === 'en' ? 'Saving...' : 'جاري الحفظ...')
+              : (language === 'en' ? 'Save' : 'حفظ')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow, parse } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { ArrowRight, Plane } from 'lucide-react';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getAirport, getLocalizedAirportCity } from '../../lib/airports';
+import { getDealRouteQuery, isFlightDealExpired } from '../../lib/flightDeals';
+import { formatPrice } from '../../lib/prices';
+
+interface FlightDealCardProps {
+  tweet: Tweet;
+  compact?: boolean;
+}
+
+// A post's flight deal: route and fare up front, travel window and expiry beneath. Expired deals are greyed out
+export const FlightDealCard: React.FC<FlightDealCardProps> = ({ tweet, compact = false }) => {
+  const { language, isRTL } = useLanguageStore();
+  const navigate = useNavigate();
+  const deal = tweet.flightDeal;
+  if (!deal) return null;
+
+  const locale = language === 'ar' ? arSA : enUS;
+  const expired = isFlightDealExpired(deal);
+  const origin = getAirport(deal.origin);
+  const destination = getAirport(deal.destination);
+  const travelFrom = deal.travelFrom ? parse(deal.travelFrom, 'yyyy-MM-dd', new Date()) : undefined;
+  const travelTo = deal.travelTo ? parse(deal.travelTo, 'yyyy-MM-dd', new Date()) : undefined;
+  const formatDay = (date: Date) => format(date, 'd MMM', { locale });
+
+  const handleRouteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/search?q=${encodeURIComponent(getDealRouteQuery(deal))}`);
+  };
+
+  return (
+    <div
+      className={`mb-3 border rounded-2xl px-3 py-2 ${compact ? 'text-sm' : 'text-[15px]'} ${
+        expired ? 'border-gray-200 bg-gray-50 text-gray-500' : 'border-blue-200'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={handleRouteClick}
+          className={`flex items-center gap-2 min-w-0 hover:underline ${expired ? '' : 'text-gray-900'}`}
+          aria-label={language === 'en' ? 'More deals on this route' : 'المزيد من العروض على هذا المسار'}
+        >
+          <Plane className={`h-4 w-4 flex-shrink-0 ${expired ? '' : 'text-blue-500'} ${isRTL ? '-scale-x-100' : ''}`} />
+          <span className="font-bold" dir="ltr">{deal.origin}</span>
+          <ArrowRight className={`h-4 w-4 flex-shrink-0 ${isRTL ? 'rotate-180' : ''}`} />
+          <span className="font-bold" dir="ltr">{deal.destination}</span>
+        </button>
+        <span className={`font-bold flex-shrink-0 ${expired ? 'line-through' : 'text-green-700'}`}>
+          {formatPrice(deal.price, deal.currency, language)}
+        </span>
+      </div>
+
+      {origin && destination && (
+        <p className="text-xs text-gray-500 truncate">
+          {getLocalizedAirportCity(origin, language)} – {getLocalizedAirportCity(destination, language)}
+        </p>
+      )}
+
+      <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        {(travelFrom || travelTo) && (
+          <span className="text-gray-600">
+            {language === 'en' ? 'Travel ' : 'السفر '}
+            {travelFrom && travelTo
+              ? `${formatDay(travelFrom)} – ${formatDay(travelTo)}`
+              : travelFrom
+                ? `${language === 'en' ? 'from' : 'من'} ${formatDay(travelFrom)}`
+                : `${language === 'en' ? 'until' : 'حتى'} ${formatDay(travelTo!)}`}
+          </span>
+        )}
+        {expired ? (
+          <span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-600 font-medium">
+            {language === 'en' ? 'Expired' : 'منتهي'}
+          </span>
+        ) : (
+          <span className="text-orange-600">
+            {language === 'en' ? 'Expires ' : 'ينتهي '}
+            {formatDistanceToNow(deal.expiresAt, { addSuffix: true, locale })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
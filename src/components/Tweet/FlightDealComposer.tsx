@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Plane, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getAirport, getLocalizedAirportCity, getLocalizedAirportName, searchAirports } from '../../lib/airports';
+import { DEAL_PRICE_MAX, FlightDealDraft } from '../../lib/flightDeals';
+import { PRICE_CURRENCIES } from '../../lib/prices';
+
+interface FlightDealComposerProps {
+  deal: FlightDealDraft;
+  compact?: boolean;
+  onChange: (deal: FlightDealDraft) => void;
+  onRemove: () => void;
+}
+
+interface AirportFieldProps {
+  iata: string;
+  label: string;
+  compact: boolean;
+  onChange: (iata: string) => void;
+}
+
+// One end of the route, searched in the bundled airport list
+const AirportField: React.FC<AirportFieldProps> = ({ iata, label, compact, onChange }) => {
+  const { language, isRTL } = useLanguageStore();
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchAirports(query, 6), [query]);
+  const selected = getAirport(iata);
+  const textSize = compact ? 'text-sm' : 'text-base';
+
+  if (selected) {
+    return (
+      <div className={`flex items-center justify-between gap-2 rounded-lg bg-blue-50 text-blue-700 px-3 py-2 ${textSize}`}>
+        <span className="min-w-0">
+          <span className="font-bold" dir="ltr">{selected.iata}</span>
+          <span className="block truncate text-xs">{getLocalizedAirportCity(selected, language)}</span>
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="p-1 rounded-full hover:bg-blue-100"
+          aria-label={language === 'en' ? `Change ${label.toLowerCase()}` : `تغيير ${label}`}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={label}
+        aria-label={label}
+        className={`w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${textSize} ${
+          isRTL ? 'text-right' : 'text-left'
+        }`}
+        dir={isRTL ? 'rtl' : 'ltr'}
+      />
+      {query.trim() && (
+        <ul className="absolute z-10 mt-1 w-64 max-w-[80vw] bg-white border border-gray-200 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+          {results.length > 0 ? results.map(result => (
+            <li key={result.iata}>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange(result.iata);
+                  setQuery('');
+                }}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 hover:bg-gray-50 text-sm ${isRTL ? 'text-right' : 'text-left'}`}
+              >
+                <span className="font-bold text-gray-900 w-10 flex-shrink-0" dir="ltr">{result.iata}</span>
+                <span className="min-w-0">
+                  <span className="block truncate text-gray-900">{getLocalizedAirportCity(result, language)}</span>
+                  <span className="block truncate text-xs text-gray-500">{getLocalizedAirportName(result, language)}</span>
+                </span>
+              </button>
+            </li>
+          )) : (
+            <li className="px-2 py-1.5 text-sm text-gray-500">
+              {language === 'en' ? 'No airports found' : 'لم يتم العثور على مطارات'}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Route, fare and expiry for a deal being attached to a Flights post
+export const FlightDealComposer: React.FC<FlightDealComposerProps> = ({ deal, compact = false, onChange, onRemove }) => {
+  const { language, isRTL } = useLanguageStore();
+  const inputClass = 'border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const sameAirport = !!deal.origin && deal.origin === deal.destination;
+  const windowReversed = !!deal.travelFrom && !!deal.travelTo && deal.travelTo < deal.travelFrom;
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 text-sm flex items-center gap-1">
+          <Plane className="h-4 w-4" />
+          {language === 'en' ? 'Flight deal' : 'عرض طيران'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove deal' : 'إزالة العرض'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+        <AirportField
+          iata={deal.origin}
+          label={language === 'en' ? 'From' : 'من'}
+          compact={compact}
+          onChange={(origin) => onChange({ ...deal, origin })}
+        />
+        <ArrowRight className={`h-4 w-4 text-gray-400 ${isRTL ? 'rotate-180' : ''}`} />
+        <AirportField
+          iata={deal.destination}
+          label={language === 'en' ? 'To' : 'إلى'}
+          compact={compact}
+          onChange={(destination) => onChange({ ...deal, destination })}
+        />
+      </div>
+      {sameAirport && (
+        <p className="text-xs text-red-600">
+          {language === 'en' ? 'Pick two different airports' : 'اختر مطارين مختلفين'}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {language === 'en' ? 'Price' : 'السعر'}
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={DEAL_PRICE_MAX}
+            step="any"
+            value={deal.price}
+            onChange={(e) => onChange({ ...deal, price: e.target.value })}
+            className={`${inputClass} w-28`}
+            dir="ltr"
+          />
+        </label>
+        <select
+          value={deal.currency}
+          onChange={(e) => onChange({ ...deal, currency: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Currency' : 'العملة'}
+        >
+          {PRICE_CURRENCIES.map(currency => (
+            <option key={currency} value={currency}>{currency}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span>{language === 'en' ? 'Travel between (optional)' : 'السفر بين (اختياري)'}</span>
+        <input
+          type="date"
+          value={deal.travelFrom}
+          onChange={(e) => onChange({ ...deal, travelFrom: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Travel from' : 'السفر من'}
+        />
+        <span>{language === 'en' ? 'and' : 'و'}</span>
+        <input
+          type="date"
+          value={deal.travelTo}
+          min={deal.travelFrom || undefined}
+          onChange={(e) => onChange({ ...deal, travelTo: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Travel until' : 'السفر حتى'}
+        />
+      </div>
+      {windowReversed && (
+        <p className="text-xs text-red-600">
+          {language === 'en' ? 'The travel window ends before it starts' : 'فترة السفر تنتهي قبل أن تبدأ'}
+        </p>
+      )}
+
+      <label className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        {language === 'en' ? 'Deal expires' : 'ينتهي العرض'}
+        <input
+          type="datetime-local"
+          value={deal.expiresAt}
+          onChange={(e) => onChange({ ...deal, expiresAt: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarPlus, ChevronDown, ChevronUp, Copy, Route } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { buildItineraryIcs, countItineraryStops, downloadIcs } from '../../lib/itinerary';
+import { copyItineraryToTrip, defaultTripStartDate } from '../../lib/tripRepository';
+import { ItineraryTimeline } from './ItineraryTimeline';
+
+interface ItineraryCardProps {
+  tweet: Tweet;
+  currentUserId?: string;
+  compact?: boolean;
+  defaultExpanded?: boolean;
+}
+
+type PendingAction = 'calendar' | 'trip';
+
+// A post's itinerary as a day-by-day timeline, with calendar export and copying into the reader's trips
+export const ItineraryCard: React.FC<ItineraryCardProps> = ({
+  tweet,
+  currentUserId,
+  compact = false,
+  defaultExpanded = false,
+}) => {
+  const navigate = useNavigate();
+  const { language } = useLanguageStore();
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [pickedDate, setPickedDate] = useState(defaultTripStartDate);
+  const [copying, setCopying] = useState(false);
+  const [copiedTripId, setCopiedTripId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const itinerary = tweet.itinerary;
+  if (!itinerary) return null;
+
+  const textSize = compact ? 'text-sm' : 'text-[15px]';
+  const stopCount = countItineraryStops(itinerary);
+
+  const exportCalendar = (startDate: string) => {
+    const title = tweet.content.split('\n').map(line => line.trim()).find(Boolean) || `@${tweet.author.username}`;
+    const ics = buildItineraryIcs(itinerary, {
+      uid: `tweet-${tweet.id}`,
+      title,
+      url: `${window.location.origin}/tweet/${tweet.id}`,
+      startDate,
+    });
+    downloadIcs(`itinerary-${tweet.id}`, ics);
+  };
+
+  const copyToTrips = async (startDate?: string) => {
+    if (!currentUserId || copying) return;
+    try {
+      setCopying(true);
+      setError(null);
+      const trip = await copyItineraryToTrip(currentUserId, tweet, startDate);
+      setCopiedTripId(trip.id);
+    } catch (err: any) {
+      console.error('Error copying itinerary to trips:', err);
+      setError(err.message);
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  // Without its own start date, the reader picks one before the days become real dates
+  const runAction = (action: PendingAction) => {
+    if (!itinerary.startDate && pending !== action) {
+      setPending(action);
+      return;
+    }
+    const startDate = itinerary.startDate || pickedDate;
+    setPending(null);
+    if (action === 'calendar') {
+      exportCalendar(startDate);
+    } else {
+      copyToTrips(startDate);
+    }
+  };
+
+  return (
+    <div
+      className={`mb-3 border border-gray-200 rounded-2xl overflow-hidden ${textSize}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200">
+        <span className="flex items-center gap-2 font-semibold text-gray-900">
+          <Route className="h-4 w-4 text-blue-500" />
+          {language === 'en' ? 'Itinerary' : 'برنامج الرحلة'}
+        </span>
+        <span className="text-xs text-gray-500">
+          {language === 'en'
+            ? `${itinerary.days.length} day${itinerary.days.length === 1 ? '' : 's'} · ${stopCount} stop${stopCount === 1 ? '' : 's'}`
+            : `${itinerary.days.length} يوم · ${stopCount} محطة`}
+        </span>
+      </div>
+
+      {/* Collapsed, only the first day shows */}
+      <ItineraryTimeline itinerary={itinerary} dayCount={expanded ? undefined : 1} className="px-3 py-2" />
+
+      {itinerary.days.length > 1 && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="w-full flex items-center justify-center gap-1 py-1.5 text-sm text-blue-500 hover:bg-blue-50 border-t border-gray-100"
+        >
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          {expanded
+            ? (language === 'en' ? 'Show less' : 'عرض أقل')
+            : (language === 'en'
+              ? `Show all ${itinerary.days.length} days`
+              : `عرض جميع الأيام (${itinerary.days.length})`)}
+        </button>
+      )}
+
+      <div className="px-3 py-2 border-t border-gray-100 space-y-2">
+        {pending && (
+          <label className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+            {language === 'en' ? 'Day 1 is on' : 'اليوم الأول بتاريخ'}
+            <input
+              type="date"
+              value={pickedDate}
+              onChange={(e) => setPickedDate(e.target.value)}
+              className="border border-gray-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => runAction('calendar')}
+            disabled={pending === 'calendar' && !pickedDate}
+            className="h-8 rounded-full text-xs"
+          >
+            <CalendarPlus className="h-3.5 w-3.5 mr-1" />
+            {pending === 'calendar'
+              ? (language === 'en' ? 'Download .ics' : 'تنزيل ملف .ics')
+              : (language === 'en' ? 'Add to calendar' : 'إضافة إلى التقويم')}
+          </Button>
+
+          {currentUserId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (copiedTripId ? navigate(`/trips/${copiedTripId}`) : runAction('trip'))}
+              disabled={copying || (pending === 'trip' && !pickedDate)}
+              className="h-8 rounded-full text-xs"
+            >
+              <Copy className="h-3.5 w-3.5 mr-1" />
+              {copiedTripId
+                ? (language === 'en' ? 'Copied · View trip' : 'تم النسخ · عرض الرحلة')
+                : copying
+                  ? (language === 'en' ? 'Copying...' : 'جاري النسخ...')
+                  : pending === 'trip'
+                    ? (language === 'en' ? 'Copy with this date' : 'نسخ بهذا التاريخ')
+                    : (language === 'en' ? 'Copy to my trips' : 'نسخ إلى رحلاتي')}
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from 'react';
+import { MapPin, Plus, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { Itinerary, ItineraryDay, ItineraryStop } from '../../types';
+import { getPlace, getPlaceLabel, searchPlaces } from '../../lib/gazetteer';
+import {
+  ITINERARY_MAX_DAYS,
+  ITINERARY_MAX_STOPS_PER_DAY,
+  ITINERARY_NOTES_MAX_LENGTH,
+  ITINERARY_TITLE_MAX_LENGTH,
+} from '../../lib/itinerary';
+import { PLACE_TYPE_ICONS } from './PlaceChip';
+
+interface ItineraryEditorProps {
+  itinerary: Itinerary;
+  compact?: boolean;
+  onChange: (itinerary: Itinerary) => void;
+  onRemove: () => void;
+}
+
+interface StopPlaceFieldProps {
+  placeId?: string;
+  compact: boolean;
+  onChange: (placeId: string | undefined) => void;
+}
+
+// A stop's place from the gazetteer, searched inline
+const StopPlaceField: React.FC<StopPlaceFieldProps> = ({ placeId, compact, onChange }) => {
+  const { language, isRTL } = useLanguageStore();
+  const [searching, setSearching] = useState(false);
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchPlaces(query, 5), [query]);
+  const place = getPlace(placeId);
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  if (place) {
+    return (
+      <span className={`inline-flex max-w-full items-center gap-1 rounded-full bg-blue-50 text-blue-700 px-2 py-0.5 ${textSize}`}>
+        {React.createElement(PLACE_TYPE_ICONS[place.type], { className: 'h-3 w-3 flex-shrink-0' })}
+        <span className="truncate">{getPlaceLabel(place, language)}</span>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="p-0.5 rounded-full hover:bg-blue-100"
+          aria-label={language === 'en' ? 'Remove place' : 'إزالة المكان'}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </span>
+    );
+  }
+
+  if (!searching) {
+    return (
+      <button
+        type="button"
+        onClick={() => setSearching(true)}
+        className={`inline-flex items-center gap-1 text-blue-500 hover:underline ${textSize}`}
+      >
+        <MapPin className="h-3 w-3" />
+        {language === 'en' ? 'Add place' : 'إضافة مكان'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setSearching(false);
+            setQuery('');
+          }
+        }}
+        placeholder={language === 'en' ? 'Search places' : 'ابحث عن مكان'}
+        className={`w-full border border-gray-300 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 ${textSize} ${
+          isRTL ? 'text-right' : 'text-left'
+        }`}
+        dir={isRTL ? 'rtl' : 'ltr'}
+        autoFocus
+      />
+      {query.trim() && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+          {results.length > 0 ? results.map(result => (
+            <li key={result.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange(result.id);
+                  setSearching(false);
+                  setQuery('');
+                }}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 hover:bg-gray-50 ${textSize} ${isRTL ? 'text-right' : 'text-left'}`}
+              >
+                {React.createElement(PLACE_TYPE_ICONS[result.type], { className: 'h-3 w-3 text-gray-500 flex-shrink-0' })}
+                <span className="truncate">{getPlaceLabel(result, language)}</span>
+              </button>
+            </li>
+          )) : (
+            <li className={`px-2 py-1.5 text-gray-500 ${textSize}`}>
+              {language === 'en' ? 'No places found' : 'لم يتم العثور على أماكن'}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Day-by-day stops for a Tourist Schedules post being composed
+export const ItineraryEditor: React.FC<ItineraryEditorProps> = ({ itinerary, compact = false, onChange, onRemove }) => {
+  const { language, isRTL } = useLanguageStore();
+  const textSize = compact ? 'text-sm' : 'text-base';
+  const inputClass = `border border-gray-300 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isRTL ? 'text-right' : 'text-left'
+  }`;
+
+  const updateDay = (dayIndex: number, day: ItineraryDay) => {
+    onChange({ ...itinerary, days: itinerary.days.map((current, i) => (i === dayIndex ? day : current)) });
+  };
+
+  const updateStop = (dayIndex: number, stopIndex: number, changes: Partial<ItineraryStop>) => {
+    const day = itinerary.days[dayIndex];
+    updateDay(dayIndex, {
+      ...day,
+      stops: day.stops.map((stop, i) => (i === stopIndex ? { ...stop, ...changes } : stop)),
+    });
+  };
+
+  const addStop = (dayIndex: number) => {
+    const day = itinerary.days[dayIndex];
+    if (day.stops.length >= ITINERARY_MAX_STOPS_PER_DAY) return;
+    updateDay(dayIndex, { ...day, stops: [...day.stops, { title: '' }] });
+  };
+
+  const removeStop = (dayIndex: number, stopIndex: number) => {
+    const day = itinerary.days[dayIndex];
+    updateDay(dayIndex, { ...day, stops: day.stops.filter((_, i) => i !== stopIndex) });
+  };
+
+  const addDay = () => {
+    if (itinerary.days.length >= ITINERARY_MAX_DAYS) return;
+    onChange({ ...itinerary, days: [...itinerary.days, { stops: [{ title: '' }] }] });
+  };
+
+  const removeDay = (dayIndex: number) => {
+    onChange({ ...itinerary, days: itinerary.days.filter((_, i) => i !== dayIndex) });
+  };
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 text-sm">
+          {language === 'en' ? 'Itinerary' : 'برنامج الرحلة'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove itinerary' : 'إزالة البرنامج'}
+        </Button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        {language === 'en' ? 'Starts on (optional)' : 'تاريخ البداية (اختياري)'}
+        <input
+          type="date"
+          value={itinerary.startDate || ''}
+          onChange={(e) => onChange({ ...itinerary, startDate: e.target.value || undefined })}
+          className={`${inputClass} text-sm`}
+        />
+      </label>
+
+      {itinerary.days.map((day, dayIndex) => (
+        <div key={dayIndex} className="rounded-lg bg-gray-50 p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-gray-900 text-sm whitespace-nowrap">
+              {language === 'en' ? `Day ${dayIndex + 1}` : `اليوم ${dayIndex + 1}`}
+            </span>
+            <input
+              value={day.title || ''}
+              onChange={(e) => updateDay(dayIndex, { ...day, title: e.target.value })}
+              maxLength={ITINERARY_TITLE_MAX_LENGTH}
+              placeholder={language === 'en' ? 'Day title (optional)' : 'عنوان اليوم (اختياري)'}
+              className={`${inputClass} flex-1 min-w-0 bg-white ${textSize}`}
+              dir={isRTL ? 'rtl' : 'ltr'}
+            />
+            {itinerary.days.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeDay(dayIndex)}
+                className="h-8 w-8 p-0 rounded-full hover:bg-gray-200"
+                aria-label={language === 'en' ? 'Remove day' : 'إزالة اليوم'}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          {day.stops.map((stop, stopIndex) => (
+            <div key={stopIndex} className="rounded-lg bg-white border border-gray-200 p-2 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={stop.time || ''}
+                  onChange={(e) => updateStop(dayIndex, stopIndex, { time: e.target.value || undefined })}
+                  className={`${inputClass} w-28 text-sm`}
+                  aria-label={language === 'en' ? 'Time' : 'الوقت'}
+                />
+                <input
+                  value={stop.title}
+                  onChange={(e) => updateStop(dayIndex, stopIndex, { title: e.target.value })}
+                  maxLength={ITINERARY_TITLE_MAX_LENGTH}
+                  placeholder={language === 'en' ? 'What happens here' : 'ماذا ستفعل هنا'}
+                  className={`${inputClass} flex-1 min-w-0 ${textSize}`}
+                  dir={isRTL ? 'rtl' : 'ltr'}
+                />
+                {day.stops.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeStop(dayIndex, stopIndex)}
+                    className="h-8 w-8 p-0 rounded-full hover:bg-gray-100"
+                    aria-label={language === 'en' ? 'Remove stop' : 'إزالة المحطة'}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <StopPlaceField
+                placeId={stop.placeId}
+                compact={compact}
+                onChange={(placeId) => updateStop(dayIndex, stopIndex, { placeId })}
+              />
+              <textarea
+                value={stop.notes || ''}
+                onChange={(e) => updateStop(dayIndex, stopIndex, { notes: e.target.value })}
+                maxLength={ITINERARY_NOTES_MAX_LENGTH}
+                rows={1}
+                placeholder={language === 'en' ? 'Notes (optional)' : 'ملاحظات (اختياري)'}
+                className={`${inputClass} w-full resize-none text-sm`}
+                dir={isRTL ? 'rtl' : 'ltr'}
+              />
+            </div>
+          ))}
+
+          {day.stops.length < ITINERARY_MAX_STOPS_PER_DAY && (
+            <Button variant="ghost" size="sm" onClick={() => addStop(dayIndex)} className="text-blue-500 hover:bg-blue-50 px-2">
+              <Plus className="h-4 w-4 mr-1" />
+              {language === 'en' ? 'Add stop' : 'إضافة محطة'}
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {itinerary.days.length < ITINERARY_MAX_DAYS && (
+        <Button variant="ghost" size="sm" onClick={addDay} className="text-blue-500 hover:bg-blue-50 px-2">
+          <Plus className="h-4 w-4 mr-1" />
+          {language === 'en' ? 'Add day' : 'إضافة يوم'}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { Itinerary } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getPlace, getPlaceLabel } from '../../lib/gazetteer';
+import { getItineraryDayDate } from '../../lib/itinerary';
+
+interface ItineraryTimelineProps {
+  itinerary: Itinerary;
+  dayCount?: number; // only the first days, e.g. for a collapsed card
+  className?: string;
+}
+
+// An itinerary's days and stops as a timeline, each tagged place linking to its page
+export const ItineraryTimeline: React.FC<ItineraryTimelineProps> = ({ itinerary, dayCount, className = '' }) => {
+  const navigate = useNavigate();
+  const { language, isRTL } = useLanguageStore();
+  const dateLocale = language === 'ar' ? arSA : enUS;
+  const visibleDays = dayCount === undefined ? itinerary.days : itinerary.days.slice(0, dayCount);
+
+  return (
+    <ol className={`space-y-3 ${className}`}>
+      {visibleDays.map((day, dayIndex) => {
+        const date = getItineraryDayDate(itinerary.startDate, dayIndex);
+        return (
+          <li key={dayIndex}>
+            <div className="flex flex-wrap items-baseline gap-x-2 mb-1">
+              <span className="font-bold text-gray-900">
+                {language === 'en' ? `Day ${dayIndex + 1}` : `اليوم ${dayIndex + 1}`}
+              </span>
+              {day.title && <span className="text-gray-700">{day.title}</span>}
+              {date && (
+                <span className="text-xs text-gray-500">
+                  {format(date, 'EEE d MMM', { locale: dateLocale })}
+                </span>
+              )}
+            </div>
+
+            <ul className={`space-y-2 ${isRTL ? 'border-r-2 pr-3 mr-1' : 'border-l-2 pl-3 ml-1'} border-blue-100`}>
+              {day.stops.map((stop, stopIndex) => {
+                const place = getPlace(stop.placeId);
+                return (
+                  <li key={stopIndex} className="relative">
+                    <span
+                      className={`absolute top-1.5 w-2 h-2 rounded-full bg-blue-500 ${isRTL ? '-right-[17px]' : '-left-[17px]'}`}
+                    />
+                    <div className="flex items-baseline gap-2">
+                      {stop.time && (
+                        <span className="text-xs font-medium text-blue-600 tabular-nums" dir="ltr">{stop.time}</span>
+                      )}
+                      <span className="text-gray-900">{stop.title}</span>
+                    </div>
+                    {place && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/place/${place.id}`);
+                        }}
+                        className="text-xs text-blue-500 hover:underline"
+                      >
+                        {getPlaceLabel(place, language)}
+                      </button>
+                    )}
+                    {stop.notes && (
+                      <p className="text-xs text-gray-500 whitespace-pre-wrap break-words">{stop.notes}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
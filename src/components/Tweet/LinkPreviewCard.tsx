@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useLinkPreview } from '../../hooks/useLinkPreview';
+
+interface LinkPreviewCardProps {
+  url: string;
+  compact?: boolean; // smaller type for mobile cards
+}
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Title, description and image of the link a post shares; nothing until the preview has a title
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, compact = false }) => {
+  const preview = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (!preview?.title) return null;
+
+  const showImage = !!preview.imageUrl && !imageFailed;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="block mb-3 border border-gray-200 rounded-2xl overflow-hidden hover:bg-gray-50 transition-colors"
+    >
+      {showImage && (
+        <img
+          src={preview.imageUrl!}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+          className={`w-full object-cover bg-gray-100 ${compact ? 'h-36' : 'h-52'}`}
+        />
+      )}
+      <div className={compact ? 'px-3 py-2' : 'px-4 py-3'}>
+        <p className="text-xs text-gray-500 truncate" dir="ltr">
+          {preview.siteName || getHostname(preview.resolvedUrl || preview.url)}
+        </p>
+        <p className={`font-medium text-gray-900 line-clamp-2 ${compact ? 'text-sm' : 'text-[15px]'}`} dir="auto">
+          {preview.title}
+        </p>
+        {preview.description && (
+          <p className="text-sm text-gray-500 line-clamp-2 mt-0.5" dir="auto">
+            {preview.description}
+          </p>
+        )}
+      </div>
+    </a>
+  );
+};
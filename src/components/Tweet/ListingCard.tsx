@@ -0,0 +1,100 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parse } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { BedDouble, CalendarRange, Car, Home, MapPin, MessageCircle } from 'lucide-react';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { LISTING_PERIOD_LABELS, VEHICLE_CLASS_LABELS } from '../../lib/listings';
+import { formatPrice } from '../../lib/prices';
+
+interface ListingCardProps {
+  tweet: Tweet;
+  currentUserId?: string;
+  compact?: boolean;
+}
+
+// A post's listing as a spec card: price up front, then location, size or class, availability and how to get in touch
+export const ListingCard: React.FC<ListingCardProps> = ({ tweet, currentUserId, compact = false }) => {
+  const { language } = useLanguageStore();
+  const navigate = useNavigate();
+  const listing = tweet.listing;
+  if (!listing) return null;
+
+  const locale = language === 'ar' ? arSA : enUS;
+  const KindIcon = listing.kind === 'car' ? Car : Home;
+  const availableFrom = listing.availableFrom ? parse(listing.availableFrom, 'yyyy-MM-dd', new Date()) : undefined;
+  const availableTo = listing.availableTo ? parse(listing.availableTo, 'yyyy-MM-dd', new Date()) : undefined;
+  const formatDay = (date: Date) => format(date, 'd MMM yyyy', { locale });
+  const canMessage = listing.contact === 'dm' && !!currentUserId && currentUserId !== tweet.author.id;
+
+  const specs: { icon: typeof Home; text: string }[] = [
+    { icon: MapPin, text: listing.location },
+  ];
+  if (listing.bedrooms !== undefined) {
+    specs.push({
+      icon: BedDouble,
+      text: listing.bedrooms === 0
+        ? (language === 'en' ? 'Studio' : 'استوديو')
+        : language === 'en'
+          ? `${listing.bedrooms} bedroom${listing.bedrooms === 1 ? '' : 's'}`
+          : `${listing.bedrooms} غرف نوم`,
+    });
+  }
+  if (listing.vehicleClass) {
+    specs.push({ icon: Car, text: VEHICLE_CLASS_LABELS[listing.vehicleClass][language] });
+  }
+  if (availableFrom || availableTo) {
+    specs.push({
+      icon: CalendarRange,
+      text: availableFrom && availableTo
+        ? `${formatDay(availableFrom)} – ${formatDay(availableTo)}`
+        : availableFrom
+          ? `${language === 'en' ? 'From' : 'من'} ${formatDay(availableFrom)}`
+          : `${language === 'en' ? 'Until' : 'حتى'} ${formatDay(availableTo!)}`,
+    });
+  }
+
+  // The conversation is opened (or created) by the messages page
+  const handleMessage = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/messages?to=${encodeURIComponent(tweet.author.id)}`);
+  };
+
+  return (
+    <div className={`mb-3 border border-gray-200 rounded-2xl px-3 py-2 ${compact ? 'text-sm' : 'text-[15px]'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-baseline gap-1 min-w-0">
+          <KindIcon className="h-4 w-4 text-blue-500 flex-shrink-0 self-center" />
+          <span className="font-bold text-gray-900">{formatPrice(listing.price, listing.currency, language)}</span>
+          <span className="text-xs text-gray-500">{LISTING_PERIOD_LABELS[listing.period][language]}</span>
+        </span>
+        {canMessage && (
+          <button
+            type="button"
+            onClick={handleMessage}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-blue-500 text-white text-xs font-medium hover:bg-blue-600 flex-shrink-0"
+          >
+            <MessageCircle className="h-3.5 w-3.5" />
+            {language === 'en' ? 'Message' : 'مراسلة'}
+          </button>
+        )}
+      </div>
+
+      <ul className={`mt-1 grid gap-x-4 gap-y-1 text-xs text-gray-600 ${compact ? 'grid-cols-1' : 'grid-cols-2'}`}>
+        {specs.map(({ icon: Icon, text }) => (
+          <li key={text} className="flex items-center gap-1 min-w-0">
+            <Icon className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+            <span className="truncate">{text}</span>
+          </li>
+        ))}
+      </ul>
+
+      {listing.contact === 'replies' && (
+        <p className="mt-1 text-xs text-gray-500">
+          {language === 'en' ? 'Ask in the replies' : 'اسأل في الردود'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React from 'react';
+import { Car, Home } from 'lucide-react';
+import { Button } from '../ui/button';
+import { ListingContact, ListingKind, VehicleClass } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import {
+  emptyListingDraft,
+  LISTING_LOCATION_MAX_LENGTH,
+  LISTING_MAX_BEDROOMS,
+  LISTING_PERIOD_LABELS,
+  LISTING_PERIODS,
+  LISTING_PRICE_MAX,
+  ListingDraft,
+  VEHICLE_CLASS_LABELS,
+  VEHICLE_CLASSES,
+} from '../../lib/listings';
+import { PRICE_CURRENCIES } from '../../lib/prices';
+
+interface ListingComposerProps {
+  listing: ListingDraft;
+  compact?: boolean;
+  onChange: (listing: ListingDraft) => void;
+  onRemove: () => void;
+}
+
+const KIND_OPTIONS: { kind: ListingKind; icon: typeof Home; label: { en: string; ar: string } }[] = [
+  { kind: 'property', icon: Home, label: { en: 'Property', ar: 'عقار' } },
+  { kind: 'car', icon: Car, label: { en: 'Car', ar: 'سيارة' } },
+];
+
+// Price, specs, availability and contact for a Real estate or Car Rental post
+export const ListingComposer: React.FC<ListingComposerProps> = ({ listing, compact = false, onChange, onRemove }) => {
+  const { language, isRTL } = useLanguageStore();
+  const inputClass = 'border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const windowReversed = !!listing.availableFrom && !!listing.availableTo && listing.availableTo < listing.availableFrom;
+
+  // Switching kind keeps what both kinds share and resets the rest
+  const handleKindChange = (kind: ListingKind) => {
+    if (kind === listing.kind) return;
+    onChange({
+      ...emptyListingDraft(kind),
+      price: listing.price,
+      currency: listing.currency,
+      location: listing.location,
+      availableFrom: listing.availableFrom,
+      availableTo: listing.availableTo,
+      contact: listing.contact,
+    });
+  };
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden" role="radiogroup">
+          {KIND_OPTIONS.map(({ kind, icon: Icon, label }) => (
+            <button
+              key={kind}
+              type="button"
+              role="radio"
+              aria-checked={listing.kind === kind}
+              onClick={() => handleKindChange(kind)}
+              className={`flex items-center gap-1 px-3 py-1 text-sm ${
+                listing.kind === kind ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              {label[language]}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove listing' : 'إزالة الإعلان'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {language === 'en' ? 'Price' : 'السعر'}
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={LISTING_PRICE_MAX}
+            step="any"
+            value={listing.price}
+            onChange={(e) => onChange({ ...listing, price: e.target.value })}
+            className={`${inputClass} w-28`}
+            dir="ltr"
+          />
+        </label>
+        <select
+          value={listing.currency}
+          onChange={(e) => onChange({ ...listing, currency: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Currency' : 'العملة'}
+        >
+          {PRICE_CURRENCIES.map(currency => (
+            <option key={currency} value={currency}>{currency}</option>
+          ))}
+        </select>
+        <select
+          value={listing.period}
+          onChange={(e) => onChange({ ...listing, period: e.target.value as ListingDraft['period'] })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Price period' : 'مدة السعر'}
+        >
+          {LISTING_PERIODS[listing.kind].map(period => (
+            <option key={period} value={period}>{LISTING_PERIOD_LABELS[period][language]}</option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        value={listing.location}
+        onChange={(e) => onChange({ ...listing, location: e.target.value })}
+        maxLength={LISTING_LOCATION_MAX_LENGTH}
+        placeholder={language === 'en' ? 'Location, e.g. Al Olaya, Riyadh' : 'الموقع، مثل العليا، الرياض'}
+        aria-label={language === 'en' ? 'Location' : 'الموقع'}
+        className={`w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          compact ? 'text-sm' : 'text-base'
+        } ${isRTL ? 'text-right' : 'text-left'}`}
+        dir={isRTL ? 'rtl' : 'ltr'}
+      />
+
+      {listing.kind === 'property' ? (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {language === 'en' ? 'Bedrooms (0 for a studio)' : 'غرف النوم (0 للاستوديو)'}
+          <input
+            type="number"
+            min={0}
+            max={LISTING_MAX_BEDROOMS}
+            step={1}
+            value={listing.bedrooms}
+            onChange={(e) => onChange({ ...listing, bedrooms: e.target.value })}
+            className={`${inputClass} w-20`}
+            dir="ltr"
+          />
+        </label>
+      ) : (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {language === 'en' ? 'Vehicle class' : 'فئة السيارة'}
+          <select
+            value={listing.vehicleClass}
+            onChange={(e) => onChange({ ...listing, vehicleClass: e.target.value as VehicleClass | '' })}
+            className={inputClass}
+          >
+            <option value="">{language === 'en' ? 'Any' : 'أي فئة'}</option>
+            {VEHICLE_CLASSES.map(vehicleClass => (
+              <option key={vehicleClass} value={vehicleClass}>{VEHICLE_CLASS_LABELS[vehicleClass][language]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span>{language === 'en' ? 'Available (optional)' : 'متاح (اختياري)'}</span>
+        <input
+          type="date"
+          value={listing.availableFrom}
+          onChange={(e) => onChange({ ...listing, availableFrom: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Available from' : 'متاح من'}
+        />
+        <span>{language === 'en' ? 'to' : 'إلى'}</span>
+        <input
+          type="date"
+          value={listing.availableTo}
+          min={listing.availableFrom || undefined}
+          onChange={(e) => onChange({ ...listing, availableTo: e.target.value })}
+          className={inputClass}
+          aria-label={language === 'en' ? 'Available until' : 'متاح حتى'}
+        />
+      </div>
+      {windowReversed && (
+        <p className="text-xs text-red-600">
+          {language === 'en' ? 'Availability ends before it starts' : 'فترة الإتاحة تنتهي قبل أن تبدأ'}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        {language === 'en' ? 'Contact' : 'التواصل'}
+        <select
+          value={listing.contact}
+          onChange={(e) => onChange({ ...listing, contact: e.target.value as ListingContact })}
+          className={inputClass}
+        >
+          <option value="dm">{language === 'en' ? 'Direct message' : 'رسالة خاصة'}</option>
+          <option value="replies">{language === 'en' ? 'Ask in the replies' : 'السؤال في الردود'}</option>
+        </select>
+      </label>
+    </div>
+  );
+};
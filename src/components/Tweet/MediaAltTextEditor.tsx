@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ChevronDown, EyeOff, Play } from 'lucide-react';
+import { LazyImage } from '../ui/LazyImage';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { MediaItem, MEDIA_ALT_TEXT_MAX_LENGTH } from '../../lib/tweetRepository';
+
+interface MediaAltTextEditorProps {
+  media: MediaItem[];
+  sensitive?: boolean;
+  compact?: boolean;
+  onMediaChange: (media: MediaItem[]) => void;
+  onSensitiveChange?: (sensitive: boolean) => void; // leave out to hide the sensitive-media checkbox
+}
+
+// Alt text for each attached item and, where it can be set, the sensitive-media flag, under a composer's media
+export const MediaAltTextEditor: React.FC<MediaAltTextEditorProps> = ({
+  media,
+  sensitive = false,
+  compact = false,
+  onMediaChange,
+  onSensitiveChange,
+}) => {
+  const { language, isRTL } = useLanguageStore();
+  const [open, setOpen] = useState(false);
+
+  if (media.length === 0) return null;
+
+  const described = media.filter(item => item.alt?.trim()).length;
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  const handleAltChange = (index: number, alt: string) => {
+    onMediaChange(media.map((item, i) => (i === index ? { ...item, alt } : item)));
+  };
+
+  return (
+    <div className={`mt-2 border border-gray-200 rounded-xl ${textSize}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 text-gray-700 hover:bg-gray-50 rounded-xl"
+        aria-expanded={open}
+      >
+        <span className="flex items-center gap-2">
+          <span className="px-1.5 py-0.5 rounded bg-gray-900 text-white text-[10px] font-bold">ALT</span>
+          {language === 'en' ? 'Describe your media' : 'صف الوسائط'}
+        </span>
+        <span className="flex items-center gap-1 text-gray-500">
+          {described}/{media.length}
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          <p className="text-gray-500 text-xs">
+            {language === 'en'
+              ? 'Descriptions are read out by screen readers and shown with the full-size picture.'
+              : 'تقرأ برامج قراءة الشاشة الأوصاف، وتظهر مع الصورة بحجمها الكامل.'}
+          </p>
+          {media.map((item, index) => (
+            <div key={item.url} className="flex items-start gap-2">
+              <div className="w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-gray-100 border border-gray-200">
+                {item.type === 'image' ? (
+                  <LazyImage src={item.url} alt="" className="w-full h-full" width={112} quality={60} />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-black/80">
+                    <Play className="w-4 h-4 text-white" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <textarea
+                  value={item.alt || ''}
+                  onChange={(e) => handleAltChange(index, e.target.value)}
+                  maxLength={MEDIA_ALT_TEXT_MAX_LENGTH}
+                  rows={2}
+                  placeholder={language === 'en'
+                    ? `Describe ${item.type === 'image' ? 'image' : 'video'} ${index + 1}`
+                    : `صف ${item.type === 'image' ? 'الصورة' : 'الفيديو'} ${index + 1}`}
+                  aria-label={language === 'en' ? `Alt text for media ${index + 1}` : `النص البديل للوسائط ${index + 1}`}
+                  className={`w-full border border-gray-300 rounded-lg px-2 py-1 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    isRTL ? 'text-right' : 'text-left'
+                  }`}
+                  dir="auto"
+                />
+                {(item.alt?.length || 0) > MEDIA_ALT_TEXT_MAX_LENGTH * 0.9 && (
+                  <p className="text-right text-[10px] text-gray-500">
+                    {item.alt!.length}/{MEDIA_ALT_TEXT_MAX_LENGTH}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {onSensitiveChange && (
+        <label className="flex items-center gap-2 px-3 py-2 border-t border-gray-200 text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={sensitive}
+            onChange={(e) => onSensitiveChange(e.target.checked)}
+            className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          <EyeOff className="h-4 w-4 text-gray-500" />
+          <span>
+            {language === 'en'
+              ? 'Mark media as sensitive (blurred until tapped)'
+              : 'تحديد الوسائط كحساسة (تظهر مموهة حتى يتم النقر عليها)'}
+          </span>
+        </label>
+      )}
+    </div>
+  );
+};
@@ -15,14 +15,18 @@ import {
   ChevronUp,
   CornerUpLeft,
   Pin,
-  PinOff
+  PinOff,
+  PenLine,
+  Luggage
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { LazyAvatar } from '../ui/LazyAvatar';
 import { LazyImage } from '../ui/LazyImage';
 import { PinnedIndicator } from '../ui/PinnedIndicator';
+import { OutboxStatus } from '../ui/OutboxStatus';
 import { VerifiedBadge } from '../ui/VerifiedBadge';
 import { TweetBadges } from '../ui/TweetBadges';
+import { PlaceChip } from './PlaceChip';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -32,12 +36,29 @@ import {
 import { Tweet } from '../../types';
 import { useNavigate } from 'react-router-dom';
 import { ReplyComposer } from './ReplyComposer';
+import { QuotedTweetCard } from './QuotedTweetCard';
+import { PollCard } from './PollCard';
+import { ItineraryCard } from './ItineraryCard';
+import { ReviewCard } from './ReviewCard';
+import { FlightDealCard } from './FlightDealCard';
+import { ListingCard } from './ListingCard';
+import { QuestionCard } from './QuestionCard';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { EditTweetModal } from './EditTweetModal';
+import { SaveToTripDialog } from '../Trips/SaveToTripDialog';
+import { EditHistoryModal } from './EditHistoryModal';
+import { SensitiveMediaGate } from './SensitiveMediaGate';
 import { useTweets } from '../../hooks/useTweets';
 import { useTweetViews } from '../../hooks/useTweetViews';
 import { useProfileSync } from '../../hooks/useProfileSync';
+import { useTweetEntity } from '../../hooks/useTweetEntity';
+import { useTweetOutbox } from '../../hooks/useOutbox';
 import { usePinnedTweets } from '../../hooks/usePinnedTweets';
 import { useLanguageStore } from '../../store/useLanguageStore';
-import { supabase } from '../../lib/supabase';
+import { useStore } from '../../store/useStore';
+import { fetchTweetById, getTweetMedia, canEditTweet, isThreadStart } from '../../lib/tweetRepository';
+import { truncatePostText } from '../../lib/textMetrics';
+import { getPreviewLink } from '../../lib/linkPreview';
 
 interface MobileTweetCardProps {
   tweet: Tweet;
@@ -78,19 +99,20 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
   const [originalTweet, setOriginalTweet] = useState<Tweet | null>(null);
   const [loadingOriginal, setLoadingOriginal] = useState(false);
   const [replyingToTweetId, setReplyingToTweetId] = useState<string | null>(null);
-  const [localTweet, setLocalTweet] = useState<Tweet>(tweet);
-  const { replies, fetchReplies, createRetweet, removeRetweet } = useTweets();
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showSaveToTrip, setShowSaveToTrip] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [contentExpanded, setContentExpanded] = useState(false);
+  const currentTweet = useTweetEntity(tweet);
+  const outboxEntries = useTweetOutbox(tweet.id);
+  const patchTweet = useStore(state => state.patchTweet);
+  const { replies, fetchReplies, createRetweet, removeRetweet, deleteTweet } = useTweets();
   const { observeTweet, unobserveTweet, recordView } = useTweetViews();
   const { pinToProfile, unpinFromProfile, pinToHome, unpinFromHome, checkIfUserIsAdmin, loading: pinLoading } = usePinnedTweets();
   const { language, isRTL } = useLanguageStore();
   const tweetRef = useRef<HTMLDivElement>(null);
   const [isAdmin, setIsAdmin] = useState(false);
 
-  // Sync local state with prop changes
-  useEffect(() => {
-    setLocalTweet(tweet);
-  }, [tweet]);
-
   // Check if current user is admin
   useEffect(() => {
     checkIfUserIsAdmin().then(setIsAdmin);
@@ -100,13 +122,13 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
   useEffect(() => {
     const element = tweetRef.current;
     if (element && !isReply) { // Only track views for main tweets, not replies
-      observeTweet(element, tweet.id);
+      observeTweet(element, currentTweet.id);
       
       return () => {
         unobserveTweet(element);
       };
     }
-  }, [tweet.id, isReply, observeTweet, unobserveTweet]);
+  }, [currentTweet.id, isReply, observeTweet, unobserveTweet]);
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -118,32 +140,37 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
     return num.toString();
   };
 
+  const handleEditClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowEditModal(true);
+  };
+
+  const handleEditedClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowEditHistory(true);
+  };
+
   const handleDelete = async () => {
-    // Mock delete functionality
-    // TODO: Implement actual delete functionality
+    try {
+      await deleteTweet(currentTweet.id);
+    } catch (error: any) {
+      console.error('Error deleting tweet:', error.message);
+    }
   };
 
   const handlePinToProfile = async (e: React.MouseEvent) => {
     e.stopPropagation();
     
-    if (localTweet.pinnedToProfile) {
-      const success = await unpinFromProfile(localTweet.id);
+    if (currentTweet.pinnedToProfile) {
+      const success = await unpinFromProfile(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToProfile: false,
-          pinnedAt: undefined
-        }));
+        patchTweet(currentTweet.id, { pinnedToProfile: false, pinnedAt: undefined });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     } else {
-      const success = await pinToProfile(localTweet.id);
+      const success = await pinToProfile(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToProfile: true,
-          pinnedAt: new Date()
-        }));
+        patchTweet(currentTweet.id, { pinnedToProfile: true, pinnedAt: new Date() });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     }
@@ -152,24 +179,16 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
   const handlePinToHome = async (e: React.MouseEvent) => {
     e.stopPropagation();
     
-    if (localTweet.pinnedToHome) {
-      const success = await unpinFromHome(localTweet.id);
+    if (currentTweet.pinnedToHome) {
+      const success = await unpinFromHome(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToHome: false,
-          pinnedAt: undefined
-        }));
+        patchTweet(currentTweet.id, { pinnedToHome: false, pinnedAt: undefined });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     } else {
-      const success = await pinToHome(localTweet.id);
+      const success = await pinToHome(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToHome: true,
-          pinnedAt: new Date()
-        }));
+        patchTweet(currentTweet.id, { pinnedToHome: true, pinnedAt: new Date() });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     }
@@ -177,116 +196,20 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
 
   const handleProfileClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    navigate(`/profile/${tweet.author.username}`);
+    navigate(`/profile/${currentTweet.author.username}`);
   };
 
   const handleRetweeterProfileClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (tweet.retweetedBy) {
-      navigate(`/profile/${tweet.retweetedBy.username}`);
+    if (currentTweet.retweetedBy) {
+      navigate(`/profile/${currentTweet.retweetedBy.username}`);
     }
   };
 
   const fetchOriginalTweet = async (replyToId: string) => {
     try {
       setLoadingOriginal(true);
-      
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
-        .eq('id', replyToId)
-        .single();
-
-      if (error) throw error;
-
-      // Get current user to check likes/retweets/bookmarks
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-      
-      if (user) {
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase
-            .from('likes')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id),
-          supabase
-            .from('retweets')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id),
-          supabase
-            .from('bookmarks')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
-      const profile = Array.isArray(data.profiles) ? data.profiles[0] : data.profiles;
-      
-      const formattedTweet: Tweet = {
-        id: data.id,
-        content: data.content,
-        author: {
-          id: profile.id,
-          username: profile.username,
-          displayName: profile.display_name,
-          avatar: profile.avatar_url || '',
-          bio: profile.bio,
-          verified: profile.verified,
-          followers: profile.followers_count,
-          following: profile.following_count,
-          country: profile.country,
-          joinedDate: new Date(profile.created_at),
-        },
-        createdAt: new Date(data.created_at),
-        likes: data.likes_count,
-        retweets: data.retweets_count,
-        replies: data.replies_count,
-        views: data.views_count,
-        images: data.image_urls,
-        isLiked: userLikes.includes(data.id),
-        isRetweeted: userRetweets.includes(data.id),
-        isBookmarked: userBookmarks.includes(data.id),
-        hashtags: data.hashtags,
-        mentions: data.mentions,
-        tags: data.tags || [],
-      };
-
-      setOriginalTweet(formattedTweet);
+      setOriginalTweet(await fetchTweetById(replyToId));
     } catch (error) {
       console.error('Error fetching original tweet:', error);
     } finally {
@@ -296,21 +219,21 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
 
   const handleReplyToClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (tweet.replyTo && !originalTweet && !loadingOriginal) {
-      await fetchOriginalTweet(tweet.replyTo);
+    if (currentTweet.replyTo && !originalTweet && !loadingOriginal) {
+      await fetchOriginalTweet(currentTweet.replyTo);
     }
   };
 
   const handleTweetClick = async () => {
     // Record view when user explicitly clicks on tweet
-    await recordView(tweet.id);
+    await recordView(currentTweet.id);
     // Navigate to tweet detail page instead of showing replies inline
-    navigate(`/tweet/${tweet.id}`);
+    navigate(`/tweet/${currentTweet.id}`);
   };
 
   const handleReplyClick = (e: React.MouseEvent, targetTweetId?: string) => {
     e.stopPropagation();
-    setReplyingToTweetId(targetTweetId || tweet.id);
+    setReplyingToTweetId(targetTweetId || currentTweet.id);
     setShowReplyComposer(!showReplyComposer);
   };
 
@@ -318,7 +241,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
     setShowReplyComposer(false);
     setReplyingToTweetId(null);
     // Refresh replies for the main tweet (not individual replies)
-    const mainTweetId = parentTweetId || tweet.id;
+    const mainTweetId = parentTweetId || currentTweet.id;
     await fetchReplies(mainTweetId);
     setShowReplies(true);
   };
@@ -326,16 +249,26 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
   const handleRetweetClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      if (tweet.isRetweeted) {
-        await removeRetweet(tweet.id);
+      if (currentTweet.isRetweeted) {
+        await removeRetweet(currentTweet.id);
       } else {
-        await createRetweet(tweet.id);
+        await createRetweet(currentTweet.id);
       }
     } catch (error: any) {
       console.error('Error toggling retweet:', error.message);
     }
   };
 
+  const handleQuoteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/compose?quote=${currentTweet.id}`);
+  };
+
+  const handleShowThreadClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/tweet/${currentTweet.id}`);
+  };
+
   const handleLikeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onLike();
@@ -350,13 +283,13 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
     e.stopPropagation();
     
     // Create the full URL for sharing
-    const tweetUrl = `${window.location.origin}/tweet/${tweet.id}`;
+    const tweetUrl = `${window.location.origin}/tweet/${currentTweet.id}`;
     
     // Use Web Share API if available (better for mobile)
     if (navigator.share) {
       navigator.share({
-        title: `Tweet by ${tweet.author.displayName}`,
-        text: tweet.content.substring(0, 100) + (tweet.content.length > 100 ? '...' : ''),
+        title: `Tweet by ${currentTweet.author.displayName}`,
+        text: currentTweet.content.substring(0, 100) + (currentTweet.content.length > 100 ? '...' : ''),
         url: tweetUrl
       }).catch(err => {
         console.error('Error sharing:', err);
@@ -403,17 +336,20 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
     setSelectedImageIndex(index);
   };
 
+  const getImageAlt = (url: string, index: number) =>
+    currentTweet.mediaAltText?.[url] || `Tweet image ${index + 1}`;
+
   const closeImageModal = () => {
     setSelectedImageIndex(null);
   };
 
   const navigateImage = (direction: 'prev' | 'next') => {
-    if (!tweet.images || selectedImageIndex === null) return;
+    if (!currentTweet.images || selectedImageIndex === null) return;
     
     if (direction === 'prev') {
-      setSelectedImageIndex(selectedImageIndex > 0 ? selectedImageIndex - 1 : tweet.images.length - 1);
+      setSelectedImageIndex(selectedImageIndex > 0 ? selectedImageIndex - 1 : currentTweet.images.length - 1);
     } else {
-      setSelectedImageIndex(selectedImageIndex < tweet.images.length - 1 ? selectedImageIndex + 1 : 0);
+      setSelectedImageIndex(selectedImageIndex < currentTweet.images.length - 1 ? selectedImageIndex + 1 : 0);
     }
   };
 
@@ -430,9 +366,9 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
         regex: /#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g, 
         type: 'hashtag' 
       },
-      // Mention pattern: @ followed by word characters, numbers, underscores
+      // Mention pattern: @ followed by word characters (including Arabic), numbers, underscores
       { 
-        regex: /@[a-zA-Z0-9_]+/g, 
+        regex: /@[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g, 
         type: 'mention' 
       },
       // URL pattern: http(s) URLs
@@ -535,17 +471,19 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
     return parts;
   };
 
-  const isOwnTweet = currentUserId === tweet.author.id;
-  const tweetReplies = replies[parentTweetId || tweet.id] || [];
-  const hasReplies = tweet.replies > 0 && !isReply;
+  const isOwnTweet = currentUserId === currentTweet.author.id;
+  const tweetReplies = replies[parentTweetId || currentTweet.id] || [];
+  const hasReplies = currentTweet.replies > 0 && !isReply;
 
-  // Truncate content if it exceeds 200 characters (for display purposes)
-  const displayContent = tweet.content.length > 200 
-    ? tweet.content.substring(0, 200) + '...' 
-    : tweet.content;
+  // Long posts start collapsed, cut between words rather than through a tag or link
+  const preview = truncatePostText(currentTweet.content);
+  const previewLink = getPreviewLink(currentTweet.content);
+  const displayContent = preview.truncated && !contentExpanded
+    ? `${preview.text}…`
+    : currentTweet.content;
 
   // Check if this tweet is replying to someone (has @mention at the start)
-  const isReplyToReply = isReply && tweet.content.startsWith('@');
+  const isReplyToReply = isReply && currentTweet.content.startsWith('@');
 
   return (
     <>
@@ -554,7 +492,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
         className={`w-full bg-white ${isReply ? 'ml-6 border-l-2 border-gray-200' : ''}`}
       >
         {/* Retweet indicator */}
-        {tweet.isRetweet && tweet.retweetedBy && (
+        {currentTweet.isRetweet && currentTweet.retweetedBy && (
           <div className="px-4 pt-3 pb-1">
             <div className="flex items-center space-x-2 text-gray-500 text-xs">
               <Repeat2 className="w-3 h-3" />
@@ -562,15 +500,15 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                 className="hover:underline cursor-pointer"
                 onClick={handleRetweeterProfileClick}
               >
-                <span className="font-medium">{tweet.retweetedBy.displayName}</span>
+                <span className="font-medium">{currentTweet.retweetedBy.displayName}</span>
                 {language === 'en' ? ' retweeted' : ' أعاد التغريد'}
               </span>
-              {tweet.retweetedBy.verified && (
+              {currentTweet.retweetedBy.verified && (
                 <VerifiedBadge size="md" />
               )}
               <span>·</span>
               <span>
-                {formatDistanceToNow(tweet.retweetedAt!, { 
+                {formatDistanceToNow(currentTweet.retweetedAt!, { 
                   addSuffix: true, 
                   locale: language === 'ar' ? arSA : enUS 
                 }).replace('about ', '')}
@@ -580,7 +518,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
         )}
 
         {/* Reply indicator */}
-        {tweet.replyTo && (
+        {currentTweet.replyTo && (
           <div className="px-4 pt-3 pb-1">
             <div className="flex items-center space-x-2 text-gray-500 text-xs">
               <CornerUpLeft className="w-3 h-3" />
@@ -602,8 +540,8 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
           <div className="flex gap-3 w-full">
             {/* Avatar */}
             <LazyAvatar
-              src={tweet.author.avatar}
-              fallback={tweet.author.displayName[0]}
+              src={currentTweet.author.avatar}
+              fallback={currentTweet.author.displayName[0]}
               className="w-10 h-10 flex-shrink-0 cursor-pointer"
               onClick={handleProfileClick}
               size={80}
@@ -619,22 +557,30 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                     className="font-bold text-gray-900 text-sm truncate cursor-pointer hover:underline"
                     onClick={handleProfileClick}
                   >
-                    {tweet.author.displayName}
+                    {currentTweet.author.displayName}
                   </span>
-                  {tweet.author.verified && <VerifiedBadge size="md" />}
+                  {currentTweet.author.verified && <VerifiedBadge size="md" />}
                   <span 
                     className="text-gray-500 text-sm truncate cursor-pointer hover:underline"
                     onClick={handleProfileClick}
                   >
-                    @{tweet.author.username}
+                    @{currentTweet.author.username}
                   </span>
                   <span className="text-gray-500 text-sm">·</span>
                   <span className="text-gray-500 text-sm flex-shrink-0">
-                    {formatDistanceToNow(tweet.createdAt, { 
+                    {formatDistanceToNow(currentTweet.createdAt, { 
                       addSuffix: true, 
                       locale: language === 'ar' ? arSA : enUS 
                     }).replace('about ', '')}
                   </span>
+                  {!!currentTweet.editCount && (
+                    <button
+                      className="text-gray-500 text-xs hover:underline flex-shrink-0"
+                      onClick={handleEditedClick}
+                    >
+                      · {language === 'en' ? 'Edited' : 'معدّل'}
+                    </button>
+                  )}
                 </div>
 
                 {/* More Options */}
@@ -658,6 +604,16 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                       avoidCollisions={true}
                       collisionPadding={8}
                     >
+                      {currentUserId && (
+                        <DropdownMenuItem
+                          onClick={(e) => { e.stopPropagation(); setShowSaveToTrip(true); }}
+                          className="hover:bg-gray-50"
+                        >
+                          <Luggage className="w-4 h-4 mr-2" />
+                          {language === 'en' ? 'Save to trip' : 'حفظ في رحلة'}
+                        </DropdownMenuItem>
+                      )}
+
                       {/* User's own tweet options */}
                       {isOwnTweet && (
                         <>
@@ -666,7 +622,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                             className="hover:bg-gray-50"
                             disabled={pinLoading}
                           >
-                            {localTweet.pinnedToProfile ? (
+                            {currentTweet.pinnedToProfile ? (
                               <>
                                 <PinOff className="w-4 h-4 mr-2" />
                                 {language === 'en' ? 'Unpin from profile' : 'إلغاء التثبيت من الملف الشخصي'}
@@ -678,6 +634,12 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                               </>
                             )}
                           </DropdownMenuItem>
+                          {canEditTweet(currentTweet, currentUserId) && (
+                            <DropdownMenuItem onClick={handleEditClick} className="hover:bg-gray-50">
+                              <PenLine className="w-4 h-4 mr-2" />
+                              {language === 'en' ? 'Edit Post' : 'تعديل المنشور'}
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem onClick={handleDelete} className="text-red-600 hover:bg-red-50">
                             {language === 'en' ? 'Delete Post' : 'حذف المنشور'}
                           </DropdownMenuItem>
@@ -691,7 +653,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                           className="hover:bg-blue-50 text-blue-600"
                           disabled={pinLoading}
                         >
-                          {localTweet.pinnedToHome ? (
+                          {currentTweet.pinnedToHome ? (
                             <>
                               <PinOff className="w-4 h-4 mr-2" />
                               {language === 'en' ? 'Unpin from home' : 'إلغاء التثبيت من الرئيسية'}
@@ -700,8 +662,8 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                             <>
                               <Pin className="w-4 h-4 mr-2" />
                               {language === 'en' ? 
-                                (localTweet.isRetweet ? 'Pin original to home' : 'Pin to home timeline') : 
-                                (localTweet.isRetweet ? 'تثبيت الأصلي في الرئيسية' : 'تثبيت في الخط الزمني الرئيسي')
+                                (currentTweet.isRetweet ? 'Pin original to home' : 'Pin to home timeline') : 
+                                (currentTweet.isRetweet ? 'تثبيت الأصلي في الرئيسية' : 'تثبيت في الخط الزمني الرئيسي')
                               }
                             </>
                           )}
@@ -715,7 +677,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                             View Profile
                           </DropdownMenuItem>
                           <DropdownMenuItem className="hover:bg-gray-50">
-                            Mute @{tweet.author.username}
+                            Mute @{currentTweet.author.username}
                           </DropdownMenuItem>
                           <DropdownMenuItem className="text-red-600 hover:bg-red-50">
                             Report post
@@ -728,12 +690,12 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
               </div>
 
               {/* Pinned Indicator */}
-              {(localTweet.pinnedToProfile || localTweet.pinnedToHome) && (
+              {(currentTweet.pinnedToProfile || currentTweet.pinnedToHome) && (
                 <div className="mb-2">
-                  {localTweet.pinnedToHome && (
+                  {currentTweet.pinnedToHome && (
                     <PinnedIndicator type="home" className="mb-1" />
                   )}
-                  {localTweet.pinnedToProfile && !localTweet.pinnedToHome && (
+                  {currentTweet.pinnedToProfile && !currentTweet.pinnedToHome && (
                     <PinnedIndicator type="profile" />
                   )}
                 </div>
@@ -742,28 +704,42 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
               {/* Tweet Text with Enhanced Link Parsing */}
               <div 
                 className="text-gray-900 mb-3 text-base leading-5 w-full break-words overflow-wrap-anywhere whitespace-pre-wrap"
-                dir={getTextDirection(tweet.content)}
-                style={{ textAlign: getTextDirection(tweet.content) === 'rtl' ? 'right' : 'left' }}
+                dir={getTextDirection(currentTweet.content)}
+                style={{ textAlign: getTextDirection(currentTweet.content) === 'rtl' ? 'right' : 'left' }}
               >
                 {parseTextWithLinks(displayContent)}
-                {tweet.content.length > 200 && (
-                  <span className="text-gray-500 text-sm italic"> (truncated)</span>
+                {preview.truncated && (
+                  <>
+                    {' '}
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setContentExpanded(prev => !prev);
+                      }}
+                      className="text-blue-500 hover:underline font-medium"
+                    >
+                      {contentExpanded
+                        ? (language === 'en' ? 'Show less' : 'عرض أقل')
+                        : (language === 'en' ? 'Show more' : 'عرض المزيد')}
+                    </button>
+                  </>
                 )}
               </div>
 
               {/* Tweet Badges */}
               <TweetBadges
-                tweetId={localTweet.id}
-                tags={localTweet.tags || []}
+                tweetId={currentTweet.id}
+                tags={currentTweet.tags || []}
                 isAdmin={isAdmin}
                 onTagsUpdate={(newTags) => {
-                  setLocalTweet(prev => ({
-                    ...prev,
-                    tags: newTags
-                  }));
+                  patchTweet(currentTweet.id, { tags: newTags });
                 }}
               />
 
+              {/* Place */}
+              <PlaceChip place={currentTweet.place} compact />
+
               {/* Original Tweet Preview (for replies) */}
               {originalTweet && (
                 <div className="mb-2 border border-gray-200 rounded-lg p-2 bg-gray-50 hover:bg-gray-100 transition-colors cursor-pointer"
@@ -808,66 +784,96 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                 </div>
               )}
 
+              {/* Poll */}
+              {currentTweet.poll && <PollCard tweet={currentTweet} currentUserId={currentUserId} compact />}
+
+              {/* Itinerary */}
+              {currentTweet.itinerary && <ItineraryCard tweet={currentTweet} currentUserId={currentUserId} compact />}
+
+              {/* Review */}
+              {currentTweet.review && <ReviewCard tweet={currentTweet} compact />}
+
+              {/* Flight deal */}
+              {currentTweet.flightDeal && <FlightDealCard tweet={currentTweet} compact />}
+
+              {/* Listing */}
+              {currentTweet.listing && <ListingCard tweet={currentTweet} currentUserId={currentUserId} compact />}
+
+              {/* Question and its accepted answer */}
+              {currentTweet.isQuestion && <QuestionCard tweet={currentTweet} compact />}
+
+              {/* Quoted Tweet */}
+              {currentTweet.quotedTweet && (
+                <QuotedTweetCard tweet={currentTweet.quotedTweet} currentUserId={currentUserId} compact />
+              )}
+
+              {/* Link preview, for posts with nothing else embedded */}
+              {previewLink && !currentTweet.poll && !currentTweet.quotedTweet && getTweetMedia(currentTweet).length === 0 && (
+                <LinkPreviewCard url={previewLink} compact />
+              )}
+
               {/* Images */}
-              {tweet.images && tweet.images.length > 0 && (
+              {currentTweet.images && currentTweet.images.length > 0 && (
                 <div className="mb-2 rounded-lg overflow-hidden w-full max-w-full">
-                  {tweet.images.length === 1 ? (
-                    // Single image - centered and fills container
-                    <div className="w-full aspect-[16/9] cursor-pointer" onClick={(e) => handleImageClick(0, e)}>
-                      <LazyImage 
-                        src={tweet.images[0]} 
-                        alt="Tweet image" 
-                        className="w-full h-full hover:opacity-95 transition-opacity"
-                        width={320}
-                        quality={75}
-                      />
-                    </div>
-                  ) : tweet.images.length === 2 ? (
-                    // Two images - side by side, centered and fills container
-                    <div className="grid grid-cols-2 gap-1">
-                      {tweet.images.map((image, index) => (
-                        <div 
-                          key={index} 
-                          className="aspect-[4/3] cursor-pointer"
-                          onClick={(e) => handleImageClick(index, e)}
-                        >
-                          <LazyImage 
-                            src={image} 
-                            alt={`Tweet image ${index + 1}`} 
-                            className="w-full h-full hover:opacity-95 transition-opacity"
-                            width={200}
-                            quality={75}
-                          />
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    // Three or more images - custom grid
-                    <div className="grid grid-cols-2 gap-1">
-                      {tweet.images.slice(0, 4).map((image, index) => (
-                        <div 
-                          key={index} 
-                          className={`cursor-pointer relative ${
-                            index === 0 && tweet.images!.length === 3 ? 'row-span-2' : 'aspect-[4/3]'
-                          }`}
-                          onClick={(e) => handleImageClick(index, e)}
-                        >
-                          <LazyImage 
-                            src={image} 
-                            alt={`Tweet image ${index + 1}`} 
-                            className="w-full h-full hover:opacity-95 transition-opacity"
-                            width={200}
-                            quality={75}
-                          />
-                          {index === 3 && tweet.images!.length > 4 && (
-                            <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
-                              <span className="text-white font-bold text-sm">+{tweet.images!.length - 4}</span>
-                            </div>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                  <SensitiveMediaGate sensitive={currentTweet.sensitiveMedia} currentUserId={currentUserId}>
+                    {currentTweet.images.length === 1 ? (
+                      // Single image - centered and fills container
+                      <div className="w-full aspect-[16/9] cursor-pointer" onClick={(e) => handleImageClick(0, e)}>
+                        <LazyImage 
+                          src={currentTweet.images[0]} 
+                          alt={getImageAlt(currentTweet.images[0], 0)}
+                          className="w-full h-full hover:opacity-95 transition-opacity"
+                          width={320}
+                          quality={75}
+                        />
+                      </div>
+                    ) : currentTweet.images.length === 2 ? (
+                      // Two images - side by side, centered and fills container
+                      <div className="grid grid-cols-2 gap-1">
+                        {currentTweet.images.map((image, index) => (
+                          <div 
+                            key={index} 
+                            className="aspect-[4/3] cursor-pointer"
+                            onClick={(e) => handleImageClick(index, e)}
+                          >
+                            <LazyImage 
+                              src={image} 
+                              alt={getImageAlt(image, index)}
+                              className="w-full h-full hover:opacity-95 transition-opacity"
+                              width={200}
+                              quality={75}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      // Three or more images - custom grid
+                      <div className="grid grid-cols-2 gap-1">
+                        {currentTweet.images.slice(0, 4).map((image, index) => (
+                          <div 
+                            key={index} 
+                            className={`cursor-pointer relative ${
+                              index === 0 && currentTweet.images!.length === 3 ? 'row-span-2' : 'aspect-[4/3]'
+                            }`}
+                            onClick={(e) => handleImageClick(index, e)}
+                          >
+                            <LazyImage 
+                              src={image} 
+                              alt={getImageAlt(image, index)}
+                              className="w-full h-full hover:opacity-95 transition-opacity"
+                              width={200}
+                              quality={75}
+                            />
+                            {index === 3 && currentTweet.images!.length > 4 && (
+                              <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                                <span className="text-white font-bold text-sm">+{currentTweet.images!.length - 4}</span>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </SensitiveMediaGate>
                 </div>
               )}
 
@@ -881,37 +887,60 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                   onClick={(e) => handleReplyClick(e)}
                 >
                   <MessageCircle className="w-3 h-3" />
-                  <span className="text-xs ml-1">{formatNumber(tweet.replies)}</span>
+                  <span className="text-xs ml-1">{formatNumber(currentTweet.replies)}</span>
                 </Button>
 
-                {/* Retweet */}
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  className={`p-1 h-6 flex items-center flex-shrink-0 ${
-                    tweet.isRetweeted 
-                      ? 'text-green-500' 
-                      : 'text-gray-500'
-                  }`}
-                  onClick={handleRetweetClick}
-                >
-                  <Repeat2 className="w-3 h-3" />
-                  <span className="text-xs ml-1">{formatNumber(tweet.retweets)}</span>
-                </Button>
+                {/* Retweet & Quote */}
+                <DropdownMenu modal={false}>
+                  <DropdownMenuTrigger asChild>
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      className={`p-1 h-6 flex items-center flex-shrink-0 ${
+                        currentTweet.isRetweeted 
+                          ? 'text-green-500' 
+                          : 'text-gray-500'
+                      }`}
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Repeat2 className="w-3 h-3" />
+                      <span className="text-xs ml-1">{formatNumber(currentTweet.retweets)}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent 
+                    align="start" 
+                    side="top"
+                    className="w-40 z-50"
+                    sideOffset={4}
+                    avoidCollisions={true}
+                    collisionPadding={8}
+                  >
+                    <DropdownMenuItem onClick={handleRetweetClick} className="hover:bg-gray-50">
+                      <Repeat2 className="w-4 h-4 mr-2" />
+                      {currentTweet.isRetweeted
+                        ? (language === 'en' ? 'Undo Retweet' : 'تراجع عن إعادة التغريد')
+                        : (language === 'en' ? 'Retweet' : 'إعادة تغريد')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleQuoteClick} className="hover:bg-gray-50">
+                      <PenLine className="w-4 h-4 mr-2" />
+                      {language === 'en' ? 'Quote' : 'اقتباس'}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
 
                 {/* Like */}
                 <Button 
                   variant="ghost" 
                   size="sm" 
                   className={`p-1 h-6 flex items-center flex-shrink-0 ${
-                    tweet.isLiked 
+                    currentTweet.isLiked 
                       ? 'text-red-500' 
                       : 'text-gray-500'
                   }`}
                   onClick={handleLikeClick}
                 >
-                  <Heart className={`w-3 h-3 ${tweet.isLiked ? 'fill-current' : ''}`} />
-                  <span className="text-xs ml-1">{formatNumber(tweet.likes)}</span>
+                  <Heart className={`w-3 h-3 ${currentTweet.isLiked ? 'fill-current' : ''}`} />
+                  <span className="text-xs ml-1">{formatNumber(currentTweet.likes)}</span>
                 </Button>
 
                 {/* Views */}
@@ -922,7 +951,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                   onClick={handleViewsClick}
                 >
                   <Eye className="w-3 h-3" />
-                  <span className="text-xs ml-1">{formatNumber(tweet.views)}</span>
+                  <span className="text-xs ml-1">{formatNumber(currentTweet.views)}</span>
                 </Button>
 
                 {/* Share */}
@@ -949,11 +978,24 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                       Copy link to post
                     </DropdownMenuItem>
                     <DropdownMenuItem onClick={handleBookmarkClick} className="hover:bg-gray-50">
-                      {tweet.isBookmarked ? 'Remove bookmark' : 'Bookmark'}
+                      {currentTweet.isBookmarked ? 'Remove bookmark' : 'Bookmark'}
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
+
+              {/* Likes and bookmarks still queued in the offline outbox */}
+              <OutboxStatus entries={outboxEntries} className="mt-1" />
+
+              {/* First post of a thread; the rest are self-replies that feeds leave out */}
+              {isThreadStart(currentTweet) && !isReply && (
+                <button
+                  className="mt-1 text-xs text-blue-500 hover:underline"
+                  onClick={handleShowThreadClick}
+                >
+                  {language === 'en' ? 'Show this thread' : 'عرض هذه السلسلة'}
+                </button>
+              )}
               </div>
             </div>
           </div>
@@ -961,13 +1003,13 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
           {/* Reply Composer */}
           {showReplyComposer && (
             <ReplyComposer
-              tweet={replyingToTweetId === tweet.id ? tweet : { ...tweet, id: replyingToTweetId! }}
+              tweet={replyingToTweetId === currentTweet.id ? currentTweet : { ...currentTweet, id: replyingToTweetId! }}
               onCancel={() => {
                 setShowReplyComposer(false);
                 setReplyingToTweetId(null);
               }}
               onReplySuccess={handleReplySuccess}
-              replyingToReply={isReply && replyingToTweetId !== tweet.id}
+              replyingToReply={isReply && replyingToTweetId !== currentTweet.id}
             />
           )}
 
@@ -983,7 +1025,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
                 onBookmark={() => {}} // TODO: Implement reply bookmark
                 currentUserId={currentUserId}
                 isReply={true}
-                parentTweetId={tweet.id}
+                parentTweetId={currentTweet.id}
               />
             ))}
           </div>
@@ -991,7 +1033,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
       </div>
 
       {/* Image Modal */}
-      {selectedImageIndex !== null && tweet.images && (
+      {selectedImageIndex !== null && currentTweet.images && (
         <div className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center">
           <div className="relative max-w-full max-h-full w-full h-full flex items-center justify-center p-4">
             {/* Close button */}
@@ -1005,7 +1047,7 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
             </Button>
 
             {/* Navigation buttons */}
-            {tweet.images.length > 1 && (
+            {currentTweet.images.length > 1 && (
               <>
                 <Button
                   variant="ghost"
@@ -1028,21 +1070,47 @@ export const MobileTweetCard: React.FC<MobileTweetCardProps> = ({
 
             {/* Image */}
             <img
-              src={tweet.images[selectedImageIndex]}
-              alt={`Tweet image ${selectedImageIndex + 1}`}
+              src={currentTweet.images[selectedImageIndex]}
+              alt={getImageAlt(currentTweet.images[selectedImageIndex], selectedImageIndex)}
               className="max-w-full max-h-full object-contain object-center"
               loading="eager" // Force immediate loading for modal view
             />
 
+            {/* The author's description, for everyone who can't make out the picture */}
+            {currentTweet.mediaAltText?.[currentTweet.images[selectedImageIndex]] && (
+              <p
+                className={`absolute left-4 right-4 ${currentTweet.images.length > 1 ? 'bottom-14' : 'bottom-4'} max-h-32 overflow-y-auto bg-black/70 text-white text-sm px-4 py-2 rounded-lg whitespace-pre-wrap`}
+                dir="auto"
+              >
+                {currentTweet.mediaAltText[currentTweet.images[selectedImageIndex]]}
+              </p>
+            )}
+
             {/* Image counter */}
-            {tweet.images.length > 1 && (
+            {currentTweet.images.length > 1 && (
               <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
-                {selectedImageIndex + 1} / {tweet.images.length}
+                {selectedImageIndex + 1} / {currentTweet.images.length}
               </div>
             )}
           </div>
         </div>
       )}
+
+      {/* Edit & Edit History */}
+      {showEditModal && (
+        <EditTweetModal tweet={currentTweet} isOpen={showEditModal} onClose={() => setShowEditModal(false)} />
+      )}
+      {showEditHistory && (
+        <EditHistoryModal tweet={currentTweet} isOpen={showEditHistory} onClose={() => setShowEditHistory(false)} />
+      )}
+      {showSaveToTrip && currentUserId && (
+        <SaveToTripDialog
+          tweet={currentTweet}
+          userId={currentUserId}
+          isOpen={showSaveToTrip}
+          onClose={() => setShowSaveToTrip(false)}
+        />
+      )}
     </>
   );
 };
\ No newline at end of file
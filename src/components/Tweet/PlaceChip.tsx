@@ -0,0 +1,46 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Building2, Landmark, MapPin, Plane } from 'lucide-react';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { PlaceType, TweetPlace } from '../../types';
+import { getPlace, getPlaceLabel } from '../../lib/gazetteer';
+
+export const PLACE_TYPE_ICONS: Record<PlaceType, React.ElementType> = {
+  city: MapPin,
+  landmark: Landmark,
+  hotel: Building2,
+  airport: Plane,
+};
+
+interface PlaceChipProps {
+  place?: TweetPlace;
+  compact?: boolean;
+}
+
+// The place a post was tagged with, linking to every post there
+export const PlaceChip: React.FC<PlaceChipProps> = ({ place, compact = false }) => {
+  const navigate = useNavigate();
+  const { language } = useLanguageStore();
+
+  // Places dropped from the gazetteer keep their coordinates but have no page to link to
+  const entry = getPlace(place?.id);
+  if (!entry) return null;
+
+  const Icon = PLACE_TYPE_ICONS[entry.type];
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        navigate(`/place/${entry.id}`);
+      }}
+      className={`mb-2 inline-flex max-w-full items-center gap-1 rounded-full bg-gray-100 text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors ${
+        compact ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm'
+      }`}
+    >
+      <Icon className={`flex-shrink-0 ${compact ? 'h-3 w-3' : 'h-4 w-4'}`} />
+      <span className="truncate">{getPlaceLabel(entry, language)}</span>
+    </button>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { MapPin, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { Place } from '../../types';
+import { getPlaceLabel, PLACE_TYPE_LABELS, searchPlaces } from '../../lib/gazetteer';
+import { PLACE_TYPE_ICONS } from './PlaceChip';
+
+interface PlacePickerProps {
+  place: Place | null;
+  compact?: boolean;
+  onChange: (place: Place | null) => void;
+  onClose: () => void;
+}
+
+// Search the bundled gazetteer for a place to tag the post with
+export const PlacePicker: React.FC<PlacePickerProps> = ({ place, compact = false, onChange, onClose }) => {
+  const { language, isRTL } = useLanguageStore();
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchPlaces(query), [query]);
+  const textSize = compact ? 'text-sm' : 'text-base';
+
+  const handleRemove = () => {
+    onChange(null);
+    onClose();
+  };
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 text-sm flex items-center gap-1">
+          <MapPin className="h-4 w-4" />
+          {language === 'en' ? 'Location' : 'الموقع'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove location' : 'إزالة الموقع'}
+        </Button>
+      </div>
+
+      {place ? (
+        <div className={`flex items-center justify-between gap-2 rounded-lg bg-blue-50 text-blue-700 px-3 py-2 ${textSize}`}>
+          <span className="flex items-center gap-2 min-w-0">
+            {React.createElement(PLACE_TYPE_ICONS[place.type], { className: 'h-4 w-4 flex-shrink-0' })}
+            <span className="truncate">{getPlaceLabel(place, language)}</span>
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="p-1 rounded-full hover:bg-blue-100"
+            aria-label={language === 'en' ? 'Change location' : 'تغيير الموقع'}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={language === 'en'
+              ? 'Search cities, landmarks, hotels and airports'
+              : 'ابحث عن مدن ومعالم وفنادق ومطارات'}
+            className={`w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${textSize} ${
+              isRTL ? 'text-right' : 'text-left'
+            }`}
+            dir={isRTL ? 'rtl' : 'ltr'}
+            autoFocus
+          />
+
+          {query.trim() && (
+            results.length > 0 ? (
+              <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+                {results.map(result => (
+                  <li key={result.id}>
+                    <button
+                      type="button"
+                      onClick={() => onChange(result)}
+                      className={`w-full flex items-center gap-3 px-2 py-2 hover:bg-gray-50 rounded-lg ${
+                        isRTL ? 'text-right' : 'text-left'
+                      }`}
+                    >
+                      {React.createElement(PLACE_TYPE_ICONS[result.type], { className: 'h-4 w-4 text-gray-500 flex-shrink-0' })}
+                      <span className="flex-1 min-w-0">
+                        <span className={`block truncate text-gray-900 ${textSize}`}>
+                          {getPlaceLabel(result, language)}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {PLACE_TYPE_LABELS[result.type][language]}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 px-2">
+                {language === 'en' ? 'No places found' : 'لم يتم العثور على أماكن'}
+              </p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+};
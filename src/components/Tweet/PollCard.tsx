@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { CheckCircle2 } from 'lucide-react';
+import { Tweet } from '../../types';
+import { usePoll } from '../../hooks/usePoll';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getPollTotalVotes, isPollClosed } from '../../lib/tweetRepository';
+
+interface PollCardProps {
+  tweet: Tweet;
+  currentUserId?: string;
+  compact?: boolean;
+}
+
+// setTimeout takes a signed 32-bit delay
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// A tweet's poll: choices to vote on, or results once the viewer voted or it closed
+export const PollCard: React.FC<PollCardProps> = ({ tweet, currentUserId, compact = false }) => {
+  const { language, isRTL } = useLanguageStore();
+  const { poll, vote, voting, error } = usePoll(tweet, currentUserId);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Flip to final results when the poll closes while it's on screen
+  useEffect(() => {
+    if (!poll) return;
+    const remaining = poll.endsAt.getTime() - Date.now();
+    if (remaining <= 0) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(remaining + 1000, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [poll?.endsAt.getTime()]);
+
+  if (!poll) return null;
+
+  const closed = isPollClosed(poll, now);
+  const isAuthor = currentUserId === tweet.author.id;
+  const showResults = closed || !!poll.viewerVote || !currentUserId || isAuthor;
+  const totalVotes = getPollTotalVotes(poll);
+  const leadingVotes = Math.max(...poll.options.map(option => option.votes));
+  const textSize = compact ? 'text-sm' : 'text-[15px]';
+
+  const handleVote = (e: React.MouseEvent, optionId: string) => {
+    e.stopPropagation();
+    vote(optionId);
+  };
+
+  const timeLeft = formatDistanceToNow(poll.endsAt, { locale: language === 'ar' ? arSA : enUS });
+
+  return (
+    <div className="mb-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+      {poll.options.map(option => {
+        if (!showResults) {
+          return (
+            <button
+              key={option.id}
+              onClick={(e) => handleVote(e, option.id)}
+              disabled={voting}
+              className={`w-full border border-blue-500 text-blue-500 font-bold rounded-full hover:bg-blue-50 transition-colors disabled:opacity-50 ${textSize} ${
+                compact ? 'py-1.5 px-3' : 'py-2 px-4'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        }
+
+        const percent = totalVotes > 0 ? Math.round((option.votes / totalVotes) * 100) : 0;
+        const isLeading = closed && totalVotes > 0 && option.votes === leadingVotes;
+        const isViewerChoice = poll.viewerVote === option.id;
+
+        return (
+          <div key={option.id} className={`relative rounded-md overflow-hidden ${compact ? 'h-8' : 'h-9'}`}>
+            <div
+              className={`absolute inset-y-0 ${isRTL ? 'right-0' : 'left-0'} rounded-md transition-all duration-500 ${
+                isLeading ? 'bg-blue-200' : 'bg-gray-200'
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+            <div className={`relative h-full flex items-center justify-between px-3 ${textSize}`}>
+              <span className={`flex items-center gap-1 truncate ${isLeading ? 'font-bold text-gray-900' : 'text-gray-800'}`}>
+                {option.label}
+                {isViewerChoice && <CheckCircle2 className="w-4 h-4 text-blue-500 flex-shrink-0" />}
+              </span>
+              <span className={isLeading ? 'font-bold text-gray-900' : 'text-gray-700'}>{percent}%</span>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className={`text-gray-500 ${compact ? 'text-xs' : 'text-sm'}`}>
+        {language === 'en'
+          ? `${totalVotes.toLocaleString()} vote${totalVotes === 1 ? '' : 's'}`
+          : `${totalVotes.toLocaleString()} صوت`}
+        {' · '}
+        {closed
+          ? (language === 'en' ? 'Final results' : 'النتائج النهائية')
+          : (language === 'en' ? `${timeLeft} left` : `متبقي ${timeLeft}`)}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
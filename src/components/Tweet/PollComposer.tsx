@@ -0,0 +1,122 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import {
+  PollDraft,
+  POLL_DURATION_MINUTES,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+} from '../../lib/tweetRepository';
+
+interface PollComposerProps {
+  poll: PollDraft;
+  compact?: boolean;
+  onChange: (poll: PollDraft) => void;
+  onRemove: () => void;
+}
+
+// Choices and duration for a poll being attached to a new post
+export const PollComposer: React.FC<PollComposerProps> = ({ poll, compact = false, onChange, onRemove }) => {
+  const { language, isRTL } = useLanguageStore();
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 24 * 60) {
+      const hours = minutes / 60;
+      return language === 'en' ? `${hours} hour${hours === 1 ? '' : 's'}` : `${hours} ساعة`;
+    }
+    const days = minutes / (24 * 60);
+    return language === 'en' ? `${days} day${days === 1 ? '' : 's'}` : `${days} يوم`;
+  };
+
+  const updateOption = (index: number, value: string) => {
+    onChange({ ...poll, options: poll.options.map((option, i) => (i === index ? value : option)) });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...poll, options: poll.options.filter((_, i) => i !== index) });
+  };
+
+  const addOption = () => {
+    if (poll.options.length >= POLL_MAX_OPTIONS) return;
+    onChange({ ...poll, options: [...poll.options, ''] });
+  };
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 text-sm">
+          {language === 'en' ? 'Poll' : 'استطلاع'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove poll' : 'إزالة الاستطلاع'}
+        </Button>
+      </div>
+
+      {poll.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <input
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+              maxLength={POLL_OPTION_MAX_LENGTH}
+              placeholder={language === 'en'
+                ? `Choice ${index + 1}${index >= POLL_MIN_OPTIONS ? ' (optional)' : ''}`
+                : `الخيار ${index + 1}${index >= POLL_MIN_OPTIONS ? ' (اختياري)' : ''}`}
+              className={`w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                compact ? 'text-sm' : 'text-base'
+              } ${isRTL ? 'text-right pl-12' : 'text-left pr-12'}`}
+              dir={isRTL ? 'rtl' : 'ltr'}
+            />
+            <span className={`absolute top-1/2 -translate-y-1/2 text-xs text-gray-400 ${isRTL ? 'left-3' : 'right-3'}`}>
+              {option.length}/{POLL_OPTION_MAX_LENGTH}
+            </span>
+          </div>
+          {index >= POLL_MIN_OPTIONS && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeOption(index)}
+              className="h-8 w-8 p-0 rounded-full hover:bg-gray-100"
+              aria-label={language === 'en' ? 'Remove choice' : 'إزالة الخيار'}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-1">
+        {poll.options.length < POLL_MAX_OPTIONS ? (
+          <Button variant="ghost" size="sm" onClick={addOption} className="text-blue-500 hover:bg-blue-50 px-2">
+            <Plus className="h-4 w-4 mr-1" />
+            {language === 'en' ? 'Add choice' : 'إضافة خيار'}
+          </Button>
+        ) : (
+          <span />
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {language === 'en' ? 'Poll length' : 'مدة الاستطلاع'}
+          <select
+            value={poll.durationMinutes}
+            onChange={(e) => onChange({ ...poll, durationMinutes: Number(e.target.value) })}
+            className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {POLL_DURATION_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {formatDuration(minutes)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
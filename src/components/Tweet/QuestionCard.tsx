@@ -0,0 +1,92 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CheckCircle2, HelpCircle } from 'lucide-react';
+import { LazyAvatar } from '../ui/LazyAvatar';
+import { VerifiedBadge } from '../ui/VerifiedBadge';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+
+interface QuestionCardProps {
+  tweet: Tweet;
+  compact?: boolean;
+  showAnswer?: boolean; // the detail page pins the answer above the replies instead
+}
+
+// Function to detect if text contains Arabic characters
+const isArabicText = (text: string): boolean => {
+  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+  return arabicRegex.test(text);
+};
+
+// Marks a question post and, once one is accepted, previews its answer under it
+export const QuestionCard: React.FC<QuestionCardProps> = ({ tweet, compact = false, showAnswer = true }) => {
+  const { language } = useLanguageStore();
+  const navigate = useNavigate();
+  if (!tweet.isQuestion) return null;
+
+  const answer = tweet.acceptedAnswer;
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  const handleAnswerClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (answer) navigate(`/tweet/${answer.id}`);
+  };
+
+  if (!tweet.acceptedAnswerId) {
+    return (
+      <div className="mb-3">
+        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-orange-50 text-orange-700 font-medium ${textSize}`}>
+          <HelpCircle className="h-3.5 w-3.5" />
+          {language === 'en' ? 'Unanswered question' : 'سؤال بلا إجابة'}
+        </span>
+      </div>
+    );
+  }
+
+  if (!showAnswer || !answer) {
+    return (
+      <div className="mb-3">
+        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-50 text-green-700 font-medium ${textSize}`}>
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          {language === 'en' ? 'Answered' : 'تمت الإجابة'}
+        </span>
+      </div>
+    );
+  }
+
+  const direction = isArabicText(answer.content) ? 'rtl' : 'ltr';
+
+  return (
+    <div
+      className={`mb-3 border border-green-200 rounded-xl hover:bg-green-50/50 cursor-pointer transition-colors ${compact ? 'p-2' : 'p-3'}`}
+      onClick={handleAnswerClick}
+    >
+      <div className={`flex items-center gap-1 mb-1 text-green-700 font-medium ${textSize}`}>
+        <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0" />
+        {language === 'en' ? 'Accepted answer' : 'الإجابة المعتمدة'}
+      </div>
+      <div className="flex items-center space-x-1 mb-1 min-w-0">
+        <LazyAvatar
+          src={answer.author.avatar}
+          fallback={answer.author.displayName[0]}
+          className={`${compact ? 'w-4 h-4' : 'w-5 h-5'} flex-shrink-0`}
+          size={40}
+        />
+        <span className={`font-bold text-gray-900 ${textSize} truncate`}>
+          {answer.author.displayName}
+        </span>
+        {answer.author.verified && <VerifiedBadge size={compact ? 'sm' : 'md'} />}
+        <span className={`text-gray-500 ${textSize} truncate`}>
+          @{answer.author.username}
+        </span>
+      </div>
+      <p
+        className={`text-gray-900 ${textSize} ${compact ? 'line-clamp-3' : 'line-clamp-4'} whitespace-pre-wrap break-words`}
+        dir={direction}
+        style={{ textAlign: direction === 'rtl' ? 'right' : 'left' }}
+      >
+        {answer.content}
+      </p>
+    </div>
+  );
+};
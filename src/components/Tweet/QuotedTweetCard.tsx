@@ -0,0 +1,127 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { Play } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { LazyAvatar } from '../ui/LazyAvatar';
+import { LazyImage } from '../ui/LazyImage';
+import { VerifiedBadge } from '../ui/VerifiedBadge';
+import { Tweet } from '../../types';
+import { useTweetEntity } from '../../hooks/useTweetEntity';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { useStore } from '../../store/useStore';
+import { getTweetMedia } from '../../lib/tweetRepository';
+import { SensitiveMediaGate } from './SensitiveMediaGate';
+
+interface QuotedTweetCardProps {
+  tweet: Tweet;
+  compact?: boolean; // smaller type for mobile cards
+  linkable?: boolean; // set to false in the composer, where the card is only a preview
+  currentUserId?: string;
+  className?: string;
+}
+
+// Function to detect if text contains Arabic characters
+const isArabicText = (text: string): boolean => {
+  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+  return arabicRegex.test(text);
+};
+
+// A quoted tweet embedded inside a quote: author, text and the first piece of media
+export const QuotedTweetCard: React.FC<QuotedTweetCardProps> = ({
+  tweet,
+  compact = false,
+  linkable = true,
+  currentUserId,
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const { language } = useLanguageStore();
+  const quoted = useTweetEntity(tweet);
+  const removed = useStore(state => !!state.removedTweetIds[tweet.id]);
+
+  if (removed) {
+    return (
+      <div className={`mb-2 border border-gray-200 rounded-xl p-3 text-sm text-gray-500 bg-gray-50 ${className}`}>
+        {language === 'en' ? 'This post is unavailable.' : 'هذا المنشور غير متاح.'}
+      </div>
+    );
+  }
+
+  const [firstMedia] = getTweetMedia(quoted);
+  const direction = isArabicText(quoted.content) ? 'rtl' : 'ltr';
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (linkable) navigate(`/tweet/${quoted.id}`);
+  };
+
+  return (
+    <div
+      className={`mb-2 border border-gray-200 rounded-xl overflow-hidden transition-colors ${
+        linkable ? 'hover:bg-gray-50 cursor-pointer' : ''
+      } ${className}`}
+      onClick={handleClick}
+    >
+      <div className={compact ? 'p-2' : 'p-3'}>
+        <div className="flex items-center space-x-1 mb-1 min-w-0">
+          <LazyAvatar
+            src={quoted.author.avatar}
+            fallback={quoted.author.displayName[0]}
+            className={`${compact ? 'w-4 h-4' : 'w-5 h-5'} flex-shrink-0`}
+            size={40}
+          />
+          <span className={`font-bold text-gray-900 ${textSize} truncate`}>
+            {quoted.author.displayName}
+          </span>
+          {quoted.author.verified && <VerifiedBadge size={compact ? 'sm' : 'md'} />}
+          <span className={`text-gray-500 ${textSize} truncate`}>
+            @{quoted.author.username}
+          </span>
+          <span className={`text-gray-500 ${textSize}`}>·</span>
+          <span className={`text-gray-500 ${textSize} flex-shrink-0`}>
+            {formatDistanceToNow(quoted.createdAt, {
+              addSuffix: true,
+              locale: language === 'ar' ? arSA : enUS
+            })}
+          </span>
+        </div>
+        {quoted.content && (
+          <p
+            className={`text-gray-900 ${textSize} ${compact ? 'line-clamp-3' : 'line-clamp-4'} whitespace-pre-wrap break-words`}
+            dir={direction}
+            style={{ textAlign: direction === 'rtl' ? 'right' : 'left' }}
+          >
+            {quoted.content}
+          </p>
+        )}
+      </div>
+
+      {firstMedia && (
+        <SensitiveMediaGate sensitive={quoted.sensitiveMedia} currentUserId={currentUserId} compact>
+          <div className="relative w-full aspect-[16/9] bg-gray-100">
+            {firstMedia.type === 'image' ? (
+              <LazyImage
+                src={firstMedia.url}
+                alt={firstMedia.alt || 'Quoted tweet image'}
+                className="w-full h-full"
+                width={compact ? 320 : 480}
+                quality={75}
+              />
+            ) : (
+              <>
+                <video src={firstMedia.url} className="w-full h-full object-cover" muted preload="metadata" aria-label={firstMedia.alt} />
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-10 h-10 bg-black/60 rounded-full flex items-center justify-center">
+                    <Play className="w-5 h-5 text-white" />
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </SensitiveMediaGate>
+      )}
+    </div>
+  );
+};
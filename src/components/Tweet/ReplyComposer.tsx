@@ -7,6 +7,11 @@ import { useAuth } from '../../hooks/useAuth';
 import { useTweets } from '../../hooks/useTweets';
 import { storageService } from '../../lib/storage';
 import VideoPlayer from '../ui/VideoPlayer';
+import { resolveMentionIds } from '../../lib/tweetRepository';
+import { getPostLengthState, POST_MAX_LENGTH } from '../../lib/textMetrics';
+import { MentionSuggestion } from '../../hooks/useAutocomplete';
+import { AutocompleteTextarea } from './AutocompleteTextarea';
+import { CharacterCounter } from './CharacterCounter';
 
 interface ReplyComposerProps {
   tweet: Tweet;
@@ -26,6 +31,8 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [uploadingMedia, setUploadingMedia] = useState(false);
+  // Users picked from @ suggestions, by username
+  const [pickedMentions, setPickedMentions] = useState<Record<string, string>>({});
   const { user } = useAuth();
   const { createReply } = useTweets();
 
@@ -33,17 +40,24 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
   useEffect(() => {
     if (replyingToReply && tweet.author.username) {
       setContent(`@${tweet.author.username} `);
+      setPickedMentions({ [tweet.author.username]: tweet.author.id });
     }
   }, [replyingToReply, tweet.author.username]);
 
+  const handleMentionPick = (picked: MentionSuggestion) => {
+    setPickedMentions(prev => ({ ...prev, [picked.username]: picked.id }));
+  };
+
+  const { length: characterCount, remaining, isNearLimit, isOverLimit } = getPostLengthState(content);
+
   const handleSubmit = async () => {
     if (!content.trim()) {
       setError('Reply cannot be empty');
       return;
     }
 
-    if (content.length > 200) {
-      setError('Reply cannot exceed 200 characters');
+    if (isOverLimit) {
+      setError(`Reply cannot exceed ${POST_MAX_LENGTH} characters`);
       return;
     }
 
@@ -54,10 +68,12 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
       // For replies to replies, we want to reply to the original tweet (root of the thread)
       // but include the @mention in the content
       const rootTweetId = tweet.replyTo || tweet.id;
-      const mediaUrls = media.map(item => item.url);
-      await createReply(content, rootTweetId, mediaUrls);
+      const imageUrls = media.filter(item => item.type === 'image').map(item => item.url);
+      const videoUrls = media.filter(item => item.type === 'video').map(item => item.url);
+      await createReply(content, rootTweetId, imageUrls, videoUrls, resolveMentionIds(content, pickedMentions));
       setContent('');
       setMedia([]);
+      setPickedMentions({});
       onReplySuccess();
     } catch (err: any) {
       setError(err.message || 'Failed to post reply');
@@ -136,10 +152,6 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
     }
   };
 
-  const characterCount = content.length;
-  const maxCharacters = 200;
-  const isOverLimit = characterCount > maxCharacters;
-
   const userAvatarUrl = user?.user_metadata?.avatar_url;
   const userDisplayName = user?.user_metadata?.display_name || 'User';
 
@@ -162,13 +174,13 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
       )}
 
       {/* Character limit warning */}
-      {characterCount > 180 && (
+      {isNearLimit && (
         <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded-lg">
           <p className="text-yellow-700 text-xs">
             {isOverLimit ? (
-              <>Exceeded limit by {characterCount - maxCharacters} characters</>
+              <>Exceeded limit by {-remaining} characters</>
             ) : (
-              <>{maxCharacters - characterCount} characters remaining</>
+              <>{remaining} characters remaining</>
             )}
           </p>
         </div>
@@ -186,9 +198,10 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
 
         {/* Text Area and Actions */}
         <div className="flex-1 min-w-0">
-          <textarea
+          <AutocompleteTextarea
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={setContent}
+            onMentionPick={handleMentionPick}
             placeholder={replyingToReply ? "Add to this conversation..." : "Post your reply"}
             className={`w-full text-lg placeholder-gray-500 border-none outline-none resize-none min-h-[80px] bg-transparent focus:ring-0 focus:border-none focus:outline-none ${
               isOverLimit ? 'text-red-600' : ''
@@ -265,13 +278,7 @@ export const ReplyComposer: React.FC<ReplyComposerProps> = ({
 
             <div className="flex items-center space-x-3">
               {/* Character Count */}
-              <div className={`text-sm font-medium ${
-                isOverLimit ? 'text-red-500' : 
-                characterCount > 180 ? 'text-yellow-600' :
-                'text-gray-500'
-              }`}>
-                {characterCount}/{maxCharacters}
-              </div>
+              <CharacterCounter length={characterCount} />
 
               {/* Cancel Button */}
               <Button
@@ -0,0 +1,53 @@
+import React from 'react';
+import { format, parse } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getLocalizedPlaceName, getPlace } from '../../lib/gazetteer';
+import { formatRating, REVIEW_ASPECT_LABELS, REVIEW_ASPECTS } from '../../lib/reviews';
+import { StarRating } from './StarRating';
+
+interface ReviewCardProps {
+  tweet: Tweet;
+  compact?: boolean;
+}
+
+// A post's review: the overall rating up front, sub-ratings and visit date beneath
+export const ReviewCard: React.FC<ReviewCardProps> = ({ tweet, compact = false }) => {
+  const { language } = useLanguageStore();
+  const review = tweet.review;
+  if (!review) return null;
+
+  const place = getPlace(tweet.place?.id);
+  const venue = review.venueName || (place && place.type !== 'city' ? getLocalizedPlaceName(place, language) : undefined);
+  const aspects = REVIEW_ASPECTS.filter(aspect => review[aspect]);
+  const visitedOn = review.visitedOn ? parse(review.visitedOn, 'yyyy-MM-dd', new Date()) : undefined;
+
+  return (
+    <div className={`mb-3 border border-gray-200 rounded-2xl px-3 py-2 ${compact ? 'text-sm' : 'text-[15px]'}`}>
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+        <StarRating value={review.rating} size={compact ? 'sm' : 'md'} />
+        <span className="font-bold text-gray-900">{formatRating(review.rating)}</span>
+        {venue && <span className="text-gray-700 truncate">· {venue}</span>}
+      </div>
+
+      {aspects.length > 0 && (
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-1">
+          {aspects.map(aspect => (
+            <div key={aspect} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              <span>{REVIEW_ASPECT_LABELS[aspect][language]}</span>
+              <StarRating value={review[aspect]!} size="sm" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {visitedOn && (
+        <p className="mt-1 text-xs text-gray-500">
+          {language === 'en' ? 'Visited ' : 'تاريخ الزيارة: '}
+          {format(visitedOn, 'MMMM yyyy', { locale: language === 'ar' ? arSA : enUS })}
+        </p>
+      )}
+    </div>
+  );
+};
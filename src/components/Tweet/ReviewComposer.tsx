@@ -0,0 +1,110 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Button } from '../ui/button';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { Place, Review } from '../../types';
+import { getPlaceLabel } from '../../lib/gazetteer';
+import { REVIEW_ASPECT_LABELS, REVIEW_ASPECTS, REVIEW_VENUE_MAX_LENGTH } from '../../lib/reviews';
+import { StarRating } from './StarRating';
+
+interface ReviewComposerProps {
+  review: Review;
+  place: Place | null; // the post's place tag, which is what gets reviewed
+  compact?: boolean;
+  onChange: (review: Review) => void;
+  onRemove: () => void;
+  onPickPlace: () => void;
+}
+
+// Ratings for the tagged place, attached to a Hotels or Restaurants post being composed
+export const ReviewComposer: React.FC<ReviewComposerProps> = ({
+  review,
+  place,
+  compact = false,
+  onChange,
+  onRemove,
+  onPickPlace,
+}) => {
+  const { language, isRTL } = useLanguageStore();
+  const textSize = compact ? 'text-sm' : 'text-base';
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 text-sm">
+          {language === 'en' ? 'Review' : 'تقييم'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 px-2 text-red-500 hover:bg-red-50"
+        >
+          {language === 'en' ? 'Remove review' : 'إزالة التقييم'}
+        </Button>
+      </div>
+
+      {place ? (
+        <p className="text-sm text-gray-600">
+          {language === 'en' ? 'Reviewing ' : 'تقييم '}
+          <span className="font-medium text-gray-900">{getPlaceLabel(place, language)}</span>
+        </p>
+      ) : (
+        <button type="button" onClick={onPickPlace} className="text-sm text-blue-500 hover:underline">
+          {language === 'en' ? 'Tag the place you are reviewing' : 'حدد المكان الذي تقيّمه'}
+        </button>
+      )}
+
+      {/* Cities are too broad to review, so name the hotel or restaurant */}
+      {place?.type === 'city' && (
+        <input
+          value={review.venueName || ''}
+          onChange={(e) => onChange({ ...review, venueName: e.target.value })}
+          maxLength={REVIEW_VENUE_MAX_LENGTH}
+          placeholder={language === 'en' ? 'Hotel or restaurant name' : 'اسم الفندق أو المطعم'}
+          className={`w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${textSize} ${
+            isRTL ? 'text-right' : 'text-left'
+          }`}
+          dir={isRTL ? 'rtl' : 'ltr'}
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <span className={`font-medium text-gray-900 ${textSize}`}>
+          {language === 'en' ? 'Overall' : 'التقييم العام'}
+        </span>
+        <StarRating
+          value={review.rating}
+          onChange={(rating) => onChange({ ...review, rating })}
+          label={language === 'en' ? 'Overall' : 'التقييم العام'}
+        />
+      </div>
+
+      {REVIEW_ASPECTS.map(aspect => (
+        <div key={aspect} className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-600">
+            {REVIEW_ASPECT_LABELS[aspect][language]}
+            <span className="text-gray-400">{language === 'en' ? ' (optional)' : ' (اختياري)'}</span>
+          </span>
+          <StarRating
+            value={review[aspect] ?? 0}
+            onChange={(rating) => onChange({ ...review, [aspect]: rating || undefined })}
+            size="sm"
+            label={REVIEW_ASPECT_LABELS[aspect][language]}
+          />
+        </div>
+      ))}
+
+      <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+        {language === 'en' ? 'Visited on (optional)' : 'تاريخ الزيارة (اختياري)'}
+        <input
+          type="date"
+          value={review.visitedOn || ''}
+          max={format(new Date(), 'yyyy-MM-dd')}
+          onChange={(e) => onChange({ ...review, visitedOn: e.target.value || undefined })}
+          className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { EyeOff } from 'lucide-react';
+import { useMediaSettings } from '../../hooks/useMediaSettings';
+import { useLanguageStore } from '../../store/useLanguageStore';
+
+interface SensitiveMediaGateProps {
+  sensitive?: boolean;
+  currentUserId?: string; // whose "always show" setting applies
+  compact?: boolean; // just the icon and the button, for thumbnails
+  children: React.ReactNode;
+}
+
+// Blurs media the author marked as sensitive until the viewer taps through
+export const SensitiveMediaGate: React.FC<SensitiveMediaGateProps> = ({
+  sensitive = false,
+  currentUserId,
+  compact = false,
+  children,
+}) => {
+  const { language } = useLanguageStore();
+  const { showSensitiveMedia } = useMediaSettings(currentUserId);
+  const [revealed, setRevealed] = useState(false);
+
+  if (!sensitive || showSensitiveMedia || revealed) {
+    return <>{children}</>;
+  }
+
+  const handleReveal = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRevealed(true);
+  };
+
+  return (
+    <div className="relative overflow-hidden">
+      <div className="blur-2xl pointer-events-none select-none" aria-hidden="true">
+        {children}
+      </div>
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/40 text-white text-center p-4">
+        <EyeOff className={compact ? 'h-5 w-5' : 'h-6 w-6'} />
+        {!compact && (
+          <div>
+            <p className="font-semibold">
+              {language === 'en' ? 'Sensitive content' : 'محتوى حساس'}
+            </p>
+            <p className="text-sm text-white/80">
+              {language === 'en'
+                ? 'The author marked this media as sensitive.'
+                : 'حدد الكاتب هذه الوسائط كمحتوى حساس.'}
+            </p>
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={handleReveal}
+          className={`rounded-full border border-white/70 font-semibold hover:bg-white/20 transition-colors ${
+            compact ? 'px-3 py-0.5 text-xs' : 'px-4 py-1 text-sm'
+          }`}
+        >
+          {language === 'en' ? 'Show' : 'عرض'}
+        </button>
+      </div>
+    </div>
+  );
+};
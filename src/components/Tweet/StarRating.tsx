@@ -0,0 +1,54 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { REVIEW_MAX_RATING } from '../../lib/reviews';
+
+interface StarRatingProps {
+  value: number; // 0 for nothing picked yet; averages round to the nearest star
+  onChange?: (value: number) => void; // makes the stars pickable
+  size?: 'sm' | 'md';
+  label?: string; // what's being rated, for screen readers
+}
+
+// A row of stars, read-only or for picking a rating
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'md', label }) => {
+  const { language } = useLanguageStore();
+  const filled = Math.round(value);
+  const iconSize = size === 'sm' ? 'h-3.5 w-3.5' : 'h-5 w-5';
+  const stars = Array.from({ length: REVIEW_MAX_RATING }, (_, index) => index + 1);
+
+  if (!onChange) {
+    return (
+      <span
+        className="inline-flex items-center"
+        role="img"
+        aria-label={language === 'en' ? `${value} out of ${REVIEW_MAX_RATING} stars` : `${value} من ${REVIEW_MAX_RATING} نجوم`}
+      >
+        {stars.map(star => (
+          <Star
+            key={star}
+            className={`${iconSize} ${star <= filled ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`}
+          />
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-0.5" role="radiogroup" aria-label={label}>
+      {stars.map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={star === value}
+          onClick={() => onChange(star === value ? 0 : star)}
+          className="p-0.5 rounded hover:bg-amber-50"
+          aria-label={language === 'en' ? `${star} star${star === 1 ? '' : 's'}` : `${star} نجوم`}
+        >
+          <Star className={`${iconSize} ${star <= filled ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </span>
+  );
+};
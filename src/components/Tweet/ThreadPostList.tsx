@@ -0,0 +1,130 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { Play } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { LazyAvatar } from '../ui/LazyAvatar';
+import { LazyImage } from '../ui/LazyImage';
+import { VerifiedBadge } from '../ui/VerifiedBadge';
+import { Tweet } from '../../types';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { getTweetMedia } from '../../lib/tweetRepository';
+import { SensitiveMediaGate } from './SensitiveMediaGate';
+
+interface ThreadPostListProps {
+  posts: Tweet[];
+  total: number; // posts in the whole thread, for the "2/5" markers
+  currentUserId?: string;
+  compact?: boolean;
+  connectLast?: boolean; // draw the connector below the last post, when the thread continues underneath
+}
+
+// Function to detect if text contains Arabic characters
+const isArabicText = (text: string): boolean => {
+  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+  return arabicRegex.test(text);
+};
+
+// Posts of a thread around the one being viewed, joined by a line between the avatars
+export const ThreadPostList: React.FC<ThreadPostListProps> = ({
+  posts,
+  total,
+  currentUserId,
+  compact = false,
+  connectLast = false,
+}) => {
+  const navigate = useNavigate();
+  const { language } = useLanguageStore();
+  const textSize = compact ? 'text-sm' : 'text-[15px]';
+
+  return (
+    <div className="border-b border-gray-200">
+      {posts.map((post, index) => {
+        const media = getTweetMedia(post);
+        const direction = isArabicText(post.content) ? 'rtl' : 'ltr';
+        const connected = index < posts.length - 1 || connectLast;
+
+        return (
+          <div
+            key={post.id}
+            className={`flex space-x-3 cursor-pointer hover:bg-gray-50 transition-colors ${compact ? 'px-4 pt-3' : 'px-6 pt-4'}`}
+            onClick={() => navigate(`/tweet/${post.id}`)}
+          >
+            <div className="flex flex-col items-center flex-shrink-0">
+              <LazyAvatar
+                src={post.author.avatar}
+                fallback={post.author.displayName[0]}
+                className={compact ? 'w-8 h-8' : 'w-10 h-10'}
+                size={80}
+              />
+              <div className={`w-0.5 flex-1 mt-1 ${connected ? 'bg-gray-200' : 'bg-transparent'}`} />
+            </div>
+
+            <div className={`flex-1 min-w-0 ${compact ? 'pb-3' : 'pb-4'}`}>
+              <div className="flex items-center space-x-1 mb-1 min-w-0">
+                <span className={`font-bold text-gray-900 ${textSize} truncate`}>
+                  {post.author.displayName}
+                </span>
+                {post.author.verified && <VerifiedBadge size={compact ? 'sm' : 'md'} />}
+                <span className={`text-gray-500 ${textSize} truncate`}>
+                  @{post.author.username}
+                </span>
+                <span className={`text-gray-500 ${textSize}`}>·</span>
+                <span className={`text-gray-500 ${textSize} flex-shrink-0`}>
+                  {formatDistanceToNow(post.createdAt, {
+                    addSuffix: true,
+                    locale: language === 'ar' ? arSA : enUS
+                  })}
+                </span>
+                {post.threadPosition !== undefined && (
+                  <span className={`text-gray-400 ${textSize} flex-shrink-0 ml-auto`}>
+                    {post.threadPosition + 1}/{total}
+                  </span>
+                )}
+              </div>
+
+              <p
+                className={`text-gray-900 ${textSize} whitespace-pre-wrap break-words`}
+                dir={direction}
+                style={{ textAlign: direction === 'rtl' ? 'right' : 'left' }}
+              >
+                {post.content}
+              </p>
+
+              {media.length > 0 && (
+                <div className="mt-2 rounded-xl overflow-hidden">
+                  <SensitiveMediaGate sensitive={post.sensitiveMedia} currentUserId={currentUserId} compact={compact}>
+                    <div className={`grid gap-1 ${media.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                      {media.map((item, mediaIndex) => (
+                        <div key={`${item.url}-${mediaIndex}`} className="relative aspect-[16/9] bg-gray-100">
+                          {item.type === 'image' ? (
+                            <LazyImage
+                              src={item.url}
+                              alt={item.alt || `Thread media ${mediaIndex + 1}`}
+                              className="w-full h-full"
+                              width={compact ? 320 : 480}
+                              quality={75}
+                            />
+                          ) : (
+                            <>
+                              <video src={item.url} className="w-full h-full object-cover" muted preload="metadata" aria-label={item.alt} />
+                              <div className="absolute inset-0 flex items-center justify-center">
+                                <div className="w-10 h-10 bg-black/60 rounded-full flex items-center justify-center">
+                                  <Play className="w-5 h-5 text-white" />
+                                </div>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </SensitiveMediaGate>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { X, Image, Video, Play, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { LazyImage } from '../ui/LazyImage';
+import { useAuth } from '../../hooks/useAuth';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { storageService } from '../../lib/storage';
+import { MediaItem } from '../../lib/tweetRepository';
+import { getPostLengthState } from '../../lib/textMetrics';
+import { MentionSuggestion } from '../../hooks/useAutocomplete';
+import { AutocompleteTextarea } from './AutocompleteTextarea';
+import { CharacterCounter } from './CharacterCounter';
+import { MediaAltTextEditor } from './MediaAltTextEditor';
+
+// One follow-up post of a thread while it's being written
+export interface ThreadDraftSegment {
+  id: string;
+  content: string;
+  media: MediaItem[];
+  sensitiveMedia?: boolean;
+}
+
+interface ThreadSegmentEditorProps {
+  segment: ThreadDraftSegment;
+  position: number; // 1-based, counting the first post in the main composer
+  total: number;
+  compact?: boolean;
+  onChange: (segment: ThreadDraftSegment) => void;
+  onRemove: () => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  onMentionPick?: (user: MentionSuggestion) => void;
+}
+
+const MAX_MEDIA = 4;
+
+// Textarea and media for one post after the first; each segment uploads its own media
+export const ThreadSegmentEditor: React.FC<ThreadSegmentEditorProps> = ({
+  segment,
+  position,
+  total,
+  compact = false,
+  onChange,
+  onRemove,
+  onUploadingChange,
+  onMentionPick,
+}) => {
+  const { user } = useAuth();
+  const { language, isRTL } = useLanguageStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Uploads finish after re-renders, so they append to the latest segment rather than a stale copy
+  const segmentRef = useRef(segment);
+  segmentRef.current = segment;
+
+  const { length, isOverLimit } = getPostLengthState(segment.content);
+
+  const setUploadingState = (value: boolean) => {
+    setUploading(value);
+    onUploadingChange?.(value);
+  };
+
+  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_MEDIA - segment.media.length);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    setUploadingState(true);
+    setError('');
+
+    try {
+      for (const file of files) {
+        const validation = storageService.validateMediaFile(file);
+        if (!validation.isValid) {
+          setError(validation.error || 'Invalid file');
+          continue;
+        }
+
+        const type = validation.mediaType === 'video' ? 'video' : 'image';
+        const url = type === 'video'
+          ? await storageService.uploadVideo(file, user.id)
+          : await storageService.uploadImage(file, user.id);
+
+        const latest = segmentRef.current;
+        onChange({ ...latest, media: [...latest.media, { url, type }] });
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload media');
+    } finally {
+      setUploadingState(false);
+    }
+  };
+
+  const handleRemoveMedia = async (index: number) => {
+    const item = segment.media[index];
+    onChange({ ...segment, media: segment.media.filter((_, i) => i !== index) });
+
+    try {
+      await storageService.deleteMediaFile(item.url);
+    } catch (err) {
+      console.error('Error deleting media:', err);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`flex items-center justify-between mb-1 ${compact ? 'text-xs' : 'text-sm'} text-gray-500`}>
+        <span className="font-medium">{position}/{total}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          disabled={uploading}
+          className="h-7 w-7 p-0 rounded-full hover:bg-gray-100"
+          aria-label={language === 'en' ? 'Remove post from thread' : 'إزالة المنشور من السلسلة'}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs">
+          {error}
+        </div>
+      )}
+
+      <AutocompleteTextarea
+        value={segment.content}
+        onChange={(content) => onChange({ ...segment, content })}
+        onMentionPick={onMentionPick}
+        placeholder={language === 'en' ? 'Add another post' : 'أضف منشوراً آخر'}
+        className={`w-full placeholder-gray-500 border-none outline-none resize-none bg-transparent focus:ring-0 ${
+          isOverLimit ? 'text-red-600' : ''
+        } ${compact ? 'text-base min-h-[80px]' : 'text-lg min-h-[100px]'} ${isRTL ? 'text-right' : 'text-left'}`}
+        dir={isRTL ? 'rtl' : 'ltr'}
+      />
+
+      {segment.media.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mt-2">
+          {segment.media.map((item, index) => (
+            <div key={item.url} className="relative group aspect-square rounded-lg overflow-hidden bg-gray-100 border border-gray-200">
+              {item.type === 'image' ? (
+                <LazyImage src={item.url} alt={item.alt || `Upload ${index + 1}`} className="w-full h-full" width={160} quality={70} />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center bg-black/80">
+                  <Play className="w-6 h-6 text-white" />
+                </div>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-1 right-1 bg-black/70 text-white hover:bg-black/90 p-1.5 rounded-full"
+                onClick={() => handleRemoveMedia(index)}
+                aria-label={language === 'en' ? 'Remove media' : 'إزالة الوسائط'}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <MediaAltTextEditor
+        media={segment.media}
+        sensitive={!!segment.sensitiveMedia}
+        compact={compact}
+        onMediaChange={(media) => onChange({ ...segmentRef.current, media })}
+        onSensitiveChange={(sensitiveMedia) => onChange({ ...segmentRef.current, sensitiveMedia })}
+      />
+
+      <div className="mt-2 flex items-center justify-between">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          className="hidden"
+          onChange={handleMediaUpload}
+          disabled={segment.media.length >= MAX_MEDIA || uploading}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={segment.media.length >= MAX_MEDIA || uploading}
+          className="text-blue-500 hover:bg-blue-50"
+          aria-label={language === 'en' ? 'Add photos/videos' : 'إضافة صور/فيديوهات'}
+        >
+          {uploading ? (
+            <div className="animate-spin rounded-full border-b-2 border-blue-500 h-4 w-4" />
+          ) : (
+            <div className="flex items-center space-x-1">
+              <Image className="h-4 w-4" />
+              <Video className="h-4 w-4" />
+            </div>
+          )}
+        </Button>
+        <CharacterCounter length={length} className="w-7 h-7" />
+      </div>
+    </div>
+  );
+};
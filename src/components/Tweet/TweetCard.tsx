@@ -16,13 +16,17 @@ import {
   CornerUpLeft,
   Pin,
   PinOff,
-  Play
+  Play,
+  PenLine,
+  Luggage
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { LazyAvatar } from '../ui/LazyAvatar';
 import { LazyImage } from '../ui/LazyImage';
 import { PinnedIndicator } from '../ui/PinnedIndicator';
+import { OutboxStatus } from '../ui/OutboxStatus';
 import { TweetBadges } from '../ui/TweetBadges';
+import { PlaceChip } from './PlaceChip';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -32,14 +36,31 @@ import {
 import { Tweet } from '../../types';
 import { useNavigate } from 'react-router-dom';
 import { ReplyComposer } from './ReplyComposer';
+import { QuotedTweetCard } from './QuotedTweetCard';
+import { PollCard } from './PollCard';
+import { ItineraryCard } from './ItineraryCard';
+import { ReviewCard } from './ReviewCard';
+import { FlightDealCard } from './FlightDealCard';
+import { ListingCard } from './ListingCard';
+import { QuestionCard } from './QuestionCard';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { EditTweetModal } from './EditTweetModal';
+import { SaveToTripDialog } from '../Trips/SaveToTripDialog';
+import { EditHistoryModal } from './EditHistoryModal';
+import { SensitiveMediaGate } from './SensitiveMediaGate';
 import { useTweets } from '../../hooks/useTweets';
 import { useTweetViews } from '../../hooks/useTweetViews';
 import { useProfileSync } from '../../hooks/useProfileSync';
+import { useTweetEntity } from '../../hooks/useTweetEntity';
+import { useTweetOutbox } from '../../hooks/useOutbox';
 import { usePinnedTweets } from '../../hooks/usePinnedTweets';
 import { useLanguageStore } from '../../store/useLanguageStore';
-import { supabase } from '../../lib/supabase';
+import { useStore } from '../../store/useStore';
 import VideoPlayer from '../ui/VideoPlayer';
 import { storageService } from '../../lib/storage';
+import { fetchTweetById, getTweetMedia, canEditTweet, isThreadStart } from '../../lib/tweetRepository';
+import { truncatePostText } from '../../lib/textMetrics';
+import { getPreviewLink } from '../../lib/linkPreview';
 
 interface TweetCardProps {
   tweet: Tweet;
@@ -80,47 +101,23 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
   const [originalTweet, setOriginalTweet] = useState<Tweet | null>(null);
   const [loadingOriginal, setLoadingOriginal] = useState(false);
   const [replyingToTweetId, setReplyingToTweetId] = useState<string | null>(null);
-  const [localTweet, setLocalTweet] = useState<Tweet>(tweet);
-  const { replies, fetchReplies, createRetweet, removeRetweet } = useTweets();
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showSaveToTrip, setShowSaveToTrip] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [contentExpanded, setContentExpanded] = useState(false);
+  const currentTweet = useTweetEntity(tweet);
+  const outboxEntries = useTweetOutbox(tweet.id);
+  const patchTweet = useStore(state => state.patchTweet);
+  const { replies, fetchReplies, createRetweet, removeRetweet, deleteTweet } = useTweets();
   const { observeTweet, unobserveTweet, recordView } = useTweetViews();
   const { pinToProfile, unpinFromProfile, pinToHome, unpinFromHome, checkIfUserIsAdmin, loading: pinLoading } = usePinnedTweets();
   const { language, isRTL } = useLanguageStore();
   const tweetRef = useRef<HTMLDivElement>(null);
   const [isAdmin, setIsAdmin] = useState(false);
 
-  // Sync local tweet state with prop changes
-  useEffect(() => {
-    setLocalTweet(tweet);
-  }, [tweet]);
-
   // Handle profile updates via real-time sync
+  // (the author and retweeter are patched in the entity store by useProfileSync)
   useProfileSync((profileUpdate) => {
-    // Update main tweet author
-    if (localTweet.author.id === profileUpdate.id) {
-      setLocalTweet(prev => ({
-        ...prev,
-        author: {
-          ...prev.author,
-          verified: profileUpdate.verified ?? prev.author.verified,
-          displayName: profileUpdate.display_name ?? prev.author.displayName,
-          avatar: profileUpdate.avatar_url ?? prev.author.avatar,
-        }
-      }));
-    }
-
-    // Update retweeted by user if applicable
-    if (localTweet.retweetedBy && localTweet.retweetedBy.id === profileUpdate.id) {
-      setLocalTweet(prev => ({
-        ...prev,
-        retweetedBy: prev.retweetedBy ? {
-          ...prev.retweetedBy,
-          verified: profileUpdate.verified ?? prev.retweetedBy.verified,
-          displayName: profileUpdate.display_name ?? prev.retweetedBy.displayName,
-          avatar: profileUpdate.avatar_url ?? prev.retweetedBy.avatar,
-        } : prev.retweetedBy
-      }));
-    }
-
     // Update original tweet author if this is a reply with original tweet shown
     if (originalTweet && originalTweet.author.id === profileUpdate.id) {
       setOriginalTweet(prev => prev ? {
@@ -139,13 +136,13 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
   useEffect(() => {
     const element = tweetRef.current;
     if (element && !isReply) { // Only track views for main tweets, not replies
-      observeTweet(element, localTweet.id);
+      observeTweet(element, currentTweet.id);
       
       return () => {
         unobserveTweet(element);
       };
     }
-  }, [localTweet.id, isReply, observeTweet, unobserveTweet]);
+  }, [currentTweet.id, isReply, observeTweet, unobserveTweet]);
 
   // Check if current user is admin
   useEffect(() => {
@@ -163,78 +160,39 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
   };
 
   // Helper function to get all media (images and videos) from tweet
-  const getAllMedia = (): { url: string; type: 'image' | 'video' }[] => {
-    const media: { url: string; type: 'image' | 'video' }[] = [];
-    
-    const isVideoUrl = (url: string): boolean => {
-      return url.toLowerCase().endsWith('.mp4');
-    };
-
-    // Add images
-    if (tweet.images && tweet.images.length) {
-      tweet.images.forEach((rawUrl) => {
-        const cleanUrl = rawUrl.startsWith('image:') ? rawUrl.slice(6) : rawUrl.startsWith('video:') ? rawUrl.slice(6) : rawUrl;
-        if (!/^https?:\/\//.test(cleanUrl)) return; // skip non-URL placeholders
-        media.push({ url: cleanUrl, type: isVideoUrl(cleanUrl) ? 'video' : 'image' });
-      });
-    }
-    
-    // Add videos
-    if (tweet.videos) {
-      tweet.videos.forEach(url => {
-        // Remove 'video:' prefix if present
-        const cleanUrl = url.startsWith('video:') ? url.slice(6) : url;
-        media.push({ url: cleanUrl, type: 'video' });
-      });
-    }
-    
-    // Add mixed media if available
-    if (tweet.media) {
-      tweet.media.forEach(item => {
-        if (typeof item === 'string') {
-          const cleanUrl = item.startsWith('video:') ? item.slice(6) :
-                          item.startsWith('image:') ? item.slice(6) : item;
-          if (!/^https?:\/\//.test(cleanUrl)) return;
-          const type = isVideoUrl(cleanUrl) ? 'video' : 'image';
-          media.push({ url: cleanUrl, type });
-        } else {
-          const cleanUrl = item.url.startsWith(`${item.type}:`) ? item.url.slice(item.type.length + 1) : item.url;
-          if (!/^https?:\/\//.test(cleanUrl)) return;
-          const type = isVideoUrl(cleanUrl) ? 'video' : item.type;
-          media.push({ url: cleanUrl, type });
-        }
-      });
-    }
-    
-    return media;
+  const getAllMedia = () => getTweetMedia(currentTweet);
+
+  const handleEditClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowEditModal(true);
+  };
+
+  const handleEditedClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowEditHistory(true);
   };
 
   const handleDelete = async () => {
-    // Mock delete functionality
-    // TODO: Implement actual delete functionality
+    try {
+      await deleteTweet(currentTweet.id);
+    } catch (error: any) {
+      console.error('Error deleting tweet:', error.message);
+    }
   };
 
   const handlePinToProfile = async (e: React.MouseEvent) => {
     e.stopPropagation();
     
-    if (localTweet.pinnedToProfile) {
-      const success = await unpinFromProfile(localTweet.id);
+    if (currentTweet.pinnedToProfile) {
+      const success = await unpinFromProfile(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToProfile: false,
-          pinnedAt: undefined
-        }));
+        patchTweet(currentTweet.id, { pinnedToProfile: false, pinnedAt: undefined });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     } else {
-      const success = await pinToProfile(localTweet.id);
+      const success = await pinToProfile(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToProfile: true,
-          pinnedAt: new Date()
-        }));
+        patchTweet(currentTweet.id, { pinnedToProfile: true, pinnedAt: new Date() });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     }
@@ -243,24 +201,16 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
   const handlePinToHome = async (e: React.MouseEvent) => {
     e.stopPropagation();
     
-    if (localTweet.pinnedToHome) {
-      const success = await unpinFromHome(localTweet.id);
+    if (currentTweet.pinnedToHome) {
+      const success = await unpinFromHome(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToHome: false,
-          pinnedAt: undefined
-        }));
+        patchTweet(currentTweet.id, { pinnedToHome: false, pinnedAt: undefined });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     } else {
-      const success = await pinToHome(localTweet.id);
+      const success = await pinToHome(currentTweet.id);
       if (success) {
-        setLocalTweet(prev => ({
-          ...prev,
-          pinnedToHome: true,
-          pinnedAt: new Date()
-        }));
+        patchTweet(currentTweet.id, { pinnedToHome: true, pinnedAt: new Date() });
         onPinStatusChange?.(); // Refresh pinned tweets
       }
     }
@@ -268,116 +218,20 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
 
   const handleProfileClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    navigate(`/profile/${localTweet.author.username}`);
+    navigate(`/profile/${currentTweet.author.username}`);
   };
 
   const handleRetweeterProfileClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (localTweet.retweetedBy) {
-      navigate(`/profile/${localTweet.retweetedBy.username}`);
+    if (currentTweet.retweetedBy) {
+      navigate(`/profile/${currentTweet.retweetedBy.username}`);
     }
   };
 
   const fetchOriginalTweet = async (replyToId: string) => {
     try {
       setLoadingOriginal(true);
-      
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
-        .eq('id', replyToId)
-        .single();
-
-      if (error) throw error;
-
-      // Get current user to check likes/retweets/bookmarks
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-      
-      if (user) {
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase
-            .from('likes')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id),
-          supabase
-            .from('retweets')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id),
-          supabase
-            .from('bookmarks')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', data.id)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
-      const profile = Array.isArray(data.profiles) ? data.profiles[0] : data.profiles;
-      
-      const formattedTweet: Tweet = {
-        id: data.id,
-        content: data.content,
-        author: {
-          id: profile.id,
-          username: profile.username,
-          displayName: profile.display_name,
-          avatar: profile.avatar_url || '',
-          bio: profile.bio,
-          verified: profile.verified,
-          followers: profile.followers_count,
-          following: profile.following_count,
-          country: profile.country,
-          joinedDate: new Date(profile.created_at),
-        },
-        createdAt: new Date(data.created_at),
-        likes: data.likes_count,
-        retweets: data.retweets_count,
-        replies: data.replies_count,
-        views: data.views_count,
-        images: data.image_urls,
-        isLiked: userLikes.includes(data.id),
-        isRetweeted: userRetweets.includes(data.id),
-        isBookmarked: userBookmarks.includes(data.id),
-        hashtags: data.hashtags,
-        mentions: data.mentions,
-        tags: data.tags || [],
-      };
-
-      setOriginalTweet(formattedTweet);
+      setOriginalTweet(await fetchTweetById(replyToId));
     } catch (error) {
       console.error('Error fetching original tweet:', error);
     } finally {
@@ -387,21 +241,21 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
 
   const handleReplyToClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (tweet.replyTo && !originalTweet && !loadingOriginal) {
-      await fetchOriginalTweet(tweet.replyTo);
+    if (currentTweet.replyTo && !originalTweet && !loadingOriginal) {
+      await fetchOriginalTweet(currentTweet.replyTo);
     }
   };
 
   const handleTweetClick = async () => {
     // Record view when user explicitly clicks on tweet
-    await recordView(localTweet.id);
+    await recordView(currentTweet.id);
     // Navigate to tweet detail page instead of showing replies inline
-    navigate(`/tweet/${localTweet.id}`);
+    navigate(`/tweet/${currentTweet.id}`);
   };
 
   const handleReplyClick = (e: React.MouseEvent, targetTweetId?: string) => {
     e.stopPropagation();
-    setReplyingToTweetId(targetTweetId || localTweet.id);
+    setReplyingToTweetId(targetTweetId || currentTweet.id);
     setShowReplyComposer(!showReplyComposer);
   };
 
@@ -409,7 +263,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
     setShowReplyComposer(false);
     setReplyingToTweetId(null);
     // Refresh replies for the main tweet (not individual replies)
-    const mainTweetId = parentTweetId || tweet.id;
+    const mainTweetId = parentTweetId || currentTweet.id;
     await fetchReplies(mainTweetId);
     setShowReplies(true);
   };
@@ -417,16 +271,26 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
   const handleRetweetClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      if (tweet.isRetweeted) {
-        await removeRetweet(tweet.id);
+      if (currentTweet.isRetweeted) {
+        await removeRetweet(currentTweet.id);
       } else {
-        await createRetweet(tweet.id);
+        await createRetweet(currentTweet.id);
       }
     } catch (error: any) {
       console.error('Error toggling retweet:', error.message);
     }
   };
 
+  const handleQuoteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/compose?quote=${currentTweet.id}`);
+  };
+
+  const handleShowThreadClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/tweet/${currentTweet.id}`);
+  };
+
   const handleLikeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onLike();
@@ -441,13 +305,13 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
     e.stopPropagation();
     
     // Create the full URL for sharing
-    const tweetUrl = `${window.location.origin}/tweet/${tweet.id}`;
+    const tweetUrl = `${window.location.origin}/tweet/${currentTweet.id}`;
     
     // Use Web Share API if available
     if (navigator.share) {
       navigator.share({
-        title: `Tweet by ${tweet.author.displayName}`,
-        text: tweet.content.substring(0, 100) + (tweet.content.length > 100 ? '...' : ''),
+        title: `Tweet by ${currentTweet.author.displayName}`,
+        text: currentTweet.content.substring(0, 100) + (currentTweet.content.length > 100 ? '...' : ''),
         url: tweetUrl
       }).catch(err => {
         console.error('Error sharing:', err);
@@ -528,9 +392,9 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
         regex: /#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g, 
         type: 'hashtag' 
       },
-      // Mention pattern: @ followed by word characters, numbers, underscores
+      // Mention pattern: @ followed by word characters (including Arabic), numbers, underscores
       { 
-        regex: /@[a-zA-Z0-9_]+/g, 
+        regex: /@[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g, 
         type: 'mention' 
       },
       // URL pattern: http(s) URLs
@@ -633,17 +497,19 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
     return parts;
   };
 
-  const isOwnTweet = currentUserId === localTweet.author.id;
-  const tweetReplies = replies[parentTweetId || localTweet.id] || [];
-  const hasReplies = localTweet.replies > 0 && !isReply;
+  const isOwnTweet = currentUserId === currentTweet.author.id;
+  const tweetReplies = replies[parentTweetId || currentTweet.id] || [];
+  const hasReplies = currentTweet.replies > 0 && !isReply;
 
-  // Truncate content if it exceeds 200 characters (for display purposes)
-  const displayContent = localTweet.content.length > 200 
-    ? localTweet.content.substring(0, 200) + '...' 
-    : localTweet.content;
+  // Long posts start collapsed, cut between words rather than through a tag or link
+  const preview = truncatePostText(currentTweet.content);
+  const previewLink = getPreviewLink(currentTweet.content);
+  const displayContent = preview.truncated && !contentExpanded
+    ? `${preview.text}…`
+    : currentTweet.content;
 
   // Check if this tweet is replying to someone (has @mention at the start)
-  const isReplyToReply = isReply && localTweet.content.startsWith('@');
+  const isReplyToReply = isReply && currentTweet.content.startsWith('@');
 
   return (
     <>
@@ -652,7 +518,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
         className={`w-full border-b border-gray-200 transition-colors hover:bg-gray-50 cursor-pointer ${isReply ? 'ml-12 border-l-2 border-gray-200' : ''}`}
       >
         {/* Retweet indicator */}
-        {localTweet.isRetweet && localTweet.retweetedBy && (
+        {currentTweet.isRetweet && currentTweet.retweetedBy && (
           <div className="px-4 pt-2 pb-0.5">
             <div className="flex items-center space-x-2 text-gray-500 text-sm">
               <Repeat2 className="w-4 h-4" />
@@ -660,17 +526,17 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                 className="hover:underline cursor-pointer"
                 onClick={handleRetweeterProfileClick}
               >
-                <span className="font-medium">{localTweet.retweetedBy.displayName}</span>
+                <span className="font-medium">{currentTweet.retweetedBy.displayName}</span>
                 {language === 'en' ? ' retweeted' : ' أعاد التغريد'}
               </span>
-              {localTweet.retweetedBy.verified && (
+              {currentTweet.retweetedBy.verified && (
                 <div className="w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
                   <Check className="w-2.5 h-2.5 text-white" />
                 </div>
               )}
               <span>·</span>
               <span>
-                {formatDistanceToNow(localTweet.retweetedAt!, { 
+                {formatDistanceToNow(currentTweet.retweetedAt!, { 
                   addSuffix: true, 
                   locale: language === 'ar' ? arSA : enUS 
                 })}
@@ -680,7 +546,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
         )}
 
         {/* Reply indicator */}
-        {localTweet.replyTo && (
+        {currentTweet.replyTo && (
           <div className="px-4 pt-2 pb-0.5">
             <div className="flex items-center space-x-2 text-gray-500 text-sm">
               <CornerUpLeft className="w-4 h-4" />
@@ -707,8 +573,8 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
           <div className="flex gap-3 w-full">
             {/* Avatar */}
             <LazyAvatar
-              src={localTweet.author.avatar}
-              fallback={localTweet.author.displayName[0]}
+              src={currentTweet.author.avatar}
+              fallback={currentTweet.author.displayName[0]}
               className="w-10 h-10 flex-shrink-0 cursor-pointer"
               onClick={handleProfileClick}
               size={80}
@@ -724,9 +590,9 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                     className="font-bold text-gray-900 hover:underline cursor-pointer truncate"
                     onClick={handleProfileClick}
                   >
-                    {localTweet.author.displayName}
+                    {currentTweet.author.displayName}
                   </span>
-                  {localTweet.author.verified && (
+                  {currentTweet.author.verified && (
                     <div className="w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
                       <Check className="w-2.5 h-2.5 text-white" />
                     </div>
@@ -735,15 +601,23 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                     className="text-gray-500 truncate cursor-pointer hover:underline"
                     onClick={handleProfileClick}
                   >
-                    @{localTweet.author.username}
+                    @{currentTweet.author.username}
                   </span>
                   <span className="text-gray-500">·</span>
                   <span className="text-gray-500 hover:underline cursor-pointer text-sm flex-shrink-0">
-                    {formatDistanceToNow(localTweet.createdAt, { 
+                    {formatDistanceToNow(currentTweet.createdAt, { 
                       addSuffix: true, 
                       locale: language === 'ar' ? arSA : enUS 
                     })}
                   </span>
+                  {!!currentTweet.editCount && (
+                    <button
+                      className="text-gray-500 text-sm hover:underline flex-shrink-0"
+                      onClick={handleEditedClick}
+                    >
+                      · {language === 'en' ? 'Edited' : 'معدّل'}
+                    </button>
+                  )}
                 </div>
                 
                 {/* More Options */}
@@ -767,6 +641,16 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                       avoidCollisions={true}
                       collisionPadding={8}
                     >
+                      {currentUserId && (
+                        <DropdownMenuItem
+                          onClick={(e) => { e.stopPropagation(); setShowSaveToTrip(true); }}
+                          className="hover:bg-gray-50"
+                        >
+                          <Luggage className="w-4 h-4 mr-2" />
+                          {language === 'en' ? 'Save to trip' : 'حفظ في رحلة'}
+                        </DropdownMenuItem>
+                      )}
+
                       {/* User's own tweet options */}
                       {isOwnTweet && (
                         <>
@@ -775,7 +659,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                             className="hover:bg-gray-50"
                             disabled={pinLoading}
                           >
-                            {localTweet.pinnedToProfile ? (
+                            {currentTweet.pinnedToProfile ? (
                               <>
                                 <PinOff className="w-4 h-4 mr-2" />
                                 {language === 'en' ? 'Unpin from profile' : 'إلغاء التثبيت من الملف الشخصي'}
@@ -787,6 +671,12 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                               </>
                             )}
                           </DropdownMenuItem>
+                          {canEditTweet(currentTweet, currentUserId) && (
+                            <DropdownMenuItem onClick={handleEditClick} className="hover:bg-gray-50">
+                              <PenLine className="w-4 h-4 mr-2" />
+                              {language === 'en' ? 'Edit Post' : 'تعديل المنشور'}
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem onClick={handleDelete} className="text-red-600 hover:bg-red-50">
                             {language === 'en' ? 'Delete Post' : 'حذف المنشور'}
                           </DropdownMenuItem>
@@ -800,7 +690,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                           className="hover:bg-blue-50 text-blue-600"
                           disabled={pinLoading}
                         >
-                          {localTweet.pinnedToHome ? (
+                          {currentTweet.pinnedToHome ? (
                             <>
                               <PinOff className="w-4 h-4 mr-2" />
                               {language === 'en' ? 'Unpin from home' : 'إلغاء التثبيت من الرئيسية'}
@@ -809,8 +699,8 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                             <>
                               <Pin className="w-4 h-4 mr-2" />
                               {language === 'en' ? 
-                                (localTweet.isRetweet ? 'Pin original to home' : 'Pin to home timeline') : 
-                                (localTweet.isRetweet ? 'تثبيت الأصلي في الرئيسية' : 'تثبيت في الخط الزمني الرئيسي')
+                                (currentTweet.isRetweet ? 'Pin original to home' : 'Pin to home timeline') : 
+                                (currentTweet.isRetweet ? 'تثبيت الأصلي في الرئيسية' : 'تثبيت في الخط الزمني الرئيسي')
                               }
                             </>
                           )}
@@ -824,7 +714,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                             View Profile
                           </DropdownMenuItem>
                           <DropdownMenuItem className="hover:bg-gray-50">
-                            Mute @{localTweet.author.username}
+                            Mute @{currentTweet.author.username}
                           </DropdownMenuItem>
                           <DropdownMenuItem className="text-red-600 hover:bg-red-50">
                             Report post
@@ -837,12 +727,12 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
               </div>
 
               {/* Pinned Indicator */}
-              {(localTweet.pinnedToProfile || localTweet.pinnedToHome) && (
+              {(currentTweet.pinnedToProfile || currentTweet.pinnedToHome) && (
                 <div className="mb-2">
-                  {localTweet.pinnedToHome && (
+                  {currentTweet.pinnedToHome && (
                     <PinnedIndicator type="home" className="mb-1" />
                   )}
-                  {localTweet.pinnedToProfile && !localTweet.pinnedToHome && (
+                  {currentTweet.pinnedToProfile && !currentTweet.pinnedToHome && (
                     <PinnedIndicator type="profile" />
                   )}
                 </div>
@@ -851,28 +741,42 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
               {/* Tweet Text with Enhanced Link Parsing */}
               <div 
                 className="text-gray-900 mb-2 text-[15px] leading-5 break-words overflow-wrap-anywhere whitespace-pre-wrap"
-                dir={getTextDirection(localTweet.content)}
-                style={{ textAlign: getTextDirection(localTweet.content) === 'rtl' ? 'right' : 'left' }}
+                dir={getTextDirection(currentTweet.content)}
+                style={{ textAlign: getTextDirection(currentTweet.content) === 'rtl' ? 'right' : 'left' }}
               >
                 {parseTextWithLinks(displayContent)}
-                {localTweet.content.length > 200 && (
-                  <span className="text-gray-500 text-sm italic"> (truncated)</span>
+                {preview.truncated && (
+                  <>
+                    {' '}
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setContentExpanded(prev => !prev);
+                      }}
+                      className="text-blue-500 hover:underline font-medium"
+                    >
+                      {contentExpanded
+                        ? (language === 'en' ? 'Show less' : 'عرض أقل')
+                        : (language === 'en' ? 'Show more' : 'عرض المزيد')}
+                    </button>
+                  </>
                 )}
               </div>
 
               {/* Tweet Badges */}
               <TweetBadges
-                tweetId={localTweet.id}
-                tags={localTweet.tags || []}
+                tweetId={currentTweet.id}
+                tags={currentTweet.tags || []}
                 isAdmin={isAdmin}
                 onTagsUpdate={(newTags) => {
-                  setLocalTweet(prev => ({
-                    ...prev,
-                    tags: newTags
-                  }));
+                  patchTweet(currentTweet.id, { tags: newTags });
                 }}
               />
 
+              {/* Place */}
+              <PlaceChip place={currentTweet.place} />
+
               {/* Original Tweet Preview (for replies) */}
               {originalTweet && (
                 <div className="mb-2 border border-gray-200 rounded-xl p-3 bg-gray-50 hover:bg-gray-100 transition-colors cursor-pointer"
@@ -921,6 +825,34 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                 </div>
               )}
 
+              {/* Poll */}
+              {currentTweet.poll && <PollCard tweet={currentTweet} currentUserId={currentUserId} />}
+
+              {/* Itinerary */}
+              {currentTweet.itinerary && <ItineraryCard tweet={currentTweet} currentUserId={currentUserId} />}
+
+              {/* Review */}
+              {currentTweet.review && <ReviewCard tweet={currentTweet} />}
+
+              {/* Flight deal */}
+              {currentTweet.flightDeal && <FlightDealCard tweet={currentTweet} />}
+
+              {/* Listing */}
+              {currentTweet.listing && <ListingCard tweet={currentTweet} currentUserId={currentUserId} />}
+
+              {/* Question and its accepted answer */}
+              {currentTweet.isQuestion && <QuestionCard tweet={currentTweet} />}
+
+              {/* Quoted Tweet */}
+              {currentTweet.quotedTweet && (
+                <QuotedTweetCard tweet={currentTweet.quotedTweet} currentUserId={currentUserId} />
+              )}
+
+              {/* Link preview, for posts with nothing else embedded */}
+              {previewLink && !currentTweet.poll && !currentTweet.quotedTweet && getAllMedia().length === 0 && (
+                <LinkPreviewCard url={previewLink} />
+              )}
+
               {/* Media (Images and Videos) */}
               {(() => {
                 const allMedia = getAllMedia();
@@ -928,95 +860,100 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                 
                 const mediaContent = (
                   <div className="mb-2 rounded-2xl overflow-hidden border border-gray-200">
-                    {allMedia.length === 1 ? (
-                      // Single media - centered and fills container
-                      <div className="w-full aspect-[16/9] cursor-pointer" onClick={(e) => handleImageClick(0, e)}>
-                        {allMedia[0].type === 'image' ? (
-                          <LazyImage 
-                            src={allMedia[0].url} 
-                            alt="Tweet image" 
-                            className="w-full h-full hover:opacity-95 transition-opacity"
-                            width={600}
-                            quality={80}
-                          />
-                        ) : (
-                          <div className="relative">
-                            <VideoPlayer
-                              src={allMedia[0].url}
-                              className="w-full"
-                              height={175}
-                              controls
-                              muted
-                              onClick={(e) => e.stopPropagation()}
+                    <SensitiveMediaGate sensitive={currentTweet.sensitiveMedia} currentUserId={currentUserId}>
+                      {allMedia.length === 1 ? (
+                        // Single media - centered and fills container
+                        <div className="w-full aspect-[16/9] cursor-pointer" onClick={(e) => handleImageClick(0, e)}>
+                          {allMedia[0].type === 'image' ? (
+                            <LazyImage 
+                              src={allMedia[0].url} 
+                              alt={allMedia[0].alt || 'Tweet image'}
+                              className="w-full h-full hover:opacity-95 transition-opacity"
+                              width={600}
+                              quality={80}
                             />
-                          </div>
-                        )}
-                      </div>
-                    ) : allMedia.length === 2 ? (
-                      // Two media - side by side, centered and fills container
-                      <div className="grid grid-cols-2 gap-1">
-                        {allMedia.map((mediaItem, index) => (
-                          <div 
-                            key={index} 
-                            className="aspect-[16/9] cursor-pointer"
-                            onClick={(e) => handleImageClick(index, e)}
-                          >
-                            {mediaItem.type === 'image' ? (
-                              <LazyImage 
-                                src={mediaItem.url} 
-                                alt={`Tweet image ${index + 1}`} 
-                                className="w-full h-full hover:opacity-95 transition-opacity"
-                                width={400}
-                                quality={80}
+                          ) : (
+                            <div className="relative">
+                              <VideoPlayer
+                                src={allMedia[0].url}
+                                alt={allMedia[0].alt}
+                                className="w-full"
+                                height={175}
+                                controls
+                                muted
+                                onClick={(e) => e.stopPropagation()}
                               />
-                            ) : (
-                              <div className="relative">
-                                <VideoPlayer
-                                  src={mediaItem.url}
-                                  className="w-full"
-                                  height={175}
-                                  controls
-                                  muted
-                                  onClick={(e) => e.stopPropagation()}
+                            </div>
+                          )}
+                        </div>
+                      ) : allMedia.length === 2 ? (
+                        // Two media - side by side, centered and fills container
+                        <div className="grid grid-cols-2 gap-1">
+                          {allMedia.map((mediaItem, index) => (
+                            <div 
+                              key={index} 
+                              className="aspect-[16/9] cursor-pointer"
+                              onClick={(e) => handleImageClick(index, e)}
+                            >
+                              {mediaItem.type === 'image' ? (
+                                <LazyImage 
+                                  src={mediaItem.url} 
+                                  alt={mediaItem.alt || `Tweet image ${index + 1}`}
+                                  className="w-full h-full hover:opacity-95 transition-opacity"
+                                  width={400}
+                                  quality={80}
                                 />
-                              </div>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      // Three or more media - grid layout
-                      <div className="grid grid-cols-2 gap-1">
-                        {allMedia.map((mediaItem, index) => (
-                          <div 
-                            key={index} 
-                            className={`aspect-[16/9] cursor-pointer ${allMedia.length === 3 && index === 0 ? 'row-span-2' : ''}`}
-                            onClick={(e) => handleImageClick(index, e)}
-                          >
-                            {mediaItem.type === 'image' ? (
-                              <LazyImage 
-                                src={mediaItem.url} 
-                                alt={`Tweet image ${index + 1}`} 
-                                className="w-full h-full hover:opacity-95 transition-opacity"
-                                width={400}
-                                quality={80}
-                              />
-                            ) : (
-                              <div className="relative">
-                                <VideoPlayer
-                                  src={mediaItem.url}
-                                  className="w-full"
-                                  height={175}
-                                  controls
-                                  muted
-                                  onClick={(e) => e.stopPropagation()}
+                              ) : (
+                                <div className="relative">
+                                  <VideoPlayer
+                                    src={mediaItem.url}
+                                    alt={mediaItem.alt}
+                                    className="w-full"
+                                    height={175}
+                                    controls
+                                    muted
+                                    onClick={(e) => e.stopPropagation()}
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        // Three or more media - grid layout
+                        <div className="grid grid-cols-2 gap-1">
+                          {allMedia.map((mediaItem, index) => (
+                            <div 
+                              key={index} 
+                              className={`aspect-[16/9] cursor-pointer ${allMedia.length === 3 && index === 0 ? 'row-span-2' : ''}`}
+                              onClick={(e) => handleImageClick(index, e)}
+                            >
+                              {mediaItem.type === 'image' ? (
+                                <LazyImage 
+                                  src={mediaItem.url} 
+                                  alt={mediaItem.alt || `Tweet image ${index + 1}`}
+                                  className="w-full h-full hover:opacity-95 transition-opacity"
+                                  width={400}
+                                  quality={80}
                                 />
-                              </div>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                              ) : (
+                                <div className="relative">
+                                  <VideoPlayer
+                                    src={mediaItem.url}
+                                    alt={mediaItem.alt}
+                                    className="w-full"
+                                    height={175}
+                                    controls
+                                    muted
+                                    onClick={(e) => e.stopPropagation()}
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </SensitiveMediaGate>
                   </div>
                 );
 
@@ -1033,37 +970,60 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                   onClick={(e) => handleReplyClick(e)}
                 >
                   <MessageCircle className="w-5 h-5" />
-                  <span className="text-sm">{formatNumber(tweet.replies)}</span>
+                  <span className="text-sm">{formatNumber(currentTweet.replies)}</span>
                 </Button>
 
-                {/* Retweet */}
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  className={`px-3 py-2 flex items-center gap-1 ${
-                    tweet.isRetweeted 
-                      ? 'text-green-500 hover:text-green-600 hover:bg-green-50' 
-                      : 'text-gray-500 hover:text-green-500 hover:bg-green-50'
-                  }`}
-                  onClick={handleRetweetClick}
-                >
-                  <Repeat2 className="w-5 h-5" />
-                  <span className="text-sm">{formatNumber(tweet.retweets)}</span>
-                </Button>
+                {/* Retweet & Quote */}
+                <DropdownMenu modal={false}>
+                  <DropdownMenuTrigger asChild>
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      className={`px-3 py-2 flex items-center gap-1 ${
+                        currentTweet.isRetweeted 
+                          ? 'text-green-500 hover:text-green-600 hover:bg-green-50' 
+                          : 'text-gray-500 hover:text-green-500 hover:bg-green-50'
+                      }`}
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Repeat2 className="w-5 h-5" />
+                      <span className="text-sm">{formatNumber(currentTweet.retweets)}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent 
+                    align="start" 
+                    side="bottom"
+                    className="w-40 z-50"
+                    sideOffset={4}
+                    avoidCollisions={true}
+                    collisionPadding={8}
+                  >
+                    <DropdownMenuItem onClick={handleRetweetClick} className="hover:bg-gray-50">
+                      <Repeat2 className="w-4 h-4 mr-2" />
+                      {currentTweet.isRetweeted
+                        ? (language === 'en' ? 'Undo Retweet' : 'تراجع عن إعادة التغريد')
+                        : (language === 'en' ? 'Retweet' : 'إعادة تغريد')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleQuoteClick} className="hover:bg-gray-50">
+                      <PenLine className="w-4 h-4 mr-2" />
+                      {language === 'en' ? 'Quote' : 'اقتباس'}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
 
                 {/* Like */}
                 <Button 
                   variant="ghost" 
                   size="sm" 
                   className={`px-3 py-2 flex items-center gap-1 ${
-                    tweet.isLiked 
+                    currentTweet.isLiked 
                       ? 'text-red-500 hover:text-red-600 hover:bg-red-50' 
                       : 'text-gray-500 hover:text-red-500 hover:bg-red-50'
                   }`}
                   onClick={handleLikeClick}
                 >
-                  <Heart className={`w-5 h-5 ${tweet.isLiked ? 'fill-current' : ''}`} />
-                  <span className="text-sm">{formatNumber(tweet.likes)}</span>
+                  <Heart className={`w-5 h-5 ${currentTweet.isLiked ? 'fill-current' : ''}`} />
+                  <span className="text-sm">{formatNumber(currentTweet.likes)}</span>
                 </Button>
 
                 {/* Views */}
@@ -1074,7 +1034,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                   onClick={handleViewsClick}
                 >
                   <Eye className="w-5 h-5" />
-                  <span className="text-sm">{formatNumber(tweet.views)}</span>
+                  <span className="text-sm">{formatNumber(currentTweet.views)}</span>
                 </Button>
 
                 {/* Share & Bookmark */}
@@ -1083,13 +1043,13 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                     variant="ghost" 
                     size="sm" 
                     className={`px-2 py-2 ${
-                      tweet.isBookmarked 
+                      currentTweet.isBookmarked 
                         ? 'text-blue-500 hover:text-blue-600 hover:bg-blue-50' 
                         : 'text-gray-500 hover:text-blue-500 hover:bg-blue-50'
                     }`}
                     onClick={handleBookmarkClick}
                   >
-                    <Bookmark className={`w-5 h-5 ${tweet.isBookmarked ? 'fill-current' : ''}`} />
+                    <Bookmark className={`w-5 h-5 ${currentTweet.isBookmarked ? 'fill-current' : ''}`} />
                   </Button>
                   <Button 
                     variant="ghost" 
@@ -1101,19 +1061,32 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                   </Button>
                 </div>
               </div>
+
+              {/* Likes and bookmarks still queued in the offline outbox */}
+              <OutboxStatus entries={outboxEntries} className="mt-1" />
+
+              {/* First post of a thread; the rest are self-replies that feeds leave out */}
+              {isThreadStart(currentTweet) && !isReply && (
+                <button
+                  className="mt-1 text-sm text-blue-500 hover:underline"
+                  onClick={handleShowThreadClick}
+                >
+                  {language === 'en' ? 'Show this thread' : 'عرض هذه السلسلة'}
+                </button>
+              )}
             </div>
           </div>
 
           {/* Reply Composer */}
           {showReplyComposer && (
             <ReplyComposer
-              tweet={replyingToTweetId === tweet.id ? tweet : { ...tweet, id: replyingToTweetId! }}
+              tweet={replyingToTweetId === currentTweet.id ? currentTweet : { ...currentTweet, id: replyingToTweetId! }}
               onCancel={() => {
                 setShowReplyComposer(false);
                 setReplyingToTweetId(null);
               }}
               onReplySuccess={handleReplySuccess}
-              replyingToReply={isReply && replyingToTweetId !== tweet.id}
+              replyingToReply={isReply && replyingToTweetId !== currentTweet.id}
             />
           )}
         </div>
@@ -1130,7 +1103,7 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                 onBookmark={() => {}} // TODO: Implement reply bookmark
                 currentUserId={currentUserId}
                 isReply={true}
-                parentTweetId={tweet.id}
+                parentTweetId={currentTweet.id}
               />
             ))}
           </div>
@@ -1183,13 +1156,14 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
               {selectedMedia.type === 'image' ? (
                 <img
                   src={selectedMedia.url}
-                  alt={`Tweet image ${selectedImageIndex + 1}`}
+                  alt={selectedMedia.alt || `Tweet image ${selectedImageIndex + 1}`}
                   className="max-w-full max-h-full object-contain object-center"
                   loading="eager" // Force immediate loading for modal view
                 />
               ) : (
                 <VideoPlayer
                   src={selectedMedia.url}
+                  alt={selectedMedia.alt}
                   className="max-w-full max-h-full"
                   controls={true}
                   muted={false}
@@ -1197,6 +1171,16 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
                 />
               )}
 
+              {/* The author's description, for everyone who can't make out the picture */}
+              {selectedMedia.alt && (
+                <p
+                  className={`absolute left-4 right-4 ${allMedia.length > 1 ? 'bottom-14' : 'bottom-4'} mx-auto max-w-2xl max-h-32 overflow-y-auto bg-black/70 text-white text-sm px-4 py-2 rounded-lg whitespace-pre-wrap`}
+                  dir="auto"
+                >
+                  {selectedMedia.alt}
+                </p>
+              )}
+
               {/* Media counter */}
               {allMedia.length > 1 && (
                 <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
@@ -1207,6 +1191,22 @@ export const TweetCard: React.FC<TweetCardProps> = React.memo(({
           </div>
         );
       })()}
+
+      {/* Edit & Edit History */}
+      {showEditModal && (
+        <EditTweetModal tweet={currentTweet} isOpen={showEditModal} onClose={() => setShowEditModal(false)} />
+      )}
+      {showEditHistory && (
+        <EditHistoryModal tweet={currentTweet} isOpen={showEditHistory} onClose={() => setShowEditHistory(false)} />
+      )}
+      {showSaveToTrip && currentUserId && (
+        <SaveToTripDialog
+          tweet={currentTweet}
+          userId={currentUserId}
+          isOpen={showSaveToTrip}
+          onClose={() => setShowSaveToTrip(false)}
+        />
+      )}
     </>
   );
 });
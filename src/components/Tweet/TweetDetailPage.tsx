@@ -1,22 +1,37 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, CornerUpLeft, Eye, Play } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, CornerUpLeft, Eye, Play } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '../ui/avatar';
 import { TweetCard } from './TweetCard';
 import { MobileTweetCard } from './MobileTweetCard';
 import { TweetSkeleton } from './TweetSkeleton';
 import { ReplyComposer } from './ReplyComposer';
+import { QuotedTweetCard } from './QuotedTweetCard';
+import { PollCard } from './PollCard';
+import { ItineraryCard } from './ItineraryCard';
+import { ReviewCard } from './ReviewCard';
+import { FlightDealCard } from './FlightDealCard';
+import { ListingCard } from './ListingCard';
+import { QuestionCard } from './QuestionCard';
+import { EditHistoryModal } from './EditHistoryModal';
+import { ThreadPostList } from './ThreadPostList';
+import { SensitiveMediaGate } from './SensitiveMediaGate';
 import { TrendingSidebar } from '../Layout/TrendingSidebar';
 import { TweetBadges } from '../ui/TweetBadges';
+import { PlaceChip } from './PlaceChip';
 import { useAuth } from '../../hooks/useAuth';
 import { useTweets } from '../../hooks/useTweets';
 import { useTweetViews } from '../../hooks/useTweetViews';
 import { usePinnedTweets } from '../../hooks/usePinnedTweets';
+import { useTweetList } from '../../hooks/useTweetEntity';
+import { useQuotes } from '../../hooks/useQuotes';
+import { useIsModerator } from '../../hooks/useIsModerator';
 import { useLanguageStore } from '../../store/useLanguageStore';
-import { supabase } from '../../lib/supabase';
+import { useStore } from '../../store/useStore';
 import { storageService } from '../../lib/storage';
-import { Tweet, TweetWithProfile } from '../../types';
+import { Tweet } from '../../types';
+import { fetchTweetById, fetchThread, getTweetMedia, setAcceptedAnswer } from '../../lib/tweetRepository';
 import { formatDistanceToNow } from 'date-fns';
 import { arSA, enUS } from 'date-fns/locale';
 import { LazyImage } from '../ui/LazyImage';
@@ -41,14 +56,33 @@ export const TweetDetailPage: React.FC = () => {
   const { recordView } = useTweetViews();
   const { checkIfUserIsAdmin } = usePinnedTweets();
   const { language, isRTL } = useLanguageStore();
+  const isModerator = useIsModerator();
   
-  const [tweet, setTweet] = useState<Tweet | null>(null);
-  const [parentTweet, setParentTweet] = useState<Tweet | null>(null);
+  const upsertTweets = useStore(state => state.upsertTweets);
+  const patchTweet = useStore(state => state.patchTweet);
+  
+  const [loadedTweet, setLoadedTweet] = useState<Tweet | null>(null);
+  const [loadedParent, setLoadedParent] = useState<Tweet | null>(null);
+  const [loadedThread, setLoadedThread] = useState<Tweet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showReplyComposer, setShowReplyComposer] = useState(false);
   const [showSidebar, setShowSidebar] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [activeTab, setActiveTab] = useState<'replies' | 'quotes'>('replies');
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [acceptingAnswerId, setAcceptingAnswerId] = useState<string | null>(null);
+  const {
+    quotes,
+    loading: quotesLoading,
+    hasMore: hasMoreQuotes,
+    loadMore: loadMoreQuotes,
+  } = useQuotes(tweetId, user?.id, activeTab === 'quotes');
+
+  // Counts and flags come from the entity store so changes made elsewhere show up here
+  const [tweet = null] = useTweetList(useMemo(() => (loadedTweet ? [loadedTweet] : []), [loadedTweet]));
+  const [parentTweet = null] = useTweetList(useMemo(() => (loadedParent ? [loadedParent] : []), [loadedParent]));
+  const thread = useTweetList(loadedThread);
 
   // Handle window resize to show/hide sidebar
   useEffect(() => {
@@ -79,54 +113,23 @@ export const TweetDetailPage: React.FC = () => {
 
   useEffect(() => {
     if (tweetId) {
+      setActiveTab('replies');
       fetchTweetDetail();
     }
   }, [tweetId]);
 
   // Record view when tweet detail page loads
   useEffect(() => {
-    if (tweet && user) {
-      recordView(tweet.id);
+    if (loadedTweet && user) {
+      recordView(loadedTweet.id);
     }
-  }, [tweet, user, recordView]);
+  }, [loadedTweet, user, recordView]);
 
   // Check if current user is admin
   useEffect(() => {
     checkIfUserIsAdmin().then(setIsAdmin);
   }, [checkIfUserIsAdmin]);
 
-  const formatTweetData = (tweetData: TweetWithProfile, userLikes: string[], userRetweets: string[], userBookmarks: string[]): Tweet => {
-    return {
-      id: tweetData.id,
-      content: tweetData.content,
-      author: {
-        id: tweetData.profiles.id,
-        username: tweetData.profiles.username,
-        displayName: tweetData.profiles.display_name,
-        avatar: tweetData.profiles.avatar_url ?? '',
-        bio: tweetData.profiles.bio ?? '',
-        verified: tweetData.profiles.verified,
-        followers: tweetData.profiles.followers_count,
-        following: tweetData.profiles.following_count,
-        country: tweetData.profiles.country ?? undefined,
-        joinedDate: new Date(tweetData.profiles.created_at),
-      },
-      createdAt: new Date(tweetData.created_at),
-      likes: tweetData.likes_count,
-      retweets: tweetData.retweets_count,
-      replies: tweetData.replies_count,
-      views: tweetData.views_count,
-      images: tweetData.image_urls || [],
-      isLiked: userLikes.includes(tweetData.id),
-      isRetweeted: userRetweets.includes(tweetData.id),
-      isBookmarked: userBookmarks.includes(tweetData.id),
-      hashtags: tweetData.hashtags,
-      mentions: tweetData.mentions,
-      tags: tweetData.tags || [],
-      replyTo: tweetData.reply_to ?? undefined,
-    };
-  };
-
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
       return (num / 1000000).toFixed(1) + 'M';
@@ -138,28 +141,11 @@ export const TweetDetailPage: React.FC = () => {
   };
 
   // Helper to aggregate and detect media (images & videos)
-  const getAllMedia = (): { url: string; type: 'image' | 'video' }[] => {
-    if (!tweet) return [];
-
-    const media: { url: string; type: 'image' | 'video' }[] = [];
-
-    const isVideoUrl = (url: string): boolean => url.toLowerCase().endsWith('.mp4');
-
-    if (tweet.images && tweet.images.length) {
-      tweet.images.forEach((rawUrl) => {
-        const cleanUrl = rawUrl.startsWith('image:') ? rawUrl.slice(6) : rawUrl.startsWith('video:') ? rawUrl.slice(6) : rawUrl;
-        if (!/^https?:\/\//.test(cleanUrl)) return;
-        media.push({ url: cleanUrl, type: isVideoUrl(cleanUrl) ? 'video' : 'image' });
-      });
-    }
+  const getAllMedia = () => (tweet ? getTweetMedia(tweet) : []);
 
-    // If tweet.videos or tweet.media are available in the future, include them here as well
-
-    return media;
-  };
-
-  // Sub-component to render the media grid (desktop & mobile share logic)
-  const MediaGrid: React.FC<{ mobile?: boolean }> = ({ mobile = false }) => {
+  // Media grid shared by the desktop & mobile layouts; a render function, so a revealed
+  // sensitive-media warning stays revealed across re-renders
+  const renderMediaGrid = (mobile = false) => {
     const allMedia = getAllMedia();
     if (allMedia.length === 0) return null;
 
@@ -167,60 +153,207 @@ export const TweetDetailPage: React.FC = () => {
 
     return (
       <div className={containerClass}>
-        {allMedia.length === 1 ? (
-          allMedia[0].type === 'image' ? (
-            <LazyImage
-              src={allMedia[0].url}
-              alt="Tweet media"
-              className={mobile ? 'w-full aspect-[16/9] object-cover' : 'w-full max-h-96 object-cover'}
-              width={600}
-              quality={80}
-            />
+        <SensitiveMediaGate sensitive={tweet?.sensitiveMedia} currentUserId={user?.id}>
+          {allMedia.length === 1 ? (
+            allMedia[0].type === 'image' ? (
+              <LazyImage
+                src={allMedia[0].url}
+                alt={allMedia[0].alt || 'Tweet media'}
+                className={mobile ? 'w-full aspect-[16/9] object-cover' : 'w-full max-h-96 object-cover'}
+                width={600}
+                quality={80}
+              />
+            ) : (
+              <VideoPlayer
+                src={allMedia[0].url}
+                alt={allMedia[0].alt || 'Tweet video'}
+                className={mobile ? 'w-full aspect-[16/9]' : 'w-full max-h-96'}
+                controls={true}
+                muted={true}
+                loading="lazy"
+              />
+            )
           ) : (
-            <VideoPlayer
-              src={allMedia[0].url}
-              alt="Tweet video"
-              className={mobile ? 'w-full aspect-[16/9]' : 'w-full max-h-96'}
-              controls={true}
-              muted={true}
-              loading="lazy"
-            />
-          )
-        ) : (
-          <div
-            className={`grid gap-1 ${
-              allMedia.length === 2
-                ? 'grid-cols-2'
-                : allMedia.length === 3
-                ? 'grid-cols-2 grid-rows-2'
-                : 'grid-cols-2'
-            }`}
-          >
-            {allMedia.map((item, index) => (
-              <div
-                key={index}
-                className={`${allMedia.length === 3 && index === 0 ? 'row-span-2' : ''} aspect-[16/9]`}
-              >
-                {item.type === 'image' ? (
-                  <LazyImage
-                    src={item.url}
-                    alt={`Tweet media ${index + 1}`}
-                    className="w-full h-full object-cover"
-                    width={400}
-                    quality={80}
-                  />
-                ) : (
-                  <VideoPlayer
-                    src={item.url}
-                    alt={`Tweet video ${index + 1}`}
-                    className="w-full h-full"
-                    controls={true}
-                    muted={true}
-                    loading="lazy"
-                  />
-                )}
-              </div>
-            ))}
+            <div
+              className={`grid gap-1 ${
+                allMedia.length === 2
+                  ? 'grid-cols-2'
+                  : allMedia.length === 3
+                  ? 'grid-cols-2 grid-rows-2'
+                  : 'grid-cols-2'
+              }`}
+            >
+              {allMedia.map((item, index) => (
+                <div
+                  key={index}
+                  className={`${allMedia.length === 3 && index === 0 ? 'row-span-2' : ''} aspect-[16/9]`}
+                >
+                  {item.type === 'image' ? (
+                    <LazyImage
+                      src={item.url}
+                      alt={item.alt || `Tweet media ${index + 1}`}
+                      className="w-full h-full object-cover"
+                      width={400}
+                      quality={80}
+                    />
+                  ) : (
+                    <VideoPlayer
+                      src={item.url}
+                      alt={item.alt || `Tweet video ${index + 1}`}
+                      className="w-full h-full"
+                      controls={true}
+                      muted={true}
+                      loading="lazy"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </SensitiveMediaGate>
+      </div>
+    );
+  };
+
+  // Replies / Quotes switcher above the list under the main tweet
+  const renderListTabs = () => (
+    <div className="flex border-b border-gray-200">
+      {(['replies', 'quotes'] as const).map(tab => (
+        <Button
+          key={tab}
+          variant="ghost"
+          onClick={() => setActiveTab(tab)}
+          className={`flex-1 py-3 px-4 font-bold text-sm rounded-none border-b-2 transition-colors ${
+            activeTab === tab
+              ? 'border-blue-500 text-black'
+              : 'border-transparent text-gray-500 hover:bg-gray-50'
+          }`}
+        >
+          {tab === 'replies'
+            ? (language === 'en' ? 'Replies' : 'الردود')
+            : (language === 'en' ? 'Quotes' : 'الاقتباسات')}
+        </Button>
+      ))}
+    </div>
+  );
+
+  // Replies to a question start with its accepted answer, which the author or a moderator picks here
+  const renderReplies = (replyList: Tweet[], acceptedAnswer: Tweet | undefined, canAccept: boolean, mobile: boolean) => {
+    const orderedReplies = acceptedAnswer
+      ? [acceptedAnswer, ...replyList.filter(reply => reply.id !== acceptedAnswer.id)]
+      : replyList;
+
+    if (orderedReplies.length === 0) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg">No replies yet</p>
+          <p className="text-sm mt-2">Be the first to reply!</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="divide-y divide-gray-100">
+        {orderedReplies.map((reply) => {
+          const accepted = reply.id === acceptedAnswer?.id;
+          return (
+            <div
+              key={reply.id}
+              className={`${accepted ? 'bg-green-50/50' : ''} ${mobile ? '' : 'hover:bg-gray-50 transition-colors'}`}
+            >
+              {(accepted || canAccept) && (
+                <div className={`flex items-center justify-between gap-2 px-4 pt-2 text-xs ${mobile ? '' : 'text-sm'}`}>
+                  {accepted ? (
+                    <span className="flex items-center gap-1 text-green-700 font-medium">
+                      <CheckCircle2 className="h-4 w-4" />
+                      {language === 'en' ? 'Accepted answer' : 'الإجابة المعتمدة'}
+                    </span>
+                  ) : <span />}
+                  {canAccept && (
+                    <button
+                      type="button"
+                      onClick={() => handleAcceptAnswer(accepted ? null : reply)}
+                      disabled={acceptingAnswerId !== null}
+                      className={`font-medium disabled:opacity-50 ${
+                        accepted ? 'text-gray-500 hover:text-gray-700' : 'text-green-700 hover:text-green-800'
+                      }`}
+                    >
+                      {accepted
+                        ? (language === 'en' ? 'Unaccept' : 'إلغاء الاعتماد')
+                        : (language === 'en' ? 'Accept answer' : 'اعتماد كإجابة')}
+                    </button>
+                  )}
+                </div>
+              )}
+              {mobile ? (
+                <MobileTweetCard
+                  tweet={reply}
+                  onLike={() => handleLike(reply.id, reply.isLiked)}
+                  onRetweet={() => handleRetweet(reply.id)}
+                  onBookmark={() => handleBookmark(reply.id)}
+                  currentUserId={user?.id}
+                  isReply={true}
+                  parentTweetId={tweet?.id}
+                />
+              ) : (
+                <TweetCard
+                  tweet={reply}
+                  onLike={() => handleLike(reply.id, reply.isLiked)}
+                  onRetweet={() => handleRetweet(reply.id)}
+                  onBookmark={() => handleBookmark(reply.id)}
+                  currentUserId={user?.id}
+                  isReply={true}
+                  parentTweetId={tweet?.id}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderQuotes = (mobile: boolean) => {
+    if (quotes.length === 0) {
+      return quotesLoading ? (
+        <TweetSkeleton />
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg">{language === 'en' ? 'No quotes yet' : 'لا توجد اقتباسات بعد'}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="divide-y divide-gray-100">
+        {quotes.map((quote) => (
+          <div key={quote.id} className={mobile ? '' : 'hover:bg-gray-50 transition-colors'}>
+            {mobile ? (
+              <MobileTweetCard
+                tweet={quote}
+                onLike={() => handleLike(quote.id, quote.isLiked)}
+                onRetweet={() => handleRetweet(quote.id)}
+                onBookmark={() => handleBookmark(quote.id)}
+                currentUserId={user?.id}
+              />
+            ) : (
+              <TweetCard
+                tweet={quote}
+                onLike={() => handleLike(quote.id, quote.isLiked)}
+                onRetweet={() => handleRetweet(quote.id)}
+                onBookmark={() => handleBookmark(quote.id)}
+                currentUserId={user?.id}
+              />
+            )}
+          </div>
+        ))}
+        {hasMoreQuotes && (
+          <div className="p-4 text-center">
+            <Button variant="ghost" onClick={loadMoreQuotes} disabled={quotesLoading} className="text-blue-500">
+              {quotesLoading
+                ? (language === 'en' ? 'Loading...' : 'جاري التحميل...')
+                : (language === 'en' ? 'Show more quotes' : 'عرض المزيد من الاقتباسات')}
+            </Button>
           </div>
         )}
       </div>
@@ -233,79 +366,24 @@ export const TweetDetailPage: React.FC = () => {
       setError(null);
 
       // Fetch the main tweet
-      const { data: tweetData, error: tweetError } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          reply_to,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
-        .eq('id', tweetId)
-        .single();
-
-      if (tweetError) throw tweetError;
-
-      // Get current user interactions
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-      
-      if (user) {
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase
-            .from('likes')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', tweetData.id),
-          supabase
-            .from('retweets')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', tweetData.id),
-          supabase
-            .from('bookmarks')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', tweetData.id)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
-      const formattedTweet = formatTweetData(tweetData as unknown as TweetWithProfile, userLikes, userRetweets, userBookmarks);
-      setTweet(formattedTweet);
+      const formattedTweet = await fetchTweetById(tweetId!, user?.id);
+      upsertTweets([formattedTweet]);
+      setLoadedTweet(formattedTweet);
 
       // If this tweet is a reply, fetch the parent tweet
-      if (tweetData.reply_to) {
-        await fetchParentTweet(tweetData.reply_to);
+      if (formattedTweet.replyTo) {
+        await fetchParentTweet(formattedTweet.replyTo);
+      }
+
+      // Part of a thread: load the rest of it so it reads as one connected sequence
+      if (formattedTweet.threadRootId) {
+        await fetchThreadPosts(formattedTweet.threadRootId);
+      } else {
+        setLoadedThread([]);
       }
 
       // Fetch replies to this tweet
-      await fetchReplies(tweetData.id);
+      await fetchReplies(formattedTweet.id);
 
     } catch (err: any) {
       setError(err.message);
@@ -317,76 +395,25 @@ export const TweetDetailPage: React.FC = () => {
 
   const fetchParentTweet = async (parentId: string) => {
     try {
-      const { data: parentData, error: parentError } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          reply_to,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
-        .eq('id', parentId)
-        .single();
-
-      if (parentError) throw parentError;
-
-      // Get user interactions for parent tweet
-      let userLikes: string[] = [];
-      let userRetweets: string[] = [];
-      let userBookmarks: string[] = [];
-      
-      if (user) {
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-          supabase
-            .from('likes')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', parentData.id),
-          supabase
-            .from('retweets')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', parentData.id),
-          supabase
-            .from('bookmarks')
-            .select('tweet_id')
-            .eq('user_id', user.id)
-            .eq('tweet_id', parentData.id)
-        ]);
-        
-        userLikes = likesResult.data?.map(like => like.tweet_id) || [];
-        userRetweets = retweetsResult.data?.map(retweet => retweet.tweet_id) || [];
-        userBookmarks = bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || [];
-      }
-
-      const formattedParent = formatTweetData(parentData as unknown as TweetWithProfile, userLikes, userRetweets, userBookmarks);
-      setParentTweet(formattedParent);
+      const formattedParent = await fetchTweetById(parentId, user?.id);
+      upsertTweets([formattedParent]);
+      setLoadedParent(formattedParent);
     } catch (error) {
       console.error('Error fetching parent tweet:', error);
     }
   };
 
+  const fetchThreadPosts = async (threadRootId: string) => {
+    try {
+      const posts = await fetchThread(threadRootId, user?.id);
+      upsertTweets(posts);
+      setLoadedThread(posts);
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      setLoadedThread([]);
+    }
+  };
+
   const handleLike = async (targetTweetId: string, isCurrentlyLiked: boolean) => {
     try {
       if (isCurrentlyLiked) {
@@ -394,23 +421,6 @@ export const TweetDetailPage: React.FC = () => {
       } else {
         await likeTweet(targetTweetId);
       }
-      
-      // Update local state
-      if (tweet && tweet.id === targetTweetId) {
-        setTweet(prev => prev ? {
-          ...prev,
-          isLiked: !isCurrentlyLiked,
-          likes: isCurrentlyLiked ? prev.likes - 1 : prev.likes + 1
-        } : null);
-      }
-      
-      if (parentTweet && parentTweet.id === targetTweetId) {
-        setParentTweet(prev => prev ? {
-          ...prev,
-          isLiked: !isCurrentlyLiked,
-          likes: isCurrentlyLiked ? prev.likes - 1 : prev.likes + 1
-        } : null);
-      }
     } catch (error) {
       console.error('Error toggling like:', error);
     }
@@ -427,9 +437,22 @@ export const TweetDetailPage: React.FC = () => {
   const handleReplySuccess = async () => {
     setShowReplyComposer(false);
     if (tweet) {
+      // The reply count is bumped in the store by createReply
       await fetchReplies(tweet.id);
-      // Update reply count
-      setTweet(prev => prev ? { ...prev, replies: prev.replies + 1 } : null);
+    }
+  };
+
+  // Accept a reply as the question's answer, or clear it with null
+  const handleAcceptAnswer = async (answer: Tweet | null) => {
+    if (!tweet) return;
+    setAcceptingAnswerId(answer?.id ?? tweet.acceptedAnswerId ?? null);
+    try {
+      await setAcceptedAnswer(tweet.id, answer?.id ?? null);
+      patchTweet(tweet.id, { acceptedAnswerId: answer?.id, acceptedAnswer: answer ?? undefined });
+    } catch (error) {
+      console.error('Error setting accepted answer:', error);
+    } finally {
+      setAcceptingAnswerId(null);
     }
   };
 
@@ -555,7 +578,18 @@ export const TweetDetailPage: React.FC = () => {
     );
   }
 
-  const tweetReplies = replies[tweet.id] || [];
+  // The thread's own posts are shown above and below the tweet, so they're left out of the replies
+  const threadPosition = tweet.threadPosition ?? 0;
+  const threadBefore = thread.filter(post => (post.threadPosition ?? 0) < threadPosition);
+  const threadAfter = thread.filter(post => (post.threadPosition ?? 0) > threadPosition);
+  const tweetReplies = (replies[tweet.id] || []).filter(
+    reply => !tweet.threadRootId || reply.threadRootId !== tweet.threadRootId
+  );
+  // The answer may not be in the loaded replies yet, so the embedded copy stands in
+  const acceptedAnswer = tweet.acceptedAnswerId
+    ? tweetReplies.find(reply => reply.id === tweet.acceptedAnswerId) ?? tweet.acceptedAnswer
+    : undefined;
+  const canAcceptAnswer = !!tweet.isQuestion && !!user && (tweet.author.id === user.id || isModerator);
 
   return (
     <div className="min-h-screen bg-white flex h-screen overflow-hidden">
@@ -578,8 +612,10 @@ export const TweetDetailPage: React.FC = () => {
 
           {/* Scrollable Content */}
           <div className="flex-1 overflow-y-auto">
-            {/* Parent Tweet (if this is a reply) */}
-            {parentTweet && (
+            {/* Earlier posts of the thread, or the parent tweet if this is a reply */}
+            {threadBefore.length > 0 ? (
+              <ThreadPostList posts={threadBefore} total={thread.length} currentUserId={user?.id} connectLast />
+            ) : parentTweet && (
               <div className="border-b border-gray-200">
                 <div className="p-4">
                   <div className="flex items-center space-x-2 text-gray-500 text-sm mb-3">
@@ -688,15 +724,36 @@ export const TweetDetailPage: React.FC = () => {
                   tags={tweet.tags || []}
                   isAdmin={isAdmin}
                   onTagsUpdate={(newTags) => {
-                    setTweet(prev => prev ? {
-                      ...prev,
-                      tags: newTags
-                    } : null);
+                    patchTweet(tweet.id, { tags: newTags });
                   }}
                 />
 
+                {/* Place */}
+                <PlaceChip place={tweet.place} />
+
                 {/* Media (Images & Videos) */}
-                <MediaGrid />
+                {renderMediaGrid()}
+
+                {/* Poll */}
+                {tweet.poll && <PollCard tweet={tweet} currentUserId={user?.id} />}
+
+                {/* Itinerary */}
+                {tweet.itinerary && <ItineraryCard tweet={tweet} currentUserId={user?.id} defaultExpanded />}
+
+                {/* Review */}
+                {tweet.review && <ReviewCard tweet={tweet} />}
+
+                {/* Flight deal */}
+                {tweet.flightDeal && <FlightDealCard tweet={tweet} />}
+
+                {/* Listing */}
+                {tweet.listing && <ListingCard tweet={tweet} currentUserId={user?.id} />}
+
+                {/* Question: the accepted answer is pinned above the replies */}
+                {tweet.isQuestion && <QuestionCard tweet={tweet} showAnswer={false} />}
+
+                {/* Quoted Tweet */}
+                {tweet.quotedTweet && <QuotedTweetCard tweet={tweet.quotedTweet} currentUserId={user?.id} className="mb-4" />}
 
                 {/* Timestamp */}
                 <div className="text-gray-500 text-sm mb-4 pb-4 border-b border-gray-100">
@@ -708,6 +765,11 @@ export const TweetDetailPage: React.FC = () => {
                     day: 'numeric',
                     year: 'numeric'
                   })}
+                  {!!tweet.editCount && (
+                    <button className="ml-1 hover:underline" onClick={() => setShowEditHistory(true)}>
+                      · {language === 'en' ? 'Edited' : 'معدّل'}
+                    </button>
+                  )}
                 </div>
 
                 {/* Engagement Stats */}
@@ -716,6 +778,10 @@ export const TweetDetailPage: React.FC = () => {
                     <span className="font-bold text-gray-900">{tweet.retweets.toLocaleString()}</span>
                     <span className="ml-1">Retweets</span>
                   </div>
+                  <button className="hover:underline" onClick={() => setActiveTab('quotes')}>
+                    <span className="font-bold text-gray-900">{tweet.quotes.toLocaleString()}</span>
+                    <span className="ml-1">{language === 'en' ? 'Quotes' : 'اقتباسات'}</span>
+                  </button>
                   <div>
                     <span className="font-bold text-gray-900">{tweet.likes.toLocaleString()}</span>
                     <span className="ml-1">Likes</span>
@@ -806,30 +872,15 @@ export const TweetDetailPage: React.FC = () => {
               )}
             </div>
 
-            {/* Replies */}
+            {/* Rest of the thread */}
+            {threadAfter.length > 0 && <ThreadPostList posts={threadAfter} total={thread.length} currentUserId={user?.id} />}
+
+            {/* Replies & Quotes */}
+            {renderListTabs()}
             <div className="pb-20 md:pb-0">
-              {tweetReplies.length === 0 ? (
-                <div className="text-center py-12 text-gray-500">
-                  <p className="text-lg">No replies yet</p>
-                  <p className="text-sm mt-2">Be the first to reply!</p>
-                </div>
-              ) : (
-                <div className="divide-y divide-gray-100">
-                  {tweetReplies.map((reply) => (
-                    <div key={reply.id} className="hover:bg-gray-50 transition-colors">
-                      <TweetCard 
-                        tweet={reply} 
-                        onLike={() => handleLike(reply.id, reply.isLiked)}
-                        onRetweet={() => handleRetweet(reply.id)}
-                        onBookmark={() => handleBookmark(reply.id)}
-                        currentUserId={user?.id}
-                        isReply={true}
-                        parentTweetId={tweet.id}
-                      />
-                    </div>
-                  ))}
-                </div>
-              )}
+              {activeTab === 'quotes'
+                ? renderQuotes(false)
+                : renderReplies(tweetReplies, acceptedAnswer, canAcceptAnswer, false)}
             </div>
           </div>
         </div>
@@ -855,8 +906,10 @@ export const TweetDetailPage: React.FC = () => {
 
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto">
-          {/* Parent Tweet (if this is a reply) */}
-          {parentTweet && (
+          {/* Earlier posts of the thread, or the parent tweet if this is a reply */}
+          {threadBefore.length > 0 ? (
+            <ThreadPostList posts={threadBefore} total={thread.length} currentUserId={user?.id} compact connectLast />
+          ) : parentTweet && (
             <div className="border-b border-gray-200">
               <div className="p-4">
                 <div className="flex items-center space-x-2 text-gray-500 text-xs mb-3">
@@ -961,15 +1014,36 @@ export const TweetDetailPage: React.FC = () => {
                 tags={tweet.tags || []}
                 isAdmin={isAdmin}
                 onTagsUpdate={(newTags) => {
-                  setTweet(prev => prev ? {
-                    ...prev,
-                    tags: newTags
-                  } : null);
+                  patchTweet(tweet.id, { tags: newTags });
                 }}
               />
 
+              {/* Place */}
+              <PlaceChip place={tweet.place} compact />
+
               {/* Media (Images & Videos) */}
-              <MediaGrid mobile />
+              {renderMediaGrid(true)}
+
+              {/* Poll */}
+              {tweet.poll && <PollCard tweet={tweet} currentUserId={user?.id} compact />}
+
+              {/* Itinerary */}
+              {tweet.itinerary && <ItineraryCard tweet={tweet} currentUserId={user?.id} compact defaultExpanded />}
+
+              {/* Review */}
+              {tweet.review && <ReviewCard tweet={tweet} compact />}
+
+              {/* Flight deal */}
+              {tweet.flightDeal && <FlightDealCard tweet={tweet} compact />}
+
+              {/* Listing */}
+              {tweet.listing && <ListingCard tweet={tweet} currentUserId={user?.id} compact />}
+
+              {/* Question: the accepted answer is pinned above the replies */}
+              {tweet.isQuestion && <QuestionCard tweet={tweet} compact showAnswer={false} />}
+
+              {/* Quoted Tweet */}
+              {tweet.quotedTweet && <QuotedTweetCard tweet={tweet.quotedTweet} currentUserId={user?.id} compact className="mb-3" />}
 
               {/* Timestamp */}
               <div className="text-gray-500 text-sm mb-3 pb-3 border-b border-gray-100">
@@ -981,6 +1055,11 @@ export const TweetDetailPage: React.FC = () => {
                   day: 'numeric',
                   year: 'numeric'
                 })}
+                {!!tweet.editCount && (
+                  <button className="ml-1 hover:underline" onClick={() => setShowEditHistory(true)}>
+                    · {language === 'en' ? 'Edited' : 'معدّل'}
+                  </button>
+                )}
               </div>
 
               {/* Engagement Stats */}
@@ -989,6 +1068,10 @@ export const TweetDetailPage: React.FC = () => {
                   <span className="font-bold text-gray-900">{tweet.retweets.toLocaleString()}</span>
                   <span className="ml-1">Retweets</span>
                 </div>
+                <button className="hover:underline" onClick={() => setActiveTab('quotes')}>
+                  <span className="font-bold text-gray-900">{tweet.quotes.toLocaleString()}</span>
+                  <span className="ml-1">{language === 'en' ? 'Quotes' : 'اقتباسات'}</span>
+                </button>
                 <div>
                   <span className="font-bold text-gray-900">{tweet.likes.toLocaleString()}</span>
                   <span className="ml-1">Likes</span>
@@ -1079,33 +1162,23 @@ export const TweetDetailPage: React.FC = () => {
             )}
           </div>
 
-          {/* Replies */}
+          {/* Rest of the thread */}
+          {threadAfter.length > 0 && <ThreadPostList posts={threadAfter} total={thread.length} currentUserId={user?.id} compact />}
+
+          {/* Replies & Quotes */}
+          {renderListTabs()}
           <div className="pb-20">
-            {tweetReplies.length === 0 ? (
-              <div className="text-center py-12 text-gray-500">
-                <p className="text-lg">No replies yet</p>
-                <p className="text-sm mt-2">Be the first to reply!</p>
-              </div>
-            ) : (
-              <div className="divide-y divide-gray-100">
-                {tweetReplies.map((reply) => (
-                  <div key={reply.id}>
-                    <MobileTweetCard 
-                      tweet={reply}
-                      onLike={() => handleLike(reply.id, reply.isLiked)}
-                      onRetweet={() => handleRetweet(reply.id)}
-                      onBookmark={() => handleBookmark(reply.id)}
-                      currentUserId={user?.id}
-                      isReply={true}
-                      parentTweetId={tweet.id}
-                    />
-                  </div>
-                ))}
-              </div>
-            )}
+            {activeTab === 'quotes'
+              ? renderQuotes(true)
+              : renderReplies(tweetReplies, acceptedAnswer, canAcceptAnswer, true)}
           </div>
         </div>
       </div>
+
+      {/* Edit History */}
+      {showEditHistory && (
+        <EditHistoryModal tweet={tweet} isOpen={showEditHistory} onClose={() => setShowEditHistory(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
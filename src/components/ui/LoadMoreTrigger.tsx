@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  rootMargin?: string;
+}
+
+/**
+ * Invisible sentinel that requests the next page when it scrolls near the viewport.
+ */
+export const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({
+  hasMore,
+  loading,
+  onLoadMore,
+  rootMargin = '400px',
+}) => {
+  const triggerRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const target = triggerRef.current;
+    if (!target || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin, threshold: 0.1 }
+    );
+
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMore, loading, rootMargin]);
+
+  return (
+    <>
+      <div ref={triggerRef} className="h-4" />
+      {loading && (
+        <div className="p-4 text-center">
+          <LoadingSpinner size="sm" />
+        </div>
+      )}
+    </>
+  );
+};
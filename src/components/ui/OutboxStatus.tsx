@@ -0,0 +1,52 @@
+import React from 'react';
+import { Clock, AlertCircle } from 'lucide-react';
+import { useLanguageStore } from '../../store/useLanguageStore';
+import { OutboxEntry } from '../../store/useOutboxStore';
+import { retryOutboxEntry, discardOutboxEntry } from '../../lib/outbox';
+
+interface OutboxStatusProps {
+  entries: OutboxEntry[];
+  className?: string;
+}
+
+// Shows whether queued actions are still waiting for a connection or were rejected
+export const OutboxStatus: React.FC<OutboxStatusProps> = ({ entries, className = '' }) => {
+  const { language } = useLanguageStore();
+
+  const failed = entries.filter(entry => entry.status === 'failed');
+  // Online sends finish in a moment; only mention ones that are actually stuck
+  const waiting = entries.some(entry =>
+    entry.status !== 'failed' && (entry.attempts > 0 || !navigator.onLine)
+  );
+
+  const handleClick = (e: React.MouseEvent, action: (entryId: string) => void) => {
+    e.stopPropagation();
+    failed.forEach(entry => action(entry.id));
+  };
+
+  if (failed.length > 0) {
+    return (
+      <div className={`flex items-center gap-1 text-xs text-red-600 ${className}`} title={failed[0].error}>
+        <AlertCircle className="w-3 h-3" />
+        <span>{language === 'en' ? "Couldn't save" : 'تعذر الحفظ'}</span>
+        <span>·</span>
+        <button className="font-medium hover:underline" onClick={(e) => handleClick(e, retryOutboxEntry)}>
+          {language === 'en' ? 'Retry' : 'إعادة المحاولة'}
+        </button>
+        <span>·</span>
+        <button className="font-medium hover:underline" onClick={(e) => handleClick(e, discardOutboxEntry)}>
+          {language === 'en' ? 'Dismiss' : 'تجاهل'}
+        </button>
+      </div>
+    );
+  }
+
+  if (!waiting) return null;
+
+  return (
+    <div className={`flex items-center gap-1 text-xs text-gray-500 ${className}`}>
+      <Clock className="w-3 h-3" />
+      <span>{language === 'en' ? 'Waiting for connection…' : 'في انتظار الاتصال…'}</span>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 
 interface VideoPlayerProps {
   src: string;
+  alt?: string; // read out in place of the video, like an image's alt
   className?: string;
   width?: number;
   height?: number;
@@ -18,6 +19,7 @@ interface VideoPlayerProps {
 // All heavy custom controls have been removed per user request – the browser's default controls will be shown.
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   src,
+  alt,
   className = '',
   width,
   height,
@@ -43,6 +45,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         controls={controls}
         playsInline
         poster={poster}
+        aria-label={alt}
       />
     </div>
   );
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, getCurrentSession } from '../lib/supabase';
+import { profileCache, cacheKeys, invalidateCache } from '../lib/cache';
+import { useStore } from '../store/useStore';
 
 interface AuthMetadata {
   username?: string;
@@ -30,32 +32,11 @@ export const useAuth = () => {
   const [error, setError] = useState<string | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
 
-  // Get preloaded profile data if available
-  const getPreloadedProfile = () => {
-    try {
-      const stored = sessionStorage.getItem('preloaded_user_profile');
-      if (!stored) return null;
-
-      const parsed = JSON.parse(stored);
-      
-      // Check if data has expired
-      if (Date.now() > parsed.expiry) {
-        sessionStorage.removeItem('preloaded_user_profile');
-        return null;
-      }
-
-      return parsed.data;
-    } catch (error) {
-      console.debug('Error getting preloaded profile:', error);
-      return null;
-    }
-  };
-
   // Load user profile data
   const loadUserProfile = async (userId: string) => {
     try {
       // Check for preloaded data first
-      const preloadedData = getPreloadedProfile();
+      const preloadedData = profileCache.get<any>(cacheKeys.profileRow(userId));
       if (preloadedData && preloadedData.id === userId) {
         console.log('⚡ Using preloaded profile data for:', preloadedData.username);
         
@@ -124,11 +105,7 @@ export const useAuth = () => {
         setUserProfile(profile);
         
         // Cache the profile data
-        sessionStorage.setItem('preloaded_user_profile', JSON.stringify({
-          data,
-          timestamp: Date.now(),
-          expiry: Date.now() + 10 * 60 * 1000 // 10 minutes
-        }));
+        profileCache.set(cacheKeys.profileRow(userId), data, 10 * 60 * 1000); // 10 minutes
         
         console.log('✅ Profile loaded and cached:', data.username);
         return profile;
@@ -201,7 +178,6 @@ export const useAuth = () => {
       } else {
         // Clear profile data when user logs out
         setUserProfile(null);
-        sessionStorage.removeItem('preloaded_user_profile');
       }
 
       // Handle profile creation for new users
@@ -323,9 +299,9 @@ export const useAuth = () => {
       setSession(null);
       setUser(null);
       setUserProfile(null);
-      sessionStorage.removeItem('preloaded_user_profile');
-      sessionStorage.removeItem('preloaded_notifications');
-      sessionStorage.removeItem('preloaded_user_suggestions');
+      // Persisted caches and the entity store hold this viewer's feeds, flags and notifications
+      invalidateCache.all();
+      useStore.getState().resetEntities();
       
       console.log('✅ Local session cleared');
     } catch (error: any) {
@@ -334,9 +310,9 @@ export const useAuth = () => {
       setSession(null);
       setUser(null);
       setUserProfile(null);
-      sessionStorage.removeItem('preloaded_user_profile');
-      sessionStorage.removeItem('preloaded_notifications');
-      sessionStorage.removeItem('preloaded_user_suggestions');
+      // Persisted caches and the entity store hold this viewer's feeds, flags and notifications
+      invalidateCache.all();
+      useStore.getState().resetEntities();
       throw error;
     }
   };
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useHashtags } from './useHashtags';
+
+export interface MentionSuggestion {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string;
+  verified: boolean;
+  followed: boolean; // the viewer follows them, so they're listed first
+}
+
+export type AutocompleteSuggestion =
+  | { type: 'mention'; user: MentionSuggestion }
+  | { type: 'hashtag'; hashtag: string }; // without the `#`
+
+// The `@`/`#` word being typed at the caret, and where it starts in the text
+export interface AutocompleteToken {
+  trigger: '@' | '#';
+  query: string;
+  start: number;
+}
+
+const MAX_SUGGESTIONS = 6;
+const SEARCH_DELAY_MS = 200;
+
+// Same characters as the hashtag/mention extraction in tweetRepository, Arabic included
+const TOKEN_BEFORE_CARET = /(^|[^\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF])([@#])([\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]*)$/;
+
+/**
+ * The `@mention` or `#hashtag` the caret is in, if any.
+ */
+export const getAutocompleteToken = (text: string, caret: number): AutocompleteToken | null => {
+  const match = text.slice(0, caret).match(TOKEN_BEFORE_CARET);
+  if (!match) return null;
+
+  const [whole, before, trigger, query] = match;
+  return {
+    trigger: trigger as '@' | '#',
+    query,
+    start: caret - whole.length + before.length,
+  };
+};
+
+interface ProfileRow {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  verified: boolean;
+  followers_count: number;
+}
+
+const SUGGESTION_COLUMNS = 'id, username, display_name, avatar_url, verified, followers_count';
+
+// Followed users first, then usernames starting with the query, then the most followed
+const loadMentionSuggestions = async (query: string, userId?: string): Promise<MentionSuggestion[]> => {
+  let profiles: ProfileRow[];
+  let followedIds: Set<string>;
+
+  if (!query) {
+    // Nothing typed after `@` yet: suggest people the viewer follows
+    if (!userId) return [];
+
+    const { data: follows, error: followsError } = await supabase
+      .from('follows')
+      .select('following_id')
+      .eq('follower_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_SUGGESTIONS);
+    if (followsError) throw followsError;
+
+    followedIds = new Set((follows || []).map(follow => follow.following_id));
+    if (followedIds.size === 0) return [];
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select(SUGGESTION_COLUMNS)
+      .in('id', Array.from(followedIds));
+    if (error) throw error;
+    profiles = (data || []) as ProfileRow[];
+  } else {
+    // The token is only word characters, so `_` is the one LIKE wildcard to escape
+    const pattern = query.replace(/_/g, '\\_');
+    let profileQuery = supabase
+      .from('profiles')
+      .select(SUGGESTION_COLUMNS)
+      .or(`username.ilike.${pattern}%,display_name.ilike.%${pattern}%`)
+      .limit(20);
+    if (userId) profileQuery = profileQuery.neq('id', userId);
+
+    const { data, error } = await profileQuery;
+    if (error) throw error;
+    profiles = (data || []) as ProfileRow[];
+
+    followedIds = new Set();
+    if (userId && profiles.length > 0) {
+      const { data: follows, error: followsError } = await supabase
+        .from('follows')
+        .select('following_id')
+        .eq('follower_id', userId)
+        .in('following_id', profiles.map(profile => profile.id));
+      if (followsError) throw followsError;
+      (follows || []).forEach(follow => followedIds.add(follow.following_id));
+    }
+  }
+
+  const lowerQuery = query.toLowerCase();
+  const score = (profile: ProfileRow) =>
+    (followedIds.has(profile.id) ? 2 : 0) + (profile.username.toLowerCase().startsWith(lowerQuery) ? 1 : 0);
+
+  return profiles
+    .sort((a, b) => score(b) - score(a) || (b.followers_count || 0) - (a.followers_count || 0))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(profile => ({
+      id: profile.id,
+      username: profile.username,
+      displayName: profile.display_name,
+      avatar: profile.avatar_url || '',
+      verified: profile.verified,
+      followed: followedIds.has(profile.id),
+    }));
+};
+
+/**
+ * Suggestions for the `@`/`#` token at the caret: people for mentions, recent and
+ * trending hashtags for tags. Searches are debounced and stale results dropped.
+ */
+export const useAutocomplete = (token: AutocompleteToken | null, userId?: string) => {
+  const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { trendingHashtags, searchHashtags } = useHashtags();
+
+  const trigger = token?.trigger;
+  const query = token?.query ?? '';
+
+  useEffect(() => {
+    if (!trigger) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    // A bare `#` has nothing to search for, so it offers what's trending
+    if (trigger === '#' && !query) {
+      setSuggestions(trendingHashtags.slice(0, MAX_SUGGESTIONS).map(({ hashtag }) => ({
+        type: 'hashtag',
+        hashtag: hashtag.replace(/^#/, ''),
+      })));
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const next: AutocompleteSuggestion[] = trigger === '@'
+          ? (await loadMentionSuggestions(query, userId)).map(user => ({ type: 'mention', user }))
+          : (await searchHashtags(query)).slice(0, MAX_SUGGESTIONS).map(hashtag => ({
+              type: 'hashtag',
+              hashtag: hashtag.replace(/^#/, ''),
+            }));
+        if (!cancelled) setSuggestions(next);
+      } catch (err) {
+        console.error('Error loading suggestions:', err);
+        if (!cancelled) setSuggestions([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trigger, query, userId, trendingHashtags]);
+
+  return { suggestions, loading };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Tweet } from '../types';
+import { fetchBookmarksPage, TweetCursor } from '../lib/tweetRepository';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+
+const PAGE_SIZE = 20;
+
+/**
+ * The signed-in user's bookmarked posts, most recently bookmarked first.
+ * Nothing is fetched until `enabled`, so the trips page only loads them once
+ * its Bookmarks tab is opened.
+ */
+export const useBookmarks = (userId?: string, enabled = true) => {
+  const [bookmarks, setBookmarks] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<TweetCursor | null>(null);
+  const loadedForRef = useRef<string | null>(null);
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchBookmarksPage(userId, reset ? null : cursorRef.current, PAGE_SIZE);
+      upsertTweets(page.rows);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.hasMore);
+      setBookmarks(prev => (reset ? page.rows : [...prev, ...page.rows]));
+    } catch (err: any) {
+      console.error('Error fetching bookmarks:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, upsertTweets]);
+
+  useEffect(() => {
+    if (!enabled || !userId || loadedForRef.current === userId) return;
+    loadedForRef.current = userId;
+    loadPage(true);
+  }, [enabled, userId, loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && hasMore) loadPage(false);
+  }, [loading, hasMore, loadPage]);
+
+  const refresh = useCallback(() => loadPage(true), [loadPage]);
+
+  // Posts unbookmarked elsewhere drop out without a refetch
+  const tweets = useTweetList(bookmarks);
+
+  return {
+    bookmarks: tweets.filter(tweet => tweet.isBookmarked),
+    loading,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PostDraft } from '../types';
+import { deleteDraft, fetchDrafts, unscheduleDraft } from '../lib/draftRepository';
+
+// setTimeout takes a signed 32-bit delay
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// The publishing job runs every minute, so give it one full run past the due time
+const PUBLISH_GRACE_MS = 65 * 1000;
+
+/**
+ * The signed-in user's drafts and scheduled posts. The list reloads after the
+ * next scheduled post is due, so posts the database job published drop out.
+ */
+export const useDrafts = (userId?: string) => {
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setDrafts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setDrafts(await fetchDrafts(userId));
+    } catch (err: any) {
+      console.error('Error fetching drafts:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const nextDueAt = drafts
+    .filter(draft => draft.status === 'scheduled' && draft.scheduledAt)
+    .reduce<number | null>((earliest, draft) => {
+      const dueAt = draft.scheduledAt!.getTime();
+      return earliest === null || dueAt < earliest ? dueAt : earliest;
+    }, null);
+
+  useEffect(() => {
+    if (nextDueAt === null) return;
+    const delay = Math.max(nextDueAt - Date.now(), 0) + PUBLISH_GRACE_MS;
+    const timer = setTimeout(refresh, Math.min(delay, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [nextDueAt, refresh]);
+
+  const remove = useCallback(async (draftId: string) => {
+    const previous = drafts;
+    setDrafts(prev => prev.filter(draft => draft.id !== draftId));
+
+    try {
+      await deleteDraft(draftId);
+    } catch (err: any) {
+      console.error('Error deleting draft:', err);
+      setDrafts(previous);
+      setError(err.message);
+    }
+  }, [drafts]);
+
+  // Cancelling keeps the post as a draft instead of throwing it away
+  const unschedule = useCallback(async (draftId: string) => {
+    try {
+      setError(null);
+      const draft = await unscheduleDraft(draftId);
+      if (draft) {
+        setDrafts(prev => prev.map(existing => (existing.id === draftId ? draft : existing)));
+      } else {
+        setDrafts(prev => prev.filter(existing => existing.id !== draftId));
+        setError('This post has already been published');
+      }
+    } catch (err: any) {
+      console.error('Error cancelling scheduled post:', err);
+      setError(err.message);
+    }
+  }, []);
+
+  return {
+    drafts: drafts.filter(draft => draft.status === 'draft'),
+    scheduled: drafts
+      .filter(draft => draft.status !== 'draft')
+      .sort((a, b) => (a.scheduledAt?.getTime() ?? 0) - (b.scheduledAt?.getTime() ?? 0)),
+    loading,
+    error,
+    refresh,
+    remove,
+    unschedule,
+  };
+};
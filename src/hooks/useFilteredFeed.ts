@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Tweet } from '../types';
+import { fetchFilteredFeedPage, formatTweet, TweetCursor } from '../lib/tweetRepository';
+import { emptyListingFilter, ListingFilter } from '../lib/listings';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+
+const PAGE_SIZE = 20;
+
+interface UseFilteredFeedOptions {
+  countryCode?: string | null;
+  category?: string | null;
+  followingOnly?: boolean;
+  /** Gazetteer city id */
+  cityId?: string | null;
+  /** Only posts with a flight deal that hasn't expired */
+  activeDealsOnly?: boolean;
+  /** Price and availability a listing has to fit */
+  listingFilter?: ListingFilter | null;
+  /** Nothing is fetched until a filter the main feed can't page through is turned on */
+  enabled?: boolean;
+}
+
+/**
+ * Original posts matching the feed's filters, newest first, paged on the server so
+ * matches further down the feed don't wait for the main feed to reach them.
+ */
+export const useFilteredFeed = ({
+  countryCode = null,
+  category = null,
+  followingOnly = false,
+  cityId = null,
+  activeDealsOnly = false,
+  listingFilter = null,
+  enabled = true,
+}: UseFilteredFeedOptions = {}) => {
+  // Read field by field, so an equal filter in a new object doesn't refetch
+  const { currency, minPrice, maxPrice, availableFrom, availableTo } = listingFilter ?? emptyListingFilter();
+  const [tweets, setTweets] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<TweetCursor | null>(null);
+  // Only the latest request may land: a reply for earlier filters is dropped
+  const requestIdRef = useRef(0);
+  const loadingRef = useRef(false);
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!enabled) return;
+
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestId === requestIdRef.current;
+
+    try {
+      loadingRef.current = true;
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchFilteredFeedPage({
+        countryCode,
+        category,
+        followingOnly,
+        cityId,
+        activeDealsOnly,
+        listingFilter: { currency, minPrice, maxPrice, availableFrom, availableTo },
+        cursor: reset ? null : cursorRef.current,
+        pageSize: PAGE_SIZE,
+      });
+      if (!isCurrent()) return;
+
+      const rows = page.rows.map(row => formatTweet(row));
+      upsertTweets(rows);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.hasMore);
+      setTweets(prev => (reset ? rows : [...prev, ...rows]));
+    } catch (err: any) {
+      if (!isCurrent()) return;
+      console.error('Error fetching filtered feed:', err);
+      setError(err.message);
+    } finally {
+      if (isCurrent()) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [enabled, countryCode, category, followingOnly, cityId, activeDealsOnly, currency, minPrice, maxPrice, availableFrom, availableTo, upsertTweets]);
+
+  // Other filters start from an empty list, and drop any page still on its way
+  useEffect(() => {
+    requestIdRef.current += 1;
+    loadingRef.current = false;
+    setLoading(false);
+    setTweets([]);
+    setHasMore(false);
+    cursorRef.current = null;
+    loadPage(true);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loadingRef.current && hasMore) loadPage(false);
+  }, [hasMore, loadPage]);
+
+  const refresh = useCallback(() => loadPage(true), [loadPage]);
+
+  return {
+    tweets: useTweetList(tweets),
+    loading,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { submitOutboxAction } from '../lib/outbox';
 
 export const useFollow = () => {
   const [followingUsers, setFollowingUsers] = useState<string[]>([]);
@@ -23,28 +24,15 @@ export const useFollow = () => {
     }
   };
 
+  // Follows go through the outbox so they survive going offline; the list updates
+  // immediately and is rolled back if the server rejects the change
   const followUser = async (userId: string) => {
     try {
       setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const { error } = await supabase
-        .from('follows')
-        .insert({
-          follower_id: user.id,
-          following_id: userId,
-        });
-
-      if (error) {
-        if (error.code === '23505') {
-          throw new Error('Already following this user');
-        }
-        throw error;
-      }
-
-      setFollowingUsers(prev => [...prev, userId]);
+      setFollowingUsers(prev => (prev.includes(userId) ? prev : [...prev, userId]));
+      await submitOutboxAction({ type: 'follow', targetUserId: userId });
     } catch (error: any) {
+      setFollowingUsers(prev => prev.filter(id => id !== userId));
       throw new Error(error.message);
     } finally {
       setLoading(false);
@@ -54,21 +42,10 @@ export const useFollow = () => {
   const unfollowUser = async (userId: string) => {
     try {
       setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const { error } = await supabase
-        .from('follows')
-        .delete()
-        .match({
-          follower_id: user.id,
-          following_id: userId,
-        });
-
-      if (error) throw error;
-
       setFollowingUsers(prev => prev.filter(id => id !== userId));
+      await submitOutboxAction({ type: 'unfollow', targetUserId: userId });
     } catch (error: any) {
+      setFollowingUsers(prev => (prev.includes(userId) ? prev : [...prev, userId]));
       throw new Error(error.message);
     } finally {
       setLoading(false);
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+/**
+ * Whether the signed-in user is a moderator or admin, for showing
+ * moderator-only actions. The server checks the role again on every action.
+ */
+export const useIsModerator = () => {
+  const { user } = useAuth();
+  const [isModerator, setIsModerator] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setIsModerator(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    supabase.rpc('is_moderator_or_admin')
+      .then(({ data, error }) => {
+        if (error) console.error('Error checking moderator role:', error);
+        if (!cancelled) setIsModerator(!error && !!data);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  return isModerator;
+};
@@ -1,7 +1,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase } from '../lib/supabase';
 import { Tweet, TweetWithProfile } from '../types';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  fetchFeedPage,
+  formatTweet,
+  encodeCursor,
+  decodeCursor,
+  TweetCursor,
+  TweetPage,
+  RankingVersion,
+  DEFAULT_RANKING_VERSION,
+} from '../lib/tweetRepository';
+import { feedCache, cacheKeys } from '../lib/cache';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+import { useRealtime } from './useRealtime';
 
 interface UseLazyTweetsOptions {
   pageSize?: number;
@@ -9,175 +21,89 @@ interface UseLazyTweetsOptions {
   initialFirstChunk?: number;
   initialLoad?: boolean;
   followingOnly?: boolean;
+  /** Encoded cursor to resume from; loading starts with the tweets after it. */
+  initialCursor?: string | null;
+  /** How the For You feed is ordered; ignored for the following feed. */
+  rankingVersion?: RankingVersion;
+}
+
+// A retweet shows the same tweet again, so feed entries are keyed by when they entered the feed too
+const feedKey = (tweet: Tweet) => `${tweet.id}-${tweet.retweetedAt?.getTime() ?? ''}`;
+
+interface CachedFeed {
+  tweets: Tweet[];
+  cursor: string | null;
+  hasMore: boolean;
 }
 
 export const useLazyTweets = (options: UseLazyTweetsOptions = {}) => {
-  const { pageSize = 15, initialPageSize, initialFirstChunk = 20, initialLoad = true, followingOnly = false } = options;
+  const {
+    pageSize = 15,
+    initialPageSize,
+    initialFirstChunk = 20,
+    initialLoad = true,
+    followingOnly = false,
+    initialCursor = null,
+    rankingVersion = DEFAULT_RANKING_VERSION,
+  } = options;
   
   const [tweets, setTweets] = useState<Tweet[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const offsetRef = useRef(0);
+  const [cursor, setCursor] = useState<string | null>(initialCursor);
+  const cursorRef = useRef<TweetCursor | null>(decodeCursor(initialCursor));
+  const startedRef = useRef(false);
+  const upsertTweets = useStore(state => state.upsertTweets);
   const loadingRef = useRef(false);
-  const cacheKey = followingOnly ? 'following-feed' : 'for-you-feed';
+  // Each ranking variant keeps its own cached feed and cursor format
+  const cacheKey = followingOnly ? cacheKeys.feed('following') : cacheKeys.feed('for-you', rankingVersion);
   const cacheTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
-  const followingIdsRef = useRef<string[]>([]);
-  const lastFetchTimeRef = useRef<string | null>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const isDeployedRef = useRef<boolean>(false);
+  const [newTweets, setNewTweets] = useState<Tweet[]>([]);
+  const tweetsRef = useRef<Tweet[]>([]);
+  const newTweetsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const retryCountRef = useRef(0);
   const maxRetries = 5;
 
-  // Detect if we're in a deployed environment
-  useEffect(() => {
-    isDeployedRef.current = window.location.hostname !== 'localhost' && 
-                          window.location.hostname !== '127.0.0.1' &&
-                          !window.location.hostname.includes('stackblitz');
-  }, []);
+  // Persist the loaded feed and its position so a later visit, or a cold start, can resume it
+  const cacheTweets = useCallback((tweetsToCache: Tweet[], hasMoreToCache: boolean) => {
+    feedCache.set<CachedFeed>(cacheKey, {
+      tweets: tweetsToCache,
+      cursor: cursorRef.current ? encodeCursor(cursorRef.current) : null,
+      hasMore: hasMoreToCache,
+    });
+  }, [cacheKey]);
 
-  // Helper function to convert date strings back to Date objects
-  const convertDatesToObjects = useCallback((tweet: any): Tweet => {
-    return {
-      ...tweet,
-      createdAt: typeof tweet.createdAt === 'string' ? new Date(tweet.createdAt) : tweet.createdAt,
-      retweetedAt: tweet.retweetedAt ? (typeof tweet.retweetedAt === 'string' ? new Date(tweet.retweetedAt) : tweet.retweetedAt) : undefined,
-      author: {
-        ...tweet.author,
-        joinedDate: typeof tweet.author.joinedDate === 'string' ? new Date(tweet.author.joinedDate) : tweet.author.joinedDate,
-      },
-      retweetedBy: tweet.retweetedBy ? {
-        ...tweet.retweetedBy,
-        joinedDate: typeof tweet.retweetedBy.joinedDate === 'string' ? new Date(tweet.retweetedBy.joinedDate) : tweet.retweetedBy.joinedDate,
-      } : undefined,
-    };
-  }, []);
+  // Fetch one page of top-level tweets after the given cursor, with viewer flags inline
+  const fetchPage = useCallback(
+    (after: TweetCursor | null, size: number) =>
+      fetchFeedPage({ followingOnly, cursor: after, pageSize: size, rankingVersion }),
+    [followingOnly, rankingVersion]
+  );
 
-  // Cache tweets in sessionStorage for better performance
-  const cacheTweets = useCallback((tweetsToCache: Tweet[]) => {
-    try {
-      sessionStorage.setItem(
-        cacheKey, 
-        JSON.stringify({
-          tweets: tweetsToCache,
-          timestamp: Date.now(),
-          offset: offsetRef.current
-        })
-      );
-    } catch (error) {
-      console.warn('Failed to cache tweets:', error);
-    }
-  }, [cacheKey]);
+  // Append a fetched page and advance the cursor
+  const appendPage = useCallback((page: TweetPage<TweetWithProfile>) => {
+    const formattedTweets = page.rows.map(row => formatTweet(row));
 
-  // Get cached tweets if available
-  const getCachedTweets = useCallback(() => {
-    try {
-      const cached = sessionStorage.getItem(cacheKey);
-      if (!cached) return null;
-      
-      const { tweets: cachedTweets, timestamp, offset } = JSON.parse(cached);
-      
-      // Cache expires after 2 minutes for deployed environments, 5 minutes for local (increased for performance)
-      const cacheExpiry = isDeployedRef.current ? 2 * 60 * 1000 : 5 * 60 * 1000;
-      if (Date.now() - timestamp > cacheExpiry) {
-        sessionStorage.removeItem(cacheKey);
-        return null;
-      }
-      
-      offsetRef.current = offset;
-      
-      // Convert date strings back to Date objects
-      const tweetsWithDates = cachedTweets.map(convertDatesToObjects);
-      
-      return tweetsWithDates;
-    } catch (error) {
-      console.warn('Failed to get cached tweets:', error);
-      return null;
+    if (page.nextCursor) {
+      cursorRef.current = page.nextCursor;
+      setCursor(encodeCursor(page.nextCursor));
     }
-  }, [cacheKey, convertDatesToObjects]);
+    setHasMore(page.hasMore);
 
-  const formatTweetData = useCallback((tweetData: any): Tweet => {
-    const isRetweet = tweetData.is_retweet && tweetData.original_tweet;
-    const tweetToUse = isRetweet ? tweetData.original_tweet : tweetData;
-    const profileToUse = isRetweet ? tweetData.original_tweet.profiles : tweetData.profiles;
+    if (formattedTweets.length === 0) return;
 
-    return {
-      id: tweetToUse.id,
-      content: tweetToUse.content,
-      author: {
-        id: profileToUse.id,
-        username: profileToUse.username,
-        displayName: profileToUse.display_name || profileToUse.username,
-        avatar: profileToUse.avatar_url || '',
-        bio: profileToUse.bio || '',
-        verified: profileToUse.verified || false,
-        followers: profileToUse.followers_count || 0,
-        following: profileToUse.following_count || 0,
-        country: profileToUse.country || 'US',
-        joinedDate: new Date(profileToUse.created_at),
-      },
-      createdAt: new Date(tweetToUse.created_at),
-      likes: tweetToUse.likes_count || 0,
-      retweets: tweetToUse.retweets_count || 0,
-      replies: tweetToUse.replies_count || 0,
-      views: tweetToUse.views_count || 0,
-      images: tweetToUse.image_urls || [],
-      // Default interaction states - will be updated async
-      isLiked: false,
-      isRetweeted: false,
-      isBookmarked: false,
-      hashtags: tweetToUse.hashtags || [],
-      mentions: tweetToUse.mentions || [],
-      tags: tweetToUse.tags || [],
-      // Retweet info
-      retweetedBy: isRetweet ? {
-        id: tweetData.profiles.id,
-        username: tweetData.profiles.username,
-        displayName: tweetData.profiles.display_name || tweetData.profiles.username,
-        avatar: tweetData.profiles.avatar_url || '',
-        bio: tweetData.profiles.bio || '',
-        verified: tweetData.profiles.verified || false,
-        followers: tweetData.profiles.followers_count || 0,
-        following: tweetData.profiles.following_count || 0,
-        country: tweetData.profiles.country || 'US',
-        joinedDate: new Date(tweetData.profiles.created_at),
-      } : undefined,
-      retweetedAt: isRetweet ? new Date(tweetData.created_at) : undefined,
-      isRetweet: isRetweet,
-    };
-  }, []);
+    upsertTweets(formattedTweets);
 
-  // Fast user interactions update (async)
-  const updateUserInteractions = useCallback(async (tweetIds: string[]) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user || tweetIds.length === 0) return;
-
-      // Simplified parallel queries
-        const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-        supabase.from('likes').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds),
-        supabase.from('retweets').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds),
-        supabase.from('bookmarks').select('tweet_id').eq('user_id', user.id).in('tweet_id', tweetIds)
-      ]);
-
-      const likedIds = new Set(likesResult.data?.map(l => l.tweet_id) || []);
-      const retweetedIds = new Set(retweetsResult.data?.map(r => r.tweet_id) || []);
-      const bookmarkedIds = new Set(bookmarksResult.data?.map(b => b.tweet_id) || []);
-
-      // Update tweet interaction states
-      setTweets(prev => prev.map(tweet => ({
-        ...tweet,
-        isLiked: likedIds.has(tweet.id),
-        isRetweeted: retweetedIds.has(tweet.id),
-        isBookmarked: bookmarkedIds.has(tweet.id),
-      })));
-
-    } catch (error) {
-      console.warn('Failed to update interactions:', error);
-    }
-  }, []);
+    setTweets(prev => {
+      // Keyset pages never overlap, but tweets restored from the session cache can
+      const seen = new Set(prev.map(feedKey));
+      const next = [...prev, ...formattedTweets.filter(t => !seen.has(feedKey(t)))];
+      cacheTweets(next, page.hasMore);
+      return next;
+    });
+  }, [cacheTweets, upsertTweets]);
 
   // Optimized main tweet loading function
   const loadMoreTweets = useCallback(async () => {
@@ -189,174 +115,34 @@ export const useLazyTweets = (options: UseLazyTweetsOptions = {}) => {
       setError(null);
 
       // Determine page size: use initialPageSize for first load, pageSize for subsequent
-      const isFirstLoad = offsetRef.current === 0;
+      const isFirstLoad = cursorRef.current === null;
       const currentPageSize = isFirstLoad && initialPageSize ? Math.min(initialFirstChunk, initialPageSize) : pageSize;
 
       console.log('🔄 Loading tweets...', { 
-        offset: offsetRef.current, 
+        cursor: cursorRef.current, 
         pageSize: currentPageSize,
         isFirstLoad,
-        followingOnly 
+        followingOnly,
+        rankingVersion: followingOnly ? 'chrono' : rankingVersion,
       });
 
-      // Build optimized query - minimal joins
-      let query = supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at,
-            bio
-          )
-        `)
-        .is('reply_to', null)
-        .order('created_at', { ascending: false })
-        .range(offsetRef.current, offsetRef.current + currentPageSize - 1);
-
-      // Handle following filter
-      if (followingOnly) {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          setHasMore(false);
-          return;
-        }
-
-        // Get following IDs if not cached
-        if (followingIdsRef.current.length === 0) {
-          const { data: followingData } = await supabase
-            .from('follows')
-            .select('following_id')
-            .eq('follower_id', user.id);
-
-          if (!followingData || followingData.length === 0) {
-            setHasMore(false);
-            return;
-          }
+      const page = await fetchPage(cursorRef.current, currentPageSize);
+      console.log('✅ Loaded tweets:', page.rows.length);
 
-          followingIdsRef.current = followingData.map(f => f.following_id);
-        }
-
-        query = query.in('author_id', followingIdsRef.current);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      const tweetsData = Array.isArray(data) ? data : [];
-      console.log('✅ Loaded tweets:', tweetsData.length);
+      appendPage(page);
 
-      // Check if we have more data based on current page size
-      if (tweetsData.length < currentPageSize) {
-        setHasMore(false);
-      }
-
-      if (tweetsData.length > 0) {
-        // Handle retweets - fetch original tweet data if needed
-        const retweetIds = tweetsData
-          .filter(t => t.is_retweet && t.original_tweet_id)
-          .map(t => t.original_tweet_id);
-
-        let originalTweets: any[] = [];
-        if (retweetIds.length > 0) {
-          const { data: originalData } = await supabase
-        .from('tweets')
-        .select(`
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            profiles!tweets_author_id_fkey (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              verified,
-              followers_count,
-              following_count,
-              country,
-                created_at,
-                bio
-              )
-            `)
-            .in('id', retweetIds);
-
-          originalTweets = originalData || [];
-        }
+      // If this was first chunk and we still need to fetch the remaining of initialPageSize, do it
+      // after the first chunk renders. loadingRef stays set so scrolling can't fetch the same page twice.
+      if (isFirstLoad && page.hasMore && initialPageSize && initialPageSize > initialFirstChunk) {
+        const remaining = initialPageSize - initialFirstChunk;
+        setLoading(false);
+        await new Promise(resolve => setTimeout(resolve, 10)); // minimal delay to yield to rendering
 
-        // Merge original tweet data
-        const enhancedTweets = tweetsData.map(tweet => {
-          if (tweet.is_retweet && tweet.original_tweet_id) {
-            const originalTweet = originalTweets.find(ot => ot.id === tweet.original_tweet_id);
-            return originalTweet ? { ...tweet, original_tweet: originalTweet } : tweet;
-          }
-          return tweet;
-        });
-
-        // Format tweets quickly
-        const formattedTweets = enhancedTweets.map(formatTweetData);
-
-        setTweets(prev => [...prev, ...formattedTweets]);
-        offsetRef.current += tweetsData.length;
-        
-        // Update interactions asynchronously (non-blocking)
-        const tweetIds = formattedTweets.map(t => t.id);
-        setTimeout(() => updateUserInteractions(tweetIds), 100);
-
-        // If this was first chunk and we still need to fetch the remaining of initialPageSize, do it in background
-        if (isFirstLoad && initialPageSize && initialPageSize > initialFirstChunk) {
-          const remaining = initialPageSize - initialFirstChunk;
-          setTimeout(async () => {
-            try {
-              console.log('🔄 Loading remaining initial tweets...', { remaining });
-              const { data: moreData, error: moreError, count: moreCount } = await supabase
-                .from('tweets')
-                .select(
-                  `*, profiles(*), original_tweet:tweets(*, profiles(*))`,
-                  { count: 'exact' }
-                )
-                .order('created_at', { ascending: false })
-                .range(offsetRef.current, offsetRef.current + remaining - 1);
-
-              if (moreError) throw moreError;
-
-              const moreFormatted = (moreData as TweetWithProfile[]).map(formatTweetData);
-              offsetRef.current += moreFormatted.length;
-              setTweets(prev => [...prev, ...moreFormatted]);
-              cacheTweets([...tweets, ...moreFormatted]);
-              updateUserInteractions([...tweets, ...moreFormatted].map(t => t.id));
-            } catch (err) {
-              console.warn('Failed to load remaining initial tweets:', err);
-            }
-          }, 10); // minimal delay to yield to rendering
+        try {
+          console.log('🔄 Loading remaining initial tweets...', { remaining });
+          appendPage(await fetchPage(cursorRef.current, remaining));
+        } catch (err) {
+          console.warn('Failed to load remaining initial tweets:', err);
         }
       }
 
@@ -367,24 +153,120 @@ export const useLazyTweets = (options: UseLazyTweetsOptions = {}) => {
       setLoading(false);
       loadingRef.current = false;
     }
-  }, [hasMore, pageSize, initialFirstChunk, initialPageSize, followingOnly, formatTweetData, updateUserInteractions]);
+  }, [hasMore, pageSize, initialFirstChunk, initialPageSize, followingOnly, rankingVersion, fetchPage, appendPage]);
 
   const reset = useCallback(() => {
     console.log('🔄 Resetting tweets...');
     setTweets([]);
+    setNewTweets([]);
     setHasMore(true);
     setError(null);
-    offsetRef.current = 0;
+    cursorRef.current = null;
+    setCursor(null);
     loadingRef.current = false;
-    followingIdsRef.current = [];
-  }, []);
+    startedRef.current = false;
+    feedCache.delete(cacheKey);
+  }, [cacheKey]);
 
-  // Initial load
+  // Fetch the newest page again, shaped like a cache entry
+  const fetchLatestFeed = useCallback(async (): Promise<CachedFeed> => {
+    const page = await fetchPage(null, initialPageSize ?? pageSize);
+    return {
+      tweets: page.rows.map(row => formatTweet(row)),
+      cursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+      hasMore: page.hasMore,
+    };
+  }, [fetchPage, initialPageSize, pageSize]);
+
+  // Initial load - resume from the cached feed (possibly from a previous session) unless a cursor was supplied
   useEffect(() => {
-    if (initialLoad) {
-        loadMoreTweets();
+    if (!initialLoad || startedRef.current) return;
+    startedRef.current = true;
+
+    const cached = initialCursor ? null : feedCache.peek<CachedFeed>(cacheKey);
+    const restoredCursor = decodeCursor(cached?.data.cursor ?? null);
+    if (cached && restoredCursor && cached.data.tweets.length > 0) {
+      console.log('⚡ Resuming feed from cached position:', cached.data.tweets.length, cached.stale ? '(stale)' : '');
+      cursorRef.current = restoredCursor;
+      setCursor(cached.data.cursor);
+      setHasMore(cached.data.hasMore);
+      setTweets(cached.data.tweets);
+      // Cached rows may be older than what other screens already put in the store
+      const { tweetsById } = useStore.getState();
+      upsertTweets(cached.data.tweets.filter(tweet => !tweetsById[tweet.id]));
+
+      if (cached.stale) {
+        // Stale-while-revalidate: keep showing the cached feed, swap in the newest page when it arrives
+        feedCache.revalidate(cacheKey, fetchLatestFeed)
+          .then(latest => {
+            upsertTweets(latest.tweets);
+            // Only replace the list if the user hasn't paged past the restored position
+            if (cursorRef.current !== restoredCursor || !latest.cursor) return;
+            cursorRef.current = decodeCursor(latest.cursor);
+            setCursor(latest.cursor);
+            setHasMore(latest.hasMore);
+            setTweets(latest.tweets);
+          })
+          .catch(err => console.warn('Failed to revalidate cached feed:', err));
+      }
+      return;
     }
-  }, [initialLoad, loadMoreTweets]);
+
+    loadMoreTweets();
+  }, [initialLoad, initialCursor, cacheKey, fetchLatestFeed, loadMoreTweets, upsertTweets]);
+
+  useEffect(() => {
+    tweetsRef.current = tweets;
+  }, [tweets]);
+
+  // Collect tweets newer than the top of the feed for the "new posts" banner, without
+  // moving what the user is reading
+  const checkForNewTweets = useCallback(async () => {
+    const loaded = tweetsRef.current;
+    if (loaded.length === 0) return;
+
+    try {
+      const feedTime = (tweet: Tweet) => (tweet.retweetedAt ?? tweet.createdAt).getTime();
+      // Ranked feeds aren't in time order, so compare against everything loaded
+      const newest = Math.max(...loaded.map(feedTime));
+      const seen = new Set(loaded.map(feedKey));
+
+      const page = await fetchPage(null, pageSize);
+      const fresh = page.rows
+        .map(row => formatTweet(row))
+        .filter(tweet => feedTime(tweet) > newest && !seen.has(feedKey(tweet)));
+
+      if (fresh.length > 0) setNewTweets(fresh);
+    } catch (err) {
+      console.warn('Failed to check for new tweets:', err);
+    }
+  }, [fetchPage, pageSize]);
+
+  // New posts arrive in bursts; check once things settle. Polled while the socket is down.
+  const handleTweetInserted = useCallback(() => {
+    if (newTweetsTimeoutRef.current) clearTimeout(newTweetsTimeoutRef.current);
+    newTweetsTimeoutRef.current = setTimeout(checkForNewTweets, 1500);
+  }, [checkForNewTweets]);
+
+  useRealtime(
+    initialLoad && tweets.length > 0 ? [{ event: 'INSERT', table: 'tweets', filter: 'reply_to=is.null' }] : null,
+    handleTweetInserted,
+    { poll: checkForNewTweets }
+  );
+
+  // Put the tweets behind the banner at the top of the feed
+  const showNewTweets = useCallback(() => {
+    if (newTweets.length === 0) return;
+
+    upsertTweets(newTweets);
+    setTweets(prev => {
+      const seen = new Set(prev.map(feedKey));
+      const next = [...newTweets.filter(tweet => !seen.has(feedKey(tweet))), ...prev];
+      cacheTweets(next, hasMore);
+      return next;
+    });
+    setNewTweets([]);
+  }, [newTweets, upsertTweets, cacheTweets, hasMore]);
 
   // Cleanup
   useEffect(() => {
@@ -392,12 +274,8 @@ export const useLazyTweets = (options: UseLazyTweetsOptions = {}) => {
       if (cacheTimeoutRef.current) {
         clearTimeout(cacheTimeoutRef.current);
       }
-      if (channelRef.current) {
-        channelRef.current.unsubscribe();
-        supabase.removeChannel(channelRef.current);
-      }
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
+      if (newTweetsTimeoutRef.current) {
+        clearTimeout(newTweetsTimeoutRef.current);
       }
       if (retryTimeoutRef.current) {
         clearTimeout(retryTimeoutRef.current);
@@ -406,11 +284,14 @@ export const useLazyTweets = (options: UseLazyTweetsOptions = {}) => {
   }, []);
 
   return {
-    tweets,
+    tweets: useTweetList(tweets),
     loading,
     hasMore,
     error,
     loadMore: loadMoreTweets,
     reset,
+    newTweetsCount: newTweets.length,
+    showNewTweets,
+    cursor,
   };
 };
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { LinkPreview } from '../types';
+import { cacheKeys, linkPreviewCache } from '../lib/cache';
+import { fetchLinkPreview } from '../lib/linkPreview';
+
+/**
+ * Preview for a link, starting from whatever is cached so cards don't jump
+ * in on re-render.
+ */
+const peekPreview = (url: string | null) =>
+  url ? linkPreviewCache.peek<LinkPreview | null>(cacheKeys.linkPreview(url))?.data ?? null : null;
+
+export const useLinkPreview = (url: string | null) => {
+  const [preview, setPreview] = useState<LinkPreview | null>(() => peekPreview(url));
+
+  useEffect(() => {
+    setPreview(peekPreview(url));
+    if (!url) return;
+
+    let cancelled = false;
+    fetchLinkPreview(url).then(result => {
+      if (!cancelled) setPreview(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return preview;
+};
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useMediaSettingsStore } from '../store/useMediaSettingsStore';
+
+// Users whose settings were read this session; every card asks, so only the first one fetches
+const loadedUsers = new Set<string>();
+
+const loadMediaSettings = async (userId: string) => {
+  loadedUsers.add(userId);
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('show_sensitive_media')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    loadedUsers.delete(userId);
+    console.error('Error loading media settings:', error);
+    return;
+  }
+
+  useMediaSettingsStore.getState().setSettings(userId, { showSensitiveMedia: !!data?.show_sensitive_media });
+};
+
+/**
+ * The viewer's media settings from their profile. Signed-out viewers get the
+ * defaults, so sensitive media stays behind its warning.
+ */
+export const useMediaSettings = (userId?: string) => {
+  const settingsUserId = useMediaSettingsStore(state => state.userId);
+  const storedShowSensitiveMedia = useMediaSettingsStore(state => state.showSensitiveMedia);
+
+  useEffect(() => {
+    if (userId && !loadedUsers.has(userId)) loadMediaSettings(userId);
+  }, [userId]);
+
+  const showSensitiveMedia = !!userId && settingsUserId === userId && storedShowSensitiveMedia;
+
+  const updateShowSensitiveMedia = async (value: boolean) => {
+    if (!userId) return;
+
+    const { setSettings } = useMediaSettingsStore.getState();
+    setSettings(userId, { showSensitiveMedia: value });
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ show_sensitive_media: value })
+      .eq('id', userId);
+
+    if (error) {
+      setSettings(userId, { showSensitiveMedia });
+      throw error;
+    }
+  };
+
+  return { showSensitiveMedia, updateShowSensitiveMedia };
+};
@@ -1,7 +1,7 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './useAuth';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import { useRealtime } from './useRealtime';
 
 export interface Message {
   id: string;
@@ -43,7 +43,6 @@ export const useMessages = () => {
   const [messages, setMessages] = useState<{ [conversationId: string]: Message[] }>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
 
   const fetchConversations = useCallback(async () => {
     if (!user) return;
@@ -311,78 +310,18 @@ export const useMessages = () => {
     }
   };
 
-  // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
-
-    const setupRealtimeSubscriptions = async () => {
-      try {
-        // Clean up existing subscription
-        if (channelRef.current) {
-          await channelRef.current.unsubscribe();
-          supabase.removeChannel(channelRef.current);
-          channelRef.current = null;
-        }
-
-        const channel = supabase
-          .channel(`messages_user_${user.id}`)
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'messages',
-            },
-            () => {
-              // Refresh conversations when new message arrives
-              fetchConversations();
-            }
-          )
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'conversations',
-              filter: `participant_1_id=eq.${user.id}`,
-            },
-            () => {
-              fetchConversations();
-            }
-          )
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'conversations',
-              filter: `participant_2_id=eq.${user.id}`,
-            },
-            () => {
-              fetchConversations();
-            }
-          );
-
-        channelRef.current = channel;
-        
-        if (channel.state !== 'joined' && channel.state !== 'joining') {
-          await channel.subscribe();
-        }
-      } catch (error) {
-        console.error('Error setting up real-time subscriptions:', error);
-      }
-    };
-
-    setupRealtimeSubscriptions();
-
-    return () => {
-      if (channelRef.current) {
-        channelRef.current.unsubscribe();
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
-      }
-    };
-  }, [user, fetchConversations]);
+  // New messages and conversations refresh the list; polled while the realtime socket is down
+  useRealtime(
+    user
+      ? [
+          { event: 'INSERT', table: 'messages' },
+          { event: 'INSERT', table: 'conversations', filter: `participant_1_id=eq.${user.id}` },
+          { event: 'INSERT', table: 'conversations', filter: `participant_2_id=eq.${user.id}` },
+        ]
+      : null,
+    () => fetchConversations(),
+    { poll: () => fetchConversations() }
+  );
 
   // Initial fetch
   useEffect(() => {
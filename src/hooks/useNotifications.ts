@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
+import { feedCache, cacheKeys } from '../lib/cache';
 import { Notification } from '../types';
-import type { RealtimeChannel } from '@supabase/supabase-js';
 import { useAuth } from './useAuth';
+import { useRealtime } from './useRealtime';
 
 export const useNotifications = () => {
   const { user } = useAuth();
@@ -10,7 +11,6 @@ export const useNotifications = () => {
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
   const fetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastFetchRef = useRef<number>(0);
   const initialFetchDoneRef = useRef<boolean>(false);
@@ -113,6 +113,7 @@ export const useNotifications = () => {
             likes_count,
             retweets_count,
             replies_count,
+            quotes_count,
             views_count,
             image_urls,
             hashtags,
@@ -120,6 +121,7 @@ export const useNotifications = () => {
             tags,
             created_at,
             author_id,
+            quoted_tweet_id,
             profiles!tweets_author_id_fkey (
               id,
               username,
@@ -201,6 +203,7 @@ export const useNotifications = () => {
                 likes: tweet.likes_count || 0,
                 retweets: tweet.retweets_count || 0,
                 replies: tweet.replies_count || 0,
+                quotes: tweet.quotes_count || 0,
                 views: tweet.views_count || 0,
                 images: tweet.image_urls || [],
                 isLiked: false,
@@ -209,6 +212,7 @@ export const useNotifications = () => {
                 hashtags: tweet.hashtags || [],
                 mentions: tweet.mentions || [],
                 tags: tweet.tags || [],
+                quotedTweetId: tweet.quoted_tweet_id ?? undefined,
               };
             }
           }
@@ -356,65 +360,30 @@ export const useNotifications = () => {
     }
   };
 
-  // Optimized real-time subscription with throttling
-  useEffect(() => {
-    const setupSubscription = async () => {
-      try {
-        // Clean up existing channel
-        if (channelRef.current) {
-          await channelRef.current.unsubscribe();
-          supabase.removeChannel(channelRef.current);
-          channelRef.current = null;
-        }
-
-        if (!user) return;
-
-        const channelName = `notifications_user_${user.id}`;
-        
-        const channel = supabase
-          .channel(channelName)
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'notifications',
-              filter: `recipient_id=eq.${user.id}`,
-            },
-            () => {
-              // Only throttle if initial fetch is done
-              if (initialFetchDoneRef.current) {
-                const now = Date.now();
-                if (now - lastFetchRef.current > 3000) {
-                  debouncedFetchNotifications();
-                }
-              }
-            }
-          );
-
-        channelRef.current = channel;
-        
-        if (channel.state !== 'joined' && channel.state !== 'joining') {
-          await channel.subscribe();
-        }
-      } catch (error) {
-        console.error('Error setting up notifications subscription:', error);
+  // New notifications for this user, throttled; polled while the realtime socket is down
+  const handleNewNotification = useCallback(() => {
+    // Only throttle if initial fetch is done
+    if (initialFetchDoneRef.current) {
+      const now = Date.now();
+      if (now - lastFetchRef.current > 3000) {
+        debouncedFetchNotifications();
       }
-    };
+    }
+  }, [debouncedFetchNotifications]);
 
-    setupSubscription();
+  useRealtime(
+    user ? [{ event: 'INSERT', table: 'notifications', filter: `recipient_id=eq.${user.id}` }] : null,
+    handleNewNotification,
+    { poll: handleNewNotification }
+  );
 
+  useEffect(() => {
     return () => {
-      if (channelRef.current) {
-        channelRef.current.unsubscribe();
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
-      }
       if (fetchTimeoutRef.current) {
         clearTimeout(fetchTimeoutRef.current);
       }
     };
-  }, [user, debouncedFetchNotifications]);
+  }, []);
 
   // Initial fetch - immediate, no throttling
   useEffect(() => {
@@ -444,25 +413,8 @@ export const useNotifications = () => {
   }, [user]); // Only depend on user, not fetchNotifications to avoid loops
 
   // Helper function to get preloaded notifications
-  const getPreloadedNotifications = () => {
-    try {
-      const stored = sessionStorage.getItem('preloaded_notifications');
-      if (!stored) return null;
-
-      const parsed = JSON.parse(stored);
-      
-      // Check if data has expired
-      if (Date.now() > parsed.expiry) {
-        sessionStorage.removeItem('preloaded_notifications');
-        return null;
-      }
-
-      return parsed;
-    } catch (error) {
-      console.debug('Error getting preloaded notifications:', error);
-      return null;
-    }
-  };
+  const getPreloadedNotifications = () =>
+    user ? feedCache.get<any>(cacheKeys.notifications(user.id)) : null;
 
   // Helper function to use preloaded notifications data
   const usePreloadedNotifications = async (preloadedData: any) => {
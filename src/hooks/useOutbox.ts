@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useOutboxStore, OutboxAction, OutboxEntry } from '../store/useOutboxStore';
+import { retryOutboxEntry, discardOutboxEntry } from '../lib/outbox';
+
+export type PendingPost = OutboxEntry & { action: Extract<OutboxAction, { type: 'createTweet' | 'createThread' }> };
+
+// The text shown for a pending post; a thread is represented by its first segment
+export const pendingPostContent = ({ action }: PendingPost): string =>
+  action.type === 'createThread' ? action.segments[0]?.content ?? '' : action.content;
+
+// Queued likes and bookmarks for one tweet, for the pending/failed hint on its card
+export const useTweetOutbox = (tweetId: string) => {
+  const entries = useOutboxStore(state => state.entries);
+
+  return useMemo(
+    () => entries.filter(entry => 'tweetId' in entry.action && entry.action.tweetId === tweetId),
+    [entries, tweetId]
+  );
+};
+
+// Posts written while offline (or rejected by the server) that haven't been published yet
+export const usePendingPosts = (userId: string | undefined) => {
+  const entries = useOutboxStore(state => state.entries);
+
+  const posts = useMemo(
+    () => entries.filter(
+      (entry): entry is PendingPost =>
+        entry.userId === userId && (entry.action.type === 'createTweet' || entry.action.type === 'createThread')
+    ),
+    [entries, userId]
+  );
+
+  return {
+    posts,
+    retry: retryOutboxEntry,
+    discard: discardOutboxEntry,
+  };
+};
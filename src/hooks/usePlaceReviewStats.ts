@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { PlaceReviewStats } from '../types';
+import { fetchPlaceReviewStats } from '../lib/reviews';
+
+/**
+ * Review roll-ups for a set of places, by place id; places nobody reviewed
+ * have no entry.
+ */
+export const usePlaceReviewStats = (placeIds: string[]) => {
+  const [stats, setStats] = useState<Record<string, PlaceReviewStats>>({});
+  const [loading, setLoading] = useState(false);
+  // Callers build the list on every render; only a different set of places refetches
+  const key = [...placeIds].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setStats({});
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchPlaceReviewStats(key.split(','))
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(err => console.error('Error fetching place reviews:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return { stats, loading };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Place, Tweet } from '../types';
+import { fetchPlaceTweetsPage, TweetCursor } from '../lib/tweetRepository';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Posts tagged with a place, newest first; a city includes every place in it.
+ */
+export const usePlaceTweets = (place: Place | undefined, userId?: string) => {
+  const [tweets, setTweets] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<TweetCursor | null>(null);
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!place) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchPlaceTweetsPage(place, reset ? null : cursorRef.current, PAGE_SIZE, userId);
+      upsertTweets(page.rows);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.hasMore);
+      setTweets(prev => (reset ? page.rows : [...prev, ...page.rows]));
+    } catch (err: any) {
+      console.error('Error fetching place posts:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [place, userId, upsertTweets]);
+
+  // A different place starts from an empty list
+  useEffect(() => {
+    setTweets([]);
+    setHasMore(false);
+    cursorRef.current = null;
+    loadPage(true);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && hasMore) loadPage(false);
+  }, [loading, hasMore, loadPage]);
+
+  const refresh = useCallback(() => loadPage(true), [loadPage]);
+
+  return {
+    tweets: useTweetList(tweets),
+    loading,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
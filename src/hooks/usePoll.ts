@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Poll, Tweet } from '../types';
+import { isPollClosed, votePoll } from '../lib/tweetRepository';
+import { invalidateCache } from '../lib/cache';
+import { RealtimeBinding, RealtimePayload } from '../lib/realtime';
+import { useStore } from '../store/useStore';
+import { useRealtime } from './useRealtime';
+
+const POLL_CHANGES: RealtimeBinding[] = [{ event: 'UPDATE', table: 'poll_options' }];
+
+// Vote counts are kept by a trigger on `poll_votes`, so applying the row's total is idempotent
+const applyPollOptionChange = (payload: RealtimePayload) => {
+  const row = payload.new as { id?: string; poll_id?: string; votes_count?: number };
+  if (!row.id || !row.poll_id || row.votes_count === undefined) return;
+
+  const { tweetsById, patchTweet } = useStore.getState();
+
+  Object.values(tweetsById).forEach(tweet => {
+    const poll = tweet.poll;
+    if (!poll || poll.id !== row.poll_id) return;
+
+    const option = poll.options.find(candidate => candidate.id === row.id);
+    if (!option || option.votes === row.votes_count) return;
+
+    patchTweet(tweet.id, {
+      poll: {
+        ...poll,
+        options: poll.options.map(candidate =>
+          candidate.id === row.id ? { ...candidate, votes: row.votes_count! } : candidate
+        ),
+      },
+    });
+  });
+};
+
+/**
+ * Voting on a tweet's poll, with live results while it is open. The vote shows
+ * immediately and is taken back if the server refuses it.
+ */
+export const usePoll = (tweet: Tweet, userId?: string) => {
+  const [voting, setVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const poll = tweet.poll;
+
+  useRealtime(poll && !isPollClosed(poll) ? POLL_CHANGES : null, applyPollOptionChange);
+
+  const setPoll = (next: Poll) => {
+    const { tweetsById, upsertTweets, patchTweet } = useStore.getState();
+    if (!tweetsById[tweet.id]) upsertTweets([tweet]);
+    patchTweet(tweet.id, { poll: next });
+  };
+
+  const vote = async (optionId: string) => {
+    if (!poll || !userId || poll.viewerVote || voting || isPollClosed(poll)) return;
+
+    setVoting(true);
+    setError(null);
+    setPoll({
+      ...poll,
+      viewerVote: optionId,
+      options: poll.options.map(option =>
+        option.id === optionId ? { ...option, votes: option.votes + 1 } : option
+      ),
+    });
+
+    try {
+      await votePoll(poll.id, optionId, userId);
+      invalidateCache.tweetInteraction();
+    } catch (err: any) {
+      console.error('Error voting in poll:', err);
+      setPoll(poll);
+      setError(err.code === '23505' ? 'You have already voted in this poll' : err.message);
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return { poll, vote, voting, error };
+};
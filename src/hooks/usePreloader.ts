@@ -3,6 +3,7 @@ import { useAuth } from './useAuth';
 import { useHashtags } from './useHashtags';
 import { supabase } from '../lib/supabase';
 import { storageService } from '../lib/storage';
+import { profileCache, feedCache, cacheKeys } from '../lib/cache';
 
 interface PreloadedData {
   notifications: boolean;
@@ -50,12 +51,8 @@ export const usePreloader = () => {
         .single();
 
       if (!error && data) {
-        // Store in sessionStorage for quick access
-        sessionStorage.setItem('preloaded_user_profile', JSON.stringify({
-          data,
-          timestamp: Date.now(),
-          expiry: Date.now() + 10 * 60 * 1000 // 10 minutes
-        }));
+        // Cache the raw row for quick access by useAuth and the timeline header
+        profileCache.set(cacheKeys.profileRow(user.id), data, 10 * 60 * 1000); // 10 minutes
         preloadedRef.current.userProfile = true;
         console.log('✅ User profile preloaded:', data.username);
         
@@ -129,12 +126,11 @@ export const usePreloader = () => {
         }
 
         // Store notifications data
-        sessionStorage.setItem('preloaded_notifications', JSON.stringify({
-          notifications: notificationsData,
-          actors: actorIds,
-          timestamp: Date.now(),
-          expiry: Date.now() + 5 * 60 * 1000 // 5 minutes
-        }));
+        feedCache.set(
+          cacheKeys.notifications(user.id),
+          { notifications: notificationsData, actors: actorIds },
+          5 * 60 * 1000 // 5 minutes
+        );
         
         preloadedRef.current.userNotifications = true;
         console.log('✅ Notifications preloaded:', notificationsData.length);
@@ -183,11 +179,7 @@ export const usePreloader = () => {
         .neq('id', user.id); // Exclude current user
 
       if (!error && data) {
-        sessionStorage.setItem('preloaded_user_suggestions', JSON.stringify({
-          data,
-          timestamp: Date.now(),
-          expiry: Date.now() + 15 * 60 * 1000 // 15 minutes
-        }));
+        profileCache.set(cacheKeys.suggestions(user.id), data, 15 * 60 * 1000); // 15 minutes
         
         // Preload avatar images for suggested users
         data.forEach(suggestedUser => {
@@ -242,9 +234,7 @@ export const usePreloader = () => {
         userProfile: false,
         userNotifications: false,
       };
-      sessionStorage.removeItem('preloaded_user_profile');
-      sessionStorage.removeItem('preloaded_user_suggestions');
-      sessionStorage.removeItem('preloaded_notifications');
+      // Preloaded entries are keyed by user id; useAuth clears the caches on sign out
       storageService.clearCache();
     }
 
@@ -269,24 +259,3 @@ export const usePreloader = () => {
     startPreloading,
   };
 };
-
-// Utility function to get preloaded data
-export const getPreloadedData = (key: string) => {
-  try {
-    const stored = sessionStorage.getItem(key);
-    if (!stored) return null;
-
-    const parsed = JSON.parse(stored);
-    
-    // Check if data has expired
-    if (Date.now() > parsed.expiry) {
-      sessionStorage.removeItem(key);
-      return null;
-    }
-
-    return parsed.data;
-  } catch (error) {
-    console.debug('Error getting preloaded data:', error);
-    return null;
-  }
-};
\ No newline at end of file
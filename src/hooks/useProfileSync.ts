@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import { useStore } from '../store/useStore';
+import { subscribeRealtime, RealtimeBinding, RealtimePayload } from '../lib/realtime';
 
 interface ProfileUpdate {
   id: string;
@@ -14,55 +15,44 @@ type ProfileUpdateCallback = (profileUpdate: ProfileUpdate) => void;
 
 // Global registry of callbacks for profile updates
 const profileUpdateCallbacks = new Set<ProfileUpdateCallback>();
-let globalChannel: RealtimeChannel | null = null;
-let isChannelInitialized = false;
 
-const initializeGlobalChannel = async () => {
-  if (isChannelInitialized || globalChannel) return;
-  
-  try {
-    isChannelInitialized = true;
-    
-    // Create a global channel for profile updates
-    globalChannel = supabase
-      .channel('profile_updates_global')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'profiles',
-        },
-        (payload) => {
-          console.log('Profile update received:', payload);
-          
-          if (payload.new) {
-            const profileUpdate: ProfileUpdate = {
-              id: payload.new.id,
-              verified: payload.new.verified,
-              role: payload.new.role,
-              display_name: payload.new.display_name,
-              avatar_url: payload.new.avatar_url,
-            };
+const PROFILE_UPDATES: RealtimeBinding[] = [{ event: 'UPDATE', table: 'profiles' }];
 
-            // Notify all registered callbacks
-            profileUpdateCallbacks.forEach(callback => {
-              try {
-                callback(profileUpdate);
-              } catch (error) {
-                console.error('Error in profile update callback:', error);
-              }
-            });
-          }
-        }
-      );
+// One shared listener, so every mounted card adds to the channel's reference count
+// without each one patching the store again
+const handleProfileChange = (payload: RealtimePayload) => {
+  console.log('Profile update received:', payload);
 
-    await globalChannel.subscribe();
-    console.log('Global profile sync channel initialized');
-  } catch (error) {
-    console.error('Error initializing global profile sync channel:', error);
-    isChannelInitialized = false;
+  const row = payload.new as Record<string, any> | undefined;
+  if (!row?.id) return;
+
+  const profileUpdate: ProfileUpdate = {
+    id: row.id,
+    verified: row.verified,
+    role: row.role,
+    display_name: row.display_name,
+    avatar_url: row.avatar_url,
+  };
+
+  // Every card reads authors from the entity store, so one patch updates them all
+  const { usersById, patchUser } = useStore.getState();
+  const user = usersById[profileUpdate.id];
+  if (user) {
+    patchUser(profileUpdate.id, {
+      verified: profileUpdate.verified ?? user.verified,
+      displayName: profileUpdate.display_name ?? user.displayName,
+      avatar: profileUpdate.avatar_url ?? user.avatar,
+    });
   }
+
+  // Notify all registered callbacks
+  profileUpdateCallbacks.forEach(callback => {
+    try {
+      callback(profileUpdate);
+    } catch (error) {
+      console.error('Error in profile update callback:', error);
+    }
+  });
 };
 
 export const useProfileSync = (onProfileUpdate?: ProfileUpdateCallback) => {
@@ -70,32 +60,20 @@ export const useProfileSync = (onProfileUpdate?: ProfileUpdateCallback) => {
   callbackRef.current = onProfileUpdate;
 
   useEffect(() => {
-    // Initialize the global channel if not already done
-    initializeGlobalChannel();
+    const unsubscribe = subscribeRealtime(PROFILE_UPDATES, handleProfileChange);
 
     // Register the callback if provided
-    if (callbackRef.current) {
-      profileUpdateCallbacks.add(callbackRef.current);
+    const callback = callbackRef.current;
+    if (callback) {
+      profileUpdateCallbacks.add(callback);
     }
 
     return () => {
-      // Unregister the callback
-      if (callbackRef.current) {
-        profileUpdateCallbacks.delete(callbackRef.current);
-      }
-    };
-  }, []);
-
-  // Cleanup function to be called when the app unmounts
-  useEffect(() => {
-    return () => {
-      // Only cleanup if no more callbacks are registered
-      if (profileUpdateCallbacks.size === 0 && globalChannel) {
-        globalChannel.unsubscribe();
-        supabase.removeChannel(globalChannel);
-        globalChannel = null;
-        isChannelInitialized = false;
+      // Unregister the callback; the channel closes once no component is listening
+      if (callback) {
+        profileUpdateCallbacks.delete(callback);
       }
+      unsubscribe();
     };
   }, []);
 
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Tweet, TweetWithProfile } from '../types';
+import { tweetCache, cacheKeys } from '../lib/cache';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+import {
+  selectTweets,
+  hydrateTweets,
+  paginate,
+  toPage,
+  TweetCursor,
+  PINNED_TWEET_SELECT,
+  TWEET_SELECT,
+} from '../lib/tweetRepository';
+
+export type ProfileTab = 'tweets' | 'replies' | 'media' | 'likes';
+
+// Media is a view over the tweets tab, so only these three are paged from the server
+type ProfileFeed = 'tweets' | 'replies' | 'likes';
+
+interface ProfileFeedState {
+  tweets: Tweet[];
+  cursor: TweetCursor | null;
+  hasMore: boolean;
+}
+
+interface LikeRow {
+  id: string;
+  created_at: string;
+  tweets: TweetWithProfile | TweetWithProfile[] | null;
+}
+
+const PROFILE_PAGE_SIZE = 20;
+// Typed as a plain string so the client doesn't try to infer the nested embed shape
+const LIKED_TWEETS_SELECT: string = `id, created_at, tweets (${TWEET_SELECT})`;
+const PROFILE_FEEDS: ProfileFeed[] = ['tweets', 'replies', 'likes'];
+
+const emptyFeed = (): ProfileFeedState => ({ tweets: [], cursor: null, hasMore: false });
+
+const toFeed = (tab: ProfileTab): ProfileFeed => (tab === 'media' ? 'tweets' : tab);
+
+/**
+ * Paged tweets, replies and likes for a profile.
+ * Each tab keeps its own `(created_at, id)` cursor; likes page by when the like was made.
+ */
+export const useProfileTweets = (userId: string | undefined, viewerId?: string) => {
+  const [feeds, setFeeds] = useState<Record<ProfileFeed, ProfileFeedState>>({
+    tweets: emptyFeed(),
+    replies: emptyFeed(),
+    likes: emptyFeed(),
+  });
+  const [pinned, setPinned] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const feedsRef = useRef(feeds);
+  const upsertTweets = useStore(state => state.upsertTweets);
+  const loadingMoreRef = useRef(false);
+
+  useEffect(() => {
+    feedsRef.current = feeds;
+  }, [feeds]);
+
+  // Hydrate rows for the viewer and share them through the entity store
+  const hydrate = useCallback(async (rows: TweetWithProfile[]): Promise<Tweet[]> => {
+    const formatted = await hydrateTweets(rows, viewerId);
+    upsertTweets(formatted);
+    return formatted;
+  }, [viewerId, upsertTweets]);
+
+  const fetchFeedPage = useCallback(async (
+    profileId: string,
+    feed: ProfileFeed,
+    cursor: TweetCursor | null
+  ): Promise<ProfileFeedState> => {
+    if (feed === 'likes') {
+      const { data, error } = await paginate(
+        supabase.from('likes').select(LIKED_TWEETS_SELECT).eq('user_id', profileId),
+        cursor,
+        PROFILE_PAGE_SIZE
+      );
+
+      if (error) throw error;
+
+      const page = toPage(data as unknown as LikeRow[], PROFILE_PAGE_SIZE);
+      const likedRows = page.rows
+        .map(like => (Array.isArray(like.tweets) ? like.tweets[0] : like.tweets))
+        .filter((row): row is TweetWithProfile => !!row);
+
+      return { tweets: await hydrate(likedRows), cursor: page.nextCursor, hasMore: page.hasMore };
+    }
+
+    let query = selectTweets(PINNED_TWEET_SELECT).eq('author_id', profileId);
+    query = feed === 'tweets' ? query.is('reply_to', null) : query.not('reply_to', 'is', null);
+
+    const { data, error } = await paginate(query, cursor, PROFILE_PAGE_SIZE);
+
+    if (error) throw error;
+
+    const page = toPage(data as unknown as TweetWithProfile[], PROFILE_PAGE_SIZE);
+    return { tweets: await hydrate(page.rows), cursor: page.nextCursor, hasMore: page.hasMore };
+  }, [hydrate]);
+
+  // Load the first page of every tab, reusing cached pages when available
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const pinnedCacheKey = cacheKeys.userTweets(userId, 'pinned');
+      const cached = PROFILE_FEEDS.map(feed => tweetCache.peek<ProfileFeedState>(cacheKeys.userTweets(userId, feed)));
+      const cachedPinned = tweetCache.peek<Tweet[]>(pinnedCacheKey);
+
+      if (cached.every(Boolean) && cachedPinned) {
+        console.log('⚡ Using cached profile tweets');
+        // Cached pages may be older than what other screens already put in the store
+        const { tweetsById } = useStore.getState();
+        upsertTweets(
+          [cachedPinned.data, ...cached.map(feed => feed!.data.tweets)].flat().filter(tweet => !tweetsById[tweet.id])
+        );
+        setPinned(cachedPinned.data);
+        setFeeds({ tweets: cached[0]!.data, replies: cached[1]!.data, likes: cached[2]!.data });
+
+        // Stale-while-revalidate: keep the cached tabs on screen and refetch below
+        if (!cachedPinned.stale && cached.every(feed => !feed!.stale)) return;
+        setLoading(false);
+      }
+
+      console.log('🔄 Loading profile tweets for user:', userId);
+
+      const [pinnedResult, tweetsPage, repliesPage, likesPage] = await Promise.all([
+        selectTweets(PINNED_TWEET_SELECT)
+          .eq('author_id', userId)
+          .eq('pinned_to_profile', true)
+          .order('pinned_at', { ascending: false }),
+        fetchFeedPage(userId, 'tweets', null),
+        fetchFeedPage(userId, 'replies', null),
+        fetchFeedPage(userId, 'likes', null),
+      ]);
+
+      const pinnedTweets = pinnedResult.error
+        ? []
+        : await hydrate(pinnedResult.data as unknown as TweetWithProfile[]);
+
+      console.log('✅ Profile tweets loaded:', {
+        tweets: tweetsPage.tweets.length,
+        replies: repliesPage.tweets.length,
+        likes: likesPage.tweets.length,
+      });
+
+      tweetCache.set(pinnedCacheKey, pinnedTweets);
+      tweetCache.set(cacheKeys.userTweets(userId, 'tweets'), tweetsPage);
+      tweetCache.set(cacheKeys.userTweets(userId, 'replies'), repliesPage);
+      tweetCache.set(cacheKeys.userTweets(userId, 'likes'), likesPage);
+
+      setPinned(pinnedTweets);
+      setFeeds({ tweets: tweetsPage, replies: repliesPage, likes: likesPage });
+    } catch (err: any) {
+      console.error('Error loading profile tweets:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, fetchFeedPage, hydrate, upsertTweets]);
+
+  // Append the next page of a tab
+  const loadMore = useCallback(async (tab: ProfileTab) => {
+    const feed = toFeed(tab);
+    const current = feedsRef.current[feed];
+    if (!userId || !current.hasMore || loadingMoreRef.current) return;
+
+    try {
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+
+      const page = await fetchFeedPage(userId, feed, current.cursor);
+
+      setFeeds(prev => {
+        // Drop the page if the tab was refreshed while it was loading
+        if (prev[feed].cursor !== current.cursor) return prev;
+
+        const next = {
+          ...prev,
+          [feed]: {
+            tweets: [...prev[feed].tweets, ...page.tweets],
+            cursor: page.cursor ?? prev[feed].cursor,
+            hasMore: page.hasMore,
+          },
+        };
+        tweetCache.set(cacheKeys.userTweets(userId, feed), next[feed]);
+        return next;
+      });
+    } catch (err: any) {
+      console.error('Error loading more profile tweets:', err);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [userId, fetchFeedPage]);
+
+  useEffect(() => {
+    setPinned([]);
+    setFeeds({ tweets: emptyFeed(), replies: emptyFeed(), likes: emptyFeed() });
+    refresh();
+  }, [refresh]);
+
+  // Pinned tweets lead the tweets tab and are skipped where they reappear in date order
+  const pinnedIds = new Set(pinned.map(tweet => tweet.id));
+  const tweets = [...pinned, ...feeds.tweets.tweets.filter(tweet => !pinnedIds.has(tweet.id))];
+
+  return {
+    tweets: useTweetList(tweets),
+    replies: useTweetList(feeds.replies.tweets),
+    likes: useTweetList(feeds.likes.tweets),
+    loading,
+    loadingMore,
+    error,
+    hasMore: (tab: ProfileTab) => feeds[toFeed(tab)].hasMore,
+    loadMore,
+    refresh,
+  };
+};
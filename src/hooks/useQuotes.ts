@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Tweet } from '../types';
+import { fetchQuotesPage, TweetCursor } from '../lib/tweetRepository';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Posts quoting a tweet, newest first. Nothing is fetched until `enabled`,
+ * so the detail page only pays for the list once its Quotes tab is opened.
+ */
+export const useQuotes = (tweetId: string | undefined, userId?: string, enabled = true) => {
+  const [quotes, setQuotes] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<TweetCursor | null>(null);
+  const loadedForRef = useRef<string | null>(null);
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!tweetId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchQuotesPage(tweetId, reset ? null : cursorRef.current, PAGE_SIZE, userId);
+      upsertTweets(page.rows);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.hasMore);
+      setQuotes(prev => (reset ? page.rows : [...prev, ...page.rows]));
+    } catch (err: any) {
+      console.error('Error fetching quotes:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [tweetId, userId, upsertTweets]);
+
+  // A different tweet starts from an empty list
+  useEffect(() => {
+    setQuotes([]);
+    setHasMore(false);
+    cursorRef.current = null;
+    loadedForRef.current = null;
+  }, [tweetId]);
+
+  useEffect(() => {
+    if (!enabled || !tweetId || loadedForRef.current === tweetId) return;
+    loadedForRef.current = tweetId;
+    loadPage(true);
+  }, [enabled, tweetId, loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && hasMore) loadPage(false);
+  }, [loading, hasMore, loadPage]);
+
+  const refresh = useCallback(() => loadPage(true), [loadPage]);
+
+  return {
+    quotes: useTweetList(quotes),
+    loading,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
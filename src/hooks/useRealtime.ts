@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { subscribeRealtime, RealtimeBinding, RealtimeListener } from '../lib/realtime';
+
+interface UseRealtimeOptions {
+  poll?: () => void; // refetch used while the socket is down
+  pollInterval?: number;
+}
+
+/**
+ * Subscribe a component to table changes through the shared realtime manager.
+ * Pass `null` bindings to stay unsubscribed, e.g. until the user is known.
+ * The latest `listener` and `poll` are always used, so they needn't be memoized.
+ */
+export const useRealtime = (
+  bindings: RealtimeBinding[] | null,
+  listener: RealtimeListener,
+  options: UseRealtimeOptions = {}
+) => {
+  const listenerRef = useRef(listener);
+  const pollRef = useRef(options.poll);
+  listenerRef.current = listener;
+  pollRef.current = options.poll;
+
+  // Bindings are usually built inline, so resubscribe only when their content changes
+  const bindingsKey = bindings ? JSON.stringify(bindings) : null;
+  const hasPoll = !!options.poll;
+
+  useEffect(() => {
+    if (!bindingsKey) return;
+
+    return subscribeRealtime(
+      JSON.parse(bindingsKey) as RealtimeBinding[],
+      payload => listenerRef.current(payload),
+      {
+        poll: hasPoll ? () => pollRef.current?.() : undefined,
+        pollInterval: options.pollInterval,
+      }
+    );
+  }, [bindingsKey, hasPoll, options.pollInterval]);
+};
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Trip, TripCollaborator, TripItem, TripRole } from '../types';
+import {
+  canEditTrip,
+  fetchTrip,
+  fetchTripCollaborators,
+  fetchTripItems,
+  getTripAccess,
+  inviteTripCollaborator,
+  removeTripCollaborator,
+  removeTripItem,
+  reorderTripItems,
+  TripFields,
+  updateTrip,
+  updateTripCollaboratorRole,
+  updateTripItemNote,
+} from '../lib/tripRepository';
+
+/**
+ * One trip with its saved posts and collaborators, and the changes the
+ * viewer's access allows. Item changes apply optimistically and roll back
+ * when the database refuses them.
+ */
+export const useTrip = (tripId?: string, userId?: string) => {
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [items, setItems] = useState<TripItem[]>([]);
+  const [collaborators, setCollaborators] = useState<TripCollaborator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!tripId || !userId) {
+      setTrip(null);
+      setItems([]);
+      setCollaborators([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [nextTrip, nextItems, nextCollaborators] = await Promise.all([
+        fetchTrip(tripId),
+        fetchTripItems(tripId, userId),
+        fetchTripCollaborators(tripId),
+      ]);
+      setTrip(nextTrip);
+      setItems(nextItems);
+      setCollaborators(nextCollaborators);
+    } catch (err: any) {
+      console.error('Error fetching trip:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [tripId, userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const access = trip ? getTripAccess(trip, collaborators, userId) : null;
+  const canEdit = canEditTrip(access);
+
+  const save = useCallback(async (fields: TripFields) => {
+    if (!tripId) return;
+    setTrip(await updateTrip(tripId, fields));
+  }, [tripId]);
+
+  // Swap an item with its neighbour; the whole order is saved so positions stay dense
+  const moveItem = useCallback(async (itemId: string, offset: -1 | 1) => {
+    if (!tripId) return;
+
+    const index = items.findIndex(item => item.id === itemId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= items.length) return;
+
+    const previous = items;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered.map((item, position) => ({ ...item, position })));
+
+    try {
+      await reorderTripItems(tripId, reordered.map(item => item.id));
+    } catch (err: any) {
+      console.error('Error reordering trip:', err);
+      setItems(previous);
+      setError(err.message);
+    }
+  }, [tripId, items]);
+
+  const updateNote = useCallback(async (itemId: string, note: string) => {
+    if (!userId) return;
+    const previous = items;
+    setItems(prev => prev.map(item => (item.id === itemId ? { ...item, note: note.trim() } : item)));
+
+    try {
+      await updateTripItemNote(itemId, userId, note);
+    } catch (err: any) {
+      console.error('Error saving trip note:', err);
+      setItems(previous);
+      setError(err.message);
+    }
+  }, [items, userId]);
+
+  const removeItem = useCallback(async (itemId: string) => {
+    const previous = items;
+    setItems(prev => prev.filter(item => item.id !== itemId));
+
+    try {
+      await removeTripItem(itemId);
+    } catch (err: any) {
+      console.error('Error removing from trip:', err);
+      setItems(previous);
+      setError(err.message);
+    }
+  }, [items]);
+
+  // Throws so the invite form can show why, e.g. an unknown username
+  const invite = useCallback(async (username: string, role: TripRole) => {
+    if (!tripId || !userId) return;
+
+    const collaborator = await inviteTripCollaborator(tripId, username, role, userId);
+    setCollaborators(prev => [
+      ...prev.filter(existing => existing.user.id !== collaborator.user.id),
+      collaborator,
+    ]);
+  }, [tripId, userId]);
+
+  const changeRole = useCallback(async (collaboratorId: string, role: TripRole) => {
+    if (!tripId) return;
+
+    const previous = collaborators;
+    setCollaborators(prev => prev.map(collaborator => (
+      collaborator.user.id === collaboratorId ? { ...collaborator, role } : collaborator
+    )));
+
+    try {
+      await updateTripCollaboratorRole(tripId, collaboratorId, role);
+    } catch (err: any) {
+      console.error('Error changing collaborator role:', err);
+      setCollaborators(previous);
+      setError(err.message);
+    }
+  }, [tripId, collaborators]);
+
+  // Used both for the owner removing someone and for a collaborator leaving
+  const removeCollaborator = useCallback(async (collaboratorId: string) => {
+    if (!tripId) return;
+
+    const previous = collaborators;
+    setCollaborators(prev => prev.filter(collaborator => collaborator.user.id !== collaboratorId));
+
+    try {
+      await removeTripCollaborator(tripId, collaboratorId);
+    } catch (err: any) {
+      console.error('Error removing collaborator:', err);
+      setCollaborators(previous);
+      setError(err.message);
+    }
+  }, [tripId, collaborators]);
+
+  return {
+    trip,
+    items,
+    collaborators,
+    access,
+    canEdit,
+    loading,
+    error,
+    refresh,
+    save,
+    moveItem,
+    updateNote,
+    removeItem,
+    invite,
+    changeRole,
+    removeCollaborator,
+  };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Trip } from '../types';
+import { createTrip, deleteTrip, fetchTrips, TripFields } from '../lib/tripRepository';
+
+/**
+ * The signed-in user's trips, their own and the ones shared with them.
+ */
+export const useTrips = (userId?: string) => {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setTrips([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setTrips(await fetchTrips(userId));
+    } catch (err: any) {
+      console.error('Error fetching trips:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (fields: TripFields): Promise<Trip> => {
+    if (!userId) throw new Error('You need to be signed in to plan a trip');
+
+    const trip = await createTrip(userId, fields);
+    setTrips(prev => [trip, ...prev]);
+    return trip;
+  }, [userId]);
+
+  const remove = useCallback(async (tripId: string) => {
+    const previous = trips;
+    setTrips(prev => prev.filter(trip => trip.id !== tripId));
+
+    try {
+      await deleteTrip(tripId);
+    } catch (err: any) {
+      console.error('Error deleting trip:', err);
+      setTrips(previous);
+      setError(err.message);
+    }
+  }, [trips]);
+
+  return {
+    trips,
+    ownTrips: trips.filter(trip => trip.ownerId === userId),
+    sharedTrips: trips.filter(trip => trip.ownerId !== userId),
+    loading,
+    error,
+    refresh,
+    create,
+    remove,
+  };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useMemo } from 'react';
+import { Tweet, User } from '../types';
+import { useStore, TweetEntity } from '../store/useStore';
+
+/**
+ * Merge a feed row with the shared entity store. The row keeps its retweet
+ * context; counts, flags and author details come from the store when present.
+ */
+const resolveTweet = <T extends Tweet>(
+  tweet: T,
+  stored: TweetEntity | undefined,
+  author: User | undefined,
+  retweetedBy: User | undefined
+): T => ({
+  ...tweet,
+  ...stored,
+  author: author ?? stored?.author ?? tweet.author,
+  retweetedBy: tweet.retweetedBy ? retweetedBy ?? tweet.retweetedBy : undefined,
+});
+
+/**
+ * Read a single tweet through the entity store, registering it if no hook has yet.
+ */
+export const useTweetEntity = (tweet: Tweet): Tweet => {
+  const stored = useStore(state => state.tweetsById[tweet.id]);
+  const author = useStore(state => state.usersById[tweet.author.id]);
+  const retweetedBy = useStore(state => (tweet.retweetedBy ? state.usersById[tweet.retweetedBy.id] : undefined));
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  useEffect(() => {
+    if (!stored) upsertTweets([tweet]); // no-op for deleted tweets
+  }, [stored, tweet, upsertTweets]);
+
+  return useMemo(
+    () => resolveTweet(tweet, stored, author, retweetedBy),
+    [tweet, stored, author, retweetedBy]
+  );
+};
+
+/**
+ * Resolve a list of feed rows against the entity store, preserving order and extra fields.
+ * Deleted tweets are left out.
+ */
+export const useTweetList = <T extends Tweet>(tweets: T[]): T[] => {
+  const tweetsById = useStore(state => state.tweetsById);
+  const usersById = useStore(state => state.usersById);
+  const removedTweetIds = useStore(state => state.removedTweetIds);
+
+  return useMemo(
+    () => tweets.filter(tweet => !removedTweetIds[tweet.id]).map(tweet => resolveTweet(
+      tweet,
+      tweetsById[tweet.id],
+      usersById[tweet.author.id],
+      tweet.retweetedBy ? usersById[tweet.retweetedBy.id] : undefined
+    )),
+    [tweets, tweetsById, usersById, removedTweetIds]
+  );
+};
@@ -1,177 +1,121 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { Tweet, TweetWithProfile, TweetCategory } from '../types';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  selectTweets,
+  formatTweet,
+  encodeMediaUrls,
+  extractContentTags,
+  fetchInteractions,
+  fetchFeedPage,
+  interactionsFromRows,
+  collectTweetIds,
+  editTweet as saveTweetEdit,
+  editFieldsFromRow,
+  TweetEdit,
+  ThreadSegment,
+} from '../lib/tweetRepository';
+import { invalidateCache } from '../lib/cache';
+import { submitOutboxAction } from '../lib/outbox';
+import { useStore, TweetInteractionType } from '../store/useStore';
+import { OutboxAction } from '../store/useOutboxStore';
+import { useTweetList } from './useTweetEntity';
+import { subscribeRealtime, RealtimeBinding, RealtimePayload } from '../lib/realtime';
+import { useRealtime } from './useRealtime';
+
+type CreateTweetAction = Extract<OutboxAction, { type: 'createTweet' }>;
+
+// A new post as the outbox carries it, tagged with categories and countries. Any part
+// but the content can be left out or null, as the composer holds it
+export type CreateTweetOptions = {
+  [K in Exclude<keyof CreateTweetAction, 'type' | 'content' | 'tags'>]?: CreateTweetAction[K] | null;
+} & {
+  content: string;
+  categories?: TweetCategory[];
+  countries?: string[];
+};
+
+const TWEET_CHANGES: RealtimeBinding[] = [
+  { event: 'UPDATE', table: 'tweets' },
+  { event: 'DELETE', table: 'tweets' },
+];
+
+// Counts are kept by triggers on `tweets`, so applying the row's totals is idempotent
+// and can't double count the viewer's own optimistic likes and retweets
+const applyTweetChange = (payload: RealtimePayload) => {
+  const { tweetsById, patchTweet, removeTweet } = useStore.getState();
+
+  if (payload.eventType === 'DELETE') {
+    const tweetId = payload.old?.id;
+    if (tweetId && tweetsById[tweetId]) {
+      removeTweet(tweetId);
+      invalidateCache.tweetsChanged(tweetId);
+    }
+    return;
+  }
+
+  const row = payload.new as Partial<TweetWithProfile> & { id: string };
+  const tweet = tweetsById[row.id];
+  if (!tweet) return;
+
+  const counts = {
+    likes: row.likes_count ?? tweet.likes,
+    retweets: row.retweets_count ?? tweet.retweets,
+    replies: row.replies_count ?? tweet.replies,
+    quotes: row.quotes_count ?? tweet.quotes,
+    views: row.views_count ?? tweet.views,
+  };
+
+  if (
+    counts.likes !== tweet.likes ||
+    counts.retweets !== tweet.retweets ||
+    counts.replies !== tweet.replies ||
+    counts.quotes !== tweet.quotes ||
+    counts.views !== tweet.views
+  ) {
+    patchTweet(row.id, counts);
+  }
+
+  // The author edited it somewhere else
+  if (row.edit_count !== undefined && row.content !== undefined && row.edit_count !== (tweet.editCount || 0)) {
+    patchTweet(row.id, editFieldsFromRow(row as TweetWithProfile));
+  }
+};
 
 export const useTweets = () => {
   const [tweets, setTweets] = useState<Tweet[]>([]);
   const [followingTweets, setFollowingTweets] = useState<Tweet[]>([]);
   const [replies, setReplies] = useState<{ [tweetId: string]: Tweet[] }>({});
-  const [loading, setLoading] = useState(true);
+  // Feeds are fetched on demand: every card mounts this hook for its mutations, and an
+  // automatic fetch per instance would keep overwriting the shared entity store
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [feedLoaded, setFeedLoaded] = useState(false);
   const lastFetchTimeRef = useRef<string | null>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  
-  // Cache for user interactions to reduce database queries
-  const [userInteractions, setUserInteractions] = useState<{
-    likes: Set<string>;
-    retweets: Set<string>;
-    bookmarks: Set<string>;
-  }>({
-    likes: new Set(),
-    retweets: new Set(),
-    bookmarks: new Set(),
-  });
+  const upsertTweets = useStore(state => state.upsertTweets);
+  const patchTweet = useStore(state => state.patchTweet);
+  const setInteraction = useStore(state => state.setInteraction);
+  const removeTweet = useStore(state => state.removeTweet);
 
   // Debounce and batch updates
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pendingUpdatesRef = useRef<Set<string>>(new Set());
 
-  const formatTweetData = (tweetData: TweetWithProfile, userLikes: string[], userRetweets: string[], userBookmarks: string[]): Tweet => {
-    // If this is a retweet, we need to format the original tweet
-    if (tweetData.is_retweet && tweetData.original_tweet) {
-      const originalTweet: Tweet = {
-        id: tweetData.original_tweet.id,
-        content: tweetData.original_tweet.content,
-        author: {
-          id: tweetData.original_tweet.profiles.id,
-          username: tweetData.original_tweet.profiles.username,
-          displayName: tweetData.original_tweet.profiles.display_name,
-          avatar: tweetData.original_tweet.profiles.avatar_url || '',
-          bio: tweetData.original_tweet.profiles.bio || '',
-          verified: tweetData.original_tweet.profiles.verified || false,
-          followers: tweetData.original_tweet.profiles.followers_count || 0,
-          following: tweetData.original_tweet.profiles.following_count || 0,
-          country: tweetData.original_tweet.profiles.country || '',
-          joinedDate: new Date(tweetData.original_tweet.profiles.created_at),
-        },
-        createdAt: new Date(tweetData.original_tweet.created_at),
-        likes: tweetData.original_tweet.likes_count,
-        retweets: tweetData.original_tweet.retweets_count,
-        replies: tweetData.original_tweet.replies_count,
-        views: tweetData.original_tweet.views_count,
-        images: tweetData.original_tweet.image_urls,
-        isLiked: userLikes.includes(tweetData.original_tweet.id),
-        isRetweeted: userRetweets.includes(tweetData.original_tweet.id),
-        isBookmarked: userBookmarks.includes(tweetData.original_tweet.id),
-        hashtags: tweetData.original_tweet.hashtags,
-        mentions: tweetData.original_tweet.mentions,
-        tags: tweetData.original_tweet.tags || [],
-        // Retweet information
-        retweetedBy: {
-          id: tweetData.profiles.id,
-          username: tweetData.profiles.username,
-          displayName: tweetData.profiles.display_name,
-          avatar: tweetData.profiles.avatar_url || '',
-          bio: tweetData.profiles.bio || '',
-          verified: tweetData.profiles.verified || false,
-          followers: tweetData.profiles.followers_count || 0,
-          following: tweetData.profiles.following_count || 0,
-          country: tweetData.profiles.country || '',
-          joinedDate: new Date(tweetData.profiles.created_at),
-        },
-        retweetedAt: new Date(tweetData.created_at),
-        isRetweet: true,
-      };
-      return originalTweet;
-    }
-
-    // Regular tweet
-    return {
-      id: tweetData.id,
-      content: tweetData.content,
-      author: {
-        id: tweetData.profiles.id,
-        username: tweetData.profiles.username,
-        displayName: tweetData.profiles.display_name,
-        avatar: tweetData.profiles.avatar_url || '',
-        bio: tweetData.profiles.bio || '',
-        verified: tweetData.profiles.verified || false,
-        followers: tweetData.profiles.followers_count || 0,
-        following: tweetData.profiles.following_count || 0,
-        country: tweetData.profiles.country || '',
-        joinedDate: new Date(tweetData.profiles.created_at),
-      },
-      createdAt: new Date(tweetData.created_at),
-      likes: tweetData.likes_count,
-      retweets: tweetData.retweets_count,
-      replies: tweetData.replies_count,
-      views: tweetData.views_count,
-      // Parse combined media URLs to separate images and videos
-      ...(() => {
-        const images: string[] = [];
-        const videos: string[] = [];
-        
-        if (tweetData.image_urls) {
-          tweetData.image_urls.forEach(url => {
-            if (url.startsWith('video:')) {
-              videos.push(url.substring(6)); // Remove 'video:' prefix
-            } else if (url.startsWith('image:')) {
-              images.push(url.substring(6)); // Remove 'image:' prefix
-            } else {
-              // Legacy support for URLs without prefix (assume image)
-              images.push(url);
-            }
-          });
-        }
-        
-        return { images, videos };
-      })(),
-      isLiked: userLikes.includes(tweetData.id),
-      isRetweeted: userRetweets.includes(tweetData.id),
-      isBookmarked: userBookmarks.includes(tweetData.id),
-      hashtags: tweetData.hashtags,
-      mentions: tweetData.mentions,
-      tags: tweetData.tags || [],
-    };
-  };
-
-  // Optimized function to fetch user interactions once and cache them
-  const fetchUserInteractions = useCallback(async (tweetIds: string[]) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user || tweetIds.length === 0) return;
-
-      // Batch fetch all interactions in a single query each
-      const [likesResult, retweetsResult, bookmarksResult] = await Promise.all([
-        supabase
-          .from('likes')
-          .select('tweet_id')
-          .eq('user_id', user.id)
-          .in('tweet_id', tweetIds),
-        supabase
-          .from('retweets')
-          .select('tweet_id')
-          .eq('user_id', user.id)
-          .in('tweet_id', tweetIds),
-        supabase
-          .from('bookmarks')
-          .select('tweet_id')
-          .eq('user_id', user.id)
-          .in('tweet_id', tweetIds)
-      ]);
-
-      const likes = new Set(likesResult.data?.map(like => like.tweet_id) || []);
-      const retweets = new Set(retweetsResult.data?.map(retweet => retweet.tweet_id) || []);
-      const bookmarks = new Set(bookmarksResult.data?.map(bookmark => bookmark.tweet_id) || []);
-
-      setUserInteractions({ likes, retweets, bookmarks });
-
-      return {
-        userLikes: Array.from(likes),
-        userRetweets: Array.from(retweets),
-        userBookmarks: Array.from(bookmarks),
-      };
-    } catch (error) {
-      console.error('Error fetching user interactions:', error);
-      return {
-        userLikes: [],
-        userRetweets: [],
-        userBookmarks: [],
-      };
-    }
-  }, []);
+  // Format rows, hydrate them with the viewer's interactions and share them through the entity store
+  const hydrateRows = useCallback(async (rows: TweetWithProfile[]): Promise<Tweet[]> => {
+    const interactions = await fetchInteractions(collectTweetIds(rows));
+    const formatted = rows.map(row => formatTweet(row, interactions));
+    upsertTweets(formatted);
+    return formatted;
+  }, [upsertTweets]);
+
+  // Format feed RPC rows, which already carry the viewer's flags
+  const formatFeedRows = useCallback((rows: TweetWithProfile[]): Tweet[] => {
+    const interactions = interactionsFromRows(rows);
+    const formatted = rows.map(row => formatTweet(row, interactions));
+    upsertTweets(formatted);
+    return formatted;
+  }, [upsertTweets]);
 
   // Check for new tweets since last fetch
   const checkForNewTweets = useCallback(async () => {
@@ -179,61 +123,7 @@ export const useTweets = () => {
       if (!lastFetchTimeRef.current) return;
 
       // Check for new tweets in the main feed
-      const { data: newTweetsData, error: tweetsError } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          ),
-          original_tweet:original_tweet_id (
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            profiles!tweets_author_id_fkey (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              bio,
-              verified,
-              followers_count,
-              following_count,
-              country,
-              created_at
-            )
-          )
-        `)
+      const { data: newTweetsData, error: tweetsError } = await selectTweets()
         .is('reply_to', null)
         .gt('created_at', lastFetchTimeRef.current)
         .order('created_at', { ascending: false })
@@ -241,21 +131,10 @@ export const useTweets = () => {
 
       if (tweetsError) throw tweetsError;
 
-      const newTweets = Array.isArray(newTweetsData) ? newTweetsData : [];
+      const newTweets = (Array.isArray(newTweetsData) ? newTweetsData : []) as unknown as TweetWithProfile[];
 
       if (newTweets.length > 0) {
-        // Get all tweet IDs for interaction fetching
-        const tweetIds = newTweets.map(tweet => tweet.id);
-        const originalTweetIds = newTweets.filter(tweet => tweet.original_tweet_id).map(tweet => tweet.original_tweet_id);
-        const allTweetIds = [...tweetIds, ...originalTweetIds];
-
-        // Fetch user interactions
-        const interactions = await fetchUserInteractions(allTweetIds);
-        const { userLikes, userRetweets, userBookmarks } = interactions || { userLikes: [], userRetweets: [], userBookmarks: [] };
-
-        const formattedTweets: Tweet[] = (newTweets as TweetWithProfile[]).map(tweet => 
-          formatTweetData(tweet, userLikes, userRetweets, userBookmarks)
-        );
+        const formattedTweets = await hydrateRows(newTweets);
 
         // Add new tweets to the beginning of the list
         setTweets(prev => {
@@ -283,61 +162,7 @@ export const useTweets = () => {
         if (followingData && followingData.length > 0) {
           const followingIds = followingData.map(follow => follow.following_id);
 
-          const { data: newFollowingTweetsData, error: followingError } = await supabase
-            .from('tweets')
-            .select(`
-              id,
-              content,
-              author_id,
-              image_urls,
-              hashtags,
-              mentions,
-              tags,
-              likes_count,
-              retweets_count,
-              replies_count,
-              views_count,
-              created_at,
-              is_retweet,
-              original_tweet_id,
-              profiles!tweets_author_id_fkey (
-                id,
-                username,
-                display_name,
-                avatar_url,
-                bio,
-                verified,
-                followers_count,
-                following_count,
-                country,
-                created_at
-              ),
-              original_tweet:original_tweet_id (
-                id,
-                content,
-                image_urls,
-                hashtags,
-                mentions,
-                tags,
-                likes_count,
-                retweets_count,
-                replies_count,
-                views_count,
-                created_at,
-                profiles!tweets_author_id_fkey (
-                  id,
-                  username,
-                  display_name,
-                  avatar_url,
-                  bio,
-                  verified,
-                  followers_count,
-                  following_count,
-                  country,
-                  created_at
-                )
-              )
-            `)
+          const { data: newFollowingTweetsData, error: followingError } = await selectTweets()
             .in('author_id', followingIds)
             .is('reply_to', null)
             .gt('created_at', lastFetchTimeRef.current)
@@ -345,19 +170,10 @@ export const useTweets = () => {
             .limit(10);
 
           if (!followingError && newFollowingTweetsData) {
-            const newFollowingTweets = Array.isArray(newFollowingTweetsData) ? newFollowingTweetsData : [];
+            const newFollowingTweets = (Array.isArray(newFollowingTweetsData) ? newFollowingTweetsData : []) as unknown as TweetWithProfile[];
 
             if (newFollowingTweets.length > 0) {
-              const tweetIds = newFollowingTweets.map(tweet => tweet.id);
-              const originalTweetIds = newFollowingTweets.filter(tweet => tweet.original_tweet_id).map(tweet => tweet.original_tweet_id);
-              const allTweetIds = [...tweetIds, ...originalTweetIds];
-
-              const interactions = await fetchUserInteractions(allTweetIds);
-              const { userLikes, userRetweets, userBookmarks } = interactions || { userLikes: [], userRetweets: [], userBookmarks: [] };
-
-              const formattedFollowingTweets: Tweet[] = newFollowingTweets.map(tweet => 
-                formatTweetData(tweet as TweetWithProfile, userLikes, userRetweets, userBookmarks)
-              );
+              const formattedFollowingTweets = await hydrateRows(newFollowingTweets);
 
               setFollowingTweets(prev => {
                 const existingIds = new Set(prev.map(t => t.id));
@@ -375,53 +191,11 @@ export const useTweets = () => {
     } catch (error) {
       console.error('Error checking for new tweets:', error);
     }
-  }, [fetchUserInteractions, formatTweetData]);
-
-  // Disabled polling - only fetch on manual refresh
-  // useEffect(() => {
-  //   if (!lastFetchTimeRef.current) return;
-
-  //   // Poll every 15 seconds for new tweets
-  //   pollingIntervalRef.current = setInterval(() => {
-  //     checkForNewTweets();
-  //   }, 15000);
-
-  //   return () => {
-  //     if (pollingIntervalRef.current) {
-  //       clearInterval(pollingIntervalRef.current);
-  //     }
-  //   };
-  // }, [checkForNewTweets]);
-
-  // Handle real-time updates for likes, retweets, and other interactions
-  const handleRealtimeUpdate = useCallback((payload: any, table: string) => {
-    const updateTweetInList = (tweetList: Tweet[]) => 
-      tweetList.map(tweet => {
-        if (tweet.id === payload.new?.tweet_id || tweet.id === payload.old?.tweet_id) {
-          const updates: Partial<Tweet> = {};
-          
-          if (table === 'likes') {
-            if (payload.eventType === 'INSERT') {
-              updates.likes = tweet.likes + 1;
-            } else if (payload.eventType === 'DELETE') {
-              updates.likes = Math.max(0, tweet.likes - 1);
-            }
-          } else if (table === 'retweets') {
-            if (payload.eventType === 'INSERT') {
-              updates.retweets = tweet.retweets + 1;
-            } else if (payload.eventType === 'DELETE') {
-              updates.retweets = Math.max(0, tweet.retweets - 1);
-            }
-          }
-          
-          return { ...tweet, ...updates };
-        }
-        return tweet;
-      });
+  }, [hydrateRows]);
 
-    setTweets(updateTweetInList);
-    setFollowingTweets(updateTweetInList);
-  }, []);
+  // Live like, retweet and reply counts for every tweet on screen. All instances share the
+  // module-level listener, so the channel is reference-counted and each change applied once
+  useEffect(() => subscribeRealtime(TWEET_CHANGES, applyTweetChange), []);
 
   // Handle new tweet insertions
   const handleNewTweet = useCallback(async (payload: any) => {
@@ -430,71 +204,14 @@ export const useTweets = () => {
       if (payload.new.reply_to) return;
 
       // Fetch the complete tweet data with profile information
-      const { data: tweetData, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          ),
-          original_tweet:original_tweet_id (
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            profiles!tweets_author_id_fkey (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              bio,
-              verified,
-              followers_count,
-              following_count,
-              country,
-              created_at
-            )
-          )
-        `)
+      const { data: tweetData, error } = await selectTweets()
         .eq('id', payload.new.id)
         .single();
 
       if (error || !tweetData) return;
 
-      // Get user interactions for the new tweet
-      const { userLikes, userRetweets, userBookmarks } = await fetchUserInteractions([tweetData.id]) || { userLikes: [], userRetweets: [], userBookmarks: [] };
-
-      // Format the new tweet
-      const formattedTweet = formatTweetData(tweetData as TweetWithProfile, userLikes, userRetweets, userBookmarks);
+      const row = tweetData as unknown as TweetWithProfile;
+      const [formattedTweet] = await hydrateRows([row]);
 
       // Add to the beginning of the tweets list (For You feed)
       setTweets(prev => {
@@ -526,336 +243,73 @@ export const useTweets = () => {
       }
 
       // Update last fetch time
-      lastFetchTimeRef.current = tweetData.created_at;
+      lastFetchTimeRef.current = row.created_at;
     } catch (error) {
       console.error('Error handling new tweet:', error);
     }
-  }, [fetchUserInteractions, formatTweetData]);
-
-  // Disabled real-time subscriptions - only fetch on manual refresh
-  // useEffect(() => {
-  //   const setupRealtimeSubscriptions = async () => {
-  //     try {
-  //       // Clean up existing subscriptions
-  //       if (channelRef.current) {
-  //         await channelRef.current.unsubscribe();
-  //         supabase.removeChannel(channelRef.current);
-  //         channelRef.current = null;
-  //       }
-
-  //       // Create new subscription channel
-  //       const channel = supabase
-  //         .channel(`tweet_interactions_and_new_tweets_${Date.now()}`)
-  //         .on(
-  //           'postgres_changes',
-  //           {
-  //             event: '*',
-  //             schema: 'public',
-  //             table: 'likes',
-  //           },
-  //           (payload) => handleRealtimeUpdate(payload, 'likes')
-  //         )
-  //         .on(
-  //           'postgres_changes',
-  //           {
-  //             event: '*',
-  //             schema: 'public',
-  //             table: 'retweets',
-  //           },
-  //           (payload) => handleRealtimeUpdate(payload, 'retweets')
-  //         )
-  //         .on(
-  //           'postgres_changes',
-  //           {
-  //             event: 'INSERT',
-  //             schema: 'public',
-  //             table: 'tweets',
-  //             filter: 'reply_to=is.null', // Only listen for main tweets, not replies
-  //           },
-  //           handleNewTweet
-  //         );
-
-  //       channelRef.current = channel;
-        
-  //       if (channel.state !== 'joined' && channel.state !== 'joining') {
-  //         await channel.subscribe();
-  //       }
-  //     } catch (error) {
-  //       console.error('Error setting up real-time subscriptions:', error);
-  //     }
-  //   };
-
-  //   setupRealtimeSubscriptions();
-
-  //   return () => {
-  //     if (channelRef.current) {
-  //       channelRef.current.unsubscribe();
-  //       supabase.removeChannel(channelRef.current);
-  //       channelRef.current = null;
-  //     }
-  //   };
-  // }, [handleRealtimeUpdate, handleNewTweet]);
+  }, [hydrateRows]);
+
+  // New top-level tweets for this instance's feed lists, once one has been loaded;
+  // polled while the realtime socket is down
+  useRealtime(
+    feedLoaded ? [{ event: 'INSERT', table: 'tweets', filter: 'reply_to=is.null' }] : null,
+    handleNewTweet,
+    { poll: checkForNewTweets }
+  );
 
   const fetchTweets = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      // Simplified query - only fetch essential fields initially
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          ),
-          original_tweet:original_tweet_id (
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            profiles!tweets_author_id_fkey (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              bio,
-              verified,
-              followers_count,
-              following_count,
-              country,
-              created_at
-            )
-          )
-        `)
-        .is('reply_to', null)
-        .order('created_at', { ascending: false })
-        .limit(20); // Reduced limit for faster loading
-
-      if (error) throw error;
-
-      // Ensure data is an array before processing
-      const tweetsData = Array.isArray(data) ? data : [];
+      // First feed page with the viewer's flags inline
+      const { rows: tweetsData } = await fetchFeedPage({ pageSize: 20 });
 
       // Set last fetch time to the newest tweet's timestamp
       if (tweetsData.length > 0) {
         lastFetchTimeRef.current = tweetsData[0].created_at;
       }
 
-      // Get all tweet IDs for interaction fetching
-      const tweetIds = tweetsData.map(tweet => tweet.id);
-      const originalTweetIds = tweetsData.filter(tweet => tweet.original_tweet_id).map(tweet => tweet.original_tweet_id);
-      const allTweetIds = [...tweetIds, ...originalTweetIds];
-
-      // Fetch user interactions
-      const interactions = await fetchUserInteractions(allTweetIds);
-      const { userLikes, userRetweets, userBookmarks } = interactions || { userLikes: [], userRetweets: [], userBookmarks: [] };
-
-      const formattedTweets: Tweet[] = (tweetsData as TweetWithProfile[]).map(tweet => 
-        formatTweetData(tweet, userLikes, userRetweets, userBookmarks)
-      );
-
-      setTweets(formattedTweets);
+      setTweets(formatFeedRows(tweetsData));
+      setFeedLoaded(true);
     } catch (err: any) {
       setError(err.message);
       console.error('Error fetching tweets:', err);
     } finally {
       setLoading(false);
     }
-  }, [fetchUserInteractions]);
+  }, [formatFeedRows]);
 
   const fetchFollowingTweets = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setFollowingTweets([]);
-        setLoading(false);
-        return;
-      }
-
-      // First, get the list of users the current user is following
-      const { data: followingData, error: followingError } = await supabase
-        .from('follows')
-        .select('following_id')
-        .eq('follower_id', user.id);
-
-      if (followingError) throw followingError;
-
-      // If user is not following anyone, return empty array
-      if (!followingData || followingData.length === 0) {
-        setFollowingTweets([]);
-        setLoading(false);
-        return;
-      }
-
-      const followingIds = followingData.map(follow => follow.following_id);
-
-      // Now fetch tweets from followed users
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          ),
-          original_tweet:original_tweet_id (
-            id,
-            content,
-            image_urls,
-            hashtags,
-            mentions,
-            tags,
-            likes_count,
-            retweets_count,
-            replies_count,
-            views_count,
-            created_at,
-            profiles!tweets_author_id_fkey (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              bio,
-              verified,
-              followers_count,
-              following_count,
-              country,
-              created_at
-            )
-          )
-        `)
-        .in('author_id', followingIds)
-        .is('reply_to', null)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (error) throw error;
-
-      // Ensure data is an array before processing - more robust check
-      const tweetsData = (data && Array.isArray(data)) ? data : [];
-
-      // Get all tweet IDs for interaction fetching
-      const tweetIds = tweetsData.map(tweet => tweet.id);
-      const originalTweetIds = tweetsData.filter(tweet => tweet.original_tweet_id).map(tweet => tweet.original_tweet_id);
-      const allTweetIds = [...tweetIds, ...originalTweetIds];
-
-      // Fetch user interactions
-      const interactions = await fetchUserInteractions(allTweetIds);
-      const { userLikes, userRetweets, userBookmarks } = interactions || { userLikes: [], userRetweets: [], userBookmarks: [] };
+      // The RPC resolves followed accounts server-side; signed-out viewers get an empty page
+      const { rows: tweetsData } = await fetchFeedPage({ followingOnly: true, pageSize: 20 });
 
-      const formattedTweets: Tweet[] = tweetsData.map(tweet => 
-        formatTweetData(tweet as TweetWithProfile, userLikes, userRetweets, userBookmarks)
-      );
-
-      setFollowingTweets(formattedTweets);
+      setFollowingTweets(formatFeedRows(tweetsData));
+      setFeedLoaded(true);
     } catch (err: any) {
       setError(err.message);
       console.error('Error fetching following tweets:', err);
     } finally {
       setLoading(false);
     }
-  }, [fetchUserInteractions]);
+  }, [formatFeedRows]);
 
   const fetchReplies = async (tweetId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('tweets')
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
+      const { data, error } = await selectTweets()
         .eq('reply_to', tweetId)
         .order('created_at', { ascending: true });
 
       if (error) throw error;
 
       // Ensure data is an array before processing
-      const repliesData = Array.isArray(data) ? data : [];
-
-      // Get user interactions for replies
-      const tweetIds = repliesData.map(tweet => tweet.id);
-      const interactions = await fetchUserInteractions(tweetIds);
-      const { userLikes, userRetweets, userBookmarks } = interactions || { userLikes: [], userRetweets: [], userBookmarks: [] };
+      const repliesData = (Array.isArray(data) ? data : []) as unknown as TweetWithProfile[];
 
-      const formattedReplies: Tweet[] = (repliesData as TweetWithProfile[]).map(tweet => 
-        formatTweetData(tweet, userLikes, userRetweets, userBookmarks)
-      );
+      const formattedReplies = await hydrateRows(repliesData);
 
       setReplies(prev => ({
         ...prev,
@@ -869,204 +323,131 @@ export const useTweets = () => {
     }
   };
 
-  // Optimized interaction functions with immediate UI updates and batched database updates
-  const updateTweetInteraction = (tweetId: string, type: 'like' | 'retweet' | 'bookmark', isAdding: boolean) => {
-    // Update local state immediately for better UX
-    const updateTweetInList = (tweetList: Tweet[]) => 
-      tweetList.map(tweet => {
-        if (tweet.id === tweetId) {
-          const updates: Partial<Tweet> = {};
-          
-          if (type === 'like') {
-            updates.isLiked = isAdding;
-            updates.likes = isAdding ? tweet.likes + 1 : Math.max(0, tweet.likes - 1);
-          } else if (type === 'retweet') {
-            updates.isRetweeted = isAdding;
-            updates.retweets = isAdding ? tweet.retweets + 1 : Math.max(0, tweet.retweets - 1);
-          } else if (type === 'bookmark') {
-            updates.isBookmarked = isAdding;
-          }
-          
-          return { ...tweet, ...updates };
-        }
-        return tweet;
-      });
-
-    setTweets(updateTweetInList);
-    setFollowingTweets(updateTweetInList);
+  // Optimistic interaction update applied once in the entity store, so every screen showing
+  // the tweet reflects it. Returns the previous flag so callers can revert on error.
+  const updateTweetInteraction = (tweetId: string, type: TweetInteractionType, isAdding: boolean): boolean => {
+    const tweet = useStore.getState().tweetsById[tweetId];
+    const previous = type === 'like' ? tweet?.isLiked : type === 'retweet' ? tweet?.isRetweeted : tweet?.isBookmarked;
 
-    // Update cached interactions
-    setUserInteractions(prev => {
-      const newInteractions = { ...prev };
-      if (isAdding) {
-        newInteractions[type === 'like' ? 'likes' : type === 'retweet' ? 'retweets' : 'bookmarks'].add(tweetId);
-      } else {
-        newInteractions[type === 'like' ? 'likes' : type === 'retweet' ? 'retweets' : 'bookmarks'].delete(tweetId);
-      }
-      return newInteractions;
-    });
+    setInteraction(tweetId, type, isAdding);
+    // Cached feeds keep their rows but refetch on next read so the counts catch up
+    invalidateCache.tweetInteraction();
+    return previous ?? !isAdding;
   };
 
+  // Likes and bookmarks go through the outbox: applied optimistically, queued while
+  // offline and reverted by the outbox if the server rejects them
   const likeTweet = async (tweetId: string) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      // Update UI immediately
-      updateTweetInteraction(tweetId, 'like', true);
-
-      const { error } = await supabase
-        .from('likes')
-        .insert({
-          user_id: user.id,
-          tweet_id: tweetId,
-        });
-
-      if (error) {
-        // Revert UI changes on error
-        updateTweetInteraction(tweetId, 'like', false);
-        if (error.code === '23505') {
-          throw new Error('Tweet already liked');
-        }
-        throw error;
-      }
-    } catch (err: any) {
-      throw new Error(err.message);
-    }
+    await submitOutboxAction({ type: 'like', tweetId });
+    invalidateCache.tweetInteraction();
   };
 
   const unlikeTweet = async (tweetId: string) => {
+    await submitOutboxAction({ type: 'unlike', tweetId });
+    invalidateCache.tweetInteraction();
+  };
+
+  // Resolves with the new row, or null when the post was queued until the connection returns
+  const createTweet = async ({
+    content,
+    imageUrls,
+    videoUrls,
+    categories = [],
+    countries = [],
+    quotedTweetId,
+    poll,
+    mentionedUserIds,
+    mediaAltText,
+    sensitiveMedia,
+    place,
+    itinerary,
+    review,
+    flightDeal,
+    listing,
+    isQuestion,
+  }: CreateTweetOptions) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const { queued, data } = await submitOutboxAction<TweetWithProfile>({
+        type: 'createTweet',
+        content,
+        imageUrls: imageUrls ?? [],
+        videoUrls: videoUrls ?? [],
+        tags: [...categories, ...countries], // Store both categories and countries
+        ...(quotedTweetId ? { quotedTweetId } : {}),
+        ...(mentionedUserIds?.length ? { mentionedUserIds } : {}),
+        ...(mediaAltText && Object.keys(mediaAltText).length > 0 ? { mediaAltText } : {}),
+        ...(sensitiveMedia ? { sensitiveMedia } : {}),
+        ...(place ? { place } : {}),
+        ...(itinerary ? { itinerary } : {}),
+        ...(review ? { review } : {}),
+        ...(flightDeal ? { flightDeal } : {}),
+        ...(listing ? { listing } : {}),
+        ...(isQuestion ? { isQuestion } : {}),
+        ...(poll ? { poll } : {}),
+      });
 
-      // Update UI immediately
-      updateTweetInteraction(tweetId, 'like', false);
+      if (queued || !data) return null;
 
-      const { error } = await supabase
-        .from('likes')
-        .delete()
-        .match({
-          user_id: user.id,
-          tweet_id: tweetId,
-        });
-
-      if (error) {
-        // Revert UI changes on error
-        updateTweetInteraction(tweetId, 'like', true);
-        throw error;
-      }
+      // Add to both feeds immediately; the outbox already put it in the entity store
+      const formattedTweet = formatTweet(data);
+      setTweets(prev => [formattedTweet, ...prev]);
+      setFollowingTweets(prev => [formattedTweet, ...prev]);
+      
+      // Update last fetch time
+      lastFetchTimeRef.current = data.created_at;
+      
+      return data;
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  const createTweet = async (content: string, imageUrls: string[] = [], videoUrls: string[] = [], categories: TweetCategory[] = [], countries: string[] = []) => {
-    // Combine images and videos into a single array with metadata
-    const allMediaUrls = [
-      ...imageUrls.map(url => ({ url, type: 'image' })),
-      ...videoUrls.map(url => ({ url, type: 'video' }))
-    ];
-    
-    // Store all media URLs in the image_urls field for now
-    const mediaUrls = allMediaUrls.map(media => `${media.type}:${media.url}`);
+  // Publishes every segment at once; only the first post goes into the feeds, like any reply chain
+  const createThread = async (
+    segments: ThreadSegment[],
+    categories: TweetCategory[] = [],
+    countries: string[] = [],
+    quotedTweetId?: string
+  ) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const { queued, data } = await submitOutboxAction<TweetWithProfile[]>({
+        type: 'createThread',
+        segments,
+        tags: [...categories, ...countries],
+        ...(quotedTweetId ? { quotedTweetId } : {}),
+      });
 
-      // Extract hashtags and mentions from content (including Arabic support)
-      const hashtagMatches = content.match(/#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g);
-      const hashtags = hashtagMatches?.map(tag => tag.slice(1)) || [];
-      const mentions = content.match(/@\w+/g)?.map(mention => mention.slice(1)) || [];
-      
-      console.log('Tweet content:', content);
-      console.log('Hashtag matches:', hashtagMatches);
-      console.log('Extracted hashtags:', hashtags);
-      console.log('Categories:', categories);
-      console.log('Countries:', countries);
+      if (queued || !data || data.length === 0) return null;
 
-      // Combine categories and countries into tags
-      const allTags = [...categories, ...countries];
-      console.log('Combined tags:', allTags);
+      const firstTweet = formatTweet(data[0]);
+      setTweets(prev => [firstTweet, ...prev]);
+      setFollowingTweets(prev => [firstTweet, ...prev]);
 
-      const { data, error } = await supabase
-        .from('tweets')
-        .insert({
-          content,
-          author_id: user.id,
-          image_urls: mediaUrls, // Store combined media URLs
-          hashtags,
-          mentions,
-          tags: allTags, // Store both categories and countries
-        })
-        .select(`
-          id,
-          content,
-          author_id,
-          image_urls,
-          hashtags,
-          mentions,
-          tags,
-          likes_count,
-          retweets_count,
-          replies_count,
-          views_count,
-          created_at,
-          is_retweet,
-          original_tweet_id,
-          profiles!tweets_author_id_fkey (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            bio,
-            verified,
-            followers_count,
-            following_count,
-            country,
-            created_at
-          )
-        `)
-        .single();
-
-      if (error) throw error;
-
-      // Format the new tweet and add it immediately to the local state
-      const formattedTweet = formatTweetData(data as TweetWithProfile, [], [], []);
-      
-      // Add to both feeds immediately (optimistic update)
-      setTweets(prev => [formattedTweet, ...prev]);
-      setFollowingTweets(prev => [formattedTweet, ...prev]);
-      
       // Update last fetch time
-      lastFetchTimeRef.current = data.created_at;
-      
+      lastFetchTimeRef.current = data[0].created_at;
+
       return data;
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  const createReply = async (content: string, replyToId: string, imageUrls: string[] = [], videoUrls: string[] = []) => {
-    // Combine images and videos into a single array with metadata
-    const allMediaUrls = [
-      ...imageUrls.map(url => ({ url, type: 'image' })),
-      ...videoUrls.map(url => ({ url, type: 'video' }))
-    ];
-    
+  const createReply = async (
+    content: string,
+    replyToId: string,
+    imageUrls: string[] = [],
+    videoUrls: string[] = [],
+    mentionedUserIds: string[] = []
+  ) => {
     // Store all media URLs in the image_urls field for now
-    const mediaUrls = allMediaUrls.map(media => `${media.type}:${media.url}`);
+    const mediaUrls = encodeMediaUrls(imageUrls, videoUrls);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Extract hashtags and mentions from content (including Arabic support)
-      const hashtagMatches = content.match(/#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g);
-      const hashtags = hashtagMatches?.map(tag => tag.slice(1)) || [];
-      const mentions = content.match(/@\w+/g)?.map(mention => mention.slice(1)) || [];
+      const { hashtags, mentions } = extractContentTags(content);
       
       console.log('Reply content:', content);
-      console.log('Hashtag matches:', hashtagMatches);
       console.log('Extracted hashtags:', hashtags);
 
       const { data, error } = await supabase
@@ -1078,22 +459,19 @@ export const useTweets = () => {
           image_urls: mediaUrls, // Store combined media URLs
           hashtags,
           mentions,
+          mentioned_user_ids: mentionedUserIds,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      // Update reply count locally
-      const updateReplyCount = (tweetList: Tweet[]) => 
-        tweetList.map(tweet => 
-          tweet.id === replyToId 
-            ? { ...tweet, replies: tweet.replies + 1 }
-            : tweet
-        );
-
-      setTweets(updateReplyCount);
-      setFollowingTweets(updateReplyCount);
+      // Update reply count wherever the parent is shown
+      const parent = useStore.getState().tweetsById[replyToId];
+      if (parent) {
+        patchTweet(replyToId, { replies: parent.replies + 1 });
+      }
+      invalidateCache.tweetsChanged();
       
       return data;
     } catch (err: any) {
@@ -1107,7 +485,7 @@ export const useTweets = () => {
       if (!user) throw new Error('User not authenticated');
 
       // Update UI immediately
-      updateTweetInteraction(originalTweetId, 'retweet', true);
+      const previous = updateTweetInteraction(originalTweetId, 'retweet', true);
 
       // Create a retweet record in the tweets table
       const { data, error } = await supabase
@@ -1123,7 +501,7 @@ export const useTweets = () => {
 
       if (error) {
         // Revert UI changes on error
-        updateTweetInteraction(originalTweetId, 'retweet', false);
+        updateTweetInteraction(originalTweetId, 'retweet', previous);
         if (error.code === '23505') {
           throw new Error('You have already retweeted this tweet');
         }
@@ -1138,6 +516,7 @@ export const useTweets = () => {
           tweet_id: originalTweetId,
         });
 
+      invalidateCache.tweetsChanged();
       return data;
     } catch (err: any) {
       throw new Error(err.message);
@@ -1150,7 +529,7 @@ export const useTweets = () => {
       if (!user) throw new Error('User not authenticated');
 
       // Update UI immediately
-      updateTweetInteraction(originalTweetId, 'retweet', false);
+      const previous = updateTweetInteraction(originalTweetId, 'retweet', false);
 
       // Remove the retweet from tweets table
       const { error: tweetError } = await supabase
@@ -1164,7 +543,7 @@ export const useTweets = () => {
 
       if (tweetError) {
         // Revert UI changes on error
-        updateTweetInteraction(originalTweetId, 'retweet', true);
+        updateTweetInteraction(originalTweetId, 'retweet', previous);
         throw tweetError;
       }
 
@@ -1176,92 +555,86 @@ export const useTweets = () => {
           user_id: user.id,
           tweet_id: originalTweetId,
         });
+
+      invalidateCache.tweetsChanged();
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  const retweetTweet = async (tweetId: string) => {
+  const deleteTweet = async (tweetId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Check current state from cache
-      const isCurrentlyRetweeted = userInteractions.retweets.has(tweetId);
-      
-      if (isCurrentlyRetweeted) {
-        await removeRetweet(tweetId);
-      } else {
-        await createRetweet(tweetId);
-      }
+      const { error } = await supabase
+        .from('tweets')
+        .delete()
+        .match({
+          id: tweetId,
+          author_id: user.id,
+        });
+
+      if (error) throw error;
+
+      // Drop it from every list in memory and in the persisted cache
+      removeTweet(tweetId);
+      setTweets(prev => prev.filter(tweet => tweet.id !== tweetId));
+      setFollowingTweets(prev => prev.filter(tweet => tweet.id !== tweetId));
+      invalidateCache.tweetsChanged(tweetId);
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  const unretweetTweet = async (tweetId: string) => {
-    await removeRetweet(tweetId);
-  };
-
-  const bookmarkTweet = async (tweetId: string) => {
+  const editTweet = async (tweetId: string, edit: TweetEdit) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const row = await saveTweetEdit(tweetId, edit);
+      const fields = editFieldsFromRow(row);
 
-      // Update UI immediately
-      updateTweetInteraction(tweetId, 'bookmark', true);
+      // The store feeds every card; the local lists and the persisted cache keep their own copies
+      patchTweet(tweetId, fields);
+      setTweets(prev => prev.map(tweet => (tweet.id === tweetId ? { ...tweet, ...fields } : tweet)));
+      setFollowingTweets(prev => prev.map(tweet => (tweet.id === tweetId ? { ...tweet, ...fields } : tweet)));
+      invalidateCache.tweetEdited(tweetId, fields);
 
-      const { error } = await supabase
-        .from('bookmarks')
-        .insert({
-          user_id: user.id,
-          tweet_id: tweetId,
-        });
-
-      if (error) {
-        // Revert UI changes on error
-        updateTweetInteraction(tweetId, 'bookmark', false);
-        if (error.code === '23505') {
-          throw new Error('Tweet already bookmarked');
-        }
-        throw error;
-      }
+      return formatTweet(row);
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  const unbookmarkTweet = async (tweetId: string) => {
+  const retweetTweet = async (tweetId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Update UI immediately
-      updateTweetInteraction(tweetId, 'bookmark', false);
-
-      const { error } = await supabase
-        .from('bookmarks')
-        .delete()
-        .match({
-          user_id: user.id,
-          tweet_id: tweetId,
-        });
-
-      if (error) {
-        // Revert UI changes on error
-        updateTweetInteraction(tweetId, 'bookmark', true);
-        throw error;
+      // Check current state from the entity store
+      const isCurrentlyRetweeted = !!useStore.getState().tweetsById[tweetId]?.isRetweeted;
+      
+      if (isCurrentlyRetweeted) {
+        await removeRetweet(tweetId);
+      } else {
+        await createRetweet(tweetId);
       }
     } catch (err: any) {
       throw new Error(err.message);
     }
   };
 
-  // Only fetch tweets once when the hook is first used
-  useEffect(() => {
-    fetchTweets();
-    fetchFollowingTweets();
-  }, [fetchTweets, fetchFollowingTweets]);
+  const unretweetTweet = async (tweetId: string) => {
+    await removeRetweet(tweetId);
+  };
+
+  const bookmarkTweet = async (tweetId: string) => {
+    await submitOutboxAction({ type: 'bookmark', tweetId });
+    invalidateCache.tweetInteraction();
+  };
+
+  const unbookmarkTweet = async (tweetId: string) => {
+    await submitOutboxAction({ type: 'unbookmark', tweetId });
+    invalidateCache.tweetInteraction();
+  };
 
   // Cleanup timeouts on unmount
   useEffect(() => {
@@ -1269,19 +642,12 @@ export const useTweets = () => {
       if (updateTimeoutRef.current) {
         clearTimeout(updateTimeoutRef.current);
       }
-      if (channelRef.current) {
-        channelRef.current.unsubscribe();
-        supabase.removeChannel(channelRef.current);
-      }
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
     };
   }, []);
 
   return {
-    tweets,
-    followingTweets,
+    tweets: useTweetList(tweets),
+    followingTweets: useTweetList(followingTweets),
     replies,
     loading,
     error,
@@ -1289,8 +655,11 @@ export const useTweets = () => {
     fetchFollowingTweets,
     fetchReplies,
     createTweet,
+    createThread,
     createReply,
     createRetweet,
+    deleteTweet,
+    editTweet,
     removeRetweet,
     likeTweet,
     unlikeTweet,
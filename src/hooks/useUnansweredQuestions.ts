@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Tweet } from '../types';
+import { fetchUnansweredQuestionsPage, formatTweet, TweetCursor } from '../lib/tweetRepository';
+import { useStore } from '../store/useStore';
+import { useTweetList } from './useTweetEntity';
+
+const PAGE_SIZE = 20;
+
+interface UseUnansweredQuestionsOptions {
+  countryCode?: string | null;
+  followingOnly?: boolean;
+  /** Nothing is fetched until the filter is turned on */
+  enabled?: boolean;
+}
+
+/**
+ * Questions still waiting for an accepted answer, newest first, for the feed's unanswered filter.
+ */
+export const useUnansweredQuestions = ({
+  countryCode = null,
+  followingOnly = false,
+  enabled = true,
+}: UseUnansweredQuestionsOptions = {}) => {
+  const [tweets, setTweets] = useState<Tweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<TweetCursor | null>(null);
+  // Only the latest request may land: a reply for an earlier country or feed is dropped
+  const requestIdRef = useRef(0);
+  const loadingRef = useRef(false);
+  const upsertTweets = useStore(state => state.upsertTweets);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!enabled) return;
+
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestId === requestIdRef.current;
+
+    try {
+      loadingRef.current = true;
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchUnansweredQuestionsPage({
+        countryCode,
+        followingOnly,
+        cursor: reset ? null : cursorRef.current,
+        pageSize: PAGE_SIZE,
+      });
+      if (!isCurrent()) return;
+
+      const rows = page.rows.map(row => formatTweet(row));
+      upsertTweets(rows);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.hasMore);
+      setTweets(prev => (reset ? rows : [...prev, ...rows]));
+    } catch (err: any) {
+      if (!isCurrent()) return;
+      console.error('Error fetching unanswered questions:', err);
+      setError(err.message);
+    } finally {
+      if (isCurrent()) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [enabled, countryCode, followingOnly, upsertTweets]);
+
+  // Another country or feed starts from an empty list, and drops any page still on its way
+  useEffect(() => {
+    requestIdRef.current += 1;
+    loadingRef.current = false;
+    setLoading(false);
+    setTweets([]);
+    setHasMore(false);
+    cursorRef.current = null;
+    loadPage(true);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loadingRef.current && hasMore) loadPage(false);
+  }, [hasMore, loadPage]);
+
+  const refresh = useCallback(() => loadPage(true), [loadPage]);
+
+  return {
+    tweets: useTweetList(tweets),
+    loading,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
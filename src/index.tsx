@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
+import { hydrateCaches } from './lib/cache';
 
 // Remove loading screen once React app is ready
 const removeLoadingScreen = () => {
@@ -19,11 +20,14 @@ const removeLoadingScreen = () => {
 
 const root = ReactDOM.createRoot(document.getElementById('app') as HTMLElement);
 
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Restore the persisted cache first so the last feed can render on a cold start
+hydrateCaches().then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
 
-// Remove loading screen after render
-removeLoadingScreen();
\ No newline at end of file
+  // Remove loading screen after render
+  removeLoadingScreen();
+});
\ No newline at end of file
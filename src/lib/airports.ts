@@ -0,0 +1,158 @@
+import { Airport, Place } from '../types';
+import { getPlace, normalizeForSearch } from './gazetteer';
+
+/**
+ * Airports flight deals can go between, bundled like the gazetteer so the
+ * composer's pickers and route search work offline. Keyed by IATA code, which
+ * is what deals store, so codes are never changed once listed.
+ */
+
+const airport = (
+  iata: string,
+  name: string,
+  nameAr: string,
+  city: string,
+  cityAr: string,
+  countryCode: string
+): Airport => ({ iata, name, nameAr, city, cityAr, countryCode });
+
+export const AIRPORTS: Airport[] = [
+  airport('RUH', 'King Khalid International Airport', 'مطار الملك خالد الدولي', 'Riyadh', 'الرياض', 'SA'),
+  airport('JED', 'King Abdulaziz International Airport', 'مطار الملك عبدالعزيز الدولي', 'Jeddah', 'جدة', 'SA'),
+  airport('MED', 'Prince Mohammad bin Abdulaziz Airport', 'مطار الأمير محمد بن عبدالعزيز', 'Madinah', 'المدينة المنورة', 'SA'),
+  airport('DMM', 'King Fahd International Airport', 'مطار الملك فهد الدولي', 'Dammam', 'الدمام', 'SA'),
+  airport('AHB', 'Abha International Airport', 'مطار أبها الدولي', 'Abha', 'أبها', 'SA'),
+  airport('TIF', 'Taif International Airport', 'مطار الطائف الدولي', 'Taif', 'الطائف', 'SA'),
+  airport('TUU', 'Tabuk Regional Airport', 'مطار تبوك الإقليمي', 'Tabuk', 'تبوك', 'SA'),
+  airport('ELQ', 'Prince Naif bin Abdulaziz Airport', 'مطار الأمير نايف بن عبدالعزيز', 'Buraidah', 'بريدة', 'SA'),
+  airport('ULH', 'AlUla International Airport', 'مطار العلا الدولي', 'AlUla', 'العلا', 'SA'),
+  airport('DXB', 'Dubai International Airport', 'مطار دبي الدولي', 'Dubai', 'دبي', 'AE'),
+  airport('DWC', 'Al Maktoum International Airport', 'مطار آل مكتوم الدولي', 'Dubai', 'دبي', 'AE'),
+  airport('AUH', 'Zayed International Airport', 'مطار زايد الدولي', 'Abu Dhabi', 'أبوظبي', 'AE'),
+  airport('SHJ', 'Sharjah International Airport', 'مطار الشارقة الدولي', 'Sharjah', 'الشارقة', 'AE'),
+  airport('DOH', 'Hamad International Airport', 'مطار حمد الدولي', 'Doha', 'الدوحة', 'QA'),
+  airport('KWI', 'Kuwait International Airport', 'مطار الكويت الدولي', 'Kuwait City', 'مدينة الكويت', 'KW'),
+  airport('BAH', 'Bahrain International Airport', 'مطار البحرين الدولي', 'Manama', 'المنامة', 'BH'),
+  airport('MCT', 'Muscat International Airport', 'مطار مسقط الدولي', 'Muscat', 'مسقط', 'OM'),
+  airport('SLL', 'Salalah International Airport', 'مطار صلالة الدولي', 'Salalah', 'صلالة', 'OM'),
+  airport('CAI', 'Cairo International Airport', 'مطار القاهرة الدولي', 'Cairo', 'القاهرة', 'EG'),
+  airport('HRG', 'Hurghada International Airport', 'مطار الغردقة الدولي', 'Hurghada', 'الغردقة', 'EG'),
+  airport('SSH', 'Sharm El Sheikh International Airport', 'مطار شرم الشيخ الدولي', 'Sharm El Sheikh', 'شرم الشيخ', 'EG'),
+  airport('AMM', 'Queen Alia International Airport', 'مطار الملكة علياء الدولي', 'Amman', 'عمّان', 'JO'),
+  airport('BEY', 'Rafic Hariri International Airport', 'مطار رفيق الحريري الدولي', 'Beirut', 'بيروت', 'LB'),
+  airport('CMN', 'Mohammed V International Airport', 'مطار محمد الخامس الدولي', 'Casablanca', 'الدار البيضاء', 'MA'),
+  airport('RAK', 'Marrakesh Menara Airport', 'مطار مراكش المنارة', 'Marrakesh', 'مراكش', 'MA'),
+  airport('TUN', 'Tunis-Carthage International Airport', 'مطار تونس قرطاج الدولي', 'Tunis', 'تونس', 'TN'),
+  airport('IST', 'Istanbul Airport', 'مطار إسطنبول', 'Istanbul', 'إسطنبول', 'TR'),
+  airport('SAW', 'Sabiha Gökçen Airport', 'مطار صبيحة كوكجن', 'Istanbul', 'إسطنبول', 'TR'),
+  airport('AYT', 'Antalya Airport', 'مطار أنطاليا', 'Antalya', 'أنطاليا', 'TR'),
+  airport('TZX', 'Trabzon Airport', 'مطار طرابزون', 'Trabzon', 'طرابزون', 'TR'),
+  airport('ESB', 'Ankara Esenboğa Airport', 'مطار أنقرة إسنبوغا', 'Ankara', 'أنقرة', 'TR'),
+  airport('BJV', 'Milas-Bodrum Airport', 'مطار ميلاس بودروم', 'Bodrum', 'بودروم', 'TR'),
+  airport('TBS', 'Tbilisi International Airport', 'مطار تبليسي الدولي', 'Tbilisi', 'تبليسي', 'GE'),
+  airport('BUS', 'Batumi International Airport', 'مطار باتومي الدولي', 'Batumi', 'باتومي', 'GE'),
+  airport('GYD', 'Heydar Aliyev International Airport', 'مطار حيدر علييف الدولي', 'Baku', 'باكو', 'AZ'),
+  airport('SJJ', 'Sarajevo International Airport', 'مطار سراييفو الدولي', 'Sarajevo', 'سراييفو', 'BA'),
+  airport('TAS', 'Tashkent International Airport', 'مطار طشقند الدولي', 'Tashkent', 'طشقند', 'UZ'),
+  airport('ALA', 'Almaty International Airport', 'مطار ألماتي الدولي', 'Almaty', 'ألماتي', 'KZ'),
+  airport('LHR', 'Heathrow Airport', 'مطار هيثرو', 'London', 'لندن', 'GB'),
+  airport('LGW', 'Gatwick Airport', 'مطار غاتويك', 'London', 'لندن', 'GB'),
+  airport('MAN', 'Manchester Airport', 'مطار مانشستر', 'Manchester', 'مانشستر', 'GB'),
+  airport('CDG', 'Charles de Gaulle Airport', 'مطار شارل ديغول', 'Paris', 'باريس', 'FR'),
+  airport('ORY', 'Orly Airport', 'مطار أورلي', 'Paris', 'باريس', 'FR'),
+  airport('NCE', 'Nice Côte d\'Azur Airport', 'مطار نيس كوت دازور', 'Nice', 'نيس', 'FR'),
+  airport('FRA', 'Frankfurt Airport', 'مطار فرانكفورت', 'Frankfurt', 'فرانكفورت', 'DE'),
+  airport('MUC', 'Munich Airport', 'مطار ميونخ', 'Munich', 'ميونخ', 'DE'),
+  airport('FCO', 'Rome Fiumicino Airport', 'مطار روما فيوميتشينو', 'Rome', 'روما', 'IT'),
+  airport('MXP', 'Milan Malpensa Airport', 'مطار ميلانو مالبينسا', 'Milan', 'ميلانو', 'IT'),
+  airport('MAD', 'Madrid-Barajas Airport', 'مطار مدريد باراخاس', 'Madrid', 'مدريد', 'ES'),
+  airport('BCN', 'Barcelona-El Prat Airport', 'مطار برشلونة إل برات', 'Barcelona', 'برشلونة', 'ES'),
+  airport('AMS', 'Amsterdam Schiphol Airport', 'مطار أمستردام سخيبول', 'Amsterdam', 'أمستردام', 'NL'),
+  airport('VIE', 'Vienna International Airport', 'مطار فيينا الدولي', 'Vienna', 'فيينا', 'AT'),
+  airport('ZRH', 'Zurich Airport', 'مطار زيورخ', 'Zurich', 'زيورخ', 'CH'),
+  airport('GVA', 'Geneva Airport', 'مطار جنيف', 'Geneva', 'جنيف', 'CH'),
+  airport('PRG', 'Václav Havel Airport Prague', 'مطار براغ', 'Prague', 'براغ', 'CZ'),
+  airport('ATH', 'Athens International Airport', 'مطار أثينا الدولي', 'Athens', 'أثينا', 'GR'),
+  airport('KUL', 'Kuala Lumpur International Airport', 'مطار كوالالمبور الدولي', 'Kuala Lumpur', 'كوالالمبور', 'MY'),
+  airport('PEN', 'Penang International Airport', 'مطار بينانغ الدولي', 'Penang', 'بينانغ', 'MY'),
+  airport('CGK', 'Soekarno-Hatta International Airport', 'مطار سوكارنو هاتا الدولي', 'Jakarta', 'جاكرتا', 'ID'),
+  airport('DPS', 'Ngurah Rai International Airport', 'مطار نغوراه راي الدولي', 'Bali', 'بالي', 'ID'),
+  airport('BKK', 'Suvarnabhumi Airport', 'مطار سوفارنابومي', 'Bangkok', 'بانكوك', 'TH'),
+  airport('HKT', 'Phuket International Airport', 'مطار بوكيت الدولي', 'Phuket', 'بوكيت', 'TH'),
+  airport('SIN', 'Singapore Changi Airport', 'مطار شانغي سنغافورة', 'Singapore', 'سنغافورة', 'SG'),
+  airport('MLE', 'Velana International Airport', 'مطار فيلانا الدولي', 'Malé', 'ماليه', 'MV'),
+  airport('CMB', 'Bandaranaike International Airport', 'مطار باندارانايكا الدولي', 'Colombo', 'كولومبو', 'LK'),
+  airport('BOM', 'Chhatrapati Shivaji Maharaj International Airport', 'مطار مومباي الدولي', 'Mumbai', 'مومباي', 'IN'),
+  airport('DEL', 'Indira Gandhi International Airport', 'مطار إنديرا غاندي الدولي', 'Delhi', 'دلهي', 'IN'),
+  airport('KHI', 'Jinnah International Airport', 'مطار جناح الدولي', 'Karachi', 'كراتشي', 'PK'),
+  airport('NRT', 'Narita International Airport', 'مطار ناريتا الدولي', 'Tokyo', 'طوكيو', 'JP'),
+  airport('HND', 'Haneda Airport', 'مطار هانيدا', 'Tokyo', 'طوكيو', 'JP'),
+  airport('ICN', 'Incheon International Airport', 'مطار إنتشون الدولي', 'Seoul', 'سيول', 'KR'),
+  airport('PEK', 'Beijing Capital International Airport', 'مطار بكين العاصمة الدولي', 'Beijing', 'بكين', 'CN'),
+  airport('HKG', 'Hong Kong International Airport', 'مطار هونغ كونغ الدولي', 'Hong Kong', 'هونغ كونغ', 'HK'),
+  airport('NBO', 'Jomo Kenyatta International Airport', 'مطار جومو كينياتا الدولي', 'Nairobi', 'نيروبي', 'KE'),
+  airport('ZNZ', 'Abeid Amani Karume International Airport', 'مطار زنجبار الدولي', 'Zanzibar', 'زنجبار', 'TZ'),
+  airport('JNB', 'O. R. Tambo International Airport', 'مطار أو آر تامبو الدولي', 'Johannesburg', 'جوهانسبرغ', 'ZA'),
+  airport('SEZ', 'Seychelles International Airport', 'مطار سيشل الدولي', 'Mahé', 'ماهي', 'SC'),
+  airport('MRU', 'Sir Seewoosagur Ramgoolam International Airport', 'مطار موريشيوس الدولي', 'Mauritius', 'موريشيوس', 'MU'),
+  airport('JFK', 'John F. Kennedy International Airport', 'مطار جون إف كينيدي الدولي', 'New York', 'نيويورك', 'US'),
+  airport('LAX', 'Los Angeles International Airport', 'مطار لوس أنجلوس الدولي', 'Los Angeles', 'لوس أنجلوس', 'US'),
+  airport('IAD', 'Washington Dulles International Airport', 'مطار واشنطن دالاس الدولي', 'Washington', 'واشنطن', 'US'),
+  airport('YYZ', 'Toronto Pearson International Airport', 'مطار تورونتو بيرسون الدولي', 'Toronto', 'تورونتو', 'CA'),
+];
+
+const AIRPORTS_BY_IATA = new Map(AIRPORTS.map(entry => [entry.iata, entry]));
+
+export const getAirport = (iata: string | null | undefined): Airport | undefined =>
+  iata ? AIRPORTS_BY_IATA.get(iata.toUpperCase()) : undefined;
+
+export const getLocalizedAirportCity = (airport: Airport, language: 'en' | 'ar'): string =>
+  language === 'ar' ? airport.cityAr : airport.city;
+
+export const getLocalizedAirportName = (airport: Airport, language: 'en' | 'ar'): string =>
+  language === 'ar' ? airport.nameAr : airport.name;
+
+// The gazetteer's entry for the airport, when it has one to link to
+export const getAirportPlace = (airport: Airport): Place | undefined =>
+  getPlace(`${airport.iata.toLowerCase()}-airport`);
+
+/**
+ * Airports whose code, name or city (either language) matches `query`: an exact
+ * code first, then names and cities that start with it, then any that contain it.
+ */
+export const searchAirports = (query: string, limit = 8): Airport[] => {
+  const needle = normalizeForSearch(query);
+  if (!needle) return [];
+
+  const scored: { airport: Airport; score: number }[] = [];
+  for (const entry of AIRPORTS) {
+    const haystacks = [entry.name, entry.nameAr, entry.city, entry.cityAr].map(normalizeForSearch);
+    const score = entry.iata.toLowerCase() === needle
+      ? 0
+      : haystacks.some(text => text.startsWith(needle))
+        ? 1
+        : haystacks.some(text => text.includes(needle))
+          ? 2
+          : -1;
+    if (score >= 0) scored.push({ airport: entry, score });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(entry => entry.airport);
+};
+
+/**
+ * A route query like `RUH-IST` (or `ruh > ist`, `RUH→IST`) between two listed
+ * airports, or null for anything else.
+ */
+export const parseRouteQuery = (query: string): { origin: Airport; destination: Airport } | null => {
+  const match = query.trim().match(/^([a-z]{3})\s*(?:->|-|>|\/|\u2192)\s*([a-z]{3})$/i);
+  if (!match) return null;
+
+  const origin = getAirport(match[1]);
+  const destination = getAirport(match[2]);
+  if (!origin || !destination || origin.iata === destination.iata) return null;
+  return { origin, destination };
+};
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataCache, feedCache, invalidateCache, linkPreviewCache, profileCache, tweetCache } from './cache';
+
+const createCache = (maxSize = 3) => new DataCache({ name: 'test', ttl: 1000, maxAge: 10_000, maxSize });
+
+describe('DataCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('freshness', () => {
+    it('serves an entry as fresh until its ttl, then only through peek', () => {
+      const cache = createCache();
+      cache.set('a', 1);
+
+      expect(cache.get('a')).toBe(1);
+
+      vi.advanceTimersByTime(1001);
+      expect(cache.get('a')).toBeNull();
+      expect(cache.peek('a')).toEqual({ data: 1, stale: true });
+    });
+
+    it('drops an entry once it is past maxAge', () => {
+      const cache = createCache();
+      cache.set('a', 1);
+
+      vi.advanceTimersByTime(10_001);
+      expect(cache.peek('a')).toBeNull();
+      expect(cache.keys()).toEqual([]);
+    });
+
+    it('marks matching entries stale on invalidate without dropping them', () => {
+      const cache = createCache();
+      cache.set('feed:a', 1);
+      cache.set('profile:a', 2);
+
+      cache.invalidate('feed:');
+
+      expect(cache.peek('feed:a')).toEqual({ data: 1, stale: true });
+      expect(cache.get('profile:a')).toBe(2);
+    });
+  });
+
+  describe('fetch', () => {
+    it('waits for the fetcher on a miss and caches the result', async () => {
+      const cache = createCache();
+      const fetcher = vi.fn().mockResolvedValue('fresh');
+
+      await expect(cache.fetch('a', fetcher)).resolves.toBe('fresh');
+      await expect(cache.fetch('a', fetcher)).resolves.toBe('fresh');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves stale data right away and revalidates in the background', async () => {
+      const cache = createCache();
+      cache.set('a', 'old');
+      vi.advanceTimersByTime(2000);
+
+      const onRevalidate = vi.fn();
+      const fetcher = vi.fn().mockResolvedValue('new');
+
+      await expect(cache.fetch('a', fetcher, { onRevalidate })).resolves.toBe('old');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith('new'));
+      expect(cache.get('a')).toBe('new');
+    });
+
+    it('keeps the stale entry when revalidation fails', async () => {
+      const cache = createCache();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      cache.set('a', 'old');
+      vi.advanceTimersByTime(2000);
+
+      await expect(cache.fetch('a', () => Promise.reject(new Error('offline')))).resolves.toBe('old');
+
+      await vi.waitFor(() => expect(consoleError).toHaveBeenCalled());
+      expect(cache.peek('a')).toEqual({ data: 'old', stale: true });
+      consoleError.mockRestore();
+    });
+
+    it('shares one request between concurrent fetches of the same key', async () => {
+      const cache = createCache();
+      let resolve!: (value: string) => void;
+      const fetcher = vi.fn(() => new Promise<string>(r => { resolve = r; }));
+
+      const first = cache.fetch('a', fetcher);
+      const second = cache.fetch('a', fetcher);
+      resolve('shared');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['shared', 'shared']);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('eviction', () => {
+    it('evicts the least recently used entry when full', () => {
+      const cache = createCache(2);
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+
+      expect(cache.keys()).toEqual(['b', 'c']);
+    });
+
+    it('counts reads as use', () => {
+      const cache = createCache(2);
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(cache.keys()).toEqual(['a', 'c']);
+    });
+
+    it('does not count in-place updates as use', () => {
+      const cache = createCache(2);
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      cache.update<number>('a', n => n + 1);
+      cache.set('c', 3);
+
+      expect(cache.keys()).toEqual(['b', 'c']);
+    });
+  });
+});
+
+describe('invalidateCache.all', () => {
+  it('empties every shared cache, link previews included', () => {
+    const shared = [feedCache, profileCache, tweetCache, linkPreviewCache];
+    shared.forEach(cache => cache.set('key', 1));
+
+    invalidateCache.all();
+
+    shared.forEach(cache => expect(cache.keys()).toEqual([]));
+  });
+});
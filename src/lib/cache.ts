@@ -1,66 +1,189 @@
 import { Tweet, User } from '../types';
+import { cacheStorage, PersistedEntry } from './cacheStorage';
 
 interface CacheItem<T> {
   data: T;
   timestamp: number;
-  expiresAt: number;
+  staleAt: number; // fresh until this point, then served stale while revalidating
+  expiresAt: number; // dropped entirely after this point
 }
 
 interface CacheConfig {
-  ttl: number; // time to live in milliseconds
-  maxSize: number; // maximum number of items
+  name: string; // namespace in IndexedDB
+  ttl: number; // how long an entry is fresh, in milliseconds
+  maxAge: number; // how long a stale entry is kept for stale-while-revalidate
+  maxSize: number; // maximum number of items before least recently used ones are evicted
+  persist?: boolean; // mirror entries to IndexedDB so they survive reloads
 }
 
-class DataCache {
+export interface CacheSetOptions {
+  ttl?: number;
+  maxAge?: number;
+}
+
+export interface CacheFetchOptions<T> extends CacheSetOptions {
+  // Called with fresh data when a stale entry was served and the refetch finished
+  onRevalidate?: (data: T) => void;
+}
+
+export interface CachePeek<T> {
+  data: T;
+  stale: boolean;
+}
+
+type KeyMatcher = string | ((key: string) => boolean);
+
+const toMatcher = (match?: KeyMatcher) =>
+  match === undefined
+    ? () => true
+    : typeof match === 'string'
+      ? (key: string) => key.startsWith(match)
+      : match;
+
+export class DataCache {
+  // Map iteration order doubles as recency: the first key is the least recently used
   private cache = new Map<string, CacheItem<any>>();
+  private inflight = new Map<string, Promise<any>>();
   private config: CacheConfig;
 
-  constructor(config: CacheConfig = { ttl: 5 * 60 * 1000, maxSize: 100 }) {
+  constructor(config: CacheConfig) {
     this.config = config;
   }
 
-  set<T>(key: string, data: T, customTTL?: number): void {
-    const ttl = customTTL || this.config.ttl;
-    const expiresAt = Date.now() + ttl;
-    
-    // Remove oldest items if we're at capacity
-    if (this.cache.size >= this.config.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
-    }
+  set<T>(key: string, data: T, options: number | CacheSetOptions = {}): void {
+    const { ttl = this.config.ttl, maxAge = this.config.maxAge } =
+      typeof options === 'number' ? { ttl: options } : options;
+    const now = Date.now();
 
-    this.cache.set(key, {
+    this.store(key, {
       data,
-      timestamp: Date.now(),
-      expiresAt
+      timestamp: now,
+      staleAt: now + ttl,
+      expiresAt: now + Math.max(ttl, maxAge),
     });
   }
 
+  // Fresh data only, matching the old TTL semantics
   get<T>(key: string): T | null {
+    const entry = this.peek<T>(key);
+    return entry && !entry.stale ? entry.data : null;
+  }
+
+  // Fresh or stale data, for rendering something while a refetch runs
+  peek<T>(key: string): CachePeek<T> | null {
     const item = this.cache.get(key);
-    
     if (!item) return null;
-    
-    if (Date.now() > item.expiresAt) {
-      this.cache.delete(key);
+
+    const now = Date.now();
+    if (now > item.expiresAt) {
+      this.delete(key);
       return null;
     }
 
-    return item.data;
+    // Touch: move to the most recently used end
+    this.cache.delete(key);
+    this.cache.set(key, item);
+
+    return { data: item.data, stale: now > item.staleAt };
   }
 
   has(key: string): boolean {
     return this.get(key) !== null;
   }
 
-  delete(key: string): void {
-    this.cache.delete(key);
+  /**
+   * Stale-while-revalidate read. Fresh entries resolve immediately; stale ones resolve
+   * with the cached value and refetch in the background; misses wait for the fetcher.
+   * Concurrent fetches for the same key share one request.
+   */
+  async fetch<T>(key: string, fetcher: () => Promise<T>, options: CacheFetchOptions<T> = {}): Promise<T> {
+    const { onRevalidate, ...setOptions } = options;
+    const cached = this.peek<T>(key);
+
+    if (cached && !cached.stale) return cached.data;
+
+    if (cached) {
+      this.revalidate(key, fetcher, setOptions)
+        .then(data => onRevalidate?.(data))
+        .catch(error => console.error(`Error revalidating cache key ${key}:`, error));
+      return cached.data;
+    }
+
+    return this.revalidate(key, fetcher, setOptions);
+  }
+
+  revalidate<T>(key: string, fetcher: () => Promise<T>, options: CacheSetOptions = {}): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const request = fetcher()
+      .then(data => {
+        this.set(key, data, options);
+        return data;
+      })
+      .finally(() => this.inflight.delete(key));
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  // Replace cached data in place, keeping its freshness; no-op when the key is absent
+  update<T>(key: string, updater: (data: T) => T): void {
+    const item = this.cache.get(key);
+    if (!item) return;
+    this.store(key, { ...item, data: updater(item.data) }, false);
+  }
+
+  // Mark matching entries stale: they are still served by peek/fetch but refetched on next read
+  invalidate(match?: KeyMatcher): void {
+    const matches = toMatcher(match);
+    const now = Date.now();
+
+    this.cache.forEach((item, key) => {
+      if (matches(key) && item.staleAt >= now) {
+        this.store(key, { ...item, staleAt: 0 }, false);
+      }
+    });
+  }
+
+  keys(): string[] {
+    return [...this.cache.keys()];
+  }
+
+  delete(match: KeyMatcher): void {
+    const matches = toMatcher(match);
+    const removed = this.keys().filter(matches);
+
+    removed.forEach(key => this.cache.delete(key));
+    if (this.config.persist) {
+      cacheStorage.remove(this.config.name, removed);
+    }
   }
 
   clear(): void {
     this.cache.clear();
+    this.inflight.clear();
+    if (this.config.persist) {
+      cacheStorage.clear(this.config.name);
+    }
+  }
+
+  // Load persisted entries written by earlier sessions; in-memory entries win
+  async hydrate(): Promise<void> {
+    if (!this.config.persist) return;
+
+    const now = Date.now();
+    const entries = await cacheStorage.readAll(this.config.name);
+    const expired = entries.filter(entry => entry.expiresAt <= now).map(entry => entry.key);
+
+    entries
+      .filter(entry => entry.expiresAt > now && !this.cache.has(entry.key))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(({ key, data, timestamp, staleAt, expiresAt }) => {
+        this.cache.set(key, { data, timestamp, staleAt, expiresAt });
+      });
+
+    cacheStorage.remove(this.config.name, [...expired, ...this.evict()]);
   }
 
   // Get cache stats
@@ -71,20 +194,65 @@ class DataCache {
       usage: (this.cache.size / this.config.maxSize) * 100
     };
   }
+
+  private store<T>(key: string, item: CacheItem<T>, touch = true): void {
+    if (touch) this.cache.delete(key);
+    this.cache.set(key, item);
+
+    const evicted = this.evict();
+    if (!this.config.persist) return;
+
+    const entry: PersistedEntry<T> = { id: `${this.config.name}:${key}`, cache: this.config.name, key, ...item };
+    cacheStorage.write(entry).catch(error => console.debug('Failed to persist cache entry:', error));
+    cacheStorage.remove(this.config.name, evicted);
+  }
+
+  // Drop least recently used entries until the cache fits
+  private evict(): string[] {
+    const evicted: string[] = [];
+    while (this.cache.size > this.config.maxSize) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+      evicted.push(oldestKey);
+    }
+    return evicted;
+  }
 }
 
-// Global cache instances
-export const feedCache = new DataCache({ ttl: 3 * 60 * 1000, maxSize: 50 }); // 3 minutes for feeds
-export const profileCache = new DataCache({ ttl: 10 * 60 * 1000, maxSize: 100 }); // 10 minutes for profiles
-export const tweetCache = new DataCache({ ttl: 15 * 60 * 1000, maxSize: 200 }); // 15 minutes for individual tweets
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Global cache instances; stale entries are kept for a day so a cold start can render instantly
+export const feedCache = new DataCache({ name: 'feeds', ttl: 3 * MINUTE, maxAge: DAY, maxSize: 50, persist: true });
+export const profileCache = new DataCache({ name: 'profiles', ttl: 10 * MINUTE, maxAge: DAY, maxSize: 100, persist: true });
+export const tweetCache = new DataCache({ name: 'tweets', ttl: 15 * MINUTE, maxAge: DAY, maxSize: 200, persist: true });
+export const linkPreviewCache = new DataCache({ name: 'link-previews', ttl: HOUR, maxAge: DAY, maxSize: 200, persist: true });
+
+const caches = [feedCache, profileCache, tweetCache, linkPreviewCache];
+
+/**
+ * Restore persisted caches before the first render. Never blocks startup for long:
+ * if IndexedDB is slow the app renders and caches fill in as data arrives.
+ */
+export const hydrateCaches = (timeoutMs = 300): Promise<void> =>
+  Promise.race([
+    Promise.all(caches.map(cache => cache.hydrate())).then(() => undefined),
+    new Promise<void>(resolve => setTimeout(resolve, timeoutMs)),
+  ]).catch(error => console.debug('Cache hydration failed:', error));
 
 // Cache key generators
 export const cacheKeys = {
   feed: (type: 'for-you' | 'following', filters?: string) => `feed:${type}:${filters || 'all'}`,
+  pinnedHome: () => 'pinned-tweets:home',
   profile: (userId: string) => `profile:${userId}`,
+  profileRow: (userId: string) => `profile-row:${userId}`,
   userTweets: (userId: string, tab: string) => `user-tweets:${userId}:${tab}`,
+  suggestions: (userId: string) => `suggestions:${userId}`,
+  notifications: (userId: string) => `notifications:${userId}`,
   countries: () => 'countries:available',
   hashtags: () => 'hashtags:trending',
+  linkPreview: (url: string) => `link-preview:${url}`,
   interactions: (userId: string, tweetIds: string[]) => `interactions:${userId}:${tweetIds.join(',')}`,
 };
 
@@ -93,9 +261,9 @@ export const preloadCache = {
   async userProfile(userId: string): Promise<User | null> {
     const cacheKey = cacheKeys.profile(userId);
     const cached = profileCache.get<User>(cacheKey);
-    
+
     if (cached) return cached;
-    
+
     // This would be called from the actual data fetching function
     // We'll implement this in the hooks
     return null;
@@ -104,32 +272,96 @@ export const preloadCache = {
   async feedData(type: 'for-you' | 'following', filters?: string): Promise<Tweet[] | null> {
     const cacheKey = cacheKeys.feed(type, filters);
     const cached = feedCache.get<Tweet[]>(cacheKey);
-    
+
     if (cached) return cached;
-    
+
     return null;
   }
 };
 
+// Cached tweet lists are either plain arrays or pages with a `tweets` array
+const withoutTweet = (data: unknown, tweetId: string): unknown => {
+  if (Array.isArray(data)) {
+    return data.filter(item => !(item && typeof item === 'object' && (item as Tweet).id === tweetId));
+  }
+  if (data && typeof data === 'object' && Array.isArray((data as { tweets?: unknown }).tweets)) {
+    return { ...data, tweets: withoutTweet((data as { tweets: unknown[] }).tweets, tweetId) };
+  }
+  return data;
+};
+
+// Apply `patch` to a tweet wherever it appears in a cached list, including as a quoted tweet
+const withTweetPatched = (data: unknown, tweetId: string, patch: Partial<Tweet>): unknown => {
+  if (Array.isArray(data)) {
+    return data.map(item => {
+      if (!item || typeof item !== 'object') return item;
+      const tweet = item as Tweet;
+      if (tweet.id === tweetId) return { ...tweet, ...patch };
+      if (tweet.quotedTweet?.id === tweetId) return { ...tweet, quotedTweet: { ...tweet.quotedTweet, ...patch } };
+      return item;
+    });
+  }
+  if (data && typeof data === 'object' && Array.isArray((data as { tweets?: unknown }).tweets)) {
+    return { ...data, tweets: withTweetPatched((data as { tweets: unknown[] }).tweets, tweetId, patch) };
+  }
+  return data;
+};
+
 // Cache invalidation helpers
 export const invalidateCache = {
   userProfile: (userId: string) => {
     profileCache.delete(cacheKeys.profile(userId));
+    profileCache.delete(cacheKeys.profileRow(userId));
   },
-  
+
   userTweets: (userId: string) => {
-    ['tweets', 'replies', 'likes', 'media'].forEach(tab => {
+    ['tweets', 'replies', 'likes', 'media', 'pinned'].forEach(tab => {
       tweetCache.delete(cacheKeys.userTweets(userId, tab));
     });
   },
-  
+
+  // Counts or viewer flags changed (like, retweet, bookmark): keep lists, refetch on next read
+  tweetInteraction: () => {
+    feedCache.invalidate('feed:');
+    feedCache.invalidate(cacheKeys.pinnedHome());
+    tweetCache.invalidate('user-tweets:');
+  },
+
+  // A tweet was created or removed: lists change shape, so drop it from every cached list
+  tweetsChanged: (removedTweetId?: string) => {
+    if (removedTweetId) {
+      [feedCache, tweetCache].forEach(cache => {
+        cache.keys().forEach(key => cache.update(key, data => withoutTweet(data, removedTweetId)));
+      });
+    }
+    feedCache.invalidate('feed:');
+    feedCache.invalidate(cacheKeys.pinnedHome());
+    tweetCache.invalidate('user-tweets:');
+  },
+
+  // The author edited a tweet: show the new version from cache right away, then refetch
+  tweetEdited: (tweetId: string, patch: Partial<Tweet>) => {
+    [feedCache, tweetCache].forEach(cache => {
+      cache.keys().forEach(key => cache.update(key, data => withTweetPatched(data, tweetId, patch)));
+    });
+    invalidateCache.tweetInteraction();
+  },
+
+  // Profile edits show up on every tweet the user authored; profile pages are cached
+  // by username as well as id, so mark them all stale rather than guess the key
+  profileEdited: (userId: string) => {
+    invalidateCache.userProfile(userId);
+    profileCache.invalidate('profile:');
+    tweetCache.invalidate('user-tweets:');
+    feedCache.invalidate('feed:');
+  },
+
   feeds: () => {
     feedCache.clear();
   },
-  
+
+  // Every cache, link previews included: they are persisted too and show which links this viewer opened
   all: () => {
-    feedCache.clear();
-    profileCache.clear();
-    tweetCache.clear();
+    caches.forEach(cache => cache.clear());
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,117 @@
+/**
+ * Minimal IndexedDB persistence for DataCache.
+ * Entries are stored with structured clone, so Dates and nested objects survive a reload.
+ * Every call degrades to a no-op when IndexedDB is unavailable (private mode, SSR).
+ */
+
+const DB_NAME = 'travel-app-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const CACHE_INDEX = 'by_cache';
+
+export interface PersistedEntry<T = unknown> {
+  id: string; // `${cache}:${key}`
+  cache: string;
+  key: string;
+  data: T;
+  timestamp: number;
+  staleAt: number;
+  expiresAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(CACHE_INDEX, 'cache', { unique: false });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.debug('IndexedDB cache unavailable:', request.error);
+        resolve(null);
+      };
+      request.onblocked = () => resolve(null);
+    } catch (error) {
+      console.debug('IndexedDB cache unavailable:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request ? request.result : null);
+      transaction.onerror = () => {
+        console.debug('IndexedDB cache transaction failed:', transaction.error);
+        resolve(null);
+      };
+      transaction.onabort = () => resolve(null);
+    } catch (error) {
+      console.debug('IndexedDB cache transaction failed:', error);
+      resolve(null);
+    }
+  });
+};
+
+export const cacheStorage = {
+  async readAll<T>(cache: string): Promise<PersistedEntry<T>[]> {
+    const entries = await runTransaction<PersistedEntry<T>[]>('readonly', store =>
+      store.index(CACHE_INDEX).getAll(IDBKeyRange.only(cache))
+    );
+    return entries ?? [];
+  },
+
+  async write<T>(entry: PersistedEntry<T>): Promise<void> {
+    await runTransaction('readwrite', store => {
+      store.put(entry);
+    });
+  },
+
+  async remove(cache: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await runTransaction('readwrite', store => {
+      keys.forEach(key => store.delete(`${cache}:${key}`));
+    });
+  },
+
+  async clear(cache: string): Promise<void> {
+    await runTransaction('readwrite', store => {
+      const request = store.index(CACHE_INDEX).openKeyCursor(IDBKeyRange.only(cache));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+  },
+};
@@ -0,0 +1,212 @@
+import { supabase } from './supabase';
+import {
+  encodeMediaAltText,
+  encodeMediaUrls,
+  encodeTweetPlace,
+  extractContentTags,
+  parseMediaAltText,
+  parseMediaUrls,
+  parseTweetPlace,
+} from './tweetRepository';
+import { encodeItinerary, parseItinerary } from './itinerary';
+import { encodeReview, parseReview } from './reviews';
+import { encodeFlightDeal, parseFlightDeal } from './flightDeals';
+import { encodeListing, parseListing } from './listings';
+import { FlightDeal, Itinerary, Listing, PostDraft, PostDraftData, Review, TweetPlace } from '../types';
+
+/**
+ * Draft and scheduled post data-access layer.
+ *
+ * Drafts live in `post_drafts`, private to their author. Scheduled drafts are
+ * published by the `publish_due_posts` database job, which deletes each draft
+ * once its tweet is in, so a draft that disappears while being edited has
+ * already gone out.
+ */
+
+export const DRAFT_COLUMNS = `
+  id,
+  author_id,
+  content,
+  image_urls,
+  media_alt_text,
+  sensitive_media,
+  place_id,
+  place_city_id,
+  place_lat,
+  place_lon,
+  itinerary,
+  review,
+  flight_deal,
+  listing,
+  is_question,
+  hashtags,
+  mentions,
+  mentioned_user_ids,
+  categories,
+  countries,
+  quoted_tweet_id,
+  status,
+  scheduled_at,
+  last_error,
+  created_at,
+  updated_at
+`;
+
+// How long after the last change the compose page saves its draft
+export const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+export interface DraftFields {
+  content: string;
+  imageUrls: string[];
+  videoUrls: string[];
+  mediaAltText: Record<string, string>; // by media URL
+  sensitiveMedia: boolean;
+  place: TweetPlace | null;
+  itinerary: Itinerary | null;
+  review: Review | null;
+  flightDeal: FlightDeal | null;
+  listing: Listing | null;
+  isQuestion: boolean;
+  categories: string[];
+  countries: string[];
+  mentionedUserIds: string[];
+  quotedTweetId?: string | null;
+}
+
+export const formatDraft = (row: PostDraftData): PostDraft => {
+  const { images, videos } = parseMediaUrls(row.image_urls);
+
+  return {
+    id: row.id,
+    content: row.content,
+    images,
+    videos,
+    mediaAltText: parseMediaAltText(row.image_urls, row.media_alt_text),
+    sensitiveMedia: row.sensitive_media || false,
+    place: parseTweetPlace(row),
+    itinerary: parseItinerary(row.itinerary),
+    review: parseReview(row.review),
+    flightDeal: parseFlightDeal(row.flight_deal),
+    listing: parseListing(row.listing),
+    isQuestion: row.is_question || false,
+    categories: row.categories || [],
+    countries: row.countries || [],
+    mentionedUserIds: row.mentioned_user_ids || [],
+    quotedTweetId: row.quoted_tweet_id ?? undefined,
+    status: row.status,
+    scheduledAt: row.scheduled_at ? new Date(row.scheduled_at) : undefined,
+    lastError: row.last_error ?? undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+};
+
+/**
+ * Whether there is anything worth keeping; empty compose pages don't create drafts.
+ */
+export const hasDraftContent = (fields: Pick<DraftFields, 'content' | 'imageUrls' | 'videoUrls'>): boolean =>
+  fields.content.trim().length > 0 || fields.imageUrls.length > 0 || fields.videoUrls.length > 0;
+
+export const fetchDrafts = async (userId: string): Promise<PostDraft[]> => {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select(DRAFT_COLUMNS)
+    .eq('author_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as unknown as PostDraftData[]).map(formatDraft);
+};
+
+/**
+ * A single draft, or null once it has been published or deleted.
+ */
+export const fetchDraft = async (draftId: string): Promise<PostDraft | null> => {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select(DRAFT_COLUMNS)
+    .eq('id', draftId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatDraft(data as unknown as PostDraftData) : null;
+};
+
+/**
+ * Create the draft (no id yet) or save over it. Passing `scheduledAt` schedules it
+ * for publishing; leaving it out keeps it as a plain draft. Saving over a draft
+ * that no longer exists returns null rather than bringing it back, since it may
+ * have just been published.
+ */
+export const saveDraft = async (
+  draftId: string | null,
+  userId: string,
+  fields: DraftFields,
+  scheduledAt: Date | null = null
+): Promise<PostDraft | null> => {
+  const { hashtags, mentions } = extractContentTags(fields.content);
+  const values = {
+    content: fields.content,
+    image_urls: encodeMediaUrls(fields.imageUrls, fields.videoUrls),
+    media_alt_text: encodeMediaAltText(fields.imageUrls, fields.videoUrls, fields.mediaAltText),
+    sensitive_media: fields.sensitiveMedia,
+    ...encodeTweetPlace(fields.place),
+    itinerary: encodeItinerary(fields.itinerary),
+    review: encodeReview(fields.review),
+    flight_deal: encodeFlightDeal(fields.flightDeal),
+    listing: encodeListing(fields.listing),
+    is_question: fields.isQuestion,
+    hashtags,
+    mentions,
+    mentioned_user_ids: fields.mentionedUserIds,
+    categories: fields.categories,
+    countries: fields.countries,
+    quoted_tweet_id: fields.quotedTweetId ?? null,
+    status: scheduledAt ? 'scheduled' as const : 'draft' as const,
+    scheduled_at: scheduledAt ? scheduledAt.toISOString() : null,
+  };
+
+  if (!draftId) {
+    const { data, error } = await supabase
+      .from('post_drafts')
+      .insert({ author_id: userId, ...values })
+      .select(DRAFT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return formatDraft(data as unknown as PostDraftData);
+  }
+
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .update(values)
+    .eq('id', draftId)
+    .select(DRAFT_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatDraft(data as unknown as PostDraftData) : null;
+};
+
+/**
+ * Take a scheduled (or failed) post back to a plain draft. Returns null if it already went out.
+ */
+export const unscheduleDraft = async (draftId: string): Promise<PostDraft | null> => {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .update({ status: 'draft', scheduled_at: null, last_error: null })
+    .eq('id', draftId)
+    .select(DRAFT_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatDraft(data as unknown as PostDraftData) : null;
+};
+
+export const deleteDraft = async (draftId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('post_drafts')
+    .delete()
+    .eq('id', draftId);
+
+  if (error) throw error;
+};
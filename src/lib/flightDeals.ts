@@ -0,0 +1,104 @@
+import { format, isValid } from 'date-fns';
+import { FlightDeal, FlightDealData } from '../types';
+import { PRICE_CURRENCIES } from './prices';
+
+/**
+ * Flight deals attached to Flights posts: mapping to and from the
+ * `flight_deal` column and checking expiry.
+ */
+
+// `check_flight_deal` enforces the same limit
+export const DEAL_PRICE_MAX = 1_000_000;
+
+// A deal as the composer holds it: form values, any of which may still be empty
+export interface FlightDealDraft {
+  origin: string;
+  destination: string;
+  price: string;
+  currency: string;
+  travelFrom: string;
+  travelTo: string;
+  expiresAt: string; // `datetime-local` value
+}
+
+export const emptyFlightDealDraft = (): FlightDealDraft => ({
+  origin: '',
+  destination: '',
+  price: '',
+  currency: PRICE_CURRENCIES[0],
+  travelFrom: '',
+  travelTo: '',
+  expiresAt: '',
+});
+
+/**
+ * The deal a composer draft describes, or null while a required field is
+ * missing or out of range.
+ */
+export const toFlightDeal = (draft: FlightDealDraft): FlightDeal | null => {
+  const price = Number(draft.price);
+  const expiresAt = new Date(draft.expiresAt);
+  if (!draft.origin || !draft.destination || draft.origin === draft.destination) return null;
+  if (!(price > 0) || price > DEAL_PRICE_MAX || !isValid(expiresAt)) return null;
+  if (draft.travelFrom && draft.travelTo && draft.travelTo < draft.travelFrom) return null;
+
+  return {
+    origin: draft.origin,
+    destination: draft.destination,
+    price: Math.round(price * 100) / 100,
+    currency: draft.currency,
+    travelFrom: draft.travelFrom || undefined,
+    travelTo: draft.travelTo || undefined,
+    expiresAt,
+  };
+};
+
+export const toFlightDealDraft = (deal: FlightDeal): FlightDealDraft => ({
+  origin: deal.origin,
+  destination: deal.destination,
+  price: String(deal.price),
+  currency: deal.currency,
+  travelFrom: deal.travelFrom || '',
+  travelTo: deal.travelTo || '',
+  expiresAt: format(deal.expiresAt, "yyyy-MM-dd'T'HH:mm"),
+});
+
+export const parseFlightDeal = (data: FlightDealData | null | undefined): FlightDeal | undefined => {
+  if (!data?.origin || !data.destination || !data.expires_at) return undefined;
+
+  return {
+    origin: data.origin,
+    destination: data.destination,
+    price: Number(data.price),
+    currency: data.currency,
+    travelFrom: data.travel_from ?? undefined,
+    travelTo: data.travel_to ?? undefined,
+    expiresAt: new Date(data.expires_at),
+  };
+};
+
+/**
+ * The `flight_deal` column for a deal being composed. Null until it has both
+ * airports, a fare and an expiry.
+ */
+export const encodeFlightDeal = (deal?: Partial<FlightDeal> | null): FlightDealData | null => {
+  if (!deal?.origin || !deal.destination || !deal.price || !deal.currency || !deal.expiresAt) return null;
+
+  return {
+    origin: deal.origin,
+    destination: deal.destination,
+    price: deal.price,
+    currency: deal.currency,
+    travel_from: deal.travelFrom || null,
+    travel_to: deal.travelTo || null,
+    // Queued outbox actions come back from storage with the date as a string
+    expires_at: new Date(deal.expiresAt).toISOString(),
+  };
+};
+
+export const isFlightDealExpired = (deal: Pick<FlightDeal, 'expiresAt'>, now: number = Date.now()): boolean =>
+  deal.expiresAt.getTime() <= now;
+
+// Route search text for a deal, as `parseRouteQuery` reads it
+export const getDealRouteQuery = (deal: Pick<FlightDeal, 'origin' | 'destination'>): string =>
+  `${deal.origin}-${deal.destination}`;
@@ -0,0 +1,195 @@
+import { FILTER_COUNTRIES, Place, PlaceType, TweetPlace, getLocalizedCountryName } from '../types';
+
+/**
+ * The places a post can be tagged with, bundled so the composer's picker works
+ * offline and without a geocoding service.
+ *
+ * Ids are stable: they are stored on tweets and drafts and used in `/place/:id`
+ * links, so an entry can be renamed but never re-keyed. Landmarks, hotels and
+ * airports point at the city they belong to through `cityId`, which is what the
+ * city-level filters match on.
+ */
+
+const city = (id: string, name: string, nameAr: string, countryCode: string, lat: number, lon: number): Place =>
+  ({ id, name, nameAr, type: 'city', countryCode, cityId: id, lat, lon });
+
+const inCity = (
+  type: Exclude<PlaceType, 'city'>,
+  id: string,
+  name: string,
+  nameAr: string,
+  cityId: string,
+  lat: number,
+  lon: number
+): Omit<Place, 'countryCode'> => ({ id, name, nameAr, type, cityId, lat, lon });
+
+const CITIES: Place[] = [
+  city('riyadh', 'Riyadh', 'الرياض', 'SA', 24.7136, 46.6753),
+  city('jeddah', 'Jeddah', 'جدة', 'SA', 21.4858, 39.1925),
+  city('makkah', 'Makkah', 'مكة المكرمة', 'SA', 21.3891, 39.8579),
+  city('madinah', 'Madinah', 'المدينة المنورة', 'SA', 24.4686, 39.6142),
+  city('dammam', 'Dammam', 'الدمام', 'SA', 26.4207, 50.0888),
+  city('alula', 'AlUla', 'العلا', 'SA', 26.6086, 37.9232),
+  city('abha', 'Abha', 'أبها', 'SA', 18.2164, 42.5053),
+  city('taif', 'Taif', 'الطائف', 'SA', 21.2703, 40.4158),
+  city('dubai', 'Dubai', 'دبي', 'AE', 25.2048, 55.2708),
+  city('abu-dhabi', 'Abu Dhabi', 'أبوظبي', 'AE', 24.4539, 54.3773),
+  city('doha', 'Doha', 'الدوحة', 'QA', 25.2854, 51.531),
+  city('manama', 'Manama', 'المنامة', 'BH', 26.2285, 50.586),
+  city('kuwait-city', 'Kuwait City', 'مدينة الكويت', 'KW', 29.3759, 47.9774),
+  city('muscat', 'Muscat', 'مسقط', 'OM', 23.588, 58.3829),
+  city('salalah', 'Salalah', 'صلالة', 'OM', 17.0151, 54.0924),
+  city('cairo', 'Cairo', 'القاهرة', 'EG', 30.0444, 31.2357),
+  city('sharm-el-sheikh', 'Sharm El Sheikh', 'شرم الشيخ', 'EG', 27.9158, 34.33),
+  city('amman', 'Amman', 'عمّان', 'JO', 31.9454, 35.9284),
+  city('beirut', 'Beirut', 'بيروت', 'LB', 33.8938, 35.5018),
+  city('istanbul', 'Istanbul', 'إسطنبول', 'TR', 41.0082, 28.9784),
+  city('trabzon', 'Trabzon', 'طرابزون', 'TR', 41.0027, 39.7168),
+  city('antalya', 'Antalya', 'أنطاليا', 'TR', 36.8969, 30.7133),
+  city('london', 'London', 'لندن', 'GB', 51.5074, -0.1278),
+  city('paris', 'Paris', 'باريس', 'FR', 48.8566, 2.3522),
+  city('rome', 'Rome', 'روما', 'IT', 41.9028, 12.4964),
+  city('barcelona', 'Barcelona', 'برشلونة', 'ES', 41.3874, 2.1686),
+  city('vienna', 'Vienna', 'فيينا', 'AT', 48.2082, 16.3738),
+  city('zurich', 'Zurich', 'زيورخ', 'CH', 47.3769, 8.5417),
+  city('geneva', 'Geneva', 'جنيف', 'CH', 46.2044, 6.1432),
+  city('sarajevo', 'Sarajevo', 'سراييفو', 'BA', 43.8563, 18.4131),
+  city('tbilisi', 'Tbilisi', 'تبليسي', 'GE', 41.7151, 44.8271),
+  city('baku', 'Baku', 'باكو', 'AZ', 40.4093, 49.8671),
+  city('kuala-lumpur', 'Kuala Lumpur', 'كوالالمبور', 'MY', 3.139, 101.6869),
+  city('bangkok', 'Bangkok', 'بانكوك', 'TH', 13.7563, 100.5018),
+  city('bali', 'Bali', 'بالي', 'ID', -8.3405, 115.092),
+  city('male', 'Malé', 'ماليه', 'MV', 4.1755, 73.5093),
+  city('tokyo', 'Tokyo', 'طوكيو', 'JP', 35.6762, 139.6503),
+  city('marrakech', 'Marrakech', 'مراكش', 'MA', 31.6295, -7.9811),
+  city('new-york', 'New York', 'نيويورك', 'US', 40.7128, -74.006),
+];
+
+const PLACES_IN_CITIES = [
+  // Airports, keyed by their IATA code
+  inCity('airport', 'ruh-airport', 'King Khalid International Airport (RUH)', 'مطار الملك خالد الدولي (RUH)', 'riyadh', 24.9576, 46.6988),
+  inCity('airport', 'jed-airport', 'King Abdulaziz International Airport (JED)', 'مطار الملك عبدالعزيز الدولي (JED)', 'jeddah', 21.6796, 39.1565),
+  inCity('airport', 'med-airport', 'Prince Mohammad bin Abdulaziz Airport (MED)', 'مطار الأمير محمد بن عبدالعزيز (MED)', 'madinah', 24.5534, 39.7051),
+  inCity('airport', 'dmm-airport', 'King Fahd International Airport (DMM)', 'مطار الملك فهد الدولي (DMM)', 'dammam', 26.4712, 49.7979),
+  inCity('airport', 'dxb-airport', 'Dubai International Airport (DXB)', 'مطار دبي الدولي (DXB)', 'dubai', 25.2532, 55.3657),
+  inCity('airport', 'auh-airport', 'Zayed International Airport (AUH)', 'مطار زايد الدولي (AUH)', 'abu-dhabi', 24.433, 54.6511),
+  inCity('airport', 'doh-airport', 'Hamad International Airport (DOH)', 'مطار حمد الدولي (DOH)', 'doha', 25.2731, 51.6081),
+  inCity('airport', 'ist-airport', 'Istanbul Airport (IST)', 'مطار إسطنبول (IST)', 'istanbul', 41.2753, 28.7519),
+  inCity('airport', 'saw-airport', 'Sabiha Gökçen Airport (SAW)', 'مطار صبيحة كوكجن (SAW)', 'istanbul', 40.8986, 29.3092),
+  inCity('airport', 'cai-airport', 'Cairo International Airport (CAI)', 'مطار القاهرة الدولي (CAI)', 'cairo', 30.1219, 31.4056),
+  inCity('airport', 'lhr-airport', 'Heathrow Airport (LHR)', 'مطار هيثرو (LHR)', 'london', 51.47, -0.4543),
+  inCity('airport', 'cdg-airport', 'Charles de Gaulle Airport (CDG)', 'مطار شارل ديغول (CDG)', 'paris', 49.0097, 2.5479),
+  inCity('airport', 'kul-airport', 'Kuala Lumpur International Airport (KUL)', 'مطار كوالالمبور الدولي (KUL)', 'kuala-lumpur', 2.7456, 101.7099),
+
+  inCity('landmark', 'masjid-al-haram', 'Masjid al-Haram', 'المسجد الحرام', 'makkah', 21.4225, 39.8262),
+  inCity('landmark', 'al-masjid-an-nabawi', 'Al-Masjid an-Nabawi', 'المسجد النبوي', 'madinah', 24.4672, 39.6111),
+  inCity('landmark', 'kingdom-centre', 'Kingdom Centre', 'برج المملكة', 'riyadh', 24.7114, 46.6744),
+  inCity('landmark', 'at-turaif', 'At-Turaif, Diriyah', 'حي الطريف، الدرعية', 'riyadh', 24.7333, 46.575),
+  inCity('landmark', 'al-balad', 'Al-Balad (Historic Jeddah)', 'البلد (جدة التاريخية)', 'jeddah', 21.4858, 39.1864),
+  inCity('landmark', 'hegra', 'Hegra', 'الحجر', 'alula', 26.7917, 37.9533),
+  inCity('landmark', 'burj-khalifa', 'Burj Khalifa', 'برج خليفة', 'dubai', 25.1972, 55.2744),
+  inCity('landmark', 'sheikh-zayed-mosque', 'Sheikh Zayed Grand Mosque', 'جامع الشيخ زايد الكبير', 'abu-dhabi', 24.4128, 54.475),
+  inCity('landmark', 'museum-of-islamic-art', 'Museum of Islamic Art', 'متحف الفن الإسلامي', 'doha', 25.2952, 51.539),
+  inCity('landmark', 'pyramids-of-giza', 'Pyramids of Giza', 'أهرامات الجيزة', 'cairo', 29.9792, 31.1342),
+  inCity('landmark', 'hagia-sophia', 'Hagia Sophia', 'آيا صوفيا', 'istanbul', 41.0086, 28.9802),
+  inCity('landmark', 'galata-tower', 'Galata Tower', 'برج غلطة', 'istanbul', 41.0256, 28.9741),
+  inCity('landmark', 'uzungol', 'Uzungöl', 'أوزنجول', 'trabzon', 40.6197, 40.2903),
+  inCity('landmark', 'big-ben', 'Big Ben', 'ساعة بيغ بن', 'london', 51.5007, -0.1246),
+  inCity('landmark', 'eiffel-tower', 'Eiffel Tower', 'برج إيفل', 'paris', 48.8584, 2.2945),
+  inCity('landmark', 'colosseum', 'Colosseum', 'الكولوسيوم', 'rome', 41.8902, 12.4922),
+  inCity('landmark', 'sagrada-familia', 'Sagrada Família', 'ساغرادا فاميليا', 'barcelona', 41.4036, 2.1744),
+  inCity('landmark', 'petronas-towers', 'Petronas Towers', 'برجا بتروناس', 'kuala-lumpur', 3.1579, 101.7116),
+  inCity('landmark', 'jemaa-el-fnaa', 'Jemaa el-Fnaa', 'ساحة جامع الفنا', 'marrakech', 31.6258, -7.9891),
+  inCity('landmark', 'times-square', 'Times Square', 'تايمز سكوير', 'new-york', 40.758, -73.9855),
+
+  inCity('hotel', 'burj-al-arab', 'Burj Al Arab', 'برج العرب', 'dubai', 25.1412, 55.1853),
+  inCity('hotel', 'atlantis-the-palm', 'Atlantis The Palm', 'أتلانتس النخلة', 'dubai', 25.1304, 55.1171),
+  inCity('hotel', 'emirates-palace', 'Emirates Palace', 'قصر الإمارات', 'abu-dhabi', 24.4615, 54.3177),
+  inCity('hotel', 'makkah-clock-royal-tower', 'Makkah Clock Royal Tower', 'فندق برج الساعة', 'makkah', 21.4189, 39.8256),
+  inCity('hotel', 'ritz-carlton-riyadh', 'The Ritz-Carlton, Riyadh', 'فندق ريتز كارلتون الرياض', 'riyadh', 24.665, 46.629),
+];
+
+const CITIES_BY_ID = new Map(CITIES.map(entry => [entry.id, entry]));
+
+export const PLACES: Place[] = [
+  ...CITIES,
+  ...PLACES_IN_CITIES.map(entry => ({ ...entry, countryCode: CITIES_BY_ID.get(entry.cityId)!.countryCode })),
+];
+
+const PLACES_BY_ID = new Map(PLACES.map(entry => [entry.id, entry]));
+
+export const PLACE_TYPE_LABELS: Record<PlaceType, { en: string; ar: string }> = {
+  city: { en: 'City', ar: 'مدينة' },
+  landmark: { en: 'Landmark', ar: 'معلم' },
+  hotel: { en: 'Hotel', ar: 'فندق' },
+  airport: { en: 'Airport', ar: 'مطار' },
+};
+
+export const getPlace = (id: string | null | undefined): Place | undefined =>
+  id ? PLACES_BY_ID.get(id) : undefined;
+
+// What a post stores about its place
+export const toTweetPlace = (place: Place): TweetPlace => ({
+  id: place.id,
+  cityId: place.cityId,
+  lat: place.lat,
+  lon: place.lon,
+});
+
+export const getCitiesInCountry = (countryCode: string): Place[] =>
+  CITIES.filter(entry => entry.countryCode === countryCode);
+
+// Landmarks, hotels and airports in a city
+export const getPlacesInCity = (cityId: string): Place[] =>
+  PLACES.filter(entry => entry.cityId === cityId && entry.type !== 'city');
+
+export const getLocalizedPlaceName = (place: Place, language: 'en' | 'ar'): string =>
+  language === 'ar' ? place.nameAr : place.name;
+
+// "Burj Khalifa, Dubai" for places in a city, "Dubai, United Arab Emirates" for cities
+export const getPlaceLabel = (place: Place, language: 'en' | 'ar'): string => {
+  const name = getLocalizedPlaceName(place, language);
+  if (place.type !== 'city') {
+    const parent = getPlace(place.cityId);
+    return parent ? `${name}${language === 'ar' ? '، ' : ', '}${getLocalizedPlaceName(parent, language)}` : name;
+  }
+
+  const country = FILTER_COUNTRIES.find(entry => entry.code === place.countryCode);
+  return country ? `${name}${language === 'ar' ? '، ' : ', '}${getLocalizedCountryName(country, language)}` : name;
+};
+
+// Case, Latin accents, Arabic harakat and the alef / ta marbuta variants don't matter when searching
+export const normalizeForSearch = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036F\u064B-\u065F\u0670]/g, '')
+    .replace(/[\u0622\u0623\u0625]/g, '\u0627')
+    .replace(/\u0629/g, '\u0647')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Places whose name (either language) or id matches `query`, best matches first:
+ * names that start with the query before names that only contain it, and
+ * cities before the places in them.
+ */
+export const searchPlaces = (query: string, limit = 8): Place[] => {
+  const needle = normalizeForSearch(query);
+  if (!needle) return [];
+
+  const scored: { place: Place; score: number }[] = [];
+  for (const place of PLACES) {
+    const haystacks = [place.name, place.nameAr, place.id].map(normalizeForSearch);
+    const score = haystacks.some(text => text.startsWith(needle))
+      ? 0
+      : haystacks.some(text => text.includes(needle))
+        ? 2
+        : -1;
+    if (score >= 0) scored.push({ place, score: score + (place.type === 'city' ? 0 : 1) });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(entry => entry.place);
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { Itinerary } from '../types';
+import {
+  buildItineraryIcs,
+  countItineraryStops,
+  encodeItinerary,
+  getItineraryDayDate,
+  parseItinerary,
+} from './itinerary';
+
+const itinerary: Itinerary = {
+  startDate: '2025-03-10',
+  days: [
+    {
+      title: 'Arrival',
+      stops: [
+        { time: '09:00', title: 'Land at the airport' },
+        { time: '11:30', title: 'Check in', placeId: 'riyadh', notes: 'Ask for a high floor' },
+        { title: 'Dinner, then a walk; early night' },
+      ],
+    },
+    { stops: [{ time: '08:00', title: 'Desert tour' }] },
+  ],
+};
+
+describe('encodeItinerary', () => {
+  it('trims text and maps to the column shape', () => {
+    expect(encodeItinerary({
+      startDate: '2025-03-10',
+      days: [{ title: '  Day one ', stops: [{ time: '09:00', title: ' Breakfast ', placeId: 'riyadh', notes: ' ' }] }],
+    })).toEqual({
+      start_date: '2025-03-10',
+      days: [{ title: 'Day one', stops: [{ time: '09:00', title: 'Breakfast', place_id: 'riyadh', notes: null }] }],
+    });
+  });
+
+  it('drops stops without a title and days left without stops', () => {
+    const encoded = encodeItinerary({
+      days: [
+        { title: 'Empty', stops: [{ title: '  ' }] },
+        { stops: [{ title: '' }, { title: 'Museum' }] },
+      ],
+    });
+
+    expect(encoded?.days).toEqual([
+      { title: null, stops: [{ time: null, title: 'Museum', place_id: null, notes: null }] },
+    ]);
+    expect(encoded?.start_date).toBeNull();
+  });
+
+  it('clears times that are not HH:MM on a 24 hour clock', () => {
+    const times = ['24:00', '9:00', '12:60', 'noon', '23:59', '00:00'];
+    const encoded = encodeItinerary({ days: [{ stops: times.map(time => ({ time, title: 'Stop' })) }] });
+
+    expect(encoded?.days[0].stops.map(stop => stop.time)).toEqual([null, null, null, null, '23:59', '00:00']);
+  });
+
+  it('is null when nothing is left', () => {
+    expect(encodeItinerary(null)).toBeNull();
+    expect(encodeItinerary({ days: [] })).toBeNull();
+    expect(encodeItinerary({ startDate: '2025-03-10', days: [{ stops: [{ title: ' ' }] }] })).toBeNull();
+  });
+
+  it('round-trips through parseItinerary', () => {
+    expect(parseItinerary(encodeItinerary(itinerary))).toEqual(itinerary);
+  });
+});
+
+describe('parseItinerary', () => {
+  it('is undefined for a missing or empty column', () => {
+    expect(parseItinerary(null)).toBeUndefined();
+    expect(parseItinerary({ start_date: null, days: [] })).toBeUndefined();
+  });
+});
+
+describe('getItineraryDayDate', () => {
+  it('counts days from the start date', () => {
+    expect(getItineraryDayDate('2025-02-28', 1)).toEqual(new Date(2025, 2, 1));
+  });
+
+  it('is undefined without a usable start date', () => {
+    expect(getItineraryDayDate(undefined, 0)).toBeUndefined();
+    expect(getItineraryDayDate('2025-13-01', 0)).toBeUndefined();
+  });
+});
+
+describe('countItineraryStops', () => {
+  it('counts stops across days', () => {
+    expect(countItineraryStops(itinerary)).toBe(4);
+  });
+});
+
+describe('buildItineraryIcs', () => {
+  const build = (source: Itinerary = itinerary, startDate = '2025-03-10') =>
+    buildItineraryIcs(source, { uid: 'post-1', title: 'Riyadh weekend', url: 'https://app.test/tweet/post-1', startDate });
+
+  // Unfolded lines of each event
+  const events = (ics: string) =>
+    ics.replace(/\r\n /g, '').split('BEGIN:VEVENT').slice(1).map(event => event.split('\r\n'));
+
+  it('writes one event per stop with stable ids', () => {
+    const ics = build();
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(events(ics).map(lines => lines.find(line => line.startsWith('UID:')))).toEqual([
+      'UID:post-1-1-1@travelapp',
+      'UID:post-1-1-2@travelapp',
+      'UID:post-1-1-3@travelapp',
+      'UID:post-1-2-1@travelapp',
+    ]);
+  });
+
+  it('ends a timed stop at the next one, or an hour later', () => {
+    const [landing, checkIn, , tour] = events(build());
+
+    expect(landing).toContain('DTSTART:20250310T090000');
+    expect(landing).toContain('DTEND:20250310T113000');
+    expect(checkIn).toContain('DTEND:20250310T123000');
+    expect(tour).toContain('DTSTART:20250311T080000');
+  });
+
+  it('makes untimed stops all-day events', () => {
+    const dinner = events(build())[2];
+
+    expect(dinner).toContain('DTSTART;VALUE=DATE:20250310');
+    expect(dinner).toContain('DTEND;VALUE=DATE:20250311');
+  });
+
+  it('escapes text and adds the place', () => {
+    const [, checkIn, dinner] = events(build());
+
+    expect(dinner).toContain('SUMMARY:Dinner\\, then a walk\\; early night');
+    expect(checkIn).toContain('DESCRIPTION:Ask for a high floor\\n\\nhttps://app.test/tweet/post-1');
+    expect(checkIn).toContain('GEO:24.7136;46.6753');
+    expect(checkIn.some(line => line.startsWith('LOCATION:Riyadh'))).toBe(true);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const title = 'الرياض '.repeat(20);
+    const ics = build({ days: [{ stops: [{ title }] }] });
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(events(ics)[0]).toContain(`SUMMARY:${title}`);
+  });
+});
@@ -0,0 +1,183 @@
+import { addDays, addHours, format, isValid, parse } from 'date-fns';
+import { Itinerary, ItineraryData } from '../types';
+import { getPlace, getPlaceLabel } from './gazetteer';
+
+/**
+ * Itineraries attached to Tourist Schedules posts: mapping to and from the
+ * `itinerary` column, and the `.ics` export readers can add to their calendar.
+ */
+
+// `check_itinerary` enforces the same limits
+export const ITINERARY_MAX_DAYS = 14;
+export const ITINERARY_MAX_STOPS_PER_DAY = 12;
+export const ITINERARY_TITLE_MAX_LENGTH = 80;
+export const ITINERARY_NOTES_MAX_LENGTH = 280;
+
+// How long a timed stop lasts in the calendar when nothing comes after it that day
+const DEFAULT_STOP_HOURS = 1;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const emptyItinerary = (): Itinerary => ({ days: [{ stops: [{ title: '' }] }] });
+
+export const parseItinerary = (data: ItineraryData | null | undefined): Itinerary | undefined => {
+  if (!data?.days?.length) return undefined;
+
+  return {
+    startDate: data.start_date ?? undefined,
+    days: data.days.map(day => ({
+      title: day.title ?? undefined,
+      stops: (day.stops || []).map(stop => ({
+        time: stop.time ?? undefined,
+        title: stop.title,
+        placeId: stop.place_id ?? undefined,
+        notes: stop.notes ?? undefined,
+      })),
+    })),
+  };
+};
+
+/**
+ * The `itinerary` column for an itinerary being composed: text trimmed, stops
+ * without a title and days without stops dropped. Null when nothing is left.
+ */
+export const encodeItinerary = (itinerary?: Itinerary | null): ItineraryData | null => {
+  if (!itinerary) return null;
+
+  const days = itinerary.days
+    .map(day => ({
+      title: day.title?.trim() || null,
+      stops: day.stops
+        .filter(stop => stop.title.trim())
+        .map(stop => ({
+          time: stop.time && TIME_PATTERN.test(stop.time) ? stop.time : null,
+          title: stop.title.trim(),
+          place_id: stop.placeId || null,
+          notes: stop.notes?.trim() || null,
+        })),
+    }))
+    .filter(day => day.stops.length > 0);
+
+  if (days.length === 0) return null;
+  return { start_date: itinerary.startDate || null, days };
+};
+
+/**
+ * The calendar date of a day, for itineraries with a start date.
+ */
+export const getItineraryDayDate = (startDate: string | undefined, dayIndex: number): Date | undefined => {
+  if (!startDate) return undefined;
+  const start = parse(startDate, 'yyyy-MM-dd', new Date());
+  return isValid(start) ? addDays(start, dayIndex) : undefined;
+};
+
+export const countItineraryStops = (itinerary: Itinerary): number =>
+  itinerary.days.reduce((total, day) => total + day.stops.length, 0);
+
+// RFC 5545 text values: backslashes, separators and line breaks are escaped
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, never inside a character
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatIcsDate = (date: Date): string => format(date, 'yyyyMMdd');
+const formatIcsLocalTime = (date: Date): string => format(date, "yyyyMMdd'T'HHmmss");
+const formatIcsUtcTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+interface IcsOptions {
+  uid: string; // stable per post, so importing twice updates instead of duplicating
+  title: string; // calendar name
+  url?: string; // link back to the post
+  startDate: string; // 'yyyy-MM-dd'; the itinerary's own, or one the reader picked
+}
+
+/**
+ * The itinerary as an iCalendar file: one event per stop, at its time on its
+ * day, or all day for stops without a time. Times are floating, so they stay
+ * at the local time of wherever the traveller is.
+ */
+export const buildItineraryIcs = (itinerary: Itinerary, { uid, title, url, startDate }: IcsOptions): string => {
+  const stamp = formatIcsUtcTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TravelApp//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+  ];
+
+  itinerary.days.forEach((day, dayIndex) => {
+    const date = getItineraryDayDate(startDate, dayIndex);
+    if (!date) return;
+
+    day.stops.forEach((stop, stopIndex) => {
+      const place = getPlace(stop.placeId);
+      const description = [stop.notes, url].filter(Boolean).join('\n\n');
+
+      lines.push('BEGIN:VEVENT', `UID:${uid}-${dayIndex + 1}-${stopIndex + 1}@travelapp`, `DTSTAMP:${stamp}`);
+
+      if (stop.time) {
+        const start = atTime(date, stop.time);
+        const next = day.stops.slice(stopIndex + 1).find(later => later.time && later.time > stop.time!);
+        const end = next?.time ? atTime(date, next.time) : addHours(start, DEFAULT_STOP_HOURS);
+        lines.push(`DTSTART:${formatIcsLocalTime(start)}`, `DTEND:${formatIcsLocalTime(end)}`);
+      } else {
+        lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(date)}`, `DTEND;VALUE=DATE:${formatIcsDate(addDays(date, 1))}`);
+      }
+
+      lines.push(`SUMMARY:${escapeIcsText(stop.title)}`);
+      if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+      if (place) {
+        lines.push(`LOCATION:${escapeIcsText(getPlaceLabel(place, 'en'))}`, `GEO:${place.lat};${place.lon}`);
+      }
+      if (url) lines.push(`URL:${url}`);
+      lines.push('END:VEVENT');
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+/**
+ * Save an `.ics` file through the browser's download prompt.
+ */
+export const downloadIcs = (filename: string, ics: string): void => {
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(href);
+};
@@ -0,0 +1,39 @@
+import { LinkPreview } from '../types';
+import { cacheKeys, linkPreviewCache } from './cache';
+import { findTextEntities } from './textMetrics';
+
+/**
+ * Link previews for posts, unfurled server-side by the `/api/unfurl` Vercel
+ * function (see api/unfurl.ts), which also keeps them in `link_previews`.
+ */
+
+export const LINK_PREVIEW_ENDPOINT = '/api/unfurl';
+
+/**
+ * The link a post's preview card is for: its first one, without the
+ * punctuation that often ends a sentence right after a link.
+ */
+export const getPreviewLink = (content: string): string | null => {
+  const link = findTextEntities(content).find(entity => entity.type === 'url');
+  if (!link) return null;
+  return content.slice(link.start, link.end).replace(/[.,!?;:'")\]]+$/, '') || null;
+};
+
+/**
+ * The preview for `url`, or null when the page has none or can't be reached.
+ * Answers are cached, misses included, so a feed full of the same link asks once.
+ */
+export const fetchLinkPreview = (url: string): Promise<LinkPreview | null> =>
+  linkPreviewCache.fetch(cacheKeys.linkPreview(url), async () => {
+    try {
+      const response = await fetch(`${LINK_PREVIEW_ENDPOINT}?url=${encodeURIComponent(url)}`);
+      if (!response.ok) return null;
+
+      const body = await response.json();
+      return (body?.preview as LinkPreview | undefined) ?? null;
+    } catch (error) {
+      // No endpoint (e.g. the Vite dev server) or a network error: show the plain link
+      console.debug('Link preview unavailable:', error);
+      return null;
+    }
+  });
@@ -0,0 +1,195 @@
+import { Listing, ListingContact, ListingData, ListingKind, ListingPeriod, TweetCategory, VehicleClass } from '../types';
+import { PRICE_CURRENCIES } from './prices';
+
+/**
+ * Listings attached to Real estate and Car Rental posts: mapping to and from
+ * the `listing` column, and the price and availability filters for those
+ * categories' feeds.
+ */
+
+// The category a listing of each kind is posted under
+export const LISTING_CATEGORIES: Record<ListingKind, TweetCategory> = {
+  property: 'Real estate',
+  car: 'Car Rental',
+};
+
+export const getListingKind = (category: string | null): ListingKind | null =>
+  (Object.keys(LISTING_CATEGORIES) as ListingKind[]).find(kind => LISTING_CATEGORIES[kind] === category) ?? null;
+
+// What a price can cover for each kind, the composer's default first
+export const LISTING_PERIODS: Record<ListingKind, ListingPeriod[]> = {
+  property: ['month', 'night', 'year', 'sale'],
+  car: ['day', 'week', 'month'],
+};
+
+export const LISTING_PERIOD_LABELS: Record<ListingPeriod, { en: string; ar: string }> = {
+  night: { en: 'per night', ar: 'لليلة' },
+  day: { en: 'per day', ar: 'لليوم' },
+  week: { en: 'per week', ar: 'للأسبوع' },
+  month: { en: 'per month', ar: 'للشهر' },
+  year: { en: 'per year', ar: 'للسنة' },
+  sale: { en: 'for sale', ar: 'للبيع' },
+};
+
+export const VEHICLE_CLASSES: VehicleClass[] = ['economy', 'compact', 'midsize', 'suv', 'luxury', 'van'];
+
+export const VEHICLE_CLASS_LABELS: Record<VehicleClass, { en: string; ar: string }> = {
+  economy: { en: 'Economy', ar: 'اقتصادية' },
+  compact: { en: 'Compact', ar: 'صغيرة' },
+  midsize: { en: 'Midsize', ar: 'متوسطة' },
+  suv: { en: 'SUV', ar: 'دفع رباعي' },
+  luxury: { en: 'Luxury', ar: 'فاخرة' },
+  van: { en: 'Van', ar: 'فان' },
+};
+
+// `check_listing` enforces the same limits
+export const LISTING_PRICE_MAX = 100_000_000;
+export const LISTING_LOCATION_MAX_LENGTH = 80;
+export const LISTING_MAX_BEDROOMS = 20;
+
+// A listing as the composer holds it: form values, any of which may still be empty
+export interface ListingDraft {
+  kind: ListingKind;
+  price: string;
+  currency: string;
+  period: ListingPeriod;
+  location: string;
+  bedrooms: string;
+  vehicleClass: VehicleClass | '';
+  availableFrom: string;
+  availableTo: string;
+  contact: ListingContact;
+}
+
+export const emptyListingDraft = (kind: ListingKind): ListingDraft => ({
+  kind,
+  price: '',
+  currency: PRICE_CURRENCIES[0],
+  period: LISTING_PERIODS[kind][0],
+  location: '',
+  bedrooms: '',
+  vehicleClass: '',
+  availableFrom: '',
+  availableTo: '',
+  contact: 'dm',
+});
+
+/**
+ * The listing a composer draft describes, or null while the price or location
+ * is missing, or a field is out of range. Bedrooms and vehicle class are
+ * optional but only kept for their own kind.
+ */
+export const toListing = (draft: ListingDraft): Listing | null => {
+  const price = Number(draft.price);
+  const location = draft.location.trim();
+  const bedrooms = draft.bedrooms === '' ? undefined : Number(draft.bedrooms);
+  if (!(price > 0) || price > LISTING_PRICE_MAX) return null;
+  if (!location || location.length > LISTING_LOCATION_MAX_LENGTH) return null;
+  if (!LISTING_PERIODS[draft.kind].includes(draft.period)) return null;
+  if (draft.kind === 'property' && bedrooms !== undefined
+    && (!Number.isInteger(bedrooms) || bedrooms < 0 || bedrooms > LISTING_MAX_BEDROOMS)) return null;
+  if (draft.availableFrom && draft.availableTo && draft.availableTo < draft.availableFrom) return null;
+
+  return {
+    kind: draft.kind,
+    price: Math.round(price * 100) / 100,
+    currency: draft.currency,
+    period: draft.period,
+    location,
+    bedrooms: draft.kind === 'property' ? bedrooms : undefined,
+    vehicleClass: draft.kind === 'car' ? draft.vehicleClass || undefined : undefined,
+    availableFrom: draft.availableFrom || undefined,
+    availableTo: draft.availableTo || undefined,
+    contact: draft.contact,
+  };
+};
+
+export const toListingDraft = (listing: Listing): ListingDraft => ({
+  kind: listing.kind,
+  price: String(listing.price),
+  currency: listing.currency,
+  period: listing.period,
+  location: listing.location,
+  bedrooms: listing.bedrooms === undefined ? '' : String(listing.bedrooms),
+  vehicleClass: listing.vehicleClass ?? '',
+  availableFrom: listing.availableFrom || '',
+  availableTo: listing.availableTo || '',
+  contact: listing.contact,
+});
+
+export const parseListing = (data: ListingData | null | undefined): Listing | undefined => {
+  if (!data?.kind || !data.location) return undefined;
+
+  return {
+    kind: data.kind,
+    price: Number(data.price),
+    currency: data.currency,
+    period: data.period,
+    location: data.location,
+    bedrooms: data.bedrooms ?? undefined,
+    vehicleClass: data.vehicle_class ?? undefined,
+    availableFrom: data.available_from ?? undefined,
+    availableTo: data.available_to ?? undefined,
+    contact: data.contact,
+  };
+};
+
+export const encodeListing = (listing?: Listing | null): ListingData | null => {
+  if (!listing) return null;
+
+  return {
+    kind: listing.kind,
+    price: listing.price,
+    currency: listing.currency,
+    period: listing.period,
+    location: listing.location,
+    bedrooms: listing.bedrooms ?? null,
+    vehicle_class: listing.vehicleClass ?? null,
+    available_from: listing.availableFrom || null,
+    available_to: listing.availableTo || null,
+    contact: listing.contact,
+  };
+};
+
+// Narrows a Real estate or Car Rental feed; every field is a form value and may be empty
+export interface ListingFilter {
+  currency: string;
+  minPrice: string;
+  maxPrice: string;
+  availableFrom: string;
+  availableTo: string;
+}
+
+export const emptyListingFilter = (): ListingFilter => ({
+  currency: PRICE_CURRENCIES[0],
+  minPrice: '',
+  maxPrice: '',
+  availableFrom: '',
+  availableTo: '',
+});
+
+export const isListingFilterActive = (filter: ListingFilter): boolean =>
+  !!(filter.minPrice || filter.maxPrice || filter.availableFrom || filter.availableTo);
+
+/**
+ * Whether a listing fits the filter. A price range only matches listings in
+ * the filter's currency, and dates match listings available for the whole
+ * span; a listing without an availability bound is open on that side.
+ */
+export const matchesListingFilter = (listing: Listing | undefined, filter: ListingFilter): boolean => {
+  if (!isListingFilterActive(filter)) return true;
+  if (!listing) return false;
+
+  if (filter.minPrice || filter.maxPrice) {
+    if (listing.currency !== filter.currency) return false;
+    if (filter.minPrice && listing.price < Number(filter.minPrice)) return false;
+    if (filter.maxPrice && listing.price > Number(filter.maxPrice)) return false;
+  }
+
+  const start = filter.availableFrom || filter.availableTo;
+  const end = filter.availableTo || filter.availableFrom;
+  if (start && listing.availableFrom && listing.availableFrom > start) return false;
+  if (end && listing.availableTo && listing.availableTo < end) return false;
+
+  return true;
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { insert } = vi.hoisted(() => {
+  // The outbox store persists to localStorage, which node doesn't have
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() { return items.size; },
+  };
+  return { insert: vi.fn() };
+});
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'user-1' } } } }),
+    },
+    from: () => ({
+      insert,
+      delete: () => ({ match: async () => ({ error: null }) }),
+    }),
+  },
+}));
+
+import { flushOutbox, submitOutboxAction } from './outbox';
+import { useOutboxStore } from '../store/useOutboxStore';
+
+describe('outbox store', () => {
+  beforeEach(() => {
+    useOutboxStore.getState().clear();
+  });
+
+  it('folds a repeated action into the queued entry', () => {
+    const { enqueue } = useOutboxStore.getState();
+    const first = enqueue('user-1', { type: 'like', tweetId: 't1' });
+    const second = enqueue('user-1', { type: 'like', tweetId: 't1' });
+
+    expect(second.entryId).toBe(first.entryId);
+    expect(useOutboxStore.getState().entries).toHaveLength(1);
+  });
+
+  it('cancels a queued action when its opposite arrives', () => {
+    const { enqueue } = useOutboxStore.getState();
+    const like = enqueue('user-1', { type: 'like', tweetId: 't1' });
+    const unlike = enqueue('user-1', { type: 'unlike', tweetId: 't1' });
+
+    expect(unlike).toEqual({ entryId: null, cancelledId: like.entryId });
+    expect(useOutboxStore.getState().entries).toEqual([]);
+  });
+
+  it('keeps actions on different targets and different users apart', () => {
+    const { enqueue } = useOutboxStore.getState();
+    enqueue('user-1', { type: 'like', tweetId: 't1' });
+    enqueue('user-1', { type: 'unlike', tweetId: 't2' });
+    enqueue('user-2', { type: 'unlike', tweetId: 't1' });
+    enqueue('user-1', { type: 'bookmark', tweetId: 't1' });
+
+    expect(useOutboxStore.getState().entries).toHaveLength(4);
+  });
+
+  it('never withdraws an entry that is already being sent', () => {
+    const { enqueue, setStatus } = useOutboxStore.getState();
+    const like = enqueue('user-1', { type: 'like', tweetId: 't1' });
+    setStatus(like.entryId!, 'sending');
+
+    const unlike = enqueue('user-1', { type: 'unlike', tweetId: 't1' });
+
+    expect(unlike.cancelledId).toBeUndefined();
+    expect(useOutboxStore.getState().entries.map(entry => entry.action.type)).toEqual(['like', 'unlike']);
+  });
+
+  it('replaces a failed entry with a newer action on the same target', () => {
+    const { enqueue, setStatus } = useOutboxStore.getState();
+    const like = enqueue('user-1', { type: 'like', tweetId: 't1' });
+    setStatus(like.entryId!, 'failed', 'boom');
+
+    enqueue('user-1', { type: 'like', tweetId: 't1' });
+
+    const entries = useOutboxStore.getState().entries;
+    expect(entries).toHaveLength(1);
+    expect(entries[0].status).toBe('pending');
+  });
+});
+
+describe('submitOutboxAction', () => {
+  beforeEach(() => {
+    useOutboxStore.getState().clear();
+    insert.mockReset();
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('settles a queued action that its opposite cancelled', async () => {
+    // Hold the first like in flight so the second one stays queued behind it
+    let releaseFirst!: () => void;
+    insert
+      .mockImplementationOnce(() => new Promise(resolve => { releaseFirst = () => resolve({ error: null }); }))
+      .mockResolvedValue({ error: null });
+
+    const first = submitOutboxAction({ type: 'like', tweetId: 't1' });
+    await vi.waitFor(() => expect(insert).toHaveBeenCalledTimes(1));
+
+    const second = submitOutboxAction({ type: 'like', tweetId: 't2' });
+    await vi.waitFor(() => expect(useOutboxStore.getState().entries).toHaveLength(2));
+
+    const undo = await submitOutboxAction({ type: 'unlike', tweetId: 't2' });
+    expect(undo).toEqual({ queued: false });
+    await expect(second).resolves.toEqual({ queued: false, superseded: true });
+
+    releaseFirst();
+    await expect(first).resolves.toEqual({ queued: false, data: null });
+    await flushOutbox();
+
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(useOutboxStore.getState().entries).toEqual([]);
+  });
+
+  it('resolves as queued while offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+
+    await expect(submitOutboxAction({ type: 'bookmark', tweetId: 't1' })).resolves.toEqual({ queued: true });
+    expect(insert).not.toHaveBeenCalled();
+    expect(useOutboxStore.getState().entries).toHaveLength(1);
+  });
+});
@@ -0,0 +1,322 @@
+import { supabase } from './supabase';
+import { invalidateCache } from './cache';
+import {
+  createPoll,
+  createThread,
+  encodeMediaAltText,
+  encodeMediaUrls,
+  encodeTweetPlace,
+  extractContentTags,
+  formatTweet,
+  TWEET_SELECT,
+} from './tweetRepository';
+import { encodeItinerary } from './itinerary';
+import { encodeReview } from './reviews';
+import { encodeFlightDeal } from './flightDeals';
+import { encodeListing } from './listings';
+import { useStore } from '../store/useStore';
+import { useOutboxStore, OutboxAction, OutboxEntry } from '../store/useOutboxStore';
+import { TweetWithProfile } from '../types';
+
+/**
+ * Offline outbox for likes, bookmarks, follows, new posts and threads.
+ *
+ * Mutations are queued in `useOutboxStore` (persisted to localStorage) and replayed in
+ * order. A network failure stops the replay and leaves the rest queued until the browser
+ * reports it is back online; any other failure marks that entry failed, reverts its
+ * optimistic state and moves on, so one bad action doesn't block the queue.
+ */
+
+export interface OutboxResult<T = unknown> {
+  queued: boolean; // true when the action is waiting for a connection
+  superseded?: boolean; // true when an opposite action cancelled it before it was sent
+  data?: T;
+}
+
+interface Waiter {
+  resolve: (result: OutboxResult) => void;
+  reject: (error: Error) => void;
+}
+
+const waiters = new Map<string, Waiter[]>();
+
+const isNetworkError = (error: any) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  error instanceof TypeError ||
+  /failed to fetch|networkerror|load failed|network request failed/i.test(error?.message ?? '');
+
+// Unique violations mean an earlier attempt already reached the server
+const isDuplicate = (error: any) => error?.code === '23505';
+
+// The session is read locally, so this works offline unlike `auth.getUser()`
+const getSessionUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+// Show the action's result in the entity store before the server confirms it
+const applyOptimistic = (action: OutboxAction, active = true) => {
+  const { setInteraction } = useStore.getState();
+
+  switch (action.type) {
+    case 'like':
+    case 'unlike':
+      setInteraction(action.tweetId, 'like', (action.type === 'like') === active);
+      break;
+    case 'bookmark':
+    case 'unbookmark':
+      setInteraction(action.tweetId, 'bookmark', (action.type === 'bookmark') === active);
+      break;
+    default:
+      break;
+  }
+};
+
+const runAction = async ({ id, userId, action }: OutboxEntry): Promise<unknown> => {
+  switch (action.type) {
+    case 'like':
+    case 'bookmark': {
+      const { error } = await supabase
+        .from(action.type === 'like' ? 'likes' : 'bookmarks')
+        .insert({ user_id: userId, tweet_id: action.tweetId });
+      if (error && !isDuplicate(error)) throw error;
+      invalidateCache.tweetInteraction();
+      return null;
+    }
+
+    case 'unlike':
+    case 'unbookmark': {
+      const { error } = await supabase
+        .from(action.type === 'unlike' ? 'likes' : 'bookmarks')
+        .delete()
+        .match({ user_id: userId, tweet_id: action.tweetId });
+      if (error) throw error;
+      invalidateCache.tweetInteraction();
+      return null;
+    }
+
+    case 'follow': {
+      const { error } = await supabase
+        .from('follows')
+        .insert({ follower_id: userId, following_id: action.targetUserId });
+      if (error && !isDuplicate(error)) throw error;
+      return null;
+    }
+
+    case 'unfollow': {
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .match({ follower_id: userId, following_id: action.targetUserId });
+      if (error) throw error;
+      return null;
+    }
+
+    case 'createTweet': {
+      const { hashtags, mentions } = extractContentTags(action.content);
+
+      // The entry id doubles as the tweet id, so a replay after a lost response can't post twice
+      const { error } = await supabase
+        .from('tweets')
+        .insert({
+          id,
+          content: action.content,
+          author_id: userId,
+          image_urls: encodeMediaUrls(action.imageUrls, action.videoUrls),
+          media_alt_text: encodeMediaAltText(action.imageUrls, action.videoUrls, action.mediaAltText),
+          sensitive_media: action.sensitiveMedia ?? false,
+          ...encodeTweetPlace(action.place),
+          itinerary: encodeItinerary(action.itinerary),
+          review: encodeReview(action.review),
+          flight_deal: encodeFlightDeal(action.flightDeal),
+          listing: encodeListing(action.listing),
+          is_question: action.isQuestion ?? false,
+          hashtags,
+          mentions,
+          mentioned_user_ids: action.mentionedUserIds ?? [],
+          tags: action.tags,
+          quoted_tweet_id: action.quotedTweetId ?? null,
+        });
+      if (error && !isDuplicate(error)) throw error;
+
+      // The poll goes on once the tweet exists; a replay finds it already attached
+      if (action.poll) {
+        await createPoll(id, action.poll);
+      }
+
+      const { data, error: selectError } = await supabase
+        .from('tweets')
+        .select(TWEET_SELECT)
+        .eq('id', id)
+        .single();
+      if (selectError) throw selectError;
+
+      const row = data as unknown as TweetWithProfile;
+      const tweet = formatTweet(row);
+      useStore.getState().upsertTweets([tweet]);
+      // The embed was read after the quote trigger ran, so it carries the new quote count
+      if (tweet.quotedTweet) {
+        useStore.getState().patchTweet(tweet.quotedTweet.id, { quotes: tweet.quotedTweet.quotes });
+      }
+      invalidateCache.tweetsChanged();
+      return row;
+    }
+
+    case 'createThread': {
+      // Same idempotency trick: the entry id becomes the id of the thread's first post
+      const rows = await createThread(id, action.segments, action.tags, action.quotedTweetId);
+
+      const tweets = rows.map(row => formatTweet(row));
+      useStore.getState().upsertTweets(tweets);
+      const quoted = tweets[0]?.quotedTweet;
+      if (quoted) {
+        useStore.getState().patchTweet(quoted.id, { quotes: quoted.quotes });
+      }
+      invalidateCache.tweetsChanged();
+      return rows;
+    }
+  }
+};
+
+const settle = (entryId: string, outcome: OutboxResult | Error) => {
+  waiters.get(entryId)?.forEach(waiter =>
+    outcome instanceof Error ? waiter.reject(outcome) : waiter.resolve(outcome)
+  );
+  waiters.delete(entryId);
+};
+
+// Callers waiting on entries that are still queued get told so instead of hanging until reconnect
+const settleQueued = () => {
+  useOutboxStore.getState().entries
+    .filter(entry => entry.status === 'pending')
+    .forEach(entry => settle(entry.id, { queued: true }));
+};
+
+const drain = async () => {
+  const userId = await getSessionUserId();
+  if (!userId) return;
+
+  while (true) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      settleQueued();
+      return;
+    }
+
+    const { entries, setStatus, remove } = useOutboxStore.getState();
+    const entry = entries.find(candidate => candidate.userId === userId && candidate.status === 'pending');
+    if (!entry) return;
+
+    setStatus(entry.id, 'sending');
+
+    try {
+      const data = await runAction(entry);
+      remove(entry.id);
+      settle(entry.id, { queued: false, data });
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        console.log('📴 Offline, keeping queued actions for later');
+        setStatus(entry.id, 'pending');
+        settleQueued();
+        return;
+      }
+
+      console.error('Error replaying queued action:', entry.action.type, error);
+      setStatus(entry.id, 'failed', error.message);
+      applyOptimistic(entry.action, false);
+      settle(entry.id, new Error(error.message));
+    }
+  }
+};
+
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+
+/**
+ * Replay queued actions in order. Calls made while a replay is running fold into it.
+ */
+export const flushOutbox = (): Promise<void> => {
+  flushRequested = true;
+
+  if (!flushing) {
+    flushing = (async () => {
+      while (flushRequested) {
+        flushRequested = false;
+        await drain();
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+
+  return flushing;
+};
+
+/**
+ * Apply an action optimistically and queue it. Resolves once it reaches the server, or with
+ * `queued: true` while offline; rejects if the server refuses it (the entry is kept as failed).
+ */
+export const submitOutboxAction = async <T = unknown>(action: OutboxAction): Promise<OutboxResult<T>> => {
+  const userId = await getSessionUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  applyOptimistic(action);
+
+  const { entryId, cancelledId } = useOutboxStore.getState().enqueue(userId, action);
+  // Whoever queued the cancelled action is still waiting on it; nothing will be sent for it now
+  if (cancelledId) settle(cancelledId, { queued: false, superseded: true });
+  if (!entryId) return { queued: false };
+
+  const result = new Promise<OutboxResult<T>>((resolve, reject) => {
+    waiters.set(entryId, [
+      ...(waiters.get(entryId) ?? []),
+      { resolve: resolve as (result: OutboxResult) => void, reject },
+    ]);
+  });
+
+  flushOutbox();
+  return result;
+};
+
+export const retryOutboxEntry = (entryId: string) => {
+  const entry = useOutboxStore.getState().entries.find(candidate => candidate.id === entryId);
+  if (!entry) return;
+
+  applyOptimistic(entry.action);
+  useOutboxStore.getState().setStatus(entryId, 'pending');
+  flushOutbox();
+};
+
+// Failed entries have already been reverted, so discarding only drops them
+export const discardOutboxEntry = (entryId: string) => {
+  useOutboxStore.getState().remove(entryId);
+};
+
+// Server data arriving while actions are queued would otherwise undo their optimistic state
+const reapplyQueued = () => {
+  useOutboxStore.getState().entries
+    .filter(entry => entry.status !== 'failed')
+    .forEach(entry => applyOptimistic(entry.action));
+};
+
+/**
+ * Replay the outbox now and whenever the connection comes back. Returns a cleanup function.
+ */
+export const startOutboxSync = () => {
+  const handleOnline = () => {
+    console.log('📶 Back online, replaying queued actions');
+    flushOutbox();
+  };
+
+  const unsubscribe = useStore.subscribe((state, previous) => {
+    if (state.tweetsById !== previous.tweetsById) reapplyQueued();
+  });
+
+  window.addEventListener('online', handleOnline);
+  reapplyQueued();
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    unsubscribe();
+  };
+};
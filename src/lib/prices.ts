@@ -0,0 +1,23 @@
+/**
+ * Prices posted on deals and listings: the currencies offered when composing
+ * one and how an amount reads on a card.
+ */
+
+// The currencies the composers offer; the column checks accept any ISO code
+export const PRICE_CURRENCIES = ['SAR', 'AED', 'QAR', 'KWD', 'BHD', 'OMR', 'EGP', 'TRY', 'USD', 'EUR', 'GBP'] as const;
+
+// "SAR 1,250" in English, the local symbol in Arabic; whole amounts drop the decimals
+export const formatPrice = (price: number, currency: string, language: 'en' | 'ar'): string => {
+  const fractionDigits = Number.isInteger(price) ? 0 : 2;
+  try {
+    return new Intl.NumberFormat(language === 'ar' ? 'ar-SA' : 'en-US', {
+      style: 'currency',
+      currency,
+      currencyDisplay: language === 'ar' ? 'symbol' : 'code',
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(price);
+  } catch {
+    return `${currency} ${price}`;
+  }
+};
@@ -0,0 +1,244 @@
+import { supabase } from './supabase';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+/**
+ * Shared realtime subscriptions.
+ *
+ * Hooks describe the table changes they care about; identical descriptions share one
+ * Supabase channel, which stays open while anyone is subscribed. Dropped channels
+ * rejoin with exponential backoff, and while a channel is down each subscriber's
+ * `poll` callback runs on an interval so screens keep updating without the socket.
+ */
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+
+export interface RealtimeBinding {
+  event: RealtimeEvent;
+  table: string;
+  filter?: string; // PostgREST-style filter, e.g. `recipient_id=eq.${userId}`
+}
+
+export type RealtimePayload = RealtimePostgresChangesPayload<Record<string, any>>;
+export type RealtimeListener = (payload: RealtimePayload) => void;
+
+export interface RealtimeOptions {
+  poll?: () => void; // refetch used while the channel is down
+  pollInterval?: number;
+}
+
+type ChannelStatus = 'connecting' | 'connected' | 'down';
+
+interface Subscriber {
+  count: number; // the same listener may be registered by many hook instances
+  options: RealtimeOptions;
+}
+
+interface ManagedChannel {
+  key: string;
+  bindings: RealtimeBinding[];
+  channel: RealtimeChannel | null;
+  generation: number;
+  status: ChannelStatus;
+  attempts: number;
+  subscribers: Map<RealtimeListener, Subscriber>;
+  pollTimers: Map<RealtimeListener, ReturnType<typeof setInterval>>;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_POLL_INTERVAL = 30 * 1000;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+// Keep a channel briefly after its last subscriber leaves so route changes don't rejoin
+const RELEASE_DELAY = 2000;
+
+const channels = new Map<string, ManagedChannel>();
+
+const channelKey = (bindings: RealtimeBinding[]) =>
+  bindings.map(({ event, table, filter }) => `${table}:${event}${filter ? `:${filter}` : ''}`).join('|');
+
+const dispatch = (managed: ManagedChannel, payload: RealtimePayload) => {
+  managed.subscribers.forEach((_, listener) => {
+    try {
+      listener(payload);
+    } catch (error) {
+      console.error('Error in realtime listener:', error);
+    }
+  });
+};
+
+const startPolling = (managed: ManagedChannel, listener: RealtimeListener, options: RealtimeOptions) => {
+  if (!options.poll || managed.pollTimers.has(listener)) return;
+  managed.pollTimers.set(listener, setInterval(options.poll, options.pollInterval ?? DEFAULT_POLL_INTERVAL));
+};
+
+const stopPolling = (managed: ManagedChannel, listener?: RealtimeListener) => {
+  managed.pollTimers.forEach((timer, polled) => {
+    if (listener && polled !== listener) return;
+    clearInterval(timer);
+    managed.pollTimers.delete(polled);
+  });
+};
+
+const closeChannel = (managed: ManagedChannel) => {
+  if (!managed.channel) return;
+  const channel = managed.channel;
+  managed.channel = null;
+  supabase.removeChannel(channel).catch(error => console.debug('Error removing realtime channel:', error));
+};
+
+// The client types each event through its own overload, so the event is narrowed before the call
+const listen = (channel: RealtimeChannel, { event, table, filter }: RealtimeBinding, listener: RealtimeListener): RealtimeChannel => {
+  const scope = { schema: 'public', table, ...(filter ? { filter } : {}) };
+
+  switch (event) {
+    case 'INSERT':
+      return channel.on('postgres_changes', { ...scope, event }, listener);
+    case 'UPDATE':
+      return channel.on('postgres_changes', { ...scope, event }, listener);
+    case 'DELETE':
+      return channel.on('postgres_changes', { ...scope, event }, listener);
+    default:
+      return channel.on('postgres_changes', { ...scope, event }, listener);
+  }
+};
+
+const connect = (managed: ManagedChannel) => {
+  managed.retryTimer = null;
+  closeChannel(managed);
+
+  // A fresh topic per attempt: the client reuses channels by topic, including ones still closing
+  managed.generation += 1;
+  const generation = managed.generation;
+  const channel = managed.bindings.reduce(
+    (built, binding) => listen(built, binding, payload => dispatch(managed, payload)),
+    supabase.channel(`${managed.key}#${generation}`)
+  );
+
+  managed.channel = channel;
+  managed.status = managed.status === 'down' ? 'down' : 'connecting';
+
+  channel.subscribe((status, error) => {
+    // Ignore callbacks from channels this entry has already replaced
+    if (managed.generation !== generation || channels.get(managed.key) !== managed) return;
+
+    if (status === 'SUBSCRIBED') {
+      const recovered = managed.status === 'down';
+      managed.status = 'connected';
+      managed.attempts = 0;
+      stopPolling(managed);
+      // The client can rejoin on its own before our retry fires
+      if (managed.retryTimer) {
+        clearTimeout(managed.retryTimer);
+        managed.retryTimer = null;
+      }
+
+      // Catch up on anything missed while the socket was down
+      if (recovered) {
+        managed.subscribers.forEach(({ options }) => options.poll?.());
+      }
+      return;
+    }
+
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      console.warn(`📡 Realtime channel ${managed.key} ${status.toLowerCase()}`, error ?? '');
+      managed.status = 'down';
+      managed.subscribers.forEach((subscriber, listener) => startPolling(managed, listener, subscriber.options));
+      scheduleReconnect(managed);
+    }
+  });
+};
+
+const scheduleReconnect = (managed: ManagedChannel) => {
+  if (managed.retryTimer) return;
+
+  const backoff = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** managed.attempts);
+  const delay = backoff / 2 + Math.random() * (backoff / 2);
+  managed.attempts += 1;
+  managed.retryTimer = setTimeout(() => connect(managed), delay);
+};
+
+const release = (managed: ManagedChannel) => {
+  managed.releaseTimer = null;
+  if (managed.subscribers.size > 0) return;
+
+  if (managed.retryTimer) clearTimeout(managed.retryTimer);
+  stopPolling(managed);
+  channels.delete(managed.key);
+  closeChannel(managed);
+};
+
+/**
+ * Listen for changes matching `bindings`. Returns an unsubscribe function.
+ * Registering the same listener function from several places delivers each change to it once.
+ */
+export const subscribeRealtime = (
+  bindings: RealtimeBinding[],
+  listener: RealtimeListener,
+  options: RealtimeOptions = {}
+): (() => void) => {
+  const key = channelKey(bindings);
+  let managed = channels.get(key);
+
+  if (!managed) {
+    managed = {
+      key,
+      bindings,
+      channel: null,
+      generation: 0,
+      status: 'connecting',
+      attempts: 0,
+      subscribers: new Map(),
+      pollTimers: new Map(),
+      retryTimer: null,
+      releaseTimer: null,
+    };
+    channels.set(key, managed);
+    connect(managed);
+  }
+
+  if (managed.releaseTimer) {
+    clearTimeout(managed.releaseTimer);
+    managed.releaseTimer = null;
+  }
+
+  const subscriber = managed.subscribers.get(listener);
+  if (subscriber) {
+    subscriber.count += 1;
+  } else {
+    managed.subscribers.set(listener, { count: 1, options });
+    if (managed.status === 'down') startPolling(managed, listener, options);
+  }
+
+  const current = managed;
+  let active = true;
+
+  return () => {
+    if (!active) return;
+    active = false;
+
+    const entry = current.subscribers.get(listener);
+    if (!entry) return;
+
+    entry.count -= 1;
+    if (entry.count > 0) return;
+
+    current.subscribers.delete(listener);
+    stopPolling(current, listener);
+    if (current.subscribers.size === 0 && !current.releaseTimer) {
+      current.releaseTimer = setTimeout(() => release(current), RELEASE_DELAY);
+    }
+  };
+};
+
+// Rejoin dropped channels right away instead of waiting out the backoff
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    channels.forEach(managed => {
+      if (managed.status !== 'down') return;
+      if (managed.retryTimer) clearTimeout(managed.retryTimer);
+      managed.attempts = 0;
+      connect(managed);
+    });
+  });
+}
@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import { PlaceReviewStats, PlaceReviewStatsData, Review, ReviewAspect, ReviewData } from '../types';
+
+/**
+ * Reviews attached to Hotels and Restaurants posts: mapping to and from the
+ * `review` column, and the per-place roll-ups from `get_place_review_stats`.
+ */
+
+export const REVIEW_ASPECTS: ReviewAspect[] = ['cleanliness', 'service', 'value'];
+
+export const REVIEW_ASPECT_LABELS: Record<ReviewAspect, { en: string; ar: string }> = {
+  cleanliness: { en: 'Cleanliness', ar: 'النظافة' },
+  service: { en: 'Service', ar: 'الخدمة' },
+  value: { en: 'Value', ar: 'القيمة مقابل السعر' },
+};
+
+// `check_review` enforces the same limits
+export const REVIEW_MAX_RATING = 5;
+export const REVIEW_VENUE_MAX_LENGTH = 80;
+
+export const parseReview = (data: ReviewData | null | undefined): Review | undefined => {
+  if (!data?.rating) return undefined;
+
+  return {
+    venueName: data.venue_name ?? undefined,
+    rating: data.rating,
+    cleanliness: data.cleanliness ?? undefined,
+    service: data.service ?? undefined,
+    value: data.value ?? undefined,
+    visitedOn: data.visited_on ?? undefined,
+  };
+};
+
+/**
+ * The `review` column for a review being composed. Null until it has an
+ * overall rating, which is the one rating a review can't do without.
+ */
+export const encodeReview = (review?: Review | null): ReviewData | null => {
+  if (!review?.rating) return null;
+
+  return {
+    venue_name: review.venueName?.trim() || null,
+    rating: review.rating,
+    cleanliness: review.cleanliness ?? null,
+    service: review.service ?? null,
+    value: review.value ?? null,
+    visited_on: review.visitedOn || null,
+  };
+};
+
+export const formatPlaceReviewStats = (row: PlaceReviewStatsData): PlaceReviewStats => {
+  const aspects: PlaceReviewStats['aspects'] = {};
+  if (row.average_cleanliness != null) aspects.cleanliness = Number(row.average_cleanliness);
+  if (row.average_service != null) aspects.service = Number(row.average_service);
+  if (row.average_value != null) aspects.value = Number(row.average_value);
+
+  const counts = row.rating_counts || [];
+  return {
+    placeId: row.place_id,
+    count: row.review_count,
+    average: Number(row.average_rating),
+    aspects,
+    distribution: [0, 1, 2, 3, 4].map(index => counts[index] ?? 0) as PlaceReviewStats['distribution'],
+  };
+};
+
+/**
+ * Review roll-ups for several places at once, by place id. Places nobody has
+ * reviewed are left out.
+ */
+export const fetchPlaceReviewStats = async (placeIds: string[]): Promise<Record<string, PlaceReviewStats>> => {
+  if (placeIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_place_review_stats', { p_place_ids: placeIds });
+  if (error) throw error;
+
+  return Object.fromEntries(
+    ((data || []) as PlaceReviewStatsData[]).map(row => [row.place_id, formatPlaceReviewStats(row)])
+  );
+};
+
+// One decimal, the way ratings are usually quoted
+export const formatRating = (rating: number): string => rating.toFixed(1);
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findTextEntities,
+  getPostLength,
+  getPostLengthState,
+  POST_MAX_LENGTH,
+  POST_PREVIEW_LENGTH,
+  truncatePostText,
+  URL_LENGTH,
+} from './textMetrics';
+
+describe('getPostLength', () => {
+  it('counts plain text one per character', () => {
+    expect(getPostLength('')).toBe(0);
+    expect(getPostLength('Hello world')).toBe(11);
+  });
+
+  it('counts every link as URL_LENGTH', () => {
+    expect(getPostLength('https://a.co')).toBe(URL_LENGTH);
+    expect(getPostLength(`see https://example.com/${'x'.repeat(100)}`)).toBe(4 + URL_LENGTH);
+    expect(getPostLength('http://a.co http://b.co')).toBe(2 * URL_LENGTH + 1);
+  });
+
+  it('ignores Arabic harakat', () => {
+    // "kataba" with and without its three fathas
+    expect(getPostLength('كتب')).toBe(3);
+    expect(getPostLength('\u0643\u064E\u062A\u064E\u0628\u064E')).toBe(3);
+  });
+
+  it('ignores combining accents', () => {
+    expect(getPostLength('e\u0301')).toBe(1);
+  });
+
+  it('counts an emoji outside the BMP once', () => {
+    expect('\u{1F600}'.length).toBe(2);
+    expect(getPostLength('\u{1F600}')).toBe(1);
+  });
+
+  it('counts skin tones and variation selectors as part of their emoji', () => {
+    expect(getPostLength('\u{1F44D}\u{1F3FD}')).toBe(1);
+    expect(getPostLength('\u2764\uFE0F')).toBe(1);
+  });
+
+  it('counts a ZWJ sequence once', () => {
+    // man, ZWJ, woman, ZWJ, girl
+    expect(getPostLength('\u{1F468}\u200D\u{1F469}\u200D\u{1F467}')).toBe(1);
+  });
+
+  it('counts a flag once', () => {
+    expect(getPostLength('\u{1F1F8}\u{1F1E6}')).toBe(1);
+    expect(getPostLength('\u{1F1F8}\u{1F1E6}\u{1F1E6}\u{1F1EA}')).toBe(2);
+  });
+
+  it('counts a keycap once', () => {
+    expect(getPostLength('1\uFE0F\u20E3')).toBe(1);
+  });
+});
+
+describe('getPostLengthState', () => {
+  it('reports the characters left and the limits', () => {
+    expect(getPostLengthState('abc')).toEqual({ length: 3, remaining: POST_MAX_LENGTH - 3, isNearLimit: false, isOverLimit: false });
+    expect(getPostLengthState('x'.repeat(190))).toMatchObject({ isNearLimit: true, isOverLimit: false });
+    expect(getPostLengthState('x'.repeat(POST_MAX_LENGTH))).toMatchObject({ remaining: 0, isOverLimit: false });
+    expect(getPostLengthState('x'.repeat(POST_MAX_LENGTH + 1))).toMatchObject({ remaining: -1, isOverLimit: true });
+  });
+
+  it('lets a long link fit that would overflow by raw length', () => {
+    const text = `${'x'.repeat(150)} https://example.com/${'y'.repeat(200)}`;
+    expect(text.length).toBeGreaterThan(POST_MAX_LENGTH);
+    expect(getPostLengthState(text).isOverLimit).toBe(false);
+  });
+});
+
+describe('findTextEntities', () => {
+  it('finds links, hashtags and mentions in order', () => {
+    const text = '@sara loves #travel https://a.co';
+    expect(findTextEntities(text)).toEqual([
+      { type: 'mention', start: 0, end: 5 },
+      { type: 'hashtag', start: 12, end: 19 },
+      { type: 'url', start: 20, end: 32 },
+    ]);
+  });
+
+  it('finds Arabic hashtags', () => {
+    // #Riyadh in Arabic
+    const text = 'in #الرياض';
+    expect(findTextEntities(text)).toEqual([{ type: 'hashtag', start: 3, end: text.length }]);
+  });
+});
+
+describe('truncatePostText', () => {
+  it('leaves short text alone', () => {
+    expect(truncatePostText('short', 10)).toEqual({ text: 'short', truncated: false });
+  });
+
+  it('collapses a post at the length limit by default', () => {
+    const text = 'word '.repeat(POST_MAX_LENGTH / 5).trim();
+    const preview = truncatePostText(text);
+
+    expect(preview.truncated).toBe(true);
+    expect(preview.text.length).toBeLessThanOrEqual(POST_PREVIEW_LENGTH);
+  });
+
+  it('cuts back to a nearby space', () => {
+    expect(truncatePostText('one two three four five', 16)).toEqual({ text: 'one two three', truncated: true });
+  });
+
+  it('never cuts inside a hashtag, mention or link', () => {
+    const text = `${'a'.repeat(8)} #travelling more`;
+    expect(truncatePostText(text, 12).text).toBe('a'.repeat(8));
+  });
+
+  it('never splits a surrogate pair or a letter from its marks', () => {
+    const emoji = `${'a'.repeat(9)}\u{1F600}${'b'.repeat(10)}`;
+    expect(truncatePostText(emoji, 10).text).toBe('a'.repeat(9));
+
+    const marked = `${'a'.repeat(9)}e\u0301${'b'.repeat(10)}`;
+    expect(truncatePostText(marked, 10).text).toBe('a'.repeat(9));
+  });
+});
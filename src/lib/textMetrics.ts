@@ -0,0 +1,131 @@
+/**
+ * Post length rules shared by every composer.
+ *
+ * A post's length is counted the way a reader sees it rather than in UTF-16
+ * units: every link counts as `URL_LENGTH` however long it is, marks drawn over
+ * the previous letter (Arabic harakat, accents, emoji variation selectors and
+ * skin tones) count as nothing, and an emoji built from several code points
+ * (ZWJ sequences, flags, keycaps) counts once.
+ *
+ * The `post_length` database function applies the same steps for the tweets
+ * length trigger, so the two must be changed together.
+ */
+
+// `post_max_length()` in the database enforces the same limit
+export const POST_MAX_LENGTH = 200;
+
+// Where the counters turn yellow
+export const POST_WARNING_LENGTH = 180;
+
+export const URL_LENGTH = 23;
+
+// How much of a post cards show before "Show more"; shorter than the limit, so long posts do collapse
+export const POST_PREVIEW_LENGTH = 140;
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+const HASHTAG_PATTERN = /#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g;
+const MENTION_PATTERN = /@[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g;
+
+// A zero-width joiner and the code point it glues onto the one before it
+const JOINED_CODE_POINT = /\u200D[\s\S]/gu;
+
+// Code points that only change how the previous one is drawn
+const ZERO_WIDTH_CODE_POINTS =
+  /[\u0300-\u036F\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED\u08D3-\u08FF\u200B-\u200F\u20E3\uFE00-\uFE0F\uFE20-\uFE2F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]/gu;
+
+const ZERO_WIDTH_CODE_POINT = new RegExp(ZERO_WIDTH_CODE_POINTS.source, 'u');
+
+// Two regional indicators make one flag
+const FLAG_PAIR = /([\u{1F1E6}-\u{1F1FF}])[\u{1F1E6}-\u{1F1FF}]/gu;
+
+/**
+ * Weighted length of a post's text, as enforced by the database.
+ */
+export const getPostLength = (text: string): number => {
+  const counted = text
+    .replace(URL_PATTERN, 'x'.repeat(URL_LENGTH))
+    .replace(JOINED_CODE_POINT, '')
+    .replace(ZERO_WIDTH_CODE_POINTS, '')
+    .replace(FLAG_PAIR, '$1');
+
+  return Array.from(counted).length;
+};
+
+export interface PostLengthState {
+  length: number;
+  remaining: number; // negative once over the limit
+  isNearLimit: boolean;
+  isOverLimit: boolean;
+}
+
+export const getPostLengthState = (text: string): PostLengthState => {
+  const length = getPostLength(text);
+  return {
+    length,
+    remaining: POST_MAX_LENGTH - length,
+    isNearLimit: length > POST_WARNING_LENGTH,
+    isOverLimit: length > POST_MAX_LENGTH,
+  };
+};
+
+export interface TextEntity {
+  type: 'hashtag' | 'mention' | 'url';
+  start: number;
+  end: number;
+}
+
+/**
+ * Hashtags, mentions and links in the text, in order. Same patterns as the
+ * tweet cards use to render them.
+ */
+export const findTextEntities = (text: string): TextEntity[] => {
+  const entities: TextEntity[] = [];
+  const collect = (pattern: RegExp, type: TextEntity['type']) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      entities.push({ type, start, end: start + match[0].length });
+    }
+  };
+
+  collect(URL_PATTERN, 'url');
+  collect(HASHTAG_PATTERN, 'hashtag');
+  collect(MENTION_PATTERN, 'mention');
+
+  return entities.sort((a, b) => a.start - b.start);
+};
+
+// Cutting at `index` would leave half a surrogate pair, a mark without its letter or a broken emoji
+const isInsideCharacter = (text: string, index: number): boolean => {
+  const code = text.charCodeAt(index);
+  if (code >= 0xdc00 && code <= 0xdfff) return true;
+  if (text[index - 1] === '\u200D') return true;
+
+  const codePoint = text.codePointAt(index);
+  return codePoint !== undefined && ZERO_WIDTH_CODE_POINT.test(String.fromCodePoint(codePoint));
+};
+
+/**
+ * The start of a long post for collapsed cards. The cut goes back to the
+ * nearest space when there's one close by, and never lands inside a hashtag,
+ * mention or link, or between a letter and its marks.
+ */
+export const truncatePostText = (
+  text: string,
+  maxLength = POST_PREVIEW_LENGTH
+): { text: string; truncated: boolean } => {
+  if (text.length <= maxLength) {
+    return { text, truncated: false };
+  }
+
+  let cut = maxLength;
+
+  const entity = findTextEntities(text).find(({ start, end }) => start < cut && cut < end);
+  if (entity) cut = entity.start;
+
+  const lastSpace = text.slice(0, cut).search(/\s\S*$/);
+  if (lastSpace > cut * 0.8) cut = lastSpace;
+
+  while (cut > 0 && isInsideCharacter(text, cut)) cut--;
+
+  return { text: text.slice(0, cut).trimEnd(), truncated: true };
+};
@@ -0,0 +1,409 @@
+import { addDays, format, parse } from 'date-fns';
+import { arSA, enUS } from 'date-fns/locale';
+import { supabase } from './supabase';
+import { encodeItinerary, getItineraryDayDate, parseItinerary } from './itinerary';
+import { formatProfile, hydrateTweets, PROFILE_COLUMNS, TWEET_SELECT } from './tweetRepository';
+import {
+  FILTER_COUNTRIES,
+  Trip,
+  TripAccess,
+  TripCollaborator,
+  TripCollaboratorData,
+  TripData,
+  TripItem,
+  TripItemData,
+  TripRole,
+  Tweet,
+  TweetWithProfile,
+} from '../types';
+
+/**
+ * Trip data-access layer.
+ *
+ * Trips live in `trips`, shared only with the collaborators their owner
+ * invites; saved posts live in `trip_items`, and each member's notes on them
+ * in `trip_item_notes`, which only their author can read.
+ * An itinerary copied from a post is the trip's own copy: later edits to the
+ * post don't reach it.
+ */
+
+export const TRIP_COLUMNS = `
+  id,
+  owner_id,
+  title,
+  start_date,
+  end_date,
+  countries,
+  itinerary,
+  source_tweet_id,
+  created_at,
+  updated_at
+`;
+
+// Typed as plain strings so the client doesn't try to infer the embed shapes
+const TRIP_SELECT: string = `
+  ${TRIP_COLUMNS},
+  profiles!trips_owner_id_fkey (${PROFILE_COLUMNS})
+`;
+
+const TRIP_ITEM_COLUMNS = `
+  id,
+  trip_id,
+  tweet_id,
+  position,
+  added_by,
+  created_at,
+  updated_at
+`;
+
+const TRIP_ITEM_SELECT: string = `
+  ${TRIP_ITEM_COLUMNS},
+  tweets (${TWEET_SELECT}),
+  trip_item_notes (note)
+`;
+
+const TRIP_COLLABORATOR_SELECT: string = `
+  trip_id,
+  user_id,
+  role,
+  invited_by,
+  created_at,
+  profiles!trip_collaborators_user_id_fkey (${PROFILE_COLUMNS})
+`;
+
+// `trips.title` and `trip_item_notes.note` are checked against the same lengths
+export const TRIP_TITLE_MAX_LENGTH = 100;
+export const TRIP_NOTE_MAX_LENGTH = 500;
+
+const single = <T,>(value: T | T[] | null | undefined): T | undefined =>
+  (Array.isArray(value) ? value[0] : value) ?? undefined;
+
+export const formatTrip = (row: TripData): Trip => {
+  const owner = single(row.profiles);
+
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    title: row.title,
+    startDate: row.start_date ?? undefined,
+    endDate: row.end_date ?? undefined,
+    countries: row.countries || [],
+    itinerary: parseItinerary(row.itinerary),
+    sourceTweetId: row.source_tweet_id ?? undefined,
+    owner: owner ? formatProfile(owner) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+};
+
+const formatTripItem = (row: TripItemData, tweet?: Tweet): TripItem => ({
+  id: row.id,
+  tripId: row.trip_id,
+  tweetId: row.tweet_id,
+  tweet,
+  note: single(row.trip_item_notes)?.note || '',
+  position: row.position,
+  addedBy: row.added_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const formatTripCollaborator = (row: TripCollaboratorData): TripCollaborator => ({
+  tripId: row.trip_id,
+  user: formatProfile(single(row.profiles)!),
+  role: row.role,
+  invitedBy: row.invited_by,
+  createdAt: new Date(row.created_at),
+});
+
+/**
+ * What `userId` may do with a trip: its owner, an invited viewer or editor,
+ * or null. The database checks the same through `trip_access`.
+ */
+export const getTripAccess = (
+  trip: Pick<Trip, 'ownerId'>,
+  collaborators: TripCollaborator[],
+  userId?: string
+): TripAccess | null => {
+  if (!userId) return null;
+  if (trip.ownerId === userId) return 'owner';
+  return collaborators.find(collaborator => collaborator.user.id === userId)?.role ?? null;
+};
+
+export const canEditTrip = (access: TripAccess | null): boolean => access === 'owner' || access === 'editor';
+
+// Name, dates and destinations as the trip form edits them
+export interface TripFields {
+  title: string;
+  startDate?: string;
+  endDate?: string;
+  countries: string[];
+}
+
+const encodeTripFields = (fields: TripFields) => ({
+  title: fields.title.trim(),
+  start_date: fields.startDate || null,
+  end_date: fields.endDate || null,
+  countries: fields.countries,
+});
+
+/**
+ * The viewer's own trips and the ones shared with them, most recently
+ * changed first, each with the viewer's access to it.
+ */
+export const fetchTrips = async (userId: string): Promise<Trip[]> => {
+  const [tripsResult, rolesResult] = await Promise.all([
+    supabase
+      .from('trips')
+      .select(TRIP_SELECT)
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('trip_collaborators')
+      .select('trip_id, role')
+      .eq('user_id', userId),
+  ]);
+
+  if (tripsResult.error) throw tripsResult.error;
+  if (rolesResult.error) throw rolesResult.error;
+
+  const roles = new Map((rolesResult.data || []).map(row => [row.trip_id, row.role]));
+  return ((tripsResult.data || []) as unknown as TripData[]).map(row => ({
+    ...formatTrip(row),
+    access: row.owner_id === userId ? 'owner' : roles.get(row.id),
+  }));
+};
+
+// Null when the trip is gone or not shared with the viewer
+export const fetchTrip = async (tripId: string): Promise<Trip | null> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .select(TRIP_SELECT)
+    .eq('id', tripId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatTrip(data as unknown as TripData) : null;
+};
+
+export const createTrip = async (userId: string, fields: TripFields): Promise<Trip> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .insert({ owner_id: userId, ...encodeTripFields(fields) })
+    .select(TRIP_SELECT)
+    .single();
+
+  if (error) throw error;
+  return { ...formatTrip(data as unknown as TripData), access: 'owner' };
+};
+
+export const updateTrip = async (tripId: string, fields: TripFields): Promise<Trip> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .update(encodeTripFields(fields))
+    .eq('id', tripId)
+    .select(TRIP_SELECT)
+    .single();
+
+  if (error) throw error;
+  return formatTrip(data as unknown as TripData);
+};
+
+export const deleteTrip = async (tripId: string): Promise<void> => {
+  const { error } = await supabase.from('trips').delete().eq('id', tripId);
+  if (error) throw error;
+};
+
+/**
+ * A trip's saved posts in the members' order, hydrated for the viewer.
+ */
+export const fetchTripItems = async (tripId: string, userId?: string): Promise<TripItem[]> => {
+  const { data, error } = await supabase
+    .from('trip_items')
+    .select(TRIP_ITEM_SELECT)
+    .eq('trip_id', tripId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as TripItemData[];
+  const tweetRows = rows
+    .map(row => single(row.tweets))
+    .filter((row): row is TweetWithProfile => !!row);
+  const tweets = await hydrateTweets(tweetRows, userId);
+  const tweetsById = new Map(tweets.map(tweet => [tweet.id, tweet]));
+
+  return rows.map(row => formatTripItem(row, tweetsById.get(row.tweet_id)));
+};
+
+/**
+ * Save a post at the end of a trip. Saving one that's already there is a
+ * no-op, since a post is kept at most once per trip.
+ */
+export const saveTweetToTrip = async (tripId: string, tweetId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_items')
+    .insert({ trip_id: tripId, tweet_id: tweetId, added_by: userId });
+
+  if (error && error.code !== '23505') throw error;
+};
+
+export const removeTweetFromTrip = async (tripId: string, tweetId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_items')
+    .delete()
+    .eq('trip_id', tripId)
+    .eq('tweet_id', tweetId);
+
+  if (error) throw error;
+};
+
+export const removeTripItem = async (itemId: string): Promise<void> => {
+  const { error } = await supabase.from('trip_items').delete().eq('id', itemId);
+  if (error) throw error;
+};
+
+// Save the viewer's own note on an item; nobody else on the trip sees it
+export const updateTripItemNote = async (itemId: string, userId: string, note: string): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_item_notes')
+    .upsert({ item_id: itemId, user_id: userId, note: note.trim() });
+
+  if (error) throw error;
+};
+
+// Save the items' new order, first to last, through `reorder_trip_items`
+export const reorderTripItems = async (tripId: string, itemIds: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('reorder_trip_items', {
+    p_trip_id: tripId,
+    p_item_ids: itemIds,
+  });
+
+  if (error) throw error;
+};
+
+// Which of the viewer's trips a post is already saved in
+export const fetchTripIdsWithTweet = async (tweetId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('trip_items')
+    .select('trip_id')
+    .eq('tweet_id', tweetId);
+
+  if (error) throw error;
+  return (data || []).map(row => row.trip_id);
+};
+
+export const fetchTripCollaborators = async (tripId: string): Promise<TripCollaborator[]> => {
+  const { data, error } = await supabase
+    .from('trip_collaborators')
+    .select(TRIP_COLLABORATOR_SELECT)
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as unknown as TripCollaboratorData[]).map(formatTripCollaborator);
+};
+
+/**
+ * Invite someone into a trip by username. Only the trip's owner can; inviting
+ * someone already on it changes their role instead.
+ */
+export const inviteTripCollaborator = async (
+  tripId: string,
+  username: string,
+  role: TripRole,
+  invitedBy: string
+): Promise<TripCollaborator> => {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('username', username.trim().replace(/^@/, ''))
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) throw new Error('No user with that username');
+  if (profile.id === invitedBy) throw new Error('You already own this trip');
+
+  const { data, error } = await supabase
+    .from('trip_collaborators')
+    .upsert({ trip_id: tripId, user_id: profile.id, role, invited_by: invitedBy }, { onConflict: 'trip_id,user_id' })
+    .select(TRIP_COLLABORATOR_SELECT)
+    .single();
+
+  if (error) throw error;
+  return formatTripCollaborator(data as unknown as TripCollaboratorData);
+};
+
+export const updateTripCollaboratorRole = async (tripId: string, userId: string, role: TripRole): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_collaborators')
+    .update({ role })
+    .eq('trip_id', tripId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Removes a collaborator, or lets one leave the trip
+export const removeTripCollaborator = async (tripId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_collaborators')
+    .delete()
+    .eq('trip_id', tripId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// The post's first line, or who it came from when that's empty
+const tripTitleFromTweet = (tweet: Tweet): string => {
+  const firstLine = tweet.content.split('\n').map(line => line.trim()).find(Boolean) || '';
+  const title = firstLine || `@${tweet.author.username}`;
+  return title.length > TRIP_TITLE_MAX_LENGTH ? `${title.slice(0, TRIP_TITLE_MAX_LENGTH - 1).trimEnd()}…` : title;
+};
+
+/**
+ * Start a new trip for `userId` from a post's itinerary. `startDate` is used
+ * when the itinerary itself has none, so relative days become real dates.
+ */
+export const copyItineraryToTrip = async (userId: string, tweet: Tweet, startDate?: string): Promise<Trip> => {
+  if (!tweet.itinerary) throw new Error('This post has no itinerary');
+
+  const start = tweet.itinerary.startDate || startDate;
+  const lastDay = getItineraryDayDate(start, tweet.itinerary.days.length - 1);
+  const itinerary = encodeItinerary({ ...tweet.itinerary, startDate: start });
+
+  const { data, error } = await supabase
+    .from('trips')
+    .insert({
+      owner_id: userId,
+      title: tripTitleFromTweet(tweet),
+      start_date: start ?? null,
+      end_date: lastDay ? format(lastDay, 'yyyy-MM-dd') : null,
+      countries: (tweet.tags || []).filter(tag => tag !== 'ALL' && FILTER_COUNTRIES.some(country => country.code === tag)),
+      itinerary,
+      source_tweet_id: tweet.id,
+    })
+    .select(TRIP_SELECT)
+    .single();
+
+  if (error) throw error;
+  return formatTrip(data as unknown as TripData);
+};
+
+// Tomorrow, as the default start for copying a plan that has no dates
+export const defaultTripStartDate = (): string => format(addDays(new Date(), 1), 'yyyy-MM-dd');
+
+// "3 Aug – 10 Aug 2025", or whichever end is set
+export const formatTripDates = (trip: Pick<Trip, 'startDate' | 'endDate'>, language: 'en' | 'ar'): string | null => {
+  const locale = language === 'ar' ? arSA : enUS;
+  const start = trip.startDate ? parse(trip.startDate, 'yyyy-MM-dd', new Date()) : undefined;
+  const end = trip.endDate ? parse(trip.endDate, 'yyyy-MM-dd', new Date()) : undefined;
+
+  if (start && end) {
+    return `${format(start, 'd MMM', { locale })} – ${format(end, 'd MMM yyyy', { locale })}`;
+  }
+  if (start) return `${language === 'en' ? 'From' : 'من'} ${format(start, 'd MMM yyyy', { locale })}`;
+  if (end) return `${language === 'en' ? 'Until' : 'حتى'} ${format(end, 'd MMM yyyy', { locale })}`;
+  return null;
+};
@@ -0,0 +1,1032 @@
+import { supabase } from './supabase';
+import { parseItinerary } from './itinerary';
+import { parseReview } from './reviews';
+import { parseFlightDeal } from './flightDeals';
+import { isListingFilterActive, ListingFilter, parseListing } from './listings';
+import { Place, Poll, PollData, Tweet, TweetPlace, TweetRevision, TweetWithProfile, User, ViewerState } from '../types';
+
+/**
+ * Tweet data-access layer.
+ *
+ * Owns the select shapes for `tweets` + `profiles` + `original_tweet` / `quoted_tweet` /
+ * `accepted_answer` / `poll`, the row-to-`Tweet` mapping (including `image:`/`video:` media
+ * prefixes) and the viewer interaction lookup, so hooks and components don't keep their own copies.
+ */
+
+export const PROFILE_COLUMNS = `
+  id,
+  username,
+  display_name,
+  avatar_url,
+  bio,
+  verified,
+  followers_count,
+  following_count,
+  country,
+  created_at
+`;
+
+export const TWEET_COLUMNS = `
+  id,
+  content,
+  author_id,
+  reply_to,
+  image_urls,
+  media_alt_text,
+  sensitive_media,
+  place_id,
+  place_city_id,
+  place_lat,
+  place_lon,
+  itinerary,
+  review,
+  flight_deal,
+  listing,
+  hashtags,
+  mentions,
+  tags,
+  likes_count,
+  retweets_count,
+  replies_count,
+  quotes_count,
+  views_count,
+  created_at,
+  updated_at,
+  is_retweet,
+  original_tweet_id,
+  quoted_tweet_id,
+  is_question,
+  accepted_answer_id,
+  edit_count,
+  edited_at,
+  thread_root_id,
+  thread_position
+`;
+
+// Pinned columns only exist once the pinning migration has run, so they are opt-in
+export const PINNED_COLUMNS = `
+  pinned_to_home,
+  pinned_to_profile,
+  pinned_at
+`;
+
+// Quoted tweets are embedded one level deep, including inside retweeted originals
+const QUOTED_TWEET_SELECT = `
+  quoted_tweet:quoted_tweet_id (
+    ${TWEET_COLUMNS},
+    profiles!tweets_author_id_fkey (${PROFILE_COLUMNS})
+  )
+`;
+
+// A question's accepted answer is embedded the same way, so feeds can show it under the question
+const ACCEPTED_ANSWER_SELECT = `
+  accepted_answer:accepted_answer_id (
+    ${TWEET_COLUMNS},
+    profiles!tweets_author_id_fkey (${PROFILE_COLUMNS})
+  )
+`;
+
+// RLS only returns the viewer's own row from `poll_votes`, which makes it their vote
+const POLL_SELECT = `
+  poll:polls (
+    id,
+    tweet_id,
+    ends_at,
+    poll_options (id, position, label, votes_count),
+    poll_votes (option_id)
+  )
+`;
+
+export const TWEET_SELECT = `
+  ${TWEET_COLUMNS},
+  profiles!tweets_author_id_fkey (${PROFILE_COLUMNS}),
+  ${QUOTED_TWEET_SELECT},
+  ${ACCEPTED_ANSWER_SELECT},
+  ${POLL_SELECT},
+  original_tweet:original_tweet_id (
+    ${TWEET_COLUMNS},
+    profiles!tweets_author_id_fkey (${PROFILE_COLUMNS}),
+    ${QUOTED_TWEET_SELECT},
+    ${ACCEPTED_ANSWER_SELECT},
+    ${POLL_SELECT}
+  )
+`;
+
+export const PINNED_TWEET_SELECT = `
+  ${TWEET_SELECT},
+  ${PINNED_COLUMNS}
+`;
+
+export type MediaItem = { url: string; type: 'image' | 'video'; alt?: string };
+
+// `check_media_alt_text` enforces the same limit
+export const MEDIA_ALT_TEXT_MAX_LENGTH = 1000;
+
+export interface TweetInteractions {
+  likes: Set<string>;
+  retweets: Set<string>;
+  bookmarks: Set<string>;
+}
+
+export const emptyInteractions = (): TweetInteractions => ({
+  likes: new Set(),
+  retweets: new Set(),
+  bookmarks: new Set(),
+});
+
+const isVideoUrl = (url: string): boolean => url.toLowerCase().endsWith('.mp4');
+
+const stripMediaPrefix = (url: string): string =>
+  url.startsWith('image:') || url.startsWith('video:') ? url.slice(6) : url;
+
+/**
+ * Split the combined `image_urls` column into images and videos.
+ * Media is stored as `image:<url>` / `video:<url>`; legacy rows have bare image URLs.
+ */
+export const parseMediaUrls = (urls: string[] | null | undefined): { images: string[]; videos: string[] } => {
+  const images: string[] = [];
+  const videos: string[] = [];
+
+  (urls || []).forEach(url => {
+    if (url.startsWith('video:')) {
+      videos.push(url.slice(6));
+    } else if (url.startsWith('image:')) {
+      images.push(url.slice(6));
+    } else {
+      images.push(url);
+    }
+  });
+
+  return { images, videos };
+};
+
+/**
+ * Combine uploaded images and videos into the prefixed form stored in `image_urls`.
+ */
+export const encodeMediaUrls = (imageUrls: string[] = [], videoUrls: string[] = []): string[] => [
+  ...imageUrls.map(url => `image:${url}`),
+  ...videoUrls.map(url => `video:${url}`),
+];
+
+/**
+ * Alt texts by media URL, read from `media_alt_text`, which holds one entry per
+ * `image_urls` item in the same order. Items without a description are left out.
+ */
+export const parseMediaAltText = (
+  urls: string[] | null | undefined,
+  altText: string[] | null | undefined
+): Record<string, string> => {
+  const byUrl: Record<string, string> = {};
+  (urls || []).forEach((url, index) => {
+    const alt = altText?.[index]?.trim();
+    if (alt) byUrl[stripMediaPrefix(url)] = alt;
+  });
+  return byUrl;
+};
+
+/**
+ * Alt texts by URL for media being composed, as the repository functions take them.
+ */
+export const getMediaAltText = (media: MediaItem[]): Record<string, string> =>
+  Object.fromEntries(
+    media.filter(item => item.alt?.trim()).map(item => [item.url, item.alt!.trim()])
+  );
+
+/**
+ * The `media_alt_text` column for media encoded with `encodeMediaUrls`.
+ */
+export const encodeMediaAltText = (
+  imageUrls: string[] = [],
+  videoUrls: string[] = [],
+  altText: Record<string, string> = {}
+): string[] => [...imageUrls, ...videoUrls].map(url => altText[url]?.trim() || '');
+
+type PlaceColumns = Pick<TweetWithProfile, 'place_id' | 'place_city_id' | 'place_lat' | 'place_lon'>;
+
+/**
+ * The place a tweet or draft row was tagged with, if any.
+ */
+export const parseTweetPlace = (row: PlaceColumns): TweetPlace | undefined =>
+  row.place_id && row.place_city_id && row.place_lat != null && row.place_lon != null
+    ? { id: row.place_id, cityId: row.place_city_id, lat: row.place_lat, lon: row.place_lon }
+    : undefined;
+
+/**
+ * The place columns for a gazetteer entry, or all NULL to clear the tag.
+ */
+export const encodeTweetPlace = (place?: Place | TweetPlace | null): Required<PlaceColumns> => ({
+  place_id: place?.id ?? null,
+  place_city_id: place?.cityId ?? null,
+  place_lat: place?.lat ?? null,
+  place_lon: place?.lon ?? null,
+});
+
+/**
+ * Hashtags (Arabic included) and @mentions in a post, without their `#`/`@` prefixes.
+ */
+export const extractContentTags = (content: string): { hashtags: string[]; mentions: string[] } => ({
+  hashtags: content.match(/#[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g)?.map(tag => tag.slice(1)) || [],
+  mentions: content.match(/@[\w\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]+/g)?.map(mention => mention.slice(1)) || [],
+});
+
+/**
+ * Ids of the users picked from mention suggestions that are still @mentioned in the text.
+ * `picked` maps each picked username to its user id.
+ */
+export const resolveMentionIds = (content: string, picked: Record<string, string>): string[] => {
+  const ids = extractContentTags(content).mentions
+    .map(username => picked[username])
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+};
+
+/**
+ * Flatten a tweet's images, videos and mixed media into a single renderable list.
+ * Entries that aren't http(s) URLs are skipped.
+ */
+export const getTweetMedia = (tweet: Pick<Tweet, 'images' | 'videos' | 'media' | 'mediaAltText'>): MediaItem[] => {
+  const media: MediaItem[] = [];
+
+  const push = (rawUrl: string, fallbackType: 'image' | 'video') => {
+    const url = stripMediaPrefix(rawUrl);
+    if (!/^https?:\/\//.test(url)) return;
+    const alt = tweet.mediaAltText?.[url];
+    media.push({ url, type: isVideoUrl(url) ? 'video' : fallbackType, ...(alt ? { alt } : {}) });
+  };
+
+  tweet.images?.forEach(url => push(url, url.startsWith('video:') ? 'video' : 'image'));
+  tweet.videos?.forEach(url => push(url, 'video'));
+  tweet.media?.forEach(item => {
+    if (typeof item === 'string') {
+      push(item, item.startsWith('video:') ? 'video' : 'image');
+    } else {
+      push(item.url, item.type);
+    }
+  });
+
+  return media;
+};
+
+/**
+ * Supabase returns embedded relations as an array when it can't prove the
+ * relationship is one-to-one, so normalise to a single row.
+ */
+const single = <T,>(value: T | T[] | null | undefined): T | undefined =>
+  Array.isArray(value) ? value[0] : value ?? undefined;
+
+export const formatProfile = (profile: TweetWithProfile['profiles']): User => ({
+  id: profile.id,
+  username: profile.username,
+  displayName: profile.display_name || profile.username,
+  avatar: profile.avatar_url || '',
+  bio: profile.bio || '',
+  verified: profile.verified || false,
+  followers: profile.followers_count || 0,
+  following: profile.following_count || 0,
+  country: profile.country || '',
+  joinedDate: new Date(profile.created_at),
+});
+
+/**
+ * Map an embedded poll row to a `Poll`, options in display order.
+ */
+export const formatPoll = (row: PollData): Poll => ({
+  id: row.id,
+  endsAt: new Date(row.ends_at),
+  options: [...(row.poll_options || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(option => ({ id: option.id, label: option.label, votes: option.votes_count || 0 })),
+  viewerVote: row.poll_votes?.[0]?.option_id,
+});
+
+const formatTweetRow = (row: TweetWithProfile, interactions: TweetInteractions): Tweet => {
+  const profile = single(row.profiles)!;
+  const quoted = single(row.quoted_tweet);
+  const answer = single(row.accepted_answer);
+  const poll = single(row.poll);
+  const { images, videos } = parseMediaUrls(row.image_urls);
+
+  return {
+    id: row.id,
+    content: row.content,
+    author: formatProfile(profile),
+    createdAt: new Date(row.created_at),
+    likes: row.likes_count || 0,
+    retweets: row.retweets_count || 0,
+    replies: row.replies_count || 0,
+    quotes: row.quotes_count || 0,
+    views: row.views_count || 0,
+    images,
+    videos,
+    mediaAltText: parseMediaAltText(row.image_urls, row.media_alt_text),
+    sensitiveMedia: row.sensitive_media || false,
+    place: parseTweetPlace(row),
+    itinerary: parseItinerary(row.itinerary),
+    review: parseReview(row.review),
+    flightDeal: parseFlightDeal(row.flight_deal),
+    listing: parseListing(row.listing),
+    isLiked: interactions.likes.has(row.id) || !!row.viewer_state?.liked,
+    isRetweeted: interactions.retweets.has(row.id) || !!row.viewer_state?.retweeted,
+    isBookmarked: interactions.bookmarks.has(row.id) || !!row.viewer_state?.bookmarked,
+    replyTo: row.reply_to ?? undefined,
+    hashtags: row.hashtags || [],
+    mentions: row.mentions || [],
+    tags: row.tags || [],
+    pinnedToHome: row.pinned_to_home || false,
+    pinnedToProfile: row.pinned_to_profile || false,
+    pinnedAt: row.pinned_at ? new Date(row.pinned_at) : undefined,
+    quotedTweetId: row.quoted_tweet_id ?? undefined,
+    // Embeds stop at one level, so a quoted quote shows without its own card
+    quotedTweet: quoted ? formatTweetRow({ ...quoted, quoted_tweet: null }, interactions) : undefined,
+    isQuestion: row.is_question || false,
+    acceptedAnswerId: row.accepted_answer_id ?? undefined,
+    acceptedAnswer: answer ? formatTweetRow({ ...answer, quoted_tweet: null, accepted_answer: null }, interactions) : undefined,
+    editCount: row.edit_count || 0,
+    editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+    threadRootId: row.thread_root_id ?? undefined,
+    threadPosition: row.thread_position ?? undefined,
+    poll: poll ? formatPoll(poll) : undefined,
+  };
+};
+
+/**
+ * Map a tweet row to a `Tweet`.
+ * Retweets are unwrapped to the original tweet with `retweetedBy`/`retweetedAt` set.
+ */
+export const formatTweet = (row: TweetWithProfile, interactions: TweetInteractions = emptyInteractions()): Tweet => {
+  const original = single(row.original_tweet);
+
+  if (row.is_retweet && original) {
+    return {
+      ...formatTweetRow(original, interactions),
+      retweetedBy: formatProfile(single(row.profiles)!),
+      retweetedAt: new Date(row.created_at),
+      isRetweet: true,
+    };
+  }
+
+  return formatTweetRow(row, interactions);
+};
+
+/**
+ * All ids a viewer can interact with for these rows, including retweeted and quoted originals.
+ */
+export const collectTweetIds = (rows: TweetWithProfile[]): string[] => {
+  const ids = new Set<string>();
+  rows.forEach(row => {
+    ids.add(row.id);
+    if (row.original_tweet_id) ids.add(row.original_tweet_id);
+    if (row.quoted_tweet_id) ids.add(row.quoted_tweet_id);
+    if (row.accepted_answer_id) ids.add(row.accepted_answer_id);
+    const original = single(row.original_tweet);
+    if (original?.quoted_tweet_id) ids.add(original.quoted_tweet_id);
+    if (original?.accepted_answer_id) ids.add(original.accepted_answer_id);
+  });
+  return Array.from(ids);
+};
+
+/**
+ * Look up which of the given tweets the viewer has liked, retweeted and bookmarked,
+ * in one `get_viewer_state` round trip. The RPC reads the viewer from the session;
+ * `userId` only lets callers that already know it skip the session check.
+ */
+export const fetchInteractions = async (tweetIds: string[], userId?: string): Promise<TweetInteractions> => {
+  try {
+    if (tweetIds.length === 0) return emptyInteractions();
+
+    if (!userId) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return emptyInteractions();
+    }
+
+    const { data, error } = await supabase.rpc('get_viewer_state', { tweet_ids: tweetIds });
+    if (error) throw error;
+
+    const interactions = emptyInteractions();
+    ((data || []) as (ViewerState & { tweet_id: string })[]).forEach(state => {
+      if (state.liked) interactions.likes.add(state.tweet_id);
+      if (state.retweeted) interactions.retweets.add(state.tweet_id);
+      if (state.bookmarked) interactions.bookmarks.add(state.tweet_id);
+    });
+    return interactions;
+  } catch (error) {
+    console.error('Error fetching user interactions:', error);
+    return emptyInteractions();
+  }
+};
+
+/**
+ * Collect the inline `viewer_state` flags returned by the feed RPC, including retweeted and quoted originals.
+ */
+export const interactionsFromRows = (rows: TweetWithProfile[]): TweetInteractions => {
+  const interactions = emptyInteractions();
+
+  const collect = (row: TweetWithProfile | undefined) => {
+    if (!row?.viewer_state) return;
+    if (row.viewer_state.liked) interactions.likes.add(row.id);
+    if (row.viewer_state.retweeted) interactions.retweets.add(row.id);
+    if (row.viewer_state.bookmarked) interactions.bookmarks.add(row.id);
+  };
+
+  rows.forEach(row => {
+    const original = single(row.original_tweet);
+    collect(row);
+    collect(single(row.quoted_tweet));
+    collect(single(row.accepted_answer));
+    collect(original);
+    collect(single(original?.quoted_tweet));
+    collect(single(original?.accepted_answer));
+  });
+
+  return interactions;
+};
+
+/**
+ * Overlay interaction flags onto already formatted tweets.
+ * When `tweetIds` is given, only those tweets are touched so earlier pages keep their flags.
+ */
+export const applyInteractions = (tweets: Tweet[], interactions: TweetInteractions, tweetIds?: string[]): Tweet[] => {
+  const scope = tweetIds ? new Set(tweetIds) : null;
+
+  return tweets.map(tweet => {
+    if (scope && !scope.has(tweet.id)) return tweet;
+    return {
+      ...tweet,
+      isLiked: interactions.likes.has(tweet.id),
+      isRetweeted: interactions.retweets.has(tweet.id),
+      isBookmarked: interactions.bookmarks.has(tweet.id),
+    };
+  });
+};
+
+/**
+ * Format rows and hydrate them with the viewer's interactions in one step.
+ */
+export const hydrateTweets = async (rows: TweetWithProfile[], userId?: string): Promise<Tweet[]> => {
+  const interactions = await fetchInteractions(collectTweetIds(rows), userId);
+  return rows.map(row => formatTweet(row, interactions));
+};
+
+/**
+ * Base query for tweets with author and retweeted original embedded.
+ */
+export const selectTweets = (columns: string = TWEET_SELECT) =>
+  supabase.from('tweets').select(columns);
+
+/**
+ * Fetch a single tweet by id, hydrated for the current viewer.
+ */
+export const fetchTweetById = async (tweetId: string, userId?: string): Promise<Tweet> => {
+  const { data, error } = await selectTweets().eq('id', tweetId).single();
+  if (error) throw error;
+
+  const [tweet] = await hydrateTweets([data as unknown as TweetWithProfile], userId);
+  return tweet;
+};
+
+// Authors can edit a post for an hour after publishing; `edit_tweet` enforces the same window
+export const TWEET_EDIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Whether `userId` may still edit this tweet. The server has the final say.
+ */
+export const canEditTweet = (tweet: Pick<Tweet, 'author' | 'createdAt'>, userId?: string, now: number = Date.now()): boolean =>
+  !!userId && tweet.author.id === userId && now - tweet.createdAt.getTime() < TWEET_EDIT_WINDOW_MS;
+
+export interface TweetEdit {
+  content: string;
+  imageUrls: string[];
+  videoUrls: string[];
+  mediaAltText: Record<string, string>; // by media URL
+  tags: string[];
+  mentionedUserIds: string[]; // users picked from @ suggestions while editing
+}
+
+/**
+ * Replace a tweet's content, media and tags through `edit_tweet`, which archives the
+ * previous version as a revision. Hashtags and mentions are recomputed from the new content;
+ * the server keeps the mentioned users' ids that the new content still @mentions.
+ */
+export const editTweet = async (tweetId: string, edit: TweetEdit): Promise<TweetWithProfile> => {
+  const { hashtags, mentions } = extractContentTags(edit.content);
+
+  const { data, error } = await supabase.rpc('edit_tweet', {
+    p_tweet_id: tweetId,
+    p_content: edit.content,
+    p_image_urls: encodeMediaUrls(edit.imageUrls, edit.videoUrls),
+    p_media_alt_text: encodeMediaAltText(edit.imageUrls, edit.videoUrls, edit.mediaAltText),
+    p_hashtags: hashtags,
+    p_mentions: mentions,
+    p_tags: edit.tags,
+    p_mentioned_user_ids: edit.mentionedUserIds,
+  });
+
+  if (error) throw error;
+  return data as TweetWithProfile;
+};
+
+export type TweetEditFields = Pick<
+  Tweet,
+  'content' | 'images' | 'videos' | 'mediaAltText' | 'hashtags' | 'mentions' | 'tags' | 'editCount' | 'editedAt'
+>;
+
+/**
+ * The fields an edit can change, read from a tweet row (an `edit_tweet` result or a realtime update).
+ */
+export const editFieldsFromRow = (
+  row: Pick<
+    TweetWithProfile,
+    'content' | 'image_urls' | 'media_alt_text' | 'hashtags' | 'mentions' | 'tags' | 'edit_count' | 'edited_at'
+  >
+): TweetEditFields => {
+  const { images, videos } = parseMediaUrls(row.image_urls);
+  return {
+    content: row.content,
+    images,
+    videos,
+    mediaAltText: parseMediaAltText(row.image_urls, row.media_alt_text),
+    hashtags: row.hashtags || [],
+    mentions: row.mentions || [],
+    tags: row.tags || [],
+    editCount: row.edit_count || 0,
+    editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+  };
+};
+
+/**
+ * Earlier versions of an edited tweet, newest first. The current version is the tweet itself.
+ */
+export const fetchTweetRevisions = async (tweetId: string): Promise<TweetRevision[]> => {
+  const { data, error } = await supabase
+    .from('tweet_revisions')
+    .select('id, tweet_id, revision, content, image_urls, media_alt_text, hashtags, mentions, tags, created_at, replaced_at')
+    .eq('tweet_id', tweetId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(row => {
+    const { images, videos } = parseMediaUrls(row.image_urls);
+    return {
+      id: row.id,
+      tweetId: row.tweet_id,
+      revision: row.revision,
+      content: row.content,
+      images,
+      videos,
+      mediaAltText: parseMediaAltText(row.image_urls, row.media_alt_text),
+      hashtags: row.hashtags || [],
+      mentions: row.mentions || [],
+      tags: row.tags || [],
+      createdAt: new Date(row.created_at),
+      replacedAt: new Date(row.replaced_at),
+    };
+  });
+};
+
+// `create_thread` enforces the same bounds
+export const MIN_THREAD_SEGMENTS = 2;
+export const MAX_THREAD_SEGMENTS = 25;
+
+export interface ThreadSegment {
+  content: string;
+  imageUrls: string[];
+  videoUrls: string[];
+  mentionedUserIds?: string[];
+  mediaAltText?: Record<string, string>; // by media URL
+  sensitiveMedia?: boolean;
+  place?: TweetPlace;
+}
+
+/**
+ * Publish a thread through `create_thread`: the first segment as a post and each following
+ * one as a reply to the one before, all in one transaction. `threadId` becomes the id of the
+ * first post, so retrying with the same id returns the existing thread instead of a copy.
+ */
+export const createThread = async (
+  threadId: string,
+  segments: ThreadSegment[],
+  tags: string[],
+  quotedTweetId?: string
+): Promise<TweetWithProfile[]> => {
+  const { data, error } = await supabase.rpc('create_thread', {
+    p_thread_id: threadId,
+    p_segments: segments.map(segment => ({
+      content: segment.content,
+      image_urls: encodeMediaUrls(segment.imageUrls, segment.videoUrls),
+      media_alt_text: encodeMediaAltText(segment.imageUrls, segment.videoUrls, segment.mediaAltText),
+      sensitive_media: segment.sensitiveMedia ?? false,
+      ...encodeTweetPlace(segment.place),
+      ...extractContentTags(segment.content),
+      mentioned_user_ids: segment.mentionedUserIds ?? [],
+    })),
+    p_tags: tags,
+    p_quoted_tweet_id: quotedTweetId ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as TweetWithProfile[];
+};
+
+/**
+ * Whether this post opens a thread, for the "Show this thread" link in feeds.
+ */
+export const isThreadStart = (tweet: Pick<Tweet, 'id' | 'threadRootId'>): boolean =>
+  !!tweet.threadRootId && tweet.threadRootId === tweet.id;
+
+/**
+ * Every post of a thread in order, hydrated for the current viewer.
+ */
+export const fetchThread = async (threadRootId: string, userId?: string): Promise<Tweet[]> => {
+  const { data, error } = await selectTweets()
+    .eq('thread_root_id', threadRootId)
+    .order('thread_position', { ascending: true });
+
+  if (error) throw error;
+  return hydrateTweets((data || []) as unknown as TweetWithProfile[], userId);
+};
+
+// `create_poll` enforces the same limits
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_OPTION_MAX_LENGTH = 25;
+export const POLL_DURATION_MINUTES = [60, 6 * 60, 24 * 60, 3 * 24 * 60, 7 * 24 * 60];
+export const DEFAULT_POLL_DURATION_MINUTES = 24 * 60;
+
+export interface PollDraft {
+  options: string[];
+  durationMinutes: number;
+}
+
+export const isPollClosed = (poll: Pick<Poll, 'endsAt'>, now: number = Date.now()): boolean =>
+  poll.endsAt.getTime() <= now;
+
+export const getPollTotalVotes = (poll: Pick<Poll, 'options'>): number =>
+  poll.options.reduce((total, option) => total + option.votes, 0);
+
+/**
+ * Attach a poll to the caller's own tweet through `create_poll`. Safe to retry:
+ * a tweet that already has a poll gets it back unchanged.
+ */
+export const createPoll = async (tweetId: string, draft: PollDraft): Promise<PollData> => {
+  const { data, error } = await supabase.rpc('create_poll', {
+    p_tweet_id: tweetId,
+    p_options: draft.options.map(option => option.trim()),
+    p_duration_minutes: draft.durationMinutes,
+  });
+
+  if (error) throw error;
+  return data as PollData;
+};
+
+/**
+ * Cast the viewer's vote. The database allows one vote per poll and rejects closed polls.
+ */
+export const votePoll = async (pollId: string, optionId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('poll_votes')
+    .insert({ poll_id: pollId, option_id: optionId, user_id: userId });
+
+  if (error) throw error;
+};
+
+/**
+ * Accept a reply as the answer to a question, or clear it with null, through
+ * `set_accepted_answer`. Only the question's author or a moderator may.
+ */
+export const setAcceptedAnswer = async (questionId: string, answerId: string | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_accepted_answer', {
+    p_question_id: questionId,
+    p_answer_id: answerId,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Position in a newest-first list: the `(created_at, id)` of the last row loaded.
+ * Keyset pages stay stable when new rows are inserted between requests, unlike offsets.
+ */
+export interface TweetCursor {
+  createdAt: string;
+  id: string;
+  // Ranked feeds page by score instead, with the clock pinned to `rankedAt` for the session
+  rank?: { score: number; rankedAt: string };
+}
+
+export interface TweetPage<T> {
+  rows: T[];
+  nextCursor: TweetCursor | null;
+  hasMore: boolean;
+}
+
+// Structural shape shared by the tweets and likes query builders
+interface KeysetQuery<Q> {
+  or(filters: string): Q;
+  order(column: string, options?: { ascending?: boolean }): Q;
+  limit(count: number): Q;
+}
+
+export const getCursor = (row: { created_at: string; id: string }): TweetCursor => ({
+  createdAt: row.created_at,
+  id: row.id,
+});
+
+/**
+ * Serialise a cursor so a feed position can be saved (sessionStorage, URL) and resumed later.
+ */
+export const encodeCursor = (cursor: TweetCursor): string =>
+  cursor.rank
+    ? `${cursor.createdAt}|${cursor.id}|${cursor.rank.score}|${cursor.rank.rankedAt}`
+    : `${cursor.createdAt}|${cursor.id}`;
+
+export const decodeCursor = (value: string | null | undefined): TweetCursor | null => {
+  if (!value) return null;
+
+  const [createdAt, id, score, rankedAt, ...rest] = value.split('|');
+  if (!id || rest.length > 0 || Number.isNaN(Date.parse(createdAt))) return null;
+
+  if (score === undefined) return { createdAt, id };
+
+  const rankScore = Number(score);
+  if (!Number.isFinite(rankScore) || Number.isNaN(Date.parse(rankedAt ?? ''))) return null;
+
+  return { createdAt, id, rank: { score: rankScore, rankedAt } };
+};
+
+/**
+ * Order a query newest-first by `(created_at, id)` and start it strictly after `cursor`.
+ * Fetches one extra row so `toPage` can tell whether another page exists.
+ */
+export const paginate = <Q extends KeysetQuery<Q>>(query: Q, cursor: TweetCursor | null, pageSize: number): Q => {
+  let paged = query;
+
+  if (cursor) {
+    // Values are quoted because timestamps contain PostgREST's reserved `.` and `:`
+    paged = paged.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt."${cursor.id}")`
+    );
+  }
+
+  return paged
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1);
+};
+
+/**
+ * Trim the look-ahead row fetched by `paginate` and compute the next cursor.
+ */
+export const toPage = <T extends { created_at: string; id: string }>(rows: T[] | null, pageSize: number): TweetPage<T> => {
+  const all = rows || [];
+  const page = all.slice(0, pageSize);
+
+  return {
+    rows: page,
+    nextCursor: page.length > 0 ? getCursor(page[page.length - 1]) : null,
+    hasMore: all.length > pageSize,
+  };
+};
+
+/**
+ * One page of the posts quoting a tweet, newest first, hydrated for the current viewer.
+ */
+export const fetchQuotesPage = async (
+  tweetId: string,
+  cursor: TweetCursor | null,
+  pageSize: number,
+  userId?: string
+): Promise<TweetPage<Tweet>> => {
+  const { data, error } = await paginate(selectTweets().eq('quoted_tweet_id', tweetId), cursor, pageSize);
+  if (error) throw error;
+
+  const page = toPage(data as unknown as TweetWithProfile[] | null, pageSize);
+  return { ...page, rows: await hydrateTweets(page.rows, userId) };
+};
+
+// Typed as a plain string so the client doesn't try to infer the nested embed shape
+const BOOKMARKED_TWEETS_SELECT: string = `id, created_at, tweets (${TWEET_SELECT})`;
+
+/**
+ * One page of a user's bookmarked posts, most recently bookmarked first.
+ * The cursor is the bookmark's, not the post's.
+ */
+export const fetchBookmarksPage = async (
+  userId: string,
+  cursor: TweetCursor | null,
+  pageSize: number
+): Promise<TweetPage<Tweet>> => {
+  const { data, error } = await paginate(
+    supabase.from('bookmarks').select(BOOKMARKED_TWEETS_SELECT).eq('user_id', userId),
+    cursor,
+    pageSize
+  );
+  if (error) throw error;
+
+  const page = toPage(
+    data as unknown as { id: string; created_at: string; tweets: TweetWithProfile | TweetWithProfile[] | null }[] | null,
+    pageSize
+  );
+  const rows = page.rows
+    .map(bookmark => single(bookmark.tweets))
+    .filter((row): row is TweetWithProfile => !!row);
+
+  return { ...page, rows: await hydrateTweets(rows, userId) };
+};
+
+/**
+ * One page of the posts tagged with a place, newest first. A city's page also
+ * lists the posts tagged with landmarks, hotels and airports in it.
+ */
+export const fetchPlaceTweetsPage = async (
+  place: Pick<Place, 'id' | 'type'>,
+  cursor: TweetCursor | null,
+  pageSize: number,
+  userId?: string
+): Promise<TweetPage<Tweet>> => {
+  const column = place.type === 'city' ? 'place_city_id' : 'place_id';
+  const { data, error } = await paginate(selectTweets().eq(column, place.id), cursor, pageSize);
+  if (error) throw error;
+
+  const page = toPage(data as unknown as TweetWithProfile[] | null, pageSize);
+  return { ...page, rows: await hydrateTweets(page.rows, userId) };
+};
+
+/**
+ * One page of the posts sharing a deal from `origin` to `destination` (IATA
+ * codes), newest first, expired deals included.
+ */
+export const fetchRouteDealsPage = async (
+  origin: string,
+  destination: string,
+  cursor: TweetCursor | null,
+  pageSize: number,
+  userId?: string
+): Promise<TweetPage<Tweet>> => {
+  const query = selectTweets()
+    .eq('flight_deal->>origin', origin)
+    .eq('flight_deal->>destination', destination);
+  const { data, error } = await paginate(query, cursor, pageSize);
+  if (error) throw error;
+
+  const page = toPage(data as unknown as TweetWithProfile[] | null, pageSize);
+  return { ...page, rows: await hydrateTweets(page.rows, userId) };
+};
+
+/**
+ * How the For You feed is ordered: `chrono` is newest first, the others are
+ * scoring variants of `get_ranked_feed` that can be compared side by side.
+ */
+export type RankingVersion = 'chrono' | 'v1' | 'v2';
+
+export const RANKING_VERSIONS: RankingVersion[] = ['chrono', 'v1', 'v2'];
+
+const isRankingVersion = (value: unknown): value is RankingVersion =>
+  RANKING_VERSIONS.includes(value as RankingVersion);
+
+// Deployments pick the variant with VITE_FEED_RANKING_VERSION; unknown values fall back to v1
+export const DEFAULT_RANKING_VERSION: RankingVersion = isRankingVersion(import.meta.env.VITE_FEED_RANKING_VERSION)
+  ? import.meta.env.VITE_FEED_RANKING_VERSION
+  : 'v1';
+
+interface FeedPageOptions {
+  followingOnly?: boolean;
+  cursor?: TweetCursor | null;
+  pageSize: number;
+  // For You only; the following feed is always chronological
+  rankingVersion?: RankingVersion;
+}
+
+/**
+ * One page of the home timeline: keyset pages from `get_feed_page`, or scored pages
+ * from `get_ranked_feed` for a ranked For You feed.
+ * Rows carry the viewer's flags inline, so `formatTweet` needs no interaction lookup.
+ */
+export const fetchFeedPage = async ({
+  followingOnly = false,
+  cursor = null,
+  pageSize,
+  rankingVersion = 'chrono',
+}: FeedPageOptions): Promise<TweetPage<TweetWithProfile>> => {
+  if (!followingOnly && rankingVersion !== 'chrono') {
+    return fetchRankedFeedPage(rankingVersion, cursor, pageSize);
+  }
+
+  const { data, error } = await supabase.rpc('get_feed_page', {
+    following_only: followingOnly,
+    cursor_created_at: cursor?.createdAt ?? null,
+    cursor_id: cursor?.id ?? null,
+    page_size: pageSize + 1,
+  });
+
+  if (error) throw error;
+
+  return toPage(data as TweetWithProfile[] | null, pageSize);
+};
+
+interface UnansweredQuestionsPageOptions {
+  countryCode?: string | null; // only questions tagged with this country
+  followingOnly?: boolean;
+  cursor?: TweetCursor | null;
+  pageSize: number;
+}
+
+/**
+ * One page of the questions without an accepted answer, newest first, from
+ * `get_unanswered_questions`. Rows carry the viewer's flags inline, like `fetchFeedPage`.
+ */
+export const fetchUnansweredQuestionsPage = async ({
+  countryCode = null,
+  followingOnly = false,
+  cursor = null,
+  pageSize,
+}: UnansweredQuestionsPageOptions): Promise<TweetPage<TweetWithProfile>> => {
+  const { data, error } = await supabase.rpc('get_unanswered_questions', {
+    country_code: countryCode,
+    following_only: followingOnly,
+    cursor_created_at: cursor?.createdAt ?? null,
+    cursor_id: cursor?.id ?? null,
+    page_size: pageSize + 1,
+  });
+
+  if (error) throw error;
+
+  return toPage(data as TweetWithProfile[] | null, pageSize);
+};
+
+interface FilteredFeedPageOptions {
+  countryCode?: string | null; // only posts tagged with this country
+  category?: string | null; // only posts tagged with this category
+  followingOnly?: boolean;
+  cityId?: string | null; // only posts tagged with a place in this gazetteer city
+  activeDealsOnly?: boolean; // only posts with a flight deal that hasn't expired
+  listingFilter?: ListingFilter | null; // only listings that fit its price and availability
+  cursor?: TweetCursor | null;
+  pageSize: number;
+}
+
+/**
+ * One page of original posts matching the feed's filters, newest first, from
+ * `get_filtered_feed`. Rows carry the viewer's flags inline, like `fetchFeedPage`.
+ */
+export const fetchFilteredFeedPage = async ({
+  countryCode = null,
+  category = null,
+  followingOnly = false,
+  cityId = null,
+  activeDealsOnly = false,
+  listingFilter = null,
+  cursor = null,
+  pageSize,
+}: FilteredFeedPageOptions): Promise<TweetPage<TweetWithProfile>> => {
+  const listing = listingFilter && isListingFilterActive(listingFilter) ? listingFilter : null;
+
+  const { data, error } = await supabase.rpc('get_filtered_feed', {
+    country_code: countryCode,
+    category,
+    following_only: followingOnly,
+    city_id: cityId,
+    active_deals_only: activeDealsOnly,
+    listing_currency: listing?.currency ?? null,
+    listing_min_price: listing?.minPrice ? Number(listing.minPrice) : null,
+    listing_max_price: listing?.maxPrice ? Number(listing.maxPrice) : null,
+    listing_available_from: listing?.availableFrom || null,
+    listing_available_to: listing?.availableTo || null,
+    cursor_created_at: cursor?.createdAt ?? null,
+    cursor_id: cursor?.id ?? null,
+    page_size: pageSize + 1,
+  });
+
+  if (error) throw error;
+
+  return toPage(data as TweetWithProfile[] | null, pageSize);
+};
+
+const fetchRankedFeedPage = async (
+  rankingVersion: Exclude<RankingVersion, 'chrono'>,
+  cursor: TweetCursor | null,
+  pageSize: number
+): Promise<TweetPage<TweetWithProfile>> => {
+  // A chronological cursor (e.g. saved before ranking was enabled) restarts from the top
+  const rank = cursor?.rank;
+
+  const { data, error } = await supabase.rpc('get_ranked_feed', {
+    ranking_version: rankingVersion,
+    ranked_at: rank?.rankedAt ?? null,
+    cursor_score: rank?.score ?? null,
+    cursor_id: rank ? cursor!.id : null,
+    page_size: pageSize + 1,
+  });
+
+  if (error) throw error;
+
+  const page = toPage(data as TweetWithProfile[] | null, pageSize);
+  const last = page.rows[page.rows.length - 1];
+
+  return {
+    ...page,
+    nextCursor: last && last.rank_score !== undefined && last.ranked_at
+      ? { ...getCursor(last), rank: { score: last.rank_score, rankedAt: last.ranked_at } }
+      : page.nextCursor,
+  };
+};
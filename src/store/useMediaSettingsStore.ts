@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface MediaSettings {
+  showSensitiveMedia: boolean; // skip the warning on media marked as sensitive
+}
+
+interface MediaSettingsState extends MediaSettings {
+  userId: string | null; // whose settings these are; other viewers get the defaults
+  setSettings: (userId: string, settings: MediaSettings) => void;
+}
+
+// Kept in localStorage so sensitive media doesn't flash blurred before the profile loads
+export const useMediaSettingsStore = create<MediaSettingsState>()(
+  persist(
+    (set) => ({
+      userId: null,
+      showSensitiveMedia: false,
+      setSettings: (userId, settings) => set({ userId, ...settings }),
+    }),
+    {
+      name: 'media-settings-storage',
+    }
+  )
+);
@@ -0,0 +1,181 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { FlightDeal, Itinerary, Listing, Review, TweetPlace } from '../types';
+
+export type OutboxAction =
+  | { type: 'like' | 'unlike' | 'bookmark' | 'unbookmark'; tweetId: string }
+  | { type: 'follow' | 'unfollow'; targetUserId: string }
+  | {
+      type: 'createTweet';
+      content: string;
+      imageUrls: string[];
+      videoUrls: string[];
+      tags: string[];
+      quotedTweetId?: string;
+      mentionedUserIds?: string[];
+      mediaAltText?: Record<string, string>;
+      sensitiveMedia?: boolean;
+      place?: TweetPlace;
+      itinerary?: Itinerary;
+      review?: Review;
+      flightDeal?: FlightDeal;
+      listing?: Listing;
+      isQuestion?: boolean;
+      poll?: { options: string[]; durationMinutes: number };
+    }
+  | {
+      type: 'createThread';
+      segments: {
+        content: string;
+        imageUrls: string[];
+        videoUrls: string[];
+        mentionedUserIds?: string[];
+        mediaAltText?: Record<string, string>;
+        sensitiveMedia?: boolean;
+        place?: TweetPlace;
+      }[];
+      tags: string[];
+      quotedTweetId?: string;
+    };
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  userId: string; // the viewer who queued it; entries only replay for that session
+  action: OutboxAction;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+}
+
+export interface OutboxEnqueueResult {
+  entryId: string | null; // the entry that will carry the action; null if it cancelled a queued opposite
+  cancelledId?: string; // the queued opposite it cancelled, whose callers are still waiting
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+
+  enqueue: (userId: string, action: OutboxAction) => OutboxEnqueueResult;
+  setStatus: (entryId: string, status: OutboxStatus, error?: string) => void;
+  remove: (entryId: string) => void;
+  resetSending: () => void;
+  clear: () => void;
+}
+
+const OPPOSITES: Partial<Record<OutboxAction['type'], OutboxAction['type']>> = {
+  like: 'unlike',
+  unlike: 'like',
+  bookmark: 'unbookmark',
+  unbookmark: 'bookmark',
+  follow: 'unfollow',
+  unfollow: 'follow',
+};
+
+// Actions on the same target that supersede each other; posts are never merged
+export const outboxTarget = (action: OutboxAction): string | null => {
+  switch (action.type) {
+    case 'like':
+    case 'unlike':
+      return `like:${action.tweetId}`;
+    case 'bookmark':
+    case 'unbookmark':
+      return `bookmark:${action.tweetId}`;
+    case 'follow':
+    case 'unfollow':
+      return `follow:${action.targetUserId}`;
+    default:
+      return null;
+  }
+};
+
+// A UUID, so a queued post can use it as its tweet id and replays stay idempotent
+const createEntryId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const random = (Math.random() * 16) | 0;
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+      });
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      enqueue: (userId, action) => {
+        const target = outboxTarget(action);
+        // An entry already being sent can't be withdrawn, so only waiting or failed ones are merged
+        const queued = target
+          ? get().entries.find(entry =>
+              entry.userId === userId && entry.status !== 'sending' && outboxTarget(entry.action) === target
+            )
+          : undefined;
+
+        if (queued && queued.status === 'pending') {
+          if (queued.action.type === action.type) return { entryId: queued.id };
+
+          if (OPPOSITES[queued.action.type] === action.type) {
+            // like then unlike before either was sent: nothing needs to reach the server
+            set(state => ({ entries: state.entries.filter(entry => entry.id !== queued.id) }));
+            return { entryId: null, cancelledId: queued.id };
+          }
+        }
+
+        const entry: OutboxEntry = {
+          id: createEntryId(),
+          userId,
+          action,
+          status: 'pending',
+          attempts: 0,
+          createdAt: Date.now(),
+        };
+
+        set(state => ({
+          // A newer action on the same target replaces a failed one
+          entries: [...state.entries.filter(existing => existing.id !== queued?.id), entry],
+        }));
+        return { entryId: entry.id };
+      },
+
+      setStatus: (entryId, status, error) => {
+        set(state => ({
+          entries: state.entries.map(entry =>
+            entry.id === entryId
+              ? {
+                  ...entry,
+                  status,
+                  error: status === 'failed' ? error : undefined,
+                  attempts: status === 'sending' ? entry.attempts + 1 : entry.attempts,
+                }
+              : entry
+          ),
+        }));
+      },
+
+      remove: (entryId) => {
+        set(state => ({ entries: state.entries.filter(entry => entry.id !== entryId) }));
+      },
+
+      // A reload mid-request leaves entries marked as sending; they go back in the queue
+      resetSending: () => {
+        set(state => ({
+          entries: state.entries.map(entry =>
+            entry.status === 'sending' ? { ...entry, status: 'pending' } : entry
+          ),
+        }));
+      },
+
+      clear: () => set({ entries: [] }),
+    }),
+    {
+      name: 'outbox-storage',
+      partialize: (state) => ({ entries: state.entries }),
+      onRehydrateStorage: () => (state) => {
+        state?.resetSending();
+      },
+    }
+  )
+);
@@ -1,6 +1,14 @@
 import { create } from 'zustand';
 import { User, Tweet, Notification, Conversation } from '../types';
 
+// A tweet as stored in the entity map: retweet context belongs to the feed row, not the tweet
+export type TweetEntity = Omit<Tweet, 'retweetedBy' | 'retweetedAt' | 'isRetweet'>;
+
+export type TweetInteractionType = 'like' | 'retweet' | 'bookmark';
+
+const toEntity = ({ retweetedBy: _retweetedBy, retweetedAt: _retweetedAt, isRetweet: _isRetweet, ...entity }: Tweet): TweetEntity =>
+  entity;
+
 interface AppState {
   // UI state
   isComposing: boolean;
@@ -13,6 +21,12 @@ interface AppState {
   
   // Messages
   conversations: Conversation[];
+
+  // Normalized entities shared by every screen, keyed by id
+  tweetsById: Record<string, TweetEntity>;
+  usersById: Record<string, User>;
+  // Deleted tweets, so lists still holding a copy can drop it
+  removedTweetIds: Record<string, true>;
   
   // Actions
   setComposing: (isComposing: boolean) => void;
@@ -20,6 +34,12 @@ interface AppState {
   setShowAuthModal: (show: boolean) => void;
   addNotification: (notification: Omit<Notification, 'id'>) => void;
   markNotificationAsRead: (notificationId: string) => void;
+  upsertTweets: (tweets: Tweet[]) => void;
+  patchTweet: (tweetId: string, updates: Partial<TweetEntity>) => void;
+  removeTweet: (tweetId: string) => void;
+  patchUser: (userId: string, updates: Partial<User>) => void;
+  setInteraction: (tweetId: string, type: TweetInteractionType, active: boolean) => void;
+  resetEntities: () => void;
 }
 
 export const useStore = create<AppState>((set, get) => ({
@@ -29,6 +49,9 @@ export const useStore = create<AppState>((set, get) => ({
   notifications: [],
   unreadNotifications: 0,
   conversations: [],
+  tweetsById: {},
+  usersById: {},
+  removedTweetIds: {},
 
   setComposing: (isComposing) => set({ isComposing }),
   setSelectedTweet: (tweet) => set({ selectedTweet: tweet }),
@@ -57,4 +80,73 @@ export const useStore = create<AppState>((set, get) => ({
       unreadNotifications: Math.max(0, state.unreadNotifications - 1),
     }));
   },
+
+  // Store freshly fetched tweets and their authors; server data replaces what was there
+  upsertTweets: (tweets) => {
+    if (tweets.length === 0) return;
+
+    set((state) => {
+      const tweetsById = { ...state.tweetsById };
+      const usersById = { ...state.usersById };
+
+      tweets.forEach((tweet) => {
+        if (state.removedTweetIds[tweet.id]) return;
+        tweetsById[tweet.id] = toEntity(tweet);
+        usersById[tweet.author.id] = { ...usersById[tweet.author.id], ...tweet.author };
+        if (tweet.retweetedBy) {
+          usersById[tweet.retweetedBy.id] = { ...usersById[tweet.retweetedBy.id], ...tweet.retweetedBy };
+        }
+      });
+
+      return { tweetsById, usersById };
+    });
+  },
+
+  patchTweet: (tweetId, updates) => {
+    set((state) => {
+      const tweet = state.tweetsById[tweetId];
+      if (!tweet) return state;
+      return { tweetsById: { ...state.tweetsById, [tweetId]: { ...tweet, ...updates } } };
+    });
+  },
+
+  removeTweet: (tweetId) => {
+    set((state) => {
+      const { [tweetId]: _removed, ...tweetsById } = state.tweetsById;
+      return { tweetsById, removedTweetIds: { ...state.removedTweetIds, [tweetId]: true } };
+    });
+  },
+
+  patchUser: (userId, updates) => {
+    set((state) => {
+      const user = state.usersById[userId];
+      if (!user) return state;
+      return { usersById: { ...state.usersById, [userId]: { ...user, ...updates } } };
+    });
+  },
+
+  // Idempotent: counts only move when the flag actually changes, so repeated calls apply once
+  setInteraction: (tweetId, type, active) => {
+    set((state) => {
+      const tweet = state.tweetsById[tweetId];
+      if (!tweet) return state;
+
+      const updates: Partial<TweetEntity> = {};
+      if (type === 'like' && tweet.isLiked !== active) {
+        updates.isLiked = active;
+        updates.likes = Math.max(0, tweet.likes + (active ? 1 : -1));
+      } else if (type === 'retweet' && tweet.isRetweeted !== active) {
+        updates.isRetweeted = active;
+        updates.retweets = Math.max(0, tweet.retweets + (active ? 1 : -1));
+      } else if (type === 'bookmark' && tweet.isBookmarked !== active) {
+        updates.isBookmarked = active;
+      }
+
+      if (Object.keys(updates).length === 0) return state;
+      return { tweetsById: { ...state.tweetsById, [tweetId]: { ...tweet, ...updates } } };
+    });
+  },
+
+  // Entities carry the viewer's flags, so they go when the viewer signs out
+  resetEntities: () => set({ tweetsById: {}, usersById: {}, removedTweetIds: {} }),
 }));
\ No newline at end of file
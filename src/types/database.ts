@@ -17,6 +17,7 @@ export interface Database {
           created_at: string;
           updated_at: string;
           role: UserRole;
+          show_sensitive_media: boolean;
         };
         Insert: {
           id: string;
@@ -31,6 +32,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           role?: UserRole;
+          show_sensitive_media?: boolean;
         };
         Update: {
           id?: string;
@@ -45,6 +47,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           role?: UserRole;
+          show_sensitive_media?: boolean;
         };
       };
       tweets: {
@@ -54,14 +57,33 @@ export interface Database {
           author_id: string;
           reply_to: string | null;
           image_urls: string[];
+          media_alt_text: string[];
+          sensitive_media: boolean;
+          place_id: string | null;
+          place_city_id: string | null;
+          place_lat: number | null;
+          place_lon: number | null;
+          itinerary: unknown;
+          review: unknown;
+          flight_deal: unknown;
+          listing: unknown;
           video_urls?: string[];
           hashtags: string[];
           mentions: string[];
+          mentioned_user_ids: string[];
           tags: string[];
           likes_count: number;
           retweets_count: number;
           replies_count: number;
           views_count: number;
+          quotes_count: number;
+          quoted_tweet_id: string | null;
+          is_question: boolean;
+          accepted_answer_id: string | null;
+          edit_count: number;
+          edited_at: string | null;
+          thread_root_id: string | null;
+          thread_position: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -71,14 +93,33 @@ export interface Database {
           author_id: string;
           reply_to?: string | null;
           image_urls?: string[];
+          media_alt_text?: string[];
+          sensitive_media?: boolean;
+          place_id?: string | null;
+          place_city_id?: string | null;
+          place_lat?: number | null;
+          place_lon?: number | null;
+          itinerary?: unknown;
+          review?: unknown;
+          flight_deal?: unknown;
+          listing?: unknown;
           video_urls?: string[];
           hashtags?: string[];
           mentions?: string[];
+          mentioned_user_ids?: string[];
           tags?: string[];
           likes_count?: number;
           retweets_count?: number;
           replies_count?: number;
           views_count?: number;
+          quotes_count?: number;
+          quoted_tweet_id?: string | null;
+          is_question?: boolean;
+          accepted_answer_id?: string | null;
+          edit_count?: number;
+          edited_at?: string | null;
+          thread_root_id?: string | null;
+          thread_position?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -88,14 +129,33 @@ export interface Database {
           author_id?: string;
           reply_to?: string | null;
           image_urls?: string[];
+          media_alt_text?: string[];
+          sensitive_media?: boolean;
+          place_id?: string | null;
+          place_city_id?: string | null;
+          place_lat?: number | null;
+          place_lon?: number | null;
+          itinerary?: unknown;
+          review?: unknown;
+          flight_deal?: unknown;
+          listing?: unknown;
           video_urls?: string[];
           hashtags?: string[];
           mentions?: string[];
+          mentioned_user_ids?: string[];
           tags?: string[];
           likes_count?: number;
           retweets_count?: number;
           replies_count?: number;
           views_count?: number;
+          quotes_count?: number;
+          quoted_tweet_id?: string | null;
+          is_question?: boolean;
+          accepted_answer_id?: string | null;
+          edit_count?: number;
+          edited_at?: string | null;
+          thread_root_id?: string | null;
+          thread_position?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -180,6 +240,341 @@ export interface Database {
           created_at?: string;
         };
       };
+      tweet_revisions: {
+        Row: {
+          id: string;
+          tweet_id: string;
+          revision: number;
+          content: string;
+          image_urls: string[];
+          media_alt_text: string[];
+          hashtags: string[];
+          mentions: string[];
+          tags: string[];
+          created_at: string;
+          replaced_at: string;
+        };
+        Insert: {
+          id?: string;
+          tweet_id: string;
+          revision: number;
+          content: string;
+          image_urls?: string[];
+          media_alt_text?: string[];
+          hashtags?: string[];
+          mentions?: string[];
+          tags?: string[];
+          created_at: string;
+          replaced_at?: string;
+        };
+        Update: {
+          id?: string;
+          tweet_id?: string;
+          revision?: number;
+          content?: string;
+          image_urls?: string[];
+          media_alt_text?: string[];
+          hashtags?: string[];
+          mentions?: string[];
+          tags?: string[];
+          created_at?: string;
+          replaced_at?: string;
+        };
+      };
+      polls: {
+        Row: {
+          id: string;
+          tweet_id: string;
+          ends_at: string;
+          ended_notified_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tweet_id: string;
+          ends_at: string;
+          ended_notified_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tweet_id?: string;
+          ends_at?: string;
+          ended_notified_at?: string | null;
+          created_at?: string;
+        };
+      };
+      poll_options: {
+        Row: {
+          id: string;
+          poll_id: string;
+          position: number;
+          label: string;
+          votes_count: number;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          position: number;
+          label: string;
+          votes_count?: number;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          position?: number;
+          label?: string;
+          votes_count?: number;
+        };
+      };
+      poll_votes: {
+        Row: {
+          poll_id: string;
+          option_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          poll_id: string;
+          option_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          poll_id?: string;
+          option_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      post_drafts: {
+        Row: {
+          id: string;
+          author_id: string;
+          content: string;
+          image_urls: string[];
+          media_alt_text: string[];
+          sensitive_media: boolean;
+          place_id: string | null;
+          place_city_id: string | null;
+          place_lat: number | null;
+          place_lon: number | null;
+          itinerary: unknown;
+          review: unknown;
+          flight_deal: unknown;
+          listing: unknown;
+          hashtags: string[];
+          mentions: string[];
+          mentioned_user_ids: string[];
+          categories: string[];
+          countries: string[];
+          quoted_tweet_id: string | null;
+          is_question: boolean;
+          status: 'draft' | 'scheduled' | 'failed';
+          scheduled_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          author_id: string;
+          content?: string;
+          image_urls?: string[];
+          media_alt_text?: string[];
+          sensitive_media?: boolean;
+          place_id?: string | null;
+          place_city_id?: string | null;
+          place_lat?: number | null;
+          place_lon?: number | null;
+          itinerary?: unknown;
+          review?: unknown;
+          flight_deal?: unknown;
+          listing?: unknown;
+          hashtags?: string[];
+          mentions?: string[];
+          mentioned_user_ids?: string[];
+          categories?: string[];
+          countries?: string[];
+          quoted_tweet_id?: string | null;
+          is_question?: boolean;
+          status?: 'draft' | 'scheduled' | 'failed';
+          scheduled_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          author_id?: string;
+          content?: string;
+          image_urls?: string[];
+          media_alt_text?: string[];
+          sensitive_media?: boolean;
+          place_id?: string | null;
+          place_city_id?: string | null;
+          place_lat?: number | null;
+          place_lon?: number | null;
+          itinerary?: unknown;
+          review?: unknown;
+          flight_deal?: unknown;
+          listing?: unknown;
+          hashtags?: string[];
+          mentions?: string[];
+          mentioned_user_ids?: string[];
+          categories?: string[];
+          countries?: string[];
+          quoted_tweet_id?: string | null;
+          is_question?: boolean;
+          status?: 'draft' | 'scheduled' | 'failed';
+          scheduled_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      link_previews: {
+        Row: {
+          url: string;
+          resolved_url: string | null;
+          title: string | null;
+          description: string | null;
+          image_url: string | null;
+          site_name: string | null;
+          status: 'ok' | 'failed';
+          fetched_at: string;
+        };
+        Insert: {
+          url: string;
+          resolved_url?: string | null;
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          status?: 'ok' | 'failed';
+          fetched_at?: string;
+        };
+        Update: {
+          url?: string;
+          resolved_url?: string | null;
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          status?: 'ok' | 'failed';
+          fetched_at?: string;
+        };
+      };
+      trips: {
+        Row: {
+          id: string;
+          owner_id: string;
+          title: string;
+          start_date: string | null;
+          end_date: string | null;
+          countries: string[];
+          itinerary: unknown;
+          source_tweet_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          title: string;
+          start_date?: string | null;
+          end_date?: string | null;
+          countries?: string[];
+          itinerary?: unknown;
+          source_tweet_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          title?: string;
+          start_date?: string | null;
+          end_date?: string | null;
+          countries?: string[];
+          itinerary?: unknown;
+          source_tweet_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      trip_items: {
+        Row: {
+          id: string;
+          trip_id: string;
+          tweet_id: string;
+          position: number;
+          added_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          trip_id: string;
+          tweet_id: string;
+          position?: number;
+          added_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          trip_id?: string;
+          tweet_id?: string;
+          position?: number;
+          added_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      trip_item_notes: {
+        Row: {
+          item_id: string;
+          user_id: string;
+          note: string;
+          updated_at: string;
+        };
+        Insert: {
+          item_id: string;
+          user_id: string;
+          note?: string;
+          updated_at?: string;
+        };
+        Update: {
+          item_id?: string;
+          user_id?: string;
+          note?: string;
+          updated_at?: string;
+        };
+      };
+      trip_collaborators: {
+        Row: {
+          trip_id: string;
+          user_id: string;
+          role: 'viewer' | 'editor';
+          invited_by: string;
+          created_at: string;
+        };
+        Insert: {
+          trip_id: string;
+          user_id: string;
+          role?: 'viewer' | 'editor';
+          invited_by: string;
+          created_at?: string;
+        };
+        Update: {
+          trip_id?: string;
+          user_id?: string;
+          role?: 'viewer' | 'editor';
+          invited_by?: string;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -197,6 +592,106 @@ export interface Database {
         Args: {};
         Returns: UserRole;
       };
+      get_viewer_state: {
+        Args: { tweet_ids: string[] };
+        Returns: {
+          tweet_id: string;
+          liked: boolean;
+          retweeted: boolean;
+          bookmarked: boolean;
+        }[];
+      };
+      get_feed_page: {
+        Args: {
+          following_only?: boolean;
+          cursor_created_at?: string | null;
+          cursor_id?: string | null;
+          page_size?: number;
+        };
+        Returns: unknown[];
+      };
+      get_unanswered_questions: {
+        Args: {
+          country_code?: string | null;
+          following_only?: boolean;
+          cursor_created_at?: string | null;
+          cursor_id?: string | null;
+          page_size?: number;
+        };
+        Returns: unknown[];
+      };
+      get_filtered_feed: {
+        Args: {
+          country_code?: string | null;
+          category?: string | null;
+          following_only?: boolean;
+          city_id?: string | null;
+          active_deals_only?: boolean;
+          listing_currency?: string | null;
+          listing_min_price?: number | null;
+          listing_max_price?: number | null;
+          listing_available_from?: string | null;
+          listing_available_to?: string | null;
+          cursor_created_at?: string | null;
+          cursor_id?: string | null;
+          page_size?: number;
+        };
+        Returns: unknown[];
+      };
+      edit_tweet: {
+        Args: {
+          p_tweet_id: string;
+          p_content: string;
+          p_image_urls?: string[];
+          p_hashtags?: string[];
+          p_mentions?: string[];
+          p_tags?: string[];
+          p_media_alt_text?: string[] | null;
+          p_mentioned_user_ids?: string[] | null;
+        };
+        Returns: unknown;
+      };
+      create_thread: {
+        Args: {
+          p_thread_id: string;
+          p_segments: unknown;
+          p_tags?: string[];
+          p_quoted_tweet_id?: string | null;
+        };
+        Returns: unknown;
+      };
+      create_poll: {
+        Args: {
+          p_tweet_id: string;
+          p_options: string[];
+          p_duration_minutes: number;
+        };
+        Returns: unknown;
+      };
+      set_accepted_answer: {
+        Args: { p_question_id: string; p_answer_id?: string | null };
+        Returns: undefined;
+      };
+      trip_access: {
+        Args: { p_trip_id: string };
+        Returns: 'owner' | 'viewer' | 'editor' | null;
+      };
+      reorder_trip_items: {
+        Args: { p_trip_id: string; p_item_ids: string[] };
+        Returns: undefined;
+      };
+      get_place_review_stats: {
+        Args: { p_place_ids: string[] };
+        Returns: {
+          place_id: string;
+          review_count: number;
+          average_rating: number;
+          average_cleanliness: number | null;
+          average_service: number | null;
+          average_value: number | null;
+          rating_counts: number[];
+        }[];
+      };
     };
     Enums: {
       user_role: UserRole;
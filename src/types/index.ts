@@ -25,10 +25,13 @@ export interface Tweet {
   likes: number;
   retweets: number;
   replies: number;
+  quotes: number;
   views: number;
   images?: (string | `image:${string}`)[];
   videos?: (string | `video:${string}`)[];
   media?: (string | `image:${string}` | `video:${string}` | { url: string; type: 'image' | 'video' })[];
+  mediaAltText?: Record<string, string>; // by media URL, for the items the author described
+  sensitiveMedia?: boolean; // blurred until the viewer taps through
   isLiked: boolean;
   isRetweeted: boolean;
   isBookmarked: boolean;
@@ -45,11 +48,242 @@ export interface Tweet {
   retweetedAt?: Date;
   isRetweet?: boolean;
   originalTweet?: Tweet;
+  // Quote information: the embedded tweet, if it still exists
+  quotedTweetId?: string;
+  quotedTweet?: Tweet;
+  // Edit information: set once the author has edited the tweet
+  editCount?: number;
+  editedAt?: Date;
+  // Thread information: the first post of the thread (itself included) and this post's place in it
+  threadRootId?: string;
+  threadPosition?: number;
+  // Poll attached to the tweet, with the viewer's vote
+  poll?: Poll;
+  // Place the post was tagged with, from the gazetteer
+  place?: TweetPlace;
+  // Day-by-day plan attached to a Tourist Schedules post
+  itinerary?: Itinerary;
+  // Star ratings for the tagged place, on Hotels and Restaurants posts
+  review?: Review;
+  // Route, fare and expiry of a deal shared on a Flights post
+  flightDeal?: FlightDeal;
+  // Price, specs and availability of a Real estate or Car Rental post
+  listing?: Listing;
+  // Asked as a question; the author or a moderator can accept one reply as the answer
+  isQuestion?: boolean;
+  acceptedAnswerId?: string;
+  acceptedAnswer?: Tweet;
+}
+
+export type PlaceType = 'city' | 'landmark' | 'hotel' | 'airport';
+
+// A gazetteer entry; cities are their own `cityId`
+export interface Place {
+  id: string;
+  name: string;
+  nameAr: string;
+  type: PlaceType;
+  countryCode: string; // ISO code from FILTER_COUNTRIES
+  cityId: string;
+  lat: number;
+  lon: number;
+}
+
+// The place as stored on a post: the gazetteer id plus what filters and maps need without it
+export interface TweetPlace {
+  id: string;
+  cityId: string;
+  lat: number;
+  lon: number;
+}
+
+// An entry in the bundled airport list, keyed by IATA code
+export interface Airport {
+  iata: string;
+  name: string;
+  nameAr: string;
+  city: string;
+  cityAr: string;
+  countryCode: string; // ISO code from FILTER_COUNTRIES
+}
+
+export interface PollOption {
+  id: string;
+  label: string;
+  votes: number;
+}
+
+export interface Poll {
+  id: string;
+  endsAt: Date;
+  options: PollOption[]; // in display order
+  viewerVote?: string; // id of the option the viewer picked
+}
+
+export interface ItineraryStop {
+  time?: string; // 'HH:mm', local to wherever the stop is
+  title: string;
+  placeId?: string; // gazetteer id
+  notes?: string;
+}
+
+export interface ItineraryDay {
+  title?: string;
+  stops: ItineraryStop[];
+}
+
+// A day-by-day plan; without a start date the days are relative ("Day 1", "Day 2", ...)
+export interface Itinerary {
+  startDate?: string; // 'yyyy-MM-dd'
+  days: ItineraryDay[];
+}
+
+export type ReviewAspect = 'cleanliness' | 'service' | 'value';
+
+// A rated visit to the post's tagged place; every rating is 1 to 5 stars
+export interface Review {
+  venueName?: string; // what was reviewed, when the place tag is only the city
+  rating: number;
+  cleanliness?: number;
+  service?: number;
+  value?: number;
+  visitedOn?: string; // 'yyyy-MM-dd'
+}
+
+// A fare between two airports, bookable until `expiresAt`
+export interface FlightDeal {
+  origin: string; // IATA code
+  destination: string;
+  price: number;
+  currency: string; // ISO 4217 code
+  travelFrom?: string; // 'yyyy-MM-dd'; the window the fare is good for
+  travelTo?: string;
+  expiresAt: Date;
+}
+
+export type ListingKind = 'property' | 'car';
+export type ListingPeriod = 'night' | 'day' | 'week' | 'month' | 'year' | 'sale';
+export type VehicleClass = 'economy' | 'compact' | 'midsize' | 'suv' | 'luxury' | 'van';
+// How to reach the lister: a direct message, or publicly in the replies
+export type ListingContact = 'dm' | 'replies';
+
+// A property to rent or buy, or a car to hire
+export interface Listing {
+  kind: ListingKind;
+  price: number;
+  currency: string; // ISO 4217 code
+  period: ListingPeriod; // what the price covers; 'sale' is a one-off price
+  location: string;
+  bedrooms?: number; // properties only; 0 is a studio
+  vehicleClass?: VehicleClass; // cars only
+  availableFrom?: string; // 'yyyy-MM-dd'
+  availableTo?: string;
+  contact: ListingContact;
+}
+
+// Reviews of a place (for a city, of everywhere in it) rolled up
+export interface PlaceReviewStats {
+  placeId: string;
+  count: number;
+  average: number;
+  aspects: Partial<Record<ReviewAspect, number>>; // averages, for aspects anyone rated
+  distribution: [number, number, number, number, number]; // review counts by overall rating, 1 to 5 stars
+}
+
+// An earlier version of an edited tweet, as it read before an edit replaced it
+export interface TweetRevision {
+  id: string;
+  tweetId: string;
+  revision: number; // 0 is the original post
+  content: string;
+  images: string[];
+  videos: string[];
+  mediaAltText: Record<string, string>; // by media URL
+  hashtags: string[];
+  mentions: string[];
+  tags: string[];
+  createdAt: Date; // when this version went live
+  replacedAt: Date;
+}
+
+// An unpublished post from the compose page, saved as a draft or waiting for its scheduled time
+export interface PostDraft {
+  id: string;
+  content: string;
+  images: string[];
+  videos: string[];
+  mediaAltText: Record<string, string>; // by media URL
+  sensitiveMedia: boolean;
+  place?: TweetPlace;
+  itinerary?: Itinerary;
+  review?: Review;
+  flightDeal?: FlightDeal;
+  listing?: Listing;
+  isQuestion: boolean;
+  categories: string[];
+  countries: string[];
+  mentionedUserIds: string[]; // users picked from @ suggestions
+  quotedTweetId?: string;
+  status: 'draft' | 'scheduled' | 'failed';
+  scheduledAt?: Date;
+  lastError?: string; // why the last publish attempt failed
+  updatedAt: Date;
+}
+
+// A personal trip plan, private to its owner
+export interface Trip {
+  id: string;
+  ownerId: string;
+  title: string;
+  startDate?: string; // 'yyyy-MM-dd'
+  endDate?: string;
+  countries: string[];
+  itinerary?: Itinerary; // the owner's own copy, free to change
+  sourceTweetId?: string; // the post the itinerary was copied from
+  owner?: User;
+  access?: TripAccess; // the viewer's, when the trip was listed for them
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What an invited collaborator can do with a trip; the owner can do everything
+export type TripRole = 'viewer' | 'editor';
+export type TripAccess = 'owner' | TripRole;
+
+// A post saved into a trip, with the viewer's own note on it
+export interface TripItem {
+  id: string;
+  tripId: string;
+  tweetId: string;
+  tweet?: Tweet; // missing once the post is deleted
+  note: string;
+  position: number;
+  addedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TripCollaborator {
+  tripId: string;
+  user: User;
+  role: TripRole;
+  invitedBy: string;
+  createdAt: Date;
+}
+
+// What `/api/unfurl` read from a link's OpenGraph / Twitter card tags
+export interface LinkPreview {
+  url: string; // the link as posted
+  resolvedUrl: string; // after redirects
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
 }
 
 export interface Notification {
   id: string;
-  type: 'like' | 'retweet' | 'follow' | 'reply';
+  type: 'like' | 'retweet' | 'follow' | 'reply' | 'quote' | 'poll' | 'mention';
   actor: User;
   tweet?: Tweet;
   createdAt: Date;
@@ -95,29 +329,207 @@ interface TweetData {
   reply_to: string | null;
   image_urls: (string | `image:${string}`)[];
   video_urls?: (string | `video:${string}`)[];
+  media_alt_text?: string[]; // one per `image_urls` entry
+  sensitive_media?: boolean;
+  place_id?: string | null;
+  place_city_id?: string | null;
+  place_lat?: number | null;
+  place_lon?: number | null;
+  itinerary?: ItineraryData | null;
+  review?: ReviewData | null;
+  flight_deal?: FlightDealData | null;
+  listing?: ListingData | null;
   hashtags: string[];
   mentions: string[];
+  mentioned_user_ids?: string[];
   tags: string[];
   likes_count: number;
   retweets_count: number;
   replies_count: number;
+  quotes_count?: number;
   views_count: number;
   created_at: string;
   updated_at: string;
   is_retweet: boolean;
   original_tweet_id: string | null;
+  quoted_tweet_id?: string | null;
+  is_question?: boolean;
+  accepted_answer_id?: string | null;
+  edit_count?: number;
+  edited_at?: string | null;
+  thread_root_id?: string | null;
+  thread_position?: number | null;
+  pinned_to_home?: boolean;
+  pinned_to_profile?: boolean;
+  pinned_at?: string | null;
+}
+
+// A tweet's poll as embedded in tweet selects and feed RPC rows; `poll_votes` only ever
+// holds the viewer's own vote
+export interface PollData {
+  id: string;
+  tweet_id: string;
+  ends_at: string;
+  poll_options: {
+    id: string;
+    position: number;
+    label: string;
+    votes_count: number;
+  }[];
+  poll_votes?: { option_id: string }[];
+}
+
+// The `itinerary` column as `check_itinerary` stores it
+export interface ItineraryData {
+  start_date: string | null;
+  days: {
+    title: string | null;
+    stops: {
+      time: string | null;
+      title: string;
+      place_id: string | null;
+      notes: string | null;
+    }[];
+  }[];
+}
+
+// The `review` column as `check_review` stores it
+export interface ReviewData {
+  venue_name: string | null;
+  rating: number;
+  cleanliness: number | null;
+  service: number | null;
+  value: number | null;
+  visited_on: string | null;
+}
+
+// The `flight_deal` column as `check_flight_deal` stores it
+export interface FlightDealData {
+  origin: string;
+  destination: string;
+  price: number;
+  currency: string;
+  travel_from: string | null;
+  travel_to: string | null;
+  expires_at: string;
+}
+
+// The `listing` column as `check_listing` stores it
+export interface ListingData {
+  kind: ListingKind;
+  price: number;
+  currency: string;
+  period: ListingPeriod;
+  location: string;
+  bedrooms: number | null;
+  vehicle_class: VehicleClass | null;
+  available_from: string | null;
+  available_to: string | null;
+  contact: ListingContact;
+}
+
+// A `get_place_review_stats` row
+export interface PlaceReviewStatsData {
+  place_id: string;
+  review_count: number;
+  average_rating: number;
+  average_cleanliness: number | null;
+  average_service: number | null;
+  average_value: number | null;
+  rating_counts: number[];
+}
+
+// A `post_drafts` row, only ever readable by its author
+export interface PostDraftData {
+  id: string;
+  author_id: string;
+  content: string;
+  image_urls: string[];
+  media_alt_text: string[];
+  sensitive_media: boolean;
+  place_id: string | null;
+  place_city_id: string | null;
+  place_lat: number | null;
+  place_lon: number | null;
+  itinerary: ItineraryData | null;
+  review: ReviewData | null;
+  flight_deal: FlightDealData | null;
+  listing: ListingData | null;
+  is_question: boolean;
+  hashtags: string[];
+  mentions: string[];
+  mentioned_user_ids: string[];
+  categories: string[];
+  countries: string[];
+  quoted_tweet_id: string | null;
+  status: PostDraft['status'];
+  scheduled_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A `trips` row, only ever readable by its owner
+export interface TripData {
+  id: string;
+  owner_id: string;
+  title: string;
+  start_date: string | null;
+  end_date: string | null;
+  countries: string[];
+  itinerary: ItineraryData | null;
+  source_tweet_id: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: Profile | Profile[] | null;
+}
+
+export interface TripItemData {
+  id: string;
+  trip_id: string;
+  tweet_id: string;
+  position: number;
+  added_by: string;
+  created_at: string;
+  updated_at: string;
+  tweets?: TweetWithProfile | TweetWithProfile[] | null;
+  trip_item_notes?: { note: string }[] | null; // only the viewer's own, by RLS
+}
+
+export interface TripCollaboratorData {
+  trip_id: string;
+  user_id: string;
+  role: TripRole;
+  invited_by: string;
+  created_at: string;
+  profiles: Profile | Profile[];
+}
+
+// The viewer's flags for a tweet, returned inline by the feed RPC
+export interface ViewerState {
+  liked: boolean;
+  retweeted: boolean;
+  bookmarked: boolean;
 }
 
 export interface TweetWithProfile extends TweetData {
   profiles: Profile;
   original_tweet?: TweetWithProfile;
+  quoted_tweet?: TweetWithProfile | null;
+  accepted_answer?: TweetWithProfile | TweetWithProfile[] | null;
+  poll?: PollData | PollData[] | null;
+  viewer_state?: ViewerState;
+  // Set on rows from the ranked For You feed
+  rank_score?: number;
+  ranked_at?: string;
+  ranking_version?: string;
 }
 
 interface NotificationData {
   id: string;
   recipient_id: string;
   actor_id: string;
-  type: 'like' | 'retweet' | 'follow' | 'reply';
+  type: 'like' | 'retweet' | 'follow' | 'reply' | 'quote' | 'poll' | 'mention';
   tweet_id: string | null;
   read: boolean;
   created_at: string;
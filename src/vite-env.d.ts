@@ -5,6 +5,7 @@ interface ImportMetaEnv {
   readonly VITE_AWS_SECRET_ACCESS_KEY: string
   readonly VITE_AWS_REGION: string
   readonly VITE_S3_BUCKET: string
+  readonly VITE_FEED_RANKING_VERSION?: string
   // more env variables...
 }
 
@@ -0,0 +1,27 @@
+/*
+  # Keyset pagination indexes
+
+  1. Timelines now page on (created_at, id) instead of offsets
+    - Each page filters `created_at < c OR (created_at = c AND id < i)` and
+      orders by `created_at DESC, id DESC`
+    - The id tiebreak needs to be part of the index so Postgres can walk it
+      in order instead of sorting every page
+
+  2. Indexes
+    - For You feed: top-level tweets
+    - Following feed and profile tabs: per-author tweets
+    - Likes tab: a user's likes in the order they were made
+*/
+
+CREATE INDEX IF NOT EXISTS tweets_keyset_idx
+  ON tweets(created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS tweets_timeline_keyset_idx
+  ON tweets(created_at DESC, id DESC)
+  WHERE reply_to IS NULL;
+
+CREATE INDEX IF NOT EXISTS tweets_author_keyset_idx
+  ON tweets(author_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS likes_user_keyset_idx
+  ON likes(user_id, created_at DESC, id DESC);
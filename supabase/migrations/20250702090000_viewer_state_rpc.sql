@@ -0,0 +1,78 @@
+/*
+  # Batch viewer state and feed RPCs
+
+  1. get_viewer_state(tweet_ids)
+    - Returns one row per requested tweet with the current viewer's
+      `liked`, `retweeted` and `bookmarked` flags
+    - Replaces three separate `.in('tweet_id', ...)` queries against
+      likes, retweets and bookmarks with a single round trip
+    - Signed-out viewers get no rows
+
+  2. get_feed_page(following_only, cursor_created_at, cursor_id, page_size)
+    - One keyset page of top-level tweets, newest first on (created_at, id)
+    - Each row is JSON shaped like the client's tweet select: tweet columns,
+      `profiles`, `original_tweet` for retweets, plus `viewer_state` flags
+      on both the tweet and its original, so the feed needs no second query
+    - `following_only` restricts authors to accounts the viewer follows
+
+  3. Security
+    - Both functions run as the caller, so existing RLS policies apply
+*/
+
+DROP FUNCTION IF EXISTS get_viewer_state(UUID[]);
+DROP FUNCTION IF EXISTS get_feed_page(BOOLEAN, TIMESTAMPTZ, UUID, INTEGER);
+DROP FUNCTION IF EXISTS tweet_feed_json(tweets);
+
+CREATE OR REPLACE FUNCTION get_viewer_state(tweet_ids UUID[])
+RETURNS TABLE (tweet_id UUID, liked BOOLEAN, retweeted BOOLEAN, bookmarked BOOLEAN) AS $$
+  SELECT
+    requested.id,
+    EXISTS (SELECT 1 FROM likes l WHERE l.tweet_id = requested.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM retweets r WHERE r.tweet_id = requested.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM bookmarks b WHERE b.tweet_id = requested.id AND b.user_id = auth.uid())
+  FROM (SELECT DISTINCT unnest(tweet_ids) AS id) AS requested
+  WHERE auth.uid() IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+-- A tweet row with its author and the viewer's flags, in the shape the client formats
+CREATE OR REPLACE FUNCTION tweet_feed_json(t tweets)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'profiles', (SELECT to_jsonb(p) FROM profiles p WHERE p.id = t.author_id),
+    'viewer_state', jsonb_build_object(
+      'liked', EXISTS (SELECT 1 FROM likes l WHERE l.tweet_id = t.id AND l.user_id = auth.uid()),
+      'retweeted', EXISTS (SELECT 1 FROM retweets r WHERE r.tweet_id = t.id AND r.user_id = auth.uid()),
+      'bookmarked', EXISTS (SELECT 1 FROM bookmarks b WHERE b.tweet_id = t.id AND b.user_id = auth.uid())
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  following_only BOOLEAN DEFAULT FALSE,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+  SELECT tweet_feed_json(t) || jsonb_build_object(
+    'original_tweet', (
+      SELECT tweet_feed_json(o) FROM tweets o
+      WHERE t.is_retweet AND o.id = t.original_tweet_id
+    )
+  )
+  FROM tweets t
+  WHERE t.reply_to IS NULL
+    AND (
+      NOT following_only
+      OR t.author_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid())
+    )
+    AND (
+      cursor_created_at IS NULL
+      OR (t.created_at, t.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_viewer_state(UUID[]) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION get_feed_page(BOOLEAN, TIMESTAMPTZ, UUID, INTEGER) TO authenticated, anon;
@@ -0,0 +1,37 @@
+/*
+  # Realtime publication for shared client subscriptions
+
+  1. Publication
+    - Adds the tables the client's realtime manager listens to into
+      `supabase_realtime`: tweets (live counts, new posts, deletions),
+      notifications, messages, conversations and profiles
+    - Tables already in the publication are skipped, so this is safe to rerun
+
+  2. Notes
+    - Counts arrive as UPDATEs on `tweets`, which the existing like, retweet and
+      reply triggers already maintain; likes and retweets themselves are not
+      published, so one interaction is one event
+    - Deleted tweets only need their primary key, so the default replica
+      identity is kept
+*/
+
+DO $$
+DECLARE
+  published_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH published_table IN ARRAY ARRAY['tweets', 'notifications', 'messages', 'conversations', 'profiles']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = published_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', published_table);
+    END IF;
+  END LOOP;
+END $$;
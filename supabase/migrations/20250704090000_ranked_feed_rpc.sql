@@ -0,0 +1,155 @@
+/*
+  # Ranked "For You" feed
+
+  1. get_ranked_feed(ranking_version, ranked_at, cursor_score, cursor_id, page_size)
+    - Scores original top-level tweets from the last 14 days and returns them
+      best first, shaped like `get_feed_page` rows plus `rank_score`,
+      `ranking_version` and `ranked_at`
+    - Engagement: likes, retweets, replies and views recorded in `tweet_views`
+      over the last two days, log-scaled so a few viral tweets can't flood
+      the feed
+    - Recency: scores decay with age
+    - Affinity: boosts authors the viewer follows, tweets retweeted by people
+      the viewer follows, and tweets tagged with the categories and countries
+      the viewer has posted or liked recently
+    - Seen tweets: anything the viewer opened before `ranked_at` (per
+      `tweet_views`) is left out or pushed down, depending on the version
+
+  2. Ranking versions
+    - `v1`: power-law recency decay, light affinity, seen tweets removed
+    - `v2`: exponential decay over a day, stronger affinity, seen tweets kept
+      but demoted, for comparing against `v1` when inventory is thin
+    - Versions share one scoring query and differ only in the weights
+      looked up for them at the top of the function; a new version is a new
+      row there
+    - The reverse-chronological feed stays in `get_feed_page`
+
+  3. Paging
+    - `ranked_at` pins the clock for a whole scroll session: the first page
+      passes NULL and later pages echo the value returned on the rows, so
+      recency scores don't drift between pages
+    - Pages continue after `(cursor_score, cursor_id)`; counts can still move
+      between requests, so clients should tolerate an occasional repeat
+
+  4. Indexes
+    - Candidate window: original top-level tweets by recency
+*/
+
+DROP FUNCTION IF EXISTS get_ranked_feed(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, UUID, INTEGER);
+
+CREATE INDEX IF NOT EXISTS tweets_ranking_window_idx
+  ON tweets(created_at DESC)
+  WHERE reply_to IS NULL AND NOT is_retweet;
+
+CREATE OR REPLACE FUNCTION get_ranked_feed(
+  ranking_version TEXT DEFAULT 'v1',
+  ranked_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_score DOUBLE PRECISION DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+DECLARE
+  anchor TIMESTAMPTZ := COALESCE(ranked_at, now());
+  viewer UUID := auth.uid();
+  w RECORD;
+BEGIN
+  -- Decay is power(age + 2, -decay_power) * exp(-age * decay_rate), in hours.
+  -- A seen_weight of 0 leaves seen tweets out rather than scoring them at 0
+  -- Keep the versions in sync with RankingVersion in the client
+  SELECT * INTO w
+  FROM (VALUES
+    ('v1', 1.2, 0.0,        1.0, 0.5, 0.3, 0.0),
+    ('v2', 0.0, 1.0 / 24.0, 2.0, 1.0, 0.5, 0.2)
+  ) AS weights(version, decay_power, decay_rate, follow_boost, retweet_boost, tag_weight, seen_weight)
+  WHERE weights.version = ranking_version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown ranking version: %', ranking_version
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH followed AS (
+    SELECT f.following_id AS user_id
+    FROM follows f
+    WHERE f.follower_id = viewer
+  ),
+  -- Categories and countries the viewer has posted or liked lately, by frequency
+  viewer_tags AS (
+    SELECT tagged.tag, ln(1 + count(*)) AS weight
+    FROM (
+      SELECT unnest(t.tags) AS tag
+      FROM tweets t
+      WHERE t.author_id = viewer AND t.created_at > anchor - interval '60 days'
+      UNION ALL
+      SELECT unnest(t.tags)
+      FROM likes l
+      JOIN tweets t ON t.id = l.tweet_id
+      WHERE l.user_id = viewer AND l.created_at > anchor - interval '60 days'
+    ) AS tagged
+    GROUP BY tagged.tag
+  ),
+  candidates AS (
+    SELECT
+      t,
+      extract(epoch FROM anchor - t.created_at) / 3600.0 AS age_hours,
+      ln(
+        1
+        + COALESCE(t.likes_count, 0)
+        + 2 * COALESCE(t.retweets_count, 0)
+        + 1.5 * COALESCE(t.replies_count, 0)
+        + 0.1 * (
+          SELECT count(*) FROM tweet_views v
+          WHERE v.tweet_id = t.id AND v.created_at > anchor - interval '2 days'
+        )
+      ) AS engagement,
+      EXISTS (SELECT 1 FROM followed fo WHERE fo.user_id = t.author_id) AS follows_author,
+      EXISTS (
+        SELECT 1 FROM retweets r
+        JOIN followed fo ON fo.user_id = r.user_id
+        WHERE r.tweet_id = t.id
+      ) AS followed_retweeted,
+      COALESCE((
+        SELECT sum(vt.weight) FROM viewer_tags vt WHERE vt.tag = ANY (t.tags)
+      ), 0) AS tag_affinity,
+      EXISTS (
+        SELECT 1 FROM tweet_views v
+        WHERE v.tweet_id = t.id AND v.user_id = viewer AND v.created_at < anchor
+      ) AS seen
+    FROM tweets t
+    WHERE t.reply_to IS NULL
+      AND NOT t.is_retweet
+      AND t.created_at <= anchor
+      AND t.created_at > anchor - interval '14 days'
+  ),
+  scored AS (
+    SELECT
+      c.t,
+      (
+        (1 + c.engagement)
+        * power(c.age_hours + 2, -w.decay_power)
+        * exp(-c.age_hours * w.decay_rate)
+        * (1
+          + CASE WHEN c.follows_author THEN w.follow_boost ELSE 0 END
+          + CASE WHEN c.followed_retweeted THEN w.retweet_boost ELSE 0 END
+          + w.tag_weight * c.tag_affinity)
+        * CASE WHEN c.seen THEN w.seen_weight ELSE 1 END
+      )::DOUBLE PRECISION AS score
+    FROM candidates c
+    WHERE w.seen_weight > 0 OR NOT c.seen
+  )
+  SELECT tweet_feed_json(s.t) || jsonb_build_object(
+    'rank_score', s.score,
+    'ranking_version', ranking_version,
+    'ranked_at', anchor
+  )
+  FROM scored s
+  WHERE cursor_score IS NULL
+    OR (s.score, (s.t).id) < (cursor_score, cursor_id)
+  ORDER BY s.score DESC, (s.t).id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_ranked_feed(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, UUID, INTEGER) TO authenticated, anon;
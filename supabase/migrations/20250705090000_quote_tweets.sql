@@ -0,0 +1,117 @@
+/*
+  # Quote tweets
+
+  1. Changes to `tweets`
+    - `quoted_tweet_id` (uuid, references tweets.id, nullable) - the tweet a post
+      quotes; set back to NULL if the quoted tweet is deleted so the quote survives
+    - `quotes_count` (integer, default 0) - how many posts quote this tweet
+    - A quote is an ordinary post with its own content and media, so it is never
+      a retweet and can't quote itself
+
+  2. Triggers
+    - `quotes_count` follows quote inserts and deletes, like `replies_count`
+    - Quoting someone else's tweet notifies its author with a new `quote`
+      notification type; the notification points at the quote itself and is
+      removed with it by the existing `tweet_id` cascade
+
+  3. Feed RPCs
+    - `tweet_feed_json` embeds the quoted tweet (author and viewer flags
+      included) as `quoted_tweet`, so `get_feed_page` and `get_ranked_feed`
+      return quotes ready to render
+
+  4. Indexes
+    - Quotes of a tweet, newest first, for the detail page's Quotes list
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS quoted_tweet_id uuid REFERENCES tweets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS quotes_count integer DEFAULT 0;
+
+ALTER TABLE tweets DROP CONSTRAINT IF EXISTS tweets_quote_check;
+ALTER TABLE tweets ADD CONSTRAINT tweets_quote_check
+  CHECK (quoted_tweet_id IS NULL OR (NOT is_retweet AND quoted_tweet_id <> id));
+
+CREATE INDEX IF NOT EXISTS tweets_quoted_tweet_id_idx
+  ON tweets(quoted_tweet_id, created_at DESC, id DESC)
+  WHERE quoted_tweet_id IS NOT NULL;
+
+-- Function to update quote counts
+CREATE OR REPLACE FUNCTION update_quote_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.quoted_tweet_id IS NOT NULL THEN
+    UPDATE tweets
+    SET quotes_count = COALESCE(quotes_count, 0) + 1
+    WHERE id = NEW.quoted_tweet_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' AND OLD.quoted_tweet_id IS NOT NULL THEN
+    UPDATE tweets
+    SET quotes_count = GREATEST(0, COALESCE(quotes_count, 0) - 1)
+    WHERE id = OLD.quoted_tweet_id;
+    RETURN OLD;
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS quote_count_trigger ON tweets;
+CREATE TRIGGER quote_count_trigger
+  AFTER INSERT OR DELETE ON tweets
+  FOR EACH ROW EXECUTE FUNCTION update_quote_count();
+
+-- Allow the new notification type
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'retweet', 'reply', 'follow', 'quote'));
+
+-- Function to handle quote notifications
+CREATE OR REPLACE FUNCTION handle_quote_notification()
+RETURNS trigger AS $$
+DECLARE
+  quoted_tweet_author_id uuid;
+BEGIN
+  IF NEW.quoted_tweet_id IS NOT NULL THEN
+    SELECT author_id INTO quoted_tweet_author_id
+    FROM tweets
+    WHERE id = NEW.quoted_tweet_id;
+
+    -- create_notification skips people quoting themselves
+    PERFORM create_notification(
+      quoted_tweet_author_id,
+      NEW.author_id,
+      'quote',
+      NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS quote_notification_trigger ON tweets;
+CREATE TRIGGER quote_notification_trigger
+  AFTER INSERT ON tweets
+  FOR EACH ROW EXECUTE FUNCTION handle_quote_notification();
+
+-- A tweet row with its author and the viewer's flags, without any embeds
+CREATE OR REPLACE FUNCTION tweet_row_json(t tweets)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'profiles', (SELECT to_jsonb(p) FROM profiles p WHERE p.id = t.author_id),
+    'viewer_state', jsonb_build_object(
+      'liked', EXISTS (SELECT 1 FROM likes l WHERE l.tweet_id = t.id AND l.user_id = auth.uid()),
+      'retweeted', EXISTS (SELECT 1 FROM retweets r WHERE r.tweet_id = t.id AND r.user_id = auth.uid()),
+      'bookmarked', EXISTS (SELECT 1 FROM bookmarks b WHERE b.tweet_id = t.id AND b.user_id = auth.uid())
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Same as before, plus the quoted tweet one level deep
+CREATE OR REPLACE FUNCTION tweet_feed_json(t tweets)
+RETURNS JSONB AS $$
+  SELECT tweet_row_json(t) || jsonb_build_object(
+    'quoted_tweet', (
+      SELECT tweet_row_json(q) FROM tweets q
+      WHERE q.id = t.quoted_tweet_id
+    )
+  );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,159 @@
+/*
+  # Tweet editing with revision history
+
+  1. Changes to `tweets`
+    - `edit_count` (integer, default 0) - how many times the tweet was edited
+    - `edited_at` (timestamptz, nullable) - when the latest edit was made
+
+  2. New Tables
+    - `tweet_revisions`
+      - `id` (uuid, primary key)
+      - `tweet_id` (uuid, references tweets.id) - the edited tweet
+      - `revision` (integer) - 0 for the original post, then 1, 2, ...
+      - `content`, `image_urls`, `hashtags`, `mentions`, `tags` - the tweet as
+        it read before the edit that replaced this revision
+      - `created_at` (timestamptz) - when this revision went live
+      - `replaced_at` (timestamptz) - when an edit replaced it
+
+  3. edit_tweet(p_tweet_id, p_content, p_image_urls, p_hashtags, p_mentions, p_tags)
+    - Only the author can edit, only their own posts (not retweets), and only
+      within an hour of posting
+    - Archives the current content, media and tags as a revision, then applies
+      the new values; hashtags and mentions are recomputed by the client from
+      the new content, as on insert
+    - Returns the updated tweet shaped like `get_feed_page` rows
+    - Counts, replies, likes and retweets are untouched
+
+  4. Security
+    - Revisions are readable by everyone who can read tweets
+    - Revisions are only written by `edit_tweet`, which runs as the definer
+      after checking the caller is the author
+    - The older "Users can update own tweets" policy still lets authors update
+      their rows directly (pinning needs it), so a trigger rejects direct
+      changes to the edited columns; `edit_tweet` marks its own update with the
+      transaction-local `app.editing_tweet` setting. Admins may still retag
+      posts, as the moderation badges do
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS edit_count integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS tweet_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tweet_id uuid NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  content text NOT NULL,
+  image_urls text[] DEFAULT '{}',
+  hashtags text[] DEFAULT '{}',
+  mentions text[] DEFAULT '{}',
+  tags text[] DEFAULT '{}',
+  created_at timestamptz NOT NULL,
+  replaced_at timestamptz DEFAULT now(),
+  UNIQUE(tweet_id, revision)
+);
+
+ALTER TABLE tweet_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read tweet revisions" ON tweet_revisions;
+CREATE POLICY "Anyone can read tweet revisions"
+  ON tweet_revisions FOR SELECT TO authenticated, anon
+  USING (true);
+
+DROP FUNCTION IF EXISTS edit_tweet(UUID, TEXT, TEXT[], TEXT[], TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION edit_tweet(
+  p_tweet_id UUID,
+  p_content TEXT,
+  p_image_urls TEXT[] DEFAULT '{}',
+  p_hashtags TEXT[] DEFAULT '{}',
+  p_mentions TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_tweet tweets;
+  updated_tweet tweets;
+BEGIN
+  SELECT * INTO current_tweet
+  FROM tweets
+  WHERE id = p_tweet_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tweet not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF current_tweet.author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the author can edit this tweet' USING ERRCODE = '42501';
+  END IF;
+
+  IF current_tweet.is_retweet THEN
+    RAISE EXCEPTION 'Retweets cannot be edited' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with TWEET_EDIT_WINDOW_MS in the client
+  IF current_tweet.created_at < now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'The edit window for this tweet has closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RAISE EXCEPTION 'Tweet content cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO tweet_revisions (tweet_id, revision, content, image_urls, hashtags, mentions, tags, created_at)
+  VALUES (
+    current_tweet.id,
+    COALESCE(current_tweet.edit_count, 0),
+    current_tweet.content,
+    COALESCE(current_tweet.image_urls, '{}'),
+    COALESCE(current_tweet.hashtags, '{}'),
+    COALESCE(current_tweet.mentions, '{}'),
+    COALESCE(current_tweet.tags, '{}'),
+    COALESCE(current_tweet.edited_at, current_tweet.created_at)
+  );
+
+  PERFORM set_config('app.editing_tweet', 'on', true);
+
+  UPDATE tweets
+  SET content = p_content,
+      image_urls = COALESCE(p_image_urls, '{}'),
+      hashtags = COALESCE(p_hashtags, '{}'),
+      mentions = COALESCE(p_mentions, '{}'),
+      tags = COALESCE(p_tags, '{}'),
+      edit_count = COALESCE(edit_count, 0) + 1,
+      edited_at = now(),
+      updated_at = now()
+  WHERE id = current_tweet.id
+  RETURNING * INTO updated_tweet;
+
+  RETURN tweet_feed_json(updated_tweet);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION edit_tweet(UUID, TEXT, TEXT[], TEXT[], TEXT[], TEXT[]) TO authenticated;
+
+-- Function to keep edits to a tweet's content going through edit_tweet
+CREATE OR REPLACE FUNCTION protect_tweet_content()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.editing_tweet', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+     OR NEW.image_urls IS DISTINCT FROM OLD.image_urls
+     OR NEW.hashtags IS DISTINCT FROM OLD.hashtags
+     OR NEW.mentions IS DISTINCT FROM OLD.mentions
+     OR (NEW.tags IS DISTINCT FROM OLD.tags AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Tweets can only be edited through edit_tweet' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_tweet_content_trigger ON tweets;
+CREATE TRIGGER protect_tweet_content_trigger
+  BEFORE UPDATE OF content, image_urls, hashtags, mentions, tags ON tweets
+  FOR EACH ROW EXECUTE FUNCTION protect_tweet_content();
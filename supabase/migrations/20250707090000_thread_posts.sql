@@ -0,0 +1,132 @@
+/*
+  # Threads: multi-post chains of self-replies
+
+  1. Changes to `tweets`
+    - `thread_root_id` (uuid, nullable, references tweets.id) - the first post of
+      the thread this post belongs to; the first post points at itself
+    - `thread_position` (integer, nullable) - 0 for the first post, then 1, 2, ...
+    - Index on (thread_root_id, thread_position) for loading a whole thread
+
+  2. create_thread(p_thread_id, p_segments, p_tags, p_quoted_tweet_id)
+    - Publishes every segment in one transaction: the first as a top-level post
+      (optionally quoting a tweet), each following one as a reply to the one
+      before it, so a failure leaves nothing half posted
+    - `p_segments` is a JSON array of `{content, image_urls, hashtags, mentions}`;
+      hashtags and mentions are extracted by the client, as on insert
+    - `p_thread_id` becomes the id of the first post, so a retried call (e.g. a
+      replayed offline post) returns the thread it already created
+    - All posts share `p_tags`; created_at is staggered by a millisecond per
+      segment so replies keep their order
+    - Returns the posts in order, shaped like `get_feed_page` rows
+
+  3. Notes
+    - Reply counts and notifications come from the existing reply triggers;
+      self-replies don't notify
+    - Deleting a post removes the rest of the thread after it through the
+      `reply_to` cascade
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS thread_root_id uuid REFERENCES tweets(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS thread_position integer;
+
+CREATE INDEX IF NOT EXISTS tweets_thread_root_id_idx
+  ON tweets(thread_root_id, thread_position)
+  WHERE thread_root_id IS NOT NULL;
+
+DROP FUNCTION IF EXISTS create_thread(UUID, JSONB, TEXT[], UUID);
+
+CREATE OR REPLACE FUNCTION create_thread(
+  p_thread_id UUID,
+  p_segments JSONB,
+  p_tags TEXT[] DEFAULT '{}',
+  p_quoted_tweet_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  segment_count integer;
+  segment JSONB;
+  previous_id UUID := NULL;
+  new_tweet tweets;
+  result JSONB;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF EXISTS (SELECT 1 FROM tweets WHERE id = p_thread_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM tweets
+      WHERE id = p_thread_id AND author_id = current_user_id AND thread_root_id = p_thread_id
+    ) THEN
+      RAISE EXCEPTION 'A post with this id already exists' USING ERRCODE = '23505';
+    END IF;
+
+    SELECT jsonb_agg(tweet_feed_json(t) ORDER BY t.thread_position) INTO result
+    FROM tweets t
+    WHERE t.thread_root_id = p_thread_id;
+
+    RETURN result;
+  END IF;
+
+  IF p_segments IS NULL OR jsonb_typeof(p_segments) <> 'array' THEN
+    RAISE EXCEPTION 'Thread segments must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  segment_count := jsonb_array_length(p_segments);
+
+  -- Keep in sync with MAX_THREAD_SEGMENTS in the client
+  IF segment_count < 2 OR segment_count > 25 THEN
+    RAISE EXCEPTION 'A thread needs between 2 and 25 posts' USING ERRCODE = '22023';
+  END IF;
+
+  result := '[]'::jsonb;
+
+  FOR i IN 0 .. segment_count - 1 LOOP
+    segment := p_segments -> i;
+
+    IF btrim(COALESCE(segment ->> 'content', '')) = '' THEN
+      RAISE EXCEPTION 'Thread post % is empty', i + 1 USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO tweets (
+      id,
+      content,
+      author_id,
+      reply_to,
+      image_urls,
+      hashtags,
+      mentions,
+      tags,
+      quoted_tweet_id,
+      thread_root_id,
+      thread_position,
+      created_at
+    )
+    VALUES (
+      CASE WHEN i = 0 THEN p_thread_id ELSE gen_random_uuid() END,
+      segment ->> 'content',
+      current_user_id,
+      previous_id,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'image_urls')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'hashtags')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentions')), '{}'),
+      COALESCE(p_tags, '{}'),
+      CASE WHEN i = 0 THEN p_quoted_tweet_id ELSE NULL END,
+      p_thread_id,
+      i,
+      now() + make_interval(secs => i * 0.001)
+    )
+    RETURNING * INTO new_tweet;
+
+    previous_id := new_tweet.id;
+    result := result || jsonb_build_array(tweet_feed_json(new_tweet));
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_thread(UUID, JSONB, TEXT[], UUID) TO authenticated;
@@ -0,0 +1,283 @@
+/*
+  # Polls attached to tweets
+
+  1. New Tables
+    - `polls`
+      - `id` (uuid, primary key)
+      - `tweet_id` (uuid, unique, references tweets.id) - the post carrying the poll
+      - `ends_at` (timestamptz) - voting closes at this time
+      - `ended_notified_at` (timestamptz, nullable) - when the author was told it ended
+      - `created_at` (timestamptz)
+    - `poll_options`
+      - `id` (uuid, primary key)
+      - `poll_id` (uuid, references polls.id)
+      - `position` (integer) - display order, from 0
+      - `label` (text, 1-25 characters)
+      - `votes_count` (integer, default 0)
+    - `poll_votes`
+      - `poll_id`, `option_id`, `user_id`, `created_at`
+      - Primary key (poll_id, user_id): one vote per user per poll
+
+  2. Functions and Triggers
+    - create_poll(p_tweet_id, p_options, p_duration_minutes) attaches a poll to
+      the caller's own post: 2-4 options, open for 5 minutes to 7 days; calling
+      it again for the same tweet returns the existing poll
+    - Votes are checked before insert (option belongs to the poll, poll still
+      open) and kept in `votes_count`, like the tweet counters
+    - notify_finished_polls() sends the author a `poll` notification once their
+      poll has closed; it runs every minute through pg_cron, which the
+      migration enables, and is safe to call more often
+    - `tweet_row_json` embeds the poll with the viewer's vote, shaped like the
+      client's `polls` select, so feed RPCs return polls ready to render
+
+  3. Security
+    - Polls and options are readable by everyone
+    - Users can only see and cast their own votes; votes can't be changed
+    - Polls are only created through `create_poll`, which checks authorship
+
+  4. Realtime
+    - `poll_options` is added to `supabase_realtime` so results update live
+*/
+
+CREATE TABLE IF NOT EXISTS polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tweet_id uuid NOT NULL UNIQUE REFERENCES tweets(id) ON DELETE CASCADE,
+  ends_at timestamptz NOT NULL,
+  ended_notified_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  label text NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 25),
+  votes_count integer DEFAULT 0,
+  UNIQUE(poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS poll_options_poll_id_idx ON poll_options(poll_id, position);
+CREATE INDEX IF NOT EXISTS poll_votes_option_id_idx ON poll_votes(option_id);
+CREATE INDEX IF NOT EXISTS polls_pending_notification_idx
+  ON polls(ends_at)
+  WHERE ended_notified_at IS NULL;
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read polls" ON polls;
+CREATE POLICY "Anyone can read polls"
+  ON polls FOR SELECT TO authenticated, anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read poll options" ON poll_options;
+CREATE POLICY "Anyone can read poll options"
+  ON poll_options FOR SELECT TO authenticated, anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can read their own votes" ON poll_votes;
+CREATE POLICY "Users can read their own votes"
+  ON poll_votes FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can cast their own votes" ON poll_votes;
+CREATE POLICY "Users can cast their own votes"
+  ON poll_votes FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Function to reject votes for another poll's option or a closed poll
+CREATE OR REPLACE FUNCTION check_poll_vote()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM poll_options
+    WHERE id = NEW.option_id AND poll_id = NEW.poll_id
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM polls WHERE id = NEW.poll_id AND ends_at <= now()) THEN
+    RAISE EXCEPTION 'This poll has ended' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_poll_vote_trigger ON poll_votes;
+CREATE TRIGGER check_poll_vote_trigger
+  BEFORE INSERT ON poll_votes
+  FOR EACH ROW EXECUTE FUNCTION check_poll_vote();
+
+-- Function to update vote counts
+CREATE OR REPLACE FUNCTION update_poll_vote_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE poll_options
+    SET votes_count = COALESCE(votes_count, 0) + 1
+    WHERE id = NEW.option_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE poll_options
+    SET votes_count = GREATEST(0, COALESCE(votes_count, 0) - 1)
+    WHERE id = OLD.option_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS poll_vote_count_trigger ON poll_votes;
+CREATE TRIGGER poll_vote_count_trigger
+  AFTER INSERT OR DELETE ON poll_votes
+  FOR EACH ROW EXECUTE FUNCTION update_poll_vote_count();
+
+-- A poll with its options in order and the viewer's vote, if any
+CREATE OR REPLACE FUNCTION poll_json(p_tweet_id uuid)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', p.id,
+    'tweet_id', p.tweet_id,
+    'ends_at', p.ends_at,
+    'poll_options', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'position', o.position,
+        'label', o.label,
+        'votes_count', o.votes_count
+      ) ORDER BY o.position)
+      FROM poll_options o
+      WHERE o.poll_id = p.id
+    ), '[]'::jsonb),
+    'poll_votes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('option_id', v.option_id))
+      FROM poll_votes v
+      WHERE v.poll_id = p.id AND v.user_id = auth.uid()
+    ), '[]'::jsonb)
+  )
+  FROM polls p
+  WHERE p.tweet_id = p_tweet_id;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS create_poll(UUID, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION create_poll(
+  p_tweet_id UUID,
+  p_options TEXT[],
+  p_duration_minutes INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  new_poll_id UUID;
+  option_count integer := COALESCE(array_length(p_options, 1), 0);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM tweets
+    WHERE id = p_tweet_id AND author_id = auth.uid() AND NOT is_retweet
+  ) THEN
+    RAISE EXCEPTION 'Only the author can add a poll to this tweet' USING ERRCODE = '42501';
+  END IF;
+
+  -- Already attached by an earlier attempt
+  IF EXISTS (SELECT 1 FROM polls WHERE tweet_id = p_tweet_id) THEN
+    RETURN poll_json(p_tweet_id);
+  END IF;
+
+  -- Keep in sync with the POLL_* limits in the client
+  IF option_count < 2 OR option_count > 4 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 4 options' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_duration_minutes IS NULL OR p_duration_minutes < 5 OR p_duration_minutes > 7 * 24 * 60 THEN
+    RAISE EXCEPTION 'A poll can run for 5 minutes to 7 days' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO polls (tweet_id, ends_at)
+  VALUES (p_tweet_id, now() + make_interval(mins => p_duration_minutes))
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO poll_options (poll_id, position, label)
+  SELECT new_poll_id, ordinality - 1, btrim(label)
+  FROM unnest(p_options) WITH ORDINALITY AS option(label, ordinality);
+
+  RETURN poll_json(p_tweet_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_poll(UUID, TEXT[], INTEGER) TO authenticated;
+
+-- Allow the new notification type
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'retweet', 'reply', 'follow', 'quote', 'poll'));
+
+-- Function to tell authors their polls have closed; the author is their own actor here,
+-- so it inserts directly instead of going through create_notification
+CREATE OR REPLACE FUNCTION notify_finished_polls()
+RETURNS integer AS $$
+DECLARE
+  notified integer;
+BEGIN
+  WITH finished AS (
+    UPDATE polls
+    SET ended_notified_at = now()
+    WHERE ended_notified_at IS NULL
+      AND ends_at <= now()
+    RETURNING tweet_id
+  ), inserted AS (
+    INSERT INTO notifications (recipient_id, actor_id, type, tweet_id)
+    SELECT t.author_id, t.author_id, 'poll', t.id
+    FROM finished f
+    JOIN tweets t ON t.id = f.tweet_id
+    ON CONFLICT (recipient_id, actor_id, type, tweet_id) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO notified FROM inserted;
+
+  RETURN notified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_finished_polls() FROM PUBLIC, anon, authenticated;
+
+-- Nothing else closes polls, so a database without pg_cron should fail here rather than go quiet
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-finished-polls', '* * * * *', 'SELECT notify_finished_polls()');
+
+-- A tweet row with its author, the viewer's flags and its poll, without any embeds
+CREATE OR REPLACE FUNCTION tweet_row_json(t tweets)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'profiles', (SELECT to_jsonb(p) FROM profiles p WHERE p.id = t.author_id),
+    'viewer_state', jsonb_build_object(
+      'liked', EXISTS (SELECT 1 FROM likes l WHERE l.tweet_id = t.id AND l.user_id = auth.uid()),
+      'retweeted', EXISTS (SELECT 1 FROM retweets r WHERE r.tweet_id = t.id AND r.user_id = auth.uid()),
+      'bookmarked', EXISTS (SELECT 1 FROM bookmarks b WHERE b.tweet_id = t.id AND b.user_id = auth.uid())
+    ),
+    'poll', poll_json(t.id)
+  );
+$$ LANGUAGE sql STABLE;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'poll_options'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_options;
+  END IF;
+END $$;
@@ -0,0 +1,165 @@
+/*
+  # Drafts and scheduled posts
+
+  1. New Tables
+    - `post_drafts`
+      - `id` (uuid, primary key)
+      - `author_id` (uuid, references profiles.id)
+      - `content` (text) - may be empty while it's a draft
+      - `image_urls` (text[]) - media with the same `image:`/`video:` prefixes as tweets
+      - `hashtags`, `mentions` (text[]) - extracted by the client on save, as on insert
+      - `categories`, `countries` (text[]) - kept apart so the composer can restore
+        its pickers; they become the tweet's `tags` when published
+      - `quoted_tweet_id` (uuid, nullable, references tweets.id)
+      - `status` (text) - 'draft', 'scheduled' or 'failed'
+      - `scheduled_at` (timestamptz, nullable) - when a scheduled post goes out
+      - `last_error` (text, nullable) - why the last publish attempt failed
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions and Triggers
+    - Drafts are checked before insert/update: a post can only be scheduled with
+      content, a category, a country and a time in the future
+    - publish_due_posts() turns due scheduled drafts into tweets and removes the
+      drafts; a draft that can't be published is marked 'failed' with the error
+      and the rest carry on. It runs every minute through pg_cron, which the
+      migration enables, so nobody's browser has to be open
+    - Due rows are locked with SKIP LOCKED, so an author editing or cancelling a
+      post while it is being published either wins or finds the draft gone
+
+  3. Security
+    - Drafts are private: authors can only see and change their own
+    - publish_due_posts() is not callable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS post_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL DEFAULT '',
+  image_urls text[] NOT NULL DEFAULT '{}',
+  hashtags text[] NOT NULL DEFAULT '{}',
+  mentions text[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  countries text[] NOT NULL DEFAULT '{}',
+  quoted_tweet_id uuid REFERENCES tweets(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'failed')),
+  scheduled_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status = 'draft' OR scheduled_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS post_drafts_author_id_idx ON post_drafts(author_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS post_drafts_due_idx
+  ON post_drafts(scheduled_at)
+  WHERE status = 'scheduled';
+
+ALTER TABLE post_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own drafts" ON post_drafts;
+CREATE POLICY "Users can read their own drafts"
+  ON post_drafts FOR SELECT TO authenticated
+  USING (auth.uid() = author_id);
+
+DROP POLICY IF EXISTS "Users can create their own drafts" ON post_drafts;
+CREATE POLICY "Users can create their own drafts"
+  ON post_drafts FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = author_id);
+
+DROP POLICY IF EXISTS "Users can update their own drafts" ON post_drafts;
+CREATE POLICY "Users can update their own drafts"
+  ON post_drafts FOR UPDATE TO authenticated
+  USING (auth.uid() = author_id)
+  WITH CHECK (auth.uid() = author_id);
+
+DROP POLICY IF EXISTS "Users can delete their own drafts" ON post_drafts;
+CREATE POLICY "Users can delete their own drafts"
+  ON post_drafts FOR DELETE TO authenticated
+  USING (auth.uid() = author_id);
+
+-- Function to keep drafts consistent and only schedule posts that can go out
+CREATE OR REPLACE FUNCTION check_post_draft()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.status = 'scheduled' THEN
+    -- Keep in sync with the compose page's checks. Length is left to the tweets
+    -- table: a post too long to publish is marked 'failed' when it comes due
+    IF char_length(btrim(NEW.content)) = 0 THEN
+      RAISE EXCEPTION 'A scheduled post needs content' USING ERRCODE = '22023';
+    END IF;
+
+    IF COALESCE(array_length(NEW.categories, 1), 0) = 0 OR COALESCE(array_length(NEW.countries, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'A scheduled post needs a category and a country' USING ERRCODE = '22023';
+    END IF;
+
+    IF (TG_OP = 'INSERT' OR OLD.status <> 'scheduled' OR OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at)
+      AND NEW.scheduled_at <= now() THEN
+      RAISE EXCEPTION 'The scheduled time must be in the future' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.last_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_post_draft_trigger ON post_drafts;
+CREATE TRIGGER check_post_draft_trigger
+  BEFORE INSERT OR UPDATE ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_post_draft();
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        hashtags,
+        mentions,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.hashtags,
+        due.mentions,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
+
+-- Scheduled posts are only ever published by this job, so a database without pg_cron should fail here
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-due-posts', '* * * * *', 'SELECT publish_due_posts()');
@@ -0,0 +1,205 @@
+/*
+  # Mentions picked from suggestions, stored as user ids
+
+  1. Changes
+    - `tweets.mentioned_user_ids` (uuid[]) - the users picked from the composer's
+      @ suggestions, so a mention keeps pointing at the same person even if
+      they change their username later; `mentions` keeps the text as typed
+    - `post_drafts.mentioned_user_ids` (uuid[]) - the same for drafts and
+      scheduled posts, copied onto the tweet when it is published
+    - GIN index on `tweets.mentioned_user_ids` for finding posts mentioning a user
+
+  2. Functions and Triggers
+    - Ids are checked before insert/update: only users whose username is still
+      among the post's `mentions` are kept, so an edit that removes a mention
+      drops its id too, and ids can't be made up
+    - create_thread reads `mentioned_user_ids` from each segment
+    - publish_due_posts copies the draft's ids onto the tweet
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS tweets_mentioned_user_ids_idx
+  ON tweets USING GIN (mentioned_user_ids);
+
+-- Function to keep only the ids of users the post still mentions
+CREATE OR REPLACE FUNCTION check_mentioned_user_ids()
+RETURNS trigger AS $$
+BEGIN
+  IF COALESCE(array_length(NEW.mentioned_user_ids, 1), 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.mentioned_user_ids := ARRAY(
+    SELECT DISTINCT p.id
+    FROM profiles p
+    WHERE p.id = ANY(NEW.mentioned_user_ids)
+      AND p.username = ANY(COALESCE(NEW.mentions, '{}'))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_mentioned_user_ids_trigger ON tweets;
+CREATE TRIGGER check_mentioned_user_ids_trigger
+  BEFORE INSERT OR UPDATE OF mentions, mentioned_user_ids ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_mentioned_user_ids();
+
+DROP TRIGGER IF EXISTS check_mentioned_user_ids_trigger ON post_drafts;
+CREATE TRIGGER check_mentioned_user_ids_trigger
+  BEFORE INSERT OR UPDATE OF mentions, mentioned_user_ids ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_mentioned_user_ids();
+
+DROP FUNCTION IF EXISTS create_thread(UUID, JSONB, TEXT[], UUID);
+
+CREATE OR REPLACE FUNCTION create_thread(
+  p_thread_id UUID,
+  p_segments JSONB,
+  p_tags TEXT[] DEFAULT '{}',
+  p_quoted_tweet_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  segment_count integer;
+  segment JSONB;
+  previous_id UUID := NULL;
+  new_tweet tweets;
+  result JSONB;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF EXISTS (SELECT 1 FROM tweets WHERE id = p_thread_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM tweets
+      WHERE id = p_thread_id AND author_id = current_user_id AND thread_root_id = p_thread_id
+    ) THEN
+      RAISE EXCEPTION 'A post with this id already exists' USING ERRCODE = '23505';
+    END IF;
+
+    SELECT jsonb_agg(tweet_feed_json(t) ORDER BY t.thread_position) INTO result
+    FROM tweets t
+    WHERE t.thread_root_id = p_thread_id;
+
+    RETURN result;
+  END IF;
+
+  IF p_segments IS NULL OR jsonb_typeof(p_segments) <> 'array' THEN
+    RAISE EXCEPTION 'Thread segments must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  segment_count := jsonb_array_length(p_segments);
+
+  -- Keep in sync with MAX_THREAD_SEGMENTS in the client
+  IF segment_count < 2 OR segment_count > 25 THEN
+    RAISE EXCEPTION 'A thread needs between 2 and 25 posts' USING ERRCODE = '22023';
+  END IF;
+
+  result := '[]'::jsonb;
+
+  FOR i IN 0 .. segment_count - 1 LOOP
+    segment := p_segments -> i;
+
+    IF btrim(COALESCE(segment ->> 'content', '')) = '' THEN
+      RAISE EXCEPTION 'Thread post % is empty', i + 1 USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO tweets (
+      id,
+      content,
+      author_id,
+      reply_to,
+      image_urls,
+      hashtags,
+      mentions,
+      mentioned_user_ids,
+      tags,
+      quoted_tweet_id,
+      thread_root_id,
+      thread_position,
+      created_at
+    )
+    VALUES (
+      CASE WHEN i = 0 THEN p_thread_id ELSE gen_random_uuid() END,
+      segment ->> 'content',
+      current_user_id,
+      previous_id,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'image_urls')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'hashtags')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentions')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentioned_user_ids')::uuid), '{}'),
+      COALESCE(p_tags, '{}'),
+      CASE WHEN i = 0 THEN p_quoted_tweet_id ELSE NULL END,
+      p_thread_id,
+      i,
+      now() + make_interval(secs => i * 0.001)
+    )
+    RETURNING * INTO new_tweet;
+
+    previous_id := new_tweet.id;
+    result := result || jsonb_build_array(tweet_feed_json(new_tweet));
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_thread(UUID, JSONB, TEXT[], UUID) TO authenticated;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,75 @@
+/*
+  # Mention notifications
+
+  1. Changes
+    - New `mention` notification type, next to the existing `quote` type (whose
+      notifications are already created by `quote_notification_trigger`)
+    - `profiles.suspended` / `profiles.deleted_at` are added if the moderation
+      script hasn't been run, so the trigger below can rely on them
+
+  2. Triggers
+    - A post notifies everyone it @-mentions: the users picked from suggestions
+      (`mentioned_user_ids`) and any other `mentions` matching a username
+    - Edits that add a mention notify the new people only; the existing
+      (recipient, actor, type, tweet) unique key ignores repeats
+    - Suspended and deleted users are skipped, as are retweets, the author
+      themselves, and the author of the tweet being replied to or quoted, who
+      already gets a `reply` or `quote` notification for the same post
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS suspended BOOLEAN DEFAULT FALSE;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Allow the new notification type
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'retweet', 'reply', 'follow', 'quote', 'poll', 'mention'));
+
+-- Function to handle mention notifications
+CREATE OR REPLACE FUNCTION handle_mention_notification()
+RETURNS trigger AS $$
+DECLARE
+  mentioned_profile_id uuid;
+  replied_to_author_id uuid;
+  quoted_tweet_author_id uuid;
+BEGIN
+  IF NEW.is_retweet
+     OR (COALESCE(array_length(NEW.mentions, 1), 0) = 0
+         AND COALESCE(array_length(NEW.mentioned_user_ids, 1), 0) = 0) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reply_to IS NOT NULL THEN
+    SELECT author_id INTO replied_to_author_id FROM tweets WHERE id = NEW.reply_to;
+  END IF;
+
+  IF NEW.quoted_tweet_id IS NOT NULL THEN
+    SELECT author_id INTO quoted_tweet_author_id FROM tweets WHERE id = NEW.quoted_tweet_id;
+  END IF;
+
+  FOR mentioned_profile_id IN
+    SELECT p.id
+    FROM profiles p
+    WHERE (p.id = ANY(NEW.mentioned_user_ids) OR p.username = ANY(COALESCE(NEW.mentions, '{}')))
+      AND NOT COALESCE(p.suspended, FALSE)
+      AND p.deleted_at IS NULL
+      AND p.id IS DISTINCT FROM replied_to_author_id
+      AND p.id IS DISTINCT FROM quoted_tweet_author_id
+  LOOP
+    -- create_notification skips people mentioning themselves
+    PERFORM create_notification(
+      mentioned_profile_id,
+      NEW.author_id,
+      'mention',
+      NEW.id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS mention_notification_trigger ON tweets;
+CREATE TRIGGER mention_notification_trigger
+  AFTER INSERT OR UPDATE OF mentions, mentioned_user_ids ON tweets
+  FOR EACH ROW EXECUTE FUNCTION handle_mention_notification();
@@ -0,0 +1,99 @@
+/*
+  # Post length limit
+
+  1. Functions
+    - post_max_length() is the limit, 200, shared by the checks below
+    - post_length(text) counts a post the way the composers do (src/lib/textMetrics.ts):
+      - every http(s) link counts as 23 characters
+      - marks drawn over the previous letter count as nothing: Arabic harakat
+        and Quranic marks, accents, variation selectors, skin tones, tags
+      - a zero-width joiner and the code point it joins on count as nothing,
+        and a pair of regional indicators (a flag) counts once
+      - everything else counts one per code point
+
+  2. Triggers
+    - check_tweet_length: at most post_max_length() by post_length, checked before insert and
+      before updates of `content` only. Older, longer posts stay as they are and
+      the counter triggers can keep updating them; editing one has to bring it
+      under the limit. (A NOT VALID check constraint would be re-checked on every
+      update of the row, counters included.)
+    - Scheduled drafts are held to the same limit, so they fail when scheduled
+      rather than when they come due
+*/
+
+-- Keep in sync with POST_MAX_LENGTH in the client
+CREATE OR REPLACE FUNCTION post_max_length()
+RETURNS integer AS $$
+  SELECT 200;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+GRANT EXECUTE ON FUNCTION post_max_length() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION post_length(p_content text)
+RETURNS integer AS $$
+  SELECT char_length(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(COALESCE(p_content, ''), 'https?://\S+', repeat('x', 23), 'g'),
+          '\u200D.', '', 'g'
+        ),
+        '[\u0300-\u036F\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED\u08D3-\u08FF\u200B-\u200F\u20E3\uFE00-\uFE0F\uFE20-\uFE2F\U0001F3FB-\U0001F3FF\U000E0020-\U000E007F]', '', 'g'
+      ),
+      '([\U0001F1E6-\U0001F1FF])[\U0001F1E6-\U0001F1FF]', '\1', 'g'
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+GRANT EXECUTE ON FUNCTION post_length(text) TO anon, authenticated;
+
+ALTER TABLE tweets DROP CONSTRAINT IF EXISTS tweets_content_length_check;
+
+-- Function to hold new and edited posts to the length limit
+CREATE OR REPLACE FUNCTION check_tweet_length()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  IF post_length(NEW.content) > post_max_length() THEN
+    RAISE EXCEPTION 'A post can be at most % characters', post_max_length() USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_tweet_length_trigger ON tweets;
+CREATE TRIGGER check_tweet_length_trigger
+  BEFORE INSERT OR UPDATE OF content ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_tweet_length();
+
+-- Function to keep drafts consistent and only schedule posts that can go out
+CREATE OR REPLACE FUNCTION check_post_draft()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.status = 'scheduled' THEN
+    -- Keep in sync with the compose page's checks
+    IF char_length(btrim(NEW.content)) = 0 OR post_length(NEW.content) > post_max_length() THEN
+      RAISE EXCEPTION 'A scheduled post needs 1 to % characters', post_max_length() USING ERRCODE = '22023';
+    END IF;
+
+    IF COALESCE(array_length(NEW.categories, 1), 0) = 0 OR COALESCE(array_length(NEW.countries, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'A scheduled post needs a category and a country' USING ERRCODE = '22023';
+    END IF;
+
+    IF (TG_OP = 'INSERT' OR OLD.status <> 'scheduled' OR OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at)
+      AND NEW.scheduled_at <= now() THEN
+      RAISE EXCEPTION 'The scheduled time must be in the future' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.last_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
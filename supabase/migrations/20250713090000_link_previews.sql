@@ -0,0 +1,35 @@
+/*
+  # Link preview cache
+
+  1. New Tables
+    - `link_previews`
+      - `url` (text, primary key) - the link as posted
+      - `resolved_url` (text, nullable) - where its redirects ended up
+      - `title`, `description`, `image_url`, `site_name` (text, nullable) - read
+        from the page's OpenGraph / Twitter card tags
+      - `status` (text) - 'ok', or 'failed' when the page couldn't be fetched
+      - `fetched_at` (timestamptz)
+
+  2. Security
+    - Anyone can read previews
+    - Only the `/api/unfurl` function writes them, with the service role key,
+      so there are no insert/update policies
+*/
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  url text PRIMARY KEY,
+  resolved_url text,
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'failed')),
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read link previews" ON link_previews;
+CREATE POLICY "Anyone can read link previews"
+  ON link_previews FOR SELECT TO authenticated, anon
+  USING (true);
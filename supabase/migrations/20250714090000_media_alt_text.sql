@@ -0,0 +1,354 @@
+/*
+  # Media alt text and sensitive media
+
+  1. Changes
+    - `tweets.media_alt_text` (text[]) - a description for each attached image or
+      video, in the same order as `image_urls`; '' where the author left none
+    - `tweets.sensitive_media` (boolean) - the author marked the media as
+      sensitive, so it is blurred until the viewer taps through
+    - The same two columns on `post_drafts`, copied onto the tweet when a
+      scheduled post is published
+    - `profiles.show_sensitive_media` (boolean) - the viewer's setting to always
+      show sensitive media without the warning
+
+  2. Functions and Triggers
+    - Alt texts are checked before insert/update: trimmed, padded or cut to one
+      per media item, and at most 1000 characters each
+    - When an update changes `image_urls` without sending new alt texts, each
+      remaining item keeps the alt text it had
+    - edit_tweet takes `p_media_alt_text`, one entry per `p_image_urls` item;
+      NULL keeps the alt texts with the items they described
+    - edit_tweet also takes `p_mentioned_user_ids`, the users picked from
+      suggestions while editing; they join the ones the post already had, and
+      check_mentioned_user_ids drops any the new text no longer @mentions
+    - `tweet_revisions.media_alt_text` records the alt texts an edit replaced
+    - protect_tweet_content also rejects direct changes to `media_alt_text`
+      and `mentioned_user_ids`
+    - create_thread reads `media_alt_text` and `sensitive_media` from each segment
+    - publish_due_posts copies both from the draft
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS media_alt_text text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS sensitive_media boolean NOT NULL DEFAULT false;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS media_alt_text text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS sensitive_media boolean NOT NULL DEFAULT false;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS show_sensitive_media boolean NOT NULL DEFAULT false;
+
+ALTER TABLE tweet_revisions
+  ADD COLUMN IF NOT EXISTS media_alt_text text[] NOT NULL DEFAULT '{}';
+
+-- Function to keep one alt text per media item, following items an edit moved or kept
+CREATE OR REPLACE FUNCTION check_media_alt_text()
+RETURNS trigger AS $$
+DECLARE
+  previous_position integer;
+  aligned text[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.image_urls IS DISTINCT FROM OLD.image_urls
+     AND NEW.media_alt_text IS NOT DISTINCT FROM OLD.media_alt_text THEN
+    FOR i IN 1 .. COALESCE(cardinality(NEW.image_urls), 0) LOOP
+      previous_position := array_position(OLD.image_urls, NEW.image_urls[i]);
+      aligned := aligned || COALESCE(OLD.media_alt_text[previous_position], '');
+    END LOOP;
+    NEW.media_alt_text := aligned;
+    RETURN NEW;
+  END IF;
+
+  -- Keep in sync with MEDIA_ALT_TEXT_MAX_LENGTH in the client
+  IF EXISTS (SELECT 1 FROM unnest(NEW.media_alt_text) AS alt WHERE char_length(btrim(alt)) > 1000) THEN
+    RAISE EXCEPTION 'Alt text must be 1000 characters or less' USING ERRCODE = '22001';
+  END IF;
+
+  NEW.media_alt_text := ARRAY(
+    SELECT btrim(COALESCE(NEW.media_alt_text[i], ''))
+    FROM generate_series(1, COALESCE(cardinality(NEW.image_urls), 0)) AS i
+    ORDER BY i
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_media_alt_text_trigger ON tweets;
+CREATE TRIGGER check_media_alt_text_trigger
+  BEFORE INSERT OR UPDATE OF image_urls, media_alt_text ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_media_alt_text();
+
+DROP TRIGGER IF EXISTS check_media_alt_text_trigger ON post_drafts;
+CREATE TRIGGER check_media_alt_text_trigger
+  BEFORE INSERT OR UPDATE OF image_urls, media_alt_text ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_media_alt_text();
+
+DROP FUNCTION IF EXISTS edit_tweet(UUID, TEXT, TEXT[], TEXT[], TEXT[], TEXT[]);
+DROP FUNCTION IF EXISTS edit_tweet(UUID, TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION edit_tweet(
+  p_tweet_id UUID,
+  p_content TEXT,
+  p_image_urls TEXT[] DEFAULT '{}',
+  p_hashtags TEXT[] DEFAULT '{}',
+  p_mentions TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}',
+  p_media_alt_text TEXT[] DEFAULT NULL,
+  p_mentioned_user_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_tweet tweets;
+  updated_tweet tweets;
+BEGIN
+  SELECT * INTO current_tweet
+  FROM tweets
+  WHERE id = p_tweet_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tweet not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF current_tweet.author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the author can edit this tweet' USING ERRCODE = '42501';
+  END IF;
+
+  IF current_tweet.is_retweet THEN
+    RAISE EXCEPTION 'Retweets cannot be edited' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with TWEET_EDIT_WINDOW_MS in the client
+  IF current_tweet.created_at < now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'The edit window for this tweet has closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RAISE EXCEPTION 'Tweet content cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_media_alt_text IS NOT NULL
+     AND cardinality(p_media_alt_text) <> COALESCE(cardinality(p_image_urls), 0) THEN
+    RAISE EXCEPTION 'Alt texts must match the attached media' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO tweet_revisions (tweet_id, revision, content, image_urls, media_alt_text, hashtags, mentions, tags, created_at)
+  VALUES (
+    current_tweet.id,
+    COALESCE(current_tweet.edit_count, 0),
+    current_tweet.content,
+    COALESCE(current_tweet.image_urls, '{}'),
+    COALESCE(current_tweet.media_alt_text, '{}'),
+    COALESCE(current_tweet.hashtags, '{}'),
+    COALESCE(current_tweet.mentions, '{}'),
+    COALESCE(current_tweet.tags, '{}'),
+    COALESCE(current_tweet.edited_at, current_tweet.created_at)
+  );
+
+  PERFORM set_config('app.editing_tweet', 'on', true);
+
+  -- Without new alt texts, check_media_alt_text carries the old ones over to the items that stayed.
+  -- check_mentioned_user_ids prunes the merged ids down to the users the new text still @mentions
+  UPDATE tweets
+  SET content = p_content,
+      image_urls = COALESCE(p_image_urls, '{}'),
+      media_alt_text = COALESCE(p_media_alt_text, media_alt_text),
+      hashtags = COALESCE(p_hashtags, '{}'),
+      mentions = COALESCE(p_mentions, '{}'),
+      mentioned_user_ids = mentioned_user_ids || COALESCE(p_mentioned_user_ids, '{}'),
+      tags = COALESCE(p_tags, '{}'),
+      edit_count = COALESCE(edit_count, 0) + 1,
+      edited_at = now(),
+      updated_at = now()
+  WHERE id = current_tweet.id
+  RETURNING * INTO updated_tweet;
+
+  RETURN tweet_feed_json(updated_tweet);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION edit_tweet(UUID, TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], UUID[]) TO authenticated;
+
+-- Function to keep edits to a tweet's content going through edit_tweet
+CREATE OR REPLACE FUNCTION protect_tweet_content()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.editing_tweet', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+     OR NEW.image_urls IS DISTINCT FROM OLD.image_urls
+     OR NEW.media_alt_text IS DISTINCT FROM OLD.media_alt_text
+     OR NEW.hashtags IS DISTINCT FROM OLD.hashtags
+     OR NEW.mentions IS DISTINCT FROM OLD.mentions
+     OR NEW.mentioned_user_ids IS DISTINCT FROM OLD.mentioned_user_ids
+     OR (NEW.tags IS DISTINCT FROM OLD.tags AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Tweets can only be edited through edit_tweet' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_tweet_content_trigger ON tweets;
+CREATE TRIGGER protect_tweet_content_trigger
+  BEFORE UPDATE OF content, image_urls, media_alt_text, hashtags, mentions, mentioned_user_ids, tags ON tweets
+  FOR EACH ROW EXECUTE FUNCTION protect_tweet_content();
+
+CREATE OR REPLACE FUNCTION create_thread(
+  p_thread_id UUID,
+  p_segments JSONB,
+  p_tags TEXT[] DEFAULT '{}',
+  p_quoted_tweet_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  segment_count integer;
+  segment JSONB;
+  previous_id UUID := NULL;
+  new_tweet tweets;
+  result JSONB;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF EXISTS (SELECT 1 FROM tweets WHERE id = p_thread_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM tweets
+      WHERE id = p_thread_id AND author_id = current_user_id AND thread_root_id = p_thread_id
+    ) THEN
+      RAISE EXCEPTION 'A post with this id already exists' USING ERRCODE = '23505';
+    END IF;
+
+    SELECT jsonb_agg(tweet_feed_json(t) ORDER BY t.thread_position) INTO result
+    FROM tweets t
+    WHERE t.thread_root_id = p_thread_id;
+
+    RETURN result;
+  END IF;
+
+  IF p_segments IS NULL OR jsonb_typeof(p_segments) <> 'array' THEN
+    RAISE EXCEPTION 'Thread segments must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  segment_count := jsonb_array_length(p_segments);
+
+  -- Keep in sync with MAX_THREAD_SEGMENTS in the client
+  IF segment_count < 2 OR segment_count > 25 THEN
+    RAISE EXCEPTION 'A thread needs between 2 and 25 posts' USING ERRCODE = '22023';
+  END IF;
+
+  result := '[]'::jsonb;
+
+  FOR i IN 0 .. segment_count - 1 LOOP
+    segment := p_segments -> i;
+
+    IF btrim(COALESCE(segment ->> 'content', '')) = '' THEN
+      RAISE EXCEPTION 'Thread post % is empty', i + 1 USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO tweets (
+      id,
+      content,
+      author_id,
+      reply_to,
+      image_urls,
+      media_alt_text,
+      sensitive_media,
+      hashtags,
+      mentions,
+      mentioned_user_ids,
+      tags,
+      quoted_tweet_id,
+      thread_root_id,
+      thread_position,
+      created_at
+    )
+    VALUES (
+      CASE WHEN i = 0 THEN p_thread_id ELSE gen_random_uuid() END,
+      segment ->> 'content',
+      current_user_id,
+      previous_id,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'image_urls')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'media_alt_text')), '{}'),
+      COALESCE((segment ->> 'sensitive_media')::boolean, false),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'hashtags')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentions')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentioned_user_ids')::uuid), '{}'),
+      COALESCE(p_tags, '{}'),
+      CASE WHEN i = 0 THEN p_quoted_tweet_id ELSE NULL END,
+      p_thread_id,
+      i,
+      now() + make_interval(secs => i * 0.001)
+    )
+    RETURNING * INTO new_tweet;
+
+    previous_id := new_tweet.id;
+    result := result || jsonb_build_array(tweet_feed_json(new_tweet));
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_thread(UUID, JSONB, TEXT[], UUID) TO authenticated;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,272 @@
+/*
+  # Place tags
+
+  1. Changes
+    - `tweets.place_id` (text) - the gazetteer entry the post was tagged with:
+      a city, landmark, hotel or airport; NULL for untagged posts
+    - `tweets.place_city_id` (text) - the city the place is in (a city's own id),
+      so city pages and filters find posts tagged anywhere in the city
+    - `tweets.place_lat`, `tweets.place_lon` (double precision) - the place's
+      coordinates, kept on the row so maps don't depend on the client's gazetteer
+    - The same four columns on `post_drafts`, copied onto the tweet when a
+      scheduled post is published
+
+  2. Constraints and Indexes
+    - The four columns are set together or not at all, with coordinates in range
+    - Partial indexes on `place_id` and `place_city_id` for the place pages
+
+  3. Functions
+    - `get_filtered_feed(country_code, category, following_only, city_id,
+      cursor_created_at, cursor_id, page_size)` pages through original posts
+      like `get_feed_page` for the feed's filters, so a city's posts don't
+      wait for the main feed to reach them
+    - create_thread reads the place columns from each segment
+    - publish_due_posts copies them from the draft
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS place_id text,
+  ADD COLUMN IF NOT EXISTS place_city_id text,
+  ADD COLUMN IF NOT EXISTS place_lat double precision,
+  ADD COLUMN IF NOT EXISTS place_lon double precision;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS place_id text,
+  ADD COLUMN IF NOT EXISTS place_city_id text,
+  ADD COLUMN IF NOT EXISTS place_lat double precision,
+  ADD COLUMN IF NOT EXISTS place_lon double precision;
+
+ALTER TABLE tweets DROP CONSTRAINT IF EXISTS tweets_place_check;
+ALTER TABLE tweets ADD CONSTRAINT tweets_place_check
+  CHECK (
+    (place_id IS NULL AND place_city_id IS NULL AND place_lat IS NULL AND place_lon IS NULL)
+    OR (
+      btrim(place_id) <> ''
+      AND btrim(place_city_id) <> ''
+      AND place_lat BETWEEN -90 AND 90
+      AND place_lon BETWEEN -180 AND 180
+    )
+  );
+
+ALTER TABLE post_drafts DROP CONSTRAINT IF EXISTS post_drafts_place_check;
+ALTER TABLE post_drafts ADD CONSTRAINT post_drafts_place_check
+  CHECK (
+    (place_id IS NULL AND place_city_id IS NULL AND place_lat IS NULL AND place_lon IS NULL)
+    OR (
+      btrim(place_id) <> ''
+      AND btrim(place_city_id) <> ''
+      AND place_lat BETWEEN -90 AND 90
+      AND place_lon BETWEEN -180 AND 180
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS tweets_place_id_idx
+  ON tweets (place_id, created_at DESC, id DESC)
+  WHERE place_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS tweets_place_city_id_idx
+  ON tweets (place_city_id, created_at DESC, id DESC)
+  WHERE place_city_id IS NOT NULL;
+
+-- Function to page through the feed's original posts with its filters applied, newest first
+CREATE OR REPLACE FUNCTION get_filtered_feed(
+  country_code TEXT DEFAULT NULL,
+  category TEXT DEFAULT NULL,
+  following_only BOOLEAN DEFAULT FALSE,
+  city_id TEXT DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+  SELECT tweet_feed_json(t)
+  FROM tweets t
+  WHERE t.reply_to IS NULL
+    AND NOT COALESCE(t.is_retweet, false)
+    AND (country_code IS NULL OR t.tags @> ARRAY[country_code])
+    AND (category IS NULL OR t.tags @> ARRAY[category])
+    AND (city_id IS NULL OR t.place_city_id = city_id)
+    AND (
+      NOT following_only
+      OR t.author_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid())
+    )
+    AND (
+      cursor_created_at IS NULL
+      OR (t.created_at, t.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_filtered_feed(TEXT, TEXT, BOOLEAN, TEXT, TIMESTAMPTZ, UUID, INTEGER) TO authenticated, anon;
+
+CREATE OR REPLACE FUNCTION create_thread(
+  p_thread_id UUID,
+  p_segments JSONB,
+  p_tags TEXT[] DEFAULT '{}',
+  p_quoted_tweet_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  segment_count integer;
+  segment JSONB;
+  previous_id UUID := NULL;
+  new_tweet tweets;
+  result JSONB;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF EXISTS (SELECT 1 FROM tweets WHERE id = p_thread_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM tweets
+      WHERE id = p_thread_id AND author_id = current_user_id AND thread_root_id = p_thread_id
+    ) THEN
+      RAISE EXCEPTION 'A post with this id already exists' USING ERRCODE = '23505';
+    END IF;
+
+    SELECT jsonb_agg(tweet_feed_json(t) ORDER BY t.thread_position) INTO result
+    FROM tweets t
+    WHERE t.thread_root_id = p_thread_id;
+
+    RETURN result;
+  END IF;
+
+  IF p_segments IS NULL OR jsonb_typeof(p_segments) <> 'array' THEN
+    RAISE EXCEPTION 'Thread segments must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  segment_count := jsonb_array_length(p_segments);
+
+  -- Keep in sync with MAX_THREAD_SEGMENTS in the client
+  IF segment_count < 2 OR segment_count > 25 THEN
+    RAISE EXCEPTION 'A thread needs between 2 and 25 posts' USING ERRCODE = '22023';
+  END IF;
+
+  result := '[]'::jsonb;
+
+  FOR i IN 0 .. segment_count - 1 LOOP
+    segment := p_segments -> i;
+
+    IF btrim(COALESCE(segment ->> 'content', '')) = '' THEN
+      RAISE EXCEPTION 'Thread post % is empty', i + 1 USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO tweets (
+      id,
+      content,
+      author_id,
+      reply_to,
+      image_urls,
+      media_alt_text,
+      sensitive_media,
+      place_id,
+      place_city_id,
+      place_lat,
+      place_lon,
+      hashtags,
+      mentions,
+      mentioned_user_ids,
+      tags,
+      quoted_tweet_id,
+      thread_root_id,
+      thread_position,
+      created_at
+    )
+    VALUES (
+      CASE WHEN i = 0 THEN p_thread_id ELSE gen_random_uuid() END,
+      segment ->> 'content',
+      current_user_id,
+      previous_id,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'image_urls')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'media_alt_text')), '{}'),
+      COALESCE((segment ->> 'sensitive_media')::boolean, false),
+      segment ->> 'place_id',
+      segment ->> 'place_city_id',
+      (segment ->> 'place_lat')::double precision,
+      (segment ->> 'place_lon')::double precision,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'hashtags')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentions')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(segment -> 'mentioned_user_ids')::uuid), '{}'),
+      COALESCE(p_tags, '{}'),
+      CASE WHEN i = 0 THEN p_quoted_tweet_id ELSE NULL END,
+      p_thread_id,
+      i,
+      now() + make_interval(secs => i * 0.001)
+    )
+    RETURNING * INTO new_tweet;
+
+    previous_id := new_tweet.id;
+    result := result || jsonb_build_array(tweet_feed_json(new_tweet));
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_thread(UUID, JSONB, TEXT[], UUID) TO authenticated;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
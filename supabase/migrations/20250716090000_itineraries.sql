@@ -0,0 +1,225 @@
+/*
+  # Itineraries and trips
+
+  1. Changes
+    - `tweets.itinerary` (jsonb, nullable) - a day-by-day plan attached to a
+      Tourist Schedules post:
+      `{ start_date, days: [{ title, stops: [{ time, title, place_id, notes }] }] }`
+      where `start_date` is 'YYYY-MM-DD' or null for a plan in relative days,
+      `time` is 'HH:MM' or null, and `place_id` is a gazetteer id or null
+    - The same column on `post_drafts`, copied onto the tweet when a scheduled
+      post is published
+
+  2. New Tables
+    - `trips`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, references profiles.id)
+      - `title` (text, 1-100 characters)
+      - `start_date`, `end_date` (date, nullable)
+      - `countries` (text[]) - ISO codes, as in tweet tags
+      - `itinerary` (jsonb, nullable) - the owner's own copy of a plan, shaped
+        like `tweets.itinerary`
+      - `source_tweet_id` (uuid, nullable, references tweets.id) - the post the
+        plan was copied from
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. Functions and Triggers
+    - Itineraries are checked before insert/update on tweets, drafts and trips:
+      1 to 14 days of 1 to 12 stops, titles of 1 to 80 characters and notes of
+      at most 280
+    - publish_due_posts copies the draft's itinerary
+
+  4. Security
+    - Trips are private: owners can only see and change their own
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS itinerary jsonb;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS itinerary jsonb;
+
+CREATE TABLE IF NOT EXISTS trips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 100),
+  start_date date,
+  end_date date,
+  countries text[] NOT NULL DEFAULT '{}',
+  itinerary jsonb,
+  source_tweet_id uuid REFERENCES tweets(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS trips_owner_id_idx ON trips(owner_id, updated_at DESC);
+
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own trips" ON trips;
+CREATE POLICY "Users can read their own trips"
+  ON trips FOR SELECT TO authenticated
+  USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can create their own trips" ON trips;
+CREATE POLICY "Users can create their own trips"
+  ON trips FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can update their own trips" ON trips;
+CREATE POLICY "Users can update their own trips"
+  ON trips FOR UPDATE TO authenticated
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can delete their own trips" ON trips;
+CREATE POLICY "Users can delete their own trips"
+  ON trips FOR DELETE TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Function to reject itineraries the client wouldn't have produced
+CREATE OR REPLACE FUNCTION check_itinerary()
+RETURNS trigger AS $$
+DECLARE
+  day JSONB;
+  stop JSONB;
+  day_count integer;
+  stop_count integer;
+BEGIN
+  IF TG_TABLE_NAME = 'trips' THEN
+    NEW.updated_at := now();
+  END IF;
+
+  IF NEW.itinerary IS NULL OR jsonb_typeof(NEW.itinerary) = 'null' THEN
+    NEW.itinerary := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.itinerary) <> 'object' OR jsonb_typeof(NEW.itinerary -> 'days') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'An itinerary needs a list of days' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(NEW.itinerary ->> 'start_date', '') <> ''
+     AND NOT (NEW.itinerary ->> 'start_date') ~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RAISE EXCEPTION 'An itinerary start date must be YYYY-MM-DD' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with the ITINERARY_* limits in the client
+  day_count := jsonb_array_length(NEW.itinerary -> 'days');
+  IF day_count < 1 OR day_count > 14 THEN
+    RAISE EXCEPTION 'An itinerary has 1 to 14 days' USING ERRCODE = '22023';
+  END IF;
+
+  FOR day IN SELECT value FROM jsonb_array_elements(NEW.itinerary -> 'days') LOOP
+    IF jsonb_typeof(day -> 'stops') IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Each itinerary day needs a list of stops' USING ERRCODE = '22023';
+    END IF;
+
+    IF char_length(COALESCE(day ->> 'title', '')) > 80 THEN
+      RAISE EXCEPTION 'Itinerary day titles must be 80 characters or less' USING ERRCODE = '22001';
+    END IF;
+
+    stop_count := jsonb_array_length(day -> 'stops');
+    IF stop_count < 1 OR stop_count > 12 THEN
+      RAISE EXCEPTION 'Each itinerary day has 1 to 12 stops' USING ERRCODE = '22023';
+    END IF;
+
+    FOR stop IN SELECT value FROM jsonb_array_elements(day -> 'stops') LOOP
+      IF char_length(btrim(COALESCE(stop ->> 'title', ''))) NOT BETWEEN 1 AND 80 THEN
+        RAISE EXCEPTION 'Itinerary stops need a title of 1 to 80 characters' USING ERRCODE = '22023';
+      END IF;
+
+      IF char_length(COALESCE(stop ->> 'notes', '')) > 280 THEN
+        RAISE EXCEPTION 'Itinerary notes must be 280 characters or less' USING ERRCODE = '22001';
+      END IF;
+
+      IF COALESCE(stop ->> 'time', '') <> '' AND NOT (stop ->> 'time') ~ '^([01]\d|2[0-3]):[0-5]\d$' THEN
+        RAISE EXCEPTION 'Itinerary times must be HH:MM' USING ERRCODE = '22023';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_itinerary_trigger ON tweets;
+CREATE TRIGGER check_itinerary_trigger
+  BEFORE INSERT OR UPDATE OF itinerary ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_itinerary();
+
+DROP TRIGGER IF EXISTS check_itinerary_trigger ON post_drafts;
+CREATE TRIGGER check_itinerary_trigger
+  BEFORE INSERT OR UPDATE OF itinerary ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_itinerary();
+
+-- Trips also stamp `updated_at` here, so it fires on every update
+DROP TRIGGER IF EXISTS check_itinerary_trigger ON trips;
+CREATE TRIGGER check_itinerary_trigger
+  BEFORE INSERT OR UPDATE ON trips
+  FOR EACH ROW EXECUTE FUNCTION check_itinerary();
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        itinerary,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.itinerary,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,198 @@
+/*
+  # Place reviews
+
+  1. Changes
+    - `tweets.review` (jsonb, nullable) - star ratings for the post's tagged
+      place, on Hotels and Restaurants posts:
+      `{ venue_name, rating, cleanliness, service, value, visited_on }`
+      where `rating` is 1-5, the three sub-ratings are 1-5 or null,
+      `venue_name` is free text or null and `visited_on` is 'YYYY-MM-DD' or null
+    - The same column on `post_drafts`, copied onto the tweet when a scheduled
+      post is published
+    - Partial indexes on the place columns of reviewed tweets, for roll-ups
+
+  2. Functions and Triggers
+    - Reviews are checked before insert/update on tweets and drafts; a tweet
+      with a review must also be tagged with a place
+    - get_place_review_stats(place_ids) rolls up the reviews of each place (for
+      a city, of every place in it): count, averages and how many reviews gave
+      each overall rating
+    - publish_due_posts copies the draft's review
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS review jsonb;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS review jsonb;
+
+CREATE INDEX IF NOT EXISTS tweets_review_place_id_idx
+  ON tweets(place_id)
+  WHERE review IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS tweets_review_place_city_id_idx
+  ON tweets(place_city_id)
+  WHERE review IS NOT NULL;
+
+-- Function to reject reviews the client wouldn't have produced
+CREATE OR REPLACE FUNCTION check_review()
+RETURNS trigger AS $$
+DECLARE
+  aspect text;
+BEGIN
+  IF NEW.review IS NULL OR jsonb_typeof(NEW.review) = 'null' THEN
+    NEW.review := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.review) <> 'object' THEN
+    RAISE EXCEPTION 'A review must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with the REVIEW_* limits in the client
+  IF jsonb_typeof(NEW.review -> 'rating') IS DISTINCT FROM 'number'
+     OR (NEW.review ->> 'rating')::numeric NOT IN (1, 2, 3, 4, 5) THEN
+    RAISE EXCEPTION 'A review needs an overall rating of 1 to 5 stars' USING ERRCODE = '22023';
+  END IF;
+
+  FOREACH aspect IN ARRAY ARRAY['cleanliness', 'service', 'value'] LOOP
+    IF COALESCE(jsonb_typeof(NEW.review -> aspect), 'null') <> 'null'
+       AND (jsonb_typeof(NEW.review -> aspect) <> 'number'
+            OR (NEW.review ->> aspect)::numeric NOT IN (1, 2, 3, 4, 5)) THEN
+      RAISE EXCEPTION 'Review ratings are 1 to 5 stars' USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  IF char_length(COALESCE(NEW.review ->> 'venue_name', '')) > 80 THEN
+    RAISE EXCEPTION 'Review venue names must be 80 characters or less' USING ERRCODE = '22001';
+  END IF;
+
+  IF COALESCE(NEW.review ->> 'visited_on', '') <> '' THEN
+    IF NOT (NEW.review ->> 'visited_on') ~ '^\d{4}-\d{2}-\d{2}$' THEN
+      RAISE EXCEPTION 'A review visit date must be YYYY-MM-DD' USING ERRCODE = '22023';
+    END IF;
+
+    -- A day of slack for reviewers ahead of UTC
+    IF (NEW.review ->> 'visited_on')::date > current_date + 1 THEN
+      RAISE EXCEPTION 'A review visit date can''t be in the future' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Drafts may still be missing their place; a published review can't
+  IF TG_TABLE_NAME = 'tweets' AND NEW.place_id IS NULL THEN
+    RAISE EXCEPTION 'A review needs the post to be tagged with a place' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_review_trigger ON tweets;
+CREATE TRIGGER check_review_trigger
+  BEFORE INSERT OR UPDATE OF review, place_id ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_review();
+
+DROP TRIGGER IF EXISTS check_review_trigger ON post_drafts;
+CREATE TRIGGER check_review_trigger
+  BEFORE INSERT OR UPDATE OF review ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_review();
+
+-- Function to roll up the reviews of each place; places without any are left out
+CREATE OR REPLACE FUNCTION get_place_review_stats(p_place_ids text[])
+RETURNS TABLE (
+  place_id text,
+  review_count integer,
+  average_rating numeric,
+  average_cleanliness numeric,
+  average_service numeric,
+  average_value numeric,
+  rating_counts integer[]
+) AS $$
+  SELECT
+    requested.id,
+    count(*)::integer,
+    round(avg((t.review ->> 'rating')::numeric), 2),
+    round(avg((t.review ->> 'cleanliness')::numeric), 2),
+    round(avg((t.review ->> 'service')::numeric), 2),
+    round(avg((t.review ->> 'value')::numeric), 2),
+    ARRAY[
+      count(*) FILTER (WHERE (t.review ->> 'rating')::integer = 1),
+      count(*) FILTER (WHERE (t.review ->> 'rating')::integer = 2),
+      count(*) FILTER (WHERE (t.review ->> 'rating')::integer = 3),
+      count(*) FILTER (WHERE (t.review ->> 'rating')::integer = 4),
+      count(*) FILTER (WHERE (t.review ->> 'rating')::integer = 5)
+    ]::integer[]
+  FROM unnest(p_place_ids) AS requested(id)
+  JOIN tweets t
+    ON t.review IS NOT NULL
+   AND (t.place_id = requested.id OR t.place_city_id = requested.id)
+  GROUP BY requested.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_place_review_stats(text[]) TO anon, authenticated;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        itinerary,
+        review,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.itinerary,
+        due.review,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,204 @@
+/*
+  # Flight deals
+
+  1. Changes
+    - `tweets.flight_deal` (jsonb, nullable) - a fare shared on a Flights post:
+      `{ origin, destination, price, currency, travel_from, travel_to, expires_at }`
+      where `origin` and `destination` are IATA codes, `currency` is an ISO
+      4217 code, `travel_from` / `travel_to` are 'YYYY-MM-DD' or null and
+      `expires_at` is a timestamp
+    - The same column on `post_drafts`, copied onto the tweet when a scheduled
+      post is published
+    - An index on the route of tweets with a deal, for route searches like RUH-IST
+
+  2. Functions and Triggers
+    - Deals are checked before insert/update on tweets and drafts: two
+      different airports, a price above 0 and at most 1,000,000, and a travel
+      window that doesn't end before it starts
+    - `get_filtered_feed` takes `active_deals_only`, keeping posts whose deal
+      hasn't expired, so the Active deals filter is paged on the server
+    - publish_due_posts copies the draft's deal
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS flight_deal jsonb;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS flight_deal jsonb;
+
+CREATE INDEX IF NOT EXISTS tweets_flight_deal_route_idx
+  ON tweets((flight_deal ->> 'origin'), (flight_deal ->> 'destination'), created_at DESC)
+  WHERE flight_deal IS NOT NULL;
+
+-- Function to reject deals the client wouldn't have produced
+CREATE OR REPLACE FUNCTION check_flight_deal()
+RETURNS trigger AS $$
+DECLARE
+  travel_from date;
+  travel_to date;
+BEGIN
+  IF NEW.flight_deal IS NULL OR jsonb_typeof(NEW.flight_deal) = 'null' THEN
+    NEW.flight_deal := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.flight_deal) <> 'object' THEN
+    RAISE EXCEPTION 'A flight deal must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT COALESCE(NEW.flight_deal ->> 'origin', '') ~ '^[A-Z]{3}$'
+     OR NOT COALESCE(NEW.flight_deal ->> 'destination', '') ~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Flight deal airports must be IATA codes' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.flight_deal ->> 'origin' = NEW.flight_deal ->> 'destination' THEN
+    RAISE EXCEPTION 'A flight deal goes between two different airports' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with DEAL_PRICE_MAX in the client
+  IF jsonb_typeof(NEW.flight_deal -> 'price') IS DISTINCT FROM 'number'
+     OR (NEW.flight_deal ->> 'price')::numeric <= 0
+     OR (NEW.flight_deal ->> 'price')::numeric > 1000000 THEN
+    RAISE EXCEPTION 'A flight deal price must be above 0 and at most 1,000,000' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT COALESCE(NEW.flight_deal ->> 'currency', '') ~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'A flight deal currency must be an ISO 4217 code' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(NEW.flight_deal ->> 'expires_at', '') = '' THEN
+    RAISE EXCEPTION 'A flight deal needs an expiry' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    PERFORM (NEW.flight_deal ->> 'expires_at')::timestamptz;
+    travel_from := NULLIF(NEW.flight_deal ->> 'travel_from', '')::date;
+    travel_to := NULLIF(NEW.flight_deal ->> 'travel_to', '')::date;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Flight deal dates are not valid' USING ERRCODE = '22023';
+  END;
+
+  IF travel_from IS NOT NULL AND travel_to IS NOT NULL AND travel_to < travel_from THEN
+    RAISE EXCEPTION 'A flight deal travel window can''t end before it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_flight_deal_trigger ON tweets;
+CREATE TRIGGER check_flight_deal_trigger
+  BEFORE INSERT OR UPDATE OF flight_deal ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_flight_deal();
+
+DROP TRIGGER IF EXISTS check_flight_deal_trigger ON post_drafts;
+CREATE TRIGGER check_flight_deal_trigger
+  BEFORE INSERT OR UPDATE OF flight_deal ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_flight_deal();
+
+DROP FUNCTION IF EXISTS get_filtered_feed(TEXT, TEXT, BOOLEAN, TEXT, TIMESTAMPTZ, UUID, INTEGER);
+
+-- Function to page through the feed's original posts with its filters applied, newest first
+CREATE OR REPLACE FUNCTION get_filtered_feed(
+  country_code TEXT DEFAULT NULL,
+  category TEXT DEFAULT NULL,
+  following_only BOOLEAN DEFAULT FALSE,
+  city_id TEXT DEFAULT NULL,
+  active_deals_only BOOLEAN DEFAULT FALSE,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+  SELECT tweet_feed_json(t)
+  FROM tweets t
+  WHERE t.reply_to IS NULL
+    AND NOT COALESCE(t.is_retweet, false)
+    AND (country_code IS NULL OR t.tags @> ARRAY[country_code])
+    AND (category IS NULL OR t.tags @> ARRAY[category])
+    AND (city_id IS NULL OR t.place_city_id = city_id)
+    AND (
+      NOT active_deals_only
+      OR (t.flight_deal IS NOT NULL AND (t.flight_deal ->> 'expires_at')::timestamptz > now())
+    )
+    AND (
+      NOT following_only
+      OR t.author_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid())
+    )
+    AND (
+      cursor_created_at IS NULL
+      OR (t.created_at, t.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_filtered_feed(TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER) TO authenticated, anon;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        itinerary,
+        review,
+        flight_deal,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.itinerary,
+        due.review,
+        due.flight_deal,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
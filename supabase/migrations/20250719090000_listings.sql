@@ -0,0 +1,273 @@
+/*
+  # Listings
+
+  1. Changes
+    - `tweets.listing` (jsonb, nullable) - a property or car on a Real estate or
+      Car Rental post:
+      `{ kind, price, currency, period, location, bedrooms, vehicle_class,
+         available_from, available_to, contact }`
+      where `kind` is 'property' or 'car', `period` is what the price covers,
+      `available_from` / `available_to` are 'YYYY-MM-DD' or null and `contact`
+      is 'dm' or 'replies'
+    - The same column on `post_drafts`, copied onto the tweet when a scheduled
+      post is published
+    - An index on the kind of tweets with a listing
+
+  2. Functions and Triggers
+    - Listings are checked before insert/update on tweets and drafts: a known
+      kind and period, a price above 0 and at most 100,000,000, a location of
+      at most 80 characters, bedrooms only on properties and a vehicle class
+      only on cars, and an availability window that doesn't end before it starts
+    - `get_filtered_feed` takes a listing price range (in one currency) and
+      availability dates, matched like the client's listing filter, so that
+      filter is paged on the server
+    - publish_due_posts copies the draft's listing
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS listing jsonb;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS listing jsonb;
+
+CREATE INDEX IF NOT EXISTS tweets_listing_kind_idx
+  ON tweets((listing ->> 'kind'), created_at DESC)
+  WHERE listing IS NOT NULL;
+
+-- Function to reject listings the client wouldn't have produced
+CREATE OR REPLACE FUNCTION check_listing()
+RETURNS trigger AS $$
+DECLARE
+  kind text;
+  period text;
+  available_from date;
+  available_to date;
+BEGIN
+  IF NEW.listing IS NULL OR jsonb_typeof(NEW.listing) = 'null' THEN
+    NEW.listing := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.listing) <> 'object' THEN
+    RAISE EXCEPTION 'A listing must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  kind := NEW.listing ->> 'kind';
+  period := NEW.listing ->> 'period';
+
+  -- Keep in sync with LISTING_PERIODS in the client
+  IF kind = 'property' THEN
+    IF period IS NULL OR period NOT IN ('month', 'night', 'year', 'sale') THEN
+      RAISE EXCEPTION 'A property listing is priced per night, month or year, or for sale' USING ERRCODE = '22023';
+    END IF;
+  ELSIF kind = 'car' THEN
+    IF period IS NULL OR period NOT IN ('day', 'week', 'month') THEN
+      RAISE EXCEPTION 'A car listing is priced per day, week or month' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'A listing is for a property or a car' USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep in sync with LISTING_PRICE_MAX in the client
+  IF jsonb_typeof(NEW.listing -> 'price') IS DISTINCT FROM 'number'
+     OR (NEW.listing ->> 'price')::numeric <= 0
+     OR (NEW.listing ->> 'price')::numeric > 100000000 THEN
+    RAISE EXCEPTION 'A listing price must be above 0 and at most 100,000,000' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT COALESCE(NEW.listing ->> 'currency', '') ~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'A listing currency must be an ISO 4217 code' USING ERRCODE = '22023';
+  END IF;
+
+  IF btrim(COALESCE(NEW.listing ->> 'location', '')) = '' THEN
+    RAISE EXCEPTION 'A listing needs a location' USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(NEW.listing ->> 'location') > 80 THEN
+    RAISE EXCEPTION 'Listing locations must be 80 characters or less' USING ERRCODE = '22001';
+  END IF;
+
+  IF jsonb_typeof(NEW.listing -> 'bedrooms') = 'number' THEN
+    IF kind <> 'property'
+       OR (NEW.listing ->> 'bedrooms')::numeric <> trunc((NEW.listing ->> 'bedrooms')::numeric)
+       OR (NEW.listing ->> 'bedrooms')::numeric NOT BETWEEN 0 AND 20 THEN
+      RAISE EXCEPTION 'Bedrooms are a whole number from 0 to 20, on property listings' USING ERRCODE = '22023';
+    END IF;
+  ELSIF COALESCE(jsonb_typeof(NEW.listing -> 'bedrooms'), 'null') <> 'null' THEN
+    RAISE EXCEPTION 'Bedrooms must be a number' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(NEW.listing ->> 'vehicle_class', '') <> '' THEN
+    IF kind <> 'car'
+       OR NEW.listing ->> 'vehicle_class' NOT IN ('economy', 'compact', 'midsize', 'suv', 'luxury', 'van') THEN
+      RAISE EXCEPTION 'Vehicle classes are for car listings, and must be a known class' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF COALESCE(NEW.listing ->> 'contact', '') NOT IN ('dm', 'replies') THEN
+    RAISE EXCEPTION 'A listing contact is either dm or replies' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    available_from := NULLIF(NEW.listing ->> 'available_from', '')::date;
+    available_to := NULLIF(NEW.listing ->> 'available_to', '')::date;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Listing availability dates are not valid' USING ERRCODE = '22023';
+  END;
+
+  IF available_from IS NOT NULL AND available_to IS NOT NULL AND available_to < available_from THEN
+    RAISE EXCEPTION 'A listing can''t stop being available before it starts' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_listing_trigger ON tweets;
+CREATE TRIGGER check_listing_trigger
+  BEFORE INSERT OR UPDATE OF listing ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_listing();
+
+DROP TRIGGER IF EXISTS check_listing_trigger ON post_drafts;
+CREATE TRIGGER check_listing_trigger
+  BEFORE INSERT OR UPDATE OF listing ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION check_listing();
+
+DROP FUNCTION IF EXISTS get_filtered_feed(TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER);
+
+-- Function to page through the feed's original posts with its filters applied, newest first
+CREATE OR REPLACE FUNCTION get_filtered_feed(
+  country_code TEXT DEFAULT NULL,
+  category TEXT DEFAULT NULL,
+  following_only BOOLEAN DEFAULT FALSE,
+  city_id TEXT DEFAULT NULL,
+  active_deals_only BOOLEAN DEFAULT FALSE,
+  listing_currency TEXT DEFAULT NULL,
+  listing_min_price NUMERIC DEFAULT NULL,
+  listing_max_price NUMERIC DEFAULT NULL,
+  listing_available_from DATE DEFAULT NULL,
+  listing_available_to DATE DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+  SELECT tweet_feed_json(t)
+  FROM tweets t
+  WHERE t.reply_to IS NULL
+    AND NOT COALESCE(t.is_retweet, false)
+    AND (country_code IS NULL OR t.tags @> ARRAY[country_code])
+    AND (category IS NULL OR t.tags @> ARRAY[category])
+    AND (city_id IS NULL OR t.place_city_id = city_id)
+    AND (
+      NOT active_deals_only
+      OR (t.flight_deal IS NOT NULL AND (t.flight_deal ->> 'expires_at')::timestamptz > now())
+    )
+    -- Keep in sync with matchesListingFilter in the client: a price range only matches its
+    -- currency, and a listing has to be available for the whole span, open sides included
+    AND (
+      COALESCE(listing_min_price, listing_max_price) IS NULL
+      AND COALESCE(listing_available_from, listing_available_to) IS NULL
+      OR t.listing IS NOT NULL
+    )
+    AND (
+      COALESCE(listing_min_price, listing_max_price) IS NULL
+      OR t.listing ->> 'currency' = listing_currency
+    )
+    AND (listing_min_price IS NULL OR (t.listing ->> 'price')::numeric >= listing_min_price)
+    AND (listing_max_price IS NULL OR (t.listing ->> 'price')::numeric <= listing_max_price)
+    AND (
+      COALESCE(listing_available_from, listing_available_to) IS NULL
+      OR t.listing ->> 'available_from' IS NULL
+      OR (t.listing ->> 'available_from')::date <= COALESCE(listing_available_from, listing_available_to)
+    )
+    AND (
+      COALESCE(listing_available_to, listing_available_from) IS NULL
+      OR t.listing ->> 'available_to' IS NULL
+      OR (t.listing ->> 'available_to')::date >= COALESCE(listing_available_to, listing_available_from)
+    )
+    AND (
+      NOT following_only
+      OR t.author_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid())
+    )
+    AND (
+      cursor_created_at IS NULL
+      OR (t.created_at, t.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_filtered_feed(
+  TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TEXT, NUMERIC, NUMERIC, DATE, DATE, TIMESTAMPTZ, UUID, INTEGER
+) TO authenticated, anon;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        itinerary,
+        review,
+        flight_deal,
+        listing,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.itinerary,
+        due.review,
+        due.flight_deal,
+        due.listing,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
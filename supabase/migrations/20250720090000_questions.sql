@@ -0,0 +1,210 @@
+/*
+  # Questions and accepted answers
+
+  1. Changes
+    - `tweets.is_question` (boolean, default false) - the author asked this as a
+      question; only top-level posts can be questions
+    - `tweets.accepted_answer_id` (uuid, references tweets.id, nullable) - the
+      reply picked as the answer; set back to NULL if that reply is deleted
+    - `post_drafts.is_question`, copied onto the tweet when a scheduled post is
+      published
+    - An index on unanswered questions, newest first, which
+      `get_unanswered_questions` pages through
+
+  2. Functions and Triggers
+    - The accepted answer must be a reply to the question, checked before
+      insert/update on tweets
+    - `set_accepted_answer(question_id, answer_id)` lets the question's author
+      or a moderator pick the answer, or clear it with NULL
+    - `tweet_feed_json` embeds the accepted answer (author and viewer flags
+      included) as `accepted_answer`, so feeds can show it under the question
+    - `get_unanswered_questions(country_code, following_only, cursor_created_at,
+      cursor_id, page_size)` pages through open questions like `get_feed_page`,
+      optionally only those tagged with a country
+    - publish_due_posts copies the draft's question flag
+*/
+
+ALTER TABLE tweets
+  ADD COLUMN IF NOT EXISTS is_question boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS accepted_answer_id uuid REFERENCES tweets(id) ON DELETE SET NULL;
+
+ALTER TABLE post_drafts
+  ADD COLUMN IF NOT EXISTS is_question boolean NOT NULL DEFAULT false;
+
+ALTER TABLE tweets DROP CONSTRAINT IF EXISTS tweets_question_check;
+ALTER TABLE tweets ADD CONSTRAINT tweets_question_check
+  CHECK (
+    (NOT is_question OR (reply_to IS NULL AND NOT COALESCE(is_retweet, false)))
+    AND (accepted_answer_id IS NULL OR (is_question AND accepted_answer_id <> id))
+  );
+
+CREATE INDEX IF NOT EXISTS tweets_unanswered_questions_idx
+  ON tweets(created_at DESC, id DESC)
+  WHERE is_question AND accepted_answer_id IS NULL;
+
+-- Function to reject an accepted answer that isn't a reply to the question
+CREATE OR REPLACE FUNCTION check_accepted_answer()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.accepted_answer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tweets
+    WHERE id = NEW.accepted_answer_id
+      AND reply_to = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'The accepted answer must be a reply to the question' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_accepted_answer_trigger ON tweets;
+CREATE TRIGGER check_accepted_answer_trigger
+  BEFORE INSERT OR UPDATE OF accepted_answer_id ON tweets
+  FOR EACH ROW EXECUTE FUNCTION check_accepted_answer();
+
+-- Function to accept a reply as a question's answer; NULL clears it
+CREATE OR REPLACE FUNCTION set_accepted_answer(p_question_id UUID, p_answer_id UUID DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  question tweets;
+BEGIN
+  SELECT * INTO question
+  FROM tweets
+  WHERE id = p_question_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tweet not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF question.author_id IS DISTINCT FROM auth.uid() AND NOT is_moderator_or_admin() THEN
+    RAISE EXCEPTION 'Only the author or a moderator can accept an answer' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT question.is_question THEN
+    RAISE EXCEPTION 'This post is not a question' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE tweets
+  SET accepted_answer_id = p_answer_id
+  WHERE id = question.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_accepted_answer(UUID, UUID) TO authenticated;
+
+-- Same as before, plus a question's accepted answer one level deep
+CREATE OR REPLACE FUNCTION tweet_feed_json(t tweets)
+RETURNS JSONB AS $$
+  SELECT tweet_row_json(t) || jsonb_build_object(
+    'quoted_tweet', (
+      SELECT tweet_row_json(q) FROM tweets q
+      WHERE q.id = t.quoted_tweet_id
+    ),
+    'accepted_answer', (
+      SELECT tweet_row_json(a) FROM tweets a
+      WHERE a.id = t.accepted_answer_id
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to page through questions without an accepted answer, newest first
+CREATE OR REPLACE FUNCTION get_unanswered_questions(
+  country_code TEXT DEFAULT NULL,
+  following_only BOOLEAN DEFAULT FALSE,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF JSONB AS $$
+  SELECT tweet_feed_json(t)
+  FROM tweets t
+  WHERE t.is_question
+    AND t.accepted_answer_id IS NULL
+    AND (country_code IS NULL OR t.tags @> ARRAY[country_code])
+    AND (
+      NOT following_only
+      OR t.author_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid())
+    )
+    AND (
+      cursor_created_at IS NULL
+      OR (t.created_at, t.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_unanswered_questions(TEXT, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER) TO authenticated, anon;
+
+-- Function to publish scheduled posts that are due; returns how many went out
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS integer AS $$
+DECLARE
+  due post_drafts;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM post_drafts
+    WHERE status = 'scheduled'
+      AND scheduled_at <= now()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO tweets (
+        author_id,
+        content,
+        image_urls,
+        media_alt_text,
+        sensitive_media,
+        place_id,
+        place_city_id,
+        place_lat,
+        place_lon,
+        itinerary,
+        review,
+        flight_deal,
+        listing,
+        is_question,
+        hashtags,
+        mentions,
+        mentioned_user_ids,
+        tags,
+        quoted_tweet_id
+      ) VALUES (
+        due.author_id,
+        due.content,
+        due.image_urls,
+        due.media_alt_text,
+        due.sensitive_media,
+        due.place_id,
+        due.place_city_id,
+        due.place_lat,
+        due.place_lon,
+        due.itinerary,
+        due.review,
+        due.flight_deal,
+        due.listing,
+        due.is_question,
+        due.hashtags,
+        due.mentions,
+        due.mentioned_user_ids,
+        due.categories || due.countries,
+        due.quoted_tweet_id
+      );
+
+      DELETE FROM post_drafts WHERE id = due.id;
+      published := published + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,288 @@
+/*
+  # Trip planner: saved posts, notes and collaborators
+
+  1. New Tables
+    - `trip_items` - posts saved into a trip
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, references trips.id)
+      - `tweet_id` (uuid, references tweets.id) - each post at most once per trip
+      - `position` (integer) - order within the trip, appended at the end
+        when not given
+      - `added_by` (uuid, references profiles.id)
+      - `created_at`, `updated_at` (timestamptz)
+    - `trip_item_notes` - a member's own note on a saved post
+      - `item_id` (uuid, references trip_items.id)
+      - `user_id` (uuid, references profiles.id) - the note's author
+      - `note` (text, at most 500 characters)
+      - `updated_at` (timestamptz)
+    - `trip_collaborators` - people the owner invited into a trip
+      - `trip_id` (uuid, references trips.id)
+      - `user_id` (uuid, references profiles.id)
+      - `role` (text) - 'viewer' or 'editor'
+      - `invited_by` (uuid, references profiles.id)
+      - `created_at` (timestamptz)
+
+  2. Functions and Triggers
+    - `trip_access(trip_id)` - the caller's access to a trip: 'owner',
+      'editor', 'viewer' or NULL; the policies below are written with it
+    - A trip's owner can't be changed, and adding, changing or removing its
+      items stamps the trip's `updated_at`
+    - New items are appended before insert, and notes are checked before
+      they're saved
+    - `reorder_trip_items(trip_id, item_ids)` saves a new order in one call
+      for the trip's owner or editors
+
+  3. Security
+    - Trips and their items are readable by the owner and collaborators
+    - Editors can rename a trip, change its dates and countries, and add,
+      reorder and remove its items; viewers can only read
+    - Notes are private to whoever wrote them: any member can keep one on each
+      item, and nobody else on the trip, the owner included, can read it
+    - Only the owner can delete a trip or invite, change and remove
+      collaborators; a collaborator can also leave a trip
+*/
+
+CREATE TABLE IF NOT EXISTS trip_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  tweet_id uuid NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  added_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (trip_id, tweet_id)
+);
+
+CREATE INDEX IF NOT EXISTS trip_items_trip_id_idx ON trip_items(trip_id, position);
+CREATE INDEX IF NOT EXISTS trip_items_tweet_id_idx ON trip_items(tweet_id);
+
+CREATE TABLE IF NOT EXISTS trip_item_notes (
+  item_id uuid NOT NULL REFERENCES trip_items(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  note text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (item_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS trip_item_notes_user_id_idx ON trip_item_notes(user_id);
+
+CREATE TABLE IF NOT EXISTS trip_collaborators (
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+  invited_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (trip_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS trip_collaborators_user_id_idx ON trip_collaborators(user_id);
+
+-- Function to look up the caller's access to a trip; definer rights keep the policies from recursing
+CREATE OR REPLACE FUNCTION trip_access(p_trip_id UUID)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN t.owner_id = auth.uid() THEN 'owner'
+    ELSE (
+      SELECT c.role
+      FROM trip_collaborators c
+      WHERE c.trip_id = t.id
+        AND c.user_id = auth.uid()
+    )
+  END
+  FROM trips t
+  WHERE t.id = p_trip_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION trip_access(UUID) TO authenticated;
+
+-- Trips: shared with collaborators, editable by editors. The owner check comes first
+-- because trip_access can't see a row the same statement is inserting
+DROP POLICY IF EXISTS "Users can read their own trips" ON trips;
+DROP POLICY IF EXISTS "Members can read trips" ON trips;
+CREATE POLICY "Members can read trips"
+  ON trips FOR SELECT TO authenticated
+  USING (auth.uid() = owner_id OR trip_access(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can update their own trips" ON trips;
+DROP POLICY IF EXISTS "Owners and editors can update trips" ON trips;
+CREATE POLICY "Owners and editors can update trips"
+  ON trips FOR UPDATE TO authenticated
+  USING (trip_access(id) IN ('owner', 'editor'))
+  WITH CHECK (trip_access(id) IN ('owner', 'editor'));
+
+-- Function to keep a trip with its owner when an editor saves it
+CREATE OR REPLACE FUNCTION protect_trip_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'A trip''s owner can''t be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_trip_owner_trigger ON trips;
+CREATE TRIGGER protect_trip_owner_trigger
+  BEFORE UPDATE OF owner_id ON trips
+  FOR EACH ROW EXECUTE FUNCTION protect_trip_owner();
+
+-- Trip items
+ALTER TABLE trip_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read trip items" ON trip_items;
+CREATE POLICY "Members can read trip items"
+  ON trip_items FOR SELECT TO authenticated
+  USING (trip_access(trip_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners and editors can add trip items" ON trip_items;
+CREATE POLICY "Owners and editors can add trip items"
+  ON trip_items FOR INSERT TO authenticated
+  WITH CHECK (trip_access(trip_id) IN ('owner', 'editor') AND added_by = auth.uid());
+
+DROP POLICY IF EXISTS "Owners and editors can update trip items" ON trip_items;
+CREATE POLICY "Owners and editors can update trip items"
+  ON trip_items FOR UPDATE TO authenticated
+  USING (trip_access(trip_id) IN ('owner', 'editor'))
+  WITH CHECK (trip_access(trip_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Owners and editors can remove trip items" ON trip_items;
+CREATE POLICY "Owners and editors can remove trip items"
+  ON trip_items FOR DELETE TO authenticated
+  USING (trip_access(trip_id) IN ('owner', 'editor'));
+
+-- Function to append new items to the end of the trip
+CREATE OR REPLACE FUNCTION prepare_trip_item()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.position IS NULL THEN
+      SELECT COALESCE(MAX(position) + 1, 0) INTO NEW.position
+      FROM trip_items
+      WHERE trip_id = NEW.trip_id;
+    END IF;
+  ELSE
+    IF NEW.trip_id IS DISTINCT FROM OLD.trip_id OR NEW.tweet_id IS DISTINCT FROM OLD.tweet_id THEN
+      RAISE EXCEPTION 'Trip items can''t be moved to another trip or post' USING ERRCODE = '22023';
+    END IF;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_trip_item_trigger ON trip_items;
+CREATE TRIGGER prepare_trip_item_trigger
+  BEFORE INSERT OR UPDATE ON trip_items
+  FOR EACH ROW EXECUTE FUNCTION prepare_trip_item();
+
+-- Trip item notes: only their author reads or writes them, and only while still on the trip.
+-- Nobody else's access reaches them, so a note is never stamped on the trip either
+ALTER TABLE trip_item_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can manage their own trip notes" ON trip_item_notes;
+CREATE POLICY "Members can manage their own trip notes"
+  ON trip_item_notes FOR ALL TO authenticated
+  USING (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_items i WHERE i.id = item_id AND trip_access(i.trip_id) IS NOT NULL)
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_items i WHERE i.id = item_id AND trip_access(i.trip_id) IS NOT NULL)
+  );
+
+-- Function to check a note before it's saved
+CREATE OR REPLACE FUNCTION prepare_trip_item_note()
+RETURNS trigger AS $$
+BEGIN
+  NEW.note := COALESCE(NEW.note, '');
+
+  -- Keep in sync with TRIP_NOTE_MAX_LENGTH in the client
+  IF char_length(NEW.note) > 500 THEN
+    RAISE EXCEPTION 'Trip notes must be 500 characters or less' USING ERRCODE = '22001';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.item_id IS DISTINCT FROM OLD.item_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Trip notes can''t be moved to another item or author' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_trip_item_note_trigger ON trip_item_notes;
+CREATE TRIGGER prepare_trip_item_note_trigger
+  BEFORE INSERT OR UPDATE ON trip_item_notes
+  FOR EACH ROW EXECUTE FUNCTION prepare_trip_item_note();
+
+-- Function to stamp a trip as changed when its items are; check_itinerary sets the time
+CREATE OR REPLACE FUNCTION touch_trip()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE trips
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.trip_id, OLD.trip_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_trip_trigger ON trip_items;
+CREATE TRIGGER touch_trip_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON trip_items
+  FOR EACH ROW EXECUTE FUNCTION touch_trip();
+
+-- Function to save a trip's items in the given order; items left out keep their place
+CREATE OR REPLACE FUNCTION reorder_trip_items(p_trip_id UUID, p_item_ids UUID[])
+RETURNS void AS $$
+DECLARE
+  access text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM trips WHERE id = p_trip_id) THEN
+    RAISE EXCEPTION 'Trip not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  access := trip_access(p_trip_id);
+  IF access IS NULL OR access NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Only the trip''s owner or editors can reorder it' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE trip_items i
+  SET position = o.ord - 1
+  FROM unnest(p_item_ids) WITH ORDINALITY AS o(item_id, ord)
+  WHERE i.id = o.item_id
+    AND i.trip_id = p_trip_id
+    AND i.position IS DISTINCT FROM o.ord - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION reorder_trip_items(UUID, UUID[]) TO authenticated;
+
+-- Trip collaborators
+ALTER TABLE trip_collaborators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read trip collaborators" ON trip_collaborators;
+CREATE POLICY "Members can read trip collaborators"
+  ON trip_collaborators FOR SELECT TO authenticated
+  USING (trip_access(trip_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can invite trip collaborators" ON trip_collaborators;
+CREATE POLICY "Owners can invite trip collaborators"
+  ON trip_collaborators FOR INSERT TO authenticated
+  WITH CHECK (trip_access(trip_id) = 'owner' AND invited_by = auth.uid() AND user_id <> auth.uid());
+
+DROP POLICY IF EXISTS "Owners can change collaborator roles" ON trip_collaborators;
+CREATE POLICY "Owners can change collaborator roles"
+  ON trip_collaborators FOR UPDATE TO authenticated
+  USING (trip_access(trip_id) = 'owner')
+  WITH CHECK (trip_access(trip_id) = 'owner');
+
+DROP POLICY IF EXISTS "Owners can remove collaborators and collaborators can leave" ON trip_collaborators;
+CREATE POLICY "Owners can remove collaborators and collaborators can leave"
+  ON trip_collaborators FOR DELETE TO authenticated
+  USING (trip_access(trip_id) = 'owner' OR user_id = auth.uid());